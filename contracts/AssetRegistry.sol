@@ -0,0 +1,139 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+/// @title AssetRegistry - Assets that price oracles and markets can track
+/// @notice Lists assets by ID with their price feed and its decimals, so new assets can be added without redeploying
+/// @dev An asset ID is its symbol as a right-padded bytes32 (ethers.encodeBytes32String("ETH")). Assets can't be
+///      removed, since markets keep referring to them until they settle
+contract AssetRegistry {
+    // ============ Structs ============
+
+    struct AssetInfo {
+        bytes32 id; // Symbol as bytes32, zero for unlisted assets
+        string symbol; // Ticker symbol, e.g. "ETH"
+        address feed; // Chainlink USD price feed (address(0) if the asset is only priced by updaters)
+        uint8 decimals; // Decimals of the feed's answers
+    }
+
+    // ============ State Variables ============
+
+    /// @notice Listed assets by ID
+    mapping(bytes32 => AssetInfo) private assets;
+
+    /// @notice IDs of all listed assets, in listing order
+    bytes32[] private assetIds;
+
+    /// @notice Registry owner, who lists assets and sets their feeds
+    address public owner;
+
+    // ============ Events ============
+
+    event AssetAdded(bytes32 indexed assetId, string symbol, address feed, uint8 decimals);
+    event AssetFeedUpdated(bytes32 indexed assetId, address feed, uint8 decimals);
+    event OwnershipTransferred(address indexed previousOwner, address indexed newOwner);
+
+    // ============ Modifiers ============
+
+    modifier onlyOwner() {
+        require(msg.sender == owner, "Not owner");
+        _;
+    }
+
+    // ============ Constructor ============
+
+    constructor() {
+        owner = msg.sender;
+    }
+
+    // ============ Admin Functions ============
+
+    /// @notice List a new asset
+    /// @param symbol Ticker symbol (1 to 31 bytes), which also gives the asset ID
+    /// @param feed Chainlink USD price feed (use address(0) for assets priced by PriceOracle updaters only)
+    /// @param feedDecimals Decimals of the feed's answers (ignored by PriceOracle, which always uses 8)
+    /// @return assetId The new asset's ID
+    function addAsset(
+        string calldata symbol,
+        address feed,
+        uint8 feedDecimals
+    ) external onlyOwner returns (bytes32 assetId) {
+        assetId = toAssetId(symbol);
+        require(assets[assetId].id == 0, "Asset already listed");
+        require(feedDecimals <= 18, "Invalid decimals");
+
+        assets[assetId] = AssetInfo({id: assetId, symbol: symbol, feed: feed, decimals: feedDecimals});
+        assetIds.push(assetId);
+
+        emit AssetAdded(assetId, symbol, feed, feedDecimals);
+    }
+
+    /// @notice Change the price feed of a listed asset
+    /// @param assetId The asset to update
+    /// @param feed The new Chainlink USD price feed (address(0) to remove it)
+    /// @param feedDecimals Decimals of the new feed's answers
+    function setFeed(bytes32 assetId, address feed, uint8 feedDecimals) external onlyOwner {
+        require(assets[assetId].id != 0, "Unknown asset");
+        require(feedDecimals <= 18, "Invalid decimals");
+
+        assets[assetId].feed = feed;
+        assets[assetId].decimals = feedDecimals;
+
+        emit AssetFeedUpdated(assetId, feed, feedDecimals);
+    }
+
+    /// @notice Transfer ownership
+    /// @param newOwner The new owner address
+    function transferOwnership(address newOwner) external onlyOwner {
+        require(newOwner != address(0), "Invalid address");
+        emit OwnershipTransferred(owner, newOwner);
+        owner = newOwner;
+    }
+
+    // ============ View Functions ============
+
+    /// @notice Get a listed asset
+    /// @param assetId The asset to query
+    /// @return info The asset's symbol, feed and feed decimals
+    function getAsset(bytes32 assetId) external view returns (AssetInfo memory info) {
+        info = assets[assetId];
+        require(info.id != 0, "Unknown asset");
+    }
+
+    /// @notice Get the price feed of an asset
+    /// @param assetId The asset to query
+    /// @return feed The feed address (address(0) if the asset is unlisted or has no feed)
+    /// @return feedDecimals Decimals of the feed's answers
+    function getFeed(bytes32 assetId) external view returns (address feed, uint8 feedDecimals) {
+        return (assets[assetId].feed, assets[assetId].decimals);
+    }
+
+    /// @notice Check if an asset is listed
+    /// @param assetId The asset to check
+    /// @return True if the asset is listed
+    function isListed(bytes32 assetId) external view returns (bool) {
+        return assets[assetId].id != 0;
+    }
+
+    /// @notice Get all listed assets, in listing order
+    /// @return All listed assets with their feeds
+    function getAssets() external view returns (AssetInfo[] memory) {
+        AssetInfo[] memory list = new AssetInfo[](assetIds.length);
+        for (uint256 i = 0; i < assetIds.length; i++) {
+            list[i] = assets[assetIds[i]];
+        }
+        return list;
+    }
+
+    /// @notice Get the number of listed assets
+    function getAssetCount() external view returns (uint256) {
+        return assetIds.length;
+    }
+
+    /// @notice Get the ID of a symbol
+    /// @param symbol Ticker symbol (1 to 31 bytes)
+    /// @return The symbol as a right-padded bytes32
+    function toAssetId(string calldata symbol) public pure returns (bytes32) {
+        require(bytes(symbol).length > 0 && bytes(symbol).length < 32, "Invalid symbol");
+        return bytes32(bytes(symbol));
+    }
+}
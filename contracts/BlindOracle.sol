@@ -1,14 +1,22 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.24;
 
-import { FHE, euint8, euint64, externalEuint8, externalEuint64 } from "@fhevm/solidity/lib/FHE.sol";
+import { FHE, ebool, euint8, euint64, externalEuint8, externalEuint64 } from "@fhevm/solidity/lib/FHE.sol";
 import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
-import { PriceOracle } from "./PriceOracle.sol";
+import { IERC20 } from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import { IERC20Permit } from "@openzeppelin/contracts/token/ERC20/extensions/IERC20Permit.sol";
+import { SafeERC20 } from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import { IPriceOracle } from "./IPriceOracle.sol";
+import { IConfidentialFungibleToken } from "./IConfidentialFungibleToken.sol";
+import { ConfidentialPayout } from "./ConfidentialPayout.sol";
+import { CommitIntent } from "./CommitIntent.sol";
 
 /// @title BlindOracle - Privacy-Preserving Prediction Market
 /// @notice A production-ready prediction market with three phases: Blind Commitment, Price Discovery, and Free Trading
 /// @dev Uses Zama fhEVM for homomorphic encryption with async decryption via Gateway
 contract BlindOracle is SepoliaConfig {
+    using SafeERC20 for IERC20;
+
     // ============ Enums ============
 
     /// @notice Market phases (Simplified - removed FreeTrading/AMM)
@@ -16,26 +24,61 @@ contract BlindOracle is SepoliaConfig {
         BlindCommitment,      // Phase 0: Users submit encrypted predictions
         Aggregating,          // Phase 1: Aggregating encrypted bets
         AwaitingDecryption,   // Phase 2: Waiting for decryption callback
-        Settled               // Phase 3: Market settled, winners can claim
+        Settled,              // Phase 3: Market settled, winners can claim
+        Cancelled             // Phase 4: Market stuck past its grace period or won by nobody, users claim refunds
     }
 
     /// @notice Market types
     enum MarketType {
         Event,      // Event prediction - manually settled by owner
-        Price       // Price prediction - automatically settled via oracle
+        Price,      // Price prediction - automatically settled via oracle
+        Categorical, // Multi-outcome event prediction - manually settled by owner
+        Scalar      // Price range prediction - bucket containing the oracle price wins
+    }
+
+    /// @notice Dispute state of a proposed owner settlement
+    enum DisputeStatus {
+        None,       // Not challenged
+        Disputed,   // Challenged: finalization paused until the arbiter rules
+        Upheld,     // Challengers were right: owner stake slashed, outcome corrected
+        Rejected    // Proposal confirmed: challenger bonds forfeited to the owner
+    }
+
+    /// @notice Claim state of a participant after settlement
+    enum ClaimState {
+        None,       // No claim requested yet
+        Pending,    // Claim requested, waiting for the decryption callback
+        Won,        // Prediction matched the outcome and the payout was sent
+        Lost,       // Prediction did not match the outcome; nothing to pay
+        Confidential // Encrypted payout sent (0 for a losing prediction); only the claimant can decrypt it
     }
 
     // ============ Structs ============
 
     /// @notice User commitment data
     struct Commitment {
-        euint8 encryptedPrediction;  // 0 = NO, 1 = YES
-        euint64 encryptedAmount;     // Bet amount in wei
+        euint8 encryptedPrediction;  // Outcome index (binary markets: 0 = NO, 1 = YES)
+        euint64 encryptedAmount;     // Bet amount in collateral base units
         bool hasCommitted;
+        uint256 participantIndex;    // Position in participants, so a withdrawn commitment can be removed
+    }
+
+    /// @notice Fees deducted from the winner pool at settlement, in basis points of the pool
+    struct FeeConfig {
+        address protocolFeeRecipient;  // Receives the protocol fee
+        uint16 protocolFeeBps;         // Protocol fee, set by the factory admin
+        uint16 creatorFeeBps;          // Creator fee, paid to the market owner
+        uint16 exitPenaltyBps;         // Early-exit penalty on withdrawn commitments, left in the pool
     }
 
     // ============ State Variables ============
 
+    /// @notice Maximum number of outcomes in a categorical market
+    uint8 public constant MAX_OUTCOMES = 8;
+
+    /// @notice Maximum combined protocol and creator fee (10% of the pool)
+    uint256 public constant MAX_TOTAL_FEE_BPS = 1000;
+
     /// @notice Current market phase
     Phase public currentPhase;
 
@@ -56,31 +99,97 @@ contract BlindOracle is SepoliaConfig {
 
     // Price prediction specific fields
     /// @notice Price oracle contract (only for price prediction markets)
-    PriceOracle public priceOracle;
+    IPriceOracle public priceOracle;
 
-    /// @notice Target asset for price prediction (only for price markets)
-    PriceOracle.Asset public targetAsset;
+    /// @notice AssetRegistry ID of the target asset (only for price and scalar markets, see getPriceMarketInfo)
+    bytes32 internal targetAsset;
 
     /// @notice Target price for prediction (scaled by 1e8, only for price markets)
     uint256 public targetPrice;
 
+    /// @notice Length of the window ending at eventDeadline whose time-weighted average price settles the market
+    /// @dev 0 settles on the price in effect at eventDeadline (price and scalar markets)
+    uint256 public twapWindow;
+
+    /// @notice Outcome labels, indexed by prediction value (binary markets: "No", "Yes", empty for scalar markets)
+    string[] private outcomeLabels;
+
+    /// @notice Ascending price bucket boundaries (scaled by 1e8, only for scalar markets)
+    /// @dev n boundaries define n + 1 buckets: [0, b0), [b0, b1), ..., [b(n-1), infinity)
+    uint256[] private bucketBoundaries;
+
+    /// @notice Oracle price used to settle the market (price and scalar markets)
+    uint256 public settlementPrice;
+
+    /// @notice Oracle that supplied the settlement price: the market's oracle, or the source a fallback oracle used
+    address public settlementSource;
+
+    /// @notice ERC-20 token used as collateral for bets, stakes, bonds and payouts (address(0) = native ETH)
+    IERC20 public collateralToken;
+
+    /// @notice Confidential (ERC-7984 style) token used for bets and payouts instead (address(0) = not confidential)
+    /// @dev Deposits, withdrawals, payouts and refunds move encrypted amounts, so neither the winners nor their
+    ///      payouts are revealed. Only oracle-settled markets, which have no owner stake or challenge bonds
+    IConfidentialFungibleToken public confidentialToken;
+
+    /// @notice How long a stuck market waits before anyone can cancel it (in seconds)
+    /// @dev Counted from the aggregate decryption request, or from the event deadline if settlement never happens
+    uint256 public refundGracePeriod;
+
+    // Confidential balance vault
+    /// @notice Encrypted vault balance per user (deposited funds not yet committed to a bet)
+    mapping(address => euint64) private encryptedBalances;
+
+    /// @notice Whether the user has funded the vault at least once
+    mapping(address => bool) public hasDeposited;
+
+    /// @notice Whether the user has a withdrawal waiting for its decryption callback
+    mapping(address => bool) public hasPendingWithdrawal;
+
+    /// @notice Withdrawal request ID => user who requested it
+    mapping(uint256 => address) private withdrawalRequestUsers;
+
+    /// @notice Cleartext amount deposited into the vault minus completed withdrawals (refunded on cancellation)
+    mapping(address => uint256) public depositedAmounts;
+
+    /// @notice Whether the user has claimed their refund from a cancelled market
+    mapping(address => bool) public hasRefunded;
+
+    /// @notice Total bet amount committed by all participants (decrypted pool, excludes vault balances)
+    uint256 public totalPoolAmount;
+
     // Phase 1: User commitments
     /// @notice User commitments mapping
     mapping(address => Commitment) private commitments;
 
-    /// @notice List of all participants
+    /// @notice List of all participants (users who withdrew their commitment are removed)
     address[] public participants;
 
-    // Phase 2: Encrypted aggregates
-    /// @notice Encrypted total amount bet on YES
-    euint64 private encryptedTotalYes;
+    /// @notice Withdrawal request IDs that pay out a withdrawn commitment instead of vault balance
+    mapping(uint256 => bool) private isCommitmentWithdrawal;
+
+    /// @notice Number of signed commit intents used by each user, which is the nonce of their next intent
+    mapping(address => uint256) public intentNonces;
+
+    /// @notice Early-exit penalties kept from each user's withdrawn commitments, still counted in their deposit
+    mapping(address => uint256) private retainedPenalties;
 
-    /// @notice Encrypted total amount bet on NO
-    euint64 private encryptedTotalNo;
+    /// @notice Number of commitment withdrawals waiting for their decryption callback
+    uint256 public pendingCommitmentWithdrawals;
+
+    /// @notice Early-exit penalties kept from withdrawn commitments, added to the winner pool at settlement
+    uint256 public exitPenalties;
+
+    // Phase 2: Encrypted aggregates
+    /// @notice Encrypted running total amount bet on each outcome (updated by every commitment)
+    euint64[] private encryptedOutcomeTotals;
 
     /// @notice Request ID for aggregate decryption
     uint256 private aggregateDecryptionRequestId;
 
+    /// @notice Timestamp of the aggregate decryption request (starts the refund grace period)
+    uint256 public decryptionRequestedAt;
+
     /// @notice Whether aggregation has been completed
     bool public isAggregated;
 
@@ -91,109 +200,420 @@ contract BlindOracle is SepoliaConfig {
     /// @notice Total amount bet on NO (decrypted)
     uint256 public totalNoAmount;
 
+    /// @notice Total amount bet on each outcome (decrypted)
+    uint256[] private outcomeTotals;
+
     // Phase 3: Settlement
     /// @notice Whether the market has been settled
     bool public isSettled;
 
-    /// @notice Final outcome: true = YES won, false = NO won
+    /// @notice Final outcome: true = YES won, false = NO won (binary markets only)
     bool public finalOutcome;
 
+    /// @notice Index of the winning outcome (binary markets: 0 = NO, 1 = YES)
+    uint8 public winningOutcome;
+
     /// @notice Timestamp when settlement was proposed (for challenge period)
-    uint256 public settlementProposedTime;
+    uint256 private settlementProposedTime;
+
+    /// @notice Proposed outcome (during challenge period, binary markets only)
+    bool private proposedOutcome;
 
-    /// @notice Proposed outcome (during challenge period)
-    bool public proposedOutcome;
+    /// @notice Proposed winning outcome index (during challenge period)
+    uint8 public proposedOutcomeIndex;
 
     /// @notice Whether settlement has been proposed (waiting for challenge period)
     bool public isSettlementProposed;
 
+    // Winner pool accounting
+    /// @notice Amount shared among winners: the committed bets plus any slashed owner stake moved to the pool,
+    ///         minus the protocol and creator fees
+    /// @dev Snapshotted once at settlement and never changed afterwards, so claim order cannot change payouts
+    uint256 public winnerPool;
+
+    /// @notice Total bet on the winning outcome, snapshotted together with winnerPool
+    uint256 public winningStake;
+
+    /// @notice Bets of the winners who have already claimed
+    uint256 public claimedWinningStake;
+
+    /// @notice Sum of all payouts sent to winners (never exceeds winnerPool)
+    uint256 public totalPaidOut;
+
+    // Fees
+    /// @notice Fee configuration, fixed at market creation
+    FeeConfig public feeConfig;
+
+    /// @notice Fees each recipient can still withdraw
+    mapping(address => uint256) public feeBalances;
+
     /// @notice Challenge period duration (24 hours)
     uint256 public constant CHALLENGE_PERIOD = 24 hours;
 
     /// @notice Owner's stake (10% of total pool, locked until settlement is finalized)
     uint256 public ownerStake;
 
-    /// @notice Track if user has claimed rewards
+    // Disputes
+    /// @notice Address that rules on disputed settlements (e.g. a multisig or committee contract)
+    address public arbiter;
+
+    /// @notice Dispute state of the proposed settlement
+    DisputeStatus public disputeStatus;
+
+    /// @notice Bond posted by each challenger
+    mapping(address => uint256) public challengeBonds;
+
+    /// @notice Sum of all challenger bonds
+    uint256 public totalChallengeBonds;
+
+    /// @notice Part of the slashed owner stake shared among challengers, pro rata to their bonds
+    uint256 public challengerSlashReward;
+
+    /// @notice Part of the slashed owner stake added to the winner pool
+    uint256 public slashedStakeToWinners;
+
+    /// @notice Track if user's claim has been resolved, whether they won or lost
     mapping(address => bool) public hasClaimed;
 
+    /// @notice Claim state of each participant
+    mapping(address => ClaimState) private claimStates;
+
+    /// @notice Amount paid to each winning claimant
+    mapping(address => uint256) private claimPayouts;
+
+    /// @notice Encrypted payout of each claimant in a confidential-collateral market (decryptable by the claimant)
+    mapping(address => euint64) private encryptedPayouts;
+
     // Claim rewards tracking (Simplified - removed token allocation)
-    /// @notice Pending claim requests
-    mapping(address => uint256) private claimRequestIds;
+    /// @notice Latest claim request of each user; earlier requests are ignored when their callback arrives
+    mapping(address => uint256) public claimRequestIds;
+
+    /// @notice Claim request ID => user who requested it, cleared once the request is resolved
+    mapping(uint256 => address) public claimRequestUsers;
 
     // ============ Events ============
 
     event MarketCreated(string eventDescription, uint256 commitmentDeadline, uint256 eventDeadline);
+    event Deposited(address indexed user, uint256 amount);
+    event ConfidentialDeposited(address indexed user, euint64 amount);
+    event ConfidentialPaidOut(address indexed user, euint64 amount);
+    event WithdrawalRequested(address indexed user, uint256 requestId);
+    event Withdrawn(address indexed user, uint256 amount);
     event PredictionCommitted(address indexed user);
+    event CommitmentRelayed(address indexed user, address indexed relayer, uint256 fee);
+    event CommitmentIncreased(address indexed user);
+    event PredictionRevised(address indexed user);
+    event CommitmentWithdrawn(address indexed user, uint256 refund, uint256 penalty);
     event PhaseTransitioned(Phase newPhase);
     event AggregationStarted();
     event DecryptionRequested(uint256 requestId);
     event PriceDiscovered(uint256 totalYes, uint256 totalNo);
+    event OutcomeTotalsDiscovered(uint256[] totals);
     event SettlementProposed(bool outcome, uint256 challengeDeadline);
-    event SettlementChallenged(address indexed challenger);
+    event OutcomeProposed(uint8 outcomeIndex, uint256 challengeDeadline);
+    event SettlementChallenged(address indexed challenger, uint256 bond);
+    event DisputeResolved(bool upheld, uint8 outcomeIndex);
+    event ChallengeBondsForfeited(uint256 amount);
+    event DisputePayoutClaimed(address indexed challenger, uint256 amount);
     event MarketSettled(bool outcome);
+    event PriceSettled(uint256 price, address indexed source);
+    event OutcomeSettled(uint8 outcomeIndex);
     event OwnerStakeDeposited(uint256 amount);
     event OwnerStakeReturned(uint256 amount);
     event OwnerStakeSlashed(uint256 amount);
     event ClaimRequested(address indexed user, uint256 requestId);
     event RewardsClaimed(address indexed user, uint256 amount);
+    event ClaimResolved(address indexed user, bool won, uint256 payout);
+    event FeesAccrued(uint256 protocolFee, uint256 creatorFee);
+    event FeesWithdrawn(address indexed recipient, uint256 amount);
+    event MarketCancelled(Phase stuckPhase);
+    event Refunded(address indexed user, uint256 amount);
 
     // ============ Modifiers ============
 
     modifier onlyOwner() {
-        require(msg.sender == owner, "Only owner can call this");
+        _checkOwner();
         _;
     }
 
     modifier onlyInPhase(Phase _phase) {
-        require(currentPhase == _phase, "Invalid phase for this operation");
+        _checkPhase(_phase);
         _;
     }
 
     // ============ Constructor ============
 
     /// @notice Create a new prediction market
-    /// @param _marketType Type of market (Event or Price)
+    /// @param _owner Market owner / resolver (the creator when deployed through MarketFactory)
+    /// @param _marketType Type of market (Event, Price, Categorical or Scalar)
     /// @param _eventDescription Description of the event to predict
     /// @param _commitmentDuration Duration of the blind commitment phase (in seconds)
     /// @param _eventDuration Duration from commitment deadline to event deadline (in seconds)
     /// @param _priceOracle Address of the price oracle contract (only for price markets, use address(0) for event markets)
-    /// @param _targetAsset The asset to track (only for price markets)
+    /// @param _targetAsset AssetRegistry ID of the asset to track (only for price and scalar markets)
     /// @param _targetPrice The target price to predict (scaled by 1e8, only for price markets)
+    /// @param _outcomeLabels Outcome labels (only for categorical markets, 2 to MAX_OUTCOMES entries)
+    /// @param _bucketBoundaries Ascending bucket boundaries (only for scalar markets, scaled by 1e8)
+    /// @param _refundGracePeriod Time a stuck market waits before it can be cancelled and refunded (in seconds)
+    /// @param _arbiter Rules on disputed settlements (required for owner-resolved markets, must not be the owner)
+    /// @param _fees Protocol and creator fees taken from the winner pool at settlement, and the early-exit penalty
+    /// @param _collateralToken ERC-20 collateral token (use address(0) for native ETH)
+    /// @param _confidentialToken Confidential collateral token (price and scalar markets only, address(0) for none)
+    /// @param _twapWindow Seconds before eventDeadline averaged for settlement (price and scalar markets, 0 for spot)
     constructor(
+        address _owner,
         MarketType _marketType,
         string memory _eventDescription,
         uint256 _commitmentDuration,
         uint256 _eventDuration,
         address _priceOracle,
-        PriceOracle.Asset _targetAsset,
-        uint256 _targetPrice
+        bytes32 _targetAsset,
+        uint256 _targetPrice,
+        string[] memory _outcomeLabels,
+        uint256[] memory _bucketBoundaries,
+        uint256 _refundGracePeriod,
+        address _arbiter,
+        FeeConfig memory _fees,
+        address _collateralToken,
+        address _confidentialToken,
+        uint256 _twapWindow
     ) {
-        owner = msg.sender;
+        require(_owner != address(0), "Invalid owner address");
+        require(_refundGracePeriod > 0, "Invalid refund grace period");
+        require(uint256(_fees.protocolFeeBps) + _fees.creatorFeeBps <= MAX_TOTAL_FEE_BPS, "Fee too high");
+        require(_fees.protocolFeeBps == 0 || _fees.protocolFeeRecipient != address(0), "Invalid fee recipient");
+        require(_fees.exitPenaltyBps <= 10000, "Exit penalty too high");
+
+        owner = _owner;
         currentPhase = Phase.BlindCommitment;
         marketType = _marketType;
         eventDescription = _eventDescription;
         commitmentDeadline = block.timestamp + _commitmentDuration;
         // Event deadline is calculated from commitment deadline, not deployment time
         eventDeadline = commitmentDeadline + _eventDuration;
+        refundGracePeriod = _refundGracePeriod;
+
+        // Owner-resolved markets need an independent arbiter for disputed settlements
+        if (_isOwnerResolved()) {
+            require(_arbiter != address(0) && _arbiter != _owner, "Invalid arbiter address");
+        }
+        arbiter = _arbiter;
+        feeConfig = _fees;
+        collateralToken = IERC20(_collateralToken);
+
+        // Confidential markets hold a single collateral, and have no plaintext stake or bonds to verify
+        require(_confidentialToken == address(0) || _collateralToken == address(0), "Choose one collateral token");
+        require(_confidentialToken == address(0) || !_isOwnerResolved(), "Confidential needs oracle market");
+        confidentialToken = IConfidentialFungibleToken(_confidentialToken);
+
+        // The averaging window must fit within the event period
+        require(_twapWindow <= _eventDuration, "TWAP window too long");
+        twapWindow = _twapWindow;
 
         // Validate price market parameters
         if (_marketType == MarketType.Price) {
             require(_priceOracle != address(0), "Invalid oracle address");
             require(_targetPrice > 0, "Invalid target price");
 
-            priceOracle = PriceOracle(_priceOracle);
+            priceOracle = IPriceOracle(_priceOracle);
             targetAsset = _targetAsset;
             targetPrice = _targetPrice;
         }
 
+        // Validate scalar market parameters
+        if (_marketType == MarketType.Scalar) {
+            require(_priceOracle != address(0), "Invalid oracle address");
+            require(
+                _bucketBoundaries.length >= 1 && _bucketBoundaries.length < MAX_OUTCOMES,
+                "Invalid bucket count"
+            );
+            for (uint256 i = 0; i < _bucketBoundaries.length; i++) {
+                uint256 lowerBound = i == 0 ? 0 : _bucketBoundaries[i - 1];
+                require(_bucketBoundaries[i] > lowerBound, "Bucket boundaries must be ascending");
+                bucketBoundaries.push(_bucketBoundaries[i]);
+            }
+
+            priceOracle = IPriceOracle(_priceOracle);
+            targetAsset = _targetAsset;
+        } else {
+            require(_bucketBoundaries.length == 0, "Bucket boundaries only for scalar markets");
+        }
+
+        // Categorical markets bring their own outcomes; binary markets are always NO (0) / YES (1)
+        if (_marketType == MarketType.Categorical) {
+            require(
+                _outcomeLabels.length >= 2 && _outcomeLabels.length <= MAX_OUTCOMES,
+                "Invalid outcome count"
+            );
+            for (uint256 i = 0; i < _outcomeLabels.length; i++) {
+                require(bytes(_outcomeLabels[i]).length > 0, "Outcome label cannot be empty");
+                outcomeLabels.push(_outcomeLabels[i]);
+            }
+        } else {
+            require(_outcomeLabels.length == 0, "Outcome labels only for categorical markets");
+            if (_marketType != MarketType.Scalar) {
+                outcomeLabels.push("No");
+                outcomeLabels.push("Yes");
+            }
+        }
+
+        // Running totals start uninitialized, which FHE.add treats as 0
+        encryptedOutcomeTotals = new euint64[](_outcomeCount());
+
         emit MarketCreated(_eventDescription, commitmentDeadline, eventDeadline);
     }
 
+    // ============ Confidential Balance Vault ============
+
+    /// @notice Deposit ETH into your encrypted vault balance (ETH-collateralized markets)
+    /// @dev Deposits are public, but the part of the balance later committed to a bet stays encrypted
+    function deposit() external payable {
+        require(address(collateralToken) == address(0), "Market uses token collateral");
+        _deposit(msg.value);
+    }
+
+    /// @notice Deposit collateral tokens into your encrypted vault balance (token-collateralized markets)
+    /// @dev Requires an allowance of at least `amount` for this market
+    /// @param amount Amount to deposit in token base units
+    function depositTokens(uint256 amount) external {
+        require(address(collateralToken) != address(0), "Market uses ETH collateral");
+        _deposit(_receiveCollateral(amount));
+    }
+
+    /// @notice Approve via EIP-2612 permit and deposit collateral tokens in one transaction
+    /// @dev A permit that was front-run still left the allowance in place, so its failure is ignored
+    ///      and the transfer decides whether the deposit goes through
+    /// @param amount Amount to deposit in token base units
+    /// @param deadline Permit deadline
+    function depositTokensWithPermit(uint256 amount, uint256 deadline, uint8 v, bytes32 r, bytes32 s) external {
+        require(address(collateralToken) != address(0), "Market uses ETH collateral");
+        try IERC20Permit(address(collateralToken)).permit(msg.sender, address(this), amount, deadline, v, r, s) {
+        } catch {}
+        _deposit(_receiveCollateral(amount));
+    }
+
+    /// @notice Deposit an encrypted amount of the confidential collateral token into your vault
+    /// @dev The market must be an operator of the caller (see setOperator). If the token balance is too small,
+    ///      the token moves 0 and the vault is credited with 0
+    /// @param encryptedAmount Encrypted amount in token base units
+    /// @param amountProof Zero-knowledge proof for the amount
+    function depositConfidential(externalEuint64 encryptedAmount, bytes calldata amountProof) external {
+        require(address(confidentialToken) != address(0), "Market uses public collateral");
+        require(currentPhase != Phase.Cancelled, "Market cancelled");
+
+        euint64 requested = FHE.fromExternal(encryptedAmount, amountProof);
+        FHE.allowTransient(requested, address(confidentialToken));
+        euint64 received = confidentialToken.confidentialTransferFrom(msg.sender, address(this), requested);
+
+        euint64 balance = FHE.add(encryptedBalances[msg.sender], received);
+        encryptedBalances[msg.sender] = balance;
+        hasDeposited[msg.sender] = true;
+
+        FHE.allowThis(balance);
+        FHE.allow(balance, msg.sender);
+        FHE.allowThis(received);
+        FHE.allow(received, msg.sender);
+
+        emit ConfidentialDeposited(msg.sender, received);
+    }
+
+    /// @dev Credit a deposit that has already been received to the caller's vault. The vault and the bet are
+    ///      euint64 and never hold more than depositedAmounts, so capping it keeps them from wrapping
+    function _deposit(uint256 amount) private {
+        require(address(confidentialToken) == address(0), "Market uses confidential token");
+        require(currentPhase != Phase.Cancelled, "Market cancelled");
+        require(amount > 0, "Must deposit collateral");
+        require(depositedAmounts[msg.sender] + amount <= type(uint64).max, "Deposit too large");
+
+        euint64 balance = FHE.add(encryptedBalances[msg.sender], FHE.asEuint64(uint64(amount)));
+        encryptedBalances[msg.sender] = balance;
+        hasDeposited[msg.sender] = true;
+        depositedAmounts[msg.sender] += amount;
+
+        FHE.allowThis(balance);
+        FHE.allow(balance, msg.sender);
+
+        emit Deposited(msg.sender, amount);
+    }
+
+    /// @notice Request a withdrawal from your vault balance (paid out by the decryption callback)
+    /// @dev If the balance is too small nothing is debited and the callback pays out 0.
+    ///      Confidential-collateral markets transfer the encrypted debit right away, without decryption
+    /// @param amount Amount to withdraw in collateral base units
+    function requestWithdrawal(uint64 amount) external {
+        require(amount > 0, "Invalid amount");
+        require(hasDeposited[msg.sender], "No vault balance");
+        require(!hasPendingWithdrawal[msg.sender], "Withdrawal already pending");
+
+        // Underflow protection: debit the requested amount only if the balance covers it
+        euint64 debit = _debitVault(msg.sender, FHE.asEuint64(amount), FHE.asEbool(true));
+        FHE.allowThis(debit);
+
+        if (address(confidentialToken) != address(0)) {
+            _sendConfidential(msg.sender, debit);
+            return;
+        }
+
+        _requestWithdrawalPayout(msg.sender, debit);
+    }
+
+    /// @notice Callback function for withdrawal decryption
+    /// @dev Called by the decryption oracle with the amount actually debited from the vault, or with the bet
+    ///      amount of a withdrawn commitment, which pays out minus the early-exit penalty. The penalty is still
+    ///      counted in depositedAmounts, so a market that ends up cancelled refunds it as well
+    function callbackWithdrawal(uint256 requestId, bytes memory cleartexts, bytes memory decryptionProof) public {
+        address user = withdrawalRequestUsers[requestId];
+        require(user != address(0), "Unknown withdrawal request");
+        delete withdrawalRequestUsers[requestId];
+
+        // The refund of a cancelled market already paid out the whole deposit, so a late withdrawal pays nothing
+        if (hasRefunded[user]) {
+            return;
+        }
+
+        // Verify signatures from KMS
+        FHE.checkSignatures(requestId, cleartexts, decryptionProof);
+
+        uint256 amount = abi.decode(cleartexts, (uint64));
+        if (isCommitmentWithdrawal[requestId]) {
+            uint256 penalty = (amount * feeConfig.exitPenaltyBps) / 10000;
+            amount -= penalty;
+            exitPenalties += penalty;
+            retainedPenalties[user] += penalty;
+            pendingCommitmentWithdrawals--;
+            emit CommitmentWithdrawn(user, amount, penalty);
+        }
+
+        hasPendingWithdrawal[user] = false;
+        if (address(confidentialToken) == address(0)) {
+            depositedAmounts[user] -= amount;
+        }
+
+        if (amount > 0) {
+            _sendCollateral(user, amount);
+        }
+
+        emit Withdrawn(user, amount);
+    }
+
+    /// @notice Get my encrypted vault balance (decryptable by the caller)
+    function getMyBalance() external view returns (euint64) {
+        return encryptedBalances[msg.sender];
+    }
+
+    /// @notice Get a user's encrypted vault balance handle (for client-side decryption)
+    /// @param user The user address
+    function getEncryptedBalance(address user) external view returns (euint64) {
+        return encryptedBalances[user];
+    }
+
     // ============ Phase 1: Blind Commitment ============
 
-    /// @notice Submit an encrypted prediction and bet amount
-    /// @param encryptedPrediction Encrypted prediction (0 = NO, 1 = YES)
-    /// @param encryptedAmount Encrypted bet amount in wei
+    /// @notice Submit an encrypted prediction and bet amount, debited from your vault balance
+    /// @dev If the vault balance does not cover the encrypted amount, or the prediction is not a valid
+    ///      outcome index, the bet is recorded as 0. Use increaseCommitment or revisePrediction to change it later
+    /// @param encryptedPrediction Encrypted outcome index (binary markets: 0 = NO, 1 = YES)
+    /// @param encryptedAmount Encrypted bet amount in collateral base units
     /// @param predictionProof Zero-knowledge proof for the prediction
     /// @param amountProof Zero-knowledge proof for the amount
     function commitPrediction(
@@ -201,88 +621,179 @@ contract BlindOracle is SepoliaConfig {
         externalEuint64 encryptedAmount,
         bytes calldata predictionProof,
         bytes calldata amountProof
-    ) external payable onlyInPhase(Phase.BlindCommitment) {
+    ) external onlyInPhase(Phase.BlindCommitment) {
+        _commitPrediction(
+            msg.sender,
+            FHE.fromExternal(encryptedPrediction, predictionProof),
+            FHE.fromExternal(encryptedAmount, amountProof)
+        );
+    }
+
+    /// @notice Submit a commitment signed off-chain by `user`, who does not need ETH for gas
+    /// @dev The relayer sending the transaction is reimbursed `relayerFee` out of the user's vault balance, before the
+    ///      bet is debited. With cleartext collateral the fee is paid right away: the user must have no commitment and
+    ///      no pending withdrawal, so their vault balance is their deposit minus retained early-exit penalties, and
+    ///      that must cover the fee. Confidential-collateral markets pay the fee debited, or nothing if the balance
+    ///      does not cover it.
+    ///      The encrypted inputs must be created for this market and the relayer's address, and the user signs the
+    ///      EIP-712 CommitIntent over their handles, the fee, their next nonce and the deadline
+    /// @param user Address that signed the intent and places the bet
+    /// @param encryptedPrediction Encrypted outcome index (binary markets: 0 = NO, 1 = YES)
+    /// @param encryptedAmount Encrypted bet amount in collateral base units
+    /// @param inputProof Zero-knowledge proof for both encrypted inputs
+    /// @param relayerFee Fee the relayer asks for in collateral base units
+    /// @param deadline Timestamp after which the intent can no longer be relayed
+    /// @param signature The user's EIP-712 signature of the intent
+    function commitPredictionFor(
+        address user,
+        externalEuint8 encryptedPrediction,
+        externalEuint64 encryptedAmount,
+        bytes calldata inputProof,
+        uint64 relayerFee,
+        uint256 deadline,
+        bytes calldata signature
+    ) external onlyInPhase(Phase.BlindCommitment) {
+        CommitIntent.verify(
+            intentNonces,
+            user,
+            externalEuint8.unwrap(encryptedPrediction),
+            externalEuint64.unwrap(encryptedAmount),
+            relayerFee,
+            deadline,
+            signature
+        );
+
+        // Take the fee first so the bet can only spend what is left
+        euint64 fee = _debitVault(user, FHE.asEuint64(relayerFee), FHE.asEbool(true));
+        _commitPrediction(
+            user,
+            FHE.fromExternal(encryptedPrediction, inputProof),
+            FHE.fromExternal(encryptedAmount, inputProof)
+        );
+
+        if (address(confidentialToken) != address(0)) {
+            _sendConfidential(msg.sender, fee);
+        } else {
+            // With no commitment or withdrawal pending, the vault balance is the deposit minus retained penalties,
+            // so when that covers the fee the debit above took all of it
+            require(!hasPendingWithdrawal[user], "Withdrawal already pending");
+            require(depositedAmounts[user] - retainedPenalties[user] >= relayerFee, "Relayer fee exceeds balance");
+            depositedAmounts[user] -= relayerFee;
+            _sendCollateral(msg.sender, relayerFee);
+        }
+
+        emit CommitmentRelayed(user, msg.sender, relayerFee);
+    }
+
+    /// @dev Record `user`'s first commitment, debiting the bet from their vault balance
+    function _commitPrediction(address user, euint8 prediction, euint64 requested) private {
         require(block.timestamp < commitmentDeadline, "Commitment period has ended");
-        require(!commitments[msg.sender].hasCommitted, "Already committed");
-        require(msg.value > 0, "Must send ETH with commitment");
+        require(!commitments[user].hasCommitted, "Already committed");
+        require(hasDeposited[user], "Deposit to your vault balance first");
 
-        // Protection 1: Owner cannot participate in their own market (for Event markets)
-        if (marketType == MarketType.Event) {
-            require(msg.sender != owner, "Owner cannot participate in event markets");
+        // Protection 1: Owner cannot participate in their own market (for owner-resolved markets)
+        if (_isOwnerResolved()) {
+            require(user != owner, "Owner cannot participate in event markets");
         }
 
-        // Convert external encrypted inputs to internal encrypted types
-        euint8 prediction = FHE.fromExternal(encryptedPrediction, predictionProof);
-        euint64 amount = FHE.fromExternal(encryptedAmount, amountProof);
+        // Debit the vault balance, falling back to 0 if it would underflow or the outcome is out of range
+        ebool isValidOutcome = FHE.lt(prediction, uint8(encryptedOutcomeTotals.length));
+        euint64 amount = _debitVault(user, requested, isValidOutcome);
+        _updateOutcomeTotals(prediction, amount, false);
 
-        // Store encrypted commitment
-        commitments[msg.sender] = Commitment({
-            encryptedPrediction: prediction,
-            encryptedAmount: amount,
-            hasCommitted: true
-        });
-        
-        participants.push(msg.sender);
+        // Store encrypted commitment; a participant is only ever pushed here, so the list has no duplicates
+        commitments[user].hasCommitted = true;
+        commitments[user].participantIndex = participants.length;
+        participants.push(user);
+        _storeCommitment(user, prediction, amount);
 
-        // Grant FHE permissions for user to decrypt their own commitment
-        FHE.allowThis(prediction);
-        FHE.allow(prediction, msg.sender);
-        FHE.allowThis(amount);
-        FHE.allow(amount, msg.sender);
+        emit PredictionCommitted(user);
+    }
 
-        emit PredictionCommitted(msg.sender);
+    /// @notice Add an encrypted amount from your vault balance to your existing bet, on the same side
+    /// @dev If the vault balance does not cover the extra amount, or the bet is on an out-of-range outcome that no
+    ///      running total counts, nothing is added
+    /// @param encryptedAmount Encrypted extra amount in collateral base units
+    /// @param amountProof Zero-knowledge proof for the amount
+    function increaseCommitment(
+        externalEuint64 encryptedAmount,
+        bytes calldata amountProof
+    ) external onlyInPhase(Phase.BlindCommitment) {
+        Commitment storage commitment = _openCommitment();
+
+        ebool isValidOutcome = FHE.lt(commitment.encryptedPrediction, uint8(encryptedOutcomeTotals.length));
+        euint64 extra = _debitVault(msg.sender, FHE.fromExternal(encryptedAmount, amountProof), isValidOutcome);
+        _updateOutcomeTotals(commitment.encryptedPrediction, extra, false);
+        _storeCommitment(msg.sender, commitment.encryptedPrediction, FHE.add(commitment.encryptedAmount, extra));
+
+        emit CommitmentIncreased(msg.sender);
+    }
+
+    /// @notice Move your whole bet to another encrypted outcome
+    /// @dev The amount is taken off the old outcome's running total and added to the new one, so nobody can
+    ///      tell whether the side changed. An out-of-range outcome keeps the current prediction
+    /// @param encryptedPrediction Encrypted new outcome index (binary markets: 0 = NO, 1 = YES)
+    /// @param predictionProof Zero-knowledge proof for the prediction
+    function revisePrediction(
+        externalEuint8 encryptedPrediction,
+        bytes calldata predictionProof
+    ) external onlyInPhase(Phase.BlindCommitment) {
+        Commitment storage commitment = _openCommitment();
+
+        euint8 current = commitment.encryptedPrediction;
+        euint8 requested = FHE.fromExternal(encryptedPrediction, predictionProof);
+        ebool isValidOutcome = FHE.lt(requested, uint8(encryptedOutcomeTotals.length));
+        euint8 prediction = FHE.select(isValidOutcome, requested, current);
+
+        _updateOutcomeTotals(current, commitment.encryptedAmount, true);
+        _updateOutcomeTotals(prediction, commitment.encryptedAmount, false);
+        _storeCommitment(msg.sender, prediction, commitment.encryptedAmount);
+
+        emit PredictionRevised(msg.sender);
+    }
+
+    /// @notice Back out of your bet before the commitment deadline, for a refund minus the early-exit penalty
+    /// @dev The bet leaves the encrypted running totals at once; its amount is then decrypted and the withdrawal
+    ///      callback pays the refund. The penalty stays in the contract and joins the winner pool at settlement.
+    ///      You can commit again afterwards
+    function withdrawCommitment() external onlyInPhase(Phase.BlindCommitment) {
+        Commitment storage commitment = _openCommitment();
+        require(!hasPendingWithdrawal[msg.sender], "Withdrawal already pending");
+
+        euint64 amount = commitment.encryptedAmount;
+        _updateOutcomeTotals(commitment.encryptedPrediction, amount, true);
+
+        // Move the last participant into the freed slot
+        uint256 index = commitment.participantIndex;
+        address last = participants[participants.length - 1];
+        participants[index] = last;
+        commitments[last].participantIndex = index;
+        participants.pop();
+        delete commitments[msg.sender];
+
+        uint256 requestId = _requestWithdrawalPayout(msg.sender, amount);
+        isCommitmentWithdrawal[requestId] = true;
+        pendingCommitmentWithdrawals++;
     }
 
     /// @notice Get my encrypted commitment (only callable by the user who committed)
     /// @return prediction Encrypted prediction
     /// @return amount Encrypted amount
     function getMyCommitment() external view returns (euint8 prediction, euint64 amount) {
-        require(commitments[msg.sender].hasCommitted, "No commitment found");
         Commitment storage commitment = commitments[msg.sender];
+        require(commitment.hasCommitted, "No commitment found");
         return (commitment.encryptedPrediction, commitment.encryptedAmount);
     }
 
     // ============ Phase 2: Price Discovery ============
 
-    /// @notice Step 1: Aggregate all encrypted bets using FHE operations
-    /// @dev Callable by anyone after commitment deadline (Simplified - removed onlyOwner)
+    /// @notice Step 1: Close commitments so the encrypted totals can be decrypted
+    /// @dev Callable by anyone after commitment deadline. Every commitment already added its bet to the
+    ///      encrypted running totals, so this step costs the same however many participants the market has
     function aggregateBets() external onlyInPhase(Phase.BlindCommitment) {
         require(block.timestamp >= commitmentDeadline, "Commitment period not ended");
         require(participants.length > 0, "No participants");
-
-        // Initialize encrypted aggregates to zero
-        encryptedTotalYes = FHE.asEuint64(0);
-        encryptedTotalNo = FHE.asEuint64(0);
-
-        // Aggregate all encrypted bets using homomorphic operations
-        for (uint256 i = 0; i < participants.length; i++) {
-            address participant = participants[i];
-            Commitment storage commitment = commitments[participant];
-
-            euint8 prediction = commitment.encryptedPrediction;
-            euint64 amount = commitment.encryptedAmount;
-
-            // Create flags: isYes = 1 if prediction == 1, else 0
-            euint8 isYes = prediction;
-            // isNo = 1 - isYes
-            euint8 isNo = FHE.sub(FHE.asEuint8(1), prediction);
-
-            // Convert euint8 flags to euint64 for multiplication
-            euint64 isYes64 = FHE.asEuint64(isYes);
-            euint64 isNo64 = FHE.asEuint64(isNo);
-
-            // Calculate contributions: amount * flag
-            euint64 yesContribution = FHE.mul(amount, isYes64);
-            euint64 noContribution = FHE.mul(amount, isNo64);
-
-            // Add to running totals
-            encryptedTotalYes = FHE.add(encryptedTotalYes, yesContribution);
-            encryptedTotalNo = FHE.add(encryptedTotalNo, noContribution);
-        }
-
-        // Grant permissions for this contract to use the aggregated values
-        FHE.allowThis(encryptedTotalYes);
-        FHE.allowThis(encryptedTotalNo);
+        require(pendingCommitmentWithdrawals == 0, "Commitment withdrawal pending");
 
         isAggregated = true;
 
@@ -297,10 +808,11 @@ contract BlindOracle is SepoliaConfig {
     function requestAggregateDecryption() external onlyInPhase(Phase.Aggregating) {
         require(isAggregated, "Bets not aggregated yet");
 
-        // Prepare ciphertexts for decryption
-        bytes32[] memory cts = new bytes32[](2);
-        cts[0] = FHE.toBytes32(encryptedTotalYes);
-        cts[1] = FHE.toBytes32(encryptedTotalNo);
+        // Prepare ciphertexts for decryption (one total per outcome)
+        bytes32[] memory cts = new bytes32[](encryptedOutcomeTotals.length);
+        for (uint256 i = 0; i < cts.length; i++) {
+            cts[i] = FHE.toBytes32(encryptedOutcomeTotals[i]);
+        }
 
         // Request decryption with callback to callbackAggregateDecryption
         aggregateDecryptionRequestId = FHE.requestDecryption(
@@ -309,6 +821,7 @@ contract BlindOracle is SepoliaConfig {
         );
 
         // Transition to AwaitingDecryption phase
+        decryptionRequestedAt = block.timestamp;
         currentPhase = Phase.AwaitingDecryption;
         emit DecryptionRequested(aggregateDecryptionRequestId);
         emit PhaseTransitioned(Phase.AwaitingDecryption);
@@ -325,41 +838,59 @@ contract BlindOracle is SepoliaConfig {
         bytes memory decryptionProof
     ) public {
         require(requestId == aggregateDecryptionRequestId, "Invalid request ID");
+
+        // Late answer for a market that was cancelled while waiting: refunds are already open, ignore it
+        if (currentPhase == Phase.Cancelled) {
+            return;
+        }
         require(currentPhase == Phase.AwaitingDecryption, "Invalid phase");
 
         // Verify signatures from KMS
         FHE.checkSignatures(requestId, cleartexts, decryptionProof);
 
-        // Decode decrypted values (uint64, uint64)
-        (uint64 yesAmount, uint64 noAmount) = abi.decode(cleartexts, (uint64, uint64));
+        // Decode decrypted values (one uint64 per outcome)
+        uint256 outcomeCount = _outcomeCount();
+        require(cleartexts.length == outcomeCount * 32, "Invalid cleartexts length");
 
-        totalYesAmount = uint256(yesAmount);
-        totalNoAmount = uint256(noAmount);
+        uint256 totalPool = 0;
+        delete outcomeTotals;
+        for (uint256 i = 0; i < outcomeCount; i++) {
+            uint256 outcomeTotal = _readCleartextWord(cleartexts, i);
+            outcomeTotals.push(outcomeTotal);
+            totalPool += outcomeTotal;
+        }
+        totalPoolAmount = totalPool;
 
         // Simplified: Skip FreeTrading, go directly to Settled
         // Owner will set the final outcome
         currentPhase = Phase.Settled;
 
-        emit PriceDiscovered(totalYesAmount, totalNoAmount);
+        if (marketType == MarketType.Event || marketType == MarketType.Price) {
+            totalNoAmount = outcomeTotals[0];
+            totalYesAmount = outcomeTotals[1];
+            emit PriceDiscovered(totalYesAmount, totalNoAmount);
+        }
+        emit OutcomeTotalsDiscovered(outcomeTotals);
         emit PhaseTransitioned(Phase.Settled);
     }
 
     // ============ Phase 3: Settlement ============
 
     /// @notice Owner deposits stake (10% of total pool) before proposing settlement
-    /// @dev Protection 2: Owner must stake to prevent malicious settlement
+    /// @dev Protection 2: Owner must stake to prevent malicious settlement.
+    ///      Token-collateralized markets pull exactly the required stake from the owner's allowance
     function depositOwnerStake() external payable onlyOwner onlyInPhase(Phase.Settled) {
-        require(marketType == MarketType.Event, "Only for event markets");
+        require(_isOwnerResolved(), "Only for event markets");
         require(!isSettlementProposed, "Settlement already proposed");
         require(ownerStake == 0, "Stake already deposited");
 
-        uint256 totalPool = totalYesAmount + totalNoAmount;
-        uint256 requiredStake = totalPool / 10; // 10% of total pool
+        uint256 requiredStake = totalPoolAmount / 10; // 10% of total pool
 
-        require(msg.value >= requiredStake, "Insufficient stake");
+        uint256 stake = _receiveCollateral(requiredStake);
+        require(stake >= requiredStake, "Insufficient stake");
 
-        ownerStake = msg.value;
-        emit OwnerStakeDeposited(msg.value);
+        ownerStake = stake;
+        emit OwnerStakeDeposited(stake);
     }
 
     /// @notice Propose settlement outcome (starts 24-hour challenge period)
@@ -367,94 +898,215 @@ contract BlindOracle is SepoliaConfig {
     /// @param outcome The proposed outcome: true = YES won, false = NO won
     function proposeSettlement(bool outcome) external onlyOwner onlyInPhase(Phase.Settled) {
         require(marketType == MarketType.Event, "Only for event markets");
+
+        proposedOutcome = outcome;
+        _proposeOutcome(outcome ? 1 : 0);
+
+        emit SettlementProposed(outcome, block.timestamp + CHALLENGE_PERIOD);
+    }
+
+    /// @notice Propose the winning outcome of a categorical market (starts 24-hour challenge period)
+    /// @param outcomeIndex Index of the winning outcome in the outcome labels
+    function proposeCategoricalSettlement(uint8 outcomeIndex) external onlyOwner onlyInPhase(Phase.Settled) {
+        require(marketType == MarketType.Categorical, "Only for categorical markets");
+        require(outcomeIndex < outcomeLabels.length, "Invalid outcome");
+
+        _proposeOutcome(outcomeIndex);
+    }
+
+    /// @dev Shared checks and bookkeeping for owner-proposed settlements
+    function _proposeOutcome(uint8 outcomeIndex) private {
         require(!isSettled, "Already settled");
         require(!isSettlementProposed, "Settlement already proposed");
         require(block.timestamp >= eventDeadline, "Event not ended yet");
         require(ownerStake > 0, "Must deposit stake first");
 
-        proposedOutcome = outcome;
+        proposedOutcomeIndex = outcomeIndex;
         isSettlementProposed = true;
         settlementProposedTime = block.timestamp;
 
-        emit SettlementProposed(outcome, block.timestamp + CHALLENGE_PERIOD);
+        emit OutcomeProposed(outcomeIndex, block.timestamp + CHALLENGE_PERIOD);
     }
 
     /// @notice Finalize settlement after challenge period expires
     /// @dev Can be called by anyone after 24 hours
     function finalizeSettlement() external onlyInPhase(Phase.Settled) {
-        require(marketType == MarketType.Event, "Only for event markets");
+        require(_isOwnerResolved(), "Only for event markets");
         require(isSettlementProposed, "Settlement not proposed");
         require(!isSettled, "Already settled");
+        require(disputeStatus == DisputeStatus.None, "Settlement disputed");
         require(block.timestamp >= settlementProposedTime + CHALLENGE_PERIOD, "Challenge period not ended");
 
-        finalOutcome = proposedOutcome;
-        isSettled = true;
+        _settleProposedOutcome();
 
         // Return stake to owner
         uint256 stakeToReturn = ownerStake;
         ownerStake = 0;
-        (bool success, ) = owner.call{value: stakeToReturn}("");
-        require(success, "Stake return failed");
+        _sendCollateral(owner, stakeToReturn);
 
         emit OwnerStakeReturned(stakeToReturn);
-        emit MarketSettled(finalOutcome);
     }
 
-    /// @notice Challenge a proposed settlement (placeholder for future dispute mechanism)
-    /// @dev In a full implementation, this would trigger a dispute resolution process
-    function challengeSettlement() external onlyInPhase(Phase.Settled) {
+    /// @dev Settle the market on the (possibly arbiter-corrected) proposed outcome
+    function _settleProposedOutcome() private {
+        _settle(proposedOutcomeIndex);
+    }
+
+    /// @dev Settle the market on a winning outcome index (1 = YES in event and price markets).
+    ///      If nobody bet on that outcome there is nobody to pay the pool to, so the market is cancelled instead
+    ///      and every participant gets a refund
+    function _settle(uint8 outcomeIndex) private {
+        if (outcomeTotals[outcomeIndex] == 0) {
+            _cancel();
+            return;
+        }
+
+        winningOutcome = outcomeIndex;
+        isSettled = true;
+        _snapshotWinnerPool();
+
+        if (marketType == MarketType.Event || marketType == MarketType.Price) {
+            finalOutcome = outcomeIndex == 1;
+            emit MarketSettled(finalOutcome);
+        }
+        emit OutcomeSettled(outcomeIndex);
+    }
+
+    // ============ Disputes ============
+
+    /// @notice Challenge a proposed settlement by posting a bond (see getChallengeBond)
+    /// @dev The first challenge pauses finalization until the arbiter rules; other participants can join
+    ///      the dispute with their own bond until the challenge period ends.
+    ///      Token-collateralized markets pull the bond from the challenger's allowance
+    function challengeSettlement() external payable onlyInPhase(Phase.Settled) {
         require(isSettlementProposed, "No settlement to challenge");
         require(!isSettled, "Already settled");
         require(block.timestamp < settlementProposedTime + CHALLENGE_PERIOD, "Challenge period ended");
         require(commitments[msg.sender].hasCommitted, "Must be a participant");
+        require(challengeBonds[msg.sender] == 0, "Already challenged");
+        uint256 bond = _receiveCollateral(getChallengeBond());
+        require(bond > 0 && bond == getChallengeBond(), "Incorrect challenge bond");
 
-        // For now, just emit an event
-        // In a full implementation, this would:
-        // 1. Pause the settlement
-        // 2. Trigger a dispute resolution mechanism (e.g., DAO vote, multi-sig arbitration)
-        // 3. Potentially slash owner's stake if challenge is valid
+        challengeBonds[msg.sender] = bond;
+        totalChallengeBonds += bond;
+        disputeStatus = DisputeStatus.Disputed;
 
-        emit SettlementChallenged(msg.sender);
+        emit SettlementChallenged(msg.sender, bond);
+    }
 
-        // TODO: Implement full dispute resolution
-        // For MVP, challenges are recorded but don't automatically block settlement
+    /// @notice Rule on a disputed settlement and settle the market
+    /// @dev Upheld: the owner stake is slashed, half to the challengers and half into the winners' pool. If nobody
+    ///      bet on the correct outcome the market is cancelled instead (see _settle), and the challengers get the
+    ///      whole stake, still through claimDisputePayout.
+    ///      Rejected: the proposed outcome stands and the challenger bonds go to the owner with their stake.
+    /// @param upheld Whether the challengers were right
+    /// @param outcomeIndex The correct winning outcome (ignored when the dispute is rejected)
+    function resolveDispute(bool upheld, uint8 outcomeIndex) external onlyInPhase(Phase.Settled) {
+        require(msg.sender == arbiter, "Only arbiter can call this");
+        require(disputeStatus == DisputeStatus.Disputed, "No active dispute");
+
+        uint256 stake = ownerStake;
+        ownerStake = 0;
+
+        if (upheld) {
+            require(outcomeIndex < outcomeLabels.length, "Invalid outcome");
+            require(outcomeIndex != proposedOutcomeIndex, "Outcome matches proposal");
+
+            disputeStatus = DisputeStatus.Upheld;
+            proposedOutcomeIndex = outcomeIndex;
+            proposedOutcome = outcomeIndex == 1;
+
+            challengerSlashReward = outcomeTotals[outcomeIndex] == 0 ? stake : stake / 2;
+            slashedStakeToWinners = stake - challengerSlashReward;
+            emit OwnerStakeSlashed(stake);
+        } else {
+            disputeStatus = DisputeStatus.Rejected;
+
+            _sendCollateral(owner, stake + totalChallengeBonds);
+
+            emit ChallengeBondsForfeited(totalChallengeBonds);
+            emit OwnerStakeReturned(stake);
+        }
+
+        emit DisputeResolved(upheld, proposedOutcomeIndex);
+        _settleProposedOutcome();
     }
 
-    /// @notice Automatically settle price prediction market using oracle
+    /// @notice Collect your bond plus your share of the slashed owner stake after an upheld dispute
+    function claimDisputePayout() external {
+        require(disputeStatus == DisputeStatus.Upheld, "Dispute not upheld");
+        uint256 bond = challengeBonds[msg.sender];
+        require(bond > 0, "No bond to claim");
+
+        challengeBonds[msg.sender] = 0;
+        uint256 payout = bond + (challengerSlashReward * bond) / totalChallengeBonds;
+
+        _sendCollateral(msg.sender, payout);
+
+        emit DisputePayoutClaimed(msg.sender, payout);
+    }
+
+    /// @notice Bond required to challenge the proposed settlement (10% of the owner stake)
+    function getChallengeBond() public view returns (uint256) {
+        return ownerStake / 10;
+    }
+
+    /// @notice Automatically settle price or scalar market using the oracle's TWAP over twapWindow
     /// @dev Can be called by anyone after event deadline
     /// @dev Requires aggregation and decryption to be completed first
-    function settlePriceMarket() external {
-        require(marketType == MarketType.Price, "Only for price markets");
+    /// @dev When the oracle has no price to average, anyone can bring a price report signed off-chain by the oracle's
+    ///      signers, which must price eventDeadline (see PriceOracle.verifyReportAt)
+    /// @param roundHint The oracle round in effect at eventDeadline (from the oracle's findRoundAt)
+    /// @param report ABI-encoded (price, reportTimestamp, signatures) signed report, or empty to settle on the TWAP
+    function settlePriceMarket(uint80 roundHint, bytes calldata report) external {
+        require(marketType == MarketType.Price || marketType == MarketType.Scalar, "Only for price markets");
         require(!isSettled, "Already settled");
         require(block.timestamp >= eventDeadline, "Event not ended yet");
-        require(address(priceOracle) != address(0), "Oracle not set");
 
         // Must be in Settled phase (after decryption callback)
         // If aggregation/decryption was forgotten, user must call them first
         require(currentPhase == Phase.Settled, "Must complete aggregation and decryption first");
-        require(totalYesAmount > 0 || totalNoAmount > 0, "No bets to settle");
-
-        // Get current price from oracle
-        (uint256 currentPrice, ) = priceOracle.getPrice(targetAsset);
-
-        // Determine outcome: YES if price >= target, NO otherwise
-        finalOutcome = currentPrice >= targetPrice;
-        isSettled = true;
-
-        emit MarketSettled(finalOutcome);
+        require(totalPoolAmount > 0, "No bets to settle");
+
+        // Average price over the window ending at the deadline (or a signed price of the deadline), so the result
+        // does not depend on when this is called
+        (uint256 currentPrice, address source) =
+            priceOracle.getSettlementPrice(targetAsset, eventDeadline, twapWindow, roundHint, report);
+        settlementPrice = currentPrice;
+        settlementSource = source;
+        emit PriceSettled(currentPrice, source);
+
+        uint8 outcomeIndex = 0;
+        if (marketType == MarketType.Scalar) {
+            // Winning bucket is the number of boundaries at or below the price
+            while (outcomeIndex < bucketBoundaries.length && currentPrice >= bucketBoundaries[outcomeIndex]) {
+                outcomeIndex++;
+            }
+        } else if (currentPrice >= targetPrice) {
+            // Determine outcome: YES if price >= target, NO otherwise
+            outcomeIndex = 1;
+        }
+        _settle(outcomeIndex);
     }
 
     /// @notice Request to claim rewards after settlement (Simplified - uses async decryption)
-    /// @dev Winners receive their proportional share of the total pool
+    /// @dev Winners receive their proportional share of the total pool.
+    ///      Confidential-collateral markets pay at once, without decrypting the prediction or the amount
     function claimRewards() external onlyInPhase(Phase.Settled) {
         require(isSettled, "Market not settled yet");
         require(!hasClaimed[msg.sender], "Already claimed rewards");
-        require(commitments[msg.sender].hasCommitted, "Did not participate");
+        Commitment storage commitment = commitments[msg.sender];
+        require(commitment.hasCommitted, "Did not participate");
+
+        if (address(confidentialToken) != address(0)) {
+            _claimConfidential(commitment);
+            return;
+        }
 
         // Prepare ciphertexts for decryption (prediction and amount)
         bytes32[] memory cts = new bytes32[](2);
-        cts[0] = FHE.toBytes32(commitments[msg.sender].encryptedPrediction);
-        cts[1] = FHE.toBytes32(commitments[msg.sender].encryptedAmount);
+        cts[0] = FHE.toBytes32(commitment.encryptedPrediction);
+        cts[1] = FHE.toBytes32(commitment.encryptedAmount);
 
         // Request decryption with callback
         uint256 requestId = FHE.requestDecryption(
@@ -463,12 +1115,16 @@ contract BlindOracle is SepoliaConfig {
         );
 
         claimRequestIds[msg.sender] = requestId;
+        claimRequestUsers[requestId] = msg.sender;
+        claimStates[msg.sender] = ClaimState.Pending;
 
         emit ClaimRequested(msg.sender, requestId);
     }
 
     /// @notice Callback function for claim rewards decryption
-    /// @dev Called by the decryption oracle to process reward claim
+    /// @dev Called by the decryption oracle to process reward claim.
+    ///      A request superseded by a newer one from the same user, or arriving after the user
+    ///      already claimed, is dropped without reverting so it cannot block the oracle
     function callbackClaimRewards(
         uint256 requestId,
         bytes memory cleartexts,
@@ -477,41 +1133,303 @@ contract BlindOracle is SepoliaConfig {
         require(currentPhase == Phase.Settled, "Invalid phase");
         require(isSettled, "Market not settled");
 
-        // Verify signatures from KMS
-        FHE.checkSignatures(requestId, cleartexts, decryptionProof);
+        address user = claimRequestUsers[requestId];
+        require(user != address(0), "Unknown claim request");
+        delete claimRequestUsers[requestId];
 
-        // Find the user who made this request
-        address user = address(0);
-        for (uint256 i = 0; i < participants.length; i++) {
-            if (claimRequestIds[participants[i]] == requestId) {
-                user = participants[i];
-                break;
-            }
+        if (claimRequestIds[user] != requestId || hasClaimed[user]) {
+            return;
         }
 
-        require(user != address(0), "User not found for request");
-        require(!hasClaimed[user], "Already claimed");
+        // Verify signatures from KMS
+        FHE.checkSignatures(requestId, cleartexts, decryptionProof);
 
         // Decode decrypted values (uint8 prediction, uint64 amount)
         (uint8 prediction, uint64 amount) = abi.decode(cleartexts, (uint8, uint64));
 
-        // Check if user won
-        bool won = (prediction == 1 && finalOutcome) || (prediction == 0 && !finalOutcome);
-        require(won, "You lost");
-
         hasClaimed[user] = true;
 
-        // Calculate payout: (user's amount / total winning amount) * total pool
+        // A losing prediction is a final answer, not an error: record it instead of reverting.
+        // So is a winning prediction with no amount behind it (its vault debit failed), which earns nothing
+        if (prediction != winningOutcome || amount == 0) {
+            claimStates[user] = ClaimState.Lost;
+            emit ClaimResolved(user, false, 0);
+            return;
+        }
+
+        // Calculate payout: (user's amount / winning stake) * winner pool, both fixed at settlement.
+        // Rounding down keeps every payout within the pool; the last winner to claim receives the dust,
+        // so the payouts add up to exactly winnerPool
         uint256 userAmount = uint256(amount);
-        uint256 totalWinningAmount = finalOutcome ? totalYesAmount : totalNoAmount;
-        uint256 totalPool = address(this).balance;
-        uint256 payout = (userAmount * totalPool) / totalWinningAmount;
+        claimedWinningStake += userAmount;
+        uint256 payout = claimedWinningStake == winningStake
+            ? winnerPool - totalPaidOut
+            : (userAmount * winnerPool) / winningStake;
+        totalPaidOut += payout;
+
+        claimStates[user] = ClaimState.Won;
+        claimPayouts[user] = payout;
 
         // Transfer payout to user
-        (bool success, ) = user.call{value: payout}("");
-        require(success, "ETH transfer failed");
+        _sendCollateral(user, payout);
 
         emit RewardsClaimed(user, payout);
+        emit ClaimResolved(user, true, payout);
+    }
+
+    /// @dev Pay the caller `amount × winnerPool / winningStake` if their encrypted prediction won, else 0,
+    ///      computed and transferred as an encrypted amount. The rounding dust stays in the market, since
+    ///      nobody can tell which claim is the last winning one
+    function _claimConfidential(Commitment storage commitment) private {
+        euint64 zero = FHE.asEuint64(0);
+
+        // A settled market always has a winning stake, since a market nobody won is cancelled instead
+        euint64 share = ConfidentialPayout.share(commitment.encryptedAmount, winnerPool, winningStake);
+        euint64 payout = FHE.select(FHE.eq(commitment.encryptedPrediction, winningOutcome), share, zero);
+
+        hasClaimed[msg.sender] = true;
+        claimStates[msg.sender] = ClaimState.Confidential;
+        encryptedPayouts[msg.sender] = payout;
+        FHE.allowThis(payout);
+        FHE.allow(payout, msg.sender);
+
+        _sendConfidential(msg.sender, payout);
+    }
+
+    // ============ Fees ============
+
+    /// @notice Withdraw the protocol or creator fees owed to you
+    function withdrawFees() external {
+        uint256 amount = feeBalances[msg.sender];
+        require(amount > 0, "No fees to withdraw");
+        feeBalances[msg.sender] = 0;
+
+        _sendCollateral(msg.sender, amount);
+
+        emit FeesWithdrawn(msg.sender, amount);
+    }
+
+    // ============ Cancellation & Refunds ============
+
+    /// @notice Cancel a market that got stuck, so every participant can claim a refund
+    /// @dev Callable by anyone once the grace period has passed, if the decryption callback never arrived
+    ///      (for the aggregate totals, or for a commitment withdrawal holding up aggregation),
+    ///      the market was never settled after the event deadline (e.g. the oracle price is stale),
+    ///      or the arbiter never ruled on a disputed settlement
+    function cancelMarket() external {
+        uint256 cancellableAt = _cancellableAt();
+        require(cancellableAt != 0, "Market cannot be cancelled");
+        require(block.timestamp >= cancellableAt, "Grace period not ended");
+
+        _cancel();
+    }
+
+    /// @notice Refund everything you deposited into the vault (minus completed withdrawals)
+    /// @dev The owner also gets back their stake, and challengers their bond if the market was cancelled while the
+    ///      dispute was pending. Once the arbiter ruled, bonds are paid (claimDisputePayout) or forfeited instead.
+    ///      A withdrawal still pending at this point is voided: its callback pays nothing after the refund.
+    ///      Confidential-collateral markets refund the encrypted vault balance plus the encrypted bet
+    function claimRefund() external onlyInPhase(Phase.Cancelled) {
+        require(!hasRefunded[msg.sender], "Already refunded");
+
+        if (address(confidentialToken) != address(0)) {
+            require(hasDeposited[msg.sender], "Nothing to refund");
+            hasRefunded[msg.sender] = true;
+
+            euint64 refundAmount = FHE.add(encryptedBalances[msg.sender], commitments[msg.sender].encryptedAmount);
+            encryptedBalances[msg.sender] = FHE.asEuint64(0);
+            FHE.allowThis(refundAmount);
+            FHE.allow(refundAmount, msg.sender);
+
+            _sendConfidential(msg.sender, refundAmount);
+            return;
+        }
+
+        uint256 refund = depositedAmounts[msg.sender];
+        depositedAmounts[msg.sender] = 0;
+        if (msg.sender == owner) {
+            refund += ownerStake;
+            ownerStake = 0;
+        }
+        if (disputeStatus == DisputeStatus.Disputed) {
+            refund += challengeBonds[msg.sender];
+            challengeBonds[msg.sender] = 0;
+        }
+        require(refund > 0, "Nothing to refund");
+
+        hasRefunded[msg.sender] = true;
+        hasPendingWithdrawal[msg.sender] = false;
+
+        _sendCollateral(msg.sender, refund);
+
+        emit Refunded(msg.sender, refund);
+    }
+
+    /// @notice Timestamp from which the market can be cancelled (0 if it is not stuck)
+    function getCancellableAt() external view returns (uint256) {
+        return _cancellableAt();
+    }
+
+    // ============ Internal Helpers ============
+
+    /// @dev Body of the onlyOwner modifier, kept out of line so it is not copied into every function
+    function _checkOwner() private view {
+        require(msg.sender == owner, "Only owner can call this");
+    }
+
+    /// @dev Body of the onlyInPhase modifier, kept out of line so it is not copied into every function
+    function _checkPhase(Phase _phase) private view {
+        require(currentPhase == _phase, "Invalid phase for this operation");
+    }
+
+    /// @dev The caller's commitment, checked to still be open for changes
+    function _openCommitment() private view returns (Commitment storage commitment) {
+        require(block.timestamp < commitmentDeadline, "Commitment period has ended");
+        commitment = commitments[msg.sender];
+        require(commitment.hasCommitted, "No commitment found");
+    }
+
+    /// @dev Request decryption of `amount`, which callbackWithdrawal then pays out of `user`'s deposit
+    /// @return requestId The decryption request ID
+    function _requestWithdrawalPayout(address user, euint64 amount) private returns (uint256 requestId) {
+        bytes32[] memory cts = new bytes32[](1);
+        cts[0] = FHE.toBytes32(amount);
+        requestId = FHE.requestDecryption(cts, this.callbackWithdrawal.selector);
+
+        hasPendingWithdrawal[user] = true;
+        withdrawalRequestUsers[requestId] = user;
+
+        emit WithdrawalRequested(user, requestId);
+    }
+
+    /// @dev Debit `requested` from `user`'s vault if it covers the amount and `isAllowed` holds, else debit 0
+    /// @return amount Amount actually debited
+    function _debitVault(address user, euint64 requested, ebool isAllowed) private returns (euint64 amount) {
+        euint64 balance = encryptedBalances[user];
+        ebool hasFunds = FHE.le(requested, balance);
+        amount = FHE.select(FHE.and(hasFunds, isAllowed), requested, FHE.asEuint64(0));
+
+        balance = FHE.sub(balance, amount);
+        encryptedBalances[user] = balance;
+        FHE.allowThis(balance);
+        FHE.allow(balance, user);
+    }
+
+    /// @dev Add `amount` to (or subtract it from) the running total of `prediction`, and 0 to every other outcome
+    function _updateOutcomeTotals(euint8 prediction, euint64 amount, bool subtract) private {
+        euint64 zero = FHE.asEuint64(0);
+        for (uint256 j = 0; j < encryptedOutcomeTotals.length; j++) {
+            euint64 delta = FHE.select(FHE.eq(prediction, uint8(j)), amount, zero);
+            euint64 total = subtract
+                ? FHE.sub(encryptedOutcomeTotals[j], delta)
+                : FHE.add(encryptedOutcomeTotals[j], delta);
+            FHE.allowThis(total);
+            encryptedOutcomeTotals[j] = total;
+        }
+    }
+
+    /// @dev Save `user`'s encrypted prediction and amount, decryptable by `user`
+    function _storeCommitment(address user, euint8 prediction, euint64 amount) private {
+        Commitment storage commitment = commitments[user];
+        commitment.encryptedPrediction = prediction;
+        commitment.encryptedAmount = amount;
+
+        FHE.allowThis(prediction);
+        FHE.allow(prediction, user);
+        FHE.allowThis(amount);
+        FHE.allow(amount, user);
+    }
+
+    /// @dev Move the market to the Cancelled phase, from which every participant can claim a refund
+    function _cancel() private {
+        Phase stuckPhase = currentPhase;
+        currentPhase = Phase.Cancelled;
+
+        emit MarketCancelled(stuckPhase);
+        emit PhaseTransitioned(Phase.Cancelled);
+    }
+
+    /// @dev Timestamp from which a stuck market can be cancelled, or 0 if the current state cannot get stuck.
+    ///      An undisputed owner proposal is not stuck: anyone can finalize it after the challenge period.
+    function _cancellableAt() private view returns (uint256) {
+        if (currentPhase == Phase.BlindCommitment && pendingCommitmentWithdrawals > 0) {
+            return commitmentDeadline + refundGracePeriod;
+        }
+        if (currentPhase == Phase.AwaitingDecryption) {
+            return decryptionRequestedAt + refundGracePeriod;
+        }
+        if (currentPhase == Phase.Settled && disputeStatus == DisputeStatus.Disputed) {
+            return settlementProposedTime + CHALLENGE_PERIOD + refundGracePeriod;
+        }
+        if (currentPhase == Phase.Settled && !isSettled && !isSettlementProposed) {
+            return eventDeadline + refundGracePeriod;
+        }
+        return 0;
+    }
+
+    /// @dev Fix the amount winners share and the stake it is split over. Owner stake, challenger bonds and
+    ///      vault balances are kept in their own ledgers and never enter the pool, except the slashed share.
+    ///      Early-exit penalties of withdrawn commitments are added to the pool.
+    ///      Fees come out of the pool here and move to the fee ledger, where their recipients withdraw them
+    function _snapshotWinnerPool() private {
+        uint256 grossPool = totalPoolAmount + slashedStakeToWinners + exitPenalties;
+        uint256 protocolFeeAmount = (grossPool * feeConfig.protocolFeeBps) / 10000;
+        uint256 creatorFeeAmount = (grossPool * feeConfig.creatorFeeBps) / 10000;
+        feeBalances[feeConfig.protocolFeeRecipient] += protocolFeeAmount;
+        feeBalances[owner] += creatorFeeAmount;
+
+        winnerPool = grossPool - protocolFeeAmount - creatorFeeAmount;
+        winningStake = outcomeTotals[winningOutcome];
+
+        emit FeesAccrued(protocolFeeAmount, creatorFeeAmount);
+    }
+
+    /// @dev Take in collateral from the caller: the attached ETH, or `tokenAmount` pulled from the caller's allowance
+    /// @return amount Amount received
+    function _receiveCollateral(uint256 tokenAmount) private returns (uint256 amount) {
+        if (address(collateralToken) == address(0)) {
+            return msg.value;
+        }
+        require(msg.value == 0, "Market uses token collateral");
+        collateralToken.safeTransferFrom(msg.sender, address(this), tokenAmount);
+        return tokenAmount;
+    }
+
+    /// @dev Pay out a cleartext amount of collateral in ETH, ERC-20 or confidential tokens
+    function _sendCollateral(address to, uint256 amount) private {
+        if (address(confidentialToken) != address(0)) {
+            _sendConfidential(to, FHE.asEuint64(uint64(amount)));
+        } else if (address(collateralToken) == address(0)) {
+            (bool success, ) = to.call{value: amount}("");
+            require(success, "ETH transfer failed");
+        } else {
+            collateralToken.safeTransfer(to, amount);
+        }
+    }
+
+    /// @dev Transfer an encrypted amount of the confidential collateral token
+    function _sendConfidential(address to, euint64 amount) private {
+        FHE.allowTransient(amount, address(confidentialToken));
+        confidentialToken.confidentialTransfer(to, amount);
+
+        emit ConfidentialPaidOut(to, amount);
+    }
+
+    /// @dev Whether the owner proposes the outcome (as opposed to the price oracle)
+    function _isOwnerResolved() private view returns (bool) {
+        return marketType == MarketType.Event || marketType == MarketType.Categorical;
+    }
+
+    /// @dev Number of valid prediction values (outcome labels, or price buckets for scalar markets)
+    function _outcomeCount() private view returns (uint256) {
+        return marketType == MarketType.Scalar ? bucketBoundaries.length + 1 : outcomeLabels.length;
+    }
+
+    /// @dev Read the `index`-th 32-byte word of ABI-encoded static cleartexts
+    function _readCleartextWord(bytes memory cleartexts, uint256 index) private pure returns (uint256 value) {
+        assembly ("memory-safe") {
+            value := mload(add(add(cleartexts, 32), mul(index, 32)))
+        }
     }
 
     // ============ View Functions ============
@@ -531,7 +1449,7 @@ contract BlindOracle is SepoliaConfig {
         euint64 encryptedAmount,
         bool hasCommitted
     ) {
-        Commitment memory commitment = commitments[user];
+        Commitment storage commitment = commitments[user];
         return (
             commitment.encryptedPrediction,
             commitment.encryptedAmount,
@@ -539,15 +1457,44 @@ contract BlindOracle is SepoliaConfig {
         );
     }
 
-    /// @notice Get participant address by index
-    function getParticipant(uint256 index) external view returns (address) {
-        require(index < participants.length, "Index out of bounds");
-        return participants[index];
+    /// @notice Get number of outcomes (2 for binary markets, bucket count for scalar markets)
+    function getOutcomeCount() external view returns (uint256) {
+        return _outcomeCount();
+    }
+
+    /// @notice Get all outcome labels, indexed by prediction value
+    function getOutcomeLabels() external view returns (string[] memory) {
+        return outcomeLabels;
+    }
+
+    /// @notice Get price bucket boundaries (empty unless scalar market)
+    function getBucketBoundaries() external view returns (uint256[] memory) {
+        return bucketBoundaries;
+    }
+
+    /// @notice Get decrypted total bet per outcome (empty until aggregate decryption completes)
+    function getOutcomeTotals() external view returns (uint256[] memory) {
+        return outcomeTotals;
+    }
+
+    /// @notice Get a participant's claim state and the payout they received (0 unless Won)
+    function getClaimInfo(address user) external view returns (ClaimState state, uint256 payout) {
+        return (claimStates[user], claimPayouts[user]);
     }
 
-    /// @notice Get contract balance
+    /// @notice Get a claimant's encrypted payout handle in a confidential market (for client-side decryption)
+    /// @param user The user address
+    function getEncryptedPayout(address user) external view returns (euint64) {
+        return encryptedPayouts[user];
+    }
+
+    /// @notice Get contract balance in the collateral asset
+    /// @dev Includes unspent vault balances and the owner stake, not just committed bets
     function getBalance() external view returns (uint256) {
-        return address(this).balance;
+        if (address(collateralToken) == address(0)) {
+            return address(this).balance;
+        }
+        return collateralToken.balanceOf(address(this));
     }
 
     /// @notice Check if user has committed
@@ -580,7 +1527,7 @@ contract BlindOracle is SepoliaConfig {
     function getPriceMarketInfo() external view returns (
         MarketType _marketType,
         address _priceOracle,
-        PriceOracle.Asset _targetAsset,
+        bytes32 _targetAsset,
         uint256 _targetPrice
     ) {
         return (
@@ -606,6 +1553,7 @@ contract BlindOracle is SepoliaConfig {
 
         bool canFinalize = isSettlementProposed
             && !isSettled
+            && disputeStatus == DisputeStatus.None
             && block.timestamp >= challengeDeadline;
 
         return (
@@ -2,75 +2,110 @@
 pragma solidity ^0.8.24;
 
 import "@chainlink/contracts/src/v0.8/shared/interfaces/AggregatorV3Interface.sol";
+import { IERC165 } from "@openzeppelin/contracts/utils/introspection/IERC165.sol";
+import { IPriceOracle } from "./IPriceOracle.sol";
+import { AssetRegistry } from "./AssetRegistry.sol";
 
 /// @title ChainlinkPriceOracle - Decentralized Price Oracle using Chainlink
-/// @notice Provides real-time price data for ETH, BTC, and SOL using Chainlink Price Feeds
-/// @dev Integrates with Chainlink's decentralized oracle network
-contract ChainlinkPriceOracle {
+/// @notice Provides real-time price data using the Chainlink Price Feeds listed in an AssetRegistry
+/// @dev Integrates with Chainlink's decentralized oracle network. Answers are rescaled from each feed's decimals to 8
+contract ChainlinkPriceOracle is IPriceOracle {
     // ============ Structs ============
-    
-    /// @notice Supported assets
-    enum Asset {
-        ETH,
-        BTC,
-        SOL
+
+    struct History {
+        int256[] answers;     // Answers read from a round backwards, newest first
+        uint256[] times;      // Update times of the rounds read (0 where the feed has no round)
+        uint256 count;        // Number of rounds read
     }
 
     // ============ State Variables ============
     
-    /// @notice Chainlink price feed addresses for each asset
-    mapping(Asset => address) public priceFeeds;
-    
-    /// @notice Contract owner
-    address public owner;
+    /// @notice Registry holding the Chainlink price feed of each asset
+    AssetRegistry public immutable assetRegistry;
     
     /// @notice Maximum price age (24 hours)
     uint256 public constant MAX_PRICE_AGE = 24 hours;
 
+    /// @notice Number of decimals in every price, whatever the decimals of the feed
+    uint8 public constant decimals = 8;
+
+    /// @notice Maximum number of feed rounds read when computing a TWAP
+    uint256 public constant MAX_TWAP_ROUNDS = 100;
+
+    /// @notice Contract owner, who configures the circuit breaker and confirms quarantined rounds
+    address public owner;
+
+    /// @notice Largest move from the previous round a feed round may make, in basis points (0 = unchecked)
+    uint256 public maxUpdateChangeBps;
+
+    /// @notice Largest move from the answer in effect `changeWindow` before a round, in basis points (0 = unchecked)
+    uint256 public maxWindowChangeBps;
+
+    /// @notice Length of the window maxWindowChangeBps applies to, in seconds
+    uint256 public changeWindow;
+
+    /// @notice Feed rounds the owner confirmed as genuine despite tripping the circuit breaker
+    mapping(address => mapping(uint80 => bool)) public confirmedRounds;
+
     // ============ Events ============
-    
-    event PriceFeedUpdated(Asset indexed asset, address indexed feedAddress);
+
+    event CircuitBreakerUpdated(uint256 maxUpdateChangeBps, uint256 maxWindowChangeBps, uint256 changeWindow);
+    event RoundConfirmed(bytes32 indexed asset, address indexed feed, uint80 roundId);
 
     // ============ Errors ============
     
     error InvalidPriceFeed();
     error StalePrice();
     error InvalidPrice();
+    error InvalidRegistry();
+    error InvalidWindow();
+    error InvalidTimestamp();
+    error InvalidRoundHint();
+    error PriceHistoryUnavailable();
+    error SignedReportsNotSupported();
     error NotOwner();
+    error PriceQuarantined();
 
-    // ============ Modifiers ============
+    // ============ Constructor ============
     
-    modifier onlyOwner() {
+    /// @notice Initialize with the registry of Chainlink price feeds
+    /// @param _assetRegistry Registry holding the price feed of each asset (assets without a feed are unsupported)
+    constructor(AssetRegistry _assetRegistry) {
+        if (address(_assetRegistry) == address(0)) revert InvalidRegistry();
+        assetRegistry = _assetRegistry;
+        owner = msg.sender;
+    }
+
+    // ============ Admin Functions ============
+
+    /// @notice Configure the circuit breaker that quarantines abnormal feed rounds
+    /// @dev Feeds can't be held back, so a round moving further than either limit is refused when read: getPrice
+    ///      reverts while it is the latest round, and markets can't settle on it, until the owner confirms it
+    /// @param _maxUpdateChangeBps Largest move from the previous round, in basis points (0 disables the check)
+    /// @param _maxWindowChangeBps Largest move from the answer `_changeWindow` earlier, in basis points (0 disables it)
+    /// @param _changeWindow Length of the window in seconds
+    function setCircuitBreaker(uint256 _maxUpdateChangeBps, uint256 _maxWindowChangeBps, uint256 _changeWindow)
+        external
+    {
         if (msg.sender != owner) revert NotOwner();
-        _;
+        if (_maxWindowChangeBps != 0 && _changeWindow == 0) revert InvalidWindow();
+
+        maxUpdateChangeBps = _maxUpdateChangeBps;
+        maxWindowChangeBps = _maxWindowChangeBps;
+        changeWindow = _changeWindow;
+
+        emit CircuitBreakerUpdated(_maxUpdateChangeBps, _maxWindowChangeBps, _changeWindow);
     }
 
-    // ============ Constructor ============
-    
-    /// @notice Initialize with Chainlink price feed addresses
-    /// @param _ethUsdFeed Chainlink ETH/USD price feed address
-    /// @param _btcUsdFeed Chainlink BTC/USD price feed address
-    /// @param _solUsdFeed Chainlink SOL/USD price feed address (use address(0) if not available)
-    constructor(
-        address _ethUsdFeed,
-        address _btcUsdFeed,
-        address _solUsdFeed
-    ) {
-        owner = msg.sender;
-        
-        // Validate and set price feeds
-        if (_ethUsdFeed == address(0)) revert InvalidPriceFeed();
-        if (_btcUsdFeed == address(0)) revert InvalidPriceFeed();
-        
-        priceFeeds[Asset.ETH] = _ethUsdFeed;
-        priceFeeds[Asset.BTC] = _btcUsdFeed;
-        priceFeeds[Asset.SOL] = _solUsdFeed; // Can be address(0) if not available
-        
-        emit PriceFeedUpdated(Asset.ETH, _ethUsdFeed);
-        emit PriceFeedUpdated(Asset.BTC, _btcUsdFeed);
-        if (_solUsdFeed != address(0)) {
-            emit PriceFeedUpdated(Asset.SOL, _solUsdFeed);
-        }
+    /// @notice Accept a quarantined round of an asset's feed as genuine
+    /// @param asset The asset whose feed published the round
+    /// @param roundId The round to accept
+    function confirmRound(bytes32 asset, uint80 roundId) external {
+        if (msg.sender != owner) revert NotOwner();
+        (AggregatorV3Interface priceFeed, ) = _priceFeed(asset);
+
+        confirmedRounds[address(priceFeed)][roundId] = true;
+        emit RoundConfirmed(asset, address(priceFeed), roundId);
     }
 
     // ============ Core Functions ============
@@ -79,15 +114,12 @@ contract ChainlinkPriceOracle {
     /// @param asset The asset to query
     /// @return price The latest price (scaled by 1e8, e.g., $50000.00 = 5000000000000)
     /// @return timestamp The timestamp of the price update
-    function getPrice(Asset asset) 
+    function getPrice(bytes32 asset) 
         external 
         view 
         returns (uint256 price, uint256 timestamp) 
     {
-        address feedAddress = priceFeeds[asset];
-        if (feedAddress == address(0)) revert InvalidPriceFeed();
-        
-        AggregatorV3Interface priceFeed = AggregatorV3Interface(feedAddress);
+        (AggregatorV3Interface priceFeed, uint8 feedDecimals) = _priceFeed(asset);
         
         (
             uint80 roundId,
@@ -104,16 +136,109 @@ contract ChainlinkPriceOracle {
         
         // Check if price is not too old
         if (block.timestamp - updatedAt > MAX_PRICE_AGE) revert StalePrice();
+        if (_isQuarantined(priceFeed, roundId, answer, updatedAt)) revert PriceQuarantined();
         
-        // Chainlink returns price with 8 decimals, we keep the same format
-        return (uint256(answer), updatedAt);
+        return (_scale(uint256(answer), feedDecimals), updatedAt);
+    }
+    
+    /// @notice Get the price that was in effect at a past timestamp
+    /// @dev The caller finds the round off-chain (see findRoundAt) and the oracle only checks it, so the cost does not
+    ///      grow with the number of rounds since `timestamp`
+    /// @param asset The asset to query
+    /// @param timestamp The time to look up (not in the future)
+    /// @param roundHint The last round updated at or before `timestamp`
+    /// @return price The price at `timestamp` (scaled by 1e8)
+    /// @return updatedAt The timestamp of the round's update
+    function getPriceAt(bytes32 asset, uint256 timestamp, uint80 roundHint)
+        external
+        view
+        returns (uint256 price, uint256 updatedAt)
+    {
+        (AggregatorV3Interface priceFeed, uint8 feedDecimals) = _priceFeed(asset);
+        int256 answer;
+        (answer, updatedAt) = _roundAt(priceFeed, timestamp, roundHint);
+        if (_isQuarantined(priceFeed, roundHint, answer, updatedAt)) revert PriceQuarantined();
+        return (_scale(uint256(answer), feedDecimals), updatedAt);
+    }
+
+    /// @notice Get the time-weighted average price over `[endTime - window, endTime]`
+    /// @dev Walks the feed's rounds backwards from `roundHint`, weighting each answer by how long it stood within
+    ///      the window. If the history ends first (start of a feed phase, or MAX_TWAP_ROUNDS reads), the average
+    ///      covers the part of the window that was reached. A zero window returns the price at `endTime`.
+    ///      The rounds averaged and the ones the circuit breaker compares them to are read together, so a TWAP
+    ///      reads at most MAX_TWAP_ROUNDS rounds beyond the hint checks.
+    ///      Reverts with PriceQuarantined if the circuit breaker holds back any round within the window
+    /// @param asset The asset to query
+    /// @param endTime End of the averaging window (not in the future)
+    /// @param window Length of the averaging window in seconds
+    /// @param roundHint The last round updated at or before `endTime` (see getPriceAt)
+    /// @return twap The average price (scaled by 1e8)
+    function getTwap(bytes32 asset, uint256 endTime, uint256 window, uint80 roundHint)
+        public
+        view
+        returns (uint256 twap)
+    {
+        (AggregatorV3Interface priceFeed, uint8 feedDecimals) = _priceFeed(asset);
+        if (endTime > block.timestamp || window > endTime) revert InvalidWindow();
+
+        (int256 answer, uint256 updatedAt) = _roundAt(priceFeed, endTime, roundHint);
+        return _scale(_averageSince(priceFeed, roundHint, answer, updatedAt, endTime - window, endTime), feedDecimals);
+    }
+
+    /// @notice Get the price a market ending at `endTime` settles on, which is the TWAP (see getTwap)
+    /// @dev Signed price reports are not supported, prices only come from the Chainlink feeds
+    /// @param asset The asset to query
+    /// @param endTime End of the averaging window (not in the future)
+    /// @param window Length of the averaging window in seconds
+    /// @param roundHint The last round updated at or before `endTime`
+    /// @param report Must be empty
+    /// @return price The average price (scaled by 1e8)
+    /// @return source This oracle
+    function getSettlementPrice(bytes32 asset, uint256 endTime, uint256 window, uint80 roundHint, bytes calldata report)
+        external
+        view
+        returns (uint256 price, address source)
+    {
+        if (report.length != 0) revert SignedReportsNotSupported();
+        return (getTwap(asset, endTime, window, roundHint), address(this));
+    }
+
+    /// @notice Find the round to pass as `roundHint` for a timestamp
+    /// @dev Binary search over the rounds of the feed's current phase, so it reads at most 64 rounds however old
+    ///      `timestamp` is, and can run on-chain (FallbackPriceOracle looks up its sources' rounds this way)
+    /// @param asset The asset to query
+    /// @param timestamp The time to look up
+    /// @return roundId The last round updated at or before `timestamp`
+    function findRoundAt(bytes32 asset, uint256 timestamp) external view returns (uint80 roundId) {
+        (AggregatorV3Interface priceFeed, ) = _priceFeed(asset);
+        uint256 updatedAt;
+        (roundId, , , updatedAt, ) = priceFeed.latestRoundData();
+        if (updatedAt == 0) revert PriceHistoryUnavailable();
+        if (updatedAt <= timestamp) return roundId;
+
+        // Rounds of a phase are numbered from 1 after the phase ID in the top 16 bits. The search keeps round
+        // `low` updated at or before `timestamp`, and the round after `high` updated after it
+        uint80 low = ((roundId >> 64) << 64) | 1;
+        uint80 high = roundId - 1;
+        (, updatedAt) = _round(priceFeed, low);
+        if (updatedAt == 0 || updatedAt > timestamp) revert PriceHistoryUnavailable();
+        while (low < high) {
+            uint80 middle = high - (high - low) / 2;
+            (, updatedAt) = _round(priceFeed, middle);
+            if (updatedAt != 0 && updatedAt <= timestamp) {
+                low = middle;
+            } else {
+                high = middle - 1;
+            }
+        }
+        return low;
     }
     
     /// @notice Check if the current price is above a target price
     /// @param asset The asset to check
     /// @param targetPrice The target price to compare against (scaled by 1e8)
     /// @return isAbove True if current price >= target price
-    function isPriceAboveTarget(Asset asset, uint256 targetPrice) 
+    function isPriceAboveTarget(bytes32 asset, uint256 targetPrice) 
         external 
         view 
         returns (bool isAbove) 
@@ -124,71 +249,235 @@ contract ChainlinkPriceOracle {
     
     /// @notice Get price with additional metadata
     /// @param asset The asset to query
-    /// @return price The latest price
+    /// @return price The latest price (scaled by 1e8)
     /// @return timestamp The timestamp of the price update
-    /// @return decimals The number of decimals in the price
+    /// @return priceDecimals The number of decimals in the price
     /// @return description The description of the price feed
-    function getPriceWithMetadata(Asset asset)
+    function getPriceWithMetadata(bytes32 asset)
         external
         view
         returns (
             uint256 price,
             uint256 timestamp,
-            uint8 decimals,
+            uint8 priceDecimals,
             string memory description
         )
     {
-        address feedAddress = priceFeeds[asset];
-        if (feedAddress == address(0)) revert InvalidPriceFeed();
-        
-        AggregatorV3Interface priceFeed = AggregatorV3Interface(feedAddress);
+        (AggregatorV3Interface priceFeed, ) = _priceFeed(asset);
         
         // Get price
         (price, timestamp) = this.getPrice(asset);
         
         // Get metadata
-        decimals = priceFeed.decimals();
         description = priceFeed.description();
         
         return (price, timestamp, decimals, description);
     }
 
-    // ============ Admin Functions ============
-    
-    /// @notice Update the price feed address for an asset
-    /// @param asset The asset to update
-    /// @param feedAddress The new Chainlink price feed address
-    function updatePriceFeed(Asset asset, address feedAddress) 
-        external 
-        onlyOwner 
-    {
-        if (feedAddress == address(0)) revert InvalidPriceFeed();
-        
-        priceFeeds[asset] = feedAddress;
-        emit PriceFeedUpdated(asset, feedAddress);
-    }
-    
-    /// @notice Transfer ownership
-    /// @param newOwner The new owner address
-    function transferOwnership(address newOwner) external onlyOwner {
-        if (newOwner == address(0)) revert InvalidPriceFeed();
-        owner = newOwner;
-    }
-
     // ============ View Functions ============
     
     /// @notice Get the price feed address for an asset
     /// @param asset The asset to query
     /// @return feedAddress The Chainlink price feed address
-    function getPriceFeed(Asset asset) external view returns (address feedAddress) {
-        return priceFeeds[asset];
+    function getPriceFeed(bytes32 asset) external view returns (address feedAddress) {
+        (feedAddress, ) = assetRegistry.getFeed(asset);
     }
     
     /// @notice Check if a price feed is available for an asset
     /// @param asset The asset to check
-    /// @return isAvailable True if price feed is configured
-    function isPriceFeedAvailable(Asset asset) external view returns (bool isAvailable) {
-        return priceFeeds[asset] != address(0);
+    /// @return True if the asset is listed with a price feed
+    function isAssetSupported(bytes32 asset) external view returns (bool) {
+        (address feedAddress, ) = assetRegistry.getFeed(asset);
+        return feedAddress != address(0);
     }
-}
 
+    /// @notice ERC-165 interface detection
+    /// @param interfaceId The interface identifier to check
+    /// @return True for IPriceOracle and IERC165
+    function supportsInterface(bytes4 interfaceId) external pure returns (bool) {
+        return interfaceId == type(IPriceOracle).interfaceId || interfaceId == type(IERC165).interfaceId;
+    }
+
+    /// @notice Check if the circuit breaker holds back a round of an asset's feed
+    /// @param asset The asset to check
+    /// @param roundId The feed round to check
+    /// @return True if the round moved further than the circuit breaker allows and is not confirmed
+    function isRoundQuarantined(bytes32 asset, uint80 roundId) external view returns (bool) {
+        (AggregatorV3Interface priceFeed, ) = _priceFeed(asset);
+        (int256 answer, uint256 updatedAt) = _round(priceFeed, roundId);
+        if (updatedAt == 0 || answer <= 0) return false;
+        return _isQuarantined(priceFeed, roundId, answer, updatedAt);
+    }
+
+    // ============ Internal Functions ============
+
+    /// @notice Get the registered feed for an asset and the decimals of its answers
+    function _priceFeed(bytes32 asset) private view returns (AggregatorV3Interface, uint8) {
+        (address feedAddress, uint8 feedDecimals) = assetRegistry.getFeed(asset);
+        if (feedAddress == address(0)) revert InvalidPriceFeed();
+        return (AggregatorV3Interface(feedAddress), feedDecimals);
+    }
+
+    /// @notice Rescale a feed answer from the feed's decimals to `decimals`
+    function _scale(uint256 answer, uint8 feedDecimals) private pure returns (uint256) {
+        if (feedDecimals > decimals) return answer / 10 ** (feedDecimals - decimals);
+        return answer * 10 ** (decimals - feedDecimals);
+    }
+
+    /// @notice Check that `roundId` is the last round at or before `timestamp`, and read it
+    /// @dev The next round must be later than `timestamp`, unless `roundId` is the latest round. Feeds number
+    ///      rounds per phase, so the last round of a past phase cannot be proven this way. Callers check the round
+    ///      against the circuit breaker
+    function _roundAt(AggregatorV3Interface priceFeed, uint256 timestamp, uint80 roundId)
+        private
+        view
+        returns (int256 answer, uint256 updatedAt)
+    {
+        if (timestamp > block.timestamp) revert InvalidTimestamp();
+
+        (answer, updatedAt) = _round(priceFeed, roundId);
+        if (updatedAt == 0 || updatedAt > timestamp) revert InvalidRoundHint();
+
+        (uint80 latestRoundId, , , , ) = priceFeed.latestRoundData();
+        if (roundId != latestRoundId) {
+            (, uint256 nextUpdatedAt) = _round(priceFeed, roundId + 1);
+            if (nextUpdatedAt == 0 || nextUpdatedAt <= timestamp) revert InvalidRoundHint();
+        }
+
+        if (answer <= 0) revert InvalidPrice();
+        if (timestamp - updatedAt > MAX_PRICE_AGE) revert StalePrice();
+    }
+
+    /// @notice Whether a round moved further than the circuit breaker allows and the owner hasn't confirmed it
+    function _isQuarantined(AggregatorV3Interface priceFeed, uint80 roundId, int256 answer, uint256 updatedAt)
+        private
+        view
+        returns (bool quarantined)
+    {
+        if (roundId == 0 || confirmedRounds[address(priceFeed)][roundId]) return false;
+        History memory history = _history(priceFeed, roundId, answer, updatedAt, updatedAt);
+        (quarantined, ) = _isQuarantinedIn(priceFeed, roundId, history, 0, 0);
+    }
+
+    /// @notice Read the rounds from `roundId` backwards, down to the one in effect at `startTime` and then the ones
+    ///         the circuit breaker compares it to: the round before, and the answer `changeWindow` earlier
+    /// @dev Reads at most MAX_TWAP_ROUNDS rounds, each once. Stops early where the feed's history ends (missing
+    ///      round, invalid answer or start of the phase), keeping the round where it ended
+    function _history(
+        AggregatorV3Interface priceFeed,
+        uint80 roundId,
+        int256 answer,
+        uint256 updatedAt,
+        uint256 startTime
+    ) private view returns (History memory history) {
+        uint256 lookback = maxWindowChangeBps == 0 ? 0 : changeWindow;
+        history.answers = new int256[](MAX_TWAP_ROUNDS);
+        history.times = new uint256[](MAX_TWAP_ROUNDS);
+        (history.answers[0], history.times[0]) = (answer, updatedAt);
+
+        // Update time of the round in effect at startTime, once it has been read
+        uint256 reached;
+        uint256 count = 1;
+        for (; count < MAX_TWAP_ROUNDS && count <= roundId; count++) {
+            uint256 last = history.times[count - 1];
+            if (last == 0 || history.answers[count - 1] <= 0) break;
+            if (reached == 0 && last <= startTime) reached = last;
+            else if (reached != 0 && last + lookback <= reached) break;
+            (history.answers[count], history.times[count]) = _round(priceFeed, roundId - uint80(count));
+        }
+        history.count = count;
+    }
+
+    /// @notice Whether the round at `index` of a history trips the circuit breaker, and the owner hasn't confirmed it
+    /// @dev Compares raw answers, the limits being relative. Rounds without a previous one in their phase pass, and
+    ///      the window limit compares to the oldest answer read when the history ends before `changeWindow`
+    /// @param windowIndex Index to search for the answer `changeWindow` earlier from, which only moves back as
+    ///        `index` does, so checking every round of a history scans it once
+    /// @return quarantined Whether the round is held back
+    /// @return Index of the answer `changeWindow` before the round, to pass for the next older round
+    function _isQuarantinedIn(
+        AggregatorV3Interface priceFeed,
+        uint80 roundId,
+        History memory history,
+        uint256 index,
+        uint256 windowIndex
+    ) private view returns (bool quarantined, uint256) {
+        int256[] memory answers = history.answers;
+        uint256[] memory times = history.times;
+        if (roundId == 0 || confirmedRounds[address(priceFeed)][roundId] || index + 1 >= history.count) {
+            return (false, windowIndex);
+        }
+        if (times[index + 1] == 0 || answers[index + 1] <= 0) return (false, windowIndex);
+        uint256 answer = uint256(answers[index]);
+        if (_deviates(answer, uint256(answers[index + 1]), maxUpdateChangeBps)) return (true, windowIndex);
+        if (maxWindowChangeBps == 0) return (false, windowIndex);
+
+        // Answer in effect `changeWindow` before the round, or the oldest one read
+        uint256 i = windowIndex > index + 1 ? windowIndex : index + 1;
+        while (
+            i + 1 < history.count && times[i] + changeWindow > times[index] && times[i + 1] != 0 && answers[i + 1] > 0
+        ) {
+            i++;
+        }
+        return (_deviates(answer, uint256(answers[i]), maxWindowChangeBps), i);
+    }
+
+    /// @notice Whether `answer` is more than `limitBps` basis points away from `previous` (a zero limit never is)
+    function _deviates(uint256 answer, uint256 previous, uint256 limitBps) private pure returns (bool) {
+        if (limitBps == 0) return false;
+        uint256 change = answer > previous ? answer - previous : previous - answer;
+        return change * 10000 > previous * limitBps;
+    }
+
+    /// @notice Average the answers from the given round backwards over `[startTime, endTime]`
+    /// @dev The given round must be the one in effect at `endTime`. Reverts if any round averaged is quarantined.
+    ///      When MAX_TWAP_ROUNDS reads run out, the oldest round read is only compared to, not averaged
+    function _averageSince(
+        AggregatorV3Interface priceFeed,
+        uint80 roundId,
+        int256 answer,
+        uint256 updatedAt,
+        uint256 startTime,
+        uint256 endTime
+    ) private view returns (uint256) {
+        History memory history = _history(priceFeed, roundId, answer, updatedAt, startTime);
+        uint256 averaged = history.count == MAX_TWAP_ROUNDS ? history.count - 1 : history.count;
+
+        uint256 segmentEnd = endTime;
+        uint256 weightedSum;
+        uint256 windowIndex;
+        for (uint256 i = 0; i < averaged && history.times[i] > 0; i++) {
+            if (history.answers[i] <= 0) revert InvalidPrice();
+            bool quarantined;
+            (quarantined, windowIndex) = _isQuarantinedIn(priceFeed, roundId - uint80(i), history, i, windowIndex);
+            if (quarantined) revert PriceQuarantined();
+
+            uint256 segmentStart = history.times[i] > startTime ? history.times[i] : startTime;
+            weightedSum += uint256(history.answers[i]) * (segmentEnd - segmentStart);
+            segmentEnd = segmentStart;
+            if (segmentStart == startTime || roundId == i) break;
+        }
+
+        return segmentEnd == endTime ? uint256(answer) : weightedSum / (endTime - segmentEnd);
+    }
+
+    /// @notice Read a round's answer and update time
+    /// @dev Returns a zero `updatedAt` for rounds the feed does not have, since feeds revert for those
+    function _round(AggregatorV3Interface priceFeed, uint80 roundId)
+        private
+        view
+        returns (int256 answer, uint256 updatedAt)
+    {
+        try priceFeed.getRoundData(roundId) returns (
+            uint80,
+            int256 roundAnswer,
+            uint256,
+            uint256 roundUpdatedAt,
+            uint80
+        ) {
+            return (roundAnswer, roundUpdatedAt);
+        } catch {
+            return (0, 0);
+        }
+    }
+}
@@ -0,0 +1,50 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {ECDSA} from "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import {MessageHashUtils} from "@openzeppelin/contracts/utils/cryptography/MessageHashUtils.sol";
+
+/// @title CommitIntent - EIP-712 signed commitments relayed on behalf of a user
+/// @notice Checks a user's signature of a CommitIntent, so a relayer can pay the gas of their commitment
+/// @dev Deployed once and linked into BlindOracle, like ConfidentialPayout, to keep the signature checks out of
+///      the market's 24 KB code budget. Library calls run through DELEGATECALL, so `address(this)` is the market
+///      and the EIP-712 domain is the market's own
+library CommitIntent {
+    /// @notice EIP-712 type of a signed commit intent
+    bytes32 public constant COMMIT_INTENT_TYPEHASH =
+        keccak256("CommitIntent(bytes32 prediction,bytes32 amount,uint64 relayerFee,uint256 nonce,uint256 deadline)");
+
+    /// @notice EIP-712 type of the signing domain
+    bytes32 public constant DOMAIN_TYPEHASH =
+        keccak256("EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)");
+
+    /// @notice Check that `user` signed the intent with their next nonce, and use up that nonce
+    /// @dev Reverts if the deadline has passed or the signature is not `user`'s
+    /// @param nonces Number of intents used by each user, which is the nonce of their next intent
+    /// @param user Address that signed the intent
+    /// @param prediction Handle of the encrypted prediction
+    /// @param amount Handle of the encrypted bet amount
+    /// @param relayerFee Fee paid to the relayer in collateral base units
+    /// @param deadline Timestamp after which the intent can no longer be relayed
+    /// @param signature The user's signature of the intent
+    function verify(
+        mapping(address => uint256) storage nonces,
+        address user,
+        bytes32 prediction,
+        bytes32 amount,
+        uint64 relayerFee,
+        uint256 deadline,
+        bytes calldata signature
+    ) external {
+        require(block.timestamp <= deadline, "Intent expired");
+
+        bytes32 domainSeparator = keccak256(
+            abi.encode(DOMAIN_TYPEHASH, keccak256("BlindOracle"), keccak256("1"), block.chainid, address(this))
+        );
+        bytes32 structHash = keccak256(
+            abi.encode(COMMIT_INTENT_TYPEHASH, prediction, amount, relayerFee, nonces[user]++, deadline)
+        );
+        bytes32 digest = MessageHashUtils.toTypedDataHash(domainSeparator, structHash);
+        require(ECDSA.recover(digest, signature) == user, "Invalid intent signature");
+    }
+}
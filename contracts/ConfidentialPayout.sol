@@ -0,0 +1,21 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {FHE, euint64, euint128} from "@fhevm/solidity/lib/FHE.sol";
+
+/// @title ConfidentialPayout - Encrypted payout math for confidential-collateral markets
+/// @notice Pro-rata share of the winner pool, computed on an encrypted bet
+/// @dev Deployed once and linked into BlindOracle, which keeps the 128-bit FHE operations out of the market's
+///      24 KB code budget. Library calls run through DELEGATECALL, so FHE permissions are those of the market
+library ConfidentialPayout {
+    /// @notice `amount × pool / stake`, computed on 128 bits so the product cannot overflow
+    /// @dev The caller must be allowed to use `amount` and `stake` must not be 0
+    /// @param amount Encrypted bet amount
+    /// @param pool Amount shared among winners
+    /// @param stake Total bet on the winning outcome
+    /// @return share Encrypted share of the pool, rounded down
+    function share(euint64 amount, uint256 pool, uint256 stake) external returns (euint64) {
+        euint128 scaled = FHE.mul(FHE.asEuint128(amount), uint128(pool));
+        return FHE.asEuint64(FHE.div(scaled, uint128(stake)));
+    }
+}
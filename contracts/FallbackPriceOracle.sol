@@ -0,0 +1,319 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {IERC165} from "@openzeppelin/contracts/utils/introspection/IERC165.sol";
+import {ERC165Checker} from "@openzeppelin/contracts/utils/introspection/ERC165Checker.sol";
+import {IPriceOracle} from "./IPriceOracle.sol";
+import {AssetRegistry} from "./AssetRegistry.sol";
+import {ChainlinkPriceOracle} from "./ChainlinkPriceOracle.sol";
+
+/// @title FallbackPriceOracle - Ordered chain of price oracles per asset
+/// @notice Prices each asset with the first oracle of its chain that can, e.g. Chainlink, then PriceOracle updaters.
+///         If none can settle a market, the owner sets its price manually once MANUAL_FALLBACK_DELAY has passed
+/// @dev Settlement reports the source it used (see getSettlementPrice). History lookups (getPriceAt, getTwap,
+///      findRoundAt) use the rounds of the asset's primary source, the first of its chain. Only a source without a
+///      price is skipped: any other failure, such as a quarantined price, is raised as the source raised it
+contract FallbackPriceOracle is IPriceOracle {
+    // ============ State Variables ============
+
+    /// @notice Registry listing the assets this oracle can price
+    AssetRegistry public immutable assetRegistry;
+
+    /// @notice Contract owner, who sets the oracle chains and manual prices
+    address public owner;
+
+    /// @notice Number of decimals in every price, which every source must use
+    uint8 public constant decimals = 8;
+
+    /// @notice Largest number of oracles in a chain
+    uint256 public constant MAX_SOURCES = 5;
+
+    /// @notice Time after a market's end before the owner can set its price manually
+    uint256 public constant MANUAL_FALLBACK_DELAY = 3 days;
+
+    /// @notice Oracles tried in order for each asset
+    mapping(bytes32 => IPriceOracle[]) private sources;
+
+    /// @notice Prices set by the owner per asset and end time, used when no source can settle
+    mapping(bytes32 => mapping(uint256 => uint256)) public manualPrices;
+
+    // ============ Events ============
+
+    event SourcesUpdated(bytes32 indexed asset, IPriceOracle[] sources);
+    event ManualPriceSet(bytes32 indexed asset, uint256 indexed endTime, uint256 price);
+
+    // ============ Modifiers ============
+
+    modifier onlyOwner() {
+        require(msg.sender == owner, "Not owner");
+        _;
+    }
+
+    // ============ Constructor ============
+
+    /// @param _assetRegistry Registry of the assets chains can be set for
+    constructor(AssetRegistry _assetRegistry) {
+        require(address(_assetRegistry) != address(0), "Invalid registry");
+
+        owner = msg.sender;
+        assetRegistry = _assetRegistry;
+    }
+
+    // ============ Admin Functions ============
+
+    /// @notice Set the oracles tried for an asset, in order
+    /// @param asset The asset to configure (listed in the registry)
+    /// @param oracles IPriceOracle implementations with 8 decimals, the preferred one first (empty to unsupport)
+    function setSources(bytes32 asset, IPriceOracle[] calldata oracles) external onlyOwner {
+        require(assetRegistry.isListed(asset), "Unknown asset");
+        require(oracles.length <= MAX_SOURCES, "Too many sources");
+        for (uint256 i = 0; i < oracles.length; i++) {
+            require(
+                address(oracles[i]) != address(this) &&
+                    ERC165Checker.supportsInterface(address(oracles[i]), type(IPriceOracle).interfaceId),
+                "Invalid source"
+            );
+            require(oracles[i].decimals() == decimals, "Invalid decimals");
+        }
+
+        sources[asset] = oracles;
+        emit SourcesUpdated(asset, oracles);
+    }
+
+    /// @notice Set the price markets on an asset ending at `endTime` settle on if none of its sources can
+    /// @dev The sources are still tried first, so this only settles markets they can't. It applies whatever the
+    ///      market's averaging window
+    /// @param asset The asset to price
+    /// @param endTime The market end time (event deadline) the price is for
+    /// @param price The price (scaled by 1e8)
+    function setManualPrice(bytes32 asset, uint256 endTime, uint256 price) external onlyOwner {
+        require(sources[asset].length > 0, "Asset not supported");
+        require(block.timestamp >= endTime + MANUAL_FALLBACK_DELAY, "Fallback delay not passed");
+        require(price > 0, "Invalid price");
+
+        manualPrices[asset][endTime] = price;
+        emit ManualPriceSet(asset, endTime, price);
+    }
+
+    // ============ Price Query Functions ============
+
+    /// @notice Get the latest price from the first source of the asset's chain that has one
+    /// @param asset The asset to query
+    /// @return price The latest price (scaled by 1e8)
+    /// @return timestamp The timestamp of the price update
+    function getPrice(bytes32 asset) public view returns (uint256 price, uint256 timestamp) {
+        IPriceOracle[] storage chain = _chain(asset);
+        for (uint256 i = 0; i < chain.length; i++) {
+            try chain[i].getPrice(asset) returns (uint256 sourcePrice, uint256 sourceTimestamp) {
+                return (sourcePrice, sourceTimestamp);
+            } catch (bytes memory reason) {
+                _skip(reason);
+            }
+        }
+        revert("Price not available");
+    }
+
+    /// @notice Get the latest price with the metadata of the source that has it
+    /// @param asset The asset to query
+    /// @return price The latest price (scaled by 1e8)
+    /// @return timestamp The timestamp of the price update
+    /// @return priceDecimals The number of decimals in the price
+    /// @return description The description of the source's price feed
+    function getPriceWithMetadata(
+        bytes32 asset
+    ) external view returns (uint256 price, uint256 timestamp, uint8 priceDecimals, string memory description) {
+        IPriceOracle[] storage chain = _chain(asset);
+        for (uint256 i = 0; i < chain.length; i++) {
+            try chain[i].getPriceWithMetadata(asset) returns (
+                uint256 sourcePrice,
+                uint256 sourceTimestamp,
+                uint8 sourceDecimals,
+                string memory sourceDescription
+            ) {
+                return (sourcePrice, sourceTimestamp, sourceDecimals, sourceDescription);
+            } catch (bytes memory reason) {
+                _skip(reason);
+            }
+        }
+        revert("Price not available");
+    }
+
+    /// @notice Compare the latest price with a target price
+    /// @param asset The asset to check
+    /// @param targetPrice The target price to compare against (scaled by 1e8)
+    /// @return isAbove True if current price >= target price
+    function isPriceAboveTarget(bytes32 asset, uint256 targetPrice) external view returns (bool isAbove) {
+        (uint256 price, ) = getPrice(asset);
+        return price >= targetPrice;
+    }
+
+    /// @notice Get the price that was in effect at a past timestamp, from the primary source
+    /// @param asset The asset to query
+    /// @param timestamp The time to look up (not in the future)
+    /// @param roundHint The primary source's last round at or before `timestamp`
+    /// @return price The price at `timestamp` (scaled by 1e8)
+    /// @return updatedAt The timestamp of the round's update
+    function getPriceAt(
+        bytes32 asset,
+        uint256 timestamp,
+        uint80 roundHint
+    ) external view returns (uint256 price, uint256 updatedAt) {
+        return _chain(asset)[0].getPriceAt(asset, timestamp, roundHint);
+    }
+
+    /// @notice Get the primary source's time-weighted average price over `[endTime - window, endTime]`
+    /// @param asset The asset to query
+    /// @param endTime End of the averaging window (not in the future)
+    /// @param window Length of the averaging window in seconds
+    /// @param roundHint The primary source's last round at or before `endTime`
+    /// @return twap The average price (scaled by 1e8)
+    function getTwap(
+        bytes32 asset,
+        uint256 endTime,
+        uint256 window,
+        uint80 roundHint
+    ) external view returns (uint256 twap) {
+        return _chain(asset)[0].getTwap(asset, endTime, window, roundHint);
+    }
+
+    /// @notice Get the price a market ending at `endTime` settles on, from the first source that can settle it
+    /// @dev Sources are tried in order for the TWAP, then for the signed report if one is given, so a report can't
+    ///      skip a working source. Each source's round is looked up on-chain with its findRoundAt, since sources
+    ///      number rounds differently and the caller's `roundHint` can only fit one; both sources bound that lookup
+    ///      (a binary search for Chainlink, the kept history for PriceOracle). The owner's manual price comes last.
+    ///      A source failing for another reason than having no price (e.g. a quarantined price, an invalid report or
+    ///      running out of gas) stops the settlement
+    /// @param asset The asset to query
+    /// @param endTime End of the averaging window (not in the future)
+    /// @param window Length of the averaging window in seconds
+    /// @param report A signed report of the price at `endTime` for the sources that take them, or empty
+    /// @return price The settlement price (scaled by 1e8)
+    /// @return source The oracle that supplied the price, or this oracle for the manual price
+    function getSettlementPrice(
+        bytes32 asset,
+        uint256 endTime,
+        uint256 window,
+        uint80,
+        bytes calldata report
+    ) external view returns (uint256 price, address source) {
+        IPriceOracle[] storage chain = _chain(asset);
+        bool found;
+        for (uint256 i = 0; i < chain.length; i++) {
+            (found, price, source) = _trySettlementPrice(chain[i], asset, endTime, window, "");
+            if (found) return (price, source);
+        }
+        if (report.length > 0) {
+            for (uint256 i = 0; i < chain.length; i++) {
+                (found, price, source) = _trySettlementPrice(chain[i], asset, endTime, window, report);
+                if (found) return (price, source);
+            }
+        }
+
+        price = manualPrices[asset][endTime];
+        require(price > 0, "No price source available");
+        return (price, address(this));
+    }
+
+    /// @notice Find the primary source's round to pass as `roundHint` for a timestamp
+    /// @param asset The asset to query
+    /// @param timestamp The time to look up
+    /// @return roundId The primary source's last round at or before `timestamp`
+    function findRoundAt(bytes32 asset, uint256 timestamp) external view returns (uint80 roundId) {
+        return _chain(asset)[0].findRoundAt(asset, timestamp);
+    }
+
+    // ============ View Functions ============
+
+    /// @notice Get the oracles tried for an asset, in order
+    /// @param asset The asset to query
+    /// @return The asset's chain, empty if it is not supported
+    function getSources(bytes32 asset) external view returns (IPriceOracle[] memory) {
+        return sources[asset];
+    }
+
+    /// @notice Check if an asset has a chain, which the manual price eventually settles
+    /// @param asset The asset to check
+    /// @return True if the asset has at least one source
+    function isAssetSupported(bytes32 asset) external view returns (bool) {
+        return sources[asset].length > 0;
+    }
+
+    /// @notice ERC-165 interface detection
+    /// @param interfaceId The interface identifier to check
+    /// @return True for IPriceOracle and IERC165
+    function supportsInterface(bytes4 interfaceId) external pure returns (bool) {
+        return interfaceId == type(IPriceOracle).interfaceId || interfaceId == type(IERC165).interfaceId;
+    }
+
+    // ============ Internal Functions ============
+
+    /// @notice Get an asset's chain, reverting if it has none
+    function _chain(bytes32 asset) private view returns (IPriceOracle[] storage chain) {
+        chain = sources[asset];
+        require(chain.length > 0, "Asset not supported");
+    }
+
+    /// @notice Ask one source for a settlement price, at the round it finds itself
+    /// @return found Whether the source could settle
+    /// @return price The source's settlement price
+    /// @return source The oracle the source reports as used
+    function _trySettlementPrice(
+        IPriceOracle oracle,
+        bytes32 asset,
+        uint256 endTime,
+        uint256 window,
+        bytes memory report
+    ) private view returns (bool found, uint256 price, address source) {
+        uint80 roundHint;
+        if (report.length == 0) {
+            try oracle.findRoundAt(asset, endTime) returns (uint80 roundId) {
+                roundHint = roundId;
+            } catch (bytes memory reason) {
+                _skip(reason);
+                return (false, 0, address(0));
+            }
+        }
+
+        try oracle.getSettlementPrice(asset, endTime, window, roundHint, report) returns (
+            uint256 sourcePrice,
+            address sourceUsed
+        ) {
+            return (true, sourcePrice, sourceUsed);
+        } catch (bytes memory reason) {
+            _skip(reason);
+        }
+    }
+
+    /// @notice Let a failed source be skipped if it has no price, or raise its failure
+    /// @dev Falling back past a quarantined price or an invalid report would settle on a price the circuit breaker
+    ///      or the signers refused. A failure without a reason, as when running out of gas, isn't skipped either, or
+    ///      a caller could skip working sources by sending too little gas for them
+    function _skip(bytes memory reason) private pure {
+        require(reason.length > 0, "Source call failed");
+        if (!_isMissingPrice(reason)) {
+            assembly ("memory-safe") {
+                revert(add(reason, 32), mload(reason))
+            }
+        }
+    }
+
+    /// @notice Whether a source failed because it has no price for the request, from its revert data
+    function _isMissingPrice(bytes memory reason) private pure returns (bool) {
+        bytes4 selector = bytes4(reason);
+        if (
+            selector == ChainlinkPriceOracle.InvalidPriceFeed.selector ||
+            selector == ChainlinkPriceOracle.StalePrice.selector ||
+            selector == ChainlinkPriceOracle.InvalidPrice.selector ||
+            selector == ChainlinkPriceOracle.PriceHistoryUnavailable.selector ||
+            selector == ChainlinkPriceOracle.SignedReportsNotSupported.selector
+        ) return true;
+
+        // PriceOracle, or another FallbackPriceOracle
+        bytes32 reasonHash = keccak256(reason);
+        return
+            reasonHash == keccak256(abi.encodeWithSignature("Error(string)", "Price not available")) ||
+            reasonHash == keccak256(abi.encodeWithSignature("Error(string)", "Price too old")) ||
+            reasonHash == keccak256(abi.encodeWithSignature("Error(string)", "Asset not supported")) ||
+            reasonHash == keccak256(abi.encodeWithSignature("Error(string)", "No price source available"));
+    }
+}
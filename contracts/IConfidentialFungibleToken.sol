@@ -0,0 +1,33 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {euint64} from "@fhevm/solidity/lib/FHE.sol";
+
+/// @title IConfidentialFungibleToken - Confidential fungible token (ERC-7984 style)
+/// @notice The subset of the ERC-7984 interface BlindOracle uses for confidential collateral
+/// @dev Balances and transfer amounts are encrypted. A transfer that exceeds the sender's balance does not revert:
+///      it moves 0 instead, and the returned handle holds the amount actually transferred.
+interface IConfidentialFungibleToken {
+    function name() external view returns (string memory);
+
+    function symbol() external view returns (string memory);
+
+    function decimals() external view returns (uint8);
+
+    /// @notice Encrypted balance of `account`
+    function confidentialBalanceOf(address account) external view returns (euint64);
+
+    /// @notice Whether `spender` may transfer tokens on behalf of `holder`
+    function isOperator(address holder, address spender) external view returns (bool);
+
+    /// @notice Let `operator` transfer the caller's tokens until the `until` timestamp
+    function setOperator(address operator, uint48 until) external;
+
+    /// @notice Transfer an encrypted amount the caller is allowed to use
+    /// @return transferred Amount actually transferred (0 if the balance was too small)
+    function confidentialTransfer(address to, euint64 amount) external returns (euint64 transferred);
+
+    /// @notice Transfer an encrypted amount from `from`, who must have made the caller an operator
+    /// @return transferred Amount actually transferred (0 if the balance was too small)
+    function confidentialTransferFrom(address from, address to, euint64 amount) external returns (euint64 transferred);
+}
@@ -0,0 +1,74 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {IERC165} from "@openzeppelin/contracts/utils/introspection/IERC165.sol";
+import {AssetRegistry} from "./AssetRegistry.sol";
+
+/// @title IPriceOracle - Price source for price and scalar markets
+/// @notice Implemented by PriceOracle (pushed by updaters) and ChainlinkPriceOracle (Chainlink feeds)
+/// @dev Assets are AssetRegistry IDs. Prices are in USD scaled by 10^decimals(). Rounds are the oracle's own update
+///      numbering: feed round IDs for Chainlink, update numbers from 1 for PriceOracle. Implementations report support
+///      through ERC-165
+interface IPriceOracle is IERC165 {
+    /// @notice Registry listing the assets this oracle can price
+    function assetRegistry() external view returns (AssetRegistry);
+
+    /// @notice Whether this oracle can price `asset`
+    function isAssetSupported(bytes32 asset) external view returns (bool);
+
+    /// @notice Number of decimals in every price
+    function decimals() external view returns (uint8);
+
+    /// @notice Latest price, reverting if it is not available or older than the oracle's maximum age
+    /// @return price The latest price
+    /// @return timestamp The timestamp of the price update
+    function getPrice(bytes32 asset) external view returns (uint256 price, uint256 timestamp);
+
+    /// @notice Latest price with the decimals and a description of its source
+    /// @return price The latest price
+    /// @return timestamp The timestamp of the price update
+    /// @return priceDecimals The number of decimals in the price
+    /// @return description The description of the price source, e.g. "ETH / USD"
+    function getPriceWithMetadata(
+        bytes32 asset
+    ) external view returns (uint256 price, uint256 timestamp, uint8 priceDecimals, string memory description);
+
+    /// @notice Whether the latest price is at or above `targetPrice`
+    function isPriceAboveTarget(bytes32 asset, uint256 targetPrice) external view returns (bool isAbove);
+
+    /// @notice Price in effect at a past timestamp
+    /// @param roundHint The last round at or before `timestamp` (see findRoundAt)
+    /// @return price The price at `timestamp`
+    /// @return updatedAt The timestamp of the round's update
+    function getPriceAt(
+        bytes32 asset,
+        uint256 timestamp,
+        uint80 roundHint
+    ) external view returns (uint256 price, uint256 updatedAt);
+
+    /// @notice Time-weighted average price over `[endTime - window, endTime]`
+    /// @param roundHint The last round at or before `endTime` (see findRoundAt)
+    function getTwap(
+        bytes32 asset,
+        uint256 endTime,
+        uint256 window,
+        uint80 roundHint
+    ) external view returns (uint256 twap);
+
+    /// @notice Price a market ending at `endTime` settles on: the TWAP, or the price of a signed report if one is given
+    /// @param roundHint The last round at or before `endTime` (see findRoundAt)
+    /// @param report ABI-encoded `(uint256 price, uint256 reportTimestamp, bytes[] signatures)` signed off-chain by
+    ///        the oracle's signers, or empty for the TWAP. Reverts if the oracle does not take signed reports
+    /// @return price The settlement price
+    /// @return source The oracle that supplied the price: this oracle, or the one a fallback oracle fell back to
+    function getSettlementPrice(
+        bytes32 asset,
+        uint256 endTime,
+        uint256 window,
+        uint80 roundHint,
+        bytes calldata report
+    ) external view returns (uint256 price, address source);
+
+    /// @notice Last round at or before `timestamp`, to pass as a round hint (meant to be called off-chain)
+    function findRoundAt(bytes32 asset, uint256 timestamp) external view returns (uint80 roundId);
+}
@@ -0,0 +1,118 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import "./BlindOracle.sol";
+import "./IPriceOracle.sol";
+
+/// @title MarketDeployer
+/// @notice Deploys BlindOracle markets on behalf of MarketFactory
+/// @dev The BlindOracle creation code is too large for any runtime to embed under the 24KB contract size limit,
+///      so the constructor stores it in two code-only data contracts and deployMarket() stitches it back together
+contract MarketDeployer {
+    /// @notice The factory allowed to deploy markets (the contract that created this deployer)
+    address public immutable factory;
+
+    /// @notice Data contracts holding the first and second half of the BlindOracle creation code
+    address private immutable creationCodeHead;
+    address private immutable creationCodeTail;
+
+    constructor() {
+        factory = msg.sender;
+
+        bytes memory creationCode = type(BlindOracle).creationCode;
+        uint256 half = creationCode.length / 2;
+        creationCodeHead = _storeCode(creationCode, 0, half);
+        creationCodeTail = _storeCode(creationCode, half, creationCode.length);
+    }
+
+    /// @notice Deploy a new BlindOracle market
+    /// @dev Parameters are forwarded unchanged to the BlindOracle constructor
+    /// @return marketAddress Address of the newly deployed market
+    function deployMarket(
+        address _owner,
+        BlindOracle.MarketType _marketType,
+        string memory _description,
+        uint256 _commitmentDuration,
+        uint256 _eventDuration,
+        address _priceOracle,
+        bytes32 _targetAsset,
+        uint256 _targetPrice,
+        string[] memory _outcomeLabels,
+        uint256[] memory _bucketBoundaries,
+        uint256 _refundGracePeriod,
+        address _arbiter,
+        BlindOracle.FeeConfig memory _fees,
+        address _collateralToken,
+        address _confidentialToken,
+        uint256 _twapWindow
+    ) external returns (address marketAddress) {
+        require(msg.sender == factory, "Only factory can deploy markets");
+
+        bytes memory initCode = abi.encodePacked(
+            _loadCode(creationCodeHead),
+            _loadCode(creationCodeTail),
+            abi.encode(
+                _owner,
+                _marketType,
+                _description,
+                _commitmentDuration,
+                _eventDuration,
+                _priceOracle,
+                _targetAsset,
+                _targetPrice,
+                _outcomeLabels,
+                _bucketBoundaries,
+                _refundGracePeriod,
+                _arbiter,
+                _fees,
+                _collateralToken,
+                _confidentialToken,
+                _twapWindow
+            )
+        );
+
+        // Same as `new BlindOracle(...)`, including bubbling up constructor revert reasons
+        assembly ("memory-safe") {
+            marketAddress := create(0, add(initCode, 32), mload(initCode))
+            if iszero(marketAddress) {
+                let ptr := mload(0x40)
+                returndatacopy(ptr, 0, returndatasize())
+                revert(ptr, returndatasize())
+            }
+        }
+    }
+
+    // ============ Internal Helpers ============
+
+    /// @dev Deploy `code[start:end]` as the runtime code of a new contract, behind a STOP byte so it cannot be called
+    function _storeCode(bytes memory code, uint256 start, uint256 end) private returns (address pointer) {
+        uint256 length = end - start;
+        bytes memory chunk = new bytes(length);
+        assembly ("memory-safe") {
+            mcopy(add(chunk, 32), add(add(code, 32), start), length)
+        }
+
+        // PUSH2 size, DUP1, PUSH1 10, RETURNDATASIZE, CODECOPY, RETURNDATASIZE, RETURN:
+        // returns everything after this 10-byte prefix as the runtime code
+        bytes memory dataContractCode = abi.encodePacked(
+            hex"61",
+            uint16(length + 1),
+            hex"80600a3d393df3",
+            hex"00",
+            chunk
+        );
+        assembly ("memory-safe") {
+            pointer := create(0, add(dataContractCode, 32), mload(dataContractCode))
+        }
+        require(pointer != address(0), "Code storage failed");
+    }
+
+    /// @dev Read back the code stored by `_storeCode`, skipping the STOP byte
+    function _loadCode(address pointer) private view returns (bytes memory code) {
+        uint256 length = pointer.code.length - 1;
+        code = new bytes(length);
+        assembly ("memory-safe") {
+            extcodecopy(pointer, add(code, 32), 1, length)
+        }
+    }
+}
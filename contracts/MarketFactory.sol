@@ -2,14 +2,40 @@
 pragma solidity ^0.8.24;
 
 import "./BlindOracle.sol";
-import "./PriceOracle.sol";
+import "./MarketDeployer.sol";
+import "./IPriceOracle.sol";
+import "@openzeppelin/contracts/utils/introspection/ERC165Checker.sol";
 
 /// @title MarketFactory
 /// @notice Factory contract for creating multiple prediction markets
-/// @dev Allows anyone to create new BlindOracle markets (Event or Price types)
+/// @dev Allows anyone to create new BlindOracle markets (Event, Price, Categorical or Scalar types)
 contract MarketFactory {
     // ============ State Variables ============
 
+    /// @notice Maximum protocol fee the admin can set (5% of the pool)
+    uint16 public constant MAX_PROTOCOL_FEE_BPS = 500;
+
+    /// @notice Maximum creator fee a market creator can choose (5% of the pool)
+    uint16 public constant MAX_CREATOR_FEE_BPS = 500;
+
+    /// @notice Maximum early-exit penalty a market creator can choose (20% of the withdrawn bet)
+    uint16 public constant MAX_EXIT_PENALTY_BPS = 2000;
+
+    /// @notice Helper contract that holds the BlindOracle creation code
+    MarketDeployer public immutable marketDeployer;
+
+    /// @notice Arbiter that rules on disputed settlements of every market created by this factory
+    address public immutable arbiter;
+
+    /// @notice Admin that configures the protocol fee
+    address public admin;
+
+    /// @notice Protocol fee applied to newly created markets (in basis points of the winner pool)
+    uint16 public protocolFeeBps;
+
+    /// @notice Receives the protocol fee of newly created markets
+    address public protocolFeeRecipient;
+
     /// @notice Array of all created markets
     address[] public markets;
 
@@ -19,7 +45,7 @@ contract MarketFactory {
     /// @notice Market metadata
     struct MarketInfo {
         address marketAddress;
-        address creator;
+        address creator; // Also the market owner who resolves event markets
         string description;
         uint256 commitmentDeadline;
         uint256 eventDeadline;
@@ -42,17 +68,64 @@ contract MarketFactory {
         uint256 eventDuration,
         uint256 timestamp
     );
+    event ProtocolFeeUpdated(uint16 feeBps, address recipient);
+
+    // ============ Modifiers ============
+
+    modifier onlyAdmin() {
+        require(msg.sender == admin, "Only admin can call this");
+        _;
+    }
+
+    // ============ Constructor ============
+
+    /// @param _arbiter Address that rules on disputed settlements (e.g. a multisig or committee contract)
+    constructor(address _arbiter) {
+        require(_arbiter != address(0), "Invalid arbiter address");
+        arbiter = _arbiter;
+        admin = msg.sender;
+        marketDeployer = new MarketDeployer();
+    }
+
+    // ============ Admin Functions ============
+
+    /// @notice Set the protocol fee for markets created from now on
+    /// @dev Existing markets keep the fee they were created with
+    /// @param _feeBps Protocol fee in basis points of the winner pool (at most MAX_PROTOCOL_FEE_BPS)
+    /// @param _recipient Address that can withdraw the protocol fee from each market
+    function setProtocolFee(uint16 _feeBps, address _recipient) external onlyAdmin {
+        require(_feeBps <= MAX_PROTOCOL_FEE_BPS, "Protocol fee too high");
+        require(_feeBps == 0 || _recipient != address(0), "Invalid fee recipient");
+
+        protocolFeeBps = _feeBps;
+        protocolFeeRecipient = _recipient;
+
+        emit ProtocolFeeUpdated(_feeBps, _recipient);
+    }
 
     // ============ Functions ============
 
     /// @notice Create a new prediction market
-    /// @param _marketType Type of market (Event or Price)
+    /// @dev The caller becomes the market owner, so they (not this factory) resolve event markets.
+    ///      Disputes are ruled on by the factory arbiter, so the arbiter cannot create owner-resolved markets.
+    /// @param _marketType Type of market (Event, Price, Categorical or Scalar)
     /// @param _description Description of the event to predict
     /// @param _commitmentDuration Duration of the blind commitment phase (in seconds)
     /// @param _eventDuration Duration until the event occurs (in seconds)
-    /// @param _priceOracle Address of price oracle (only for Price markets, use address(0) for Event markets)
-    /// @param _targetAsset Target asset for price prediction (only for Price markets)
+    /// @param _priceOracle IPriceOracle implementation (only for Price/Scalar markets, use address(0) otherwise)
+    /// @param _targetAsset AssetRegistry ID of the tracked asset (Price/Scalar markets, supported by the oracle)
     /// @param _targetPrice Target price for prediction (only for Price markets, scaled by 1e8)
+    /// @param _outcomeLabels Outcome labels (only for Categorical markets, empty array otherwise)
+    /// @param _bucketBoundaries Ascending price bucket boundaries (only for Scalar markets, scaled by 1e8)
+    /// @param _refundGracePeriod Time a stuck market waits before anyone can cancel it for refunds (in seconds)
+    /// @param _creatorFeeBps Fee paid to the creator from the winner pool (basis points, at most MAX_CREATOR_FEE_BPS)
+    /// @param _exitPenaltyBps Penalty kept from a commitment withdrawn before the deadline (basis points, at most
+    ///        MAX_EXIT_PENALTY_BPS)
+    /// @param _collateralToken ERC-20 token the market is collateralized in (use address(0) for native ETH)
+    /// @param _confidentialToken Confidential token for encrypted bets and payouts (Price/Scalar markets only,
+    ///        use address(0) for none)
+    /// @param _twapWindow Seconds before the event deadline whose time-weighted average price settles Price/Scalar
+    ///        markets (0 for the price at the deadline, at most `_eventDuration`)
     /// @return marketAddress Address of the newly created market
     function createMarket(
         BlindOracle.MarketType _marketType,
@@ -60,32 +133,62 @@ contract MarketFactory {
         uint256 _commitmentDuration,
         uint256 _eventDuration,
         address _priceOracle,
-        PriceOracle.Asset _targetAsset,
-        uint256 _targetPrice
+        bytes32 _targetAsset,
+        uint256 _targetPrice,
+        string[] memory _outcomeLabels,
+        uint256[] memory _bucketBoundaries,
+        uint256 _refundGracePeriod,
+        uint16 _creatorFeeBps,
+        uint16 _exitPenaltyBps,
+        address _collateralToken,
+        address _confidentialToken,
+        uint256 _twapWindow
     ) external returns (address marketAddress) {
         require(bytes(_description).length > 0, "Description cannot be empty");
         require(_commitmentDuration > 0, "Commitment duration must be positive");
         require(_eventDuration > 0, "Event duration must be positive");
+        require(_refundGracePeriod > 0, "Refund grace period must be positive");
+        require(_creatorFeeBps <= MAX_CREATOR_FEE_BPS, "Creator fee too high");
+        require(_exitPenaltyBps <= MAX_EXIT_PENALTY_BPS, "Exit penalty too high");
 
         // Validate price market parameters
-        if (_marketType == BlindOracle.MarketType.Price) {
+        if (_marketType == BlindOracle.MarketType.Price || _marketType == BlindOracle.MarketType.Scalar) {
             require(_priceOracle != address(0), "Price oracle required for price markets");
+            require(
+                ERC165Checker.supportsInterface(_priceOracle, type(IPriceOracle).interfaceId),
+                "Price oracle must implement IPriceOracle"
+            );
+            require(IPriceOracle(_priceOracle).isAssetSupported(_targetAsset), "Asset not supported by oracle");
+        }
+        if (_marketType == BlindOracle.MarketType.Price) {
             require(_targetPrice > 0, "Target price must be positive");
         }
 
         // Deploy new BlindOracle contract
-        BlindOracle newMarket = new BlindOracle(
+        marketAddress = marketDeployer.deployMarket(
+            msg.sender,
             _marketType,
             _description,
             _commitmentDuration,
             _eventDuration,
             _priceOracle,
             _targetAsset,
-            _targetPrice
+            _targetPrice,
+            _outcomeLabels,
+            _bucketBoundaries,
+            _refundGracePeriod,
+            arbiter,
+            BlindOracle.FeeConfig({
+                protocolFeeRecipient: protocolFeeRecipient,
+                protocolFeeBps: protocolFeeBps,
+                creatorFeeBps: _creatorFeeBps,
+                exitPenaltyBps: _exitPenaltyBps
+            }),
+            _collateralToken,
+            _confidentialToken,
+            _twapWindow
         );
 
-        marketAddress = address(newMarket);
-
         // Store market info
         marketInfo[marketAddress] = MarketInfo({
             marketAddress: marketAddress,
@@ -1,29 +1,37 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.24;
 
+import { IERC165 } from "@openzeppelin/contracts/utils/introspection/IERC165.sol";
+import { ECDSA } from "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import { MessageHashUtils } from "@openzeppelin/contracts/utils/cryptography/MessageHashUtils.sol";
+import { IPriceOracle } from "./IPriceOracle.sol";
+import { AssetRegistry } from "./AssetRegistry.sol";
+
 /// @title PriceOracle - Simple Price Oracle for Crypto Assets
-/// @notice Provides price data for ETH, BTC, and SOL
+/// @notice Provides price data for the assets listed in an AssetRegistry
 /// @dev In production, this should integrate with Chainlink or other decentralized oracles
-contract PriceOracle {
+contract PriceOracle is IPriceOracle {
     // ============ Structs ============
     
     struct PriceData {
         uint256 price;        // Price in USD (scaled by 1e8, e.g., $50000.00 = 5000000000000)
         uint256 timestamp;    // Last update timestamp
-        address updater;      // Address that updated the price
+        address updater;      // Address that updated the price (in quorum mode, the one that completed the round)
+    }
+
+    struct Report {
+        uint256 price;        // Reported price (scaled by 1e8)
+        uint256 timestamp;    // Report timestamp
+        address updater;      // Reporting updater
     }
 
     // ============ State Variables ============
     
-    /// @notice Supported assets
-    enum Asset {
-        ETH,
-        BTC,
-        SOL
-    }
+    /// @notice Registry of the assets updaters can price
+    AssetRegistry public immutable assetRegistry;
 
     /// @notice Price data for each asset
-    mapping(Asset => PriceData) public prices;
+    mapping(bytes32 => PriceData) public prices;
 
     /// @notice Authorized price updaters (in production, this would be Chainlink nodes)
     mapping(address => bool) public isUpdater;
@@ -34,11 +42,81 @@ contract PriceOracle {
     /// @notice Maximum price age (24 hours)
     uint256 public constant MAX_PRICE_AGE = 24 hours;
 
+    /// @notice Number of decimals in every price (prices are scaled by 1e8)
+    uint8 public constant decimals = 8;
+
+    /// @notice Number of past updates kept per asset for TWAP queries
+    uint256 public constant PRICE_HISTORY_SIZE = 48;
+
+    /// @notice Ring buffer of past updates per asset, the oldest is overwritten first
+    mapping(bytes32 => PriceData[PRICE_HISTORY_SIZE]) private priceHistory;
+
+    /// @notice Number of updates ever recorded per asset, which is also the latest round
+    /// @dev Updates are numbered from 1 like feed rounds; round `r` is kept at `(r - 1) % PRICE_HISTORY_SIZE`
+    mapping(bytes32 => uint256) public priceHistoryCount;
+
+    /// @notice Number of updater reports needed to record a price, which is their median (1 = any single updater)
+    uint256 public quorum = 1;
+
+    /// @notice Reports further than this from the median, in basis points, are flagged as outliers
+    uint256 public maxDeviationBps = 500;
+
+    /// @notice Largest quorum, which bounds the cost of taking the median
+    uint256 public constant MAX_QUORUM = 15;
+
+    /// @notice Reports of a round that doesn't reach the quorum within this time are discarded
+    uint256 public constant REPORT_TIMEOUT = 1 hours;
+
+    /// @notice Reports of the round being collected per asset
+    mapping(bytes32 => Report[]) private pendingReports;
+
+    /// @notice Addresses whose signed price reports are accepted for settlement
+    mapping(address => bool) public isSigner;
+
+    /// @notice EIP-712 type of a signed price report
+    bytes32 public constant PRICE_REPORT_TYPEHASH =
+        keccak256("PriceReport(bytes32 asset,uint256 price,uint256 timestamp)");
+
+    /// @notice EIP-712 type of the signing domain
+    bytes32 public constant DOMAIN_TYPEHASH =
+        keccak256("EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)");
+
+    /// @notice Largest move from the latest price a single update may make, in basis points (0 = unchecked)
+    uint256 public maxUpdateChangeBps;
+
+    /// @notice Largest move from the price in effect `changeWindow` ago, in basis points (0 = unchecked)
+    uint256 public maxWindowChangeBps;
+
+    /// @notice Length of the window maxWindowChangeBps applies to, in seconds
+    uint256 public changeWindow;
+
+    /// @notice Latest price the circuit breaker held back per asset, until the owner confirms or rejects it
+    mapping(bytes32 => PriceData) public quarantinedPrices;
+
+    /// @notice Time the circuit breaker tripped per asset, 0 if its prices are not quarantined
+    mapping(bytes32 => uint256) public quarantinedSince;
+
     // ============ Events ============
     
-    event PriceUpdated(Asset indexed asset, uint256 price, uint256 timestamp, address updater);
+    event PriceUpdated(bytes32 indexed asset, uint256 price, uint256 timestamp, address updater);
     event UpdaterAdded(address indexed updater);
     event UpdaterRemoved(address indexed updater);
+    event PriceReported(bytes32 indexed asset, uint256 indexed round, address indexed updater, uint256 price);
+    event OutlierReported(
+        bytes32 indexed asset,
+        uint256 indexed round,
+        address indexed updater,
+        uint256 price,
+        uint256 median
+    );
+    event ReportsExpired(bytes32 indexed asset, uint256 indexed round, uint256 reportCount);
+    event QuorumUpdated(uint256 quorum, uint256 maxDeviationBps);
+    event SignerAdded(address indexed signer);
+    event SignerRemoved(address indexed signer);
+    event CircuitBreakerUpdated(uint256 maxUpdateChangeBps, uint256 maxWindowChangeBps, uint256 changeWindow);
+    event PriceQuarantined(bytes32 indexed asset, uint256 price, uint256 timestamp, address updater);
+    event PriceConfirmed(bytes32 indexed asset, uint256 price, uint256 timestamp);
+    event PriceRejected(bytes32 indexed asset, uint256 price, uint256 timestamp);
 
     // ============ Modifiers ============
     
@@ -54,28 +132,13 @@ contract PriceOracle {
 
     // ============ Constructor ============
     
-    constructor() {
+    /// @param _assetRegistry Registry of the assets updaters can price
+    constructor(AssetRegistry _assetRegistry) {
+        require(address(_assetRegistry) != address(0), "Invalid registry");
+
         owner = msg.sender;
         isUpdater[msg.sender] = true;
-        
-        // Initialize with some default prices (for testing)
-        prices[Asset.ETH] = PriceData({
-            price: 3500_00000000,  // $3,500
-            timestamp: block.timestamp,
-            updater: msg.sender
-        });
-        
-        prices[Asset.BTC] = PriceData({
-            price: 95000_00000000,  // $95,000
-            timestamp: block.timestamp,
-            updater: msg.sender
-        });
-        
-        prices[Asset.SOL] = PriceData({
-            price: 180_00000000,  // $180
-            timestamp: block.timestamp,
-            updater: msg.sender
-        });
+        assetRegistry = _assetRegistry;
     }
 
     // ============ Admin Functions ============
@@ -93,39 +156,98 @@ contract PriceOracle {
         emit UpdaterRemoved(updater);
     }
 
+    /// @notice Add a signer of off-chain price reports
+    function addSigner(address signer) external onlyOwner {
+        require(signer != address(0), "Invalid address");
+        isSigner[signer] = true;
+        emit SignerAdded(signer);
+    }
+
+    /// @notice Remove a signer of off-chain price reports
+    function removeSigner(address signer) external onlyOwner {
+        isSigner[signer] = false;
+        emit SignerRemoved(signer);
+    }
+
+    /// @notice Set how many updaters must report a price before it is recorded
+    /// @dev Reports already collected for a round still count, and a round with more reports than a lowered quorum
+    ///      is recorded on its next report
+    /// @param _quorum Number of reports per round (1 records every update immediately)
+    /// @param _maxDeviationBps Distance from the median above which a report is flagged, in basis points
+    function setQuorum(uint256 _quorum, uint256 _maxDeviationBps) external onlyOwner {
+        require(_quorum > 0 && _quorum <= MAX_QUORUM, "Invalid quorum");
+        require(_maxDeviationBps <= 10000, "Invalid deviation");
+
+        quorum = _quorum;
+        maxDeviationBps = _maxDeviationBps;
+
+        emit QuorumUpdated(_quorum, _maxDeviationBps);
+    }
+
+    /// @notice Configure the circuit breaker that quarantines abnormal price moves
+    /// @dev A price moving further than either limit is held back instead of recorded, and the asset's later prices
+    ///      are held back too until the owner confirms or rejects the latest one. Meanwhile getPrice reverts and
+    ///      markets cannot settle on the asset's prices from the time the breaker tripped
+    /// @param _maxUpdateChangeBps Largest move from the latest price, in basis points (0 disables the check)
+    /// @param _maxWindowChangeBps Largest move from the price `_changeWindow` ago, in basis points (0 disables it)
+    /// @param _changeWindow Length of the window in seconds
+    function setCircuitBreaker(uint256 _maxUpdateChangeBps, uint256 _maxWindowChangeBps, uint256 _changeWindow)
+        external
+        onlyOwner
+    {
+        require(_maxWindowChangeBps == 0 || _changeWindow > 0, "Invalid window");
+
+        maxUpdateChangeBps = _maxUpdateChangeBps;
+        maxWindowChangeBps = _maxWindowChangeBps;
+        changeWindow = _changeWindow;
+
+        emit CircuitBreakerUpdated(_maxUpdateChangeBps, _maxWindowChangeBps, _changeWindow);
+    }
+
+    /// @notice Record an asset's quarantined price and resume updates
+    /// @dev The price is recorded at the time it was reported, so TWAPs and settlement see it from then on
+    /// @param asset The asset whose quarantined price is genuine
+    function confirmPrice(bytes32 asset) external onlyOwner {
+        require(quarantinedSince[asset] != 0, "No quarantined price");
+        PriceData memory data = quarantinedPrices[asset];
+        delete quarantinedPrices[asset];
+        delete quarantinedSince[asset];
+
+        _recordPrice(asset, data);
+        emit PriceConfirmed(asset, data.price, data.timestamp);
+        emit PriceUpdated(asset, data.price, data.timestamp, data.updater);
+    }
+
+    /// @notice Discard an asset's quarantined price and resume updates
+    /// @param asset The asset whose quarantined price is wrong
+    function rejectPrice(bytes32 asset) external onlyOwner {
+        require(quarantinedSince[asset] != 0, "No quarantined price");
+        PriceData memory data = quarantinedPrices[asset];
+        delete quarantinedPrices[asset];
+        delete quarantinedSince[asset];
+
+        emit PriceRejected(asset, data.price, data.timestamp);
+    }
+
     // ============ Price Update Functions ============
     
     /// @notice Update price for a single asset
+    /// @dev With a quorum above 1 this is the caller's report for the asset's next round, and the price is only
+    ///      recorded once enough updaters have reported (see setQuorum)
     /// @param asset The asset to update
     /// @param price The new price (scaled by 1e8)
-    function updatePrice(Asset asset, uint256 price) external onlyUpdater {
-        require(price > 0, "Invalid price");
-        
-        prices[asset] = PriceData({
-            price: price,
-            timestamp: block.timestamp,
-            updater: msg.sender
-        });
-        
-        emit PriceUpdated(asset, price, block.timestamp, msg.sender);
+    function updatePrice(bytes32 asset, uint256 price) external onlyUpdater {
+        _submitReport(asset, price);
     }
 
     /// @notice Update prices for multiple assets in one transaction
     /// @param assets Array of assets to update
     /// @param newPrices Array of new prices (scaled by 1e8)
-    function updatePrices(Asset[] calldata assets, uint256[] calldata newPrices) external onlyUpdater {
+    function updatePrices(bytes32[] calldata assets, uint256[] calldata newPrices) external onlyUpdater {
         require(assets.length == newPrices.length, "Length mismatch");
         
         for (uint256 i = 0; i < assets.length; i++) {
-            require(newPrices[i] > 0, "Invalid price");
-            
-            prices[assets[i]] = PriceData({
-                price: newPrices[i],
-                timestamp: block.timestamp,
-                updater: msg.sender
-            });
-            
-            emit PriceUpdated(assets[i], newPrices[i], block.timestamp, msg.sender);
+            _submitReport(assets[i], newPrices[i]);
         }
     }
 
@@ -135,19 +257,202 @@ contract PriceOracle {
     /// @param asset The asset to query
     /// @return price The latest price (scaled by 1e8)
     /// @return timestamp The timestamp of the price update
-    function getPrice(Asset asset) external view returns (uint256 price, uint256 timestamp) {
+    function getPrice(bytes32 asset) external view returns (uint256 price, uint256 timestamp) {
         PriceData memory data = prices[asset];
         require(data.timestamp > 0, "Price not available");
         require(block.timestamp - data.timestamp <= MAX_PRICE_AGE, "Price too old");
+        require(quarantinedSince[asset] == 0, "Price quarantined");
         
         return (data.price, data.timestamp);
     }
 
+    /// @notice Get the price that was in effect at a past timestamp
+    /// @dev The caller finds the round off-chain (see findRoundAt) and the oracle only checks it
+    /// @param asset The asset to query
+    /// @param timestamp The time to look up (not in the future)
+    /// @param roundHint The last update made at or before `timestamp`
+    /// @return price The price at `timestamp` (scaled by 1e8)
+    /// @return updatedAt The timestamp of the update
+    function getPriceAt(bytes32 asset, uint256 timestamp, uint80 roundHint)
+        external
+        view
+        returns (uint256 price, uint256 updatedAt)
+    {
+        PriceData memory data = _roundAt(asset, timestamp, roundHint);
+        return (data.price, data.timestamp);
+    }
+
+    /// @notice Get the time-weighted average price over `[endTime - window, endTime]`
+    /// @dev Walks the update history backwards from `roundHint`, weighting each price by how long it stood within
+    ///      the window. If the history ends first (only the last PRICE_HISTORY_SIZE updates are kept), the average
+    ///      covers the part of the window that was reached. A zero window returns the price at `endTime`
+    /// @param asset The asset to query
+    /// @param endTime End of the averaging window (not in the future)
+    /// @param window Length of the averaging window in seconds
+    /// @param roundHint The last update made at or before `endTime` (see getPriceAt)
+    /// @return twap The average price (scaled by 1e8)
+    function getTwap(bytes32 asset, uint256 endTime, uint256 window, uint80 roundHint)
+        public
+        view
+        returns (uint256 twap)
+    {
+        require(endTime <= block.timestamp && window <= endTime, "Invalid window");
+        PriceData memory data = _roundAt(asset, endTime, roundHint);
+        uint256 count = priceHistoryCount[asset];
+        uint256 oldestRound = count > PRICE_HISTORY_SIZE ? count - PRICE_HISTORY_SIZE + 1 : 1;
+
+        uint256 priceAtEnd = data.price;
+        uint256 startTime = endTime - window;
+        uint256 segmentEnd = endTime;
+        uint256 weightedSum;
+        for (uint256 round = roundHint; ; round--) {
+            uint256 segmentStart = data.timestamp > startTime ? data.timestamp : startTime;
+            weightedSum += data.price * (segmentEnd - segmentStart);
+            segmentEnd = segmentStart;
+            if (segmentStart == startTime || round == oldestRound) break;
+
+            data = priceHistory[asset][(round - 2) % PRICE_HISTORY_SIZE];
+        }
+
+        if (segmentEnd == endTime) return priceAtEnd;
+        return weightedSum / (endTime - segmentEnd);
+    }
+
+    /// @notice Find the round to pass as `roundHint` for a timestamp
+    /// @dev Walks backwards from the latest update. Meant to be called off-chain before getPriceAt or settlement
+    /// @param asset The asset to query
+    /// @param timestamp The time to look up
+    /// @return roundId The last update made at or before `timestamp`
+    function findRoundAt(bytes32 asset, uint256 timestamp) external view returns (uint80 roundId) {
+        roundId = uint80(_lastRoundAt(asset, timestamp));
+        require(roundId > 0, "Price not available");
+    }
+
+    /// @notice Get the latest price with metadata
+    /// @param asset The asset to query
+    /// @return price The latest price (scaled by 1e8)
+    /// @return timestamp The timestamp of the price update
+    /// @return priceDecimals The number of decimals in the price
+    /// @return description The asset pair, e.g. "ETH / USD"
+    function getPriceWithMetadata(bytes32 asset)
+        external
+        view
+        returns (uint256 price, uint256 timestamp, uint8 priceDecimals, string memory description)
+    {
+        (price, timestamp) = this.getPrice(asset);
+        return (price, timestamp, decimals, string.concat(assetRegistry.getAsset(asset).symbol, " / USD"));
+    }
+
+    /// @notice Get the price a market ending at `endTime` settles on
+    /// @param asset The asset to query
+    /// @param endTime End of the averaging window (not in the future)
+    /// @param window Length of the averaging window in seconds
+    /// @param roundHint The last update made at or before `endTime` (ignored for a signed report)
+    /// @param report A signed report of the price at `endTime` (see verifyReportAt), or empty for the TWAP. Only
+    ///        taken when the updaters recorded no price that can settle the market
+    /// @return price The reported price, or the average price over the window (scaled by 1e8)
+    /// @return source This oracle
+    function getSettlementPrice(bytes32 asset, uint256 endTime, uint256 window, uint80 roundHint, bytes calldata report)
+        external
+        view
+        returns (uint256 price, address source)
+    {
+        if (report.length == 0) return (getTwap(asset, endTime, window, roundHint), address(this));
+        return (verifyReportAt(asset, endTime, report), address(this));
+    }
+
+    /// @notice Check a price report signed off-chain for the price in effect at a past timestamp
+    /// @dev Fallback for when updaters pushed no price: anyone can bring the report, e.g. to settle a market. It needs
+    ///      `quorum` signatures from distinct signers, ordered by ascending signer address. Reverts if the report is
+    ///      invalid, prices another time than `timestamp` or is older than MAX_PRICE_AGE. It also reverts if the
+    ///      circuit breaker would quarantine the reported price, and if a recorded price at most MAX_PRICE_AGE old
+    ///      was in effect at `timestamp`, so a caller can't pick a report over the recorded prices
+    /// @param asset The asset to query
+    /// @param timestamp The time the report must price (not in the future)
+    /// @param report ABI-encoded `(uint256 price, uint256 reportTimestamp, bytes[] signatures)`: the reported price
+    ///        (scaled by 1e8), the time the signers observed it (`timestamp`) and their EIP-712 signatures of the
+    ///        PriceReport
+    /// @return price The reported price
+    function verifyReportAt(bytes32 asset, uint256 timestamp, bytes calldata report)
+        public
+        view
+        returns (uint256 price)
+    {
+        uint256 reportTimestamp;
+        bytes[] memory signatures;
+        (price, reportTimestamp, signatures) = abi.decode(report, (uint256, uint256, bytes[]));
+
+        require(timestamp <= block.timestamp, "Invalid timestamp");
+        require(reportTimestamp == timestamp, "Invalid report timestamp");
+        require(block.timestamp - reportTimestamp <= MAX_PRICE_AGE, "Report expired");
+        require(price > 0, "Invalid price");
+        require(assetRegistry.isListed(asset), "Unknown asset");
+        require(signatures.length >= quorum, "Not enough signatures");
+
+        uint256 since = quarantinedSince[asset];
+        require((since == 0 || since > timestamp) && !_exceedsLimits(asset, price, timestamp), "Price quarantined");
+        uint256 round = _lastRoundAt(asset, timestamp);
+        require(
+            round == 0 || timestamp - priceHistory[asset][(round - 1) % PRICE_HISTORY_SIZE].timestamp > MAX_PRICE_AGE,
+            "Recorded price available"
+        );
+
+        bytes32 digest = hashPriceReport(asset, price, reportTimestamp);
+        address previous;
+        for (uint256 i = 0; i < signatures.length; i++) {
+            address signer = ECDSA.recover(digest, signatures[i]);
+            require(isSigner[signer], "Invalid report signature");
+            require(signer > previous, "Signers out of order");
+            previous = signer;
+        }
+    }
+
+    /// @notice Get the EIP-712 digest signers sign for a price report
+    /// @param asset The reported asset
+    /// @param price The reported price (scaled by 1e8)
+    /// @param timestamp The time the price was observed
+    /// @return The typed data hash of the report
+    function hashPriceReport(bytes32 asset, uint256 price, uint256 timestamp) public view returns (bytes32) {
+        bytes32 domainSeparator = keccak256(
+            abi.encode(DOMAIN_TYPEHASH, keccak256("PriceOracle"), keccak256("1"), block.chainid, address(this))
+        );
+        bytes32 structHash = keccak256(abi.encode(PRICE_REPORT_TYPEHASH, asset, price, timestamp));
+        return MessageHashUtils.toTypedDataHash(domainSeparator, structHash);
+    }
+
+    /// @notice Get the reports collected so far for an asset's next round
+    /// @param asset The asset to query
+    /// @return reports The pending reports, empty if the round has expired
+    function getPendingReports(bytes32 asset) external view returns (Report[] memory reports) {
+        if (_reportsExpired(asset)) return reports;
+        return pendingReports[asset];
+    }
+
+    /// @notice Check if an updater has already reported in an asset's current round
+    /// @param asset The asset to check
+    /// @param updater The updater to check
+    /// @return True if the updater's report is pending
+    function hasReported(bytes32 asset, address updater) external view returns (bool) {
+        if (_reportsExpired(asset)) return false;
+        Report[] storage reports = pendingReports[asset];
+        for (uint256 i = 0; i < reports.length; i++) {
+            if (reports[i].updater == updater) return true;
+        }
+        return false;
+    }
+
+    /// @notice Check if an asset can be priced, i.e. it is listed in the registry
+    /// @param asset The asset to check
+    /// @return True if updaters can price the asset
+    function isAssetSupported(bytes32 asset) external view returns (bool) {
+        return assetRegistry.isListed(asset);
+    }
+
     /// @notice Get price data without staleness check (for historical queries)
     /// @param asset The asset to query
     /// @return price The latest price (scaled by 1e8)
     /// @return timestamp The timestamp of the price update
-    function getPriceUnsafe(Asset asset) external view returns (uint256 price, uint256 timestamp) {
+    function getPriceUnsafe(bytes32 asset) external view returns (uint256 price, uint256 timestamp) {
         PriceData memory data = prices[asset];
         require(data.timestamp > 0, "Price not available");
         
@@ -157,7 +462,7 @@ contract PriceOracle {
     /// @notice Check if a price is fresh (within MAX_PRICE_AGE)
     /// @param asset The asset to check
     /// @return isFresh True if the price is fresh
-    function isPriceFresh(Asset asset) external view returns (bool isFresh) {
+    function isPriceFresh(bytes32 asset) external view returns (bool isFresh) {
         PriceData memory data = prices[asset];
         if (data.timestamp == 0) return false;
         return block.timestamp - data.timestamp <= MAX_PRICE_AGE;
@@ -167,12 +472,161 @@ contract PriceOracle {
     /// @param asset The asset to check
     /// @param targetPrice The target price to compare against (scaled by 1e8)
     /// @return isAbove True if current price >= target price
-    function isPriceAboveTarget(Asset asset, uint256 targetPrice) external view returns (bool isAbove) {
+    function isPriceAboveTarget(bytes32 asset, uint256 targetPrice) external view returns (bool isAbove) {
         PriceData memory data = prices[asset];
         require(data.timestamp > 0, "Price not available");
         require(block.timestamp - data.timestamp <= MAX_PRICE_AGE, "Price too old");
+        require(quarantinedSince[asset] == 0, "Price quarantined");
         
         return data.price >= targetPrice;
     }
-}
 
+    /// @notice ERC-165 interface detection
+    /// @param interfaceId The interface identifier to check
+    /// @return True for IPriceOracle and IERC165
+    function supportsInterface(bytes4 interfaceId) external pure returns (bool) {
+        return interfaceId == type(IPriceOracle).interfaceId || interfaceId == type(IERC165).interfaceId;
+    }
+
+    // ============ Internal Functions ============
+
+    /// @notice Check that `roundId` is the last update at or before `timestamp`, and read it
+    /// @dev Reverts while a price quarantined at or before `timestamp` is pending, since it may be the genuine one
+    function _roundAt(bytes32 asset, uint256 timestamp, uint256 roundId) internal view returns (PriceData memory data) {
+        require(timestamp <= block.timestamp, "Invalid timestamp");
+        uint256 since = quarantinedSince[asset];
+        require(since == 0 || since > timestamp, "Price quarantined");
+        uint256 count = priceHistoryCount[asset];
+        require(roundId > 0 && roundId <= count && roundId + PRICE_HISTORY_SIZE > count, "Price not available");
+
+        data = priceHistory[asset][(roundId - 1) % PRICE_HISTORY_SIZE];
+        require(data.timestamp <= timestamp, "Invalid round hint");
+        require(
+            roundId == count || priceHistory[asset][roundId % PRICE_HISTORY_SIZE].timestamp > timestamp,
+            "Invalid round hint"
+        );
+        require(timestamp - data.timestamp <= MAX_PRICE_AGE, "Price too old");
+    }
+
+    /// @notice Add the caller's report to the asset's round, and record the median once the quorum is reached
+    function _submitReport(bytes32 asset, uint256 price) internal {
+        require(price > 0, "Invalid price");
+        require(assetRegistry.isListed(asset), "Unknown asset");
+
+        Report[] storage reports = pendingReports[asset];
+        uint256 round = priceHistoryCount[asset] + 1;
+
+        // A single updater's price is recorded as is, without going through storage
+        if (quorum == 1 && reports.length == 0) {
+            emit PriceReported(asset, round, msg.sender, price);
+            _updatePrice(asset, price);
+            return;
+        }
+
+        if (_reportsExpired(asset)) {
+            emit ReportsExpired(asset, round, reports.length);
+            delete pendingReports[asset];
+        }
+        for (uint256 i = 0; i < reports.length; i++) {
+            require(reports[i].updater != msg.sender, "Already reported");
+        }
+
+        reports.push(Report({ price: price, timestamp: block.timestamp, updater: msg.sender }));
+        emit PriceReported(asset, round, msg.sender, price);
+        if (reports.length < quorum) return;
+
+        uint256 median = _median(reports);
+        for (uint256 i = 0; i < reports.length; i++) {
+            uint256 reported = reports[i].price;
+            uint256 deviation = reported > median ? reported - median : median - reported;
+            if (deviation * 10000 > median * maxDeviationBps) {
+                emit OutlierReported(asset, round, reports[i].updater, reported, median);
+            }
+        }
+
+        delete pendingReports[asset];
+        _updatePrice(asset, median);
+    }
+
+    /// @notice Record a new price, or quarantine it if the circuit breaker trips or has tripped
+    function _updatePrice(bytes32 asset, uint256 price) internal {
+        PriceData memory data = PriceData({ price: price, timestamp: block.timestamp, updater: msg.sender });
+
+        if (quarantinedSince[asset] == 0 && !_exceedsLimits(asset, price, block.timestamp)) {
+            _recordPrice(asset, data);
+            emit PriceUpdated(asset, price, block.timestamp, msg.sender);
+            return;
+        }
+
+        // Later prices replace the held back one, so the owner confirms the latest
+        if (quarantinedSince[asset] == 0) quarantinedSince[asset] = block.timestamp;
+        quarantinedPrices[asset] = data;
+        emit PriceQuarantined(asset, price, block.timestamp, msg.sender);
+    }
+
+    /// @notice Whether a price observed at `timestamp` moves further than the circuit breaker allows from the
+    ///         prices recorded before it
+    function _exceedsLimits(bytes32 asset, uint256 price, uint256 timestamp) internal view returns (bool) {
+        uint256 round = _lastRoundAt(asset, timestamp);
+        if (round == 0) return false;
+        PriceData storage data = priceHistory[asset][(round - 1) % PRICE_HISTORY_SIZE];
+        if (_deviates(price, data.price, maxUpdateChangeBps)) return true;
+        if (maxWindowChangeBps == 0) return false;
+
+        // Price in effect at the start of the window, or the oldest one kept if the history doesn't reach that far
+        uint256 count = priceHistoryCount[asset];
+        uint256 oldestRound = count > PRICE_HISTORY_SIZE ? count - PRICE_HISTORY_SIZE + 1 : 1;
+        while (round > oldestRound && data.timestamp + changeWindow > timestamp) {
+            round--;
+            data = priceHistory[asset][(round - 1) % PRICE_HISTORY_SIZE];
+        }
+        return _deviates(price, data.price, maxWindowChangeBps);
+    }
+
+    /// @notice Whether `price` is more than `limitBps` basis points away from `previous` (a zero limit never is)
+    function _deviates(uint256 price, uint256 previous, uint256 limitBps) internal pure returns (bool) {
+        if (limitBps == 0) return false;
+        uint256 change = price > previous ? price - previous : previous - price;
+        return change * 10000 > previous * limitBps;
+    }
+
+    /// @notice Last round recorded at or before `timestamp` in the kept history, or 0 if there is none
+    function _lastRoundAt(bytes32 asset, uint256 timestamp) internal view returns (uint256) {
+        uint256 count = priceHistoryCount[asset];
+        uint256 oldestRound = count > PRICE_HISTORY_SIZE ? count - PRICE_HISTORY_SIZE + 1 : 1;
+        for (uint256 round = count; round >= oldestRound; round--) {
+            if (priceHistory[asset][(round - 1) % PRICE_HISTORY_SIZE].timestamp <= timestamp) return round;
+        }
+        return 0;
+    }
+
+    /// @notice Median of the reported prices (the mean of the middle two for an even count)
+    function _median(Report[] storage reports) internal view returns (uint256) {
+        uint256 count = reports.length;
+        uint256[] memory sorted = new uint256[](count);
+        for (uint256 i = 0; i < count; i++) {
+            uint256 reported = reports[i].price;
+            uint256 j = i;
+            for (; j > 0 && sorted[j - 1] > reported; j--) {
+                sorted[j] = sorted[j - 1];
+            }
+            sorted[j] = reported;
+        }
+
+        if (count % 2 == 1) return sorted[count / 2];
+        return (sorted[count / 2 - 1] + sorted[count / 2]) / 2;
+    }
+
+    /// @notice Whether the asset's pending round has been open longer than REPORT_TIMEOUT
+    function _reportsExpired(bytes32 asset) internal view returns (bool) {
+        Report[] storage reports = pendingReports[asset];
+        return reports.length > 0 && block.timestamp - reports[0].timestamp > REPORT_TIMEOUT;
+    }
+
+    /// @notice Store a new price as the latest one and append it to the asset's history
+    function _recordPrice(bytes32 asset, PriceData memory data) internal {
+        prices[asset] = data;
+        priceHistory[asset][priceHistoryCount[asset] % PRICE_HISTORY_SIZE] = data;
+        priceHistoryCount[asset]++;
+    }
+}
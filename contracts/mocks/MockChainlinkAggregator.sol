@@ -5,17 +5,21 @@ import "@chainlink/contracts/src/v0.8/shared/interfaces/AggregatorV3Interface.so
 
 /// @title MockChainlinkAggregator
 /// @notice Mock Chainlink price feed for testing
+/// @dev Keeps every round, so historical lookups through getRoundData see the prices that were set at the time
 contract MockChainlinkAggregator is AggregatorV3Interface {
-    int256 private _price;
+    struct Round {
+        int256 answer;
+        uint256 updatedAt;
+    }
+
+    mapping(uint80 => Round) private _rounds;
     uint8 private _decimals;
     uint80 private _roundId;
-    uint256 private _updatedAt;
 
     constructor(int256 initialPrice, uint8 decimals_) {
-        _price = initialPrice;
         _decimals = decimals_;
         _roundId = 1;
-        _updatedAt = block.timestamp;
+        _rounds[_roundId] = Round(initialPrice, block.timestamp);
     }
 
     function decimals() external view override returns (uint8) {
@@ -42,7 +46,10 @@ contract MockChainlinkAggregator is AggregatorV3Interface {
             uint80 answeredInRound
         )
     {
-        return (_roundId_, _price, _updatedAt, _updatedAt, _roundId_);
+        Round memory round = _rounds[_roundId_];
+        // Same revert as Chainlink aggregators for rounds that never happened
+        require(round.updatedAt > 0, "No data present");
+        return (_roundId_, round.answer, round.updatedAt, round.updatedAt, _roundId_);
     }
 
     function latestRoundData()
@@ -57,18 +64,17 @@ contract MockChainlinkAggregator is AggregatorV3Interface {
             uint80 answeredInRound
         )
     {
-        return (_roundId, _price, _updatedAt, _updatedAt, _roundId);
+        Round memory round = _rounds[_roundId];
+        return (_roundId, round.answer, round.updatedAt, round.updatedAt, _roundId);
     }
 
     // Test helper functions
     function setPrice(int256 newPrice) external {
-        _price = newPrice;
         _roundId++;
-        _updatedAt = block.timestamp;
+        _rounds[_roundId] = Round(newPrice, block.timestamp);
     }
 
     function setUpdatedAt(uint256 timestamp) external {
-        _updatedAt = timestamp;
+        _rounds[_roundId].updatedAt = timestamp;
     }
 }
-
@@ -0,0 +1,76 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {FHE, ebool, euint64} from "@fhevm/solidity/lib/FHE.sol";
+import {SepoliaConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+import {IConfidentialFungibleToken} from "../IConfidentialFungibleToken.sol";
+
+/// @title MockConfidentialToken
+/// @notice Minimal ERC-7984 style confidential token with a public mint, for testing confidential-collateral markets
+contract MockConfidentialToken is IConfidentialFungibleToken, SepoliaConfig {
+    string public name;
+    string public symbol;
+    uint8 public decimals;
+
+    mapping(address => euint64) private _balances;
+    mapping(address => mapping(address => uint48)) private _operators;
+
+    constructor(string memory name_, string memory symbol_, uint8 decimals_) {
+        name = name_;
+        symbol = symbol_;
+        decimals = decimals_;
+    }
+
+    /// @notice Mint tokens to any address (test helper)
+    function mint(address to, uint64 amount) external {
+        _update(address(0), to, FHE.asEuint64(amount));
+    }
+
+    function confidentialBalanceOf(address account) external view returns (euint64) {
+        return _balances[account];
+    }
+
+    function isOperator(address holder, address spender) public view returns (bool) {
+        return holder == spender || block.timestamp <= _operators[holder][spender];
+    }
+
+    function setOperator(address operator, uint48 until) external {
+        _operators[msg.sender][operator] = until;
+    }
+
+    function confidentialTransfer(address to, euint64 amount) external returns (euint64 transferred) {
+        require(FHE.isAllowed(amount, msg.sender), "Unauthorized use of amount");
+        transferred = _update(msg.sender, to, amount);
+        FHE.allowTransient(transferred, msg.sender);
+    }
+
+    function confidentialTransferFrom(address from, address to, euint64 amount) external returns (euint64 transferred) {
+        require(FHE.isAllowed(amount, msg.sender), "Unauthorized use of amount");
+        require(isOperator(from, msg.sender), "Unauthorized spender");
+        transferred = _update(from, to, amount);
+        FHE.allowTransient(transferred, msg.sender);
+    }
+
+    /// @dev Move `amount` from `from` to `to`, moving 0 instead if `from` cannot cover it (mint when `from` is 0)
+    function _update(address from, address to, euint64 amount) private returns (euint64 transferred) {
+        if (from == address(0)) {
+            transferred = amount;
+        } else {
+            ebool hasFunds = FHE.le(amount, _balances[from]);
+            transferred = FHE.select(hasFunds, amount, FHE.asEuint64(0));
+            euint64 fromBalance = FHE.sub(_balances[from], transferred);
+            _balances[from] = fromBalance;
+            FHE.allowThis(fromBalance);
+            FHE.allow(fromBalance, from);
+            FHE.allow(transferred, from);
+        }
+
+        euint64 toBalance = FHE.add(_balances[to], transferred);
+        _balances[to] = toBalance;
+        FHE.allowThis(toBalance);
+        FHE.allow(toBalance, to);
+
+        FHE.allowThis(transferred);
+        FHE.allow(transferred, to);
+    }
+}
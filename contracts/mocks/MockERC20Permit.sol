@@ -0,0 +1,24 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/ERC20Permit.sol";
+
+/// @title MockERC20Permit
+/// @notice Mintable ERC-20 with EIP-2612 permit and configurable decimals, for testing token-collateralized markets
+contract MockERC20Permit is ERC20, ERC20Permit {
+    uint8 private _decimals;
+
+    constructor(string memory name_, string memory symbol_, uint8 decimals_) ERC20(name_, symbol_) ERC20Permit(name_) {
+        _decimals = decimals_;
+    }
+
+    function decimals() public view override returns (uint8) {
+        return _decimals;
+    }
+
+    /// @notice Mint tokens to any address (test helper)
+    function mint(address to, uint256 amount) external {
+        _mint(to, amount);
+    }
+}
@@ -0,0 +1,49 @@
+import { formatEther } from "viem";
+
+interface OutcomePoolBarsProps {
+  labels: string[];
+  totals: bigint[];
+  // Renders an amount with its unit; defaults to ETH
+  formatAmount?: (amount: bigint) => string;
+  winningOutcome?: number;
+}
+
+// One horizontal bar per outcome, sized by its share of the decrypted pool
+export function OutcomePoolBars({
+  labels,
+  totals,
+  formatAmount = (amount) => `${formatEther(amount)} ETH`,
+  winningOutcome,
+}: OutcomePoolBarsProps) {
+  const pool = totals.reduce((sum, total) => sum + total, 0n);
+
+  return (
+    <div className="space-y-3">
+      {labels.map((label, index) => {
+        const total = totals[index] ?? 0n;
+        const share = pool > 0n ? Number((total * 10000n) / pool) / 100 : 0;
+        const isWinner = winningOutcome === index;
+
+        return (
+          <div key={index}>
+            <div className="flex items-center justify-between text-sm mb-1">
+              <span className={isWinner ? "text-green-400 font-semibold" : "text-gray-300"}>
+                {isWinner && "🏆 "}
+                {label}
+              </span>
+              <span className="text-gray-400">
+                {formatAmount(total)} ({share.toFixed(1)}%)
+              </span>
+            </div>
+            <div className="h-3 bg-gray-700 rounded-full overflow-hidden">
+              <div
+                className={`h-full rounded-full transition-all ${isWinner ? "bg-green-500" : "bg-blue-500"}`}
+                style={{ width: `${share}%` }}
+              />
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,211 @@
+import { useState, useEffect } from "react";
+import { useAccount, useWalletClient } from "wagmi";
+import { BrowserProvider, type Eip1193Provider } from "ethers";
+import { useBlindOracle } from "../hooks/useBlindOracle";
+import { decryptBatch } from "../lib/fheDecrypt";
+import type { ToastType } from "./Toast";
+
+interface VaultPanelProps {
+  marketAddress: `0x${string}`;
+  onToast: (message: string, type: ToastType) => void;
+}
+
+const ZERO_HANDLE = "0x0000000000000000000000000000000000000000000000000000000000000000";
+
+/**
+ * Confidential balance vault
+ * Deposits are public, but bet sizes are debited from an encrypted balance,
+ * so the commit transaction itself no longer reveals how much was staked.
+ */
+export function VaultPanel({ marketAddress, onToast }: VaultPanelProps) {
+  const { address, isConnected } = useAccount();
+  const { data: walletClient } = useWalletClient();
+  const {
+    hasDeposited,
+    encryptedBalance,
+    hasPendingWithdrawal,
+    isPending,
+    isConfirming,
+    isConfirmed,
+    hash,
+    deposit,
+    requestWithdrawal,
+    collateralSymbol,
+    formatCollateral,
+    refetchData,
+  } = useBlindOracle(marketAddress);
+
+  const [depositAmount, setDepositAmount] = useState("");
+  const [withdrawAmount, setWithdrawAmount] = useState("");
+  const [lastConfirmedHash, setLastConfirmedHash] = useState<string | null>(null);
+  const [pendingAction, setPendingAction] = useState<"deposit" | "withdraw" | null>(null);
+
+  // Decryption state
+  const [isDecrypting, setIsDecrypting] = useState(false);
+  const [decryptedBalance, setDecryptedBalance] = useState<bigint | null>(null);
+
+  // Any balance change invalidates the previously decrypted value
+  useEffect(() => {
+    setDecryptedBalance(null);
+  }, [encryptedBalance]);
+
+  // Listen for transaction confirmation
+  useEffect(() => {
+    if (isConfirmed && hash && hash !== lastConfirmedHash) {
+      onToast(
+        pendingAction === "withdraw"
+          ? "📤 Withdrawal requested! Funds are sent once the amount is decrypted."
+          : "💰 Deposit confirmed!",
+        "success",
+      );
+      setDepositAmount("");
+      setWithdrawAmount("");
+      setLastConfirmedHash(hash);
+      setPendingAction(null);
+      refetchData();
+    }
+  }, [isConfirmed, hash, lastConfirmedHash, pendingAction, onToast, refetchData]);
+
+  const handleDeposit = async () => {
+    if (!depositAmount || parseFloat(depositAmount) <= 0) {
+      onToast("Please enter a valid amount", "error");
+      return;
+    }
+
+    try {
+      setPendingAction("deposit");
+      await deposit(depositAmount);
+    } catch (err) {
+      console.error("Deposit failed:", err);
+      onToast("Deposit failed: " + (err as Error).message, "error");
+      setPendingAction(null);
+    }
+  };
+
+  const handleWithdraw = async () => {
+    if (!withdrawAmount || parseFloat(withdrawAmount) <= 0) {
+      onToast("Please enter a valid amount", "error");
+      return;
+    }
+
+    try {
+      setPendingAction("withdraw");
+      await requestWithdrawal(withdrawAmount);
+    } catch (err) {
+      console.error("Withdrawal failed:", err);
+      onToast("Withdrawal failed: " + (err as Error).message, "error");
+      setPendingAction(null);
+    }
+  };
+
+  const handleDecryptBalance = async () => {
+    if (!isConnected || !address || !walletClient) {
+      onToast("Please connect your wallet first", "error");
+      return;
+    }
+
+    // Uninitialized handle means nothing was ever credited
+    if (!encryptedBalance || encryptedBalance === ZERO_HANDLE) {
+      setDecryptedBalance(0n);
+      return;
+    }
+
+    try {
+      setIsDecrypting(true);
+      onToast("🔓 Requesting decryption... Please sign the message", "info");
+
+      const provider = new BrowserProvider(walletClient as unknown as Eip1193Provider);
+      const signer = await provider.getSigner();
+
+      const decrypted = await decryptBatch([encryptedBalance], marketAddress, address, signer);
+      setDecryptedBalance(BigInt(decrypted[encryptedBalance]));
+    } catch (err) {
+      console.error("Decryption failed:", err);
+      onToast("Decryption failed: " + (err as Error).message, "error");
+    } finally {
+      setIsDecrypting(false);
+    }
+  };
+
+  const isBusy = isPending || isConfirming;
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-8 border border-gray-700">
+      <h3 className="text-xl font-bold text-white mb-2">🏦 Confidential Vault</h3>
+      <p className="text-gray-400 text-sm mb-6">
+        Deposit {collateralSymbol} first, then bet any amount up to your balance. Only you can decrypt your balance.
+      </p>
+
+      {/* Balance */}
+      <div className="bg-gray-700/50 border border-gray-600 rounded-lg p-4 mb-6 flex items-center justify-between">
+        <div>
+          <p className="text-gray-400 text-sm mb-1">Your Balance</p>
+          <p className="text-2xl font-bold text-blue-400">
+            {decryptedBalance !== null
+              ? `${formatCollateral(decryptedBalance)} ${collateralSymbol}`
+              : hasDeposited
+                ? "🔒 Encrypted"
+                : `0 ${collateralSymbol}`}
+          </p>
+        </div>
+        {hasDeposited && (
+          <button
+            onClick={handleDecryptBalance}
+            disabled={isDecrypting}
+            className="px-4 py-2 bg-purple-500 hover:bg-purple-600 disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-semibold rounded-lg transition-colors"
+          >
+            {isDecrypting ? "🔓 Decrypting..." : "🔍 Reveal"}
+          </button>
+        )}
+      </div>
+
+      {/* Deposit */}
+      <div className="flex gap-3 mb-4">
+        <input
+          type="number"
+          value={depositAmount}
+          onChange={(e) => setDepositAmount(e.target.value)}
+          placeholder="0.01"
+          step="0.01"
+          min="0"
+          className="flex-1 px-4 py-3 bg-gray-700 text-white rounded-lg border border-gray-600 focus:border-blue-500 focus:outline-none"
+        />
+        <button
+          onClick={handleDeposit}
+          disabled={!isConnected || isBusy}
+          className="w-40 py-3 bg-blue-500 hover:bg-blue-600 disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-bold rounded-lg transition-colors"
+        >
+          {isBusy && pendingAction === "deposit" ? "⏳ Depositing..." : "💰 Deposit"}
+        </button>
+      </div>
+
+      {/* Withdraw */}
+      {hasDeposited && (
+        <div className="flex gap-3">
+          <input
+            type="number"
+            value={withdrawAmount}
+            onChange={(e) => setWithdrawAmount(e.target.value)}
+            placeholder="0.01"
+            step="0.01"
+            min="0"
+            className="flex-1 px-4 py-3 bg-gray-700 text-white rounded-lg border border-gray-600 focus:border-blue-500 focus:outline-none"
+          />
+          <button
+            onClick={handleWithdraw}
+            disabled={!isConnected || isBusy || hasPendingWithdrawal}
+            className="w-40 py-3 bg-gray-600 hover:bg-gray-500 disabled:bg-gray-700 disabled:cursor-not-allowed text-white font-bold rounded-lg transition-colors"
+          >
+            {isBusy && pendingAction === "withdraw" ? "⏳ Requesting..." : "📤 Withdraw"}
+          </button>
+        </div>
+      )}
+
+      {hasPendingWithdrawal && (
+        <p className="text-yellow-400 text-sm mt-4">
+          ⏳ Withdrawal pending - waiting for the decryption oracle to release your funds.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -8,6 +8,11 @@ export const CONTRACT_CONFIG = {
   chainName: 'sepolia',
 };
 
+// Gasless commitment relayer (see scripts/relayer.ts)
+export const RELAYER_CONFIG = {
+  url: 'http://localhost:8787',
+};
+
 // Chainlink Price Feeds
 export const CHAINLINK_FEEDS = {
   ethUsd: '0x694AA1769357215DE4FAC081bf1f309aDC325306',
@@ -0,0 +1,69 @@
+import { useReadContract, useReadContracts } from "wagmi";
+import { hexToString, type Abi } from "viem";
+import IPriceOracleABI from "../IPriceOracleABI.json";
+import AssetRegistryABI from "../AssetRegistryABI.json";
+
+// An asset listed in the AssetRegistry, identified by its symbol as bytes32
+export interface RegistryAsset {
+  id: `0x${string}`;
+  symbol: string;
+  feed: `0x${string}`;
+  decimals: number;
+  supported: boolean; // Whether the oracle can price it (ChainlinkPriceOracle needs a feed)
+}
+
+// Symbol of an asset ID, e.g. 0x4554480000… -> "ETH"
+export const assetSymbol = (id: `0x${string}`) => hexToString(id, { size: 32 }).replace(/\0+$/, "");
+
+// Assets listed in the registry behind a price oracle, in listing order
+export function useAssets(oracleAddress: `0x${string}` | undefined) {
+  const { data: registryAddress } = useReadContract({
+    address: oracleAddress,
+    abi: IPriceOracleABI.abi,
+    functionName: "assetRegistry",
+    query: {
+      enabled: !!oracleAddress,
+    },
+  });
+
+  const {
+    data: listed,
+    isLoading,
+    error,
+    refetch,
+  } = useReadContract({
+    address: registryAddress as `0x${string}` | undefined,
+    abi: AssetRegistryABI.abi,
+    functionName: "getAssets",
+    query: {
+      enabled: !!registryAddress,
+    },
+  });
+
+  const infos = (listed as Omit<RegistryAsset, "supported">[] | undefined) ?? [];
+
+  // Listed assets may still be unpriceable by this oracle, e.g. an asset without a Chainlink feed
+  const { data: support } = useReadContracts({
+    contracts: infos.map((info) => ({
+      address: oracleAddress,
+      abi: IPriceOracleABI.abi as Abi,
+      functionName: "isAssetSupported",
+      args: [info.id],
+    })),
+    query: {
+      enabled: !!oracleAddress && infos.length > 0,
+    },
+  });
+
+  const assets: RegistryAsset[] = infos.map((info, i) => ({
+    ...info,
+    supported: support?.[i]?.result === true,
+  }));
+
+  return {
+    assets,
+    isLoading,
+    error,
+    refetch,
+  };
+}
@@ -1,17 +1,104 @@
-import { useWriteContract, useReadContract, useWaitForTransactionReceipt, useAccount } from 'wagmi';
-import { parseEther } from 'viem';
+import { useWriteContract, useReadContract, useWaitForTransactionReceipt, useAccount, useChainId, usePublicClient, useSignTypedData } from 'wagmi';
+import { erc20Abi, parseEther, parseSignature } from 'viem';
 import BlindOracleABI from '../BlindOracleABI.json';
+import IPriceOracleABI from '../IPriceOracleABI.json';
 import { useFhevm } from './useFhevm';
+import { useCollateral } from './useCollateral';
+import { RELAYER_CONFIG } from '../config';
 
 // Helper function: convert Uint8Array to hex string
 function uint8ArrayToHex(arr: Uint8Array): `0x${string}` {
   return `0x${Array.from(arr).map(b => b.toString(16).padStart(2, '0')).join('')}`;
 }
 
+// ERC-7984 operator approval used by confidential-collateral markets
+const CONFIDENTIAL_TOKEN_ABI = [
+  {
+    type: 'function',
+    name: 'isOperator',
+    stateMutability: 'view',
+    inputs: [
+      { name: 'holder', type: 'address' },
+      { name: 'spender', type: 'address' },
+    ],
+    outputs: [{ name: '', type: 'bool' }],
+  },
+  {
+    type: 'function',
+    name: 'setOperator',
+    stateMutability: 'nonpayable',
+    inputs: [
+      { name: 'operator', type: 'address' },
+      { name: 'until', type: 'uint48' },
+    ],
+    outputs: [],
+  },
+] as const;
+
+// How long the market stays an operator of the user's confidential tokens after a deposit approval
+const CONFIDENTIAL_OPERATOR_DURATION = 60 * 60; // 1 hour
+
+// EIP-2612 and ERC-5267 reads used to build a permit signature
+const ERC20_PERMIT_ABI = [
+  {
+    type: 'function',
+    name: 'nonces',
+    stateMutability: 'view',
+    inputs: [{ name: 'owner', type: 'address' }],
+    outputs: [{ name: '', type: 'uint256' }],
+  },
+  {
+    type: 'function',
+    name: 'version',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'string' }],
+  },
+  {
+    type: 'function',
+    name: 'eip712Domain',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [
+      { name: 'fields', type: 'bytes1' },
+      { name: 'name', type: 'string' },
+      { name: 'version', type: 'string' },
+      { name: 'chainId', type: 'uint256' },
+      { name: 'verifyingContract', type: 'address' },
+      { name: 'salt', type: 'bytes32' },
+      { name: 'extensions', type: 'uint256[]' },
+    ],
+  },
+] as const;
+
+// EIP-712 type of a signed commit intent, relayed by BlindOracle.commitPredictionFor
+const COMMIT_INTENT_TYPES = {
+  CommitIntent: [
+    { name: 'prediction', type: 'bytes32' },
+    { name: 'amount', type: 'bytes32' },
+    { name: 'relayerFee', type: 'uint64' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint256' },
+  ],
+} as const;
+
+// How long a signed commit intent stays valid for the relayer
+const INTENT_VALIDITY_SECONDS = 600;
+
+// Claim states in BlindOracle.ClaimState order
+export const CLAIM_STATUSES = ['none', 'pending', 'won', 'lost', 'confidential'] as const;
+export type ClaimStatus = (typeof CLAIM_STATUSES)[number];
+
 export function useBlindOracle(marketAddress: `0x${string}` | undefined) {
   const { address } = useAccount();
+  const chainId = useChainId();
+  const publicClient = usePublicClient();
   const { fhevmInstance } = useFhevm();
   const { writeContract, data: hash, isPending, error } = useWriteContract();
+  // Token approvals get their own writer, so they do not show up as the tracked market transaction
+  const { writeContractAsync: writeApprovalAsync } = useWriteContract();
+  const { signTypedDataAsync } = useSignTypedData();
+  const collateral = useCollateral(marketAddress);
 
   const { isLoading: isConfirming, isSuccess: isConfirmed } =
     useWaitForTransactionReceipt({
@@ -92,10 +179,22 @@ export function useBlindOracle(marketAddress: `0x${string}` | undefined) {
     abi: BlindOracleABI.abi,
     functionName: 'getPriceMarketInfo',
     query: {
-      enabled: !!marketAddress && marketType === 1, // Only read for Price markets
+      enabled: !!marketAddress && (marketType === 1 || marketType === 3), // Only read for Price and Scalar markets
+    },
+  });
+
+  // Read market owner (the creator for factory-deployed markets, resolves event markets)
+  const { data: owner } = useReadContract({
+    address: marketAddress,
+    abi: BlindOracleABI.abi,
+    functionName: 'owner',
+    query: {
+      enabled: !!marketAddress,
     },
   });
 
+  const isOwner = !!address && !!owner && address.toLowerCase() === (owner as string).toLowerCase();
+
   // Read settlement information
   const { data: settlementInfo, refetch: refetchSettlementInfo } = useReadContract({
     address: marketAddress,
@@ -107,6 +206,74 @@ export function useBlindOracle(marketAddress: `0x${string}` | undefined) {
     },
   });
 
+  // Read dispute arbiter (rules on challenged settlements of owner-resolved markets)
+  const { data: arbiter } = useReadContract({
+    address: marketAddress,
+    abi: BlindOracleABI.abi,
+    functionName: 'arbiter',
+    query: {
+      enabled: !!marketAddress,
+    },
+  });
+
+  const isArbiter = !!address && !!arbiter && address.toLowerCase() === (arbiter as string).toLowerCase();
+
+  // Read dispute status (0 = None, 1 = Disputed, 2 = Upheld, 3 = Rejected)
+  const { data: disputeStatus, refetch: refetchDisputeStatus } = useReadContract({
+    address: marketAddress,
+    abi: BlindOracleABI.abi,
+    functionName: 'disputeStatus',
+    query: {
+      enabled: !!marketAddress,
+      refetchInterval: 5000,
+    },
+  });
+
+  // Read bond required to challenge the proposed settlement
+  const { data: challengeBond, refetch: refetchChallengeBond } = useReadContract({
+    address: marketAddress,
+    abi: BlindOracleABI.abi,
+    functionName: 'getChallengeBond',
+    query: {
+      enabled: !!marketAddress,
+      refetchInterval: 5000,
+    },
+  });
+
+  // Read sum of all posted challenger bonds
+  const { data: totalChallengeBonds, refetch: refetchTotalChallengeBonds } = useReadContract({
+    address: marketAddress,
+    abi: BlindOracleABI.abi,
+    functionName: 'totalChallengeBonds',
+    query: {
+      enabled: !!marketAddress,
+      refetchInterval: 5000,
+    },
+  });
+
+  // Read slashed owner stake shared among challengers (after an upheld dispute)
+  const { data: challengerSlashReward } = useReadContract({
+    address: marketAddress,
+    abi: BlindOracleABI.abi,
+    functionName: 'challengerSlashReward',
+    query: {
+      enabled: !!marketAddress,
+      refetchInterval: 5000,
+    },
+  });
+
+  // Read user's own challenge bond (0 once the dispute payout is claimed)
+  const { data: myChallengeBond } = useReadContract({
+    address: marketAddress,
+    abi: BlindOracleABI.abi,
+    functionName: 'challengeBonds',
+    args: address ? [address] : undefined,
+    query: {
+      enabled: !!marketAddress && !!address,
+      refetchInterval: 5000,
+    },
+  });
+
   // Parse marketInfo
   const commitmentDeadline = marketInfo ? (marketInfo as any)[1] : undefined;
   const eventDeadline = marketInfo ? (marketInfo as any)[2] : undefined;
@@ -115,6 +282,91 @@ export function useBlindOracle(marketAddress: `0x${string}` | undefined) {
   const isSettled = marketInfo ? (marketInfo as any)[5] : undefined;
   const finalOutcome = marketInfo ? (marketInfo as any)[6] : undefined;
 
+  // Read outcome labels (binary markets: ["No", "Yes"])
+  const { data: outcomeLabels } = useReadContract({
+    address: marketAddress,
+    abi: BlindOracleABI.abi,
+    functionName: 'getOutcomeLabels',
+    query: {
+      enabled: !!marketAddress,
+    },
+  });
+
+  // Read decrypted per-outcome totals (empty until aggregate decryption completes)
+  const { data: outcomeTotals, refetch: refetchOutcomeTotals } = useReadContract({
+    address: marketAddress,
+    abi: BlindOracleABI.abi,
+    functionName: 'getOutcomeTotals',
+    query: {
+      enabled: !!marketAddress,
+      refetchInterval: 5000,
+    },
+  });
+
+  // Read winning outcome index (valid once settled)
+  const { data: winningOutcome, refetch: refetchWinningOutcome } = useReadContract({
+    address: marketAddress,
+    abi: BlindOracleABI.abi,
+    functionName: 'winningOutcome',
+    query: {
+      enabled: !!marketAddress,
+      refetchInterval: 5000,
+    },
+  });
+
+  // Read proposed outcome index (valid while a settlement is proposed)
+  const { data: proposedOutcomeIndex } = useReadContract({
+    address: marketAddress,
+    abi: BlindOracleABI.abi,
+    functionName: 'proposedOutcomeIndex',
+    query: {
+      enabled: !!marketAddress && marketType === 2, // Only needed for Categorical markets
+      refetchInterval: 5000,
+    },
+  });
+
+  // Read price bucket boundaries (n boundaries define n + 1 buckets)
+  const { data: bucketBoundaries } = useReadContract({
+    address: marketAddress,
+    abi: BlindOracleABI.abi,
+    functionName: 'getBucketBoundaries',
+    query: {
+      enabled: !!marketAddress && marketType === 3, // Only needed for Scalar markets
+    },
+  });
+
+  // Read the oracle TWAP the market settled at (Price and Scalar markets)
+  const { data: settlementPrice, refetch: refetchSettlementPrice } = useReadContract({
+    address: marketAddress,
+    abi: BlindOracleABI.abi,
+    functionName: 'settlementPrice',
+    query: {
+      enabled: !!marketAddress && (marketType === 1 || marketType === 3),
+      refetchInterval: 5000,
+    },
+  });
+
+  // Read the oracle that supplied the settlement price (the market's oracle, or the source a fallback oracle used)
+  const { data: settlementSource, refetch: refetchSettlementSource } = useReadContract({
+    address: marketAddress,
+    abi: BlindOracleABI.abi,
+    functionName: 'settlementSource',
+    query: {
+      enabled: !!marketAddress && (marketType === 1 || marketType === 3),
+      refetchInterval: 5000,
+    },
+  });
+
+  // Read the length of the averaging window ending at the event deadline (Price and Scalar markets)
+  const { data: twapWindow } = useReadContract({
+    address: marketAddress,
+    abi: BlindOracleABI.abi,
+    functionName: 'twapWindow',
+    query: {
+      enabled: !!marketAddress && (marketType === 1 || marketType === 3),
+    },
+  });
+
   // Read if aggregated
   const { data: isAggregated, refetch: refetchIsAggregated } = useReadContract({
     address: marketAddress,
@@ -138,6 +390,58 @@ export function useBlindOracle(marketAddress: `0x${string}` | undefined) {
     },
   });
 
+  // Read the winner pool snapshot taken at settlement, and how much of it has been paid out
+  const { data: winnerPool } = useReadContract({
+    address: marketAddress,
+    abi: BlindOracleABI.abi,
+    functionName: 'winnerPool',
+    query: {
+      enabled: !!marketAddress,
+      refetchInterval: 5000,
+    },
+  });
+
+  const { data: winningStake } = useReadContract({
+    address: marketAddress,
+    abi: BlindOracleABI.abi,
+    functionName: 'winningStake',
+    query: {
+      enabled: !!marketAddress,
+      refetchInterval: 5000,
+    },
+  });
+
+  const { data: totalPaidOut } = useReadContract({
+    address: marketAddress,
+    abi: BlindOracleABI.abi,
+    functionName: 'totalPaidOut',
+    query: {
+      enabled: !!marketAddress,
+      refetchInterval: 5000,
+    },
+  });
+
+  // Read the fee configuration (protocol recipient, protocol bps, creator bps) and fees owed to the user
+  const { data: feeConfig } = useReadContract({
+    address: marketAddress,
+    abi: BlindOracleABI.abi,
+    functionName: 'feeConfig',
+    query: {
+      enabled: !!marketAddress,
+    },
+  });
+
+  const { data: myFeeBalance, refetch: refetchMyFeeBalance } = useReadContract({
+    address: marketAddress,
+    abi: BlindOracleABI.abi,
+    functionName: 'feeBalances',
+    args: address ? [address] : undefined,
+    query: {
+      enabled: !!marketAddress && !!address,
+      refetchInterval: 5000,
+    },
+  });
+
   // Read if user has claimed rewards
   const { data: hasClaimed } = useReadContract({
     address: marketAddress,
@@ -150,8 +454,304 @@ export function useBlindOracle(marketAddress: `0x${string}` | undefined) {
     },
   });
 
-  // Submit prediction
-  const submitPrediction = async (isYes: boolean, amount: string) => {
+  // Read the user's latest claim request
+  const { data: claimRequestId } = useReadContract({
+    address: marketAddress,
+    abi: BlindOracleABI.abi,
+    functionName: 'claimRequestIds',
+    args: address ? [address] : undefined,
+    query: {
+      enabled: !!marketAddress && !!address,
+      refetchInterval: 5000,
+    },
+  });
+
+  // Read the user's claim state (0 = None, 1 = Pending, 2 = Won, 3 = Lost, 4 = Confidential) and payout
+  const { data: claimInfo } = useReadContract({
+    address: marketAddress,
+    abi: BlindOracleABI.abi,
+    functionName: 'getClaimInfo',
+    args: address ? [address] : undefined,
+    query: {
+      enabled: !!marketAddress && !!address,
+      refetchInterval: 5000,
+    },
+  });
+
+  const [claimStateIndex, claimPayout] = (claimInfo as [number, bigint] | undefined) ?? [0, undefined];
+  const claimStatus: ClaimStatus = CLAIM_STATUSES[claimStateIndex] ?? 'none';
+
+  // Encrypted payout handle of a confidential-collateral claim (decryptable only by the user)
+  const { data: encryptedPayout } = useReadContract({
+    address: marketAddress,
+    abi: BlindOracleABI.abi,
+    functionName: 'getEncryptedPayout',
+    args: address ? [address] : undefined,
+    query: {
+      enabled: !!marketAddress && !!address && claimStatus === 'confidential',
+    },
+  });
+
+  // Read if user has funded the confidential vault
+  const { data: hasDeposited } = useReadContract({
+    address: marketAddress,
+    abi: BlindOracleABI.abi,
+    functionName: 'hasDeposited',
+    args: address ? [address] : undefined,
+    query: {
+      enabled: !!marketAddress && !!address,
+      refetchInterval: 5000,
+    },
+  });
+
+  // Read user's encrypted vault balance handle (decrypt client-side)
+  const { data: encryptedBalance } = useReadContract({
+    address: marketAddress,
+    abi: BlindOracleABI.abi,
+    functionName: 'getEncryptedBalance',
+    args: address ? [address] : undefined,
+    query: {
+      enabled: !!marketAddress && !!address,
+      refetchInterval: 5000,
+    },
+  });
+
+  // Read if user has a withdrawal waiting for the decryption callback (vault or commitment withdrawal)
+  const { data: hasPendingWithdrawal } = useReadContract({
+    address: marketAddress,
+    abi: BlindOracleABI.abi,
+    functionName: 'hasPendingWithdrawal',
+    args: address ? [address] : undefined,
+    query: {
+      enabled: !!marketAddress && !!address,
+      refetchInterval: 5000,
+    },
+  });
+
+  // Read timestamp from which the market can be cancelled (0 unless it is stuck)
+  const { data: cancellableAt, refetch: refetchCancellableAt } = useReadContract({
+    address: marketAddress,
+    abi: BlindOracleABI.abi,
+    functionName: 'getCancellableAt',
+    query: {
+      enabled: !!marketAddress,
+      refetchInterval: 5000,
+    },
+  });
+
+  // Read user's refundable vault deposit (used once the market is cancelled)
+  const { data: depositedAmount } = useReadContract({
+    address: marketAddress,
+    abi: BlindOracleABI.abi,
+    functionName: 'depositedAmounts',
+    args: address ? [address] : undefined,
+    query: {
+      enabled: !!marketAddress && !!address,
+      refetchInterval: 5000,
+    },
+  });
+
+  // Read if user has claimed their refund
+  const { data: hasRefunded } = useReadContract({
+    address: marketAddress,
+    abi: BlindOracleABI.abi,
+    functionName: 'hasRefunded',
+    args: address ? [address] : undefined,
+    query: {
+      enabled: !!marketAddress && !!address,
+      refetchInterval: 5000,
+    },
+  });
+
+  // Make sure the market may pull `amount` collateral tokens, asking for an approval if needed
+  const ensureAllowance = async (amount: bigint) => {
+    const token = collateral.collateralToken;
+    if (!token || !publicClient || !address || !marketAddress) {
+      return;
+    }
+
+    const allowance = await publicClient.readContract({
+      address: token,
+      abi: erc20Abi,
+      functionName: 'allowance',
+      args: [address, marketAddress],
+    });
+    if (allowance >= amount) {
+      return;
+    }
+
+    const approvalHash = await writeApprovalAsync({
+      address: token,
+      abi: erc20Abi,
+      functionName: 'approve',
+      args: [marketAddress, amount],
+    });
+    await publicClient.waitForTransactionReceipt({ hash: approvalHash });
+  };
+
+  // Sign an EIP-2612 permit for the market, or return null if the token does not support permits
+  const signPermit = async (amount: bigint, deadline: bigint) => {
+    const token = collateral.collateralToken;
+    if (!token || !publicClient || !address || !marketAddress) {
+      return null;
+    }
+
+    try {
+      const nonce = await publicClient.readContract({
+        address: token,
+        abi: ERC20_PERMIT_ABI,
+        functionName: 'nonces',
+        args: [address],
+      });
+
+      // Prefer the ERC-5267 domain; older tokens expose name() and version() instead
+      let name: string;
+      let version = '1';
+      try {
+        [, name, version] = await publicClient.readContract({
+          address: token,
+          abi: ERC20_PERMIT_ABI,
+          functionName: 'eip712Domain',
+        });
+      } catch {
+        name = await publicClient.readContract({ address: token, abi: erc20Abi, functionName: 'name' });
+        version = await publicClient
+          .readContract({ address: token, abi: ERC20_PERMIT_ABI, functionName: 'version' })
+          .catch(() => '1');
+      }
+
+      const signature = await signTypedDataAsync({
+        domain: { name, version, chainId, verifyingContract: token },
+        types: {
+          Permit: [
+            { name: 'owner', type: 'address' },
+            { name: 'spender', type: 'address' },
+            { name: 'value', type: 'uint256' },
+            { name: 'nonce', type: 'uint256' },
+            { name: 'deadline', type: 'uint256' },
+          ],
+        },
+        primaryType: 'Permit',
+        message: { owner: address, spender: marketAddress, value: amount, nonce, deadline },
+      });
+      const { r, s, v, yParity } = parseSignature(signature);
+      return { r, s, v: Number(v ?? BigInt(yParity + 27)) };
+    } catch (err) {
+      console.warn('Permit not available, falling back to approve:', err);
+      return null;
+    }
+  };
+
+  // Make the market an operator of the user's confidential tokens, so it can pull an encrypted deposit
+  const ensureOperator = async () => {
+    const token = collateral.collateralToken;
+    if (!token || !publicClient || !address || !marketAddress) {
+      return;
+    }
+
+    const isOperator = await publicClient.readContract({
+      address: token,
+      abi: CONFIDENTIAL_TOKEN_ABI,
+      functionName: 'isOperator',
+      args: [address, marketAddress],
+    });
+    if (isOperator) {
+      return;
+    }
+
+    const until = Math.floor(Date.now() / 1000) + CONFIDENTIAL_OPERATOR_DURATION;
+    const operatorHash = await writeApprovalAsync({
+      address: token,
+      abi: CONFIDENTIAL_TOKEN_ABI,
+      functionName: 'setOperator',
+      args: [marketAddress, until],
+    });
+    await publicClient.waitForTransactionReceipt({ hash: operatorHash });
+  };
+
+  // Deposit an encrypted amount of the confidential collateral token
+  const depositConfidential = async (value: bigint) => {
+    if (!fhevmInstance) {
+      throw new Error('fhEVM instance not initialized, please try again later');
+    }
+    if (!address || !marketAddress) {
+      throw new Error('Please connect wallet first');
+    }
+
+    await ensureOperator();
+
+    const input = fhevmInstance.createEncryptedInput(marketAddress, address);
+    input.add64(value);
+    const encryptedInputs = await input.encrypt();
+
+    writeContract({
+      address: marketAddress,
+      abi: BlindOracleABI.abi,
+      functionName: 'depositConfidential',
+      args: [uint8ArrayToHex(encryptedInputs.handles[0]), uint8ArrayToHex(encryptedInputs.inputProof)],
+    });
+  };
+
+  // Deposit collateral into the confidential vault (ETH, tokens via permit / approve, or confidential tokens)
+  const deposit = async (amount: string) => {
+    if (!marketAddress) {
+      throw new Error('Market address not provided');
+    }
+
+    if (collateral.isConfidentialCollateral) {
+      await depositConfidential(collateral.parseCollateral(amount));
+      return;
+    }
+
+    if (!collateral.isTokenCollateral) {
+      writeContract({
+        address: marketAddress,
+        abi: BlindOracleABI.abi,
+        functionName: 'deposit',
+        value: parseEther(amount),
+      });
+      return;
+    }
+
+    const value = collateral.parseCollateral(amount);
+    const deadline = BigInt(Math.floor(Date.now() / 1000) + 3600);
+    const permit = await signPermit(value, deadline);
+    if (permit) {
+      writeContract({
+        address: marketAddress,
+        abi: BlindOracleABI.abi,
+        functionName: 'depositTokensWithPermit',
+        args: [value, deadline, permit.v, permit.r, permit.s],
+      });
+      return;
+    }
+
+    await ensureAllowance(value);
+    writeContract({
+      address: marketAddress,
+      abi: BlindOracleABI.abi,
+      functionName: 'depositTokens',
+      args: [value],
+    });
+  };
+
+  // Request a withdrawal from the confidential vault (paid out by the decryption callback)
+  const requestWithdrawal = async (amount: string) => {
+    if (!marketAddress) {
+      throw new Error('Market address not provided');
+    }
+
+    writeContract({
+      address: marketAddress,
+      abi: BlindOracleABI.abi,
+      functionName: 'requestWithdrawal',
+      args: [collateral.parseCollateral(amount)],
+    });
+  };
+
+  // Submit an encrypted prediction, debited from the vault balance. With `gasless`, sign a commit intent instead
+  // and let the relayer send it: the relayer pays the gas and is paid its fee out of the vault deposit at once
+  const submitPrediction = async (outcome: number, amount: string, options: { gasless?: boolean } = {}) => {
     try {
       if (!fhevmInstance) {
         throw new Error('fhEVM instance not initialized, please try again later');
@@ -161,20 +761,23 @@ export function useBlindOracle(marketAddress: `0x${string}` | undefined) {
         throw new Error('Please connect wallet first');
       }
 
-      const amountWei = parseEther(amount);
+      const amountWei = collateral.parseCollateral(amount);
 
       if (!marketAddress) {
         throw new Error('Market address not provided');
       }
 
+      // Relayed inputs are encrypted for the relayer, which is the account that submits them
+      const relayer = options.gasless ? await fetchRelayerInfo() : null;
+
       // Use fhEVM to encrypt prediction and amount
       const input = fhevmInstance.createEncryptedInput(
         marketAddress,
-        address
+        relayer ? relayer.relayer : address
       );
 
-      // Encrypt prediction (0 = NO, 1 = YES) as euint8
-      input.add8(isYes ? 1 : 0);
+      // Encrypt prediction as an outcome index euint8 (binary markets: 0 = NO, 1 = YES)
+      input.add8(outcome);
 
       // Encrypt amount as euint64 (amountWei is already bigint type)
       input.add64(amountWei);
@@ -195,6 +798,11 @@ export function useBlindOracle(marketAddress: `0x${string}` | undefined) {
       const handle1Hex = uint8ArrayToHex(encryptedInputs.handles[1]);
       const proofHex = uint8ArrayToHex(encryptedInputs.inputProof);
 
+      if (relayer) {
+        await relayCommitment(handle0Hex, handle1Hex, proofHex, BigInt(relayer.minFee));
+        return;
+      }
+
       // Call contract, passing encrypted handles and proof
       writeContract({
         address: marketAddress,
@@ -206,13 +814,124 @@ export function useBlindOracle(marketAddress: `0x${string}` | undefined) {
           proofHex,    // predictionProof (bytes)
           proofHex,    // amountProof (bytes) - use the same proof
         ],
-        value: amountWei,
       });
     } catch (err) {
       throw err;
     }
   };
 
+  // Ask the relayer for the address it submits from and the smallest fee it accepts
+  const fetchRelayerInfo = async () => {
+    const response = await fetch(RELAYER_CONFIG.url);
+    if (!response.ok) {
+      throw new Error('Relayer unavailable');
+    }
+    return (await response.json()) as { relayer: `0x${string}`; minFee: string };
+  };
+
+  // Sign a commit intent over the encrypted handles and hand it to the relayer, then wait until it is mined
+  const relayCommitment = async (
+    predictionHandle: `0x${string}`,
+    amountHandle: `0x${string}`,
+    inputProof: `0x${string}`,
+    relayerFee: bigint
+  ) => {
+    if (!publicClient || !address || !marketAddress) {
+      throw new Error('Please connect wallet first');
+    }
+
+    const nonce = (await publicClient.readContract({
+      address: marketAddress,
+      abi: BlindOracleABI.abi,
+      functionName: 'intentNonces',
+      args: [address],
+    })) as bigint;
+    const deadline = BigInt(Math.floor(Date.now() / 1000) + INTENT_VALIDITY_SECONDS);
+
+    const signature = await signTypedDataAsync({
+      domain: { name: 'BlindOracle', version: '1', chainId, verifyingContract: marketAddress },
+      types: COMMIT_INTENT_TYPES,
+      primaryType: 'CommitIntent',
+      message: { prediction: predictionHandle, amount: amountHandle, relayerFee, nonce, deadline },
+    });
+
+    const response = await fetch(`${RELAYER_CONFIG.url}/commit`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        market: marketAddress,
+        user: address,
+        prediction: predictionHandle,
+        amount: amountHandle,
+        inputProof,
+        relayerFee: relayerFee.toString(),
+        deadline: deadline.toString(),
+        signature,
+      }),
+    });
+    const result = (await response.json()) as { hash?: `0x${string}`; error?: string };
+    if (!response.ok || !result.hash) {
+      throw new Error(result.error ?? 'Relayer rejected the commitment');
+    }
+
+    await publicClient.waitForTransactionReceipt({ hash: result.hash });
+  };
+
+  // Add an encrypted amount from the vault to the existing bet (same side)
+  const increaseCommitment = async (amount: string) => {
+    if (!fhevmInstance) {
+      throw new Error('fhEVM instance not initialized, please try again later');
+    }
+    if (!address || !marketAddress) {
+      throw new Error('Please connect wallet first');
+    }
+
+    const input = fhevmInstance.createEncryptedInput(marketAddress, address);
+    input.add64(collateral.parseCollateral(amount));
+    const encryptedInputs = await input.encrypt();
+
+    writeContract({
+      address: marketAddress,
+      abi: BlindOracleABI.abi,
+      functionName: 'increaseCommitment',
+      args: [uint8ArrayToHex(encryptedInputs.handles[0]), uint8ArrayToHex(encryptedInputs.inputProof)],
+    });
+  };
+
+  // Move the whole bet to another encrypted outcome
+  const revisePrediction = async (outcome: number) => {
+    if (!fhevmInstance) {
+      throw new Error('fhEVM instance not initialized, please try again later');
+    }
+    if (!address || !marketAddress) {
+      throw new Error('Please connect wallet first');
+    }
+
+    const input = fhevmInstance.createEncryptedInput(marketAddress, address);
+    input.add8(outcome);
+    const encryptedInputs = await input.encrypt();
+
+    writeContract({
+      address: marketAddress,
+      abi: BlindOracleABI.abi,
+      functionName: 'revisePrediction',
+      args: [uint8ArrayToHex(encryptedInputs.handles[0]), uint8ArrayToHex(encryptedInputs.inputProof)],
+    });
+  };
+
+  // Back out of the bet before the deadline: the decryption callback refunds it minus the early-exit penalty
+  const withdrawCommitment = async () => {
+    if (!marketAddress) {
+      throw new Error('Market address not provided');
+    }
+
+    writeContract({
+      address: marketAddress,
+      abi: BlindOracleABI.abi,
+      functionName: 'withdrawCommitment',
+    });
+  };
+
   // Buy YES tokens
   const buyYesTokens = async (amount: string) => {
     if (!marketAddress) return;
@@ -263,7 +982,7 @@ export function useBlindOracle(marketAddress: `0x${string}` | undefined) {
     });
   };
 
-  // Aggregate bets
+  // Close commitments (encrypted totals are kept up to date by every commitment)
   const aggregateBets = async () => {
     if (!marketAddress) {
       throw new Error('Market address not provided');
@@ -324,6 +1043,17 @@ export function useBlindOracle(marketAddress: `0x${string}` | undefined) {
       throw new Error('Market address not provided');
     }
 
+    // Token markets pull the stake from the owner's allowance instead
+    if (collateral.isTokenCollateral) {
+      await ensureAllowance(collateral.parseCollateral(stakeAmount));
+      writeContract({
+        address: marketAddress,
+        abi: BlindOracleABI.abi,
+        functionName: 'depositOwnerStake',
+      });
+      return;
+    }
+
     writeContract({
       address: marketAddress,
       abi: BlindOracleABI.abi,
@@ -346,16 +1076,65 @@ export function useBlindOracle(marketAddress: `0x${string}` | undefined) {
     });
   };
 
-  // Challenge settlement
+  // Propose the winning outcome of a categorical market
+  const proposeCategoricalSettlement = async (outcomeIndex: number) => {
+    if (!marketAddress) {
+      throw new Error('Market address not provided');
+    }
+
+    writeContract({
+      address: marketAddress,
+      abi: BlindOracleABI.abi,
+      functionName: 'proposeCategoricalSettlement',
+      args: [outcomeIndex],
+    });
+  };
+
+  // Challenge settlement by posting the required bond
   const challengeSettlement = async () => {
     if (!marketAddress) {
       throw new Error('Market address not provided');
     }
+    if (challengeBond === undefined) {
+      throw new Error('Challenge bond not loaded yet');
+    }
+
+    if (collateral.isTokenCollateral) {
+      await ensureAllowance(challengeBond as bigint);
+    }
 
     writeContract({
       address: marketAddress,
       abi: BlindOracleABI.abi,
       functionName: 'challengeSettlement',
+      value: collateral.isTokenCollateral ? undefined : (challengeBond as bigint),
+    });
+  };
+
+  // Rule on a disputed settlement (arbiter only)
+  const resolveDispute = async (upheld: boolean, outcomeIndex: number) => {
+    if (!marketAddress) {
+      throw new Error('Market address not provided');
+    }
+
+    writeContract({
+      address: marketAddress,
+      abi: BlindOracleABI.abi,
+      functionName: 'resolveDispute',
+      args: [upheld, outcomeIndex],
+    });
+  };
+
+  // Collect bond plus share of the slashed owner stake after an upheld dispute
+  const claimDisputePayout = async () => {
+    if (!marketAddress) {
+      throw new Error('Market address not provided');
+    }
+
+    writeContract({
+      address: marketAddress,
+      abi: BlindOracleABI.abi,
+      functionName: 'claimDisputePayout',
     });
   };
 
@@ -374,20 +1153,95 @@ export function useBlindOracle(marketAddress: `0x${string}` | undefined) {
 
   // Price market settlement
 
-  // Auto-settle price market
-  const settlePriceMarket = async () => {
+  // Auto-settle price market, on the oracle TWAP or on a price report signed by the oracle's signers
+  const settlePriceMarket = async (report: `0x${string}` = '0x') => {
     if (!marketAddress) {
       throw new Error('Market address not provided');
     }
+    if (!publicClient || !priceMarketInfo || eventDeadline === undefined) {
+      throw new Error('Price market info not loaded');
+    }
+
+    // The oracle only checks the round in effect at the deadline, so look it up off-chain first
+    // (a signed report prices the deadline itself and needs no round)
+    const [, oracle, asset] = priceMarketInfo as [number, `0x${string}`, `0x${string}`, bigint];
+    let roundHint = 0n;
+    if (report === '0x') {
+      try {
+        roundHint = (await publicClient.readContract({
+          address: oracle,
+          abi: IPriceOracleABI.abi,
+          functionName: 'findRoundAt',
+          args: [asset, eventDeadline],
+        })) as bigint;
+      } catch {
+        // A FallbackPriceOracle looks up its sources' rounds itself and ignores the hint, and its lookup fails
+        // when the primary source has no history (e.g. no feed for the asset). Other oracles then reject hint 0
+        console.warn('No round found at the deadline, settling without a round hint');
+      }
+    }
 
     writeContract({
       address: marketAddress,
       abi: BlindOracleABI.abi,
       functionName: 'settlePriceMarket',
+      args: [roundHint, report],
     });
   };
 
+  // Cancellation & refunds
+
+  // Cancel a stuck market once its grace period has passed (anyone can call)
+  const cancelMarket = async () => {
+    if (!marketAddress) {
+      throw new Error('Market address not provided');
+    }
+
+    writeContract({
+      address: marketAddress,
+      abi: BlindOracleABI.abi,
+      functionName: 'cancelMarket',
+    });
+  };
+
+  // Claim back the whole vault deposit from a cancelled market
+  const claimRefund = async () => {
+    if (!marketAddress) {
+      throw new Error('Market address not provided');
+    }
+
+    writeContract({
+      address: marketAddress,
+      abi: BlindOracleABI.abi,
+      functionName: 'claimRefund',
+    });
+  };
+
+  // Withdraw protocol or creator fees owed to the connected account
+  const withdrawFees = async () => {
+    if (!marketAddress) {
+      throw new Error('Market address not provided');
+    }
+
+    writeContract({
+      address: marketAddress,
+      abi: BlindOracleABI.abi,
+      functionName: 'withdrawFees',
+    });
+  };
+
+  const [, protocolFeeBps, creatorFeeBps, exitPenaltyBps] =
+    (feeConfig as [`0x${string}`, number, number, number] | undefined) ?? [];
+
   return {
+    // Collateral (ETH, the market's ERC-20 token, or its confidential token)
+    collateralToken: collateral.collateralToken,
+    isTokenCollateral: collateral.isTokenCollateral,
+    isConfidentialCollateral: collateral.isConfidentialCollateral,
+    collateralDecimals: collateral.collateralDecimals,
+    collateralSymbol: collateral.collateralSymbol,
+    formatCollateral: collateral.formatCollateral,
+
     // State
     currentPhase: currentPhase as number | undefined,
     eventDescription: eventDescription as string | undefined,
@@ -402,9 +1256,54 @@ export function useBlindOracle(marketAddress: `0x${string}` | undefined) {
     isAggregated: isAggregated as boolean | undefined,
     hasCommitted: hasCommitted as boolean | undefined,
     hasClaimed: hasClaimed as boolean | undefined,
+    claimRequestId: claimRequestId as bigint | undefined,
+    claimStatus,
+    claimPayout,
+    encryptedPayout: encryptedPayout as `0x${string}` | undefined,
+    hasDeposited: hasDeposited as boolean | undefined,
+    encryptedBalance: encryptedBalance as `0x${string}` | undefined,
+    // Also true while a withdrawn commitment waits for its decryption callback
+    hasPendingWithdrawal: hasPendingWithdrawal as boolean | undefined,
+
+    // Cancellation & refunds
+    cancellableAt: cancellableAt as bigint | undefined,
+    depositedAmount: depositedAmount as bigint | undefined,
+    hasRefunded: hasRefunded as boolean | undefined,
+
+    // Disputes
+    arbiter: arbiter as `0x${string}` | undefined,
+    isArbiter,
+    disputeStatus: disputeStatus as number | undefined, // 0 = None, 1 = Disputed, 2 = Upheld, 3 = Rejected
+    challengeBond: challengeBond as bigint | undefined,
+    totalChallengeBonds: totalChallengeBonds as bigint | undefined,
+    challengerSlashReward: challengerSlashReward as bigint | undefined,
+    myChallengeBond: myChallengeBond as bigint | undefined,
+
+    // Outcomes
+    outcomeLabels: outcomeLabels as string[] | undefined,
+    outcomeTotals: outcomeTotals as bigint[] | undefined,
+    winningOutcome: winningOutcome as number | undefined,
+    proposedOutcomeIndex: proposedOutcomeIndex as number | undefined,
+    bucketBoundaries: bucketBoundaries as bigint[] | undefined,
+    settlementPrice: settlementPrice as bigint | undefined,
+    settlementSource: settlementSource as `0x${string}` | undefined,
+    twapWindow: twapWindow as bigint | undefined,
+
+    // Winner pool accounting (fixed at settlement)
+    winnerPool: winnerPool as bigint | undefined,
+    winningStake: winningStake as bigint | undefined,
+    totalPaidOut: totalPaidOut as bigint | undefined,
+
+    // Fees (basis points of the pool, deducted at settlement)
+    protocolFeeBps,
+    creatorFeeBps,
+    exitPenaltyBps, // Kept from a withdrawn commitment and added to the winner pool
+    myFeeBalance: myFeeBalance as bigint | undefined,
 
     // Market type and settlement info
-    marketType: marketType as number | undefined, // 0 = Event, 1 = Price
+    marketType: marketType as number | undefined, // 0 = Event, 1 = Price, 2 = Categorical, 3 = Scalar
+    owner: owner as `0x${string}` | undefined,
+    isOwner,
     priceMarketInfo: priceMarketInfo as any,
     settlementInfo: settlementInfo as any,
 
@@ -426,10 +1325,24 @@ export function useBlindOracle(marketAddress: `0x${string}` | undefined) {
       refetchMarketType();
       refetchPriceMarketInfo();
       refetchSettlementInfo();
+      refetchOutcomeTotals();
+      refetchWinningOutcome();
+      refetchSettlementPrice();
+      refetchSettlementSource();
+      refetchCancellableAt();
+      refetchDisputeStatus();
+      refetchChallengeBond();
+      refetchTotalChallengeBonds();
+      refetchMyFeeBalance();
     },
 
     // Operations
+    deposit,
+    requestWithdrawal,
     submitPrediction,
+    increaseCommitment,
+    revisePrediction,
+    withdrawCommitment,
     aggregateBets,
     requestAggregateDecryption,
     settleMarket,
@@ -442,11 +1355,23 @@ export function useBlindOracle(marketAddress: `0x${string}` | undefined) {
     // Event market settlement operations
     depositOwnerStake,
     proposeSettlement,
+    proposeCategoricalSettlement,
     challengeSettlement,
     finalizeSettlement,
 
+    // Dispute operations
+    resolveDispute,
+    claimDisputePayout,
+
     // Price market settlement operations
     settlePriceMarket,
+
+    // Stuck market operations
+    cancelMarket,
+    claimRefund,
+
+    // Fee operations
+    withdrawFees,
   };
 }
 
@@ -0,0 +1,66 @@
+import { useReadContract } from "wagmi";
+import { erc20Abi, formatUnits, parseUnits, zeroAddress } from "viem";
+import BlindOracleABI from "../BlindOracleABI.json";
+
+/**
+ * Collateral of a market: native ETH, the ERC-20 token chosen at creation, or a confidential
+ * (ERC-7984 style) token whose balances and transfers are encrypted.
+ * Amounts are formatted and parsed with the token's own decimals.
+ */
+export function useCollateral(marketAddress: `0x${string}` | undefined) {
+  // Read the collateral token (zero address = native ETH)
+  const { data: collateralToken } = useReadContract({
+    address: marketAddress,
+    abi: BlindOracleABI.abi,
+    functionName: "collateralToken",
+    query: {
+      enabled: !!marketAddress,
+    },
+  });
+
+  // Read the confidential collateral token (zero address = not a confidential market)
+  const { data: confidentialToken } = useReadContract({
+    address: marketAddress,
+    abi: BlindOracleABI.abi,
+    functionName: "confidentialToken",
+    query: {
+      enabled: !!marketAddress,
+    },
+  });
+
+  const confidential = confidentialToken as `0x${string}` | undefined;
+  const isConfidentialCollateral = !!confidential && confidential !== zeroAddress;
+  const token = isConfidentialCollateral ? confidential : (collateralToken as `0x${string}` | undefined);
+  const isTokenCollateral = !!token && token !== zeroAddress;
+
+  const { data: decimals } = useReadContract({
+    address: token,
+    abi: erc20Abi,
+    functionName: "decimals",
+    query: {
+      enabled: isTokenCollateral,
+    },
+  });
+
+  const { data: symbol } = useReadContract({
+    address: token,
+    abi: erc20Abi,
+    functionName: "symbol",
+    query: {
+      enabled: isTokenCollateral,
+    },
+  });
+
+  const collateralDecimals = isTokenCollateral ? (decimals ?? 18) : 18;
+  const collateralSymbol = isTokenCollateral ? (symbol ?? "tokens") : "ETH";
+
+  return {
+    collateralToken: isTokenCollateral ? token : undefined,
+    isTokenCollateral,
+    isConfidentialCollateral,
+    collateralDecimals,
+    collateralSymbol,
+    formatCollateral: (value: bigint) => formatUnits(value, collateralDecimals),
+    parseCollateral: (value: string) => parseUnits(value, collateralDecimals),
+  };
+}
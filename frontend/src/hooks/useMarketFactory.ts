@@ -1,4 +1,5 @@
 import { useWriteContract, useReadContract, useWaitForTransactionReceipt } from 'wagmi';
+import { zeroAddress } from 'viem';
 import { CONTRACT_CONFIG } from '../config';
 import MarketFactoryABI from '../MarketFactoryABI.json';
 
@@ -25,15 +26,42 @@ export function useMarketFactory() {
     functionName: 'getMarketCount',
   });
 
+  // Protocol fee applied to new markets, and the creator fee cap (basis points)
+  const { data: protocolFeeBps } = useReadContract({
+    address: CONTRACT_CONFIG.factoryAddress,
+    abi: MarketFactoryABI.abi,
+    functionName: 'protocolFeeBps',
+  });
+
+  const { data: maxCreatorFeeBps } = useReadContract({
+    address: CONTRACT_CONFIG.factoryAddress,
+    abi: MarketFactoryABI.abi,
+    functionName: 'MAX_CREATOR_FEE_BPS',
+  });
+
+  const { data: maxExitPenaltyBps } = useReadContract({
+    address: CONTRACT_CONFIG.factoryAddress,
+    abi: MarketFactoryABI.abi,
+    functionName: 'MAX_EXIT_PENALTY_BPS',
+  });
+
   // 创建新市场
   const createMarket = async (
-    marketType: 0 | 1, // 0 = Event, 1 = Price
+    marketType: 0 | 1 | 2 | 3, // 0 = Event, 1 = Price, 2 = Categorical, 3 = Scalar
     description: string,
     commitmentDuration: number, // in seconds
     eventDuration: number, // in seconds
     priceOracle: `0x${string}`, // Price oracle address (use 0x0 for Event markets)
-    targetAsset: 0 | 1 | 2, // 0 = ETH, 1 = BTC, 2 = SOL
-    targetPrice: bigint // Target price scaled by 1e8 (use 0 for Event markets)
+    targetAsset: `0x${string}`, // AssetRegistry ID (use zeroHash for Event and Categorical markets)
+    targetPrice: bigint, // Target price scaled by 1e8 (use 0 for Event markets)
+    outcomeLabels: string[] = [], // Outcome labels (only for Categorical markets)
+    bucketBoundaries: bigint[] = [], // Ascending price bucket boundaries scaled by 1e8 (only for Scalar markets)
+    refundGracePeriod: number = 7 * 24 * 60 * 60, // in seconds, after which a stuck market can be cancelled for refunds
+    creatorFeeBps: number = 0, // Creator fee in basis points of the winner pool
+    exitPenaltyBps: number = 0, // Penalty kept from a commitment withdrawn before the deadline, in basis points
+    collateralToken: `0x${string}` = zeroAddress, // ERC-20 collateral token (zero address = native ETH)
+    confidentialToken: `0x${string}` = zeroAddress, // Confidential token for encrypted payouts (Price/Scalar only)
+    twapWindow: number = 0 // Seconds before the event deadline averaged for settlement (Price/Scalar only, 0 = spot)
   ) => {
     try {
       await writeContract({
@@ -48,6 +76,14 @@ export function useMarketFactory() {
           priceOracle,
           targetAsset,
           targetPrice,
+          outcomeLabels,
+          bucketBoundaries,
+          BigInt(refundGracePeriod),
+          creatorFeeBps,
+          exitPenaltyBps,
+          collateralToken,
+          confidentialToken,
+          BigInt(twapWindow),
         ],
       });
     } catch (err) {
@@ -58,6 +94,9 @@ export function useMarketFactory() {
   return {
     // State
     marketCount,
+    protocolFeeBps: protocolFeeBps as number | undefined,
+    maxCreatorFeeBps: maxCreatorFeeBps as number | undefined,
+    maxExitPenaltyBps: maxExitPenaltyBps as number | undefined,
     isPending,
     isConfirming,
     isConfirmed,
@@ -0,0 +1,158 @@
+import { useReadContract } from "wagmi";
+import { zeroAddress } from "viem";
+import IPriceOracleABI from "../IPriceOracleABI.json";
+import FallbackPriceOracleABI from "../FallbackPriceOracleABI.json";
+import PriceOracleABI from "../PriceOracleABI.json";
+
+// Scale a raw oracle price down by the oracle's decimals
+const toUsd = (price: bigint | undefined, decimals: number | undefined) =>
+  price !== undefined && decimals !== undefined ? Number(price) / 10 ** decimals : undefined;
+
+// Latest price from any IPriceOracle implementation (ChainlinkPriceOracle or PriceOracle)
+// `asset` is an AssetRegistry ID (see useAssets)
+export function useOraclePrice(oracleAddress: `0x${string}` | undefined, asset: `0x${string}` | undefined) {
+  const { data, isLoading, error, refetch } = useReadContract({
+    address: oracleAddress,
+    abi: IPriceOracleABI.abi,
+    functionName: "getPriceWithMetadata",
+    args: [asset],
+    query: {
+      enabled: !!oracleAddress && !!asset,
+      refetchInterval: 10000, // 每10秒刷新一次
+    },
+  });
+
+  // data 是一个数组 [price, timestamp, decimals, description]
+  const [price, timestamp, decimals, description] = (data as [bigint, bigint, number, string] | undefined) ?? [];
+
+  // 按预言机的精度将价格转换为美元
+  const priceInUsd = toUsd(price, decimals);
+
+  // 计算价格更新时间
+  const lastUpdated = timestamp ? new Date(Number(timestamp) * 1000) : undefined;
+
+  return {
+    price: priceInUsd,
+    rawPrice: price,
+    decimals,
+    description,
+    timestamp: lastUpdated,
+    isLoading,
+    error,
+    refetch,
+  };
+}
+
+// Time-weighted average price over `window` seconds ending at `endTime`, as a price market settles on it
+export function useOracleTwap(
+  oracleAddress: `0x${string}` | undefined,
+  asset: `0x${string}` | undefined,
+  endTime: bigint | undefined,
+  window: bigint | undefined,
+) {
+  // The oracle cannot average a window that has not ended yet
+  const hasEnded = endTime !== undefined && Date.now() >= Number(endTime) * 1000;
+
+  const { data: decimals } = useReadContract({
+    address: oracleAddress,
+    abi: IPriceOracleABI.abi,
+    functionName: "decimals",
+    query: {
+      enabled: !!oracleAddress,
+    },
+  });
+
+  // The oracle checks a caller-supplied round instead of searching for it
+  const { data: roundHint } = useReadContract({
+    address: oracleAddress,
+    abi: IPriceOracleABI.abi,
+    functionName: "findRoundAt",
+    args: [asset, endTime],
+    query: {
+      enabled: !!oracleAddress && !!asset && hasEnded,
+    },
+  });
+
+  const { data, isLoading, error } = useReadContract({
+    address: oracleAddress,
+    abi: IPriceOracleABI.abi,
+    functionName: "getTwap",
+    args: [asset, endTime, window, roundHint],
+    query: {
+      enabled: !!oracleAddress && hasEnded && window !== undefined && roundHint !== undefined,
+    },
+  });
+
+  return {
+    price: toUsd(data as bigint | undefined, decimals as number | undefined),
+    rawPrice: data as bigint | undefined,
+    isLoading,
+    error,
+  };
+}
+
+// Describe the oracle a market settled on: its own oracle, or where a FallbackPriceOracle got the price from
+export function useSettlementSource(
+  oracleAddress: `0x${string}` | undefined,
+  asset: `0x${string}` | undefined,
+  source: `0x${string}` | undefined,
+) {
+  const isSettled = !!source && source !== zeroAddress;
+
+  // Only a FallbackPriceOracle has a chain of sources, the call fails on other oracles
+  const { data: chain, isLoading } = useReadContract({
+    address: oracleAddress,
+    abi: FallbackPriceOracleABI.abi,
+    functionName: "getSources",
+    args: [asset],
+    query: {
+      enabled: !!oracleAddress && !!asset && isSettled,
+      retry: false,
+    },
+  });
+
+  if (!isSettled || isLoading) return { label: undefined };
+
+  const sources = ((chain as `0x${string}`[] | undefined) ?? []).map((address) => address.toLowerCase());
+  const index = sources.indexOf(source.toLowerCase());
+  let label = "Market oracle";
+  if (source.toLowerCase() === oracleAddress?.toLowerCase() && sources.length > 0) {
+    label = "Manual admin price (no source could settle)";
+  } else if (index === 0) {
+    label = "Primary source";
+  } else if (index > 0) {
+    label = `Fallback source #${index + 1}`;
+  }
+
+  return { label };
+}
+
+// Name the kind of oracle a market settles on, told apart by a view only that kind has:
+// FallbackPriceOracle has a chain of sources, PriceOracle a signer quorum, anything else is a Chainlink oracle
+export function useOracleName(oracleAddress: `0x${string}` | undefined, asset: `0x${string}` | undefined) {
+  const { isSuccess: isFallback, isLoading: isFallbackLoading } = useReadContract({
+    address: oracleAddress,
+    abi: FallbackPriceOracleABI.abi,
+    functionName: "getSources",
+    args: [asset],
+    query: {
+      enabled: !!oracleAddress && !!asset,
+      retry: false,
+    },
+  });
+
+  const { isSuccess: isUpdater, isLoading: isUpdaterLoading } = useReadContract({
+    address: oracleAddress,
+    abi: PriceOracleABI.abi,
+    functionName: "quorum",
+    query: {
+      enabled: !!oracleAddress,
+      retry: false,
+    },
+  });
+
+  if (!oracleAddress || isFallbackLoading || isUpdaterLoading) return { kind: undefined, name: "price oracle" };
+  if (isFallback) return { kind: "fallback" as const, name: "fallback oracle" };
+  if (isUpdater) return { kind: "updater" as const, name: "updater oracle" };
+  return { kind: "chainlink" as const, name: "Chainlink oracle" };
+}
@@ -1,13 +1,5 @@
 import { useState, useEffect } from 'react';
 
-export const PriceAsset = {
-  ETH: 'ethereum',
-  BTC: 'bitcoin',
-  SOL: 'solana',
-} as const;
-
-export type PriceAsset = typeof PriceAsset[keyof typeof PriceAsset];
-
 interface RealtimePrice {
   price: number | undefined;
   timestamp: Date | undefined;
@@ -17,9 +9,10 @@ interface RealtimePrice {
 
 /**
  * 获取实时价格（用于显示，不用于结算）
- * 使用 CoinGecko 免费 API，每 10 秒更新一次
+ * 使用 Binance 免费 API，每 10 秒更新一次
+ * `symbol` 为资产注册表中的代码（如 ETH），没有 USDT 交易对的资产返回错误
  */
-export function useRealtimePrice(asset: PriceAsset): RealtimePrice {
+export function useRealtimePrice(symbol: string | undefined): RealtimePrice {
   const [price, setPrice] = useState<number | undefined>(undefined);
   const [timestamp, setTimestamp] = useState<Date | undefined>(undefined);
   const [isLoading, setIsLoading] = useState(true);
@@ -29,26 +22,17 @@ export function useRealtimePrice(asset: PriceAsset): RealtimePrice {
     let isMounted = true;
     let intervalId: NodeJS.Timeout;
 
+    if (!symbol) {
+      return;
+    }
+
     const fetchPrice = async () => {
       try {
         setIsLoading(true);
 
         // 使用 Binance API（无 CORS 限制，完全免费）
-        let symbol = '';
-        switch (asset) {
-          case PriceAsset.ETH:
-            symbol = 'ETHUSDT';
-            break;
-          case PriceAsset.BTC:
-            symbol = 'BTCUSDT';
-            break;
-          case PriceAsset.SOL:
-            symbol = 'SOLUSDT';
-            break;
-        }
-
         const response = await fetch(
-          `https://api.binance.com/api/v3/ticker/price?symbol=${symbol}`
+          `https://api.binance.com/api/v3/ticker/price?symbol=${symbol.toUpperCase()}USDT`
         );
 
         if (!response.ok) {
@@ -83,7 +67,7 @@ export function useRealtimePrice(asset: PriceAsset): RealtimePrice {
       isMounted = false;
       clearInterval(intervalId);
     };
-  }, [asset]);
+  }, [symbol]);
 
   return {
     price,
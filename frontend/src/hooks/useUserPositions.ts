@@ -1,8 +1,10 @@
 import { useState, useEffect } from 'react';
 import { useAccount, useReadContract, usePublicClient } from 'wagmi';
+import { erc20Abi, zeroAddress } from 'viem';
 import MarketFactoryABI from '../MarketFactoryABI.json';
 import BlindOracleABI from '../BlindOracleABI.json';
 import { CONTRACT_CONFIG } from '../config';
+import { CLAIM_STATUSES, type ClaimStatus } from './useBlindOracle';
 
 const MARKET_FACTORY_ADDRESS = CONTRACT_CONFIG.factoryAddress;
 
@@ -13,9 +15,13 @@ export interface UserPosition {
   commitmentDeadline: bigint;
   eventDeadline: bigint;
   totalPool: bigint;
+  collateralDecimals: number;
+  collateralSymbol: string;
   participantCount: bigint;
   hasCommitted: boolean;
   hasClaimed: boolean;
+  claimStatus: ClaimStatus;
+  claimPayout: bigint;
   isSettled: boolean;
   finalOutcome?: boolean;
   totalYesAmount?: bigint;
@@ -100,7 +106,7 @@ export function useUserPositions() {
           ]);
 
           // 获取其他数据
-          const [totalPool, participantCount, hasClaimed, isAggregated] = await Promise.all([
+          const [totalPool, participantCount, hasClaimed, isAggregated, claimInfo] = await Promise.all([
             publicClient.readContract({
               address: marketAddr,
               abi: BlindOracleABI.abi,
@@ -122,11 +128,41 @@ export function useUserPositions() {
               abi: BlindOracleABI.abi,
               functionName: 'isAggregated',
             }) as Promise<boolean>,
+            publicClient.readContract({
+              address: marketAddr,
+              abi: BlindOracleABI.abi,
+              functionName: 'getClaimInfo',
+              args: [address],
+            }) as Promise<[number, bigint]>,
           ]);
 
           // 解析 marketInfo
           const [phase, commitmentDeadline, eventDeadline, totalYesAmount, totalNoAmount, isSettled, finalOutcome] = marketInfo;
 
+          const [claimState, claimPayout] = claimInfo;
+
+          // Amounts are denominated in the market's collateral (zero address = native ETH),
+          // or in its confidential token if it has one
+          const [publicToken, confidentialToken] = await Promise.all([
+            publicClient.readContract({
+              address: marketAddr,
+              abi: BlindOracleABI.abi,
+              functionName: 'collateralToken',
+            }) as Promise<`0x${string}`>,
+            publicClient.readContract({
+              address: marketAddr,
+              abi: BlindOracleABI.abi,
+              functionName: 'confidentialToken',
+            }) as Promise<`0x${string}`>,
+          ]);
+          const collateralToken = confidentialToken !== zeroAddress ? confidentialToken : publicToken;
+          const [collateralDecimals, collateralSymbol] = collateralToken === zeroAddress
+            ? [18, 'ETH']
+            : await Promise.all([
+                publicClient.readContract({ address: collateralToken, abi: erc20Abi, functionName: 'decimals' }),
+                publicClient.readContract({ address: collateralToken, abi: erc20Abi, functionName: 'symbol' }),
+              ]);
+
           // 解析 factoryInfo
           const [, description] = factoryInfo;
 
@@ -137,9 +173,13 @@ export function useUserPositions() {
             commitmentDeadline: commitmentDeadline as bigint,
             eventDeadline: eventDeadline as bigint,
             totalPool,
+            collateralDecimals,
+            collateralSymbol,
             participantCount,
             hasCommitted: true,
             hasClaimed,
+            claimStatus: CLAIM_STATUSES[claimState] ?? 'none',
+            claimPayout,
             isSettled: isSettled as boolean,
             finalOutcome: finalOutcome as boolean,
             totalYesAmount: totalYesAmount as bigint,
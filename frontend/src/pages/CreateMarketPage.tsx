@@ -1,25 +1,63 @@
 import { useState, useEffect } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
 import { useMarketFactory } from '../hooks/useMarketFactory';
+import { useAssets } from '../hooks/useAssetRegistry';
 import { CONTRACT_CONFIG } from '../config';
 import { useAccount } from 'wagmi';
+import { isAddress, zeroAddress, zeroHash } from 'viem';
 import { Toast } from '../components/Toast';
 import type { ToastType } from '../components/Toast';
 import { ConnectButton } from '@rainbow-me/rainbowkit';
 
+// Must match BlindOracle.MAX_OUTCOMES
+const MAX_OUTCOMES = 8;
+// n boundaries define n + 1 price buckets
+const MAX_BUCKET_BOUNDARIES = MAX_OUTCOMES - 1;
+
 export default function CreateMarketPage() {
   const navigate = useNavigate();
   const { isConnected } = useAccount();
-  const { createMarket, isPending, isConfirming, isConfirmed, error } = useMarketFactory();
+  const { createMarket, protocolFeeBps, maxCreatorFeeBps, maxExitPenaltyBps, isPending, isConfirming, isConfirmed, error } = useMarketFactory();
 
-  const [marketType, setMarketType] = useState<'event' | 'price'>('event');
+  const [marketType, setMarketType] = useState<'event' | 'price' | 'categorical' | 'scalar'>('event');
   const [description, setDescription] = useState('');
   const [commitmentDeadline, setCommitmentDeadline] = useState('');
   const [eventDeadline, setEventDeadline] = useState('');
-
-  // Price market specific fields
-  const [targetAsset, setTargetAsset] = useState<'ETH' | 'BTC'>('ETH');
+  // Days a stuck market waits before anyone can cancel it and open refunds
+  const [refundGraceDays, setRefundGraceDays] = useState('7');
+  // Creator fee as a percentage of the winner pool
+  const [creatorFeePercent, setCreatorFeePercent] = useState('0');
+  // Penalty kept from a bet withdrawn before the commitment deadline, as a percentage of the bet
+  const [exitPenaltyPercent, setExitPenaltyPercent] = useState('0');
+  // ERC-20 collateral token address; empty means native ETH
+  const [collateralToken, setCollateralToken] = useState('');
+  // Whether the collateral token is confidential (ERC-7984 style), so payouts stay encrypted
+  const [isConfidentialToken, setIsConfidentialToken] = useState(false);
+
+  // Fees are taken from the winner pool at settlement (basis points)
+  const creatorFeeBps = Math.round((parseFloat(creatorFeePercent) || 0) * 100);
+  const protocolFee = Number(protocolFeeBps ?? 0);
+  const maxCreatorFee = Number(maxCreatorFeeBps ?? 500);
+  const exitPenaltyBps = Math.round((parseFloat(exitPenaltyPercent) || 0) * 100);
+  const maxExitPenalty = Number(maxExitPenaltyBps ?? 2000);
+
+  // Price market specific fields (assets are loaded from the oracle's asset registry)
+  const { assets } = useAssets(CONTRACT_CONFIG.priceOracleAddress);
+  const supportedAssets = assets.filter((asset) => asset.supported);
+  const [targetAsset, setTargetAsset] = useState('ETH');
   const [targetPrice, setTargetPrice] = useState('');
+  // Minutes before the event deadline whose time-weighted average price settles the market (0 = price at the deadline)
+  const [twapWindowMinutes, setTwapWindowMinutes] = useState('60');
+
+  // Categorical market specific fields
+  const [outcomeLabels, setOutcomeLabels] = useState<string[]>(['', '']);
+
+  // Scalar market specific fields (USD prices)
+  const [bucketBoundaries, setBucketBoundaries] = useState<string[]>(['', '']);
+
+  // Price and Scalar markets are both settled by the price oracle
+  const isOracleSettled = marketType === 'price' || marketType === 'scalar';
+  const confidentialCollateral = isConfidentialToken && !!collateralToken && isOracleSettled;
 
   const [isSubmitting, setIsSubmitting] = useState(false);
 
@@ -50,6 +88,32 @@ export default function CreateMarketPage() {
     }
   }, [error]);
 
+  // Outcome list editor
+  const updateOutcomeLabel = (index: number, value: string) => {
+    setOutcomeLabels((labels) => labels.map((label, i) => (i === index ? value : label)));
+  };
+
+  const addOutcome = () => {
+    setOutcomeLabels((labels) => (labels.length < MAX_OUTCOMES ? [...labels, ''] : labels));
+  };
+
+  const removeOutcome = (index: number) => {
+    setOutcomeLabels((labels) => (labels.length > 2 ? labels.filter((_, i) => i !== index) : labels));
+  };
+
+  // Bucket boundary editor
+  const updateBucketBoundary = (index: number, value: string) => {
+    setBucketBoundaries((boundaries) => boundaries.map((boundary, i) => (i === index ? value : boundary)));
+  };
+
+  const addBucketBoundary = () => {
+    setBucketBoundaries((boundaries) => (boundaries.length < MAX_BUCKET_BOUNDARIES ? [...boundaries, ''] : boundaries));
+  };
+
+  const removeBucketBoundary = (index: number) => {
+    setBucketBoundaries((boundaries) => (boundaries.length > 1 ? boundaries.filter((_, i) => i !== index) : boundaries));
+  };
+
   // Get user timezone
   const getUserTimezone = () => {
     return Intl.DateTimeFormat().resolvedOptions().timeZone;
@@ -107,15 +171,25 @@ export default function CreateMarketPage() {
         timeZoneName: 'short'
       });
 
-      const assetName = targetAsset === 'ETH' ? 'Ethereum' : 'Bitcoin';
-      const assetSymbol = targetAsset;
       const price = parseFloat(targetPrice).toLocaleString();
 
-      const generatedDescription = `Will ${assetName} (${assetSymbol}) price be at or above $${price} on ${formattedDate}?`;
+      const generatedDescription = `Will ${targetAsset} price be at or above $${price} on ${formattedDate}?`;
       setDescription(generatedDescription);
-    } else if (marketType === 'event') {
-      // For Event Market, clear auto-generated content and let user input manually
-      if (description.startsWith('Will ') && (description.includes('Ethereum') || description.includes('Bitcoin'))) {
+    } else if (marketType === 'scalar' && targetAsset && eventDeadline) {
+      const eventDate = new Date(eventDeadline);
+      const formattedDate = eventDate.toLocaleString('en-US', {
+        month: 'short',
+        day: 'numeric',
+        year: 'numeric',
+        hour: '2-digit',
+        minute: '2-digit',
+        timeZoneName: 'short'
+      });
+
+      setDescription(`Where will ${targetAsset} price be on ${formattedDate}?`);
+    } else if (marketType === 'event' || marketType === 'categorical') {
+      // For manually settled markets, clear auto-generated content and let user input manually
+      if (/^(Will|Where will) \S+ price be /.test(description)) {
         setDescription('');
       }
     }
@@ -139,6 +213,32 @@ export default function CreateMarketPage() {
       return;
     }
 
+    if (!refundGraceDays || parseFloat(refundGraceDays) <= 0) {
+      showToast('Please enter a valid refund grace period', 'error');
+      return;
+    }
+
+    if (creatorFeeBps < 0 || creatorFeeBps > maxCreatorFee) {
+      showToast(`Creator fee must be between 0% and ${maxCreatorFee / 100}%`, 'error');
+      return;
+    }
+
+    if (exitPenaltyBps < 0 || exitPenaltyBps > maxExitPenalty) {
+      showToast(`Early-exit penalty must be between 0% and ${maxExitPenalty / 100}%`, 'error');
+      return;
+    }
+
+    if (collateralToken && !isAddress(collateralToken)) {
+      showToast('Please enter a valid collateral token address', 'error');
+      return;
+    }
+
+    // Confidential collateral has no plaintext owner stake, so only oracle-settled markets can use it
+    if (isConfidentialToken && collateralToken && !isOracleSettled) {
+      showToast('Confidential tokens are only supported for price and scalar markets', 'error');
+      return;
+    }
+
     // Price market specific validation
     if (marketType === 'price') {
       if (!targetPrice || parseFloat(targetPrice) <= 0) {
@@ -147,6 +247,32 @@ export default function CreateMarketPage() {
       }
     }
 
+    // Scalar market specific validation
+    const boundaryPrices = bucketBoundaries.map((boundary) => parseFloat(boundary));
+    if (marketType === 'scalar') {
+      if (boundaryPrices.some((price) => !(price > 0))) {
+        showToast('Please enter a valid price for every bucket boundary', 'error');
+        return;
+      }
+      if (boundaryPrices.some((price, i) => i > 0 && price <= boundaryPrices[i - 1])) {
+        showToast('Bucket boundaries must be in ascending order', 'error');
+        return;
+      }
+    }
+
+    // Categorical market specific validation
+    const trimmedOutcomes = outcomeLabels.map((label) => label.trim());
+    if (marketType === 'categorical') {
+      if (trimmedOutcomes.some((label) => !label)) {
+        showToast('Please fill in every outcome label', 'error');
+        return;
+      }
+      if (new Set(trimmedOutcomes.map((label) => label.toLowerCase())).size !== trimmedOutcomes.length) {
+        showToast('Outcome labels must be unique', 'error');
+        return;
+      }
+    }
+
     const commitmentDate = new Date(commitmentDeadline);
     const eventDate = new Date(eventDeadline);
     const now = new Date();
@@ -161,6 +287,20 @@ export default function CreateMarketPage() {
       return;
     }
 
+    // The averaging window ends at the event deadline and must not reach back past the commitment deadline
+    const twapWindow = isOracleSettled ? Math.floor((parseFloat(twapWindowMinutes) || 0) * 60) : 0;
+    if (twapWindow < 0 || twapWindow * 1000 > eventDate.getTime() - commitmentDate.getTime()) {
+      showToast('TWAP window must fit between the commitment and event deadlines', 'error');
+      return;
+    }
+
+    // The registry keys assets by their symbol as bytes32
+    const assetId = isOracleSettled ? supportedAssets.find((asset) => asset.symbol === targetAsset)?.id : zeroHash;
+    if (!assetId) {
+      showToast(`${targetAsset} is not supported by the price oracle`, 'error');
+      return;
+    }
+
     setIsSubmitting(true);
 
     try {
@@ -172,29 +312,39 @@ export default function CreateMarketPage() {
       const eventDuration = Math.floor((eventDate.getTime() - commitmentDate.getTime()) / 1000);
 
       // Prepare market type parameter
-      const marketTypeEnum = marketType === 'event' ? 0 : 1;
+      const marketTypeEnum = marketType === 'event' ? 0 : marketType === 'price' ? 1 : marketType === 'categorical' ? 2 : 3;
 
       // Prepare price oracle parameter
-      const priceOracleAddress = marketType === 'price'
+      const priceOracleAddress = isOracleSettled
         ? CONTRACT_CONFIG.priceOracleAddress as `0x${string}`
         : '0x0000000000000000000000000000000000000000' as `0x${string}`;
 
-      // Prepare asset type
-      const assetEnum = targetAsset === 'ETH' ? 0 : 1; // 0 = ETH, 1 = BTC
-
       // Prepare target price (scaled by 1e8)
       const targetPriceBigInt = marketType === 'price'
         ? BigInt(Math.floor(parseFloat(targetPrice) * 1e8))
         : BigInt(0);
 
+      // Prepare bucket boundaries (scaled by 1e8)
+      const bucketBoundariesBigInt = marketType === 'scalar'
+        ? boundaryPrices.map((price) => BigInt(Math.floor(price * 1e8)))
+        : [];
+
       await createMarket(
         marketTypeEnum,
         description,
         commitmentDuration,
         eventDuration,
         priceOracleAddress,
-        assetEnum,
-        targetPriceBigInt
+        assetId,
+        targetPriceBigInt,
+        marketType === 'categorical' ? trimmedOutcomes : [],
+        bucketBoundariesBigInt,
+        Math.floor(parseFloat(refundGraceDays) * 86400),
+        creatorFeeBps,
+        exitPenaltyBps,
+        collateralToken && !confidentialCollateral ? (collateralToken as `0x${string}`) : zeroAddress,
+        confidentialCollateral ? (collateralToken as `0x${string}`) : zeroAddress,
+        twapWindow
       );
 
       showToast('Transaction submitted! Waiting for confirmation...', 'info');
@@ -269,21 +419,52 @@ export default function CreateMarketPage() {
                     Automatically settled using price oracle
                   </p>
                 </button>
+                <button
+                  type="button"
+                  onClick={() => setMarketType('categorical')}
+                  className={`p-6 rounded-lg border-2 transition-all ${
+                    marketType === 'categorical'
+                      ? 'bg-blue-500/20 border-blue-500 shadow-lg shadow-blue-500/30'
+                      : 'bg-gray-700/50 border-gray-600 hover:border-gray-500'
+                  }`}
+                >
+                  <div className="text-4xl mb-2">🗳️</div>
+                  <h3 className="text-white font-bold mb-1">Categorical Market</h3>
+                  <p className="text-gray-400 text-sm">
+                    Multiple labelled outcomes, settled by creator
+                  </p>
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setMarketType('scalar')}
+                  className={`p-6 rounded-lg border-2 transition-all ${
+                    marketType === 'scalar'
+                      ? 'bg-teal-500/20 border-teal-500 shadow-lg shadow-teal-500/30'
+                      : 'bg-gray-700/50 border-gray-600 hover:border-gray-500'
+                  }`}
+                >
+                  <div className="text-4xl mb-2">📊</div>
+                  <h3 className="text-white font-bold mb-1">Scalar Market</h3>
+                  <p className="text-gray-400 text-sm">
+                    Bet on a price range, settled by price oracle
+                  </p>
+                </button>
               </div>
 
               {/* Market Type Info */}
-              {marketType === 'event' && (
+              {(marketType === 'event' || marketType === 'categorical') && (
                 <div className="mt-4 bg-yellow-500/10 border border-yellow-500/30 rounded-lg p-4">
                   <p className="text-yellow-400 text-sm">
-                    ⚠️ <strong>Event Market:</strong> You will manually settle this market. You cannot participate,
-                    must deposit 10% stake, and users have 24 hours to challenge your settlement.
+                    ⚠️ <strong>{marketType === 'event' ? 'Event Market' : 'Categorical Market'}:</strong> You will manually settle this market. You cannot participate,
+                    must deposit 10% stake, and users have 24 hours to challenge your settlement. A challenged settlement is
+                    decided by the platform arbiter, who slashes your stake if the challenge is upheld.
                   </p>
                 </div>
               )}
-              {marketType === 'price' && (
+              {isOracleSettled && (
                 <div className="mt-4 bg-green-500/10 border border-green-500/30 rounded-lg p-4">
                   <p className="text-green-400 text-sm mb-2">
-                    🤖 <strong>Price Market:</strong> This market will be automatically settled using Chainlink price oracle.
+                    🤖 <strong>{marketType === 'price' ? 'Price Market' : 'Scalar Market'}:</strong> This market will be automatically settled using Chainlink price oracle.
                     No manual intervention required.
                   </p>
                   <p className="text-green-300/70 text-xs">
@@ -303,22 +484,22 @@ export default function CreateMarketPage() {
                 value={description}
                 onChange={(e) => setDescription(e.target.value)}
                 placeholder={
-                  marketType === 'price'
+                  isOracleSettled
                     ? 'Auto-generated based on your settings...'
                     : 'e.g., Will Bitcoin reach $120,000 by end of 2025?'
                 }
                 className={`w-full px-4 py-3 rounded-lg border focus:outline-none resize-none ${
-                  marketType === 'price'
+                  isOracleSettled
                     ? 'bg-gray-800 text-gray-300 border-gray-700 cursor-not-allowed'
                     : 'bg-gray-700 text-white border-gray-600 focus:border-blue-500'
                 }`}
                 rows={3}
                 maxLength={200}
                 required
-                readOnly={marketType === 'price'}
+                readOnly={isOracleSettled}
               />
               <p className="text-gray-400 text-sm mt-2">
-                {marketType === 'price' ? (
+                {isOracleSettled ? (
                   <span className="text-green-400">✨ Auto-generated from your price prediction settings</span>
                 ) : (
                   <span>{description.length}/200 characters</span>
@@ -326,8 +507,8 @@ export default function CreateMarketPage() {
               </p>
             </div>
 
-            {/* Price Market Specific Fields */}
-            {marketType === 'price' && (
+            {/* Price and Scalar Market Specific Fields */}
+            {isOracleSettled && (
               <>
                 <div>
                   <label className="block text-white font-semibold mb-2">
@@ -335,40 +516,154 @@ export default function CreateMarketPage() {
                   </label>
                   <select
                     value={targetAsset}
-                    onChange={(e) => setTargetAsset(e.target.value as 'ETH' | 'BTC')}
+                    onChange={(e) => setTargetAsset(e.target.value)}
                     className="w-full px-4 py-3 bg-gray-700 text-white rounded-lg border border-gray-600 focus:border-blue-500 focus:outline-none"
                     required
                   >
-                    <option value="ETH">🔷 Ethereum (ETH)</option>
-                    <option value="BTC">🟠 Bitcoin (BTC)</option>
+                    {supportedAssets.length === 0 && <option value={targetAsset}>Loading assets...</option>}
+                    {supportedAssets.map((asset) => (
+                      <option key={asset.id} value={asset.symbol}>
+                        {asset.symbol}
+                      </option>
+                    ))}
                   </select>
                   <p className="text-gray-400 text-sm mt-2">
-                    Select the cryptocurrency to track
+                    Select the asset to track (listed in the oracle's asset registry)
                   </p>
                 </div>
 
+                {marketType === 'price' && (
+                  <div>
+                    <label className="block text-white font-semibold mb-2">
+                      Target Price (USD) *
+                    </label>
+                    <input
+                      type="number"
+                      value={targetPrice}
+                      onChange={(e) => setTargetPrice(e.target.value)}
+                      placeholder="e.g., 5000"
+                      step="0.01"
+                      min="0"
+                      className="w-full px-4 py-3 bg-gray-700 text-white rounded-lg border border-gray-600 focus:border-blue-500 focus:outline-none"
+                      required
+                    />
+                    <p className="text-gray-400 text-sm mt-2">
+                      💡 The market will settle as YES if the price is <strong>at or above</strong> this target,
+                      otherwise NO.
+                    </p>
+                  </div>
+                )}
+
                 <div>
                   <label className="block text-white font-semibold mb-2">
-                    Target Price (USD) *
+                    TWAP Window (minutes)
                   </label>
                   <input
                     type="number"
-                    value={targetPrice}
-                    onChange={(e) => setTargetPrice(e.target.value)}
-                    placeholder="e.g., 5000"
-                    step="0.01"
+                    value={twapWindowMinutes}
+                    onChange={(e) => setTwapWindowMinutes(e.target.value)}
+                    step="1"
                     min="0"
                     className="w-full px-4 py-3 bg-gray-700 text-white rounded-lg border border-gray-600 focus:border-blue-500 focus:outline-none"
-                    required
                   />
                   <p className="text-gray-400 text-sm mt-2">
-                    💡 The market will settle as YES if the price is <strong>at or above</strong> this target,
-                    otherwise NO.
+                    ⏱️ The settlement price is the time-weighted average over this window, ending at the event
+                    deadline. It can't be moved by one price print or by when settlement is called. Use 0 for the
+                    price at the deadline.
                   </p>
                 </div>
               </>
             )}
 
+            {/* Scalar Market Specific Fields */}
+            {marketType === 'scalar' && (
+              <div>
+                <label className="block text-white font-semibold mb-2">
+                  Bucket Boundaries (USD) * <span className="text-gray-400 font-normal text-sm">(1-{MAX_BUCKET_BOUNDARIES}, ascending)</span>
+                </label>
+                <div className="space-y-3">
+                  {bucketBoundaries.map((boundary, index) => (
+                    <div key={index} className="flex gap-3">
+                      <span className="w-10 py-3 text-center text-gray-400 font-mono">#{index}</span>
+                      <input
+                        type="number"
+                        value={boundary}
+                        onChange={(e) => updateBucketBoundary(index, e.target.value)}
+                        placeholder={`e.g., ${3000 + index * 200}`}
+                        step="0.01"
+                        min="0"
+                        className="flex-1 px-4 py-3 bg-gray-700 text-white rounded-lg border border-gray-600 focus:border-blue-500 focus:outline-none"
+                        required
+                      />
+                      <button
+                        type="button"
+                        onClick={() => removeBucketBoundary(index)}
+                        disabled={bucketBoundaries.length <= 1}
+                        className="px-4 py-3 bg-gray-700 hover:bg-red-500/30 disabled:opacity-40 disabled:cursor-not-allowed text-gray-300 rounded-lg transition-colors"
+                      >
+                        ✕
+                      </button>
+                    </div>
+                  ))}
+                </div>
+                <button
+                  type="button"
+                  onClick={addBucketBoundary}
+                  disabled={bucketBoundaries.length >= MAX_BUCKET_BOUNDARIES}
+                  className="mt-3 px-4 py-2 bg-gray-700 hover:bg-gray-600 disabled:opacity-40 disabled:cursor-not-allowed text-white rounded-lg transition-colors"
+                >
+                  ➕ Add Boundary
+                </button>
+                <p className="text-gray-400 text-sm mt-2">
+                  💡 {bucketBoundaries.length} boundaries make {bucketBoundaries.length + 1} buckets. A price equal to a boundary
+                  falls into the bucket above it. Winners split the whole pool in proportion to their stake.
+                </p>
+              </div>
+            )}
+
+            {/* Categorical Market Specific Fields */}
+            {marketType === 'categorical' && (
+              <div>
+                <label className="block text-white font-semibold mb-2">
+                  Outcomes * <span className="text-gray-400 font-normal text-sm">(2-{MAX_OUTCOMES})</span>
+                </label>
+                <div className="space-y-3">
+                  {outcomeLabels.map((label, index) => (
+                    <div key={index} className="flex gap-3">
+                      <span className="w-10 py-3 text-center text-gray-400 font-mono">#{index}</span>
+                      <input
+                        type="text"
+                        value={label}
+                        onChange={(e) => updateOutcomeLabel(index, e.target.value)}
+                        placeholder={`e.g., Team ${String.fromCharCode(65 + index)}`}
+                        maxLength={50}
+                        className="flex-1 px-4 py-3 bg-gray-700 text-white rounded-lg border border-gray-600 focus:border-blue-500 focus:outline-none"
+                        required
+                      />
+                      <button
+                        type="button"
+                        onClick={() => removeOutcome(index)}
+                        disabled={outcomeLabels.length <= 2}
+                        className="px-4 py-3 bg-gray-700 hover:bg-red-500/30 disabled:opacity-40 disabled:cursor-not-allowed text-gray-300 rounded-lg transition-colors"
+                      >
+                        ✕
+                      </button>
+                    </div>
+                  ))}
+                </div>
+                <button
+                  type="button"
+                  onClick={addOutcome}
+                  disabled={outcomeLabels.length >= MAX_OUTCOMES}
+                  className="mt-3 px-4 py-2 bg-gray-700 hover:bg-gray-600 disabled:opacity-40 disabled:cursor-not-allowed text-white rounded-lg transition-colors"
+                >
+                  ➕ Add Outcome
+                </button>
+                <p className="text-gray-400 text-sm mt-2">
+                  💡 Bettors pick exactly one outcome. Winners split the whole pool in proportion to their stake.
+                </p>
+              </div>
+            )}
 
             {/* Time Settings Section */}
             <div className="bg-gray-700/30 border border-gray-600 rounded-lg p-6 space-y-4">
@@ -423,6 +718,103 @@ export default function CreateMarketPage() {
                 </p>
               </div>
 
+              {/* Refund Grace Period */}
+              <div>
+                <label className="block text-white font-semibold mb-2">
+                  3️⃣ Refund Grace Period (days) *
+                </label>
+                <input
+                  type="number"
+                  value={refundGraceDays}
+                  onChange={(e) => setRefundGraceDays(e.target.value)}
+                  step="0.5"
+                  min="0"
+                  className="w-full px-4 py-3 bg-gray-700 text-white rounded-lg border border-gray-600 focus:border-blue-500 focus:outline-none"
+                  required
+                />
+                <p className="text-gray-400 text-sm mt-2">
+                  🛟 <strong>Stuck market protection:</strong> If decryption never completes, or the market is not settled
+                  this long after the event deadline, anyone can cancel it and everyone gets their deposit back.
+                </p>
+              </div>
+
+              {/* Creator Fee */}
+              <div>
+                <label className="block text-white font-semibold mb-2">
+                  4️⃣ Creator Fee (%)
+                </label>
+                <input
+                  type="number"
+                  value={creatorFeePercent}
+                  onChange={(e) => setCreatorFeePercent(e.target.value)}
+                  step="0.1"
+                  min="0"
+                  max={maxCreatorFee / 100}
+                  className="w-full px-4 py-3 bg-gray-700 text-white rounded-lg border border-gray-600 focus:border-blue-500 focus:outline-none"
+                />
+                <div className="bg-gray-700/50 rounded-lg p-4 mt-3 space-y-2 text-sm">
+                  <h4 className="text-white font-semibold">💸 Fee Breakdown (taken from the winner pool at settlement)</h4>
+                  <div className="flex justify-between">
+                    <span className="text-gray-300">Protocol fee:</span>
+                    <span className="text-white font-semibold">{protocolFee / 100}%</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-gray-300">Creator fee (paid to you):</span>
+                    <span className="text-white font-semibold">{creatorFeeBps / 100}%</span>
+                  </div>
+                  <div className="flex justify-between border-t border-gray-600 pt-2">
+                    <span className="text-green-400 font-semibold">Winners share:</span>
+                    <span className="text-green-300 font-bold">{(10000 - protocolFee - creatorFeeBps) / 100}% of the pool</span>
+                  </div>
+                  <p className="text-gray-400">Maximum creator fee: {maxCreatorFee / 100}%</p>
+                </div>
+
+                <label className="block text-white font-semibold mt-4 mb-2">
+                  Early-Exit Penalty (%)
+                </label>
+                <input
+                  type="number"
+                  value={exitPenaltyPercent}
+                  onChange={(e) => setExitPenaltyPercent(e.target.value)}
+                  step="1"
+                  min="0"
+                  max={maxExitPenalty / 100}
+                  className="w-full px-4 py-3 bg-gray-700 text-white rounded-lg border border-gray-600 focus:border-blue-500 focus:outline-none"
+                />
+                <p className="text-gray-400 text-sm mt-2">
+                  Kept from a bet that is withdrawn before the commitment deadline and added to the winner pool
+                  (maximum {maxExitPenalty / 100}%).
+                </p>
+              </div>
+
+              {/* Collateral Token */}
+              <div>
+                <label className="block text-white font-semibold mb-2">
+                  5️⃣ Collateral Token (optional)
+                </label>
+                <input
+                  type="text"
+                  value={collateralToken}
+                  onChange={(e) => setCollateralToken(e.target.value.trim())}
+                  placeholder="0x... (leave empty for ETH)"
+                  className="w-full px-4 py-3 bg-gray-700 text-white rounded-lg border border-gray-600 focus:border-blue-500 focus:outline-none font-mono"
+                />
+                <p className="text-gray-400 text-sm mt-2">
+                  🪙 Bets, stakes and payouts use this ERC-20 token (e.g. a stablecoin) instead of ETH.
+                  Tokens with EIP-2612 permit can be deposited without a separate approval.
+                </p>
+                <label className="flex items-center gap-2 mt-3 text-gray-300 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={confidentialCollateral}
+                    onChange={(e) => setIsConfidentialToken(e.target.checked)}
+                    disabled={!collateralToken || !isOracleSettled}
+                  />
+                  🔒 Confidential token (ERC-7984): deposits and payouts are encrypted transfers, so neither winners
+                  nor amounts are revealed. Price and scalar markets only.
+                </label>
+              </div>
+
               {/* Time Duration Display */}
               {commitmentDeadline && eventDeadline && (
                 <div className="bg-blue-500/10 border border-blue-500/30 rounded-lg p-4 mt-4">
@@ -478,10 +870,16 @@ export default function CreateMarketPage() {
               <ul className="text-gray-300 text-sm space-y-1">
                 <li>• Commitment ends at: <span className="text-white font-medium">{formatDateTimeDisplay(commitmentDeadline)}</span></li>
                 <li>• Event resolves at: <span className="text-white font-medium">{formatDateTimeDisplay(eventDeadline)}</span></li>
-                {marketType === 'event' ? (
+                {marketType === 'categorical' && (
+                  <li>• Outcomes: <span className="text-white font-medium">{outcomeLabels.filter((label) => label.trim()).join(' / ') || 'Not set'}</span></li>
+                )}
+                {marketType === 'scalar' && (
+                  <li>• Buckets: <span className="text-white font-medium">{bucketBoundaries.length + 1} price ranges split at {bucketBoundaries.filter((boundary) => boundary).map((boundary) => `$${parseFloat(boundary).toLocaleString()}`).join(' / ') || 'Not set'}</span></li>
+                )}
+                {!isOracleSettled ? (
                   <li>• You will be the market owner and can manually settle the outcome</li>
                 ) : (
-                  <li>• Market will be automatically settled by price oracle</li>
+                  <li>• Market will be automatically settled by price oracle{Number(twapWindowMinutes) > 0 ? `, using the ${twapWindowMinutes}-minute average price before the event deadline` : ' at the event deadline price'}</li>
                 )}
                 <li>• All predictions are encrypted and private during commitment phase</li>
               </ul>
@@ -1,7 +1,7 @@
 import { useState, useEffect, useCallback } from 'react';
 import { Link } from 'react-router-dom';
 import { useMarketList, useMarketInfo } from '../hooks/useMarketFactory';
-import { formatEther } from 'viem';
+import { useCollateral } from '../hooks/useCollateral';
 import { useReadContract } from 'wagmi';
 import { ConnectButton } from '@rainbow-me/rainbowkit';
 import BlindOracleABI from '../BlindOracleABI.json';
@@ -12,6 +12,7 @@ interface MarketCardProps {
 
 function MarketCard({ marketAddress }: MarketCardProps) {
   const { marketInfo } = useMarketInfo(marketAddress as `0x${string}`);
+  const { collateralSymbol, formatCollateral } = useCollateral(marketAddress as `0x${string}`);
 
   // Read market real-time data
   const { data: totalPool } = useReadContract({
@@ -89,7 +90,7 @@ function MarketCard({ marketAddress }: MarketCardProps) {
         <div>
           <p className="text-gray-400 text-sm">Total Pool</p>
           <p className="text-white font-bold text-lg">
-            {totalPool ? `${formatEther(totalPool as bigint)} ETH` : '0 ETH'}
+            {totalPool ? `${formatCollateral(totalPool as bigint)} ${collateralSymbol}` : `0 ${collateralSymbol}`}
           </p>
         </div>
         <div>
@@ -118,6 +119,14 @@ function MarketCard({ marketAddress }: MarketCardProps) {
               <span className="px-2 py-1 bg-purple-500/20 text-purple-400 rounded text-xs font-medium flex items-center gap-1">
                 📝 Event
               </span>
+            ) : Number(marketType) === 2 ? (
+              <span className="px-2 py-1 bg-blue-500/20 text-blue-400 rounded text-xs font-medium flex items-center gap-1">
+                🗳️ Categorical
+              </span>
+            ) : Number(marketType) === 3 ? (
+              <span className="px-2 py-1 bg-teal-500/20 text-teal-400 rounded text-xs font-medium flex items-center gap-1">
+                📊 Scalar
+              </span>
             ) : (
               <span className="px-2 py-1 bg-green-500/20 text-green-400 rounded text-xs font-medium flex items-center gap-1">
                 💰 Price
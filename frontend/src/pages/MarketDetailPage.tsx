@@ -2,13 +2,15 @@ import { useState, useEffect } from 'react';
 import { Link, useParams } from 'react-router-dom';
 import { ConnectButton } from '@rainbow-me/rainbowkit';
 import { useAccount, useWalletClient } from 'wagmi';
-import { formatEther } from 'viem';
 import { useBlindOracle } from '../hooks/useBlindOracle';
-import { useChainlinkPrice, Asset } from '../hooks/useChainlinkPrice';
-import { useRealtimePrice, PriceAsset } from '../hooks/useRealtimePrice';
+import { useOracleName, useOraclePrice, useOracleTwap, useSettlementSource } from '../hooks/useOraclePrice';
+import { useRealtimePrice } from '../hooks/useRealtimePrice';
+import { assetSymbol } from '../hooks/useAssetRegistry';
 import { Toast } from '../components/Toast';
 import type { ToastType } from '../components/Toast';
 import { Countdown } from '../components/Countdown';
+import { VaultPanel } from '../components/VaultPanel';
+import { OutcomePoolBars } from '../components/OutcomePoolBars';
 import { decryptBatch } from '../lib/fheDecrypt';
 import { BrowserProvider } from 'ethers';
 
@@ -18,10 +20,14 @@ const Phase = {
   Aggregating: 1,
   AwaitingDecryption: 2,
   Settled: 3,
+  Cancelled: 4,
 } as const;
 
 type Phase = typeof Phase[keyof typeof Phase];
 
+// Oracle and live market prices further apart than this (in percent) get a warning on price markets
+const PRICE_DIVERGENCE_WARNING_PERCENT = 2;
+
 export default function MarketDetailPage() {
   const { marketAddress } = useParams<{ marketAddress: string }>();
   const { address, isConnected } = useAccount();
@@ -40,7 +46,34 @@ export default function MarketDetailPage() {
     isAggregated,
     hasCommitted,
     hasClaimed,
+    claimRequestId,
+    claimStatus,
+    claimPayout,
+    encryptedPayout,
+    winnerPool,
+    winningStake,
+    totalPaidOut,
+    cancellableAt,
+    hasDeposited,
+    depositedAmount,
+    hasRefunded,
+    arbiter,
+    isArbiter,
+    disputeStatus,
+    challengeBond,
+    totalChallengeBonds,
+    challengerSlashReward,
+    myChallengeBond,
     marketType,
+    outcomeLabels,
+    outcomeTotals,
+    winningOutcome,
+    proposedOutcomeIndex,
+    bucketBoundaries,
+    settlementPrice,
+    settlementSource,
+    twapWindow,
+    isOwner,
     priceMarketInfo,
     settlementInfo,
     isPending,
@@ -49,20 +82,39 @@ export default function MarketDetailPage() {
     error,
     hash,
     submitPrediction,
+    increaseCommitment,
+    revisePrediction,
+    withdrawCommitment,
     aggregateBets,
     requestAggregateDecryption,
-    settleMarket,
     claimRewards,
     depositOwnerStake,
     proposeSettlement,
+    proposeCategoricalSettlement,
     challengeSettlement,
     finalizeSettlement,
+    resolveDispute,
+    claimDisputePayout,
     settlePriceMarket,
+    cancelMarket,
+    claimRefund,
+    protocolFeeBps,
+    creatorFeeBps,
+    exitPenaltyBps,
+    hasPendingWithdrawal,
+    myFeeBalance,
+    withdrawFees,
+    isConfidentialCollateral,
+    collateralSymbol,
+    formatCollateral,
     refetchData,
   } = useBlindOracle(marketAddress as `0x${string}`);
 
   const [prediction, setPrediction] = useState<'YES' | 'NO'>('YES');
+  const [selectedOutcome, setSelectedOutcome] = useState(0);
   const [amount, setAmount] = useState('');
+  const [gasless, setGasless] = useState(false);
+  const [signedReport, setSignedReport] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [lastConfirmedHash, setLastConfirmedHash] = useState<string | null>(null);
   const [pendingAction, setPendingAction] = useState<string | null>(null);
@@ -72,40 +124,100 @@ export default function MarketDetailPage() {
   const [decryptedPrediction, setDecryptedPrediction] = useState<number | null>(null);
   const [decryptedAmount, setDecryptedAmount] = useState<bigint | null>(null);
   const [showDecrypted, setShowDecrypted] = useState(false);
+  // Confidential-collateral payout, decrypted client-side
+  const [decryptedPayout, setDecryptedPayout] = useState<bigint | null>(null);
 
   // Toast state
   const [toast, setToast] = useState<{ message: string; type: ToastType } | null>(null);
 
-  const phaseNames = ['🔒 Blind Commitment', '⚙️ Aggregating', '⏳ Awaiting Decryption', '🏆 Settled'];
+  const phaseNames = ['🔒 Blind Commitment', '⚙️ Aggregating', '⏳ Awaiting Decryption', '🏆 Settled', '🚫 Cancelled'];
 
   // Use contract's actual phase
   const currentPhase = (contractPhase !== undefined ? contractPhase : Phase.BlindCommitment) as Phase;
 
-  // Get Chainlink price (for settlement, backend use)
+  // Categorical markets are owner-resolved like event markets, but with N labelled outcomes
+  const isCategorical = marketType === 2;
+  const isOwnerResolved = marketType === 0 || marketType === 2;
+  // Scalar markets are oracle-settled like price markets, but bet on one of N price buckets
+  const isScalar = marketType === 3;
+  const isPriceBased = marketType === 1 || isScalar;
+  const isMultiOutcome = isCategorical || isScalar;
+
+  // n boundaries define n + 1 buckets: [0, b0), [b0, b1), ..., [b(n-1), ∞)
+  const formatUsd = (price: bigint) => `$${(Number(price) / 1e8).toLocaleString()}`;
+  const boundaries = bucketBoundaries ?? [];
+  const bucketLabels = boundaries.length === 0 ? [] : [
+    `< ${formatUsd(boundaries[0])}`,
+    ...boundaries.slice(1).map((boundary, i) => `${formatUsd(boundaries[i])} – ${formatUsd(boundary)}`),
+    `≥ ${formatUsd(boundaries[boundaries.length - 1])}`,
+  ];
+  const outcomeNames = isCategorical ? outcomeLabels ?? [] : isScalar ? bucketLabels : ['NO', 'YES'];
+  const outcomeName = (index: number) => outcomeNames[index] ?? `Outcome #${index}`;
+  const decryptedPool = (outcomeTotals ?? []).reduce((sum, total) => sum + total, 0n);
+
+  // A market stuck past its grace period (no decryption callback, or never settled) can be cancelled by anyone
+  const canCancel = !!cancellableAt && cancellableAt > 0n && Date.now() >= Number(cancellableAt) * 1000;
+  // The owner's stake and a bond still under dispute are refunded together with the user's own deposits
+  const refundAmount = (depositedAmount ?? 0n)
+    + (isOwner && settlementInfo ? (settlementInfo[4] as bigint) : 0n)
+    + (disputeStatus === 1 ? myChallengeBond ?? 0n : 0n);
+  // Confidential-collateral deposits are encrypted, so their refund is only known to the depositor
+  const canClaimRefund = isConfidentialCollateral ? !!hasDeposited : refundAmount > 0n;
+
+  // Dispute status: 0 = None, 1 = Disputed, 2 = Upheld, 3 = Rejected
+  const isDisputed = disputeStatus === 1;
+  const disputeStatusNames = ['No challenge', '⚖️ Disputed - awaiting arbiter', '✅ Challenge upheld', '❌ Challenge rejected'];
+  const formatTime = (timestamp: bigint) => new Date(Number(timestamp) * 1000).toLocaleString();
+
+  // Get the market's oracle price (ChainlinkPriceOracle or any other IPriceOracle, used for settlement)
   // priceMarketInfo structure: [marketType, priceOracle, targetAsset, targetPrice]
-  const targetAsset = priceMarketInfo ? (priceMarketInfo as any)[2] : undefined;
+  const targetAsset = priceMarketInfo ? ((priceMarketInfo as any)[2] as `0x${string}`) : undefined;
+  const targetSymbol = targetAsset ? assetSymbol(targetAsset) : undefined;
   const oracleAddress = priceMarketInfo ? (priceMarketInfo as any)[1] : undefined; // Index 1 is priceOracle
 
   const {
-    price: chainlinkPrice,
-    isLoading: isChainlinkLoading,
-  } = useChainlinkPrice(
-    marketType === 1 && oracleAddress ? oracleAddress : undefined,
-    targetAsset !== undefined ? targetAsset : Asset.ETH
+    price: oraclePrice,
+    isLoading: isOracleLoading,
+  } = useOraclePrice(
+    isPriceBased && oracleAddress ? oracleAddress : undefined,
+    targetAsset
+  );
+
+  // Which kind of oracle the market settles on (Chainlink, updater or fallback), to describe it accurately
+  const { kind: oracleKind, name: oracleName } = useOracleName(
+    isPriceBased && oracleAddress ? oracleAddress : undefined,
+    targetAsset
+  );
+
+  // Time-weighted average over the window ending at the event deadline, which is what the market settles on
+  const {
+    price: twapPrice,
+    isLoading: isTwapLoading,
+  } = useOracleTwap(
+    isPriceBased && !isSettled && oracleAddress ? oracleAddress : undefined,
+    targetAsset,
+    eventDeadline,
+    twapWindow
+  );
+  // Which oracle the settlement price came from (a fallback oracle may have used a later source)
+  const { label: settlementSourceLabel } = useSettlementSource(
+    isPriceBased && isSettled && oracleAddress ? oracleAddress : undefined,
+    targetAsset,
+    settlementSource
   );
 
+  const assetIcons: { [symbol: string]: string } = { ETH: '🔷', BTC: '🟠', SOL: '🟣' };
+  const formatAsset = (symbol: string | undefined) => (symbol ? `${assetIcons[symbol] ?? '🪙'} ${symbol}` : '-');
+  const formatTwapWindow = (window: bigint) =>
+    window === 0n ? 'Spot price at deadline' : `${(Number(window) / 60).toLocaleString()} min before deadline`;
+
   // Get realtime price (for display)
-  const assetMap: { [key: number]: PriceAsset } = {
-    0: PriceAsset.ETH,
-    1: PriceAsset.BTC,
-    2: PriceAsset.SOL,
-  };
   const {
     price: realtimePrice,
     timestamp: realtimeTimestamp,
     isLoading: isRealtimeLoading,
   } = useRealtimePrice(
-    marketType === 1 && targetAsset !== undefined ? assetMap[targetAsset] : PriceAsset.ETH
+    isPriceBased ? targetSymbol : undefined
   );
 
   // Price change animation state
@@ -146,6 +258,11 @@ export default function MarketDetailPage() {
     }
   }, [realtimePrice, previousPrice]);
 
+  // How far the oracle price is from the live market price, in percent of the market price
+  const priceDivergence = oraclePrice !== undefined && displayPrice !== undefined && displayPrice > 0
+    ? (Math.abs(oraclePrice - displayPrice) / displayPrice) * 100
+    : undefined;
+
   const showToast = (message: string, type: ToastType) => {
     setToast({ message, type });
   };
@@ -160,7 +277,14 @@ export default function MarketDetailPage() {
     try {
       setIsSubmitting(true);
       setPendingAction('submitPrediction');
-      await submitPrediction(prediction === 'YES', amount);
+      await submitPrediction(isMultiOutcome ? selectedOutcome : prediction === 'YES' ? 1 : 0, amount, { gasless });
+
+      // A relayed commitment is not a wallet transaction, so confirm it here
+      if (gasless) {
+        showToast('🎉 Prediction relayed - the relayer paid the gas', 'success');
+        setAmount('');
+        setPendingAction(null);
+      }
     } catch (err) {
       console.error('Submission failed:', err);
       showToast('Submission failed: ' + (err as Error).message, 'error');
@@ -170,6 +294,59 @@ export default function MarketDetailPage() {
     }
   };
 
+  // Ethers signer for EIP-712 decryption requests
+  const getSigner = () => new BrowserProvider(walletClient as any).getSigner();
+
+  // Handle top-up of an existing position (same side)
+  const handleIncreaseCommitment = async () => {
+    if (!amount || parseFloat(amount) <= 0) {
+      showToast('Please enter a valid amount', 'error');
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      setPendingAction('increaseCommitment');
+      await increaseCommitment(amount);
+    } catch (err) {
+      console.error('Top-up failed:', err);
+      showToast('Top-up failed: ' + (err as Error).message, 'error');
+      setPendingAction(null);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // Handle moving the whole position to another side
+  const handleRevisePrediction = async () => {
+    try {
+      setIsSubmitting(true);
+      setPendingAction('revisePrediction');
+      await revisePrediction(isMultiOutcome ? selectedOutcome : prediction === 'YES' ? 1 : 0);
+    } catch (err) {
+      console.error('Revision failed:', err);
+      showToast('Revision failed: ' + (err as Error).message, 'error');
+      setPendingAction(null);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // Handle backing out of the bet before the deadline
+  const handleWithdrawCommitment = async () => {
+    try {
+      setIsSubmitting(true);
+      setPendingAction('withdrawCommitment');
+      await withdrawCommitment();
+    } catch (err) {
+      console.error('Withdrawal failed:', err);
+      showToast('Withdrawal failed: ' + (err as Error).message, 'error');
+      setPendingAction(null);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
   // Handle decrypt my prediction
   const handleDecryptMyPrediction = async () => {
     if (!isConnected || !address || !walletClient) {
@@ -186,9 +363,7 @@ export default function MarketDetailPage() {
       setIsDecrypting(true);
       showToast('🔓 Requesting decryption... Please sign the message', 'info');
 
-      // Create ethers signer
-      const provider = new BrowserProvider(walletClient as any);
-      const signer = await provider.getSigner();
+      const signer = await getSigner();
 
       // Use viem's publicClient to call contract
       const { createPublicClient, http } = await import('viem');
@@ -237,16 +412,49 @@ export default function MarketDetailPage() {
     }
   };
 
+  // Handle decrypt my confidential payout (only the claimant can decrypt it)
+  const handleDecryptPayout = async () => {
+    if (!address || !walletClient || !encryptedPayout) {
+      showToast('Please connect your wallet first', 'error');
+      return;
+    }
+
+    try {
+      setIsDecrypting(true);
+      showToast('🔓 Requesting decryption... Please sign the message', 'info');
+
+      const signer = await getSigner();
+      const decrypted = await decryptBatch([encryptedPayout], marketAddress!, address, signer);
+
+      setDecryptedPayout(BigInt(decrypted[encryptedPayout]));
+      showToast('✅ Decryption successful!', 'success');
+    } catch (err) {
+      console.error('Decryption failed:', err);
+      showToast('Decryption failed: ' + (err as Error).message, 'error');
+    } finally {
+      setIsDecrypting(false);
+    }
+  };
+
   // Listen for transaction confirmation
   useEffect(() => {
     if (isConfirmed && hash && hash !== lastConfirmedHash) {
       // Show appropriate success message based on pending action
       const successMessages: Record<string, string> = {
         'submitPrediction': '🎉 Prediction submitted successfully!',
+        'increaseCommitment': '➕ Position topped up successfully!',
+        'revisePrediction': '🔄 Prediction revised successfully!',
+        'withdrawCommitment': '🚪 Bet withdrawn! Your refund is paid once the amount is decrypted',
         'aggregateBets': '✅ Aggregation completed successfully!',
         'requestDecryption': '🔓 Decryption request submitted successfully!',
         'settleMarket': '🏆 Market settled successfully!',
-        'claimRewards': '💰 Rewards claimed successfully!',
+        'claimRewards': '📨 Claim requested - your payout arrives once the oracle decrypts your bet',
+        'cancelMarket': '🚫 Market cancelled - refunds are open',
+        'claimRefund': '💸 Refund claimed successfully!',
+        'challengeSettlement': '⚖️ Challenge submitted - finalization is paused until the arbiter rules',
+        'resolveDispute': '⚖️ Dispute resolved - market settled',
+        'claimDisputePayout': '💰 Dispute payout claimed successfully!',
+        'withdrawFees': '💸 Fees withdrawn successfully!',
       };
 
       const message = pendingAction && successMessages[pendingAction]
@@ -311,15 +519,25 @@ export default function MarketDetailPage() {
               <span className={`px-3 py-1 rounded-full text-sm font-semibold ${
                 marketType === 0
                   ? 'bg-purple-500/20 text-purple-400 border border-purple-500/50'
+                  : isCategorical
+                  ? 'bg-blue-500/20 text-blue-400 border border-blue-500/50'
+                  : isScalar
+                  ? 'bg-teal-500/20 text-teal-400 border border-teal-500/50'
                   : 'bg-green-500/20 text-green-400 border border-green-500/50'
               }`}>
-                {marketType === 0 ? '📝 Event Market' : '💰 Price Market'}
+                {marketType === 0
+                  ? '📝 Event Market'
+                  : isCategorical
+                  ? '🗳️ Categorical Market'
+                  : isScalar
+                  ? '📊 Scalar Market'
+                  : '💰 Price Market'}
               </span>
             )}
           </div>
 
           {/* Risk Warning for Event Markets */}
-          {marketType === 0 && (
+          {isOwnerResolved && (
             <div className="bg-yellow-500/10 border border-yellow-500/30 rounded-lg p-4 mb-6">
               <div className="flex items-start gap-3">
                 <span className="text-2xl">⚠️</span>
@@ -328,7 +546,8 @@ export default function MarketDetailPage() {
                   <p className="text-yellow-300/80 text-sm">
                     This market will be manually settled by the creator. The creator cannot participate in this market
                     and must deposit a 10% stake. After settlement is proposed, there is a 24-hour challenge period
-                    where participants can dispute the outcome.
+                    where participants can dispute the outcome by posting a bond. An independent arbiter then rules, slashing
+                    the creator's stake if the challenge is upheld.
                   </p>
                 </div>
               </div>
@@ -336,27 +555,27 @@ export default function MarketDetailPage() {
           )}
 
           {/* Price Market Info */}
-          {marketType === 1 && priceMarketInfo && (
+          {isPriceBased && priceMarketInfo && (
             <div className="bg-gradient-to-br from-green-500/10 to-blue-500/10 border border-green-500/30 rounded-xl p-5 mb-6 shadow-lg">
               <div className="flex items-start gap-3">
-                <span className="text-3xl">💰</span>
+                <span className="text-3xl">{isScalar ? '📊' : '💰'}</span>
                 <div className="flex-1">
-                  <p className="text-green-400 font-semibold mb-3 text-lg">Price Oracle Market</p>
+                  <p className="text-green-400 font-semibold mb-3 text-lg">{isScalar ? 'Price Range Market' : 'Price Oracle Market'}</p>
 
                   <div className="grid grid-cols-2 gap-4 mb-4">
                     {/* Target Asset */}
                     <div className="bg-gray-800/50 rounded-lg p-3">
                       <span className="text-gray-400 text-xs block mb-1">Target Asset</span>
                       <span className="text-white text-lg font-bold">
-                        {priceMarketInfo[2] === 0 ? '🔷 ETH' : priceMarketInfo[2] === 1 ? '🟠 BTC' : '🟣 SOL'}
+                        {formatAsset(targetSymbol)}
                       </span>
                     </div>
 
-                    {/* Target Price */}
+                    {/* Target Price (Scalar: number of buckets) */}
                     <div className="bg-gray-800/50 rounded-lg p-3">
-                      <span className="text-gray-400 text-xs block mb-1">Target Price</span>
+                      <span className="text-gray-400 text-xs block mb-1">{isScalar ? 'Price Buckets' : 'Target Price'}</span>
                       <span className="text-white text-lg font-bold">
-                        ${(Number(priceMarketInfo[3]) / 1e8).toLocaleString()}
+                        {isScalar ? `${bucketLabels.length} ranges` : `$${(Number(priceMarketInfo[3]) / 1e8).toLocaleString()}`}
                       </span>
                     </div>
                   </div>
@@ -440,10 +659,22 @@ export default function MarketDetailPage() {
                     </div>
                   </div>
 
+                  {/* Oracle price far from the live price: the feed may be lagging or moving abnormally */}
+                  {priceDivergence !== undefined && priceDivergence > PRICE_DIVERGENCE_WARNING_PERCENT && (
+                    <div className="bg-yellow-500/10 border border-yellow-500/30 rounded-lg p-3 mb-3">
+                      <p className="text-yellow-300 text-xs leading-relaxed">
+                        <span className="font-semibold">⚠️ Price Divergence:</span> The oracle price ($
+                        {oraclePrice?.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}) is{' '}
+                        {priceDivergence.toFixed(1)}% away from the live market price. The oracle may be lagging, or its
+                        circuit breaker may hold back an abnormal price until an admin confirms it, which delays settlement.
+                      </p>
+                    </div>
+                  )}
+
                   {/* 说明文字 */}
                   <div className="bg-blue-500/10 border border-blue-500/30 rounded-lg p-3">
                     <p className="text-blue-300 text-xs leading-relaxed">
-                      <span className="font-semibold">🤖 Automatic Settlement:</span> This market will be settled automatically using Chainlink price oracle at the deadline. The settlement price is fetched from the blockchain, ensuring transparency and fairness.
+                      <span className="font-semibold">🤖 Automatic Settlement:</span> This market will be settled automatically using its {oracleName} at the deadline. The settlement price is fetched from the blockchain, ensuring transparency and fairness.
                     </p>
                   </div>
                 </div>
@@ -454,9 +685,9 @@ export default function MarketDetailPage() {
           {/* Stats Grid */}
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-6">
             <div className="bg-gray-700/50 rounded-lg p-4">
-              <p className="text-gray-400 text-sm mb-1">Total Pool</p>
+              <p className="text-gray-400 text-sm mb-1">Total Value Locked</p>
               <p className="text-2xl font-bold text-white">
-                {totalPool ? formatEther(totalPool as bigint) : '0'} ETH
+                {totalPool ? formatCollateral(totalPool as bigint) : '0'} {collateralSymbol}
               </p>
             </div>
             <div className="bg-gray-700/50 rounded-lg p-4">
@@ -472,7 +703,7 @@ export default function MarketDetailPage() {
                 <Countdown deadline={commitmentDeadline} label="Commitment Ends In" />
               </div>
             )}
-            {eventDeadline && currentPhase !== Phase.BlindCommitment && currentPhase !== Phase.Settled && (
+            {eventDeadline && currentPhase !== Phase.BlindCommitment && currentPhase !== Phase.Settled && currentPhase !== Phase.Cancelled && (
               <div className="bg-gray-700/50 rounded-lg p-4">
                 <Countdown deadline={eventDeadline} label="Event Deadline" />
               </div>
@@ -485,6 +716,48 @@ export default function MarketDetailPage() {
           </div>
         </div>
 
+        {/* Stuck Market Banner */}
+        {canCancel && (
+          <div className="bg-red-500/10 border border-red-500/30 rounded-lg p-6 mb-8">
+            <div className="flex items-start gap-3">
+              <span className="text-2xl">🚨</span>
+              <div className="flex-1">
+                <p className="text-red-400 font-semibold mb-1">This market is stuck</p>
+                <p className="text-red-300/80 text-sm mb-4">
+                  {currentPhase === Phase.AwaitingDecryption
+                    ? 'The Gateway never delivered the decrypted totals.'
+                    : currentPhase === Phase.BlindCommitment
+                      ? 'A commitment withdrawal never got its decryption callback, so bets cannot be aggregated.'
+                      : 'The market was never settled after the event deadline (e.g. the oracle price is stale).'}
+                  {' '}The grace period is over, so anyone can cancel it and every participant can claim back their deposit.
+                </p>
+                <button
+                  onClick={async () => {
+                    try {
+                      setPendingAction('cancelMarket');
+                      await cancelMarket();
+                    } catch (err) {
+                      showToast('Failed to cancel: ' + (err as Error).message, 'error');
+                      setPendingAction(null);
+                    }
+                  }}
+                  disabled={isPending || isConfirming}
+                  className="px-6 py-3 bg-red-500 hover:bg-red-600 disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-bold rounded-lg transition-colors"
+                >
+                  {isPending || isConfirming ? '⏳ Cancelling...' : '🚫 Cancel Market & Open Refunds'}
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Confidential Vault */}
+        {isConnected && marketAddress && currentPhase !== Phase.Cancelled && (
+          <div className="mb-8">
+            <VaultPanel marketAddress={marketAddress as `0x${string}`} onToast={showToast} />
+          </div>
+        )}
+
         {/* Prediction Form */}
         {currentPhase === Phase.BlindCommitment && (
           <div className="bg-gray-800 rounded-lg p-8 border border-gray-700">
@@ -539,7 +812,7 @@ export default function MarketDetailPage() {
                 )}
 
                 {/* Price Market: Semi-Auto Notice */}
-                {marketType === 1 ? (
+                {isPriceBased ? (
                   <>
                     <div className="bg-green-500/10 border border-green-500/30 rounded-lg p-6 mb-6">
                       <div className="flex items-start gap-3">
@@ -548,7 +821,7 @@ export default function MarketDetailPage() {
                           <h4 className="text-lg font-bold text-green-400 mb-2">Price Market - Automated Settlement</h4>
                           <p className="text-gray-300 text-sm mb-3">
                             This is a <span className="font-semibold text-green-400">Price Market</span>.
-                            The final settlement will be <span className="font-semibold text-green-400">automatically determined</span> by Chainlink price oracle.
+                            The final settlement will be <span className="font-semibold text-green-400">automatically determined</span> by its {oracleName}.
                           </p>
                           <p className="text-gray-300 text-sm mb-3">
                             However, someone needs to trigger the aggregation process to move to the next phase:
@@ -564,7 +837,7 @@ export default function MarketDetailPage() {
                             </li>
                             <li className="flex items-start gap-2">
                               <span className="text-green-400 mt-0.5">✓</span>
-                              <span>Settlement will use Chainlink oracle (automatic)</span>
+                              <span>Settlement will use the {oracleName} (automatic)</span>
                             </li>
                           </ul>
                         </div>
@@ -647,14 +920,18 @@ export default function MarketDetailPage() {
                         <div className="grid grid-cols-2 gap-4">
                           <div className="bg-gray-800 rounded-lg p-4">
                             <p className="text-gray-400 text-sm mb-1">Prediction</p>
-                            <p className={`text-2xl font-bold ${decryptedPrediction === 1 ? 'text-green-400' : 'text-red-400'}`}>
-                              {decryptedPrediction === 1 ? '✅ YES' : '❌ NO'}
-                            </p>
+                            {isMultiOutcome ? (
+                              <p className="text-2xl font-bold text-blue-400">{outcomeName(decryptedPrediction)}</p>
+                            ) : (
+                              <p className={`text-2xl font-bold ${decryptedPrediction === 1 ? 'text-green-400' : 'text-red-400'}`}>
+                                {decryptedPrediction === 1 ? '✅ YES' : '❌ NO'}
+                              </p>
+                            )}
                           </div>
                           <div className="bg-gray-800 rounded-lg p-4">
                             <p className="text-gray-400 text-sm mb-1">Amount</p>
                             <p className="text-2xl font-bold text-blue-400">
-                              {formatEther(decryptedAmount)} ETH
+                              {formatCollateral(decryptedAmount)} {collateralSymbol}
                             </p>
                           </div>
                         </div>
@@ -663,12 +940,117 @@ export default function MarketDetailPage() {
                         </p>
                       </div>
                     )}
+
+                    {/* Modify Position (until the commitment deadline) */}
+                    <div className="bg-gray-700/50 border border-gray-600 rounded-lg p-6 space-y-4">
+                      <h4 className="text-lg font-bold text-white">✏️ Modify Position</h4>
+                      <p className="text-gray-400 text-sm">
+                        Until the commitment deadline you can add to your bet or move it to another side.
+                        Both stay encrypted: nobody can tell whether you topped up or changed your mind.
+                      </p>
+
+                      <div>
+                        <label className="block text-gray-300 font-semibold mb-2">
+                          Add to Position ({collateralSymbol}, debited from your vault)
+                        </label>
+                        <div className="flex gap-3">
+                          <input
+                            type="number"
+                            value={amount}
+                            onChange={(e) => setAmount(e.target.value)}
+                            placeholder="0.01"
+                            step="0.01"
+                            min="0"
+                            className="flex-1 px-4 py-3 bg-gray-700 text-white rounded-lg border border-gray-600 focus:border-blue-500 focus:outline-none"
+                          />
+                          <button
+                            onClick={handleIncreaseCommitment}
+                            disabled={!isConnected || isSubmitting || isPending || isConfirming}
+                            className="px-6 py-3 bg-blue-500 hover:bg-blue-600 disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-semibold rounded-lg transition-colors"
+                          >
+                            ➕ Add
+                          </button>
+                        </div>
+                      </div>
+
+                      <div>
+                        <label className="block text-gray-300 font-semibold mb-2">Change Side</label>
+                        <div className="flex gap-3">
+                          {isMultiOutcome ? (
+                            <select
+                              value={selectedOutcome}
+                              onChange={(e) => setSelectedOutcome(Number(e.target.value))}
+                              className="flex-1 px-4 py-3 bg-gray-700 text-white rounded-lg border border-gray-600 focus:border-blue-500 focus:outline-none"
+                            >
+                              {outcomeNames.map((label, index) => (
+                                <option key={index} value={index}>{label}</option>
+                              ))}
+                            </select>
+                          ) : (
+                            <select
+                              value={prediction}
+                              onChange={(e) => setPrediction(e.target.value as 'YES' | 'NO')}
+                              className="flex-1 px-4 py-3 bg-gray-700 text-white rounded-lg border border-gray-600 focus:border-blue-500 focus:outline-none"
+                            >
+                              <option value="YES">✅ YES</option>
+                              <option value="NO">❌ NO</option>
+                            </select>
+                          )}
+                          <button
+                            onClick={handleRevisePrediction}
+                            disabled={!isConnected || isSubmitting || isPending || isConfirming}
+                            className="px-6 py-3 bg-purple-500 hover:bg-purple-600 disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-semibold rounded-lg transition-colors"
+                          >
+                            🔄 Move Bet
+                          </button>
+                        </div>
+                      </div>
+
+                      <div className="border-t border-gray-600 pt-4">
+                        <p className="text-gray-400 text-sm mb-3">
+                          Changed your mind completely? Withdraw your bet: it is decrypted and refunded to your wallet,
+                          minus a {Number(exitPenaltyBps ?? 0) / 100}% early-exit penalty that goes to the winners.
+                        </p>
+                        <button
+                          onClick={handleWithdrawCommitment}
+                          disabled={!isConnected || isSubmitting || isPending || isConfirming || hasPendingWithdrawal}
+                          className="w-full px-6 py-3 bg-red-500/80 hover:bg-red-600 disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-semibold rounded-lg transition-colors"
+                        >
+                          🚪 Withdraw My Bet
+                        </button>
+                      </div>
+                    </div>
                   </div>
                 ) : (
                   <>
+                    {hasPendingWithdrawal && (
+                      <div className="bg-yellow-500/10 border border-yellow-500 rounded-lg p-4 mb-6">
+                        <p className="text-yellow-300 text-sm">
+                          ⏳ Withdrawal pending: your refund is paid as soon as the decryption callback arrives.
+                        </p>
+                      </div>
+                    )}
+
                     {/* Prediction Selection */}
                     <div className="mb-6">
                       <label className="block text-gray-300 font-semibold mb-3">Your Prediction</label>
+                      {isMultiOutcome ? (
+                        <div className="grid grid-cols-2 gap-4">
+                          {outcomeNames.map((label, index) => (
+                            <button
+                              key={index}
+                              onClick={() => setSelectedOutcome(index)}
+                              className={`py-4 px-6 rounded-lg font-bold text-lg transition-all ${
+                                selectedOutcome === index
+                                  ? 'bg-blue-500 text-white shadow-lg shadow-blue-500/50'
+                                  : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                              }`}
+                            >
+                              {label}
+                            </button>
+                          ))}
+                        </div>
+                      ) : (
                       <div className="grid grid-cols-2 gap-4">
                         <button
                           onClick={() => setPrediction('YES')}
@@ -691,11 +1073,12 @@ export default function MarketDetailPage() {
                           ❌ NO
                         </button>
                       </div>
+                      )}
                     </div>
 
                     {/* Amount Input */}
                     <div className="mb-6">
-                      <label className="block text-gray-300 font-semibold mb-3">Bet Amount (ETH)</label>
+                      <label className="block text-gray-300 font-semibold mb-3">Bet Amount ({collateralSymbol}, debited from your vault)</label>
                       <input
                         type="number"
                         value={amount}
@@ -707,11 +1090,26 @@ export default function MarketDetailPage() {
                       />
                     </div>
 
+                    {/* Gasless Option */}
+                    <label className="flex items-center gap-3 mb-6 text-gray-300 text-sm cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={gasless}
+                        onChange={(e) => setGasless(e.target.checked)}
+                        className="w-4 h-4"
+                      />
+                      <span>
+                        ⛽ <strong>Gasless:</strong> sign instead of sending a transaction. A relayer pays the gas
+                        and takes its fee from your vault deposit.
+                      </span>
+                    </label>
+
                     {/* Privacy Notice */}
                     <div className="bg-blue-500/10 border border-blue-500/30 rounded-lg p-4 mb-6">
                       <p className="text-blue-400 text-sm">
                         🔒 <strong>Privacy Protected:</strong> Your prediction and amount are encrypted using FHE.
-                        No one can see your choice until the commitment phase ends.
+                        No one can see your choice until the commitment phase ends. Bets larger than your vault
+                        balance are recorded as 0.
                       </p>
                     </div>
 
@@ -790,7 +1188,7 @@ export default function MarketDetailPage() {
             )}
 
             {/* Price Market: Semi-Auto Processing */}
-            {marketType === 1 ? (
+            {isPriceBased ? (
               <>
                 <div className="bg-green-500/10 border border-green-500/30 rounded-lg p-6 mb-6">
                   <div className="flex items-start gap-3">
@@ -815,7 +1213,7 @@ export default function MarketDetailPage() {
                         </div>
                         <div className="flex items-center gap-2">
                           <span className="text-green-400">✓</span>
-                          <span className="text-gray-300">Settlement will use Chainlink oracle (automatic)</span>
+                          <span className="text-gray-300">Settlement will use the {oracleName} (automatic)</span>
                         </div>
                       </div>
                     </div>
@@ -922,20 +1320,25 @@ export default function MarketDetailPage() {
               <div className="flex items-center justify-center py-4">
                 <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-purple-400"></div>
               </div>
+              {cancellableAt !== undefined && cancellableAt > 0n && !canCancel && (
+                <div className="mt-4 pt-4 border-t border-purple-500/30">
+                  <Countdown deadline={cancellableAt} label="If the Gateway never responds, refunds open in" />
+                </div>
+              )}
             </div>
 
-            {totalYesAmount !== undefined && totalNoAmount !== undefined && (
+            {!isMultiOutcome && totalYesAmount !== undefined && totalNoAmount !== undefined && (
               <div className="grid grid-cols-2 gap-4">
                 <div className="bg-green-500/10 border border-green-500/30 rounded-lg p-4">
                   <p className="text-green-400 text-sm mb-1">Total YES</p>
                   <p className="text-2xl font-bold text-white">
-                    {formatEther(totalYesAmount as bigint)} ETH
+                    {formatCollateral(totalYesAmount as bigint)} {collateralSymbol}
                   </p>
                 </div>
                 <div className="bg-red-500/10 border border-red-500/30 rounded-lg p-4">
                   <p className="text-red-400 text-sm mb-1">Total NO</p>
                   <p className="text-2xl font-bold text-white">
-                    {formatEther(totalNoAmount as bigint)} ETH
+                    {formatCollateral(totalNoAmount as bigint)} {collateralSymbol}
                   </p>
                 </div>
               </div>
@@ -949,54 +1352,68 @@ export default function MarketDetailPage() {
             <h3 className="text-xl font-bold text-white mb-6">🏆 Market Settled</h3>
 
             {/* Results */}
+            {isMultiOutcome ? (
+              <div className="bg-gray-700/50 rounded-lg p-4 mb-6">
+                {isScalar && <h4 className="text-white font-semibold mb-3">📊 Pool by Price Bucket</h4>}
+                <OutcomePoolBars
+                  labels={outcomeNames}
+                  totals={outcomeTotals ?? []}
+                  formatAmount={(amount) => `${formatCollateral(amount)} ${collateralSymbol}`}
+                  winningOutcome={isSettled ? winningOutcome : undefined}
+                />
+              </div>
+            ) : (
             <div className="grid grid-cols-2 gap-4 mb-6">
               <div className="bg-green-500/10 border border-green-500/30 rounded-lg p-4">
                 <p className="text-green-400 text-sm mb-1">Total YES</p>
                 <p className="text-2xl font-bold text-white">
-                  {totalYesAmount ? formatEther(totalYesAmount as bigint) : '0'} ETH
+                  {totalYesAmount ? formatCollateral(totalYesAmount as bigint) : '0'} {collateralSymbol}
                 </p>
               </div>
               <div className="bg-red-500/10 border border-red-500/30 rounded-lg p-4">
                 <p className="text-red-400 text-sm mb-1">Total NO</p>
                 <p className="text-2xl font-bold text-white">
-                  {totalNoAmount ? formatEther(totalNoAmount as bigint) : '0'} ETH
+                  {totalNoAmount ? formatCollateral(totalNoAmount as bigint) : '0'} {collateralSymbol}
                 </p>
               </div>
             </div>
+            )}
 
             {/* Price Market Settled - Show Final Result */}
-            {marketType === 1 && isSettled && priceMarketInfo && (
+            {isPriceBased && isSettled && priceMarketInfo && (
               <div className="bg-green-500/10 border border-green-500/30 rounded-lg p-6 mb-6">
                 <h4 className="text-lg font-bold text-green-400 mb-3">🤖 Automatic Price Settlement</h4>
                 <p className="text-gray-300 text-sm mb-4">
-                  This market was automatically settled using Chainlink price oracle at the event deadline.
+                  This market was automatically settled on the oracle's time-weighted average price before the event deadline.
                 </p>
                 <div className="bg-gray-700/50 rounded-lg p-4">
                   <div className="grid grid-cols-2 gap-4 text-sm mb-3">
                     <div>
                       <span className="text-gray-400">Target Asset:</span>
                       <span className="text-white ml-2 font-semibold">
-                        {priceMarketInfo[2] === 0 ? '🔷 ETH' : priceMarketInfo[2] === 1 ? '🟠 BTC' : '🟣 SOL'}
+                        {formatAsset(targetSymbol)}
                       </span>
                     </div>
                     <div>
-                      <span className="text-gray-400">Target Price:</span>
+                      <span className="text-gray-400">{isScalar ? 'Price Buckets:' : 'Target Price:'}</span>
                       <span className="text-white ml-2 font-semibold">
-                        ${(Number(priceMarketInfo[3]) / 1e8).toLocaleString()}
+                        {isScalar ? bucketLabels.length : `$${(Number(priceMarketInfo[3]) / 1e8).toLocaleString()}`}
                       </span>
                     </div>
+                    {twapWindow !== undefined && (
+                      <div className="col-span-2">
+                        <span className="text-gray-400">TWAP Window:</span>
+                        <span className="text-white ml-2 font-semibold">{formatTwapWindow(twapWindow)}</span>
+                      </div>
+                    )}
                   </div>
 
                   {/* 结算价格（固定值） */}
                   <div className="pt-3 border-t border-gray-600">
                     <div className="flex items-center justify-between">
-                      <span className="text-gray-400 text-sm">Settlement Price:</span>
-                      {isChainlinkLoading ? (
-                        <span className="text-gray-500 text-xs">Loading...</span>
-                      ) : chainlinkPrice !== undefined ? (
-                        <span className="text-green-400 font-bold text-2xl">
-                          ${chainlinkPrice.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
-                        </span>
+                      <span className="text-gray-400 text-sm">Settlement Price (TWAP):</span>
+                      {settlementPrice !== undefined ? (
+                        <span className="text-green-400 font-bold text-2xl">{formatUsd(settlementPrice)}</span>
                       ) : (
                         <span className="text-gray-500 text-xs">N/A</span>
                       )}
@@ -1004,18 +1421,34 @@ export default function MarketDetailPage() {
                     <p className="text-gray-500 text-xs mt-2 text-right">
                       {eventDeadline && new Date(Number(eventDeadline) * 1000).toLocaleString()}
                     </p>
+                    {settlementSourceLabel && settlementSource && (
+                      <p className="text-gray-400 text-xs mt-1 text-right">
+                        Source: <span className="text-white font-semibold">{settlementSourceLabel}</span>{' '}
+                        <span className="font-mono text-gray-500">
+                          ({settlementSource.slice(0, 6)}...{settlementSource.slice(-4)})
+                        </span>
+                      </p>
+                    )}
                   </div>
 
                   {/* 结果 */}
                   <div className="mt-4 pt-4 border-t border-gray-600">
                     <div className="flex items-center justify-center gap-2">
                       <span className="text-gray-400">Result:</span>
-                      <span className={`font-bold text-lg ${finalOutcome ? 'text-green-400' : 'text-red-400'}`}>
-                        {finalOutcome ? '✅ YES Won' : '❌ NO Won'}
-                      </span>
-                      <span className="text-gray-500 text-sm">
-                        ({finalOutcome ? 'Price ≥ Target' : 'Price < Target'})
-                      </span>
+                      {isScalar ? (
+                        <span className="font-bold text-lg text-green-400">
+                          🏆 {winningOutcome !== undefined ? outcomeName(winningOutcome) : '...'} Won
+                        </span>
+                      ) : (
+                        <>
+                          <span className={`font-bold text-lg ${finalOutcome ? 'text-green-400' : 'text-red-400'}`}>
+                            {finalOutcome ? '✅ YES Won' : '❌ NO Won'}
+                          </span>
+                          <span className="text-gray-500 text-sm">
+                            ({finalOutcome ? 'Price ≥ Target' : 'Price < Target'})
+                          </span>
+                        </>
+                      )}
                     </div>
                   </div>
                 </div>
@@ -1023,14 +1456,16 @@ export default function MarketDetailPage() {
             )}
 
             {/* Price Market Auto Settlement */}
-            {marketType === 1 && !isSettled && priceMarketInfo && (
+            {isPriceBased && !isSettled && priceMarketInfo && (
               <div className="bg-green-500/10 border border-green-500/30 rounded-lg p-6 mb-6">
                 <h4 className="text-lg font-bold text-green-400 mb-3">🤖 Automatic Price Settlement</h4>
                 <p className="text-gray-300 text-sm mb-4">
-                  This market will be automatically settled using Chainlink price oracle.
+                  This market will be automatically settled on its {oracleName}'s time-weighted average price (TWAP) over the window before the event deadline.
+                  {oracleKind === 'fallback' && ' The fallback oracle settles on the first of its sources that can price the window.'}
+                  {oracleKind === 'updater' && ' Its prices are pushed by the oracle\'s updaters, or brought in a report signed by its signers.'}
                   <span className="block mt-2 text-blue-300">
                     ℹ️ <strong>Why manual trigger?</strong> Smart contracts cannot execute themselves on the blockchain.
-                    Anyone can trigger the settlement after the deadline - the result is determined by Chainlink, not the person who triggers it.
+                    Anyone can trigger the settlement after the deadline - the result is determined by the {oracleName}, not the person who triggers it.
                   </span>
                 </p>
                 <div className="bg-gray-700/50 rounded-lg p-4 mb-4">
@@ -1038,15 +1473,21 @@ export default function MarketDetailPage() {
                     <div>
                       <span className="text-gray-400">Target Asset:</span>
                       <span className="text-white ml-2 font-semibold">
-                        {priceMarketInfo[2] === 0 ? '🔷 ETH' : priceMarketInfo[2] === 1 ? '🟠 BTC' : '🟣 SOL'}
+                        {formatAsset(targetSymbol)}
                       </span>
                     </div>
                     <div>
-                      <span className="text-gray-400">Target Price:</span>
+                      <span className="text-gray-400">{isScalar ? 'Price Buckets:' : 'Target Price:'}</span>
                       <span className="text-white ml-2 font-semibold">
-                        ${(Number(priceMarketInfo[3]) / 1e8).toLocaleString()}
+                        {isScalar ? bucketLabels.length : `$${(Number(priceMarketInfo[3]) / 1e8).toLocaleString()}`}
                       </span>
                     </div>
+                    {twapWindow !== undefined && (
+                      <div className="col-span-2">
+                        <span className="text-gray-400">TWAP Window:</span>
+                        <span className="text-white ml-2 font-semibold">{formatTwapWindow(twapWindow)}</span>
+                      </div>
+                    )}
                   </div>
 
                   {/* 实时价格 */}
@@ -1064,12 +1505,26 @@ export default function MarketDetailPage() {
                       )}
                     </div>
                     <div className="flex items-center justify-between">
-                      <span className="text-gray-400 text-xs">Settlement Price:</span>
-                      {isChainlinkLoading ? (
+                      <span className="text-gray-400 text-xs">Oracle Price:</span>
+                      {isOracleLoading ? (
+                        <span className="text-gray-500 text-xs">Loading...</span>
+                      ) : oraclePrice !== undefined ? (
+                        <span className="text-blue-400 font-bold text-base">
+                          ${oraclePrice.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                        </span>
+                      ) : (
+                        <span className="text-gray-500 text-xs">N/A</span>
+                      )}
+                    </div>
+                    <div className="flex items-center justify-between">
+                      <span className="text-gray-400 text-xs">Settlement Price (TWAP):</span>
+                      {eventDeadline && Date.now() < Number(eventDeadline) * 1000 ? (
+                        <span className="text-gray-500 text-xs">Known after the event deadline</span>
+                      ) : isTwapLoading ? (
                         <span className="text-gray-500 text-xs">Loading...</span>
-                      ) : chainlinkPrice !== undefined ? (
+                      ) : twapPrice !== undefined ? (
                         <span className="text-blue-400 font-bold text-base">
-                          ${chainlinkPrice.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                          ${twapPrice.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
                         </span>
                       ) : (
                         <span className="text-gray-500 text-xs">N/A</span>
@@ -1083,7 +1538,7 @@ export default function MarketDetailPage() {
                       onClick={async () => {
                         try {
                           setPendingAction('settlePriceMarket');
-                          await settlePriceMarket();
+                          await settlePriceMarket((signedReport.trim() || '0x') as `0x${string}`);
                         } catch (err) {
                           showToast('Failed to settle: ' + (err as Error).message, 'error');
                           setPendingAction(null);
@@ -1092,10 +1547,24 @@ export default function MarketDetailPage() {
                       disabled={isPending || isConfirming}
                       className="w-full py-3 bg-green-500 hover:bg-green-600 disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-bold rounded-lg transition-colors"
                     >
-                      {isPending || isConfirming ? '⏳ Settling...' : '🎯 Settle Market (Fetch Chainlink Price)'}
+                      {isPending || isConfirming
+                        ? '⏳ Settling...'
+                        : signedReport.trim()
+                          ? '🎯 Settle Market (Signed Report)'
+                          : `🎯 Settle Market (${oracleKind === 'chainlink' ? 'Chainlink' : 'Oracle'} TWAP)`}
                     </button>
                     <p className="text-xs text-gray-400 mt-2 text-center">
-                      Click to fetch the current price from Chainlink and determine the winner
+                      Click to settle on the {oracleName}'s average price before the deadline - the result is the same whenever it is called
+                    </p>
+                    <input
+                      type="text"
+                      value={signedReport}
+                      onChange={(e) => setSignedReport(e.target.value)}
+                      placeholder="Signed price report (optional, 0x...)"
+                      className="w-full mt-3 px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white text-xs font-mono focus:outline-none focus:border-blue-500"
+                    />
+                    <p className="text-xs text-gray-500 mt-1">
+                      Markets on an updater oracle with no recorded price at the deadline can settle on a report signed by its signers (scripts/signPriceReport.ts)
                     </p>
                   </div>
                 )}
@@ -1109,7 +1578,7 @@ export default function MarketDetailPage() {
             )}
 
             {/* Event Market Settlement Process */}
-            {marketType === 0 && !isSettled && settlementInfo && (
+            {isOwnerResolved && !isSettled && settlementInfo && (
               <div className="mb-6 space-y-4">
                 {/* Step 1: Deposit Stake */}
                 {settlementInfo[4] === 0n && ( // ownerStake === 0
@@ -1118,13 +1587,18 @@ export default function MarketDetailPage() {
                     <p className="text-gray-300 text-sm mb-4">
                       The market owner must deposit 10% of the total pool as stake before proposing settlement.
                     </p>
-                    {address && address.toLowerCase() === (settlementInfo[5] as string)?.toLowerCase() && (
+                    {!isOwner && (
+                      <p className="text-gray-400 text-xs">
+                        ⏳ Waiting for the market creator to deposit their stake.
+                      </p>
+                    )}
+                    {isOwner && (
                       <button
                         onClick={async () => {
                           try {
                             setPendingAction('depositStake');
-                            const stakeAmount = ((totalYesAmount || 0n) + (totalNoAmount || 0n)) / 10n;
-                            await depositOwnerStake(formatEther(stakeAmount));
+                            const stakeAmount = decryptedPool / 10n;
+                            await depositOwnerStake(formatCollateral(stakeAmount));
                           } catch (err) {
                             showToast('Failed to deposit stake: ' + (err as Error).message, 'error');
                             setPendingAction(null);
@@ -1146,7 +1620,34 @@ export default function MarketDetailPage() {
                     <p className="text-gray-300 text-sm mb-4">
                       Owner can now propose the final outcome. This will start a 24-hour challenge period.
                     </p>
-                    {address && address.toLowerCase() === (settlementInfo[5] as string)?.toLowerCase() && (
+                    {!isOwner && (
+                      <p className="text-gray-400 text-xs">
+                        ⏳ Waiting for the market creator to propose the outcome.
+                      </p>
+                    )}
+                    {isOwner && isCategorical && (
+                      <div className="grid grid-cols-2 gap-4">
+                        {(outcomeLabels ?? []).map((label, index) => (
+                          <button
+                            key={index}
+                            onClick={async () => {
+                              try {
+                                setPendingAction('proposeSettlement');
+                                await proposeCategoricalSettlement(index);
+                              } catch (err) {
+                                showToast('Failed to propose settlement: ' + (err as Error).message, 'error');
+                                setPendingAction(null);
+                              }
+                            }}
+                            disabled={isPending || isConfirming}
+                            className="py-3 bg-blue-500 hover:bg-blue-600 disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-bold rounded-lg transition-colors"
+                          >
+                            🏆 Propose "{label}" Won
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                    {isOwner && !isCategorical && (
                       <div className="space-y-3">
                         <div className="grid grid-cols-2 gap-4">
                           <button
@@ -1185,16 +1686,24 @@ export default function MarketDetailPage() {
                   </div>
                 )}
 
-                {/* Step 3: Challenge Period */}
+                {/* Step 3: Challenge Period & Disputes */}
                 {settlementInfo[0] && !isSettled && ( // isSettlementProposed && !isSettled
-                  <div className="bg-yellow-500/10 border border-yellow-500/30 rounded-lg p-6">
-                    <h4 className="text-lg font-bold text-yellow-400 mb-3">Step 3: Challenge Period (24 Hours)</h4>
+                  <div className={`${isDisputed ? 'bg-orange-500/10 border-orange-500/30' : 'bg-yellow-500/10 border-yellow-500/30'} border rounded-lg p-6`}>
+                    <h4 className={`text-lg font-bold mb-3 ${isDisputed ? 'text-orange-400' : 'text-yellow-400'}`}>
+                      {isDisputed ? 'Step 3: Settlement Disputed' : 'Step 3: Challenge Period (24 Hours)'}
+                    </h4>
                     <div className="space-y-3">
                       <div className="bg-gray-700/50 rounded-lg p-4">
                         <p className="text-gray-300 text-sm mb-2">Proposed Outcome:</p>
-                        <p className={`text-2xl font-bold ${settlementInfo[1] ? 'text-green-400' : 'text-red-400'}`}>
-                          {settlementInfo[1] ? '✅ YES' : '❌ NO'}
-                        </p>
+                        {isCategorical ? (
+                          <p className="text-2xl font-bold text-blue-400">
+                            {proposedOutcomeIndex !== undefined ? outcomeName(proposedOutcomeIndex) : '...'}
+                          </p>
+                        ) : (
+                          <p className={`text-2xl font-bold ${settlementInfo[1] ? 'text-green-400' : 'text-red-400'}`}>
+                            {settlementInfo[1] ? '✅ YES' : '❌ NO'}
+                          </p>
+                        )}
                       </div>
                       <div className="bg-gray-700/50 rounded-lg p-4">
                         <p className="text-gray-300 text-sm mb-2">Challenge Deadline:</p>
@@ -1204,8 +1713,60 @@ export default function MarketDetailPage() {
                         />
                       </div>
 
+                      {/* Dispute Timeline & Bonds */}
+                      <div className="bg-gray-700/50 rounded-lg p-4 space-y-2 text-sm">
+                        <div className="flex justify-between">
+                          <span className="text-gray-400">Dispute Status:</span>
+                          <span className={isDisputed ? 'text-orange-400 font-semibold' : 'text-gray-300'}>
+                            {disputeStatusNames[disputeStatus ?? 0]}
+                          </span>
+                        </div>
+                        <div className="flex justify-between">
+                          <span className="text-gray-400">Proposed At:</span>
+                          <span className="text-gray-300">{formatTime(settlementInfo[2])}</span>
+                        </div>
+                        <div className="flex justify-between">
+                          <span className="text-gray-400">Challenges Close:</span>
+                          <span className="text-gray-300">{formatTime(settlementInfo[3])}</span>
+                        </div>
+                        {isDisputed && !!cancellableAt && cancellableAt > 0n && (
+                          <div className="flex justify-between">
+                            <span className="text-gray-400">Refunds Open If No Ruling By:</span>
+                            <span className="text-gray-300">{formatTime(cancellableAt)}</span>
+                          </div>
+                        )}
+                        <div className="flex justify-between">
+                          <span className="text-gray-400">Owner Stake at Risk:</span>
+                          <span className="text-purple-400 font-semibold">{formatCollateral(settlementInfo[4])} {collateralSymbol}</span>
+                        </div>
+                        <div className="flex justify-between">
+                          <span className="text-gray-400">Challenge Bond:</span>
+                          <span className="text-orange-400 font-semibold">
+                            {challengeBond !== undefined ? formatCollateral(challengeBond) : '...'} {collateralSymbol}
+                          </span>
+                        </div>
+                        <div className="flex justify-between">
+                          <span className="text-gray-400">Total Bonds Posted:</span>
+                          <span className="text-orange-400 font-semibold">{formatCollateral(totalChallengeBonds ?? 0n)} {collateralSymbol}</span>
+                        </div>
+                        {!!myChallengeBond && myChallengeBond > 0n && (
+                          <div className="flex justify-between">
+                            <span className="text-gray-400">Your Bond:</span>
+                            <span className="text-orange-400 font-semibold">{formatCollateral(myChallengeBond)} {collateralSymbol}</span>
+                          </div>
+                        )}
+                        <div className="flex justify-between">
+                          <span className="text-gray-400">Arbiter:</span>
+                          <span className="text-gray-300 font-mono text-xs">{arbiter}</span>
+                        </div>
+                        <p className="text-gray-500 text-xs pt-2">
+                          If the arbiter upholds a challenge, the owner stake is slashed: half is shared by the challengers,
+                          half is added to the winners' pool. If the challenge is rejected, the bonds go to the owner.
+                        </p>
+                      </div>
+
                       {/* Challenge Button */}
-                      {hasCommitted && Date.now() < Number(settlementInfo[3]) * 1000 && (
+                      {hasCommitted && !myChallengeBond && Date.now() < Number(settlementInfo[3]) * 1000 && (
                         <button
                           onClick={async () => {
                             try {
@@ -1216,15 +1777,68 @@ export default function MarketDetailPage() {
                               setPendingAction(null);
                             }
                           }}
-                          disabled={isPending || isConfirming}
+                          disabled={isPending || isConfirming || challengeBond === undefined}
                           className="w-full py-3 bg-orange-500 hover:bg-orange-600 disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-bold rounded-lg transition-colors"
                         >
-                          {isPending || isConfirming ? '⏳ Challenging...' : '⚠️ Challenge Settlement'}
+                          {isPending || isConfirming
+                            ? '⏳ Challenging...'
+                            : `⚠️ Challenge Settlement (Bond: ${challengeBond !== undefined ? formatCollateral(challengeBond) : '...'} ${collateralSymbol})`}
                         </button>
                       )}
 
+                      {/* Arbiter Ruling */}
+                      {isDisputed && isArbiter && (
+                        <div className="space-y-3">
+                          <p className="text-gray-300 text-sm">⚖️ You are the arbiter. Rule on this dispute:</p>
+                          <button
+                            onClick={async () => {
+                              try {
+                                setPendingAction('resolveDispute');
+                                await resolveDispute(false, 0);
+                              } catch (err) {
+                                showToast('Failed to resolve dispute: ' + (err as Error).message, 'error');
+                                setPendingAction(null);
+                              }
+                            }}
+                            disabled={isPending || isConfirming}
+                            className="w-full py-3 bg-blue-500 hover:bg-blue-600 disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-bold rounded-lg transition-colors"
+                          >
+                            ❌ Reject Challenge (Proposal Stands)
+                          </button>
+                          <div className="grid grid-cols-2 gap-4">
+                            {outcomeNames.map((name, index) => {
+                              const proposedIndex = isCategorical ? proposedOutcomeIndex : settlementInfo[1] ? 1 : 0;
+                              if (index === proposedIndex) return null;
+                              return (
+                                <button
+                                  key={index}
+                                  onClick={async () => {
+                                    try {
+                                      setPendingAction('resolveDispute');
+                                      await resolveDispute(true, index);
+                                    } catch (err) {
+                                      showToast('Failed to resolve dispute: ' + (err as Error).message, 'error');
+                                      setPendingAction(null);
+                                    }
+                                  }}
+                                  disabled={isPending || isConfirming}
+                                  className="py-3 bg-orange-500 hover:bg-orange-600 disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-bold rounded-lg transition-colors"
+                                >
+                                  ✅ Uphold: "{name}" Won
+                                </button>
+                              );
+                            })}
+                          </div>
+                        </div>
+                      )}
+                      {isDisputed && !isArbiter && (
+                        <p className="text-gray-400 text-xs">
+                          ⏳ Finalization is paused until the arbiter rules on the dispute.
+                        </p>
+                      )}
+
                       {/* Finalize Button */}
-                      {Date.now() >= Number(settlementInfo[3]) * 1000 && (
+                      {settlementInfo[5] && ( // canFinalize (challenge period over, no dispute)
                         <button
                           onClick={async () => {
                             try {
@@ -1248,7 +1862,17 @@ export default function MarketDetailPage() {
             )}
 
             {/* Final Outcome */}
-            {isSettled && (
+            {isSettled && isMultiOutcome && winningOutcome !== undefined && (
+              <div className="rounded-lg p-6 mb-6 bg-green-500/10 border border-green-500/30">
+                <p className="text-2xl font-bold mb-2 text-green-400">
+                  Final Outcome: 🏆 {outcomeName(winningOutcome)}
+                </p>
+                <p className="text-gray-300">
+                  The market has been settled. "{outcomeName(winningOutcome)}" predictions won!
+                </p>
+              </div>
+            )}
+            {isSettled && !isMultiOutcome && (
               <div className={`rounded-lg p-6 mb-6 ${
                 finalOutcome
                   ? 'bg-green-500/10 border border-green-500/30'
@@ -1263,10 +1887,79 @@ export default function MarketDetailPage() {
               </div>
             )}
 
+            {/* Winner Pool */}
+            {isSettled && winnerPool !== undefined && (
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+                <div className="bg-gray-700/50 rounded-lg p-4">
+                  <p className="text-gray-400 text-sm mb-1">Winner Pool (fixed at settlement)</p>
+                  <p className="text-xl font-bold text-white">{formatCollateral(winnerPool)} {collateralSymbol}</p>
+                </div>
+                <div className="bg-gray-700/50 rounded-lg p-4">
+                  <p className="text-gray-400 text-sm mb-1">Winning Stake</p>
+                  <p className="text-xl font-bold text-white">{winningStake !== undefined ? formatCollateral(winningStake) : '0'} {collateralSymbol}</p>
+                </div>
+                <div className="bg-gray-700/50 rounded-lg p-4">
+                  <p className="text-gray-400 text-sm mb-1">Paid Out So Far</p>
+                  <p className="text-xl font-bold text-white">{totalPaidOut !== undefined ? formatCollateral(totalPaidOut) : '0'} {collateralSymbol}</p>
+                </div>
+                <p className="md:col-span-3 text-gray-400 text-sm">
+                  💸 Fees taken before payouts: {Number(protocolFeeBps ?? 0) / 100}% protocol + {Number(creatorFeeBps ?? 0) / 100}% creator
+                </p>
+                {!!myFeeBalance && myFeeBalance > 0n && (
+                  <button
+                    onClick={async () => {
+                      try {
+                        setPendingAction('withdrawFees');
+                        await withdrawFees();
+                      } catch (err) {
+                        showToast('Failed to withdraw fees: ' + (err as Error).message, 'error');
+                        setPendingAction(null);
+                      }
+                    }}
+                    disabled={isPending || isConfirming}
+                    className="md:col-span-3 py-3 bg-blue-500 hover:bg-blue-600 disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-bold rounded-lg transition-colors"
+                  >
+                    {isPending || isConfirming ? '⏳ Withdrawing...' : `💸 Withdraw ${formatCollateral(myFeeBalance)} ${collateralSymbol} in Fees`}
+                  </button>
+                )}
+              </div>
+            )}
+
+            {/* Dispute Result */}
+            {isSettled && isOwnerResolved && (disputeStatus === 2 || disputeStatus === 3) && (
+              <div className="bg-orange-500/10 border border-orange-500/30 rounded-lg p-6 mb-6">
+                <p className="text-lg font-bold text-orange-400 mb-2">{disputeStatusNames[disputeStatus]}</p>
+                <p className="text-gray-300 text-sm">
+                  {disputeStatus === 2
+                    ? `The arbiter corrected the outcome and slashed the owner stake. Challengers share ${formatCollateral(challengerSlashReward ?? 0n)} ${collateralSymbol}; the rest was added to the winners' pool.`
+                    : `The arbiter confirmed the proposed outcome. ${formatCollateral(totalChallengeBonds ?? 0n)} ${collateralSymbol} of challenger bonds went to the owner.`}
+                </p>
+                {disputeStatus === 2 && !!myChallengeBond && myChallengeBond > 0n && (
+                  <button
+                    onClick={async () => {
+                      try {
+                        setPendingAction('claimDisputePayout');
+                        await claimDisputePayout();
+                      } catch (err) {
+                        showToast('Failed to claim dispute payout: ' + (err as Error).message, 'error');
+                        setPendingAction(null);
+                      }
+                    }}
+                    disabled={isPending || isConfirming}
+                    className="w-full mt-4 py-3 bg-orange-500 hover:bg-orange-600 disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-bold rounded-lg transition-colors"
+                  >
+                    {isPending || isConfirming ? '⏳ Claiming...' : '💰 Claim Bond + Slashed Stake Share'}
+                  </button>
+                )}
+              </div>
+            )}
+
             {/* Claim Rewards */}
             {isSettled && hasCommitted && !hasClaimed && (() => {
               // Check if anyone won (winning side amount > 0)
-              const winningAmount = finalOutcome ? totalYesAmount : totalNoAmount;
+              const winningAmount = isMultiOutcome
+                ? outcomeTotals?.[winningOutcome ?? 0]
+                : finalOutcome ? totalYesAmount : totalNoAmount;
               const hasWinners = winningAmount && Number(winningAmount) > 0;
 
               if (!hasWinners) {
@@ -1282,12 +1975,14 @@ export default function MarketDetailPage() {
 
               // Check if user has decrypted their prediction
               const userHasDecrypted = showDecrypted && decryptedPrediction !== null;
-              let userPrediction: 'YES' | 'NO' | null = null;
+              let userPrediction: string | null = null;
               let userWon: boolean | null = null;
 
               if (userHasDecrypted) {
-                userPrediction = decryptedPrediction === 1 ? 'YES' : 'NO';
-                userWon = (decryptedPrediction === 1 && finalOutcome) || (decryptedPrediction === 0 && !finalOutcome);
+                userPrediction = outcomeName(decryptedPrediction);
+                userWon = isMultiOutcome
+                  ? decryptedPrediction === winningOutcome
+                  : (decryptedPrediction === 1 && finalOutcome) || (decryptedPrediction === 0 && !finalOutcome);
               }
 
               // If we know user lost, show info message
@@ -1295,7 +1990,7 @@ export default function MarketDetailPage() {
                 return (
                   <div className="bg-red-500/10 border border-red-500/30 rounded-lg p-4">
                     <p className="text-red-300 text-center">
-                      ❌ You predicted <strong>{userPrediction}</strong>, but the outcome was <strong>{finalOutcome ? 'YES' : 'NO'}</strong>. No rewards to claim.
+                      ❌ You predicted <strong>{userPrediction}</strong>, but the outcome was <strong>{isMultiOutcome ? outcomeName(winningOutcome ?? 0) : finalOutcome ? 'YES' : 'NO'}</strong>. No rewards to claim.
                     </p>
                   </div>
                 );
@@ -1329,6 +2024,19 @@ export default function MarketDetailPage() {
                       <p className="text-green-400 text-center font-semibold">
                         🎉 Congratulations! You predicted <strong>{userPrediction}</strong> and won!
                       </p>
+                      {decryptedAmount !== null && !!winnerPool && !!winningStake && (
+                        <p className="text-green-300 text-center text-sm mt-1">
+                          Payout after fees: {formatCollateral((decryptedAmount * winnerPool) / winningStake)} {collateralSymbol}
+                        </p>
+                      )}
+                    </div>
+                  )}
+                  {claimStatus === 'pending' && (
+                    <div className="bg-yellow-500/10 border border-yellow-500/30 rounded-lg p-4 mb-3">
+                      <p className="text-yellow-300 text-center text-sm">
+                        ⏳ Claim request #{claimRequestId?.toString()} is waiting for the decryption oracle.
+                        Requesting again replaces it.
+                      </p>
                     </div>
                   )}
                   <button
@@ -1337,29 +2045,52 @@ export default function MarketDetailPage() {
                         setPendingAction('claimRewards');
                         await claimRewards();
                       } catch (err: any) {
-                        // Check if it's a "You lost" error
-                        const errorMessage = err?.message || '';
-                        if (errorMessage.includes('You lost') || errorMessage.includes('execution reverted')) {
-                          showToast('❌ You did not predict the winning outcome. No rewards to claim.', 'error');
-                        } else {
-                          showToast('Failed to claim: ' + errorMessage, 'error');
-                        }
+                        showToast('Failed to claim: ' + (err?.message || ''), 'error');
                         setPendingAction(null);
                       }
                     }}
                     disabled={!isConnected || isPending || isConfirming}
                     className="w-full py-4 bg-green-500 hover:bg-green-600 disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-bold rounded-lg transition-colors"
                   >
-                    {isPending || isConfirming ? '⏳ Claiming...' : '💰 Claim Rewards'}
+                    {isPending || isConfirming ? '⏳ Claiming...' : claimStatus === 'pending' ? '🔁 Request Claim Again' : '💰 Claim Rewards'}
                   </button>
                 </div>
               );
             })()}
 
-            {hasClaimed && (
+            {claimStatus === 'won' && (
               <div className="bg-green-500/10 border border-green-500/30 rounded-lg p-4">
                 <p className="text-green-400 text-center">
-                  ✅ You have already claimed your rewards!
+                  🏆 Won {claimPayout !== undefined ? formatCollateral(claimPayout) : '0'} {collateralSymbol}
+                </p>
+              </div>
+            )}
+
+            {claimStatus === 'confidential' && (
+              <div className="bg-purple-500/10 border border-purple-500/30 rounded-lg p-4 space-y-3">
+                <p className="text-purple-300 text-center">
+                  {decryptedPayout === null
+                    ? '🔒 Payout sent as an encrypted transfer - only you can see the amount'
+                    : decryptedPayout > 0n
+                      ? `🏆 Won ${formatCollateral(decryptedPayout)} ${collateralSymbol}`
+                      : '❌ Lost - your prediction did not match the outcome'}
+                </p>
+                {decryptedPayout === null && (
+                  <button
+                    onClick={handleDecryptPayout}
+                    disabled={isDecrypting || !encryptedPayout}
+                    className="w-full py-2 bg-purple-500 hover:bg-purple-600 disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-semibold rounded-lg transition-colors"
+                  >
+                    {isDecrypting ? '⏳ Decrypting...' : '🔓 Decrypt My Payout'}
+                  </button>
+                )}
+              </div>
+            )}
+
+            {claimStatus === 'lost' && (
+              <div className="bg-red-500/10 border border-red-500/30 rounded-lg p-4">
+                <p className="text-red-300 text-center">
+                  ❌ Lost - your prediction did not match the outcome
                 </p>
               </div>
             )}
@@ -1371,46 +2102,59 @@ export default function MarketDetailPage() {
                 </p>
               </div>
             )}
+          </div>
+        )}
 
-            {/* Owner Settlement Controls - Only for Event Markets */}
-            {!isSettled && address && marketType === 0 && (
-              <div className="mt-6 bg-yellow-500/10 border border-yellow-500/30 rounded-lg p-6">
-                <h4 className="text-yellow-400 font-bold mb-4">Owner Controls</h4>
-                <p className="text-gray-300 text-sm mb-4">
-                  As the market owner, you can settle the market with the final outcome.
-                </p>
-                <div className="grid grid-cols-2 gap-4">
-                  <button
-                    onClick={async () => {
-                      try {
-                        setPendingAction('settleMarket');
-                        await settleMarket(true);
-                      } catch (err) {
-                        showToast('Failed to settle: ' + (err as Error).message, 'error');
-                        setPendingAction(null);
-                      }
-                    }}
-                    disabled={isPending || isConfirming}
-                    className="py-3 bg-green-500 hover:bg-green-600 disabled:bg-gray-600 text-white font-bold rounded-lg transition-colors"
-                  >
-                    Settle: YES
-                  </button>
-                  <button
-                    onClick={async () => {
-                      try {
-                        setPendingAction('settleMarket');
-                        await settleMarket(false);
-                      } catch (err) {
-                        showToast('Failed to settle: ' + (err as Error).message, 'error');
-                        setPendingAction(null);
-                      }
-                    }}
-                    disabled={isPending || isConfirming}
-                    className="py-3 bg-red-500 hover:bg-red-600 disabled:bg-gray-600 text-white font-bold rounded-lg transition-colors"
-                  >
-                    Settle: NO
-                  </button>
+        {/* Phase 5: Cancelled */}
+        {currentPhase === Phase.Cancelled && (
+          <div className="bg-gray-800 rounded-lg p-8 border border-gray-700">
+            <h3 className="text-xl font-bold text-white mb-6">🚫 Market Cancelled</h3>
+
+            <div className="bg-gray-700/50 border border-gray-600 rounded-lg p-6 mb-6">
+              <p className="text-gray-300 text-sm">
+                This market got stuck and was cancelled. Bets are void: every participant can claim back everything
+                they deposited into the vault, minus completed withdrawals.
+              </p>
+            </div>
+
+            {!isConnected ? (
+              <div className="bg-gray-700/50 rounded-lg p-4">
+                <p className="text-gray-400 text-center">Connect your wallet to check your refund.</p>
+              </div>
+            ) : hasRefunded ? (
+              <div className="bg-green-500/10 border border-green-500/30 rounded-lg p-4">
+                <p className="text-green-400 text-center">✅ You have already claimed your refund!</p>
+              </div>
+            ) : canClaimRefund ? (
+              <div>
+                <div className="bg-blue-500/10 border border-blue-500/30 rounded-lg p-4 mb-3">
+                  <p className="text-blue-300 text-center">
+                    {isConfidentialCollateral ? (
+                      <>Refundable: <strong>your encrypted vault balance and bet</strong> ({collateralSymbol})</>
+                    ) : (
+                      <>Refundable: <strong>{formatCollateral(refundAmount)} {collateralSymbol}</strong></>
+                    )}
+                  </p>
                 </div>
+                <button
+                  onClick={async () => {
+                    try {
+                      setPendingAction('claimRefund');
+                      await claimRefund();
+                    } catch (err) {
+                      showToast('Failed to claim refund: ' + (err as Error).message, 'error');
+                      setPendingAction(null);
+                    }
+                  }}
+                  disabled={isPending || isConfirming}
+                  className="w-full py-3 bg-blue-500 hover:bg-blue-600 disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-bold rounded-lg transition-colors"
+                >
+                  {isPending || isConfirming ? '⏳ Claiming...' : '💸 Claim Refund'}
+                </button>
+              </div>
+            ) : (
+              <div className="bg-gray-700/50 rounded-lg p-4">
+                <p className="text-gray-400 text-center">You have nothing to refund in this market.</p>
               </div>
             )}
           </div>
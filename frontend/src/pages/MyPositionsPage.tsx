@@ -1,7 +1,7 @@
 import { Link } from 'react-router-dom';
 import { useAccount } from 'wagmi';
 import { ConnectButton } from '@rainbow-me/rainbowkit';
-import { formatEther } from 'viem';
+import { formatUnits } from 'viem';
 import { useUserPositions } from '../hooks/useUserPositions';
 
 export default function MyPositionsPage() {
@@ -101,7 +101,7 @@ export default function MyPositionsPage() {
                               Phase {position.phase}
                             </span>
                             <span className="text-gray-400">
-                              Pool: {formatEther(position.totalPool)} ETH
+                              Pool: {formatUnits(position.totalPool, position.collateralDecimals)} {position.collateralSymbol}
                             </span>
                             <span className="text-gray-400">
                               Participants: {position.participantCount.toString()}
@@ -149,17 +149,29 @@ export default function MyPositionsPage() {
                               Result: {position.finalOutcome ? '✅ YES' : '❌ NO'}
                             </span>
                             <span className="text-gray-400">
-                              YES: {position.totalYesAmount ? formatEther(position.totalYesAmount) : '0'} ETH
+                              YES: {position.totalYesAmount ? formatUnits(position.totalYesAmount, position.collateralDecimals) : '0'} {position.collateralSymbol}
                             </span>
                             <span className="text-gray-400">
-                              NO: {position.totalNoAmount ? formatEther(position.totalNoAmount) : '0'} ETH
+                              NO: {position.totalNoAmount ? formatUnits(position.totalNoAmount, position.collateralDecimals) : '0'} {position.collateralSymbol}
                             </span>
                           </div>
                         </div>
                         <div className="text-right">
-                          {position.hasClaimed ? (
+                          {position.claimStatus === 'won' ? (
                             <span className="inline-block px-3 py-1 bg-green-500/20 text-green-400 rounded-full text-sm font-semibold">
-                              Claimed
+                              Won {formatUnits(position.claimPayout, position.collateralDecimals)} {position.collateralSymbol}
+                            </span>
+                          ) : position.claimStatus === 'lost' ? (
+                            <span className="inline-block px-3 py-1 bg-red-500/20 text-red-400 rounded-full text-sm font-semibold">
+                              Lost
+                            </span>
+                          ) : position.claimStatus === 'confidential' ? (
+                            <span className="inline-block px-3 py-1 bg-purple-500/20 text-purple-400 rounded-full text-sm font-semibold">
+                              🔒 Paid Confidentially
+                            </span>
+                          ) : position.claimStatus === 'pending' ? (
+                            <span className="inline-block px-3 py-1 bg-blue-500/20 text-blue-400 rounded-full text-sm font-semibold">
+                              Claim Pending
                             </span>
                           ) : (
                             <span className="inline-block px-3 py-1 bg-yellow-500/20 text-yellow-400 rounded-full text-sm font-semibold">
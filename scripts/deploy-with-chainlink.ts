@@ -3,7 +3,7 @@ import * as fs from "fs";
 import * as path from "path";
 
 async function main() {
-  console.log("\n🚀 Deploying Chainlink Price Oracle and Market Factory...");
+  console.log("\n🚀 Deploying Chainlink and Fallback Price Oracles and Market Factory...");
   console.log("━".repeat(60));
 
   // Get deployer
@@ -47,14 +47,25 @@ async function main() {
   }
   console.log("━".repeat(60));
 
-  // Step 1: Deploy ChainlinkPriceOracle
-  console.log("\n📊 Step 1: Deploying ChainlinkPriceOracle...");
+  // Step 1: Deploy the asset registry and ChainlinkPriceOracle
+  console.log("\n📊 Step 1: Deploying AssetRegistry and ChainlinkPriceOracle...");
+  const AssetRegistry = await ethers.getContractFactory("AssetRegistry");
+  const assetRegistry = await AssetRegistry.deploy();
+  await assetRegistry.waitForDeployment();
+  const assetRegistryAddress = await assetRegistry.getAddress();
+  console.log(`✅ AssetRegistry deployed: ${assetRegistryAddress}`);
+
+  // Chainlink USD feeds answer with 8 decimals. More assets (e.g. LINK, stETH) can be listed later with addAsset.
+  // SOL is listed without a feed on Sepolia, so the fallback oracle prices it through the updaters
+  const listedSymbols = ["ETH", "BTC", "SOL"];
+  const feeds: Record<string, string> = { ETH: ethUsdFeed, BTC: btcUsdFeed, SOL: solUsdFeed };
+  for (const symbol of listedSymbols) {
+    await (await assetRegistry.addAsset(symbol, feeds[symbol], 8)).wait();
+    console.log(`   Listed ${symbol}: ${feeds[symbol]}`);
+  }
+
   const ChainlinkPriceOracle = await ethers.getContractFactory("ChainlinkPriceOracle");
-  const priceOracle = await ChainlinkPriceOracle.deploy(
-    ethUsdFeed,
-    btcUsdFeed,
-    solUsdFeed
-  );
+  const priceOracle = await ChainlinkPriceOracle.deploy(assetRegistryAddress);
   await priceOracle.waitForDeployment();
   const priceOracleAddress = await priceOracle.getAddress();
   
@@ -63,35 +74,73 @@ async function main() {
   // Verify price feeds are working
   try {
     console.log("\n📈 Verifying Price Feeds:");
-    
-    // Get ETH price
-    const [ethPrice, ethTimestamp] = await priceOracle.getPrice(0);
-    console.log(`  ETH: $${(Number(ethPrice) / 1e8).toLocaleString()} (Updated: ${new Date(Number(ethTimestamp) * 1000).toLocaleString()})`);
-    
-    // Get BTC price
-    const [btcPrice, btcTimestamp] = await priceOracle.getPrice(1);
-    console.log(`  BTC: $${(Number(btcPrice) / 1e8).toLocaleString()} (Updated: ${new Date(Number(btcTimestamp) * 1000).toLocaleString()})`);
-    
-    // Get SOL price (if available)
-    if (solUsdFeed !== ethers.ZeroAddress) {
-      const [solPrice, solTimestamp] = await priceOracle.getPrice(2);
-      console.log(`  SOL: $${(Number(solPrice) / 1e8).toLocaleString()} (Updated: ${new Date(Number(solTimestamp) * 1000).toLocaleString()})`);
-    } else {
-      console.log(`  SOL: Not available on this network`);
+    for (const symbol of listedSymbols.filter((symbol) => feeds[symbol] !== ethers.ZeroAddress)) {
+      const [price, timestamp] = await priceOracle.getPrice(ethers.encodeBytes32String(symbol));
+      console.log(`  ${symbol}: $${(Number(price) / 1e8).toLocaleString()} (Updated: ${new Date(Number(timestamp) * 1000).toLocaleString()})`);
     }
   } catch (error: any) {
     console.log(`⚠️ Warning: Could not verify prices: ${error.message}`);
   }
+
+  // Markets settle through a fallback chain: Chainlink first, then the PriceOracle updaters (scripts/updateOraclePrice.ts),
+  // and the owner's manual price last. The deployer is the first updater
+  const PriceOracle = await ethers.getContractFactory("PriceOracle");
+  const updaterOracle = await PriceOracle.deploy(assetRegistryAddress);
+  await updaterOracle.waitForDeployment();
+  const updaterOracleAddress = await updaterOracle.getAddress();
+  console.log(`✅ PriceOracle (updaters) deployed: ${updaterOracleAddress}`);
+
+  const FallbackPriceOracle = await ethers.getContractFactory("FallbackPriceOracle");
+  const fallbackOracle = await FallbackPriceOracle.deploy(assetRegistryAddress);
+  await fallbackOracle.waitForDeployment();
+  const fallbackOracleAddress = await fallbackOracle.getAddress();
+  console.log(`✅ FallbackPriceOracle deployed: ${fallbackOracleAddress}`);
+  for (const symbol of listedSymbols) {
+    await (
+      await fallbackOracle.setSources(ethers.encodeBytes32String(symbol), [priceOracleAddress, updaterOracleAddress])
+    ).wait();
+    console.log(`   ${symbol} sources: Chainlink, then updaters`);
+  }
   console.log("━".repeat(60));
 
   // Step 2: Deploy MarketFactory
   console.log("\n🏭 Step 2: Deploying MarketFactory...");
-  const MarketFactory = await ethers.getContractFactory("MarketFactory");
-  const marketFactory = await MarketFactory.deploy();
+  // The arbiter rules on disputed settlements and cannot be the deployer, who creates the test event market below
+  const arbiterAddress = process.env.ARBITER_ADDRESS;
+  if (!arbiterAddress || !ethers.isAddress(arbiterAddress) || arbiterAddress.toLowerCase() === deployer.address.toLowerCase()) {
+    throw new Error("Set ARBITER_ADDRESS to the dispute arbiter (e.g. a multisig), different from the deployer");
+  }
+
+  // Markets link their encrypted payout math and signed-intent checks from libraries, deployed once and shared by all of them
+  const ConfidentialPayout = await ethers.getContractFactory("ConfidentialPayout");
+  const payoutLibrary = await ConfidentialPayout.deploy();
+  await payoutLibrary.waitForDeployment();
+  const payoutLibraryAddress = await payoutLibrary.getAddress();
+  console.log(`✅ ConfidentialPayout library deployed: ${payoutLibraryAddress}`);
+
+  const CommitIntent = await ethers.getContractFactory("CommitIntent");
+  const intentLibrary = await CommitIntent.deploy();
+  await intentLibrary.waitForDeployment();
+  const intentLibraryAddress = await intentLibrary.getAddress();
+  console.log(`✅ CommitIntent library deployed: ${intentLibraryAddress}`);
+
+  const MarketFactory = await ethers.getContractFactory("MarketFactory", {
+    libraries: { ConfidentialPayout: payoutLibraryAddress, CommitIntent: intentLibraryAddress },
+  });
+  const marketFactory = await MarketFactory.deploy(arbiterAddress);
   await marketFactory.waitForDeployment();
   const factoryAddress = await marketFactory.getAddress();
   
   console.log(`✅ MarketFactory deployed: ${factoryAddress}`);
+  console.log(`   Arbiter: ${arbiterAddress}`);
+
+  // Optional protocol fee for markets created from now on (basis points of the winner pool, at most 500)
+  const protocolFeeBps = Number(process.env.PROTOCOL_FEE_BPS ?? 0);
+  if (protocolFeeBps > 0) {
+    const feeRecipient = process.env.PROTOCOL_FEE_RECIPIENT ?? deployer.address;
+    await (await marketFactory.setProtocolFee(protocolFeeBps, feeRecipient)).wait();
+    console.log(`   Protocol fee: ${protocolFeeBps / 100}% to ${feeRecipient}`);
+  }
   console.log("━".repeat(60));
 
   // Step 3: Create a test Event Market
@@ -99,6 +148,7 @@ async function main() {
   const eventDescription = "Will Bitcoin reach $120,000 by end of 2025?";
   const commitmentDuration = 3600; // 1 hour
   const eventDuration = 3600 * 24; // 24 hours
+  const refundGracePeriod = 3600 * 24 * 7; // 7 days before a stuck market can be cancelled
   
   const tx1 = await marketFactory.createMarket(
     0, // MarketType.Event
@@ -106,8 +156,16 @@ async function main() {
     commitmentDuration,
     eventDuration,
     ethers.ZeroAddress, // No oracle for event market
-    0, // No asset
-    0  // No target price
+    ethers.ZeroHash, // No asset
+    0, // No target price
+    [], // Binary market, no outcome labels
+    [], // No price buckets
+    refundGracePeriod,
+    0, // No creator fee
+    0, // No early-exit penalty
+    ethers.ZeroAddress, // ETH collateral
+    ethers.ZeroAddress, // No confidential collateral
+    0 // No TWAP window
   );
   await tx1.wait();
   
@@ -122,15 +180,24 @@ async function main() {
   console.log("\n💰 Step 4: Creating test Price Market...");
   const priceDescription = "Will ETH price be above $5,000 on December 31, 2024?";
   const targetPrice = 5000_00000000; // $5,000 (scaled by 1e8)
+  const twapWindow = 3600; // Settle on the average price over the last hour
   
   const tx2 = await marketFactory.createMarket(
     1, // MarketType.Price
     priceDescription,
     commitmentDuration,
     eventDuration,
-    priceOracleAddress,
-    0, // Asset.ETH
-    targetPrice
+    fallbackOracleAddress,
+    ethers.encodeBytes32String("ETH"),
+    targetPrice,
+    [], // Binary market, no outcome labels
+    [], // No price buckets
+    refundGracePeriod,
+    0, // No creator fee
+    0, // No early-exit penalty
+    ethers.ZeroAddress, // ETH collateral
+    ethers.ZeroAddress, // No confidential collateral
+    twapWindow
   );
   await tx2.wait();
   
@@ -139,6 +206,7 @@ async function main() {
   console.log(`   Description: ${priceDescription}`);
   console.log(`   Target Asset: ETH`);
   console.log(`   Target Price: $${(targetPrice / 1e8).toLocaleString()}`);
+  console.log(`   TWAP Window: ${twapWindow / 60} minutes`);
   console.log("━".repeat(60));
 
   // Step 5: Save deployment info
@@ -148,8 +216,12 @@ async function main() {
     network: network.name,
     chainId: chainId,
     deployer: deployer.address,
+    arbiter: arbiterAddress,
     contracts: {
+      assetRegistry: assetRegistryAddress,
       chainlinkPriceOracle: priceOracleAddress,
+      priceOracle: updaterOracleAddress,
+      fallbackPriceOracle: fallbackOracleAddress,
       marketFactory: factoryAddress,
     },
     chainlinkFeeds: {
@@ -178,11 +250,16 @@ async function main() {
 
 export const CONTRACT_CONFIG = {
   factoryAddress: '${factoryAddress}' as \`0x\${string}\`,
-  priceOracleAddress: '${priceOracleAddress}' as \`0x\${string}\`,
+  priceOracleAddress: '${fallbackOracleAddress}' as \`0x\${string}\`,
   chainId: ${chainId},
   chainName: '${network.name}',
 };
 
+// Gasless commitment relayer (see scripts/relayer.ts)
+export const RELAYER_CONFIG = {
+  url: 'http://localhost:8787',
+};
+
 // Chainlink Price Feeds
 export const CHAINLINK_FEEDS = {
   ethUsd: '${ethUsdFeed}',
@@ -225,6 +302,34 @@ export const TEST_MARKETS = {
     )
   );
 
+  const IPriceOracleArtifact = JSON.parse(
+    fs.readFileSync(
+      path.join(__dirname, "../artifacts/contracts/IPriceOracle.sol/IPriceOracle.json"),
+      "utf-8"
+    )
+  );
+
+  const PriceOracleArtifact = JSON.parse(
+    fs.readFileSync(
+      path.join(__dirname, "../artifacts/contracts/PriceOracle.sol/PriceOracle.json"),
+      "utf-8"
+    )
+  );
+
+  const FallbackPriceOracleArtifact = JSON.parse(
+    fs.readFileSync(
+      path.join(__dirname, "../artifacts/contracts/FallbackPriceOracle.sol/FallbackPriceOracle.json"),
+      "utf-8"
+    )
+  );
+
+  const AssetRegistryArtifact = JSON.parse(
+    fs.readFileSync(
+      path.join(__dirname, "../artifacts/contracts/AssetRegistry.sol/AssetRegistry.json"),
+      "utf-8"
+    )
+  );
+
   // Save ABIs to frontend
   const frontendAbiPath = path.join(__dirname, "../frontend/src");
   
@@ -243,17 +348,44 @@ export const TEST_MARKETS = {
     JSON.stringify({ abi: ChainlinkPriceOracleArtifact.abi }, null, 2)
   );
 
+  fs.writeFileSync(
+    path.join(frontendAbiPath, "IPriceOracleABI.json"),
+    JSON.stringify({ abi: IPriceOracleArtifact.abi }, null, 2)
+  );
+
+  fs.writeFileSync(
+    path.join(frontendAbiPath, "PriceOracleABI.json"),
+    JSON.stringify({ abi: PriceOracleArtifact.abi }, null, 2)
+  );
+
+  fs.writeFileSync(
+    path.join(frontendAbiPath, "FallbackPriceOracleABI.json"),
+    JSON.stringify({ abi: FallbackPriceOracleArtifact.abi }, null, 2)
+  );
+
+  fs.writeFileSync(
+    path.join(frontendAbiPath, "AssetRegistryABI.json"),
+    JSON.stringify({ abi: AssetRegistryArtifact.abi }, null, 2)
+  );
+
   console.log(`✅ Saved ABIs to: ${frontendAbiPath}`);
   console.log("   - BlindOracleABI.json");
   console.log("   - MarketFactoryABI.json");
   console.log("   - ChainlinkPriceOracleABI.json");
+  console.log("   - IPriceOracleABI.json");
+  console.log("   - PriceOracleABI.json");
+  console.log("   - FallbackPriceOracleABI.json");
+  console.log("   - AssetRegistryABI.json");
   console.log("━".repeat(60));
 
   // Final summary
   console.log("\n🎉 Deployment Complete!");
   console.log("━".repeat(60));
   console.log("\n📋 Contract Addresses:");
+  console.log(`  AssetRegistry:        ${assetRegistryAddress}`);
   console.log(`  ChainlinkPriceOracle: ${priceOracleAddress}`);
+  console.log(`  PriceOracle:          ${updaterOracleAddress}`);
+  console.log(`  FallbackPriceOracle:  ${fallbackOracleAddress}`);
   console.log(`  MarketFactory:        ${factoryAddress}`);
   console.log(`  Event Market:         ${eventMarketAddress}`);
   console.log(`  Price Market:         ${priceMarketAddress}`);
@@ -269,6 +401,7 @@ export const TEST_MARKETS = {
   console.log("3. Start the frontend: cd frontend && npm run dev");
   console.log("4. Connect your wallet to the correct network");
   console.log("5. Test creating markets and submitting predictions");
+  console.log(`6. Push fallback prices: PRICE_ORACLE_ADDRESS=${updaterOracleAddress} ORACLE_ASSETS=${listedSymbols.join(",")} npx hardhat run scripts/updateOraclePrice.ts`);
   
   console.log("\n💡 Benefits of Chainlink:");
   console.log("✅ Decentralized - Multiple nodes provide price data");
@@ -0,0 +1,140 @@
+import { createServer, IncomingMessage, ServerResponse } from "http";
+import { ethers } from "hardhat";
+
+/**
+ * Gasless commitment relayer
+ *
+ * Submits EIP-712 signed commit intents to BlindOracle.commitPredictionFor and pays their gas. The market pays
+ * the relayer the intent's fee out of the user's vault deposit in the same transaction, and ETH and ERC-20 markets
+ * revert when the spendable deposit doesn't cover it. Only markets of the factory are relayed, since any other
+ * contract could take the gas without paying.
+ *
+ * Users encrypt their prediction and amount for the relayer's address (GET /), sign the intent, then POST it
+ * to /commit. Run with:
+ *
+ *   RELAYER_MIN_FEE=10000000000000 npx hardhat run scripts/relayer.ts --network sepolia
+ *
+ * RELAYER_MIN_FEE is the smallest fee accepted, in collateral base units (default 0).
+ * FACTORY_ADDRESS is the MarketFactory whose markets are relayed (default the Sepolia deployment).
+ * RELAYER_PORT is the HTTP port (default 8787).
+ */
+
+type CommitIntentRequest = {
+  market: string;
+  user: string;
+  prediction: string;
+  amount: string;
+  inputProof: string;
+  relayerFee: string;
+  deadline: string;
+  signature: string;
+};
+
+const PORT = Number(process.env.RELAYER_PORT ?? 8787);
+const MIN_FEE = BigInt(process.env.RELAYER_MIN_FEE ?? 0);
+const FACTORY_ADDRESS = process.env.FACTORY_ADDRESS ?? "0xb8b3a26AD1a1213Cf8c0509442E7B0C766Bd1ebB";
+
+function send(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, {
+    "Content-Type": "application/json",
+    // The frontend calls the relayer from another origin
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Headers": "Content-Type",
+  });
+  res.end(JSON.stringify(body));
+}
+
+async function readBody(req: IncomingMessage): Promise<string> {
+  let body = "";
+  for await (const chunk of req) {
+    body += chunk;
+    if (body.length > 64 * 1024) {
+      throw new Error("Request too large");
+    }
+  }
+  return body;
+}
+
+function parseIntent(body: string): CommitIntentRequest {
+  const intent = JSON.parse(body) as Partial<CommitIntentRequest>;
+  for (const field of ["market", "user"] as const) {
+    if (!ethers.isAddress(intent[field])) {
+      throw new Error(`Invalid ${field} address`);
+    }
+  }
+  for (const field of ["prediction", "amount", "inputProof", "signature"] as const) {
+    if (!ethers.isHexString(intent[field])) {
+      throw new Error(`Invalid ${field}`);
+    }
+  }
+  for (const field of ["relayerFee", "deadline"] as const) {
+    if (typeof intent[field] !== "string" || !/^\d+$/.test(intent[field])) {
+      throw new Error(`Invalid ${field}`);
+    }
+  }
+  return intent as CommitIntentRequest;
+}
+
+async function main() {
+  const [relayer] = await ethers.getSigners();
+  const factory = await ethers.getContractAt("MarketFactory", FACTORY_ADDRESS);
+  console.log(`🚚 Relayer: ${relayer.address}`);
+  console.log(`   Factory: ${FACTORY_ADDRESS}`);
+  console.log(`   Minimum fee: ${MIN_FEE} base units`);
+
+  const server = createServer(async (req, res) => {
+    if (req.method === "OPTIONS") {
+      return send(res, 204, null);
+    }
+    if (req.method === "GET" && req.url === "/") {
+      return send(res, 200, { relayer: relayer.address, minFee: MIN_FEE.toString() });
+    }
+    if (req.method !== "POST" || req.url !== "/commit") {
+      return send(res, 404, { error: "Not found" });
+    }
+
+    try {
+      const intent = parseIntent(await readBody(req));
+      if (BigInt(intent.relayerFee) < MIN_FEE) {
+        return send(res, 400, { error: `Relayer fee below ${MIN_FEE}` });
+      }
+      if (BigInt(intent.deadline) <= BigInt(Math.floor(Date.now() / 1000))) {
+        return send(res, 400, { error: "Intent expired" });
+      }
+      if (!(await factory.isValidMarket(intent.market))) {
+        return send(res, 400, { error: "Unknown market" });
+      }
+
+      const market = await ethers.getContractAt("BlindOracle", intent.market, relayer);
+      const args = [
+        intent.user,
+        intent.prediction,
+        intent.amount,
+        intent.inputProof,
+        intent.relayerFee,
+        intent.deadline,
+        intent.signature,
+      ] as const;
+
+      // Simulate first so a bad intent costs no gas and its revert reason goes back to the user
+      await market.commitPredictionFor.staticCall(...args);
+      const tx = await market.commitPredictionFor(...args);
+      console.log(`✅ Relayed commitment of ${intent.user} to ${intent.market}: ${tx.hash}`);
+
+      return send(res, 200, { hash: tx.hash });
+    } catch (error) {
+      const { shortMessage, message } = error as { shortMessage?: string; message: string };
+      console.error(`❌ ${shortMessage ?? message}`);
+      return send(res, 400, { error: shortMessage ?? message });
+    }
+  });
+
+  server.listen(PORT, () => {
+    console.log(`   Listening on http://localhost:${PORT}`);
+  });
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
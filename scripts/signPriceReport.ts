@@ -0,0 +1,133 @@
+import * as fs from "fs";
+import { ethers } from "hardhat";
+
+/**
+ * PriceOracle report signer
+ *
+ * Signs an EIP-712 PriceReport (asset, price, timestamp) with the signer's key and adds the signature to a
+ * shared report file. Once the file holds as many signatures as the oracle's quorum, the printed report can
+ * settle a price market on a PriceOracle: anyone calls market.settlePriceMarket(0, report). Each signer runs:
+ *
+ *   MARKET_ADDRESS=0x... REPORT_PRICE=3512.45 npx hardhat run scripts/signPriceReport.ts --network sepolia
+ *
+ * MARKET_ADDRESS is the market to settle: the report prices its target asset at its event deadline.
+ * REPORT_ASSET and REPORT_TIMESTAMP (unix seconds) set the asset symbol and time instead.
+ * REPORT_PRICE is the observed USD price, e.g. 3512.45 (only needed by the first signer).
+ * PRICE_ORACLE_ADDRESS is the PriceOracle whose signers sign (default the Sepolia deployment).
+ * REPORT_FILE is the shared report file (default price-report.json).
+ */
+
+type ReportFile = {
+  oracle: string;
+  asset: string;
+  price: string;
+  timestamp: string;
+  signatures: { signer: string; signature: string }[];
+};
+
+const PRICE_ORACLE_ADDRESS = process.env.PRICE_ORACLE_ADDRESS ?? "0x40848462B928B034854c2aE1240711Aae79CF251";
+const REPORT_FILE = process.env.REPORT_FILE ?? "price-report.json";
+
+// Asset and timestamp the report prices: a market's target asset at its event deadline, or the env values
+async function reportTarget(): Promise<{ asset: string; timestamp: bigint }> {
+  if (process.env.MARKET_ADDRESS) {
+    const market = await ethers.getContractAt("BlindOracle", process.env.MARKET_ADDRESS);
+    const [, oracle, asset] = await market.getPriceMarketInfo();
+    if (oracle.toLowerCase() !== PRICE_ORACLE_ADDRESS.toLowerCase()) {
+      throw new Error(`Market settles on oracle ${oracle}, set PRICE_ORACLE_ADDRESS to it`);
+    }
+    return { asset, timestamp: await market.eventDeadline() };
+  }
+  if (!process.env.REPORT_ASSET || !process.env.REPORT_TIMESTAMP) {
+    throw new Error("Set MARKET_ADDRESS, or REPORT_ASSET and REPORT_TIMESTAMP");
+  }
+  return {
+    asset: ethers.encodeBytes32String(process.env.REPORT_ASSET),
+    timestamp: BigInt(process.env.REPORT_TIMESTAMP),
+  };
+}
+
+// The report being signed: the shared file's, or a new one from the env values
+async function loadReport(): Promise<ReportFile> {
+  if (fs.existsSync(REPORT_FILE)) {
+    const report = JSON.parse(fs.readFileSync(REPORT_FILE, "utf8")) as ReportFile;
+    if (report.oracle.toLowerCase() !== PRICE_ORACLE_ADDRESS.toLowerCase()) {
+      throw new Error(`${REPORT_FILE} is a report for oracle ${report.oracle}`);
+    }
+    return report;
+  }
+
+  if (!process.env.REPORT_PRICE) {
+    throw new Error(`No ${REPORT_FILE} yet, set REPORT_PRICE to start a report`);
+  }
+  const { asset, timestamp } = await reportTarget();
+  return {
+    oracle: PRICE_ORACLE_ADDRESS,
+    asset,
+    // The oracle takes prices scaled by 1e8
+    price: ethers.parseUnits(process.env.REPORT_PRICE, 8).toString(),
+    timestamp: timestamp.toString(),
+    signatures: [],
+  };
+}
+
+async function main() {
+  const [signer] = await ethers.getSigners();
+  const PriceOracle = await ethers.getContractAt("PriceOracle", PRICE_ORACLE_ADDRESS);
+  if (!(await PriceOracle.isSigner(signer.address))) {
+    throw new Error(`${signer.address} is not a signer of the oracle`);
+  }
+
+  const report = await loadReport();
+  const symbol = ethers.decodeBytes32String(report.asset);
+  console.log(
+    `Report: ${symbol} at $${ethers.formatUnits(report.price, 8)} ` +
+      `on ${new Date(Number(report.timestamp) * 1000).toISOString()}`,
+  );
+
+  if (report.signatures.some((entry) => entry.signer.toLowerCase() === signer.address.toLowerCase())) {
+    console.log(`${signer.address} already signed this report`);
+  } else {
+    const { chainId } = await ethers.provider.getNetwork();
+    const signature = await signer.signTypedData(
+      { name: "PriceOracle", version: "1", chainId, verifyingContract: PRICE_ORACLE_ADDRESS },
+      {
+        PriceReport: [
+          { name: "asset", type: "bytes32" },
+          { name: "price", type: "uint256" },
+          { name: "timestamp", type: "uint256" },
+        ],
+      },
+      { asset: report.asset, price: report.price, timestamp: report.timestamp },
+    );
+    report.signatures.push({ signer: signer.address, signature });
+    fs.writeFileSync(REPORT_FILE, JSON.stringify(report, null, 2));
+    console.log(`✅ Signed as ${signer.address}, saved to ${REPORT_FILE}`);
+  }
+
+  // The oracle checks distinct signers by requiring them in ascending address order
+  const signatures = [...report.signatures]
+    .sort((a, b) => (BigInt(a.signer) < BigInt(b.signer) ? -1 : 1))
+    .map((entry) => entry.signature);
+  const quorum = await PriceOracle.quorum();
+  console.log(`Signatures: ${signatures.length}/${quorum}`);
+  if (BigInt(signatures.length) < quorum) {
+    return;
+  }
+
+  const encoded = ethers.AbiCoder.defaultAbiCoder().encode(
+    ["uint256", "uint256", "bytes[]"],
+    [report.price, report.timestamp, signatures],
+  );
+  // Dry run against the oracle, pricing the report's own timestamp
+  await PriceOracle.verifyReportAt(report.asset, report.timestamp, encoded);
+  console.log("📝 Report ready, settle with market.settlePriceMarket(0, report):");
+  console.log(encoded);
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
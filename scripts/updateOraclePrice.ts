@@ -1,28 +1,103 @@
 import { ethers } from 'hardhat';
 
-async function main() {
-  const priceOracleAddress = '0x40848462B928B034854c2aE1240711Aae79CF251';
-  
-  const PriceOracle = await ethers.getContractAt('PriceOracle', priceOracleAddress);
-  
-  // 获取当前 ETH 价格（从 Coinbase API）
-  const response = await fetch('https://api.coinbase.com/v2/prices/ETH-USD/spot');
-  const data = await response.json();
-  const ethPrice = parseFloat(data.data.amount);
-  
-  console.log(`Current ETH price: $${ethPrice}`);
-  
-  // 转换为 1e8 格式
-  const priceInOracle = Math.floor(ethPrice * 1e8);
-  
-  console.log(`Updating oracle price to: ${priceInOracle} (${ethPrice} USD)`);
-  
-  // 更新价格
-  const tx = await PriceOracle.updatePrice(0, priceInOracle); // 0 = ETH
-  await tx.wait();
-  
-  console.log('✅ Price updated successfully!');
+/**
+ * PriceOracle reporter
+ *
+ * Reports spot prices to PriceOracle with the signer's key. With a quorum above 1 (PriceOracle.setQuorum), several
+ * updaters run this script, ideally against different price sources, and the oracle records the median of their
+ * reports. Run with:
+ *
+ *   PRICE_SOURCE=binance REPORT_INTERVAL=300 npx hardhat run scripts/updateOraclePrice.ts --network sepolia
+ *
+ * PRICE_ORACLE_ADDRESS is the PriceOracle to report to (default the Sepolia deployment).
+ * ORACLE_ASSETS is a comma-separated list of asset symbols (default ETH).
+ * PRICE_SOURCE is coinbase or binance (default coinbase).
+ * REPORT_INTERVAL is the number of seconds between reports; without it the script reports once and exits.
+ */
+
+const PRICE_ORACLE_ADDRESS = process.env.PRICE_ORACLE_ADDRESS ?? '0x40848462B928B034854c2aE1240711Aae79CF251';
+const ASSETS = (process.env.ORACLE_ASSETS ?? 'ETH').split(',').map((symbol) => symbol.trim()).filter(Boolean);
+const PRICE_SOURCE = process.env.PRICE_SOURCE ?? 'coinbase';
+const REPORT_INTERVAL = Number(process.env.REPORT_INTERVAL ?? 0);
+
+// USD spot price of an asset from the configured source
+async function fetchPrice(symbol: string): Promise<number> {
+  if (PRICE_SOURCE === 'binance') {
+    const response = await fetch(`https://api.binance.com/api/v3/ticker/price?symbol=${symbol.toUpperCase()}USDT`);
+    const data = await response.json();
+    return parseFloat(data.price);
+  }
+  if (PRICE_SOURCE === 'coinbase') {
+    const response = await fetch(`https://api.coinbase.com/v2/prices/${symbol.toUpperCase()}-USD/spot`);
+    const data = await response.json();
+    return parseFloat(data.data.amount);
+  }
+  throw new Error(`Unknown price source: ${PRICE_SOURCE}`);
+}
+
+async function report() {
+  const [reporter] = await ethers.getSigners();
+  const PriceOracle = await ethers.getContractAt('PriceOracle', PRICE_ORACLE_ADDRESS);
+  const quorum = await PriceOracle.quorum();
+
+  const assets: string[] = [];
+  const prices: bigint[] = [];
+  for (const symbol of ASSETS) {
+    const asset = ethers.encodeBytes32String(symbol);
+    // Each updater reports once per round, the next report waits for the round to complete
+    if (await PriceOracle.hasReported(asset, reporter.address)) {
+      const pending = await PriceOracle.getPendingReports(asset);
+      console.log(`${symbol}: already reported, waiting for the quorum (${pending.length}/${quorum})`);
+      continue;
+    }
+
+    const price = await fetchPrice(symbol);
+    if (!(price > 0)) {
+      console.log(`${symbol}: no price from ${PRICE_SOURCE}, skipping`);
+      continue;
+    }
+
+    // The oracle takes prices scaled by 1e8
+    const priceInOracle = BigInt(Math.floor(price * 1e8));
+    console.log(`${symbol}: reporting ${priceInOracle} (${price} USD from ${PRICE_SOURCE})`);
+    assets.push(asset);
+    prices.push(priceInOracle);
+  }
+
+  if (assets.length === 0) return;
+
+  const tx = await PriceOracle.updatePrices(assets, prices);
+  const receipt = await tx.wait();
+  console.log(`✅ Reported ${assets.length} price(s) as ${reporter.address}`);
   console.log(`Transaction hash: ${tx.hash}`);
+
+  for (const log of receipt?.logs ?? []) {
+    const event = PriceOracle.interface.parseLog(log);
+    if (event?.name === 'PriceUpdated') {
+      console.log(`📈 ${ethers.decodeBytes32String(event.args.asset)} recorded at ${event.args.price}`);
+    } else if (event?.name === 'OutlierReported') {
+      console.log(
+        `⚠️ Outlier from ${event.args.updater}: ${event.args.price} (median ${event.args.median})`
+      );
+    }
+  }
+}
+
+async function main() {
+  if (!REPORT_INTERVAL) {
+    await report();
+    return;
+  }
+
+  for (;;) {
+    try {
+      await report();
+    } catch (error) {
+      // Keep reporting through transient RPC or price source failures
+      console.error(error);
+    }
+    await new Promise((resolve) => setTimeout(resolve, REPORT_INTERVAL * 1000));
+  }
 }
 
 main()
@@ -31,4 +106,3 @@ main()
     console.error(error);
     process.exit(1);
   });
-
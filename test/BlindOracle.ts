@@ -1,4 +1,5 @@
-import { BlindOracle, BlindOracle__factory } from "../types";
+import { BlindOracle } from "../types";
+import { MarketLibraries, NO_FEES, deployLibraries, deployMarket, depositAndCommit } from "./helpers";
 import { FhevmType } from "@fhevm/hardhat-plugin";
 import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
 import { expect } from "chai";
@@ -9,28 +10,30 @@ type Signers = {
   alice: HardhatEthersSigner;
   bob: HardhatEthersSigner;
   charlie: HardhatEthersSigner;
+  arbiter: HardhatEthersSigner;
 };
 
 describe("BlindOracle - Privacy-Preserving Prediction Market", function () {
   let signers: Signers;
+  let libraries: MarketLibraries;
   let blindOracleContract: BlindOracle;
   let contractAddress: string;
 
   const EVENT_DESCRIPTION = "Will Bitcoin reach $100,000 by end of 2025?";
   const COMMITMENT_DURATION = 3600; // 1 hour
   const EVENT_DURATION = 86400 * 30; // 30 days
-
-  async function deployFixture() {
-    const factory = (await ethers.getContractFactory("BlindOracle")) as BlindOracle__factory;
-    const contract = (await factory.deploy(
-      0, // MarketType.Event
-      EVENT_DESCRIPTION,
-      COMMITMENT_DURATION,
-      EVENT_DURATION,
-      ethers.ZeroAddress, // No oracle for event market
-      0, // No asset
-      0  // No target price
-    )) as BlindOracle;
+  const REFUND_GRACE_PERIOD = 7 * 86400; // 7 days
+
+  async function deployFixture(fees = NO_FEES, arbiter = signers.arbiter.address) {
+    const contract = await deployMarket(libraries, {
+      owner: signers.deployer.address,
+      description: EVENT_DESCRIPTION,
+      commitmentDuration: COMMITMENT_DURATION,
+      eventDuration: EVENT_DURATION,
+      refundGracePeriod: REFUND_GRACE_PERIOD,
+      arbiter, // Rules on disputed settlements
+      fees,
+    });
     const address = await contract.getAddress();
 
     return { contract, address };
@@ -43,7 +46,10 @@ describe("BlindOracle - Privacy-Preserving Prediction Market", function () {
       alice: ethSigners[1],
       bob: ethSigners[2],
       charlie: ethSigners[3],
+      arbiter: ethSigners[4],
     };
+
+    libraries = await deployLibraries();
   });
 
   beforeEach(async () => {
@@ -64,6 +70,13 @@ describe("BlindOracle - Privacy-Preserving Prediction Market", function () {
       expect(eventDesc).to.eq(EVENT_DESCRIPTION);
       expect(owner).to.eq(signers.deployer.address);
       expect(phase).to.eq(0); // Phase.BlindCommitment
+      expect(await blindOracleContract.arbiter()).to.eq(signers.arbiter.address);
+    });
+
+    it("should require an arbiter other than the owner", async function () {
+      for (const arbiter of [ethers.ZeroAddress, signers.deployer.address]) {
+        await expect(deployFixture(NO_FEES, arbiter)).to.be.revertedWith("Invalid arbiter address");
+      }
     });
   });
 
@@ -79,6 +92,7 @@ describe("BlindOracle - Privacy-Preserving Prediction Market", function () {
         .add64(Number(betAmount))
         .encrypt();
 
+      await blindOracleContract.connect(signers.alice).deposit({ value: betAmount });
       // Commit prediction
       const tx = await blindOracleContract
         .connect(signers.alice)
@@ -86,8 +100,7 @@ describe("BlindOracle - Privacy-Preserving Prediction Market", function () {
           encryptedInput.handles[0],
           encryptedInput.handles[1],
           encryptedInput.inputProof,
-          encryptedInput.inputProof,
-          { value: betAmount }
+          encryptedInput.inputProof
         );
 
       await tx.wait();
@@ -111,6 +124,7 @@ describe("BlindOracle - Privacy-Preserving Prediction Market", function () {
         .add64(Number(betAmount))
         .encrypt();
 
+      await blindOracleContract.connect(signers.bob).deposit({ value: betAmount });
       // Commit prediction
       const tx = await blindOracleContract
         .connect(signers.bob)
@@ -118,8 +132,7 @@ describe("BlindOracle - Privacy-Preserving Prediction Market", function () {
           encryptedInput.handles[0],
           encryptedInput.handles[1],
           encryptedInput.inputProof,
-          encryptedInput.inputProof,
-          { value: betAmount }
+          encryptedInput.inputProof
         );
 
       await tx.wait();
@@ -138,14 +151,14 @@ describe("BlindOracle - Privacy-Preserving Prediction Market", function () {
         .add64(Number(aliceBet))
         .encrypt();
 
+      await blindOracleContract.connect(signers.alice).deposit({ value: aliceBet });
       await blindOracleContract
         .connect(signers.alice)
         .commitPrediction(
           aliceInput.handles[0],
           aliceInput.handles[1],
           aliceInput.inputProof,
-          aliceInput.inputProof,
-          { value: aliceBet }
+          aliceInput.inputProof
         );
 
       // Bob commits NO with 2 ETH
@@ -156,14 +169,14 @@ describe("BlindOracle - Privacy-Preserving Prediction Market", function () {
         .add64(Number(bobBet))
         .encrypt();
 
+      await blindOracleContract.connect(signers.bob).deposit({ value: bobBet });
       await blindOracleContract
         .connect(signers.bob)
         .commitPrediction(
           bobInput.handles[0],
           bobInput.handles[1],
           bobInput.inputProof,
-          bobInput.inputProof,
-          { value: bobBet }
+          bobInput.inputProof
         );
 
       // Charlie commits YES with 1.5 ETH
@@ -174,14 +187,14 @@ describe("BlindOracle - Privacy-Preserving Prediction Market", function () {
         .add64(Number(charlieBet))
         .encrypt();
 
+      await blindOracleContract.connect(signers.charlie).deposit({ value: charlieBet });
       await blindOracleContract
         .connect(signers.charlie)
         .commitPrediction(
           charlieInput.handles[0],
           charlieInput.handles[1],
           charlieInput.inputProof,
-          charlieInput.inputProof,
-          { value: charlieBet }
+          charlieInput.inputProof
         );
 
       // Verify all commitments
@@ -201,14 +214,14 @@ describe("BlindOracle - Privacy-Preserving Prediction Market", function () {
         .encrypt();
 
       // First commitment
+      await blindOracleContract.connect(signers.alice).deposit({ value: betAmount });
       await blindOracleContract
         .connect(signers.alice)
         .commitPrediction(
           encryptedInput.handles[0],
           encryptedInput.handles[1],
           encryptedInput.inputProof,
-          encryptedInput.inputProof,
-          { value: betAmount }
+          encryptedInput.inputProof
         );
 
       // Second commitment should fail
@@ -219,13 +232,12 @@ describe("BlindOracle - Privacy-Preserving Prediction Market", function () {
             encryptedInput.handles[0],
             encryptedInput.handles[1],
             encryptedInput.inputProof,
-            encryptedInput.inputProof,
-            { value: betAmount }
+            encryptedInput.inputProof
           )
       ).to.be.revertedWith("Already committed");
     });
 
-    it("should prevent commitment without ETH", async function () {
+    it("should prevent commitment without a vault deposit", async function () {
       const encryptedInput = await fhevm
         .createEncryptedInput(contractAddress, signers.alice.address)
         .add8(1)
@@ -239,10 +251,9 @@ describe("BlindOracle - Privacy-Preserving Prediction Market", function () {
             encryptedInput.handles[0],
             encryptedInput.handles[1],
             encryptedInput.inputProof,
-            encryptedInput.inputProof,
-            { value: 0 }
+            encryptedInput.inputProof
           )
-      ).to.be.revertedWith("Must send ETH with commitment");
+      ).to.be.revertedWith("Deposit to your vault balance first");
     });
 
     it("should allow users to retrieve their encrypted commitment", async function () {
@@ -255,14 +266,14 @@ describe("BlindOracle - Privacy-Preserving Prediction Market", function () {
         .add64(Number(betAmount))
         .encrypt();
 
+      await blindOracleContract.connect(signers.alice).deposit({ value: betAmount });
       await blindOracleContract
         .connect(signers.alice)
         .commitPrediction(
           encryptedInput.handles[0],
           encryptedInput.handles[1],
           encryptedInput.inputProof,
-          encryptedInput.inputProof,
-          { value: betAmount }
+          encryptedInput.inputProof
         );
 
       // Get encrypted commitment
@@ -288,6 +299,591 @@ describe("BlindOracle - Privacy-Preserving Prediction Market", function () {
     });
   });
 
+  describe("Confidential Balance Vault", function () {
+    async function decryptMyBalance(signer: HardhatEthersSigner) {
+      const balanceHandle = await blindOracleContract.connect(signer).getMyBalance();
+      return fhevm.userDecryptEuint(FhevmType.euint64, balanceHandle, contractAddress, signer);
+    }
+
+    it("should credit deposits to the encrypted balance", async function () {
+      await blindOracleContract.connect(signers.alice).deposit({ value: ethers.parseEther("1.0") });
+      await blindOracleContract.connect(signers.alice).deposit({ value: ethers.parseEther("0.5") });
+
+      expect(await blindOracleContract.hasDeposited(signers.alice.address)).to.eq(true);
+      expect(await decryptMyBalance(signers.alice)).to.eq(ethers.parseEther("1.5"));
+    });
+
+    it("should refuse deposits whose total the encrypted balance can't hold", async function () {
+      // An euint64 holds up to ~18.45 ETH in wei, so a second 10 ETH deposit would wrap the balance
+      await blindOracleContract.connect(signers.alice).deposit({ value: ethers.parseEther("10.0") });
+      await expect(
+        blindOracleContract.connect(signers.alice).deposit({ value: ethers.parseEther("10.0") })
+      ).to.be.revertedWith("Deposit too large");
+
+      await blindOracleContract.connect(signers.alice).deposit({ value: ethers.parseEther("8.0") });
+      expect(await blindOracleContract.depositedAmounts(signers.alice.address)).to.eq(ethers.parseEther("18.0"));
+      expect(await decryptMyBalance(signers.alice)).to.eq(ethers.parseEther("18.0"));
+    });
+
+    it("should debit the committed amount from the vault balance", async function () {
+      const betAmount = ethers.parseEther("0.5");
+      await blindOracleContract.connect(signers.alice).deposit({ value: ethers.parseEther("2.0") });
+
+      const encryptedInput = await fhevm
+        .createEncryptedInput(contractAddress, signers.alice.address)
+        .add8(1)
+        .add64(Number(betAmount))
+        .encrypt();
+
+      await blindOracleContract
+        .connect(signers.alice)
+        .commitPrediction(
+          encryptedInput.handles[0],
+          encryptedInput.handles[1],
+          encryptedInput.inputProof,
+          encryptedInput.inputProof
+        );
+
+      expect(await decryptMyBalance(signers.alice)).to.eq(ethers.parseEther("1.5"));
+    });
+
+    it("should record a zero bet when the encrypted amount exceeds the balance", async function () {
+      await blindOracleContract.connect(signers.alice).deposit({ value: ethers.parseEther("1.0") });
+
+      const encryptedInput = await fhevm
+        .createEncryptedInput(contractAddress, signers.alice.address)
+        .add8(1)
+        .add64(Number(ethers.parseEther("5.0")))
+        .encrypt();
+
+      await blindOracleContract
+        .connect(signers.alice)
+        .commitPrediction(
+          encryptedInput.handles[0],
+          encryptedInput.handles[1],
+          encryptedInput.inputProof,
+          encryptedInput.inputProof
+        );
+
+      const commitment = await blindOracleContract.connect(signers.alice).getMyCommitment();
+      const committedAmount = await fhevm.userDecryptEuint(
+        FhevmType.euint64,
+        commitment.amount,
+        contractAddress,
+        signers.alice
+      );
+
+      expect(committedAmount).to.eq(0);
+      expect(await decryptMyBalance(signers.alice)).to.eq(ethers.parseEther("1.0"));
+    });
+
+    it("should pay out a withdrawal through the decryption callback", async function () {
+      await blindOracleContract.connect(signers.alice).deposit({ value: ethers.parseEther("1.0") });
+
+      await blindOracleContract.connect(signers.alice).requestWithdrawal(ethers.parseEther("0.4"));
+      expect(await blindOracleContract.hasPendingWithdrawal(signers.alice.address)).to.eq(true);
+
+      await fhevm.awaitDecryptionOracle();
+
+      expect(await blindOracleContract.hasPendingWithdrawal(signers.alice.address)).to.eq(false);
+      expect(await blindOracleContract.getBalance()).to.eq(ethers.parseEther("0.6"));
+      expect(await decryptMyBalance(signers.alice)).to.eq(ethers.parseEther("0.6"));
+    });
+
+    it("should pay out nothing when a withdrawal exceeds the balance", async function () {
+      await blindOracleContract.connect(signers.alice).deposit({ value: ethers.parseEther("1.0") });
+
+      await blindOracleContract.connect(signers.alice).requestWithdrawal(ethers.parseEther("2.0"));
+      await fhevm.awaitDecryptionOracle();
+
+      expect(await blindOracleContract.getBalance()).to.eq(ethers.parseEther("1.0"));
+      expect(await decryptMyBalance(signers.alice)).to.eq(ethers.parseEther("1.0"));
+    });
+
+    it("should prevent a second withdrawal while one is pending", async function () {
+      await blindOracleContract.connect(signers.alice).deposit({ value: ethers.parseEther("1.0") });
+      await blindOracleContract.connect(signers.alice).requestWithdrawal(ethers.parseEther("0.1"));
+
+      await expect(
+        blindOracleContract.connect(signers.alice).requestWithdrawal(ethers.parseEther("0.1"))
+      ).to.be.revertedWith("Withdrawal already pending");
+    });
+  });
+
+  describe("Modifying a Commitment", function () {
+    async function increase(signer: HardhatEthersSigner, extra: bigint) {
+      const encryptedInput = await fhevm.createEncryptedInput(contractAddress, signer.address).add64(extra).encrypt();
+      return blindOracleContract
+        .connect(signer)
+        .increaseCommitment(encryptedInput.handles[0], encryptedInput.inputProof);
+    }
+
+    async function revise(signer: HardhatEthersSigner, prediction: number) {
+      const encryptedInput = await fhevm.createEncryptedInput(contractAddress, signer.address).add8(prediction).encrypt();
+      return blindOracleContract
+        .connect(signer)
+        .revisePrediction(encryptedInput.handles[0], encryptedInput.inputProof);
+    }
+
+    async function decryptMyCommitment(signer: HardhatEthersSigner) {
+      const commitment = await blindOracleContract.connect(signer).getMyCommitment();
+      return {
+        prediction: await fhevm.userDecryptEuint(FhevmType.euint8, commitment.prediction, contractAddress, signer),
+        amount: await fhevm.userDecryptEuint(FhevmType.euint64, commitment.amount, contractAddress, signer),
+      };
+    }
+
+    async function decryptTotals() {
+      await ethers.provider.send("evm_increaseTime", [COMMITMENT_DURATION + 1]);
+      await ethers.provider.send("evm_mine", []);
+      await blindOracleContract.aggregateBets();
+      await blindOracleContract.requestAggregateDecryption();
+      await fhevm.awaitDecryptionOracle();
+      return [await blindOracleContract.totalNoAmount(), await blindOracleContract.totalYesAmount()];
+    }
+
+    it("should add a top-up to the same side without a second participant entry", async function () {
+      await depositAndCommit(blindOracleContract, signers.alice, ethers.parseEther("2.0"), 1, ethers.parseEther("1.0"));
+      await expect(increase(signers.alice, ethers.parseEther("0.5")))
+        .to.emit(blindOracleContract, "CommitmentIncreased")
+        .withArgs(signers.alice.address);
+
+      expect(await decryptMyCommitment(signers.alice)).to.deep.eq({ prediction: 1n, amount: ethers.parseEther("1.5") });
+      expect(await blindOracleContract.getParticipantCount()).to.eq(1);
+      expect(await decryptTotals()).to.deep.eq([0n, ethers.parseEther("1.5")]);
+    });
+
+    it("should add nothing when the top-up exceeds the vault balance", async function () {
+      await depositAndCommit(blindOracleContract, signers.alice, ethers.parseEther("1.0"), 1, ethers.parseEther("1.0"));
+      await increase(signers.alice, ethers.parseEther("0.1"));
+
+      expect((await decryptMyCommitment(signers.alice)).amount).to.eq(ethers.parseEther("1.0"));
+    });
+
+    it("should add nothing to a bet on an out-of-range outcome", async function () {
+      // The bet itself was debited as 0, and a top-up would otherwise leave the vault without reaching any total
+      await depositAndCommit(blindOracleContract, signers.alice, ethers.parseEther("2.0"), 5, ethers.parseEther("1.0"));
+      await increase(signers.alice, ethers.parseEther("0.5"));
+
+      expect((await decryptMyCommitment(signers.alice)).amount).to.eq(0n);
+      const balanceHandle = await blindOracleContract.connect(signers.alice).getMyBalance();
+      expect(await fhevm.userDecryptEuint(FhevmType.euint64, balanceHandle, contractAddress, signers.alice)).to.eq(
+        ethers.parseEther("2.0")
+      );
+    });
+
+    it("should move the whole bet to the revised side", async function () {
+      await depositAndCommit(blindOracleContract, signers.alice, ethers.parseEther("1.0"), 1, ethers.parseEther("1.0"));
+      await depositAndCommit(blindOracleContract, signers.bob, ethers.parseEther("2.0"), 0, ethers.parseEther("2.0"));
+      await expect(revise(signers.alice, 0))
+        .to.emit(blindOracleContract, "PredictionRevised")
+        .withArgs(signers.alice.address);
+
+      expect(await decryptMyCommitment(signers.alice)).to.deep.eq({ prediction: 0n, amount: ethers.parseEther("1.0") });
+      expect(await blindOracleContract.getParticipantCount()).to.eq(2);
+      expect(await decryptTotals()).to.deep.eq([ethers.parseEther("3.0"), 0n]);
+    });
+
+    it("should keep the current side when the revised outcome is out of range", async function () {
+      await depositAndCommit(blindOracleContract, signers.alice, ethers.parseEther("1.0"), 1, ethers.parseEther("1.0"));
+      await revise(signers.alice, 5);
+
+      expect((await decryptMyCommitment(signers.alice)).prediction).to.eq(1);
+      expect(await decryptTotals()).to.deep.eq([0n, ethers.parseEther("1.0")]);
+    });
+
+    it("should only modify an existing commitment before the deadline", async function () {
+      await expect(revise(signers.alice, 0)).to.be.revertedWith("No commitment found");
+
+      await depositAndCommit(blindOracleContract, signers.alice, ethers.parseEther("2.0"), 1, ethers.parseEther("1.0"));
+      await ethers.provider.send("evm_increaseTime", [COMMITMENT_DURATION + 1]);
+      await ethers.provider.send("evm_mine", []);
+
+      await expect(increase(signers.alice, ethers.parseEther("0.5"))).to.be.revertedWith("Commitment period has ended");
+      await expect(revise(signers.alice, 0)).to.be.revertedWith("Commitment period has ended");
+    });
+  });
+
+  describe("Withdrawing a Commitment", function () {
+    const EXIT_PENALTY_BPS = 1000; // 10%
+
+    async function closeCommitments() {
+      await ethers.provider.send("evm_increaseTime", [COMMITMENT_DURATION + 1]);
+      await ethers.provider.send("evm_mine", []);
+      await blindOracleContract.aggregateBets();
+      await blindOracleContract.requestAggregateDecryption();
+      await fhevm.awaitDecryptionOracle();
+    }
+
+    beforeEach(async function () {
+      ({ contract: blindOracleContract, address: contractAddress } = await deployFixture({
+        ...NO_FEES,
+        exitPenaltyBps: EXIT_PENALTY_BPS,
+      }));
+    });
+
+    it("should refund the bet minus the penalty and take it out of the totals", async function () {
+      await depositAndCommit(blindOracleContract, signers.alice, ethers.parseEther("2.0"), 1, ethers.parseEther("1.0"));
+      await depositAndCommit(blindOracleContract, signers.bob, ethers.parseEther("1.0"), 0, ethers.parseEther("1.0"));
+
+      await expect(blindOracleContract.connect(signers.alice).withdrawCommitment()).to.emit(
+        blindOracleContract,
+        "WithdrawalRequested"
+      );
+      expect(await blindOracleContract.hasPendingWithdrawal(signers.alice.address)).to.eq(true);
+      expect(await blindOracleContract.hasUserCommitted(signers.alice.address)).to.eq(false);
+      expect(await blindOracleContract.getParticipantCount()).to.eq(1);
+      expect(await blindOracleContract.participants(0)).to.eq(signers.bob.address);
+
+      const balanceBefore = await ethers.provider.getBalance(signers.alice.address);
+      await fhevm.awaitDecryptionOracle();
+      const balanceAfter = await ethers.provider.getBalance(signers.alice.address);
+
+      expect(balanceAfter - balanceBefore).to.eq(ethers.parseEther("0.9"));
+      expect(await blindOracleContract.hasPendingWithdrawal(signers.alice.address)).to.eq(false);
+      expect(await blindOracleContract.exitPenalties()).to.eq(ethers.parseEther("0.1"));
+      // The penalty stays refundable if the market is cancelled
+      expect(await blindOracleContract.depositedAmounts(signers.alice.address)).to.eq(ethers.parseEther("1.1"));
+
+      await closeCommitments();
+      expect(await blindOracleContract.totalYesAmount()).to.eq(0n);
+      expect(await blindOracleContract.totalNoAmount()).to.eq(ethers.parseEther("1.0"));
+    });
+
+    it("should add the penalty to the winner pool", async function () {
+      await depositAndCommit(blindOracleContract, signers.alice, ethers.parseEther("1.0"), 0, ethers.parseEther("1.0"));
+      await depositAndCommit(blindOracleContract, signers.bob, ethers.parseEther("1.0"), 1, ethers.parseEther("1.0"));
+      await depositAndCommit(
+        blindOracleContract,
+        signers.charlie,
+        ethers.parseEther("1.0"),
+        0,
+        ethers.parseEther("1.0"),
+      );
+      await blindOracleContract.connect(signers.alice).withdrawCommitment();
+      await fhevm.awaitDecryptionOracle();
+      await closeCommitments();
+
+      await blindOracleContract.depositOwnerStake({ value: ethers.parseEther("0.2") });
+      await ethers.provider.send("evm_increaseTime", [EVENT_DURATION]);
+      await ethers.provider.send("evm_mine", []);
+      await blindOracleContract.proposeSettlement(true);
+      await ethers.provider.send("evm_increaseTime", [24 * 3600]);
+      await ethers.provider.send("evm_mine", []);
+      await blindOracleContract.finalizeSettlement();
+
+      expect(await blindOracleContract.winnerPool()).to.eq(ethers.parseEther("2.1"));
+    });
+
+    it("should let the user commit again without a second participant entry", async function () {
+      await depositAndCommit(blindOracleContract, signers.alice, ethers.parseEther("1.0"), 1, ethers.parseEther("1.0"));
+      await blindOracleContract.connect(signers.alice).withdrawCommitment();
+      await fhevm.awaitDecryptionOracle();
+
+      await depositAndCommit(blindOracleContract, signers.alice, ethers.parseEther("0.5"), 0, ethers.parseEther("0.5"));
+      expect(await blindOracleContract.getParticipantCount()).to.eq(1);
+
+      await closeCommitments();
+      expect(await blindOracleContract.totalNoAmount()).to.eq(ethers.parseEther("0.5"));
+      expect(await blindOracleContract.totalYesAmount()).to.eq(0n);
+    });
+
+    it("should hold aggregation until every withdrawal is paid out", async function () {
+      await depositAndCommit(blindOracleContract, signers.alice, ethers.parseEther("1.0"), 1, ethers.parseEther("1.0"));
+      await depositAndCommit(blindOracleContract, signers.bob, ethers.parseEther("1.0"), 0, ethers.parseEther("1.0"));
+      await blindOracleContract.connect(signers.alice).withdrawCommitment();
+
+      await ethers.provider.send("evm_increaseTime", [COMMITMENT_DURATION + 1]);
+      await ethers.provider.send("evm_mine", []);
+      await expect(blindOracleContract.aggregateBets()).to.be.revertedWith("Commitment withdrawal pending");
+
+      await fhevm.awaitDecryptionOracle();
+      await blindOracleContract.aggregateBets();
+    });
+
+    it("should let anyone cancel when a withdrawal callback never arrives", async function () {
+      await depositAndCommit(blindOracleContract, signers.alice, ethers.parseEther("1.0"), 1, ethers.parseEther("1.0"));
+      await depositAndCommit(blindOracleContract, signers.bob, ethers.parseEther("1.0"), 0, ethers.parseEther("1.0"));
+      await blindOracleContract.connect(signers.alice).withdrawCommitment();
+
+      const commitmentDeadline = await blindOracleContract.commitmentDeadline();
+      expect(await blindOracleContract.getCancellableAt()).to.eq(commitmentDeadline + BigInt(REFUND_GRACE_PERIOD));
+      await ethers.provider.send("evm_increaseTime", [COMMITMENT_DURATION + 1]);
+      await ethers.provider.send("evm_mine", []);
+      await expect(blindOracleContract.cancelMarket()).to.be.revertedWith("Grace period not ended");
+
+      await ethers.provider.send("evm_increaseTime", [REFUND_GRACE_PERIOD]);
+      await ethers.provider.send("evm_mine", []);
+      await blindOracleContract.connect(signers.charlie).cancelMarket();
+      expect(await blindOracleContract.currentPhase()).to.eq(4); // Phase.Cancelled
+
+      // The withdrawal never paid out, so Alice gets their whole deposit back without the penalty
+      await expect(blindOracleContract.connect(signers.alice).claimRefund()).to.changeEtherBalance(
+        signers.alice,
+        ethers.parseEther("1.0")
+      );
+      await expect(blindOracleContract.connect(signers.bob).claimRefund()).to.changeEtherBalance(
+        signers.bob,
+        ethers.parseEther("1.0")
+      );
+
+      // A callback arriving after the refund pays nothing
+      await fhevm.awaitDecryptionOracle();
+      expect(await ethers.provider.getBalance(contractAddress)).to.eq(0n);
+    });
+
+    it("should only withdraw an open commitment with no other withdrawal pending", async function () {
+      await expect(blindOracleContract.connect(signers.alice).withdrawCommitment()).to.be.revertedWith(
+        "No commitment found"
+      );
+
+      await depositAndCommit(blindOracleContract, signers.alice, ethers.parseEther("2.0"), 1, ethers.parseEther("1.0"));
+      await blindOracleContract.connect(signers.alice).requestWithdrawal(ethers.parseEther("0.5"));
+      await expect(blindOracleContract.connect(signers.alice).withdrawCommitment()).to.be.revertedWith(
+        "Withdrawal already pending"
+      );
+
+      await ethers.provider.send("evm_increaseTime", [COMMITMENT_DURATION + 1]);
+      await ethers.provider.send("evm_mine", []);
+      await expect(blindOracleContract.connect(signers.alice).withdrawCommitment()).to.be.revertedWith(
+        "Commitment period has ended"
+      );
+    });
+  });
+
+  describe("Gasless Commitments", function () {
+    const RELAYER_FEE = ethers.parseEther("0.01");
+    const COMMIT_INTENT_TYPES = {
+      CommitIntent: [
+        { name: "prediction", type: "bytes32" },
+        { name: "amount", type: "bytes32" },
+        { name: "relayerFee", type: "uint64" },
+        { name: "nonce", type: "uint256" },
+        { name: "deadline", type: "uint256" },
+      ],
+    };
+
+    // The user encrypts for the relayer, who sends the transaction, and signs the intent
+    async function signIntent(
+      user: HardhatEthersSigner,
+      relayer: HardhatEthersSigner,
+      prediction: number,
+      betAmount: bigint,
+      overrides: { signer?: HardhatEthersSigner; deadline?: number } = {}
+    ) {
+      const encryptedInput = await fhevm
+        .createEncryptedInput(contractAddress, relayer.address)
+        .add8(prediction)
+        .add64(betAmount)
+        .encrypt();
+      const latest = (await ethers.provider.getBlock("latest"))!.timestamp;
+      const intent = {
+        prediction: ethers.hexlify(encryptedInput.handles[0]),
+        amount: ethers.hexlify(encryptedInput.handles[1]),
+        relayerFee: RELAYER_FEE,
+        nonce: await blindOracleContract.intentNonces(user.address),
+        deadline: overrides.deadline ?? latest + 600,
+      };
+      const domain = {
+        name: "BlindOracle",
+        version: "1",
+        chainId: (await ethers.provider.getNetwork()).chainId,
+        verifyingContract: contractAddress,
+      };
+      const signature = await (overrides.signer ?? user).signTypedData(domain, COMMIT_INTENT_TYPES, intent);
+
+      return { ...intent, inputProof: encryptedInput.inputProof, signature };
+    }
+
+    function relay(user: HardhatEthersSigner, relayer: HardhatEthersSigner, intent: Awaited<ReturnType<typeof signIntent>>) {
+      return blindOracleContract
+        .connect(relayer)
+        .commitPredictionFor(
+          user.address,
+          intent.prediction,
+          intent.amount,
+          intent.inputProof,
+          intent.relayerFee,
+          intent.deadline,
+          intent.signature
+        );
+    }
+
+    it("should commit for the signer and pay the relayer out of their deposit", async function () {
+      await blindOracleContract.connect(signers.alice).deposit({ value: ethers.parseEther("1.0") });
+      const intent = await signIntent(signers.alice, signers.charlie, 1, ethers.parseEther("0.5"));
+
+      // The fee is paid with the relay, without taking up the user's withdrawal slot
+      const tx = relay(signers.alice, signers.charlie, intent);
+      await expect(tx)
+        .to.emit(blindOracleContract, "CommitmentRelayed")
+        .withArgs(signers.alice.address, signers.charlie.address, RELAYER_FEE);
+      await expect(tx).to.changeEtherBalance(signers.charlie, RELAYER_FEE);
+      expect(await blindOracleContract.hasPendingWithdrawal(signers.alice.address)).to.eq(false);
+
+      expect(await blindOracleContract.hasUserCommitted(signers.alice.address)).to.eq(true);
+      expect(await blindOracleContract.hasUserCommitted(signers.charlie.address)).to.eq(false);
+      expect(await blindOracleContract.intentNonces(signers.alice.address)).to.eq(1n);
+      expect(await blindOracleContract.depositedAmounts(signers.alice.address)).to.eq(ethers.parseEther("0.99"));
+
+      const commitment = await blindOracleContract.connect(signers.alice).getMyCommitment();
+      expect(
+        await fhevm.userDecryptEuint(FhevmType.euint64, commitment.amount, contractAddress, signers.alice)
+      ).to.eq(ethers.parseEther("0.5"));
+      const balanceHandle = await blindOracleContract.connect(signers.alice).getMyBalance();
+      expect(await fhevm.userDecryptEuint(FhevmType.euint64, balanceHandle, contractAddress, signers.alice)).to.eq(
+        ethers.parseEther("0.49")
+      );
+    });
+
+    it("should reject an intent that is not signed by the user", async function () {
+      await blindOracleContract.connect(signers.alice).deposit({ value: ethers.parseEther("1.0") });
+      const intent = await signIntent(signers.alice, signers.charlie, 1, ethers.parseEther("0.5"), {
+        signer: signers.bob,
+      });
+
+      await expect(relay(signers.alice, signers.charlie, intent)).to.be.revertedWith("Invalid intent signature");
+    });
+
+    it("should not relay an intent twice", async function () {
+      await blindOracleContract.connect(signers.alice).deposit({ value: ethers.parseEther("1.0") });
+      const intent = await signIntent(signers.alice, signers.charlie, 1, ethers.parseEther("0.5"));
+      await relay(signers.alice, signers.charlie, intent);
+
+      await expect(relay(signers.alice, signers.charlie, intent)).to.be.revertedWith("Invalid intent signature");
+    });
+
+    it("should reject an expired intent", async function () {
+      await blindOracleContract.connect(signers.alice).deposit({ value: ethers.parseEther("1.0") });
+      const latest = (await ethers.provider.getBlock("latest"))!.timestamp;
+      const intent = await signIntent(signers.alice, signers.charlie, 1, ethers.parseEther("0.5"), {
+        deadline: latest - 1,
+      });
+
+      await expect(relay(signers.alice, signers.charlie, intent)).to.be.revertedWith("Intent expired");
+    });
+
+    it("should not relay while a withdrawal is pending", async function () {
+      await blindOracleContract.connect(signers.alice).deposit({ value: ethers.parseEther("1.0") });
+      // The whole balance leaves the vault at once, while the deposit is only reduced by the withdrawal callback
+      await blindOracleContract.connect(signers.alice).requestWithdrawal(ethers.parseEther("1.0"));
+      const intent = await signIntent(signers.alice, signers.charlie, 1, ethers.parseEther("0.5"));
+
+      await expect(relay(signers.alice, signers.charlie, intent)).to.be.revertedWith("Withdrawal already pending");
+    });
+
+    it("should not charge a fee larger than the user's deposit", async function () {
+      await blindOracleContract.connect(signers.alice).deposit({ value: ethers.parseEther("0.005") });
+      const intent = await signIntent(signers.alice, signers.charlie, 1, ethers.parseEther("0.001"));
+
+      await expect(relay(signers.alice, signers.charlie, intent)).to.be.revertedWith("Relayer fee exceeds balance");
+    });
+
+    it("should not pay the fee out of a retained early-exit penalty", async function () {
+      ({ contract: blindOracleContract, address: contractAddress } = await deployFixture({
+        ...NO_FEES,
+        exitPenaltyBps: 1000, // 10%
+      }));
+      await blindOracleContract.connect(signers.alice).deposit({ value: ethers.parseEther("1.0") });
+      const bet = await signIntent(signers.alice, signers.charlie, 1, ethers.parseEther("0.5"));
+      await relay(signers.alice, signers.charlie, bet);
+
+      // Backing out keeps 0.05 of the deposit as penalty, then the rest of the vault balance is withdrawn
+      await blindOracleContract.connect(signers.alice).withdrawCommitment();
+      await fhevm.awaitDecryptionOracle();
+      await blindOracleContract.connect(signers.alice).requestWithdrawal(ethers.parseEther("0.49"));
+      await fhevm.awaitDecryptionOracle();
+      expect(await blindOracleContract.depositedAmounts(signers.alice.address)).to.eq(ethers.parseEther("0.05"));
+
+      const intent = await signIntent(signers.alice, signers.charlie, 1, ethers.parseEther("0.01"));
+      await expect(relay(signers.alice, signers.charlie, intent)).to.be.revertedWith("Relayer fee exceeds balance");
+    });
+  });
+
+  describe("Cancellation and Refunds", function () {
+    // Aggregate and request decryption, but never let the decryption oracle answer
+    async function requestDecryptionWithoutCallback() {
+      await ethers.provider.send("evm_increaseTime", [COMMITMENT_DURATION + 1]);
+      await ethers.provider.send("evm_mine", []);
+      await blindOracleContract.aggregateBets();
+      await blindOracleContract.requestAggregateDecryption();
+    }
+
+    it("should not cancel a market that is not stuck", async function () {
+      await expect(blindOracleContract.cancelMarket()).to.be.revertedWith("Market cannot be cancelled");
+      expect(await blindOracleContract.getCancellableAt()).to.eq(0);
+    });
+
+    it("should let anyone cancel once the decryption callback is overdue", async function () {
+      await depositAndCommit(blindOracleContract, signers.alice, ethers.parseEther("1.0"), 1, ethers.parseEther("1.0"));
+      await requestDecryptionWithoutCallback();
+
+      const requestedAt = await blindOracleContract.decryptionRequestedAt();
+      expect(await blindOracleContract.getCancellableAt()).to.eq(requestedAt + BigInt(REFUND_GRACE_PERIOD));
+      await expect(blindOracleContract.connect(signers.bob).cancelMarket()).to.be.revertedWith("Grace period not ended");
+
+      await ethers.provider.send("evm_increaseTime", [REFUND_GRACE_PERIOD]);
+      await ethers.provider.send("evm_mine", []);
+
+      await expect(blindOracleContract.connect(signers.bob).cancelMarket())
+        .to.emit(blindOracleContract, "MarketCancelled")
+        .withArgs(2); // Phase.AwaitingDecryption
+      expect(await blindOracleContract.currentPhase()).to.eq(4); // Phase.Cancelled
+
+      await expect(
+        blindOracleContract.connect(signers.alice).deposit({ value: ethers.parseEther("1.0") })
+      ).to.be.revertedWith("Market cancelled");
+    });
+
+    it("should refund each user's whole deposit exactly once", async function () {
+      await depositAndCommit(blindOracleContract, signers.alice, ethers.parseEther("1.5"), 1, ethers.parseEther("1.0"));
+      await depositAndCommit(blindOracleContract, signers.bob, ethers.parseEther("2.0"), 1, ethers.parseEther("2.0"));
+      await requestDecryptionWithoutCallback();
+
+      await expect(blindOracleContract.connect(signers.alice).claimRefund()).to.be.revertedWith(
+        "Invalid phase for this operation"
+      );
+
+      await ethers.provider.send("evm_increaseTime", [REFUND_GRACE_PERIOD]);
+      await ethers.provider.send("evm_mine", []);
+      await blindOracleContract.cancelMarket();
+
+      // Alice gets back their bet and the unspent part of their vault balance
+      await expect(blindOracleContract.connect(signers.alice).claimRefund()).to.changeEtherBalance(
+        signers.alice,
+        ethers.parseEther("1.5")
+      );
+      await expect(blindOracleContract.connect(signers.bob).claimRefund())
+        .to.emit(blindOracleContract, "Refunded")
+        .withArgs(signers.bob.address, ethers.parseEther("2.0"));
+
+      expect(await blindOracleContract.getBalance()).to.eq(0);
+      await expect(blindOracleContract.connect(signers.alice).claimRefund()).to.be.revertedWith("Already refunded");
+      await expect(blindOracleContract.connect(signers.charlie).claimRefund()).to.be.revertedWith("Nothing to refund");
+    });
+
+    it("should void a withdrawal that is still pending at refund time", async function () {
+      await depositAndCommit(blindOracleContract, signers.alice, ethers.parseEther("1.0"), 1, ethers.parseEther("0.5"));
+      await blindOracleContract.connect(signers.alice).requestWithdrawal(ethers.parseEther("0.5"));
+      await requestDecryptionWithoutCallback();
+
+      await ethers.provider.send("evm_increaseTime", [REFUND_GRACE_PERIOD]);
+      await ethers.provider.send("evm_mine", []);
+      await blindOracleContract.cancelMarket();
+
+      await expect(blindOracleContract.connect(signers.alice).claimRefund()).to.changeEtherBalance(
+        signers.alice,
+        ethers.parseEther("1.0")
+      );
+      expect(await blindOracleContract.hasPendingWithdrawal(signers.alice.address)).to.eq(false);
+
+      // Late answers from the decryption oracle (withdrawal and aggregate totals) are ignored
+      await fhevm.awaitDecryptionOracle();
+      expect(await blindOracleContract.currentPhase()).to.eq(4); // Phase.Cancelled
+      expect(await blindOracleContract.getBalance()).to.eq(0);
+    });
+  });
+
   describe("Phase 2: Price Discovery", function () {
     beforeEach(async function () {
       // Setup: Have 3 users commit predictions
@@ -299,14 +895,14 @@ describe("BlindOracle - Privacy-Preserving Prediction Market", function () {
         .add64(Number(aliceBet))
         .encrypt();
 
+      await blindOracleContract.connect(signers.alice).deposit({ value: aliceBet });
       await blindOracleContract
         .connect(signers.alice)
         .commitPrediction(
           aliceInput.handles[0],
           aliceInput.handles[1],
           aliceInput.inputProof,
-          aliceInput.inputProof,
-          { value: aliceBet }
+          aliceInput.inputProof
         );
 
       // Bob: NO, 2 ETH
@@ -317,14 +913,14 @@ describe("BlindOracle - Privacy-Preserving Prediction Market", function () {
         .add64(Number(bobBet))
         .encrypt();
 
+      await blindOracleContract.connect(signers.bob).deposit({ value: bobBet });
       await blindOracleContract
         .connect(signers.bob)
         .commitPrediction(
           bobInput.handles[0],
           bobInput.handles[1],
           bobInput.inputProof,
-          bobInput.inputProof,
-          { value: bobBet }
+          bobInput.inputProof
         );
 
       // Charlie: YES, 1.5 ETH
@@ -335,14 +931,14 @@ describe("BlindOracle - Privacy-Preserving Prediction Market", function () {
         .add64(Number(charlieBet))
         .encrypt();
 
+      await blindOracleContract.connect(signers.charlie).deposit({ value: charlieBet });
       await blindOracleContract
         .connect(signers.charlie)
         .commitPrediction(
           charlieInput.handles[0],
           charlieInput.handles[1],
           charlieInput.inputProof,
-          charlieInput.inputProof,
-          { value: charlieBet }
+          charlieInput.inputProof
         );
 
       // Fast forward time past commitment deadline
@@ -381,6 +977,83 @@ describe("BlindOracle - Privacy-Preserving Prediction Market", function () {
       const phase = await blindOracleContract.currentPhase();
       expect(phase).to.eq(2); // Phase.AwaitingDecryption
     });
+
+    it("should decrypt the running totals kept by each commitment", async function () {
+      await blindOracleContract.aggregateBets();
+      await blindOracleContract.requestAggregateDecryption();
+      await fhevm.awaitDecryptionOracle();
+
+      expect(await blindOracleContract.totalYesAmount()).to.eq(ethers.parseEther("2.5"));
+      expect(await blindOracleContract.totalNoAmount()).to.eq(ethers.parseEther("2.0"));
+    });
+  });
+
+  describe("Gas: Incremental Running Totals", function () {
+    // Funding, encrypting and committing for 111 fresh participants takes a while
+    this.timeout(10 * 60 * 1000);
+
+    const BET_AMOUNT = ethers.parseEther("0.01");
+
+    async function measureGas(participantCount: number) {
+      const { contract, address } = await deployFixture();
+      const commitGas: bigint[] = [];
+
+      for (let i = 0; i < participantCount; i++) {
+        const participant = ethers.Wallet.createRandom().connect(ethers.provider);
+        await signers.deployer.sendTransaction({ to: participant.address, value: ethers.parseEther("0.1") });
+        await contract.connect(participant).deposit({ value: BET_AMOUNT });
+
+        const encryptedInput = await fhevm
+          .createEncryptedInput(address, participant.address)
+          .add8(i % 2)
+          .add64(Number(BET_AMOUNT))
+          .encrypt();
+
+        const tx = await contract
+          .connect(participant)
+          .commitPrediction(
+            encryptedInput.handles[0],
+            encryptedInput.handles[1],
+            encryptedInput.inputProof,
+            encryptedInput.inputProof
+          );
+        commitGas.push((await tx.wait())!.gasUsed);
+      }
+
+      await ethers.provider.send("evm_increaseTime", [COMMITMENT_DURATION + 1]);
+      await ethers.provider.send("evm_mine", []);
+      const aggregateGas = (await (await contract.aggregateBets()).wait())!.gasUsed;
+      const decryptionGas = (await (await contract.requestAggregateDecryption()).wait())!.gasUsed;
+
+      return { participantCount, commitGas, aggregateGas, decryptionGas };
+    }
+
+    it("should move the aggregation cost into each commitment (1, 10 and 100 participants)", async function () {
+      const results = [];
+      for (const participantCount of [1, 10, 100]) {
+        results.push(await measureGas(participantCount));
+      }
+
+      console.log("      participants | avg commit gas | total commit gas | aggregateBets gas | requestDecryption gas");
+      for (const { participantCount, commitGas, aggregateGas, decryptionGas } of results) {
+        const totalCommitGas = commitGas.reduce((sum, gas) => sum + gas, 0n);
+        console.log(
+          `      ${participantCount.toString().padStart(12)} | ${(totalCommitGas / BigInt(participantCount)).toString().padStart(14)} | ` +
+            `${totalCommitGas.toString().padStart(16)} | ${aggregateGas.toString().padStart(17)} | ${decryptionGas.toString().padStart(21)}`
+        );
+      }
+
+      // Closing the market costs the same however many participants it has
+      const [single, , hundred] = results;
+      expect(hundred.aggregateGas).to.eq(single.aggregateGas);
+      expect(hundred.decryptionGas).to.eq(single.decryptionGas);
+
+      // Each commitment pays a fixed cost that does not grow with the number of earlier participants
+      // (the first one is dearer because it writes the running totals for the first time)
+      const laterCommits = hundred.commitGas.slice(1).map(Number);
+      expect(Math.max(...laterCommits) - Math.min(...laterCommits)).to.be.lessThan(1000);
+      expect(laterCommits[laterCommits.length - 1]).to.be.lessThan(Number(hundred.commitGas[0]));
+    });
   });
 
   describe("Phase 3: Settlement (Note: Full settlement requires Gateway callback)", function () {
@@ -400,6 +1073,135 @@ describe("BlindOracle - Privacy-Preserving Prediction Market", function () {
     });
   });
 
+  describe("Disputes", function () {
+    const OWNER_STAKE = ethers.parseEther("0.4"); // 10% of the 4 ETH pool
+    const CHALLENGE_BOND = OWNER_STAKE / 10n;
+    const CHALLENGE_PERIOD = 24 * 3600;
+
+    // Alice bets 1 ETH on YES, Bob 1 ETH and Charlie 2 ETH on NO, then the owner wrongly proposes YES
+    beforeEach(async function () {
+      await depositAndCommit(blindOracleContract, signers.alice, ethers.parseEther("1.0"), 1, ethers.parseEther("1.0"));
+      await depositAndCommit(blindOracleContract, signers.bob, ethers.parseEther("1.0"), 0, ethers.parseEther("1.0"));
+      await depositAndCommit(
+        blindOracleContract,
+        signers.charlie,
+        ethers.parseEther("2.0"),
+        0,
+        ethers.parseEther("2.0"),
+      );
+
+      await ethers.provider.send("evm_increaseTime", [COMMITMENT_DURATION + 1]);
+      await ethers.provider.send("evm_mine", []);
+      await blindOracleContract.aggregateBets();
+      await blindOracleContract.requestAggregateDecryption();
+      await fhevm.awaitDecryptionOracle();
+
+      await blindOracleContract.depositOwnerStake({ value: OWNER_STAKE });
+      await ethers.provider.send("evm_increaseTime", [EVENT_DURATION]);
+      await ethers.provider.send("evm_mine", []);
+      await blindOracleContract.proposeSettlement(true);
+    });
+
+    it("should require the exact bond and pause finalization", async function () {
+      expect(await blindOracleContract.getChallengeBond()).to.eq(CHALLENGE_BOND);
+      await expect(
+        blindOracleContract.connect(signers.bob).challengeSettlement({ value: CHALLENGE_BOND - 1n })
+      ).to.be.revertedWith("Incorrect challenge bond");
+
+      await expect(blindOracleContract.connect(signers.bob).challengeSettlement({ value: CHALLENGE_BOND }))
+        .to.emit(blindOracleContract, "SettlementChallenged")
+        .withArgs(signers.bob.address, CHALLENGE_BOND);
+      expect(await blindOracleContract.disputeStatus()).to.eq(1); // DisputeStatus.Disputed
+      await expect(
+        blindOracleContract.connect(signers.bob).challengeSettlement({ value: CHALLENGE_BOND })
+      ).to.be.revertedWith("Already challenged");
+
+      await ethers.provider.send("evm_increaseTime", [CHALLENGE_PERIOD]);
+      await ethers.provider.send("evm_mine", []);
+      await expect(blindOracleContract.finalizeSettlement()).to.be.revertedWith("Settlement disputed");
+      expect((await blindOracleContract.getSettlementInfo())._canFinalize).to.eq(false);
+    });
+
+    it("should let only the arbiter rule on an active dispute", async function () {
+      await expect(blindOracleContract.connect(signers.arbiter).resolveDispute(true, 0)).to.be.revertedWith(
+        "No active dispute"
+      );
+
+      await blindOracleContract.connect(signers.bob).challengeSettlement({ value: CHALLENGE_BOND });
+      await expect(blindOracleContract.connect(signers.deployer).resolveDispute(false, 0)).to.be.revertedWith(
+        "Only arbiter can call this"
+      );
+      await expect(blindOracleContract.connect(signers.arbiter).resolveDispute(true, 1)).to.be.revertedWith(
+        "Outcome matches proposal"
+      );
+    });
+
+    it("should slash the owner stake to challengers and winners when upheld", async function () {
+      await blindOracleContract.connect(signers.bob).challengeSettlement({ value: CHALLENGE_BOND });
+      await blindOracleContract.connect(signers.charlie).challengeSettlement({ value: CHALLENGE_BOND });
+
+      await expect(blindOracleContract.connect(signers.arbiter).resolveDispute(true, 0))
+        .to.emit(blindOracleContract, "OwnerStakeSlashed")
+        .withArgs(OWNER_STAKE);
+      expect(await blindOracleContract.disputeStatus()).to.eq(2); // DisputeStatus.Upheld
+      expect(await blindOracleContract.isSettled()).to.eq(true);
+      expect(await blindOracleContract.winningOutcome()).to.eq(0);
+      expect(await blindOracleContract.finalOutcome()).to.eq(false);
+
+      // Half of the slashed stake is split between the two equal bonds, the other half joins the pool
+      const challengerShare = OWNER_STAKE / 2n / 2n;
+      await expect(blindOracleContract.connect(signers.bob).claimDisputePayout()).to.changeEtherBalance(
+        signers.bob,
+        CHALLENGE_BOND + challengerShare
+      );
+      await expect(blindOracleContract.connect(signers.bob).claimDisputePayout()).to.be.revertedWith(
+        "No bond to claim"
+      );
+      expect(await blindOracleContract.totalPoolAmount()).to.eq(ethers.parseEther("4.0"));
+      expect(await blindOracleContract.slashedStakeToWinners()).to.eq(OWNER_STAKE / 2n);
+      expect(await blindOracleContract.winnerPool()).to.eq(ethers.parseEther("4.2"));
+
+      // Bob holds 1 of the 3 ETH on NO, so they receive a third of the 4.2 ETH pool
+      await blindOracleContract.connect(signers.bob).claimRewards();
+      const balanceBefore = await ethers.provider.getBalance(signers.bob.address);
+      await fhevm.awaitDecryptionOracle();
+      const balanceAfter = await ethers.provider.getBalance(signers.bob.address);
+      expect(balanceAfter - balanceBefore).to.eq(ethers.parseEther("1.4"));
+    });
+
+    it("should forfeit the challenger bonds to the owner when rejected", async function () {
+      await blindOracleContract.connect(signers.bob).challengeSettlement({ value: CHALLENGE_BOND });
+
+      await expect(blindOracleContract.connect(signers.arbiter).resolveDispute(false, 0)).to.changeEtherBalance(
+        signers.deployer,
+        OWNER_STAKE + CHALLENGE_BOND
+      );
+      expect(await blindOracleContract.disputeStatus()).to.eq(3); // DisputeStatus.Rejected
+      expect(await blindOracleContract.winningOutcome()).to.eq(1);
+      expect(await blindOracleContract.finalOutcome()).to.eq(true);
+      await expect(blindOracleContract.connect(signers.bob).claimDisputePayout()).to.be.revertedWith(
+        "Dispute not upheld"
+      );
+    });
+
+    it("should refund bonds when the arbiter never rules", async function () {
+      await blindOracleContract.connect(signers.bob).challengeSettlement({ value: CHALLENGE_BOND });
+
+      await ethers.provider.send("evm_increaseTime", [CHALLENGE_PERIOD + REFUND_GRACE_PERIOD]);
+      await ethers.provider.send("evm_mine", []);
+      await blindOracleContract.cancelMarket();
+
+      await expect(blindOracleContract.connect(signers.bob).claimRefund()).to.changeEtherBalance(
+        signers.bob,
+        ethers.parseEther("1.0") + CHALLENGE_BOND
+      );
+      await expect(blindOracleContract.connect(signers.deployer).claimRefund()).to.changeEtherBalance(
+        signers.deployer,
+        OWNER_STAKE
+      );
+    });
+  });
+
   describe("View Functions", function () {
     it("should return correct market info", async function () {
       const marketInfo = await blindOracleContract.getMarketInfo();
@@ -428,14 +1230,14 @@ describe("BlindOracle - Privacy-Preserving Prediction Market", function () {
         .add64(Number(betAmount))
         .encrypt();
 
+      await blindOracleContract.connect(signers.alice).deposit({ value: betAmount });
       await blindOracleContract
         .connect(signers.alice)
         .commitPrediction(
           encryptedInput.handles[0],
           encryptedInput.handles[1],
           encryptedInput.inputProof,
-          encryptedInput.inputProof,
-          { value: betAmount }
+          encryptedInput.inputProof
         );
 
       const commitment = await blindOracleContract.getUserCommitment(signers.alice.address);
@@ -0,0 +1,463 @@
+import { BlindOracle } from "../types";
+import { MarketLibraries, NO_FEES, deployLibraries, deployMarket, depositAndCommit } from "./helpers";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+  charlie: HardhatEthersSigner;
+  arbiter: HardhatEthersSigner;
+};
+
+describe("Categorical (Multi-Outcome) Market", function () {
+  let signers: Signers;
+  let libraries: MarketLibraries;
+  let marketContract: BlindOracle;
+  let marketAddress: string;
+
+  const COMMITMENT_DURATION = 3600; // 1 hour
+  const EVENT_DURATION = 7200; // 2 hours
+  const CHALLENGE_PERIOD = 24 * 3600; // 24 hours
+  const REFUND_GRACE_PERIOD = 7 * 86400; // 7 days
+  const OUTCOME_LABELS = ["Red Team", "Blue Team", "Green Team"];
+
+  async function deployWithLabels(marketType: number, outcomeLabels: string[], fees = NO_FEES) {
+    return deployMarket(libraries, {
+      owner: signers.deployer.address,
+      marketType,
+      description: "Which team wins the final?",
+      commitmentDuration: COMMITMENT_DURATION,
+      eventDuration: EVENT_DURATION,
+      outcomeLabels,
+      refundGracePeriod: REFUND_GRACE_PERIOD,
+      arbiter: signers.arbiter.address,
+      fees,
+    });
+  }
+
+  async function deployFixture() {
+    const market = await deployWithLabels(2, OUTCOME_LABELS); // MarketType.Categorical
+    const marketAddr = await market.getAddress();
+
+    return { market, marketAddr };
+  }
+
+  async function aggregateAndDecrypt() {
+    await ethers.provider.send("evm_increaseTime", [COMMITMENT_DURATION + 1]);
+    await ethers.provider.send("evm_mine", []);
+
+    await marketContract.aggregateBets();
+    await marketContract.requestAggregateDecryption();
+    await fhevm.awaitDecryptionOracle();
+  }
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = {
+      deployer: ethSigners[0],
+      alice: ethSigners[1],
+      bob: ethSigners[2],
+      charlie: ethSigners[3],
+      arbiter: ethSigners[4],
+    };
+
+    libraries = await deployLibraries();
+  });
+
+  beforeEach(async () => {
+    ({ market: marketContract, marketAddr: marketAddress } = await deployFixture());
+  });
+
+  describe("Deployment", function () {
+    it("should initialize with the categorical market type", async function () {
+      expect(await marketContract.marketType()).to.eq(2); // MarketType.Categorical
+    });
+
+    it("should store the outcome labels in order", async function () {
+      expect(await marketContract.getOutcomeCount()).to.eq(OUTCOME_LABELS.length);
+      expect(await marketContract.getOutcomeLabels()).to.deep.eq(OUTCOME_LABELS);
+      expect(await marketContract.getOutcomeTotals()).to.deep.eq([]);
+    });
+
+    it("should give binary markets the default NO/YES outcomes", async function () {
+      const eventMarket = await deployWithLabels(0, []); // MarketType.Event
+      expect(await eventMarket.getOutcomeLabels()).to.deep.eq(["No", "Yes"]);
+    });
+
+    it("should reject an invalid outcome list", async function () {
+      await expect(deployWithLabels(2, ["Only one"])).to.be.revertedWith("Invalid outcome count");
+      await expect(
+        deployWithLabels(
+          2,
+          Array.from({ length: 9 }, (_, i) => `Outcome ${i}`),
+        ),
+      ).to.be.revertedWith("Invalid outcome count");
+      await expect(deployWithLabels(2, ["Red Team", ""])).to.be.revertedWith("Outcome label cannot be empty");
+      await expect(deployWithLabels(0, OUTCOME_LABELS)).to.be.revertedWith(
+        "Outcome labels only for categorical markets",
+      );
+    });
+  });
+
+  describe("Commitment and Aggregation", function () {
+    it("should prevent the owner from participating", async function () {
+      await expect(
+        depositAndCommit(marketContract, signers.deployer, ethers.parseEther("1.0"), 0, ethers.parseEther("1.0")),
+      ).to.be.revertedWith("Owner cannot participate in event markets");
+    });
+
+    it("should record a zero bet for an out-of-range outcome", async function () {
+      const betAmount = ethers.parseEther("1.0");
+      await depositAndCommit(marketContract, signers.alice, betAmount, OUTCOME_LABELS.length, betAmount);
+
+      const [, amountHandle] = await marketContract.connect(signers.alice).getMyCommitment();
+      const committed = await fhevm.userDecryptEuint(FhevmType.euint64, amountHandle, marketAddress, signers.alice);
+      expect(committed).to.eq(0n);
+
+      const balanceHandle = await marketContract.connect(signers.alice).getMyBalance();
+      const balance = await fhevm.userDecryptEuint(FhevmType.euint64, balanceHandle, marketAddress, signers.alice);
+      expect(balance).to.eq(betAmount);
+    });
+
+    it("should decrypt one total per outcome", async function () {
+      await depositAndCommit(marketContract, signers.alice, ethers.parseEther("1.0"), 0, ethers.parseEther("1.0"));
+      await depositAndCommit(marketContract, signers.bob, ethers.parseEther("2.0"), 2, ethers.parseEther("2.0"));
+      await depositAndCommit(marketContract, signers.charlie, ethers.parseEther("1.0"), 2, ethers.parseEther("1.0"));
+
+      await aggregateAndDecrypt();
+
+      expect(await marketContract.currentPhase()).to.eq(3); // Phase.Settled
+      expect(await marketContract.getOutcomeTotals()).to.deep.eq([
+        ethers.parseEther("1.0"),
+        0n,
+        ethers.parseEther("3.0"),
+      ]);
+      expect(await marketContract.totalPoolAmount()).to.eq(ethers.parseEther("4.0"));
+    });
+  });
+
+  describe("Settlement", function () {
+    beforeEach(async function () {
+      await depositAndCommit(marketContract, signers.alice, ethers.parseEther("1.0"), 0, ethers.parseEther("1.0"));
+      await depositAndCommit(marketContract, signers.bob, ethers.parseEther("2.0"), 2, ethers.parseEther("2.0"));
+      await depositAndCommit(marketContract, signers.charlie, ethers.parseEther("1.0"), 2, ethers.parseEther("1.0"));
+
+      await aggregateAndDecrypt();
+      await marketContract.depositOwnerStake({ value: ethers.parseEther("0.4") });
+
+      await ethers.provider.send("evm_increaseTime", [EVENT_DURATION]);
+      await ethers.provider.send("evm_mine", []);
+    });
+
+    it("should only accept outcome-indexed proposals", async function () {
+      await expect(marketContract.proposeSettlement(true)).to.be.revertedWith("Only for event markets");
+      await expect(marketContract.proposeCategoricalSettlement(OUTCOME_LABELS.length)).to.be.revertedWith(
+        "Invalid outcome",
+      );
+    });
+
+    it("should pay winners their share of the whole pool", async function () {
+      await marketContract.proposeCategoricalSettlement(2);
+      expect(await marketContract.proposedOutcomeIndex()).to.eq(2);
+
+      await ethers.provider.send("evm_increaseTime", [CHALLENGE_PERIOD]);
+      await ethers.provider.send("evm_mine", []);
+      await marketContract.finalizeSettlement();
+
+      expect(await marketContract.isSettled()).to.eq(true);
+      expect(await marketContract.winningOutcome()).to.eq(2);
+
+      // Bob staked 2 of the 3 ETH on the winning outcome, so they receive 2/3 of the 4 ETH pool
+      await marketContract.connect(signers.bob).claimRewards();
+      const balanceBefore = await ethers.provider.getBalance(signers.bob.address);
+      await fhevm.awaitDecryptionOracle();
+      const balanceAfter = await ethers.provider.getBalance(signers.bob.address);
+
+      const payout = (ethers.parseEther("2.0") * ethers.parseEther("4.0")) / ethers.parseEther("3.0");
+      expect(await marketContract.hasClaimed(signers.bob.address)).to.eq(true);
+      expect(balanceAfter - balanceBefore).to.eq(payout);
+      expect(await marketContract.getClaimInfo(signers.bob.address)).to.deep.eq([2n, payout]); // ClaimState.Won
+    });
+
+    it("should record a losing claim instead of reverting", async function () {
+      await marketContract.proposeCategoricalSettlement(2);
+      await ethers.provider.send("evm_increaseTime", [CHALLENGE_PERIOD]);
+      await ethers.provider.send("evm_mine", []);
+      await marketContract.finalizeSettlement();
+
+      await marketContract.connect(signers.alice).claimRewards();
+      expect((await marketContract.getClaimInfo(signers.alice.address))[0]).to.eq(1); // ClaimState.Pending
+
+      const balanceBefore = await ethers.provider.getBalance(signers.alice.address);
+      await fhevm.awaitDecryptionOracle();
+      const balanceAfter = await ethers.provider.getBalance(signers.alice.address);
+
+      expect(balanceAfter).to.eq(balanceBefore);
+      expect(await marketContract.hasClaimed(signers.alice.address)).to.eq(true);
+      expect(await marketContract.getClaimInfo(signers.alice.address)).to.deep.eq([3n, 0n]); // ClaimState.Lost
+      const [resolved] = await marketContract.queryFilter(marketContract.filters.ClaimResolved(signers.alice.address));
+      expect(resolved.args.won).to.eq(false);
+
+      await expect(marketContract.connect(signers.alice).claimRewards()).to.be.revertedWith("Already claimed rewards");
+    });
+
+    it("should resolve a claim through its request ID", async function () {
+      await marketContract.proposeCategoricalSettlement(2);
+      await ethers.provider.send("evm_increaseTime", [CHALLENGE_PERIOD]);
+      await ethers.provider.send("evm_mine", []);
+      await marketContract.finalizeSettlement();
+
+      await marketContract.connect(signers.charlie).claimRewards();
+      const requestId = await marketContract.claimRequestIds(signers.charlie.address);
+      expect(await marketContract.claimRequestUsers(requestId)).to.eq(signers.charlie.address);
+
+      await fhevm.awaitDecryptionOracle();
+      const [resolved] = await marketContract.queryFilter(
+        marketContract.filters.ClaimResolved(signers.charlie.address),
+      );
+      expect(resolved.args.won).to.eq(true);
+      expect(resolved.args.payout).to.eq(ethers.parseEther("4.0") / 3n);
+      expect(await marketContract.claimRequestUsers(requestId)).to.eq(ethers.ZeroAddress);
+    });
+
+    it("should pay only the latest of several claim requests", async function () {
+      await marketContract.proposeCategoricalSettlement(2);
+      await ethers.provider.send("evm_increaseTime", [CHALLENGE_PERIOD]);
+      await ethers.provider.send("evm_mine", []);
+      await marketContract.finalizeSettlement();
+
+      // The first request is superseded before the oracle answers and must be dropped
+      await marketContract.connect(signers.charlie).claimRewards();
+      await marketContract.connect(signers.charlie).claimRewards();
+      const balanceBefore = await ethers.provider.getBalance(signers.charlie.address);
+      await fhevm.awaitDecryptionOracle();
+      const balanceAfter = await ethers.provider.getBalance(signers.charlie.address);
+
+      expect(await marketContract.hasClaimed(signers.charlie.address)).to.eq(true);
+      expect(balanceAfter - balanceBefore).to.eq(ethers.parseEther("4.0") / 3n);
+    });
+  });
+
+  describe("Settlement Without Winners", function () {
+    // Nobody bets on Blue Team (outcome 1), which then wins
+    beforeEach(async function () {
+      await depositAndCommit(marketContract, signers.alice, ethers.parseEther("1.0"), 0, ethers.parseEther("1.0"));
+      await depositAndCommit(marketContract, signers.bob, ethers.parseEther("2.0"), 2, ethers.parseEther("2.0"));
+
+      await aggregateAndDecrypt();
+      await marketContract.depositOwnerStake({ value: ethers.parseEther("0.3") });
+
+      await ethers.provider.send("evm_increaseTime", [EVENT_DURATION]);
+      await ethers.provider.send("evm_mine", []);
+      await marketContract.proposeCategoricalSettlement(1);
+      await ethers.provider.send("evm_increaseTime", [CHALLENGE_PERIOD]);
+      await ethers.provider.send("evm_mine", []);
+    });
+
+    it("should cancel the market instead of settling it", async function () {
+      // The owner proposed in good faith, so their stake goes back as usual
+      const tx = marketContract.finalizeSettlement();
+      await expect(tx).to.emit(marketContract, "MarketCancelled").withArgs(3); // Phase.Settled
+      await expect(tx).to.changeEtherBalance(signers.deployer, ethers.parseEther("0.3"));
+
+      expect(await marketContract.currentPhase()).to.eq(4); // Phase.Cancelled
+      expect(await marketContract.isSettled()).to.eq(false);
+      expect(await marketContract.winnerPool()).to.eq(0n);
+      await expect(marketContract.connect(signers.bob).claimRewards()).to.be.revertedWith(
+        "Invalid phase for this operation",
+      );
+    });
+
+    it("should refund every bet, leaving nothing locked in the market", async function () {
+      await marketContract.finalizeSettlement();
+
+      await expect(marketContract.connect(signers.alice).claimRefund()).to.changeEtherBalance(
+        signers.alice,
+        ethers.parseEther("1.0"),
+      );
+      await expect(marketContract.connect(signers.bob).claimRefund()).to.changeEtherBalance(
+        signers.bob,
+        ethers.parseEther("2.0"),
+      );
+      expect(await ethers.provider.getBalance(marketAddress)).to.eq(0n);
+    });
+  });
+
+  describe("Upheld Dispute Without Winners", function () {
+    const OWNER_STAKE = ethers.parseEther("0.3");
+    const CHALLENGE_BOND = OWNER_STAKE / 10n;
+
+    // The owner proposes Red Team, but Blue Team, which nobody bet on, actually won
+    beforeEach(async function () {
+      await depositAndCommit(marketContract, signers.alice, ethers.parseEther("1.0"), 0, ethers.parseEther("1.0"));
+      await depositAndCommit(marketContract, signers.bob, ethers.parseEther("2.0"), 2, ethers.parseEther("2.0"));
+
+      await aggregateAndDecrypt();
+      await marketContract.depositOwnerStake({ value: OWNER_STAKE });
+
+      await ethers.provider.send("evm_increaseTime", [EVENT_DURATION]);
+      await ethers.provider.send("evm_mine", []);
+      await marketContract.proposeCategoricalSettlement(0);
+      await marketContract.connect(signers.bob).challengeSettlement({ value: CHALLENGE_BOND });
+      await marketContract.connect(signers.arbiter).resolveDispute(true, 1);
+    });
+
+    it("should cancel the market and give the challengers the whole slashed stake", async function () {
+      expect(await marketContract.currentPhase()).to.eq(4); // Phase.Cancelled
+      expect(await marketContract.challengerSlashReward()).to.eq(OWNER_STAKE);
+      expect(await marketContract.slashedStakeToWinners()).to.eq(0n);
+
+      await expect(marketContract.connect(signers.bob).claimDisputePayout()).to.changeEtherBalance(
+        signers.bob,
+        CHALLENGE_BOND + OWNER_STAKE,
+      );
+    });
+
+    it("should refund bets separately from the dispute payout, leaving nothing locked", async function () {
+      // The refund covers only the bet; the bond is still paid out with the slashed stake afterwards
+      await expect(marketContract.connect(signers.bob).claimRefund()).to.changeEtherBalance(
+        signers.bob,
+        ethers.parseEther("2.0"),
+      );
+      await expect(marketContract.connect(signers.bob).claimDisputePayout()).to.changeEtherBalance(
+        signers.bob,
+        CHALLENGE_BOND + OWNER_STAKE,
+      );
+      await marketContract.connect(signers.alice).claimRefund();
+
+      expect(await ethers.provider.getBalance(marketAddress)).to.eq(0n);
+    });
+  });
+
+  describe("Fees", function () {
+    const FEES_BPS = { protocol: 200, creator: 300 }; // 2% + 3%
+
+    it("should reject fees above the cap or without a recipient", async function () {
+      const feeRecipient = signers.charlie.address;
+      await expect(
+        deployWithLabels(2, OUTCOME_LABELS, {
+          protocolFeeRecipient: feeRecipient,
+          protocolFeeBps: 600,
+          creatorFeeBps: 500,
+          exitPenaltyBps: 0,
+        }),
+      ).to.be.revertedWith("Fee too high");
+      await expect(
+        deployWithLabels(2, OUTCOME_LABELS, {
+          protocolFeeRecipient: ethers.ZeroAddress,
+          protocolFeeBps: 100,
+          creatorFeeBps: 0,
+          exitPenaltyBps: 0,
+        }),
+      ).to.be.revertedWith("Invalid fee recipient");
+    });
+
+    it("should take fees out of the winner pool at settlement", async function () {
+      const feeRecipient = (await ethers.getSigners())[11];
+      marketContract = await deployWithLabels(2, OUTCOME_LABELS, {
+        protocolFeeRecipient: feeRecipient.address,
+        protocolFeeBps: FEES_BPS.protocol,
+        creatorFeeBps: FEES_BPS.creator,
+        exitPenaltyBps: 0,
+      });
+      marketAddress = await marketContract.getAddress();
+
+      await depositAndCommit(marketContract, signers.alice, ethers.parseEther("1.0"), 0, ethers.parseEther("1.0"));
+      await depositAndCommit(marketContract, signers.bob, ethers.parseEther("2.0"), 2, ethers.parseEther("2.0"));
+      await depositAndCommit(marketContract, signers.charlie, ethers.parseEther("1.0"), 2, ethers.parseEther("1.0"));
+      await aggregateAndDecrypt();
+      await marketContract.depositOwnerStake({ value: ethers.parseEther("0.4") });
+      await ethers.provider.send("evm_increaseTime", [EVENT_DURATION]);
+      await ethers.provider.send("evm_mine", []);
+      await marketContract.proposeCategoricalSettlement(2);
+      await ethers.provider.send("evm_increaseTime", [CHALLENGE_PERIOD]);
+      await ethers.provider.send("evm_mine", []);
+      await expect(marketContract.finalizeSettlement())
+        .to.emit(marketContract, "FeesAccrued")
+        .withArgs(ethers.parseEther("0.08"), ethers.parseEther("0.12"));
+
+      const winnerPool = ethers.parseEther("3.8");
+      expect(await marketContract.winnerPool()).to.eq(winnerPool);
+
+      await marketContract.connect(signers.bob).claimRewards();
+      await marketContract.connect(signers.charlie).claimRewards();
+      await fhevm.awaitDecryptionOracle();
+      const bobPayout = (await marketContract.getClaimInfo(signers.bob.address))[1];
+      const charliePayout = (await marketContract.getClaimInfo(signers.charlie.address))[1];
+      expect(bobPayout).to.eq((ethers.parseEther("2.0") * winnerPool) / ethers.parseEther("3.0"));
+      expect(bobPayout + charliePayout).to.eq(winnerPool);
+
+      await expect(marketContract.connect(feeRecipient).withdrawFees()).to.changeEtherBalance(
+        feeRecipient,
+        ethers.parseEther("0.08"),
+      );
+      await expect(marketContract.connect(signers.deployer).withdrawFees()).to.changeEtherBalance(
+        signers.deployer,
+        ethers.parseEther("0.12"),
+      );
+      await expect(marketContract.connect(signers.deployer).withdrawFees()).to.be.revertedWith("No fees to withdraw");
+      expect(await ethers.provider.getBalance(marketAddress)).to.eq(0n);
+    });
+  });
+
+  describe("Pool Solvency", function () {
+    // Small deterministic generator, so failures are reproducible
+    function pseudoRandom(seed: number) {
+      let state = seed;
+      return () => {
+        state = (state * 1103515245 + 12345) % 2 ** 31;
+        return state;
+      };
+    }
+
+    for (const seed of [7, 42, 1337]) {
+      it(`should pay out exactly the winner pool (seed ${seed})`, async function () {
+        const ethSigners = await ethers.getSigners();
+        const next = pseudoRandom(seed);
+        const bets = ethSigners.slice(5, 11).map((signer) => ({
+          signer,
+          outcome: next() % OUTCOME_LABELS.length,
+          // Odd wei amounts, so the pro-rata shares do not divide evenly
+          amount: ethers.parseEther("0.1") + BigInt(next() % 1_000_000_007),
+        }));
+        // Make sure the winning outcome has at least two bettors
+        bets[0].outcome = 1;
+        bets[1].outcome = 1;
+        const pool = bets.reduce((sum, bet) => sum + bet.amount, 0n);
+
+        for (const bet of bets) {
+          await depositAndCommit(marketContract, bet.signer, bet.amount, bet.outcome, bet.amount);
+        }
+        await aggregateAndDecrypt();
+        await marketContract.depositOwnerStake({ value: pool / 10n + 1n });
+        await ethers.provider.send("evm_increaseTime", [EVENT_DURATION]);
+        await ethers.provider.send("evm_mine", []);
+        await marketContract.proposeCategoricalSettlement(1);
+        await ethers.provider.send("evm_increaseTime", [CHALLENGE_PERIOD]);
+        await ethers.provider.send("evm_mine", []);
+        await marketContract.finalizeSettlement();
+
+        for (const bet of bets) {
+          await marketContract.connect(bet.signer).claimRewards();
+        }
+        await fhevm.awaitDecryptionOracle();
+
+        let totalPayouts = 0n;
+        for (const bet of bets) {
+          totalPayouts += (await marketContract.getClaimInfo(bet.signer.address))[1];
+        }
+
+        expect(await marketContract.winnerPool()).to.eq(pool);
+        expect(totalPayouts).to.eq(pool);
+        expect(await marketContract.totalPaidOut()).to.eq(pool);
+        expect(await marketContract.claimedWinningStake()).to.eq(await marketContract.winningStake());
+        // The owner stake went back at finalization and every bet was paid out, so nothing is left behind
+        expect(await ethers.provider.getBalance(marketAddress)).to.eq(0n);
+      });
+    }
+  });
+});
@@ -0,0 +1,286 @@
+import {
+  BlindOracle,
+  ChainlinkPriceOracle__factory,
+  MockChainlinkAggregator,
+  MockChainlinkAggregator__factory,
+  MockConfidentialToken,
+  MockConfidentialToken__factory,
+} from "../types";
+import { MarketLibraries, commitPrediction, deployLibraries, deployMarket } from "./helpers";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+  charlie: HardhatEthersSigner;
+};
+
+describe("Confidential Collateral Market", function () {
+  let signers: Signers;
+  let libraries: MarketLibraries;
+  let token: MockConfidentialToken;
+  let tokenAddress: string;
+  let ethFeed: MockChainlinkAggregator;
+  let oracleAddress: string;
+  let marketContract: BlindOracle;
+  let marketAddress: string;
+
+  const COMMITMENT_DURATION = 3600; // 1 hour
+  const EVENT_DURATION = 7200; // 2 hours
+  const TARGET_PRICE = 5000_00000000n; // $5,000 (scaled by 1e8)
+  const REFUND_GRACE_PERIOD = 7 * 86400; // 7 days
+  const ETH = ethers.encodeBytes32String("ETH");
+  const INITIAL_BALANCE = 1000_000000n; // 1,000 cUSD (6 decimals)
+  const cusd = (amount: number) => BigInt(amount) * 1_000000n;
+
+  async function deployCollateralMarket(marketType: number, collateral: string, confidential: string) {
+    const isPriceMarket = marketType === 1;
+    return deployMarket(libraries, {
+      owner: signers.deployer.address,
+      marketType,
+      description: "Will ETH price be above $5,000?",
+      commitmentDuration: COMMITMENT_DURATION,
+      eventDuration: EVENT_DURATION,
+      oracle: oracleAddress,
+      asset: ETH,
+      targetPrice: isPriceMarket ? TARGET_PRICE : 0n,
+      refundGracePeriod: REFUND_GRACE_PERIOD,
+      arbiter: isPriceMarket ? ethers.ZeroAddress : signers.charlie.address,
+      collateral,
+      confidentialCollateral: confidential,
+    });
+  }
+
+  async function deployFixture() {
+    const tokenFactory = (await ethers.getContractFactory("MockConfidentialToken")) as MockConfidentialToken__factory;
+    const confidential = (await tokenFactory.deploy("Confidential USD", "cUSD", 6)) as MockConfidentialToken;
+    const confidentialAddr = await confidential.getAddress();
+
+    const aggregatorFactory = (await ethers.getContractFactory(
+      "MockChainlinkAggregator",
+    )) as MockChainlinkAggregator__factory;
+    const feed = (await aggregatorFactory.deploy(3500_00000000n, 8)) as MockChainlinkAggregator;
+    const registry = await (await ethers.getContractFactory("AssetRegistry")).deploy();
+    await registry.addAsset("ETH", await feed.getAddress(), 8);
+    const oracleFactory = (await ethers.getContractFactory("ChainlinkPriceOracle")) as ChainlinkPriceOracle__factory;
+    const oracle = await oracleFactory.deploy(await registry.getAddress());
+    oracleAddress = await oracle.getAddress();
+
+    const market = await deployCollateralMarket(1, ethers.ZeroAddress, confidentialAddr); // MarketType.Price
+    const marketAddr = await market.getAddress();
+
+    const farFuture = (await ethers.provider.getBlock("latest"))!.timestamp + 365 * 86400;
+    for (const signer of [signers.alice, signers.bob, signers.charlie]) {
+      await confidential.mint(signer.address, INITIAL_BALANCE);
+      await confidential.connect(signer).setOperator(marketAddr, farFuture);
+    }
+
+    return { confidential, confidentialAddr, feed, market, marketAddr };
+  }
+
+  async function depositConfidential(signer: HardhatEthersSigner, amount: bigint) {
+    const encryptedInput = await fhevm.createEncryptedInput(marketAddress, signer.address).add64(amount).encrypt();
+    await marketContract.connect(signer).depositConfidential(encryptedInput.handles[0], encryptedInput.inputProof);
+  }
+
+  async function commitBet(signer: HardhatEthersSigner, outcome: number, amount: bigint) {
+    await depositConfidential(signer, amount);
+    await commitPrediction(marketContract, signer, outcome, amount);
+  }
+
+  async function tokenBalance(signer: HardhatEthersSigner) {
+    const handle = await token.confidentialBalanceOf(signer.address);
+    return fhevm.userDecryptEuint(FhevmType.euint64, handle, tokenAddress, signer);
+  }
+
+  async function vaultBalance(signer: HardhatEthersSigner) {
+    const handle = await marketContract.getEncryptedBalance(signer.address);
+    return fhevm.userDecryptEuint(FhevmType.euint64, handle, marketAddress, signer);
+  }
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = {
+      deployer: ethSigners[0],
+      alice: ethSigners[1],
+      bob: ethSigners[2],
+      charlie: ethSigners[3],
+    };
+
+    libraries = await deployLibraries();
+  });
+
+  beforeEach(async () => {
+    ({
+      confidential: token,
+      confidentialAddr: tokenAddress,
+      feed: ethFeed,
+      market: marketContract,
+      marketAddr: marketAddress,
+    } = await deployFixture());
+  });
+
+  describe("Configuration", function () {
+    it("should store the confidential token", async function () {
+      expect(await marketContract.confidentialToken()).to.eq(tokenAddress);
+      expect(await marketContract.collateralToken()).to.eq(ethers.ZeroAddress);
+    });
+
+    it("should reject owner-resolved markets", async function () {
+      await expect(deployCollateralMarket(0, ethers.ZeroAddress, tokenAddress)).to.be.revertedWith(
+        "Confidential needs oracle market",
+      );
+    });
+
+    it("should reject a second collateral token", async function () {
+      await expect(deployCollateralMarket(1, signers.bob.address, tokenAddress)).to.be.revertedWith(
+        "Choose one collateral token",
+      );
+    });
+  });
+
+  describe("Deposits and Withdrawals", function () {
+    it("should reject public deposits", async function () {
+      await expect(marketContract.connect(signers.alice).deposit({ value: 1n })).to.be.revertedWith(
+        "Market uses confidential token",
+      );
+    });
+
+    it("should credit an encrypted deposit to the vault", async function () {
+      await depositConfidential(signers.alice, cusd(40));
+
+      expect(await vaultBalance(signers.alice)).to.eq(cusd(40));
+      expect(await tokenBalance(signers.alice)).to.eq(INITIAL_BALANCE - cusd(40));
+      expect(await marketContract.depositedAmounts(signers.alice.address)).to.eq(0n);
+    });
+
+    it("should credit 0 when the token balance is too small", async function () {
+      await depositConfidential(signers.alice, INITIAL_BALANCE + 1n);
+
+      expect(await vaultBalance(signers.alice)).to.eq(0n);
+      expect(await tokenBalance(signers.alice)).to.eq(INITIAL_BALANCE);
+    });
+
+    it("should transfer a withdrawal without waiting for decryption", async function () {
+      await depositConfidential(signers.alice, cusd(40));
+      await marketContract.connect(signers.alice).requestWithdrawal(cusd(15));
+
+      expect(await marketContract.hasPendingWithdrawal(signers.alice.address)).to.eq(false);
+      expect(await vaultBalance(signers.alice)).to.eq(cusd(25));
+      expect(await tokenBalance(signers.alice)).to.eq(INITIAL_BALANCE - cusd(25));
+    });
+  });
+
+  describe("Gasless Commitments", function () {
+    it("should pay the relayer fee as an encrypted transfer", async function () {
+      const relayer = signers.charlie;
+      await depositConfidential(signers.alice, cusd(40));
+
+      // Inputs are encrypted for the relayer, which sends the transaction
+      const encryptedInput = await fhevm
+        .createEncryptedInput(marketAddress, relayer.address)
+        .add8(1)
+        .add64(cusd(30))
+        .encrypt();
+      const intent = {
+        prediction: ethers.hexlify(encryptedInput.handles[0]),
+        amount: ethers.hexlify(encryptedInput.handles[1]),
+        relayerFee: cusd(1),
+        nonce: 0n,
+        deadline: (await ethers.provider.getBlock("latest"))!.timestamp + 600,
+      };
+      const signature = await signers.alice.signTypedData(
+        {
+          name: "BlindOracle",
+          version: "1",
+          chainId: (await ethers.provider.getNetwork()).chainId,
+          verifyingContract: marketAddress,
+        },
+        {
+          CommitIntent: [
+            { name: "prediction", type: "bytes32" },
+            { name: "amount", type: "bytes32" },
+            { name: "relayerFee", type: "uint64" },
+            { name: "nonce", type: "uint256" },
+            { name: "deadline", type: "uint256" },
+          ],
+        },
+        intent,
+      );
+
+      await expect(
+        marketContract
+          .connect(relayer)
+          .commitPredictionFor(
+            signers.alice.address,
+            intent.prediction,
+            intent.amount,
+            encryptedInput.inputProof,
+            intent.relayerFee,
+            intent.deadline,
+            signature,
+          ),
+      ).to.emit(marketContract, "ConfidentialPaidOut");
+
+      expect(await vaultBalance(signers.alice)).to.eq(cusd(9));
+      expect(await tokenBalance(relayer)).to.eq(INITIAL_BALANCE + cusd(1));
+      expect(await marketContract.hasUserCommitted(signers.alice.address)).to.eq(true);
+    });
+  });
+
+  describe("Encrypted Payouts", function () {
+    beforeEach(async function () {
+      await commitBet(signers.alice, 1, cusd(100));
+      await commitBet(signers.bob, 1, cusd(50));
+      await commitBet(signers.charlie, 0, cusd(75));
+
+      await ethers.provider.send("evm_increaseTime", [COMMITMENT_DURATION + 1]);
+      await ethers.provider.send("evm_mine", []);
+      await marketContract.aggregateBets();
+      await marketContract.requestAggregateDecryption();
+      await fhevm.awaitDecryptionOracle();
+    });
+
+    it("should pay winners an encrypted share of the pool without revealing it", async function () {
+      await ethFeed.setPrice(6000_00000000n);
+      await ethers.provider.send("evm_increaseTime", [EVENT_DURATION]);
+      await ethers.provider.send("evm_mine", []);
+      const [roundId] = await ethFeed.latestRoundData(); // The round in effect at the deadline
+      await marketContract.settlePriceMarket(roundId, "0x");
+
+      for (const signer of [signers.alice, signers.bob, signers.charlie]) {
+        await expect(marketContract.connect(signer).claimRewards())
+          .to.emit(marketContract, "ConfidentialPaidOut")
+          .and.not.to.emit(marketContract, "ClaimRequested");
+        expect((await marketContract.getClaimInfo(signer.address))[0]).to.eq(4); // ClaimState.Confidential
+      }
+
+      // Alice holds 2/3 and Bob 1/3 of the YES side; Charlie's encrypted payout is 0
+      const payouts = [];
+      for (const signer of [signers.alice, signers.bob, signers.charlie]) {
+        const handle = await marketContract.getEncryptedPayout(signer.address);
+        payouts.push(await fhevm.userDecryptEuint(FhevmType.euint64, handle, marketAddress, signer));
+      }
+      expect(payouts).to.deep.eq([cusd(150), cusd(75), 0n]);
+
+      expect(await tokenBalance(signers.alice)).to.eq(INITIAL_BALANCE + cusd(50));
+      expect(await tokenBalance(signers.bob)).to.eq(INITIAL_BALANCE + cusd(25));
+      expect(await tokenBalance(signers.charlie)).to.eq(INITIAL_BALANCE - cusd(75));
+    });
+
+    it("should refund the encrypted bet when cancelled", async function () {
+      // The oracle price goes stale, so the market is never settled
+      await ethers.provider.send("evm_increaseTime", [EVENT_DURATION + REFUND_GRACE_PERIOD]);
+      await ethers.provider.send("evm_mine", []);
+      await marketContract.cancelMarket();
+
+      await marketContract.connect(signers.charlie).claimRefund();
+      expect(await tokenBalance(signers.charlie)).to.eq(INITIAL_BALANCE);
+      await expect(marketContract.connect(signers.deployer).claimRefund()).to.be.revertedWith("Nothing to refund");
+    });
+  });
+});
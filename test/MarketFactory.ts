@@ -0,0 +1,405 @@
+import { BlindOracle, MarketFactory, MarketFactory__factory } from "../types";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+  arbiter: HardhatEthersSigner;
+};
+
+describe("MarketFactory", function () {
+  let signers: Signers;
+  let libraries: { ConfidentialPayout: string; CommitIntent: string };
+  let factoryContract: MarketFactory;
+  let factoryAddress: string;
+
+  const COMMITMENT_DURATION = 3600; // 1 hour
+  const EVENT_DURATION = 7200; // 2 hours
+  const REFUND_GRACE_PERIOD = 7 * 86400; // 7 days
+
+  async function deployFixture() {
+    const factory = (await ethers.getContractFactory("MarketFactory", { libraries })) as MarketFactory__factory;
+    const contract = (await factory.deploy(signers.arbiter.address)) as MarketFactory;
+    const address = await contract.getAddress();
+
+    return { contract, address };
+  }
+
+  async function createEventMarket(
+    creator: HardhatEthersSigner,
+    creatorFeeBps = 0,
+    exitPenaltyBps = 0,
+  ): Promise<BlindOracle> {
+    const tx = await factoryContract.connect(creator).createMarket(
+      0, // MarketType.Event
+      "Will the community vote pass?",
+      COMMITMENT_DURATION,
+      EVENT_DURATION,
+      ethers.ZeroAddress,
+      ethers.ZeroHash,
+      0,
+      [],
+      [],
+      REFUND_GRACE_PERIOD,
+      creatorFeeBps,
+      exitPenaltyBps,
+      ethers.ZeroAddress, // ETH collateral
+      ethers.ZeroAddress, // No confidential collateral
+      0, // No TWAP window
+    );
+    await tx.wait();
+
+    const count = await factoryContract.getMarketCount();
+    const marketAddress = await factoryContract.getMarket(count - 1n);
+    return (await ethers.getContractAt("BlindOracle", marketAddress)) as unknown as BlindOracle;
+  }
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = {
+      deployer: ethSigners[0],
+      alice: ethSigners[1],
+      bob: ethSigners[2],
+      arbiter: ethSigners[3],
+    };
+
+    // BlindOracle links its encrypted payout math and signed-intent checks from libraries
+    const payoutLibrary = await (await ethers.getContractFactory("ConfidentialPayout")).deploy();
+    const intentLibrary = await (await ethers.getContractFactory("CommitIntent")).deploy();
+    libraries = {
+      ConfidentialPayout: await payoutLibrary.getAddress(),
+      CommitIntent: await intentLibrary.getAddress(),
+    };
+  });
+
+  beforeEach(async () => {
+    ({ contract: factoryContract, address: factoryAddress } = await deployFixture());
+  });
+
+  describe("Market ownership", function () {
+    it("should make the creator (not the factory) the market owner", async function () {
+      const market = await createEventMarket(signers.alice);
+
+      const owner = await market.owner();
+      expect(owner).to.eq(signers.alice.address);
+      expect(owner).to.not.eq(factoryAddress);
+    });
+
+    it("should keep MarketInfo.creator in sync with the market owner", async function () {
+      const market = await createEventMarket(signers.alice);
+      const marketAddress = await market.getAddress();
+
+      const info = await factoryContract.getMarketInfo(marketAddress);
+      expect(info.creator).to.eq(await market.owner());
+
+      const userMarkets = await factoryContract.getUserMarkets(signers.alice.address);
+      expect(userMarkets).to.deep.eq([marketAddress]);
+    });
+
+    it("should prevent the creator from betting on their own event market", async function () {
+      const market = await createEventMarket(signers.alice);
+      const marketAddress = await market.getAddress();
+
+      const betAmount = ethers.parseEther("1.0");
+      const encryptedInput = await fhevm
+        .createEncryptedInput(marketAddress, signers.alice.address)
+        .add8(1)
+        .add64(Number(betAmount))
+        .encrypt();
+
+      await market.connect(signers.alice).deposit({ value: betAmount });
+      await expect(
+        market
+          .connect(signers.alice)
+          .commitPrediction(
+            encryptedInput.handles[0],
+            encryptedInput.handles[1],
+            encryptedInput.inputProof,
+            encryptedInput.inputProof,
+          ),
+      ).to.be.revertedWith("Owner cannot participate in event markets");
+    });
+
+    it("should let only the creator deposit the settlement stake", async function () {
+      const market = await createEventMarket(signers.alice);
+      const marketAddress = await market.getAddress();
+
+      // Bob bets 1 ETH on YES
+      const betAmount = ethers.parseEther("1.0");
+      const encryptedInput = await fhevm
+        .createEncryptedInput(marketAddress, signers.bob.address)
+        .add8(1)
+        .add64(Number(betAmount))
+        .encrypt();
+
+      await market.connect(signers.bob).deposit({ value: betAmount });
+      await market
+        .connect(signers.bob)
+        .commitPrediction(
+          encryptedInput.handles[0],
+          encryptedInput.handles[1],
+          encryptedInput.inputProof,
+          encryptedInput.inputProof,
+        );
+
+      // Move through aggregation and decryption into the Settled phase
+      await ethers.provider.send("evm_increaseTime", [COMMITMENT_DURATION + 1]);
+      await ethers.provider.send("evm_mine", []);
+      await market.aggregateBets();
+      await market.requestAggregateDecryption();
+      await fhevm.awaitDecryptionOracle();
+      expect(await market.currentPhase()).to.eq(3); // Phase.Settled
+
+      const stake = betAmount / 10n;
+      await expect(market.connect(signers.deployer).depositOwnerStake({ value: stake })).to.be.revertedWith(
+        "Only owner can call this",
+      );
+
+      await market.connect(signers.alice).depositOwnerStake({ value: stake });
+      expect(await market.ownerStake()).to.eq(stake);
+    });
+  });
+
+  describe("Categorical markets", function () {
+    it("should forward outcome labels to the deployed market", async function () {
+      const labels = ["Red Team", "Blue Team", "Green Team"];
+      await factoryContract
+        .connect(signers.alice)
+        .createMarket(
+          2,
+          "Which team wins the final?",
+          COMMITMENT_DURATION,
+          EVENT_DURATION,
+          ethers.ZeroAddress,
+          ethers.ZeroHash,
+          0,
+          labels,
+          [],
+          REFUND_GRACE_PERIOD,
+          0,
+          0,
+          ethers.ZeroAddress,
+          ethers.ZeroAddress,
+          0,
+        );
+
+      const marketAddress = await factoryContract.getMarket(0);
+      const market = (await ethers.getContractAt("BlindOracle", marketAddress)) as unknown as BlindOracle;
+
+      expect(await market.marketType()).to.eq(2); // MarketType.Categorical
+      expect(await market.getOutcomeLabels()).to.deep.eq(labels);
+      expect((await factoryContract.marketInfo(marketAddress)).marketType).to.eq(2);
+    });
+
+    it("should reject outcome labels on binary markets", async function () {
+      await expect(
+        factoryContract.createMarket(
+          0,
+          "Will it rain?",
+          COMMITMENT_DURATION,
+          EVENT_DURATION,
+          ethers.ZeroAddress,
+          ethers.ZeroHash,
+          0,
+          ["Maybe", "Definitely"],
+          [],
+          REFUND_GRACE_PERIOD,
+          0,
+          0,
+          ethers.ZeroAddress,
+          ethers.ZeroAddress,
+          0,
+        ),
+      ).to.be.revertedWith("Outcome labels only for categorical markets");
+    });
+  });
+
+  describe("Scalar markets", function () {
+    it("should require a price oracle", async function () {
+      await expect(
+        factoryContract.createMarket(
+          3,
+          "Where will ETH close?",
+          COMMITMENT_DURATION,
+          EVENT_DURATION,
+          ethers.ZeroAddress,
+          ethers.ZeroHash,
+          0,
+          [],
+          [3000_00000000n, 3200_00000000n],
+          REFUND_GRACE_PERIOD,
+          0,
+          0,
+          ethers.ZeroAddress,
+          ethers.ZeroAddress,
+          0,
+        ),
+      ).to.be.revertedWith("Price oracle required for price markets");
+    });
+  });
+
+  describe("Price oracle validation", function () {
+    const ETH = ethers.encodeBytes32String("ETH");
+
+    function createScalarMarket(priceOracle: string, asset = ETH) {
+      return factoryContract.createMarket(
+        3,
+        "Where will ETH close?",
+        COMMITMENT_DURATION,
+        EVENT_DURATION,
+        priceOracle,
+        asset,
+        0,
+        [],
+        [3000_00000000n, 3200_00000000n],
+        REFUND_GRACE_PERIOD,
+        0,
+        0,
+        ethers.ZeroAddress,
+        ethers.ZeroAddress,
+        0,
+      );
+    }
+
+    async function deployOracles() {
+      const registry = await (await ethers.getContractFactory("AssetRegistry")).deploy();
+      const feed = await (await ethers.getContractFactory("MockChainlinkAggregator")).deploy(3500_00000000n, 8);
+      await registry.addAsset("ETH", await feed.getAddress(), 8);
+
+      const registryAddress = await registry.getAddress();
+      const priceOracle = await (await ethers.getContractFactory("PriceOracle")).deploy(registryAddress);
+      const chainlinkOracle = await (await ethers.getContractFactory("ChainlinkPriceOracle")).deploy(registryAddress);
+      return { registry, priceOracle, chainlinkOracle };
+    }
+
+    it("should reject oracles that do not implement IPriceOracle", async function () {
+      // An account without code and a contract without ERC-165 support
+      await expect(createScalarMarket(signers.bob.address)).to.be.revertedWith(
+        "Price oracle must implement IPriceOracle",
+      );
+      await expect(createScalarMarket(factoryAddress)).to.be.revertedWith("Price oracle must implement IPriceOracle");
+    });
+
+    it("should accept any IPriceOracle implementation", async function () {
+      const { priceOracle, chainlinkOracle } = await deployOracles();
+      await priceOracle.updatePrice(ETH, 3500_00000000n);
+
+      for (const oracle of [priceOracle, chainlinkOracle]) {
+        expect(await oracle.decimals()).to.eq(8);
+        await createScalarMarket(await oracle.getAddress());
+      }
+      expect(await factoryContract.getMarketCount()).to.eq(2);
+
+      const [price, , priceDecimals, description] = await priceOracle.getPriceWithMetadata(ETH);
+      expect(price).to.eq(3500_00000000n);
+      expect(priceDecimals).to.eq(8);
+      expect(description).to.eq("ETH / USD");
+    });
+
+    it("should reject assets the oracle cannot price", async function () {
+      const { registry, priceOracle, chainlinkOracle } = await deployOracles();
+      const LINK = ethers.encodeBytes32String("LINK");
+
+      // Unlisted assets are rejected by every oracle
+      for (const oracle of [priceOracle, chainlinkOracle]) {
+        await expect(createScalarMarket(await oracle.getAddress(), LINK)).to.be.revertedWith(
+          "Asset not supported by oracle",
+        );
+      }
+
+      // An asset listed without a feed can only be priced by updaters
+      await registry.addAsset("LINK", ethers.ZeroAddress, 0);
+      await createScalarMarket(await priceOracle.getAddress(), LINK);
+      await expect(createScalarMarket(await chainlinkOracle.getAddress(), LINK)).to.be.revertedWith(
+        "Asset not supported by oracle",
+      );
+    });
+  });
+
+  describe("Arbiter", function () {
+    it("should give every market the factory arbiter", async function () {
+      const market = await createEventMarket(signers.alice);
+      expect(await factoryContract.arbiter()).to.eq(signers.arbiter.address);
+      expect(await market.arbiter()).to.eq(signers.arbiter.address);
+    });
+
+    it("should not let the arbiter create markets it would rule on", async function () {
+      await expect(createEventMarket(signers.arbiter)).to.be.revertedWith("Invalid arbiter address");
+
+      const factory = (await ethers.getContractFactory("MarketFactory", { libraries })) as MarketFactory__factory;
+      await expect(factory.deploy(ethers.ZeroAddress)).to.be.revertedWith("Invalid arbiter address");
+    });
+  });
+
+  describe("Refund grace period", function () {
+    it("should forward the refund grace period to the deployed market", async function () {
+      const market = await createEventMarket(signers.alice);
+      expect(await market.refundGracePeriod()).to.eq(REFUND_GRACE_PERIOD);
+    });
+
+    it("should reject a zero refund grace period", async function () {
+      await expect(
+        factoryContract.createMarket(
+          0,
+          "Will it rain?",
+          COMMITMENT_DURATION,
+          EVENT_DURATION,
+          ethers.ZeroAddress,
+          ethers.ZeroHash,
+          0,
+          [],
+          [],
+          0,
+          0,
+          0,
+          ethers.ZeroAddress,
+          ethers.ZeroAddress,
+          0,
+        ),
+      ).to.be.revertedWith("Refund grace period must be positive");
+    });
+  });
+
+  describe("Fees", function () {
+    it("should let only the admin set a capped protocol fee", async function () {
+      expect(await factoryContract.admin()).to.eq(signers.deployer.address);
+
+      await expect(factoryContract.connect(signers.alice).setProtocolFee(100, signers.bob.address)).to.be.revertedWith(
+        "Only admin can call this",
+      );
+      await expect(factoryContract.setProtocolFee(501, signers.bob.address)).to.be.revertedWith(
+        "Protocol fee too high",
+      );
+      await expect(factoryContract.setProtocolFee(100, ethers.ZeroAddress)).to.be.revertedWith("Invalid fee recipient");
+
+      await expect(factoryContract.setProtocolFee(200, signers.bob.address))
+        .to.emit(factoryContract, "ProtocolFeeUpdated")
+        .withArgs(200, signers.bob.address);
+      expect(await factoryContract.protocolFeeBps()).to.eq(200);
+      expect(await factoryContract.protocolFeeRecipient()).to.eq(signers.bob.address);
+    });
+
+    it("should fix the protocol and creator fees of a market at creation", async function () {
+      await factoryContract.setProtocolFee(200, signers.bob.address);
+      const market = await createEventMarket(signers.alice, 300);
+
+      // Later fee changes only apply to new markets
+      await factoryContract.setProtocolFee(0, ethers.ZeroAddress);
+      expect(await market.feeConfig()).to.deep.eq([signers.bob.address, 200n, 300n, 0n]);
+    });
+
+    it("should reject a creator fee above the cap", async function () {
+      await expect(createEventMarket(signers.alice, 501)).to.be.revertedWith("Creator fee too high");
+    });
+
+    it("should forward a capped early-exit penalty to the market", async function () {
+      const market = await createEventMarket(signers.alice, 0, 1000);
+      expect((await market.feeConfig()).exitPenaltyBps).to.eq(1000);
+
+      await expect(createEventMarket(signers.alice, 0, 2001)).to.be.revertedWith("Exit penalty too high");
+    });
+  });
+});
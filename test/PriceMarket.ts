@@ -1,4 +1,4 @@
-import { BlindOracle, BlindOracle__factory, ChainlinkPriceOracle, ChainlinkPriceOracle__factory, MockChainlinkAggregator, MockChainlinkAggregator__factory } from "../types";
+import { AssetRegistry, BlindOracle, BlindOracle__factory, ChainlinkPriceOracle, ChainlinkPriceOracle__factory, FallbackPriceOracle, MockChainlinkAggregator, MockChainlinkAggregator__factory, PriceOracle } from "../types";
 import { FhevmType } from "@fhevm/hardhat-plugin";
 import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
 import { expect } from "chai";
@@ -13,6 +13,8 @@ type Signers = {
 
 describe("Price Market with Chainlink Oracle", function () {
   let signers: Signers;
+  let libraries: { ConfidentialPayout: string; CommitIntent: string };
+  let assetRegistry: AssetRegistry;
   let priceOracleContract: ChainlinkPriceOracle;
   let priceMarketContract: BlindOracle;
   let mockEthFeed: MockChainlinkAggregator;
@@ -25,6 +27,10 @@ describe("Price Market with Chainlink Oracle", function () {
   const TARGET_PRICE = 5000_00000000n; // $5,000 (scaled by 1e8)
   const INITIAL_ETH_PRICE = 3500_00000000n; // $3,500
   const INITIAL_BTC_PRICE = 95000_00000000n; // $95,000
+  const REFUND_GRACE_PERIOD = 7 * 86400; // 7 days
+  const ETH = ethers.encodeBytes32String("ETH");
+  const BTC = ethers.encodeBytes32String("BTC");
+  const NO_FEES = { protocolFeeRecipient: ethers.ZeroAddress, protocolFeeBps: 0, creatorFeeBps: 0, exitPenaltyBps: 0 };
 
   async function deployFixture() {
     // Deploy Mock Chainlink Aggregators
@@ -43,29 +49,91 @@ describe("Price Market with Chainlink Oracle", function () {
     const ethFeedAddr = await ethFeed.getAddress();
     const btcFeedAddr = await btcFeed.getAddress();
 
-    // Deploy ChainlinkPriceOracle with mock feeds
+    // List the mock feeds in an asset registry
+    const registry = (await (await ethers.getContractFactory("AssetRegistry")).deploy()) as AssetRegistry;
+    await registry.addAsset("ETH", ethFeedAddr, 8);
+    await registry.addAsset("BTC", btcFeedAddr, 8);
+
+    // Deploy ChainlinkPriceOracle reading the registry's feeds
     const oracleFactory = (await ethers.getContractFactory("ChainlinkPriceOracle")) as ChainlinkPriceOracle__factory;
-    const oracle = (await oracleFactory.deploy(
-      ethFeedAddr,
-      btcFeedAddr,
-      ethers.ZeroAddress // SOL not available
-    )) as ChainlinkPriceOracle;
+    const oracle = (await oracleFactory.deploy(await registry.getAddress())) as ChainlinkPriceOracle;
     const oracleAddr = await oracle.getAddress();
 
     // Deploy BlindOracle as Price Market
-    const marketFactory = (await ethers.getContractFactory("BlindOracle")) as BlindOracle__factory;
+    const marketFactory = (await ethers.getContractFactory("BlindOracle", { libraries })) as BlindOracle__factory;
     const market = (await marketFactory.deploy(
+      signers.deployer.address, // Market owner
       1, // MarketType.Price
       "Will ETH price be above $5,000?",
       COMMITMENT_DURATION,
       EVENT_DURATION,
       oracleAddr,
-      0, // Asset.ETH
-      TARGET_PRICE
+      ETH,
+      TARGET_PRICE,
+      [],
+      [],
+      REFUND_GRACE_PERIOD,
+      ethers.ZeroAddress, // Settled by the oracle, no arbiter needed
+      NO_FEES,
+      ethers.ZeroAddress, // ETH collateral
+      ethers.ZeroAddress, // No confidential collateral
+      0 // Settle on the price at the deadline
     )) as BlindOracle;
     const marketAddr = await market.getAddress();
 
-    return { oracle, oracleAddr, market, marketAddr, ethFeed, btcFeed };
+    return { registry, oracle, oracleAddr, market, marketAddr, ethFeed, btcFeed };
+  }
+
+  async function deployTwapMarket(twapWindow: bigint, asset = ETH, oracle = oracleAddress) {
+    return (await (await ethers.getContractFactory("BlindOracle", { libraries })).deploy(
+      signers.deployer.address,
+      1, // MarketType.Price
+      "Will ETH average above $5,000 in the last hour?",
+      COMMITMENT_DURATION,
+      EVENT_DURATION,
+      oracle,
+      asset,
+      TARGET_PRICE,
+      [],
+      [],
+      REFUND_GRACE_PERIOD,
+      ethers.ZeroAddress,
+      NO_FEES,
+      ethers.ZeroAddress, // ETH collateral
+      ethers.ZeroAddress, // No confidential collateral
+      twapWindow
+    )) as BlindOracle;
+  }
+
+  // Alice bets YES, then the commitment phase ends and the totals are decrypted
+  async function commitAndDecrypt(market: BlindOracle) {
+    const betAmount = ethers.parseEther("1.0");
+    const encryptedInput = await fhevm
+      .createEncryptedInput(await market.getAddress(), signers.alice.address)
+      .add8(1)
+      .add64(Number(betAmount))
+      .encrypt();
+    await market.connect(signers.alice).deposit({ value: betAmount });
+    await market
+      .connect(signers.alice)
+      .commitPrediction(
+        encryptedInput.handles[0],
+        encryptedInput.handles[1],
+        encryptedInput.inputProof,
+        encryptedInput.inputProof
+      );
+
+    await ethers.provider.send("evm_increaseTime", [COMMITMENT_DURATION + 1]);
+    await ethers.provider.send("evm_mine", []);
+    await market.aggregateBets();
+    await market.requestAggregateDecryption();
+    await fhevm.awaitDecryptionOracle();
+  }
+
+  // Publishes an ETH feed round at an exact block timestamp
+  async function setPriceAt(price: bigint, timestamp: bigint) {
+    await ethers.provider.send("evm_setNextBlockTimestamp", [Number(timestamp)]);
+    await mockEthFeed.setPrice(price);
   }
 
   before(async function () {
@@ -76,10 +144,18 @@ describe("Price Market with Chainlink Oracle", function () {
       bob: ethSigners[2],
       charlie: ethSigners[3],
     };
+
+    // BlindOracle links its encrypted payout math and signed-intent checks from libraries
+    const payoutLibrary = await (await ethers.getContractFactory("ConfidentialPayout")).deploy();
+    const intentLibrary = await (await ethers.getContractFactory("CommitIntent")).deploy();
+    libraries = {
+      ConfidentialPayout: await payoutLibrary.getAddress(),
+      CommitIntent: await intentLibrary.getAddress(),
+    };
   });
 
   beforeEach(async () => {
-    ({ oracle: priceOracleContract, oracleAddr: oracleAddress, market: priceMarketContract, marketAddr: marketAddress, ethFeed: mockEthFeed, btcFeed: mockBtcFeed } = await deployFixture());
+    ({ registry: assetRegistry, oracle: priceOracleContract, oracleAddr: oracleAddress, market: priceMarketContract, marketAddr: marketAddress, ethFeed: mockEthFeed, btcFeed: mockBtcFeed } = await deployFixture());
   });
 
   describe("Deployment", function () {
@@ -109,21 +185,21 @@ describe("Price Market with Chainlink Oracle", function () {
 
   describe("Chainlink Oracle Integration", function () {
     it("should fetch ETH price from Chainlink", async function () {
-      const [price, timestamp] = await priceOracleContract.getPrice(0); // Asset.ETH
+      const [price, timestamp] = await priceOracleContract.getPrice(ETH);
       
       expect(price).to.be.greaterThan(0);
       expect(timestamp).to.be.greaterThan(0);
     });
 
     it("should fetch BTC price from Chainlink", async function () {
-      const [price, timestamp] = await priceOracleContract.getPrice(1); // Asset.BTC
+      const [price, timestamp] = await priceOracleContract.getPrice(BTC);
       
       expect(price).to.be.greaterThan(0);
       expect(timestamp).to.be.greaterThan(0);
     });
 
     it("should validate price freshness", async function () {
-      const [price, timestamp] = await priceOracleContract.getPrice(0);
+      const [price, timestamp] = await priceOracleContract.getPrice(ETH);
       const currentTime = Math.floor(Date.now() / 1000);
       const maxAge = 24 * 3600; // 24 hours
       
@@ -134,20 +210,29 @@ describe("Price Market with Chainlink Oracle", function () {
   describe("Price Market Settlement (Note: Full settlement requires Gateway callback)", function () {
     it("should prevent settlement before event deadline", async function () {
       await expect(
-        priceMarketContract.settlePriceMarket()
+        priceMarketContract.settlePriceMarket(1, "0x")
       ).to.be.revertedWith("Event not ended yet");
     });
 
     it("should prevent settlement without aggregation", async function () {
       // Deploy a new market without aggregation
-      const newMarket = await (await ethers.getContractFactory("BlindOracle")).deploy(
+      const newMarket = await (await ethers.getContractFactory("BlindOracle", { libraries })).deploy(
+        signers.deployer.address,
         1, // MarketType.Price
         "Test market",
         COMMITMENT_DURATION,
         EVENT_DURATION,
         oracleAddress,
-        0,
-        TARGET_PRICE
+        ETH,
+        TARGET_PRICE,
+        [],
+        [],
+        REFUND_GRACE_PERIOD,
+        ethers.ZeroAddress,
+        NO_FEES,
+        ethers.ZeroAddress, // ETH collateral
+        ethers.ZeroAddress, // No confidential collateral
+        0 // Settle on the price at the deadline
       ) as BlindOracle;
 
       // Fast forward past event deadline
@@ -155,7 +240,7 @@ describe("Price Market with Chainlink Oracle", function () {
       await ethers.provider.send("evm_mine", []);
 
       await expect(
-        newMarket.settlePriceMarket()
+        newMarket.settlePriceMarket(1, "0x")
       ).to.be.revertedWith("Must complete aggregation and decryption first");
     });
 
@@ -163,19 +248,931 @@ describe("Price Market with Chainlink Oracle", function () {
       const isSettled = await priceMarketContract.isSettled();
       expect(isSettled).to.eq(false);
     });
+
+    it("should refund bettors when a stale oracle blocks settlement", async function () {
+      const betAmount = ethers.parseEther("1.0");
+      const encryptedInput = await fhevm
+        .createEncryptedInput(marketAddress, signers.alice.address)
+        .add8(1)
+        .add64(Number(betAmount))
+        .encrypt();
+
+      await priceMarketContract.connect(signers.alice).deposit({ value: betAmount });
+      await priceMarketContract
+        .connect(signers.alice)
+        .commitPrediction(
+          encryptedInput.handles[0],
+          encryptedInput.handles[1],
+          encryptedInput.inputProof,
+          encryptedInput.inputProof
+        );
+
+      await ethers.provider.send("evm_increaseTime", [COMMITMENT_DURATION + 1]);
+      await ethers.provider.send("evm_mine", []);
+      await priceMarketContract.aggregateBets();
+      await priceMarketContract.requestAggregateDecryption();
+      await fhevm.awaitDecryptionOracle();
+
+      // The feed stopped updating more than MAX_PRICE_AGE before the event deadline
+      const eventDeadline = await priceMarketContract.eventDeadline();
+      await mockEthFeed.setUpdatedAt(eventDeadline - 25n * 3600n);
+      await ethers.provider.send("evm_increaseTime", [EVENT_DURATION + REFUND_GRACE_PERIOD]);
+      await ethers.provider.send("evm_mine", []);
+      await expect(priceMarketContract.settlePriceMarket(1, "0x")).to.be.revertedWithCustomError(
+        priceOracleContract,
+        "StalePrice"
+      );
+
+      await priceMarketContract.connect(signers.bob).cancelMarket();
+      expect(await priceMarketContract.currentPhase()).to.eq(4); // Phase.Cancelled
+
+      await expect(priceMarketContract.connect(signers.alice).claimRefund()).to.changeEtherBalance(
+        signers.alice,
+        betAmount
+      );
+    });
+  });
+
+  describe("TWAP Settlement", function () {
+    const TWAP_WINDOW = 3600n; // 1 hour
+
+    it("should reject a window longer than the event period", async function () {
+      await expect(deployTwapMarket(BigInt(EVENT_DURATION) + 1n)).to.be.revertedWith("TWAP window too long");
+    });
+
+    it("should settle on the time-weighted average price before the deadline", async function () {
+      const market = await deployTwapMarket(TWAP_WINDOW);
+      await commitAndDecrypt(market);
+
+      // $4,000 until halfway through the window, then $6,000, then $5,500 for the last 10 minutes
+      const eventDeadline = await market.eventDeadline();
+      await setPriceAt(4000_00000000n, eventDeadline - TWAP_WINDOW - 100n);
+      await setPriceAt(6000_00000000n, eventDeadline - 1800n);
+      await setPriceAt(5500_00000000n, eventDeadline - 600n);
+      // A spike after the deadline must not count
+      await setPriceAt(9000_00000000n, eventDeadline + 10n);
+
+      await market.settlePriceMarket(await priceOracleContract.findRoundAt(ETH, eventDeadline), "0x");
+
+      const twap = (4000_00000000n * 1800n + 6000_00000000n * 1200n + 5500_00000000n * 600n) / TWAP_WINDOW;
+      expect(await market.twapWindow()).to.eq(TWAP_WINDOW);
+      expect(await market.settlementPrice()).to.eq(twap);
+      // The spot price at the deadline is above target, but the hourly average is not
+      expect(await market.finalOutcome()).to.eq(false);
+    });
+
+    it("should return the price at the end time for a zero window", async function () {
+      const start = BigInt((await ethers.provider.getBlock("latest"))!.timestamp);
+      await setPriceAt(4000_00000000n, start + 100n);
+      await setPriceAt(6000_00000000n, start + 200n);
+
+      // Round 1 is the fixture's initial price
+      expect(await priceOracleContract.getTwap(ETH, start + 150n, 0, 2)).to.eq(4000_00000000n);
+      expect(await priceOracleContract.getTwap(ETH, start + 200n, 0, 3)).to.eq(6000_00000000n);
+    });
+
+    it("should average only the part of the window the feed history covers", async function () {
+      const start = BigInt((await ethers.provider.getBlock("latest"))!.timestamp);
+      await setPriceAt(4000_00000000n, start + 100n);
+      await setPriceAt(6000_00000000n, start + 400n);
+
+      // The feed has no rounds before its first one, so the average starts there
+      const [, , , firstUpdatedAt] = await mockEthFeed.getRoundData(1);
+      const endTime = start + 500n;
+      await ethers.provider.send("evm_setNextBlockTimestamp", [Number(endTime)]);
+      await ethers.provider.send("evm_mine", []);
+      const covered = endTime - firstUpdatedAt;
+      const twap =
+        (INITIAL_ETH_PRICE * (start + 100n - firstUpdatedAt) + 4000_00000000n * 300n + 6000_00000000n * 100n) / covered;
+      expect(await priceOracleContract.getTwap(ETH, endTime, covered + 3600n, 3)).to.eq(twap);
+    });
+
+    it("should reject windows ending in the future", async function () {
+      const now = BigInt((await ethers.provider.getBlock("latest"))!.timestamp);
+      await expect(priceOracleContract.getTwap(ETH, now + 3600n, TWAP_WINDOW, 1)).to.be.revertedWithCustomError(
+        priceOracleContract,
+        "InvalidWindow"
+      );
+    });
+  });
+
+  describe("Historical Prices", function () {
+    let start: bigint;
+
+    beforeEach(async function () {
+      // Round 1 is the fixture's initial price
+      start = BigInt((await ethers.provider.getBlock("latest"))!.timestamp);
+      await setPriceAt(4000_00000000n, start + 100n); // Round 2
+      await setPriceAt(6000_00000000n, start + 200n); // Round 3
+      await setPriceAt(7000_00000000n, start + 300n); // Round 4
+    });
+
+    it("should return the price of the hinted round", async function () {
+      expect(await priceOracleContract.findRoundAt(ETH, start + 250n)).to.eq(3);
+      expect(await priceOracleContract.getPriceAt(ETH, start + 250n, 3)).to.deep.eq([6000_00000000n, start + 200n]);
+      // The latest round needs no later round to prove it
+      expect(await priceOracleContract.getPriceAt(ETH, start + 300n, 4)).to.deep.eq([7000_00000000n, start + 300n]);
+    });
+
+    it("should find the round in effect at any time of the feed's history", async function () {
+      for (let i = 5n; i <= 20n; i++) {
+        await setPriceAt(7000_00000000n + i, start + 100n * i);
+      }
+      // Round 1 is no later than start, rounds 2 to 20 are 100 seconds apart
+      expect(await priceOracleContract.findRoundAt(ETH, start + 99n)).to.eq(1);
+      expect(await priceOracleContract.findRoundAt(ETH, start + 100n)).to.eq(2);
+      expect(await priceOracleContract.findRoundAt(ETH, start + 250n)).to.eq(3);
+      expect(await priceOracleContract.findRoundAt(ETH, start + 1399n)).to.eq(13);
+      expect(await priceOracleContract.findRoundAt(ETH, start + 1999n)).to.eq(19);
+      expect(await priceOracleContract.findRoundAt(ETH, start + 5000n)).to.eq(20);
+      await expect(priceOracleContract.findRoundAt(ETH, 1n)).to.be.revertedWithCustomError(
+        priceOracleContract,
+        "PriceHistoryUnavailable"
+      );
+    });
+
+    it("should reject a hint that is not the last round at or before the timestamp", async function () {
+      // Round 3 is also at or before the timestamp
+      await expect(priceOracleContract.getPriceAt(ETH, start + 250n, 2)).to.be.revertedWithCustomError(
+        priceOracleContract,
+        "InvalidRoundHint"
+      );
+      // Round 4 was published after it
+      await expect(priceOracleContract.getPriceAt(ETH, start + 250n, 4)).to.be.revertedWithCustomError(
+        priceOracleContract,
+        "InvalidRoundHint"
+      );
+      // Round 9 does not exist
+      await expect(priceOracleContract.getPriceAt(ETH, start + 250n, 9)).to.be.revertedWithCustomError(
+        priceOracleContract,
+        "InvalidRoundHint"
+      );
+    });
+
+    it("should reject timestamps in the future", async function () {
+      await expect(priceOracleContract.getPriceAt(ETH, start + 3600n, 4)).to.be.revertedWithCustomError(
+        priceOracleContract,
+        "InvalidTimestamp"
+      );
+    });
+
+    it("should settle a late market at the price in effect at the deadline", async function () {
+      const market = await deployTwapMarket(0n);
+      await commitAndDecrypt(market);
+
+      const eventDeadline = await market.eventDeadline();
+      await setPriceAt(5200_00000000n, eventDeadline - 60n);
+      // The market is settled 3 days late, after the price fell below target
+      await setPriceAt(4100_00000000n, eventDeadline + 86400n);
+      await ethers.provider.send("evm_increaseTime", [3 * 86400]);
+      await ethers.provider.send("evm_mine", []);
+
+      const roundHint = await priceOracleContract.findRoundAt(ETH, eventDeadline);
+      await expect(market.settlePriceMarket(roundHint + 1n, "0x")).to.be.revertedWithCustomError(
+        priceOracleContract,
+        "InvalidRoundHint"
+      );
+      await market.settlePriceMarket(roundHint, "0x");
+
+      expect(await market.settlementPrice()).to.eq(5200_00000000n);
+      expect(await market.finalOutcome()).to.eq(true);
+    });
+  });
+
+  describe("PriceOracle TWAP", function () {
+    let updaterOracle: PriceOracle;
+
+    beforeEach(async function () {
+      updaterOracle = (await (
+        await ethers.getContractFactory("PriceOracle")
+      ).deploy(await assetRegistry.getAddress())) as PriceOracle;
+      await updaterOracle.updatePrice(ETH, INITIAL_ETH_PRICE); // Round 1
+    });
+
+    async function updatePriceAt(price: bigint, timestamp: bigint) {
+      await ethers.provider.send("evm_setNextBlockTimestamp", [Number(timestamp)]);
+      await updaterOracle.updatePrice(ETH, price);
+    }
+
+    it("should average the updates kept in its history", async function () {
+      const start = BigInt((await ethers.provider.getBlock("latest"))!.timestamp);
+      await updatePriceAt(4000_00000000n, start + 100n);
+      await updatePriceAt(6000_00000000n, start + 700n);
+      await updatePriceAt(9000_00000000n, start + 1000n);
+
+      // [start + 400, start + 999]: $4,000 for 300 seconds, then $6,000 for 299 seconds
+      expect(await updaterOracle.getTwap(ETH, start + 1000n - 1n, 599n, 3)).to.eq(
+        (4000_00000000n * 300n + 6000_00000000n * 299n) / 599n
+      );
+      expect(await updaterOracle.getTwap(ETH, start + 1000n, 0, 4)).to.eq(9000_00000000n);
+      expect(await updaterOracle.priceHistoryCount(ETH)).to.eq(4); // Initial price and three updates
+    });
+
+    it("should look up past prices by round", async function () {
+      const start = BigInt((await ethers.provider.getBlock("latest"))!.timestamp);
+      await updatePriceAt(4000_00000000n, start + 100n);
+      await updatePriceAt(6000_00000000n, start + 200n);
+
+      expect(await updaterOracle.findRoundAt(ETH, start + 150n)).to.eq(2);
+      expect(await updaterOracle.getPriceAt(ETH, start + 150n, 2)).to.deep.eq([4000_00000000n, start + 100n]);
+      await expect(updaterOracle.getPriceAt(ETH, start + 200n, 2)).to.be.revertedWith("Invalid round hint");
+      await expect(updaterOracle.getPriceAt(ETH, start + 150n, 3)).to.be.revertedWith("Invalid round hint");
+    });
+
+    it("should overwrite the oldest updates once the ring buffer is full", async function () {
+      const historySize = await updaterOracle.PRICE_HISTORY_SIZE();
+      const start = BigInt((await ethers.provider.getBlock("latest"))!.timestamp);
+      for (let i = 1n; i <= historySize; i++) {
+        await updatePriceAt(i * 100_00000000n, start + i * 60n);
+      }
+
+      // The initial price was overwritten, so the average starts at the oldest update still kept
+      const endTime = start + historySize * 60n;
+      const twap = await updaterOracle.getTwap(ETH, endTime, endTime - start, historySize + 1n);
+      const oldest = 1n;
+      let weightedSum = 0n;
+      for (let i = oldest; i < historySize; i++) {
+        weightedSum += i * 100_00000000n * 60n;
+      }
+      expect(twap).to.eq(weightedSum / (endTime - (start + oldest * 60n)));
+    });
+
+    it("should reject a price that was stale at the end of the window", async function () {
+      const start = BigInt((await ethers.provider.getBlock("latest"))!.timestamp);
+      await ethers.provider.send("evm_increaseTime", [2 * 86400]);
+      await ethers.provider.send("evm_mine", []);
+
+      await expect(updaterOracle.getTwap(ETH, start + 86400n + 10n, 3600, 1)).to.be.revertedWith("Price too old");
+    });
+  });
+
+  describe("PriceOracle Median Quorum", function () {
+    let updaterOracle: PriceOracle;
+
+    beforeEach(async function () {
+      updaterOracle = (await (
+        await ethers.getContractFactory("PriceOracle")
+      ).deploy(await assetRegistry.getAddress())) as PriceOracle;
+      for (const updater of [signers.alice, signers.bob, signers.charlie]) {
+        await updaterOracle.addUpdater(updater.address);
+      }
+      await updaterOracle.setQuorum(3, 500); // Three reports per round, flag those more than 5% off
+    });
+
+    it("should record the median once the quorum has reported", async function () {
+      await updaterOracle.connect(signers.alice).updatePrice(ETH, 3500_00000000n);
+      await expect(updaterOracle.connect(signers.bob).updatePrice(ETH, 3510_00000000n))
+        .to.emit(updaterOracle, "PriceReported")
+        .withArgs(ETH, 1, signers.bob.address, 3510_00000000n);
+
+      // Two of three reports are in, so no price yet
+      await expect(updaterOracle.getPrice(ETH)).to.be.revertedWith("Price not available");
+      expect(await updaterOracle.hasReported(ETH, signers.bob.address)).to.eq(true);
+      expect(await updaterOracle.getPendingReports(ETH)).to.have.length(2);
+      await expect(
+        updaterOracle.connect(signers.bob).updatePrice(ETH, 3400_00000000n)
+      ).to.be.revertedWith("Already reported");
+
+      // A compromised updater can't move the price, and is flagged
+      await expect(updaterOracle.connect(signers.charlie).updatePrice(ETH, 1_00000000n))
+        .to.emit(updaterOracle, "OutlierReported")
+        .withArgs(ETH, 1, signers.charlie.address, 1_00000000n, 3500_00000000n)
+        .and.to.emit(updaterOracle, "PriceUpdated");
+
+      const [price] = await updaterOracle.getPrice(ETH);
+      expect(price).to.eq(3500_00000000n);
+      expect(await updaterOracle.priceHistoryCount(ETH)).to.eq(1);
+      expect(await updaterOracle.getPendingReports(ETH)).to.have.length(0);
+      expect(await updaterOracle.hasReported(ETH, signers.bob.address)).to.eq(false);
+    });
+
+    it("should average the middle reports for an even quorum", async function () {
+      await updaterOracle.setQuorum(4, 500);
+      await updaterOracle.updatePrices([ETH, BTC], [3500_00000000n, 97000_00000000n]);
+      await updaterOracle.connect(signers.alice).updatePrice(ETH, 3520_00000000n);
+      await updaterOracle.connect(signers.bob).updatePrice(ETH, 3480_00000000n);
+      await updaterOracle.connect(signers.charlie).updatePrice(ETH, 3600_00000000n);
+
+      const [price] = await updaterOracle.getPrice(ETH);
+      expect(price).to.eq(3510_00000000n);
+      // Each asset has its own round
+      expect(await updaterOracle.getPendingReports(BTC)).to.have.length(1);
+    });
+
+    it("should discard the reports of a round that does not reach the quorum in time", async function () {
+      await updaterOracle.connect(signers.alice).updatePrice(ETH, 3500_00000000n);
+      await updaterOracle.connect(signers.bob).updatePrice(ETH, 3510_00000000n);
+
+      const timeout = await updaterOracle.REPORT_TIMEOUT();
+      await ethers.provider.send("evm_increaseTime", [Number(timeout) + 1]);
+      await ethers.provider.send("evm_mine", []);
+      expect(await updaterOracle.hasReported(ETH, signers.alice.address)).to.eq(false);
+      expect(await updaterOracle.getPendingReports(ETH)).to.have.length(0);
+
+      // The stale reports don't count towards the new round
+      await expect(updaterOracle.connect(signers.charlie).updatePrice(ETH, 3700_00000000n))
+        .to.emit(updaterOracle, "ReportsExpired")
+        .withArgs(ETH, 1, 2)
+        .and.not.to.emit(updaterOracle, "PriceUpdated");
+      await updaterOracle.connect(signers.alice).updatePrice(ETH, 3690_00000000n);
+      await updaterOracle.connect(signers.bob).updatePrice(ETH, 3710_00000000n);
+
+      const [price] = await updaterOracle.getPrice(ETH);
+      expect(price).to.eq(3700_00000000n);
+    });
+
+    it("should let only the owner set the quorum", async function () {
+      await expect(updaterOracle.connect(signers.alice).setQuorum(2, 500)).to.be.revertedWith("Not owner");
+      await expect(updaterOracle.setQuorum(0, 500)).to.be.revertedWith("Invalid quorum");
+      await expect(updaterOracle.setQuorum(16, 500)).to.be.revertedWith("Invalid quorum");
+      await expect(updaterOracle.setQuorum(2, 10001)).to.be.revertedWith("Invalid deviation");
+
+      // Lowering the quorum records the pending round on its next report
+      await updaterOracle.connect(signers.alice).updatePrice(ETH, 3500_00000000n);
+      await updaterOracle.connect(signers.bob).updatePrice(ETH, 3600_00000000n);
+      await expect(updaterOracle.setQuorum(1, 500)).to.emit(updaterOracle, "QuorumUpdated").withArgs(1, 500);
+      await updaterOracle.connect(signers.charlie).updatePrice(ETH, 3550_00000000n);
+
+      const [price] = await updaterOracle.getPrice(ETH);
+      expect(price).to.eq(3550_00000000n);
+    });
+  });
+
+  describe("Signed Price Reports", function () {
+    const PRICE_REPORT_TYPES = {
+      PriceReport: [
+        { name: "asset", type: "bytes32" },
+        { name: "price", type: "uint256" },
+        { name: "timestamp", type: "uint256" },
+      ],
+    };
+    let updaterOracle: PriceOracle;
+    let reportSigners: HardhatEthersSigner[];
+
+    beforeEach(async function () {
+      updaterOracle = (await (
+        await ethers.getContractFactory("PriceOracle")
+      ).deploy(await assetRegistry.getAddress())) as PriceOracle;
+      // Reports need two signatures, in ascending signer order
+      reportSigners = [signers.alice, signers.bob].sort((a, b) =>
+        BigInt(a.address) < BigInt(b.address) ? -1 : 1
+      );
+      for (const signer of reportSigners) {
+        await updaterOracle.addSigner(signer.address);
+      }
+      await updaterOracle.setQuorum(2, 500);
+    });
+
+    async function reportDomain() {
+      return {
+        name: "PriceOracle",
+        version: "1",
+        chainId: (await ethers.provider.getNetwork()).chainId,
+        verifyingContract: await updaterOracle.getAddress(),
+      };
+    }
+
+    // Sign a PriceReport like scripts/signPriceReport.ts, and encode it for settlePriceMarket
+    async function signReport(price: bigint, timestamp: bigint, by = reportSigners, asset = ETH) {
+      const domain = await reportDomain();
+      const signatures = [];
+      for (const signer of by) {
+        signatures.push(await signer.signTypedData(domain, PRICE_REPORT_TYPES, { asset, price, timestamp }));
+      }
+      return ethers.AbiCoder.defaultAbiCoder().encode(["uint256", "uint256", "bytes[]"], [price, timestamp, signatures]);
+    }
+
+    async function deployReportMarket() {
+      const market = await deployTwapMarket(3600n, ETH, await updaterOracle.getAddress());
+      await commitAndDecrypt(market);
+      const eventDeadline = await market.eventDeadline();
+      await ethers.provider.send("evm_setNextBlockTimestamp", [Number(eventDeadline + 60n)]);
+      await ethers.provider.send("evm_mine", []);
+      return { market, eventDeadline };
+    }
+
+    it("should settle on a report anyone brings, without price updates", async function () {
+      const { market, eventDeadline } = await deployReportMarket();
+      const report = await signReport(5200_00000000n, eventDeadline);
+
+      // The oracle has no pushed prices, so the TWAP path can't settle
+      await expect(market.settlePriceMarket(1, "0x")).to.be.revertedWith("Price not available");
+      await market.connect(signers.charlie).settlePriceMarket(0, report);
+
+      expect(await market.settlementPrice()).to.eq(5200_00000000n);
+      expect(await market.finalOutcome()).to.eq(true);
+      expect(await updaterOracle.hashPriceReport(ETH, 5200_00000000n, eventDeadline)).to.eq(
+        ethers.TypedDataEncoder.hash(await reportDomain(), PRICE_REPORT_TYPES, {
+          asset: ETH,
+          price: 5200_00000000n,
+          timestamp: eventDeadline,
+        })
+      );
+    });
+
+    it("should reject forged reports", async function () {
+      const { market, eventDeadline: timestamp } = await deployReportMarket();
+
+      // Signed by someone who is not a signer
+      await expect(
+        market.settlePriceMarket(0, await signReport(5200_00000000n, timestamp, [reportSigners[0], signers.charlie]))
+      ).to.be.revertedWith("Invalid report signature");
+
+      // Signed for another price than the one reported
+      const signed = await signReport(4000_00000000n, timestamp);
+      const [, , signatures] = ethers.AbiCoder.defaultAbiCoder().decode(["uint256", "uint256", "bytes[]"], signed);
+      const tampered = ethers.AbiCoder.defaultAbiCoder().encode(
+        ["uint256", "uint256", "bytes[]"],
+        [5200_00000000n, timestamp, [...signatures]]
+      );
+      await expect(market.settlePriceMarket(0, tampered)).to.be.revertedWith("Invalid report signature");
+
+      // Signed for another asset
+      await expect(
+        market.settlePriceMarket(0, await signReport(5200_00000000n, timestamp, reportSigners, BTC))
+      ).to.be.revertedWith("Invalid report signature");
+
+      // One signer counted twice, or below the quorum
+      await expect(
+        market.settlePriceMarket(0, await signReport(5200_00000000n, timestamp, [reportSigners[0], reportSigners[0]]))
+      ).to.be.revertedWith("Signers out of order");
+      await expect(
+        market.settlePriceMarket(0, await signReport(5200_00000000n, timestamp, [reportSigners[0]]))
+      ).to.be.revertedWith("Not enough signatures");
+
+      // A removed signer no longer counts
+      await updaterOracle.removeSigner(reportSigners[1].address);
+      await expect(
+        market.settlePriceMarket(0, await signReport(5200_00000000n, timestamp))
+      ).to.be.revertedWith("Invalid report signature");
+    });
+
+    it("should only take a report of the price at the deadline", async function () {
+      const { market, eventDeadline } = await deployReportMarket();
+
+      await expect(
+        market.settlePriceMarket(0, await signReport(5200_00000000n, eventDeadline + 1n))
+      ).to.be.revertedWith("Invalid report timestamp");
+      await expect(
+        market.settlePriceMarket(0, await signReport(5200_00000000n, eventDeadline - 1n))
+      ).to.be.revertedWith("Invalid report timestamp");
+
+      await market.settlePriceMarket(0, await signReport(5200_00000000n, eventDeadline));
+      expect(await market.settlementPrice()).to.eq(5200_00000000n);
+    });
+
+    it("should refuse a report when the updaters recorded a price for the deadline", async function () {
+      await updaterOracle.setQuorum(1, 500);
+      const market = await deployTwapMarket(3600n, ETH, await updaterOracle.getAddress());
+      await commitAndDecrypt(market);
+      const eventDeadline = await market.eventDeadline();
+      await ethers.provider.send("evm_setNextBlockTimestamp", [Number(eventDeadline - 600n)]);
+      await updaterOracle.updatePrice(ETH, 4800_00000000n);
+      await ethers.provider.send("evm_setNextBlockTimestamp", [Number(eventDeadline + 60n)]);
+      await ethers.provider.send("evm_mine", []);
+
+      // A report can't replace the recorded price, even with a better one for the caller
+      await expect(
+        market.settlePriceMarket(0, await signReport(5200_00000000n, eventDeadline))
+      ).to.be.revertedWith("Recorded price available");
+
+      await market.settlePriceMarket(await updaterOracle.findRoundAt(ETH, eventDeadline), "0x");
+      expect(await market.settlementPrice()).to.eq(4800_00000000n);
+    });
+
+    it("should apply the circuit breaker to reports", async function () {
+      await updaterOracle.setQuorum(1, 500);
+      await updaterOracle.setCircuitBreaker(1000, 0, 0); // At most 10% per update
+      await updaterOracle.updatePrice(ETH, INITIAL_ETH_PRICE);
+      // The recorded price is too old to settle on by the deadline, so only a report can
+      await ethers.provider.send("evm_increaseTime", [Number(await updaterOracle.MAX_PRICE_AGE())]);
+      const { market, eventDeadline } = await deployReportMarket();
+      await expect(market.settlePriceMarket(1, "0x")).to.be.revertedWith("Price too old");
+
+      // A report moving further from the recorded price than an update could is refused
+      await expect(
+        market.settlePriceMarket(0, await signReport(5200_00000000n, eventDeadline))
+      ).to.be.revertedWith("Price quarantined");
+
+      await market.settlePriceMarket(0, await signReport(INITIAL_ETH_PRICE + 200_00000000n, eventDeadline));
+      expect(await market.settlementPrice()).to.eq(INITIAL_ETH_PRICE + 200_00000000n);
+    });
+
+    it("should reject expired reports", async function () {
+      const { market, eventDeadline } = await deployReportMarket();
+      const report = await signReport(5200_00000000n, eventDeadline);
+
+      const maxAge = await updaterOracle.MAX_PRICE_AGE();
+      await ethers.provider.send("evm_setNextBlockTimestamp", [Number(eventDeadline + maxAge + 1n)]);
+      await ethers.provider.send("evm_mine", []);
+      await expect(market.settlePriceMarket(0, report)).to.be.revertedWith("Report expired");
+    });
+
+    it("should only take signed reports on an oracle with signers", async function () {
+      const market = await deployTwapMarket(0n);
+      await commitAndDecrypt(market);
+      const eventDeadline = await market.eventDeadline();
+      await ethers.provider.send("evm_setNextBlockTimestamp", [Number(eventDeadline + 60n)]);
+      await ethers.provider.send("evm_mine", []);
+
+      await expect(
+        market.settlePriceMarket(0, await signReport(5200_00000000n, eventDeadline))
+      ).to.be.revertedWithCustomError(priceOracleContract, "SignedReportsNotSupported");
+    });
+  });
+
+  describe("Circuit Breaker", function () {
+    let updaterOracle: PriceOracle;
+
+    beforeEach(async function () {
+      updaterOracle = (await (
+        await ethers.getContractFactory("PriceOracle")
+      ).deploy(await assetRegistry.getAddress())) as PriceOracle;
+      await updaterOracle.updatePrice(ETH, INITIAL_ETH_PRICE); // Round 1
+    });
+
+    async function updatePriceAt(price: bigint, timestamp: bigint) {
+      await ethers.provider.send("evm_setNextBlockTimestamp", [Number(timestamp)]);
+      return updaterOracle.updatePrice(ETH, price);
+    }
+
+    async function passDeadline(market: BlindOracle) {
+      const eventDeadline = await market.eventDeadline();
+      await ethers.provider.send("evm_setNextBlockTimestamp", [Number(eventDeadline + 60n)]);
+      await ethers.provider.send("evm_mine", []);
+      return eventDeadline;
+    }
+
+    it("should quarantine a jump until the owner confirms it, and refuse to settle meanwhile", async function () {
+      await updaterOracle.setCircuitBreaker(1000, 0, 0); // At most 10% per update
+      const market = await deployTwapMarket(0n, ETH, await updaterOracle.getAddress());
+      await commitAndDecrypt(market);
+
+      const eventDeadline = await market.eventDeadline();
+      await updatePriceAt(3800_00000000n, eventDeadline - 120n);
+      await expect(updatePriceAt(5200_00000000n, eventDeadline - 60n))
+        .to.emit(updaterOracle, "PriceQuarantined")
+        .withArgs(ETH, 5200_00000000n, eventDeadline - 60n, signers.deployer.address)
+        .and.not.to.emit(updaterOracle, "PriceUpdated");
+      await expect(updaterOracle.getPrice(ETH)).to.be.revertedWith("Price quarantined");
+      expect(await updaterOracle.quarantinedSince(ETH)).to.eq(eventDeadline - 60n);
+
+      await passDeadline(market);
+      await expect(
+        market.settlePriceMarket(await updaterOracle.findRoundAt(ETH, eventDeadline), "0x")
+      ).to.be.revertedWith("Price quarantined");
+
+      await expect(updaterOracle.connect(signers.alice).confirmPrice(ETH)).to.be.revertedWith("Not owner");
+      await expect(updaterOracle.confirmPrice(ETH))
+        .to.emit(updaterOracle, "PriceConfirmed")
+        .withArgs(ETH, 5200_00000000n, eventDeadline - 60n);
+
+      // The confirmed price counts from the time it was reported
+      await market.settlePriceMarket(await updaterOracle.findRoundAt(ETH, eventDeadline), "0x");
+      expect(await market.settlementPrice()).to.eq(5200_00000000n);
+      expect(await market.finalOutcome()).to.eq(true);
+    });
+
+    it("should quarantine a drift over the window limit and drop rejected prices", async function () {
+      await expect(updaterOracle.setCircuitBreaker(0, 1000, 0)).to.be.revertedWith("Invalid window");
+      await updaterOracle.setCircuitBreaker(0, 1000, 3600); // At most 10% per hour
+      const start = BigInt((await ethers.provider.getBlock("latest"))!.timestamp);
+
+      // Each step is small, but together they move more than 10% within the hour
+      await updatePriceAt(3700_00000000n, start + 600n);
+      await updatePriceAt(3850_00000000n, start + 1200n);
+      await expect(updatePriceAt(3900_00000000n, start + 1800n)).to.emit(updaterOracle, "PriceQuarantined");
+      // Prices reported meanwhile replace the quarantined one
+      await expect(updatePriceAt(3950_00000000n, start + 2400n)).to.emit(updaterOracle, "PriceQuarantined");
+      expect((await updaterOracle.quarantinedPrices(ETH)).price).to.eq(3950_00000000n);
+
+      await expect(updaterOracle.rejectPrice(ETH))
+        .to.emit(updaterOracle, "PriceRejected")
+        .withArgs(ETH, 3950_00000000n, start + 2400n);
+      await expect(updaterOracle.rejectPrice(ETH)).to.be.revertedWith("No quarantined price");
+      const [price] = await updaterOracle.getPrice(ETH);
+      expect(price).to.eq(3850_00000000n);
+
+      // An hour after the last recorded price, the window starts from it
+      await expect(updatePriceAt(4200_00000000n, start + 4900n)).to.emit(updaterOracle, "PriceUpdated");
+      expect(await updaterOracle.priceHistoryCount(ETH)).to.eq(4);
+    });
+
+    it("should refuse Chainlink rounds that move too far until the owner confirms them", async function () {
+      await expect(
+        priceOracleContract.connect(signers.alice).setCircuitBreaker(1000, 0, 0)
+      ).to.be.revertedWithCustomError(priceOracleContract, "NotOwner");
+      await priceOracleContract.setCircuitBreaker(1000, 0, 0);
+      const market = await deployTwapMarket(0n);
+      await commitAndDecrypt(market);
+
+      // Round 2 jumps from $3,500 to $5,500
+      await setPriceAt(5500_00000000n, (await market.eventDeadline()) - 60n);
+      await expect(priceOracleContract.getPrice(ETH)).to.be.revertedWithCustomError(
+        priceOracleContract,
+        "PriceQuarantined"
+      );
+      expect(await priceOracleContract.isRoundQuarantined(ETH, 2)).to.eq(true);
+
+      const eventDeadline = await passDeadline(market);
+      const roundHint = await priceOracleContract.findRoundAt(ETH, eventDeadline);
+      await expect(market.settlePriceMarket(roundHint, "0x")).to.be.revertedWithCustomError(
+        priceOracleContract,
+        "PriceQuarantined"
+      );
+
+      await expect(priceOracleContract.confirmRound(ETH, 2))
+        .to.emit(priceOracleContract, "RoundConfirmed")
+        .withArgs(ETH, await mockEthFeed.getAddress(), 2);
+      expect(await priceOracleContract.isRoundQuarantined(ETH, 2)).to.eq(false);
+      await market.settlePriceMarket(roundHint, "0x");
+      expect(await market.settlementPrice()).to.eq(5500_00000000n);
+    });
+
+    it("should refuse a TWAP over a quarantined round that is no longer the latest", async function () {
+      await priceOracleContract.setCircuitBreaker(1000, 0, 0);
+      const market = await deployTwapMarket(3600n);
+      await commitAndDecrypt(market);
+
+      // Round 2 jumps from $3,500 to $5,500, then round 3 moves back within the limit of round 2
+      const eventDeadline = await market.eventDeadline();
+      await setPriceAt(5500_00000000n, eventDeadline - 1800n);
+      await setPriceAt(5200_00000000n, eventDeadline - 600n);
+      expect(await priceOracleContract.isRoundQuarantined(ETH, 2)).to.eq(true);
+      expect(await priceOracleContract.isRoundQuarantined(ETH, 3)).to.eq(false);
+
+      await passDeadline(market);
+      await expect(market.settlePriceMarket(3, "0x")).to.be.revertedWithCustomError(
+        priceOracleContract,
+        "PriceQuarantined"
+      );
+
+      // Half an hour at $3,500, 20 minutes at $5,500 and 10 minutes at $5,200
+      await priceOracleContract.confirmRound(ETH, 2);
+      await market.settlePriceMarket(3, "0x");
+      expect(await market.settlementPrice()).to.eq(4450_00000000n);
+    });
+
+    it("should refuse a TWAP over a Chainlink round that drifted past the window limit", async function () {
+      await priceOracleContract.setCircuitBreaker(0, 1000, 3600); // At most 10% per hour
+      const market = await deployTwapMarket(3600n);
+      await commitAndDecrypt(market);
+
+      // $3,500 creeps to $3,900 within the hour, which only round 3 takes over the limit
+      const eventDeadline = await market.eventDeadline();
+      await setPriceAt(3700_00000000n, eventDeadline - 2700n);
+      await setPriceAt(3900_00000000n, eventDeadline - 1800n);
+      await setPriceAt(3800_00000000n, eventDeadline - 900n);
+      expect(await priceOracleContract.isRoundQuarantined(ETH, 2)).to.eq(false);
+      expect(await priceOracleContract.isRoundQuarantined(ETH, 3)).to.eq(true);
+      expect(await priceOracleContract.isRoundQuarantined(ETH, 4)).to.eq(false);
+
+      await passDeadline(market);
+      await expect(market.settlePriceMarket(4, "0x")).to.be.revertedWithCustomError(
+        priceOracleContract,
+        "PriceQuarantined"
+      );
+
+      // A quarter of the hour at each price
+      await priceOracleContract.confirmRound(ETH, 3);
+      await market.settlePriceMarket(4, "0x");
+      expect(await market.settlementPrice()).to.eq(3725_00000000n);
+    });
+
+    it("should read each round once for a TWAP under the window limit", async function () {
+      await priceOracleContract.setCircuitBreaker(0, 5000, 7200); // At most 50% per two hours
+      const start = BigInt((await ethers.provider.getBlock("latest"))!.timestamp) + 60n;
+
+      // 150 rounds, 30 seconds apart: each one's window reaches back past the start of the TWAP
+      for (let i = 0n; i < 150n; i++) {
+        await setPriceAt(3500_00000000n + (i % 2n) * 10_00000000n, start + i * 30n);
+      }
+      const endTime = start + 150n * 30n;
+      await ethers.provider.send("evm_setNextBlockTimestamp", [Number(endTime)]);
+      await ethers.provider.send("evm_mine", []);
+
+      const roundHint = await priceOracleContract.findRoundAt(ETH, endTime);
+      // Reading every round's window separately took close to the block gas limit
+      const gas = await priceOracleContract.getTwap.estimateGas(ETH, endTime, 3600n, roundHint);
+      expect(gas).to.be.lessThan(2_000_000n);
+    });
+  });
+
+  describe("Fallback Oracle Chain", function () {
+    const SOL = ethers.encodeBytes32String("SOL");
+    let updaterOracle: PriceOracle;
+    let fallbackOracle: FallbackPriceOracle;
+    let updaterAddress: string;
+    let fallbackAddress: string;
+
+    beforeEach(async function () {
+      updaterOracle = (await (
+        await ethers.getContractFactory("PriceOracle")
+      ).deploy(await assetRegistry.getAddress())) as PriceOracle;
+      fallbackOracle = (await (
+        await ethers.getContractFactory("FallbackPriceOracle")
+      ).deploy(await assetRegistry.getAddress())) as FallbackPriceOracle;
+      updaterAddress = await updaterOracle.getAddress();
+      fallbackAddress = await fallbackOracle.getAddress();
+      // Chainlink first, then the updaters
+      await fallbackOracle.setSources(ETH, [oracleAddress, updaterAddress]);
+    });
+
+    async function deployFallbackMarket(asset = ETH) {
+      const market = await deployTwapMarket(0n, asset, fallbackAddress);
+      await commitAndDecrypt(market);
+      return market;
+    }
+
+    async function passTime(timestamp: bigint) {
+      await ethers.provider.send("evm_setNextBlockTimestamp", [Number(timestamp)]);
+      await ethers.provider.send("evm_mine", []);
+    }
+
+    it("should fall back to the updaters when the Chainlink feed is stale", async function () {
+      const market = await deployFallbackMarket();
+      const eventDeadline = await market.eventDeadline();
+      await ethers.provider.send("evm_setNextBlockTimestamp", [Number(eventDeadline - 60n)]);
+      await updaterOracle.updatePrice(ETH, 5200_00000000n);
+      await passTime(eventDeadline + 60n);
+
+      // Chainlink answers while its feed is fresh
+      expect(await fallbackOracle.getSettlementPrice(ETH, eventDeadline, 0, 0, "0x")).to.deep.eq([
+        INITIAL_ETH_PRICE,
+        oracleAddress,
+      ]);
+
+      // The feed's only round is now older than MAX_PRICE_AGE at the deadline
+      await mockEthFeed.setUpdatedAt(eventDeadline - 2n * 86400n);
+      await expect(market.settlePriceMarket(0, "0x"))
+        .to.emit(market, "PriceSettled")
+        .withArgs(5200_00000000n, updaterAddress);
+
+      expect(await market.settlementPrice()).to.eq(5200_00000000n);
+      expect(await market.settlementSource()).to.eq(updaterAddress);
+      expect(await market.finalOutcome()).to.eq(true);
+    });
+
+    it("should not fall back past a quarantined Chainlink round", async function () {
+      await priceOracleContract.setCircuitBreaker(1000, 0, 0);
+      const market = await deployFallbackMarket();
+      const eventDeadline = await market.eventDeadline();
+      // Round 2 jumps from $3,500 to $5,500, while the updaters have a price the market would settle on too
+      await setPriceAt(5500_00000000n, eventDeadline - 600n);
+      await ethers.provider.send("evm_setNextBlockTimestamp", [Number(eventDeadline - 60n)]);
+      await updaterOracle.updatePrice(ETH, 3600_00000000n);
+      await passTime(eventDeadline + 60n);
+
+      await expect(market.settlePriceMarket(0, "0x")).to.be.revertedWithCustomError(
+        priceOracleContract,
+        "PriceQuarantined"
+      );
+      await expect(fallbackOracle.getPrice(ETH)).to.be.revertedWithCustomError(priceOracleContract, "PriceQuarantined");
+
+      await priceOracleContract.confirmRound(ETH, 2);
+      await expect(market.settlePriceMarket(0, "0x"))
+        .to.emit(market, "PriceSettled")
+        .withArgs(5500_00000000n, oracleAddress);
+    });
+
+    it("should settle an asset without a Chainlink feed on the owner's price after the delay", async function () {
+      await assetRegistry.addAsset("SOL", ethers.ZeroAddress, 8); // No SOL / USD feed, as on Sepolia
+      await fallbackOracle.setSources(SOL, [oracleAddress]);
+      const market = await deployFallbackMarket(SOL);
+      const eventDeadline = await market.eventDeadline();
+      await passTime(eventDeadline + 60n);
+
+      await expect(market.settlePriceMarket(0, "0x")).to.be.revertedWith("No price source available");
+      await expect(fallbackOracle.setManualPrice(SOL, eventDeadline, 150_00000000n)).to.be.revertedWith(
+        "Fallback delay not passed"
+      );
+
+      await passTime(eventDeadline + (await fallbackOracle.MANUAL_FALLBACK_DELAY()));
+      await expect(
+        fallbackOracle.connect(signers.alice).setManualPrice(SOL, eventDeadline, 150_00000000n)
+      ).to.be.revertedWith("Not owner");
+      await expect(fallbackOracle.setManualPrice(SOL, eventDeadline, 150_00000000n))
+        .to.emit(fallbackOracle, "ManualPriceSet")
+        .withArgs(SOL, eventDeadline, 150_00000000n);
+
+      await market.settlePriceMarket(0, "0x");
+      expect(await market.settlementPrice()).to.eq(150_00000000n);
+      expect(await market.settlementSource()).to.eq(fallbackAddress);
+      expect(await market.finalOutcome()).to.eq(false);
+    });
+
+    it("should only chain oracles the owner sets", async function () {
+      expect(await fallbackOracle.getSources(ETH)).to.deep.eq([oracleAddress, updaterAddress]);
+      expect(await fallbackOracle.isAssetSupported(BTC)).to.eq(false);
+      await expect(fallbackOracle.getPrice(BTC)).to.be.revertedWith("Asset not supported");
+      const [price] = await fallbackOracle.getPrice(ETH);
+      expect(price).to.eq(INITIAL_ETH_PRICE);
+
+      await expect(fallbackOracle.connect(signers.alice).setSources(BTC, [oracleAddress])).to.be.revertedWith(
+        "Not owner"
+      );
+      await expect(fallbackOracle.setSources(BTC, [signers.alice.address])).to.be.revertedWith("Invalid source");
+      await expect(fallbackOracle.setSources(BTC, [fallbackAddress])).to.be.revertedWith("Invalid source");
+      await expect(
+        fallbackOracle.setSources(ethers.encodeBytes32String("DOGE"), [oracleAddress])
+      ).to.be.revertedWith("Unknown asset");
+
+      await expect(fallbackOracle.setSources(BTC, [oracleAddress])).to.emit(fallbackOracle, "SourcesUpdated");
+      expect(await fallbackOracle.isAssetSupported(BTC)).to.eq(true);
+    });
+  });
+
+  describe("Asset Registry", function () {
+    const STETH = ethers.encodeBytes32String("stETH");
+
+    // A stETH / USD feed answering with 18 decimals
+    async function deployStEthFeed(price: bigint) {
+      const feedFactory = (await ethers.getContractFactory("MockChainlinkAggregator")) as MockChainlinkAggregator__factory;
+      return (await feedFactory.deploy(price, 18)) as MockChainlinkAggregator;
+    }
+
+    it("should price a newly listed asset without redeploying the oracle", async function () {
+      const feed = await deployStEthFeed(3480n * 10n ** 18n);
+      expect(await priceOracleContract.isAssetSupported(STETH)).to.eq(false);
+
+      await expect(assetRegistry.addAsset("stETH", await feed.getAddress(), 18))
+        .to.emit(assetRegistry, "AssetAdded")
+        .withArgs(STETH, "stETH", await feed.getAddress(), 18);
+
+      expect(await priceOracleContract.isAssetSupported(STETH)).to.eq(true);
+      // Answers are rescaled to the oracle's 8 decimals
+      const [price] = await priceOracleContract.getPrice(STETH);
+      expect(price).to.eq(3480_00000000n);
+
+      const assets = await assetRegistry.getAssets();
+      expect(assets.map((asset) => asset.symbol)).to.deep.eq(["ETH", "BTC", "stETH"]);
+      expect(await assetRegistry.toAssetId("stETH")).to.eq(STETH);
+    });
+
+    it("should settle a market on a newly listed asset", async function () {
+      const feed = await deployStEthFeed(4000n * 10n ** 18n);
+      await assetRegistry.addAsset("stETH", await feed.getAddress(), 18);
+
+      const market = await deployTwapMarket(0n, STETH);
+      await commitAndDecrypt(market);
+
+      const eventDeadline = await market.eventDeadline();
+      await ethers.provider.send("evm_setNextBlockTimestamp", [Number(eventDeadline - 60n)]);
+      await feed.setPrice(5200n * 10n ** 18n);
+      await ethers.provider.send("evm_increaseTime", [120]);
+      await ethers.provider.send("evm_mine", []);
+
+      await market.settlePriceMarket(await priceOracleContract.findRoundAt(STETH, eventDeadline), "0x");
+      expect(await market.settlementPrice()).to.eq(5200_00000000n);
+      expect(await market.finalOutcome()).to.eq(true);
+    });
+
+    it("should let only the owner list assets and change their feeds", async function () {
+      await expect(
+        assetRegistry.connect(signers.alice).addAsset("LINK", ethers.ZeroAddress, 8)
+      ).to.be.revertedWith("Not owner");
+      await expect(assetRegistry.addAsset("ETH", ethers.ZeroAddress, 8)).to.be.revertedWith("Asset already listed");
+      await expect(assetRegistry.addAsset("", ethers.ZeroAddress, 8)).to.be.revertedWith("Invalid symbol");
+      await expect(assetRegistry.addAsset("A".repeat(32), ethers.ZeroAddress, 8)).to.be.revertedWith("Invalid symbol");
+      await expect(assetRegistry.getAsset(ethers.encodeBytes32String("LINK"))).to.be.revertedWith("Unknown asset");
+
+      // Moving ETH to a feed with other decimals keeps prices in 8 decimals
+      const feed = await deployStEthFeed(3600n * 10n ** 18n);
+      await expect(
+        assetRegistry.connect(signers.alice).setFeed(ETH, await feed.getAddress(), 18)
+      ).to.be.revertedWith("Not owner");
+      await assetRegistry.setFeed(ETH, await feed.getAddress(), 18);
+      const [price] = await priceOracleContract.getPrice(ETH);
+      expect(price).to.eq(3600_00000000n);
+
+      // Updaters can only price listed assets
+      const updaterOracle = await (await ethers.getContractFactory("PriceOracle")).deploy(await assetRegistry.getAddress());
+      await expect(
+        updaterOracle.updatePrice(ethers.encodeBytes32String("LINK"), 15_00000000n)
+      ).to.be.revertedWith("Unknown asset");
+    });
   });
 
   describe("Price Market vs Event Market", function () {
     it("should prevent owner from participating in event markets", async function () {
       // Deploy an event market
-      const eventMarket = await (await ethers.getContractFactory("BlindOracle")).deploy(
+      const eventMarket = await (await ethers.getContractFactory("BlindOracle", { libraries })).deploy(
+        signers.deployer.address,
         0, // MarketType.Event
         "Test event market",
         COMMITMENT_DURATION,
         EVENT_DURATION,
         ethers.ZeroAddress,
+        ethers.ZeroHash,
         0,
-        0
+        [],
+        [],
+        REFUND_GRACE_PERIOD,
+        signers.charlie.address, // Arbiter
+        NO_FEES,
+        ethers.ZeroAddress, // ETH collateral
+        ethers.ZeroAddress, // No confidential collateral
+        0 // Settle on the price at the deadline
       ) as BlindOracle;
 
       const betAmount = ethers.parseEther("1.0");
@@ -185,7 +1182,8 @@ describe("Price Market with Chainlink Oracle", function () {
         .add64(Number(betAmount))
         .encrypt();
 
-      // Owner tries to participate
+      // Owner funds the vault and tries to participate
+      await eventMarket.connect(signers.deployer).deposit({ value: betAmount });
       await expect(
         eventMarket
           .connect(signers.deployer)
@@ -193,8 +1191,7 @@ describe("Price Market with Chainlink Oracle", function () {
             encryptedInput.handles[0],
             encryptedInput.handles[1],
             encryptedInput.inputProof,
-            encryptedInput.inputProof,
-            { value: betAmount }
+            encryptedInput.inputProof
           )
       ).to.be.revertedWith("Owner cannot participate in event markets");
     });
@@ -208,14 +1205,14 @@ describe("Price Market with Chainlink Oracle", function () {
         .encrypt();
 
       // Owner participates in price market (should succeed)
+      await priceMarketContract.connect(signers.deployer).deposit({ value: betAmount });
       const tx = await priceMarketContract
         .connect(signers.deployer)
         .commitPrediction(
           encryptedInput.handles[0],
           encryptedInput.handles[1],
           encryptedInput.inputProof,
-          encryptedInput.inputProof,
-          { value: betAmount }
+          encryptedInput.inputProof
         );
 
       await tx.wait();
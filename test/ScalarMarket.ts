@@ -0,0 +1,195 @@
+import {
+  BlindOracle,
+  ChainlinkPriceOracle,
+  ChainlinkPriceOracle__factory,
+  MockChainlinkAggregator,
+  MockChainlinkAggregator__factory,
+} from "../types";
+import { MarketLibraries, deployLibraries, deployMarket, depositAndCommit } from "./helpers";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+  charlie: HardhatEthersSigner;
+};
+
+describe("Scalar (Price Range) Market", function () {
+  let signers: Signers;
+  let libraries: MarketLibraries;
+  let mockEthFeed: MockChainlinkAggregator;
+  let scalarMarketContract: BlindOracle;
+  let oracleAddress: string;
+
+  const COMMITMENT_DURATION = 3600; // 1 hour
+  const EVENT_DURATION = 7200; // 2 hours
+  const REFUND_GRACE_PERIOD = 7 * 86400; // 7 days
+  const INITIAL_ETH_PRICE = 3100_00000000n; // $3,100
+  const ETH = ethers.encodeBytes32String("ETH");
+  // Buckets: [0, 3000), [3000, 3200), [3200, 3400), [3400, infinity)
+  const BUCKET_BOUNDARIES = [3000_00000000n, 3200_00000000n, 3400_00000000n];
+
+  async function deployScalarMarket(oracle: string, bucketBoundaries: bigint[]) {
+    // Settled by the oracle on the price at the deadline, so there is no arbiter or TWAP window
+    return deployMarket(libraries, {
+      owner: signers.deployer.address,
+      marketType: 3, // MarketType.Scalar
+      description: "Where will ETH close?",
+      commitmentDuration: COMMITMENT_DURATION,
+      eventDuration: EVENT_DURATION,
+      oracle,
+      asset: ETH,
+      bucketBoundaries,
+      refundGracePeriod: REFUND_GRACE_PERIOD,
+    });
+  }
+
+  async function deployFixture() {
+    const mockAggregatorFactory = (await ethers.getContractFactory(
+      "MockChainlinkAggregator",
+    )) as MockChainlinkAggregator__factory;
+    const ethFeed = (await mockAggregatorFactory.deploy(
+      INITIAL_ETH_PRICE,
+      8, // decimals
+    )) as MockChainlinkAggregator;
+
+    const registry = await (await ethers.getContractFactory("AssetRegistry")).deploy();
+    await registry.addAsset("ETH", await ethFeed.getAddress(), 8);
+
+    const oracleFactory = (await ethers.getContractFactory("ChainlinkPriceOracle")) as ChainlinkPriceOracle__factory;
+    const oracle = (await oracleFactory.deploy(await registry.getAddress())) as ChainlinkPriceOracle;
+    const oracleAddr = await oracle.getAddress();
+
+    const market = await deployScalarMarket(oracleAddr, BUCKET_BOUNDARIES);
+
+    return { ethFeed, oracleAddr, market };
+  }
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = {
+      deployer: ethSigners[0],
+      alice: ethSigners[1],
+      bob: ethSigners[2],
+      charlie: ethSigners[3],
+    };
+
+    libraries = await deployLibraries();
+  });
+
+  beforeEach(async () => {
+    ({ ethFeed: mockEthFeed, oracleAddr: oracleAddress, market: scalarMarketContract } = await deployFixture());
+  });
+
+  describe("Deployment", function () {
+    it("should expose one bucket more than there are boundaries", async function () {
+      expect(await scalarMarketContract.marketType()).to.eq(3); // MarketType.Scalar
+      expect(await scalarMarketContract.getBucketBoundaries()).to.deep.eq(BUCKET_BOUNDARIES);
+      expect(await scalarMarketContract.getOutcomeCount()).to.eq(BUCKET_BOUNDARIES.length + 1);
+      expect(await scalarMarketContract.getOutcomeLabels()).to.deep.eq([]);
+    });
+
+    it("should reject invalid bucket boundaries", async function () {
+      await expect(deployScalarMarket(oracleAddress, [])).to.be.revertedWith("Invalid bucket count");
+      await expect(deployScalarMarket(oracleAddress, [3200_00000000n, 3000_00000000n])).to.be.revertedWith(
+        "Bucket boundaries must be ascending",
+      );
+      await expect(deployScalarMarket(ethers.ZeroAddress, BUCKET_BOUNDARIES)).to.be.revertedWith(
+        "Invalid oracle address",
+      );
+    });
+  });
+
+  describe("Bucket Settlement", function () {
+    beforeEach(async function () {
+      // Owner may bet: scalar markets are settled by the oracle, not the owner
+      await depositAndCommit(
+        scalarMarketContract,
+        signers.deployer,
+        ethers.parseEther("1.0"),
+        0,
+        ethers.parseEther("1.0"),
+      );
+      await depositAndCommit(
+        scalarMarketContract,
+        signers.alice,
+        ethers.parseEther("1.0"),
+        1,
+        ethers.parseEther("1.0"),
+      );
+      await depositAndCommit(scalarMarketContract, signers.bob, ethers.parseEther("3.0"), 2, ethers.parseEther("3.0"));
+      await depositAndCommit(
+        scalarMarketContract,
+        signers.charlie,
+        ethers.parseEther("1.0"),
+        2,
+        ethers.parseEther("1.0"),
+      );
+
+      await ethers.provider.send("evm_increaseTime", [COMMITMENT_DURATION + 1]);
+      await ethers.provider.send("evm_mine", []);
+      await scalarMarketContract.aggregateBets();
+      await scalarMarketContract.requestAggregateDecryption();
+      await fhevm.awaitDecryptionOracle();
+    });
+
+    // The feed reports `price` before the event deadline, then the market is settled after it
+    async function settleAtPrice(price: bigint) {
+      await mockEthFeed.setPrice(price);
+      await ethers.provider.send("evm_increaseTime", [EVENT_DURATION]);
+      await ethers.provider.send("evm_mine", []);
+      const [roundId] = await mockEthFeed.latestRoundData(); // The round in effect at the deadline
+      await scalarMarketContract.settlePriceMarket(roundId, "0x");
+    }
+
+    it("should decrypt one total per bucket", async function () {
+      expect(await scalarMarketContract.getOutcomeTotals()).to.deep.eq([
+        ethers.parseEther("1.0"),
+        ethers.parseEther("1.0"),
+        ethers.parseEther("4.0"),
+        0n,
+      ]);
+    });
+
+    it("should pick the bucket containing the oracle price", async function () {
+      await settleAtPrice(3250_00000000n);
+
+      expect(await scalarMarketContract.isSettled()).to.eq(true);
+      expect(await scalarMarketContract.settlementPrice()).to.eq(3250_00000000n);
+      expect(await scalarMarketContract.winningOutcome()).to.eq(2);
+    });
+
+    it("should treat a boundary price as the start of the upper bucket", async function () {
+      await settleAtPrice(3200_00000000n);
+      expect(await scalarMarketContract.winningOutcome()).to.eq(2);
+    });
+
+    it("should cancel the market when nobody bet on the winning bucket", async function () {
+      await settleAtPrice(3400_00000000n);
+
+      expect(await scalarMarketContract.settlementPrice()).to.eq(3400_00000000n);
+      expect(await scalarMarketContract.isSettled()).to.eq(false);
+      expect(await scalarMarketContract.currentPhase()).to.eq(4); // Phase.Cancelled
+    });
+
+    it("should use the open-ended lowest bucket for prices below the first boundary", async function () {
+      await settleAtPrice(2500_00000000n);
+      expect(await scalarMarketContract.winningOutcome()).to.eq(0);
+    });
+
+    it("should pay winning bucket bettors pro rata", async function () {
+      await settleAtPrice(3250_00000000n);
+
+      // Bob holds 3 of the 4 ETH in the winning bucket, so they receive 3/4 of the 6 ETH pool
+      await scalarMarketContract.connect(signers.bob).claimRewards();
+      const balanceBefore = await ethers.provider.getBalance(signers.bob.address);
+      await fhevm.awaitDecryptionOracle();
+      const balanceAfter = await ethers.provider.getBalance(signers.bob.address);
+
+      expect(balanceAfter - balanceBefore).to.eq(ethers.parseEther("4.5"));
+    });
+  });
+});
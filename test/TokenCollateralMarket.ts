@@ -0,0 +1,190 @@
+import { BlindOracle, MockERC20Permit, MockERC20Permit__factory } from "../types";
+import { MarketLibraries, commitPrediction, deployLibraries, deployMarket } from "./helpers";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+  charlie: HardhatEthersSigner;
+  arbiter: HardhatEthersSigner;
+};
+
+describe("ERC-20 Collateral Market", function () {
+  let signers: Signers;
+  let libraries: MarketLibraries;
+  let token: MockERC20Permit;
+  let marketContract: BlindOracle;
+  let marketAddress: string;
+
+  const COMMITMENT_DURATION = 3600; // 1 hour
+  const EVENT_DURATION = 7200; // 2 hours
+  const CHALLENGE_PERIOD = 24 * 3600; // 24 hours
+  const REFUND_GRACE_PERIOD = 7 * 86400; // 7 days
+  const usdc = (amount: string) => ethers.parseUnits(amount, 6);
+
+  async function deployFixture() {
+    const tokenFactory = (await ethers.getContractFactory("MockERC20Permit")) as MockERC20Permit__factory;
+    const collateral = (await tokenFactory.deploy("Mock USD Coin", "mUSDC", 6)) as MockERC20Permit;
+    const collateralAddr = await collateral.getAddress();
+
+    const market = await deployMarket(libraries, {
+      owner: signers.deployer.address,
+      description: "Will the stablecoin keep its peg?",
+      commitmentDuration: COMMITMENT_DURATION,
+      eventDuration: EVENT_DURATION,
+      refundGracePeriod: REFUND_GRACE_PERIOD,
+      arbiter: signers.arbiter.address,
+      collateral: collateralAddr,
+    });
+    const marketAddr = await market.getAddress();
+
+    for (const signer of [signers.deployer, signers.alice, signers.bob, signers.charlie]) {
+      await collateral.mint(signer.address, usdc("1000"));
+    }
+
+    return { collateral, market, marketAddr };
+  }
+
+  async function commitBet(signer: HardhatEthersSigner, outcome: number, amount: bigint) {
+    await token.connect(signer).approve(marketAddress, amount);
+    await marketContract.connect(signer).depositTokens(amount);
+    await commitPrediction(marketContract, signer, outcome, amount);
+  }
+
+  async function aggregateAndDecrypt() {
+    await ethers.provider.send("evm_increaseTime", [COMMITMENT_DURATION + 1]);
+    await ethers.provider.send("evm_mine", []);
+
+    await marketContract.aggregateBets();
+    await marketContract.requestAggregateDecryption();
+    await fhevm.awaitDecryptionOracle();
+  }
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = {
+      deployer: ethSigners[0],
+      alice: ethSigners[1],
+      bob: ethSigners[2],
+      charlie: ethSigners[3],
+      arbiter: ethSigners[4],
+    };
+
+    libraries = await deployLibraries();
+  });
+
+  beforeEach(async () => {
+    ({ collateral: token, market: marketContract, marketAddr: marketAddress } = await deployFixture());
+  });
+
+  describe("Deposits", function () {
+    it("should store the collateral token", async function () {
+      expect(await marketContract.collateralToken()).to.eq(await token.getAddress());
+    });
+
+    it("should reject ETH deposits", async function () {
+      await expect(marketContract.connect(signers.alice).deposit({ value: 1n })).to.be.revertedWith(
+        "Market uses token collateral",
+      );
+    });
+
+    it("should pull approved tokens into the vault", async function () {
+      await token.connect(signers.alice).approve(marketAddress, usdc("25"));
+      await expect(marketContract.connect(signers.alice).depositTokens(usdc("25")))
+        .to.emit(marketContract, "Deposited")
+        .withArgs(signers.alice.address, usdc("25"));
+
+      expect(await token.balanceOf(marketAddress)).to.eq(usdc("25"));
+      expect(await marketContract.getBalance()).to.eq(usdc("25"));
+      expect(await marketContract.depositedAmounts(signers.alice.address)).to.eq(usdc("25"));
+
+      await expect(marketContract.connect(signers.alice).depositTokens(usdc("1"))).to.be.reverted;
+    });
+
+    it("should deposit with an EIP-2612 permit instead of an approval", async function () {
+      const amount = usdc("40");
+      const deadline = BigInt((await ethers.provider.getBlock("latest"))!.timestamp + 3600);
+      const signature = await signers.bob.signTypedData(
+        {
+          name: "Mock USD Coin",
+          version: "1",
+          chainId: (await ethers.provider.getNetwork()).chainId,
+          verifyingContract: await token.getAddress(),
+        },
+        {
+          Permit: [
+            { name: "owner", type: "address" },
+            { name: "spender", type: "address" },
+            { name: "value", type: "uint256" },
+            { name: "nonce", type: "uint256" },
+            { name: "deadline", type: "uint256" },
+          ],
+        },
+        {
+          owner: signers.bob.address,
+          spender: marketAddress,
+          value: amount,
+          nonce: await token.nonces(signers.bob.address),
+          deadline,
+        },
+      );
+      const { v, r, s } = ethers.Signature.from(signature);
+
+      await marketContract.connect(signers.bob).depositTokensWithPermit(amount, deadline, v, r, s);
+      expect(await token.balanceOf(marketAddress)).to.eq(amount);
+      expect(await marketContract.depositedAmounts(signers.bob.address)).to.eq(amount);
+    });
+  });
+
+  describe("Settlement and Refunds", function () {
+    beforeEach(async function () {
+      await commitBet(signers.alice, 1, usdc("100"));
+      await commitBet(signers.bob, 1, usdc("50"));
+      await commitBet(signers.charlie, 0, usdc("75"));
+      await aggregateAndDecrypt();
+    });
+
+    it("should pay stakes and rewards in the collateral token", async function () {
+      const pool = usdc("225");
+      const stake = pool / 10n;
+      await token.connect(signers.deployer).approve(marketAddress, stake);
+      await marketContract.depositOwnerStake();
+      expect(await marketContract.ownerStake()).to.eq(stake);
+
+      await ethers.provider.send("evm_increaseTime", [EVENT_DURATION]);
+      await ethers.provider.send("evm_mine", []);
+      await marketContract.proposeSettlement(true);
+      await ethers.provider.send("evm_increaseTime", [CHALLENGE_PERIOD]);
+      await ethers.provider.send("evm_mine", []);
+      await expect(marketContract.finalizeSettlement()).to.changeTokenBalance(token, signers.deployer, stake);
+
+      const aliceBefore = await token.balanceOf(signers.alice.address);
+      const bobBefore = await token.balanceOf(signers.bob.address);
+      for (const signer of [signers.alice, signers.bob, signers.charlie]) {
+        await marketContract.connect(signer).claimRewards();
+      }
+      await fhevm.awaitDecryptionOracle();
+
+      // Alice holds 2/3 and Bob 1/3 of the YES side; the payouts add up to the whole pool
+      expect((await token.balanceOf(signers.alice.address)) - aliceBefore).to.eq(usdc("150"));
+      expect((await token.balanceOf(signers.bob.address)) - bobBefore).to.eq(usdc("75"));
+      expect((await marketContract.getClaimInfo(signers.charlie.address))[0]).to.eq(3); // ClaimState.Lost
+      expect(await token.balanceOf(marketAddress)).to.eq(0n);
+    });
+
+    it("should refund deposits in the collateral token when cancelled", async function () {
+      await ethers.provider.send("evm_increaseTime", [EVENT_DURATION + REFUND_GRACE_PERIOD]);
+      await ethers.provider.send("evm_mine", []);
+      await marketContract.cancelMarket();
+
+      await expect(marketContract.connect(signers.charlie).claimRefund()).to.changeTokenBalance(
+        token,
+        signers.charlie,
+        usdc("75"),
+      );
+    });
+  });
+});
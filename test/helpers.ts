@@ -0,0 +1,100 @@
+import { BlindOracle, BlindOracle__factory } from "../types";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { ethers, fhevm } from "hardhat";
+
+export type MarketLibraries = { ConfidentialPayout: string; CommitIntent: string };
+
+export const NO_FEES = {
+  protocolFeeRecipient: ethers.ZeroAddress,
+  protocolFeeBps: 0,
+  creatorFeeBps: 0,
+  exitPenaltyBps: 0,
+};
+
+export type MarketParams = {
+  owner: string;
+  marketType?: number;
+  description: string;
+  commitmentDuration: number;
+  eventDuration: number;
+  oracle?: string;
+  asset?: string;
+  targetPrice?: bigint;
+  outcomeLabels?: string[];
+  bucketBoundaries?: bigint[];
+  refundGracePeriod: number;
+  arbiter?: string;
+  fees?: BlindOracle.FeeConfigStruct;
+  collateral?: string;
+  confidentialCollateral?: string;
+  twapWindow?: bigint;
+};
+
+// BlindOracle links its encrypted payout math and signed-intent checks from libraries
+export async function deployLibraries(): Promise<MarketLibraries> {
+  const payoutLibrary = await (await ethers.getContractFactory("ConfidentialPayout")).deploy();
+  const intentLibrary = await (await ethers.getContractFactory("CommitIntent")).deploy();
+
+  return {
+    ConfidentialPayout: await payoutLibrary.getAddress(),
+    CommitIntent: await intentLibrary.getAddress(),
+  };
+}
+
+// Deploys a market that defaults to a binary event market on ETH collateral, with no oracle, fees or TWAP window
+export async function deployMarket(libraries: MarketLibraries, params: MarketParams): Promise<BlindOracle> {
+  const factory = (await ethers.getContractFactory("BlindOracle", { libraries })) as BlindOracle__factory;
+  return (await factory.deploy(
+    params.owner,
+    params.marketType ?? 0, // MarketType.Event
+    params.description,
+    params.commitmentDuration,
+    params.eventDuration,
+    params.oracle ?? ethers.ZeroAddress,
+    params.asset ?? ethers.ZeroHash,
+    params.targetPrice ?? 0,
+    params.outcomeLabels ?? [],
+    params.bucketBoundaries ?? [],
+    params.refundGracePeriod,
+    params.arbiter ?? ethers.ZeroAddress,
+    params.fees ?? NO_FEES,
+    params.collateral ?? ethers.ZeroAddress,
+    params.confidentialCollateral ?? ethers.ZeroAddress,
+    params.twapWindow ?? 0,
+  )) as BlindOracle;
+}
+
+// Encrypts a prediction and bet amount for the signer and commits them, paid from their vault balance
+export async function commitPrediction(
+  market: BlindOracle,
+  signer: HardhatEthersSigner,
+  prediction: number,
+  amount: bigint,
+) {
+  const encryptedInput = await fhevm
+    .createEncryptedInput(await market.getAddress(), signer.address)
+    .add8(prediction)
+    .add64(amount)
+    .encrypt();
+
+  await market
+    .connect(signer)
+    .commitPrediction(
+      encryptedInput.handles[0],
+      encryptedInput.handles[1],
+      encryptedInput.inputProof,
+      encryptedInput.inputProof,
+    );
+}
+
+// Deposits ETH into the vault, then commits a bet out of it
+export async function depositAndCommit(
+  market: BlindOracle,
+  signer: HardhatEthersSigner,
+  deposit: bigint,
+  prediction: number,
+  amount: bigint,
+) {
+  await market.connect(signer).deposit({ value: deposit });
+  await commitPrediction(market, signer, prediction, amount);
+}
@@ -0,0 +1,355 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../common";
+
+export declare namespace AssetRegistry {
+  export type AssetInfoStruct = {
+    id: BytesLike;
+    symbol: string;
+    feed: AddressLike;
+    decimals: BigNumberish;
+  };
+
+  export type AssetInfoStructOutput = [
+    id: string,
+    symbol: string,
+    feed: string,
+    decimals: bigint
+  ] & { id: string; symbol: string; feed: string; decimals: bigint };
+}
+
+export interface AssetRegistryInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "addAsset"
+      | "getAsset"
+      | "getAssetCount"
+      | "getAssets"
+      | "getFeed"
+      | "isListed"
+      | "owner"
+      | "setFeed"
+      | "toAssetId"
+      | "transferOwnership"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "AssetAdded"
+      | "AssetFeedUpdated"
+      | "OwnershipTransferred"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "addAsset",
+    values: [string, AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(functionFragment: "getAsset", values: [BytesLike]): string;
+  encodeFunctionData(
+    functionFragment: "getAssetCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "getAssets", values?: undefined): string;
+  encodeFunctionData(functionFragment: "getFeed", values: [BytesLike]): string;
+  encodeFunctionData(functionFragment: "isListed", values: [BytesLike]): string;
+  encodeFunctionData(functionFragment: "owner", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "setFeed",
+    values: [BytesLike, AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(functionFragment: "toAssetId", values: [string]): string;
+  encodeFunctionData(
+    functionFragment: "transferOwnership",
+    values: [AddressLike]
+  ): string;
+
+  decodeFunctionResult(functionFragment: "addAsset", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "getAsset", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getAssetCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "getAssets", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "getFeed", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "isListed", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "owner", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "setFeed", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "toAssetId", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "transferOwnership",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace AssetAddedEvent {
+  export type InputTuple = [
+    assetId: BytesLike,
+    symbol: string,
+    feed: AddressLike,
+    decimals: BigNumberish
+  ];
+  export type OutputTuple = [
+    assetId: string,
+    symbol: string,
+    feed: string,
+    decimals: bigint
+  ];
+  export interface OutputObject {
+    assetId: string;
+    symbol: string;
+    feed: string;
+    decimals: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace AssetFeedUpdatedEvent {
+  export type InputTuple = [
+    assetId: BytesLike,
+    feed: AddressLike,
+    decimals: BigNumberish
+  ];
+  export type OutputTuple = [assetId: string, feed: string, decimals: bigint];
+  export interface OutputObject {
+    assetId: string;
+    feed: string;
+    decimals: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OwnershipTransferredEvent {
+  export type InputTuple = [previousOwner: AddressLike, newOwner: AddressLike];
+  export type OutputTuple = [previousOwner: string, newOwner: string];
+  export interface OutputObject {
+    previousOwner: string;
+    newOwner: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface AssetRegistry extends BaseContract {
+  connect(runner?: ContractRunner | null): AssetRegistry;
+  waitForDeployment(): Promise<this>;
+
+  interface: AssetRegistryInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  addAsset: TypedContractMethod<
+    [symbol: string, feed: AddressLike, feedDecimals: BigNumberish],
+    [string],
+    "nonpayable"
+  >;
+
+  getAsset: TypedContractMethod<
+    [assetId: BytesLike],
+    [AssetRegistry.AssetInfoStructOutput],
+    "view"
+  >;
+
+  getAssetCount: TypedContractMethod<[], [bigint], "view">;
+
+  getAssets: TypedContractMethod<
+    [],
+    [AssetRegistry.AssetInfoStructOutput[]],
+    "view"
+  >;
+
+  getFeed: TypedContractMethod<
+    [assetId: BytesLike],
+    [[string, bigint] & { feed: string; feedDecimals: bigint }],
+    "view"
+  >;
+
+  isListed: TypedContractMethod<[assetId: BytesLike], [boolean], "view">;
+
+  owner: TypedContractMethod<[], [string], "view">;
+
+  setFeed: TypedContractMethod<
+    [assetId: BytesLike, feed: AddressLike, feedDecimals: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  toAssetId: TypedContractMethod<[symbol: string], [string], "view">;
+
+  transferOwnership: TypedContractMethod<
+    [newOwner: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "addAsset"
+  ): TypedContractMethod<
+    [symbol: string, feed: AddressLike, feedDecimals: BigNumberish],
+    [string],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "getAsset"
+  ): TypedContractMethod<
+    [assetId: BytesLike],
+    [AssetRegistry.AssetInfoStructOutput],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getAssetCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getAssets"
+  ): TypedContractMethod<[], [AssetRegistry.AssetInfoStructOutput[]], "view">;
+  getFunction(
+    nameOrSignature: "getFeed"
+  ): TypedContractMethod<
+    [assetId: BytesLike],
+    [[string, bigint] & { feed: string; feedDecimals: bigint }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "isListed"
+  ): TypedContractMethod<[assetId: BytesLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "owner"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "setFeed"
+  ): TypedContractMethod<
+    [assetId: BytesLike, feed: AddressLike, feedDecimals: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "toAssetId"
+  ): TypedContractMethod<[symbol: string], [string], "view">;
+  getFunction(
+    nameOrSignature: "transferOwnership"
+  ): TypedContractMethod<[newOwner: AddressLike], [void], "nonpayable">;
+
+  getEvent(
+    key: "AssetAdded"
+  ): TypedContractEvent<
+    AssetAddedEvent.InputTuple,
+    AssetAddedEvent.OutputTuple,
+    AssetAddedEvent.OutputObject
+  >;
+  getEvent(
+    key: "AssetFeedUpdated"
+  ): TypedContractEvent<
+    AssetFeedUpdatedEvent.InputTuple,
+    AssetFeedUpdatedEvent.OutputTuple,
+    AssetFeedUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "OwnershipTransferred"
+  ): TypedContractEvent<
+    OwnershipTransferredEvent.InputTuple,
+    OwnershipTransferredEvent.OutputTuple,
+    OwnershipTransferredEvent.OutputObject
+  >;
+
+  filters: {
+    "AssetAdded(bytes32,string,address,uint8)": TypedContractEvent<
+      AssetAddedEvent.InputTuple,
+      AssetAddedEvent.OutputTuple,
+      AssetAddedEvent.OutputObject
+    >;
+    AssetAdded: TypedContractEvent<
+      AssetAddedEvent.InputTuple,
+      AssetAddedEvent.OutputTuple,
+      AssetAddedEvent.OutputObject
+    >;
+
+    "AssetFeedUpdated(bytes32,address,uint8)": TypedContractEvent<
+      AssetFeedUpdatedEvent.InputTuple,
+      AssetFeedUpdatedEvent.OutputTuple,
+      AssetFeedUpdatedEvent.OutputObject
+    >;
+    AssetFeedUpdated: TypedContractEvent<
+      AssetFeedUpdatedEvent.InputTuple,
+      AssetFeedUpdatedEvent.OutputTuple,
+      AssetFeedUpdatedEvent.OutputObject
+    >;
+
+    "OwnershipTransferred(address,address)": TypedContractEvent<
+      OwnershipTransferredEvent.InputTuple,
+      OwnershipTransferredEvent.OutputTuple,
+      OwnershipTransferredEvent.OutputObject
+    >;
+    OwnershipTransferred: TypedContractEvent<
+      OwnershipTransferredEvent.InputTuple,
+      OwnershipTransferredEvent.OutputTuple,
+      OwnershipTransferredEvent.OutputObject
+    >;
+  };
+}
@@ -23,33 +23,93 @@ import type {
   TypedContractMethod,
 } from "../common";
 
+export declare namespace BlindOracle {
+  export type FeeConfigStruct = {
+    protocolFeeRecipient: AddressLike;
+    protocolFeeBps: BigNumberish;
+    creatorFeeBps: BigNumberish;
+    exitPenaltyBps: BigNumberish;
+  };
+
+  export type FeeConfigStructOutput = [
+    protocolFeeRecipient: string,
+    protocolFeeBps: bigint,
+    creatorFeeBps: bigint,
+    exitPenaltyBps: bigint
+  ] & {
+    protocolFeeRecipient: string;
+    protocolFeeBps: bigint;
+    creatorFeeBps: bigint;
+    exitPenaltyBps: bigint;
+  };
+}
+
 export interface BlindOracleInterface extends Interface {
   getFunction(
     nameOrSignature:
       | "CHALLENGE_PERIOD"
+      | "MAX_OUTCOMES"
+      | "MAX_TOTAL_FEE_BPS"
       | "aggregateBets"
+      | "arbiter"
       | "callbackAggregateDecryption"
       | "callbackClaimRewards"
+      | "callbackWithdrawal"
+      | "cancelMarket"
+      | "challengeBonds"
       | "challengeSettlement"
+      | "challengerSlashReward"
+      | "claimDisputePayout"
+      | "claimRefund"
+      | "claimRequestIds"
+      | "claimRequestUsers"
       | "claimRewards"
+      | "claimedWinningStake"
+      | "collateralToken"
       | "commitPrediction"
+      | "commitPredictionFor"
       | "commitmentDeadline"
+      | "confidentialToken"
       | "currentPhase"
+      | "decryptionRequestedAt"
+      | "deposit"
+      | "depositConfidential"
       | "depositOwnerStake"
+      | "depositTokens"
+      | "depositTokensWithPermit"
+      | "depositedAmounts"
+      | "disputeStatus"
       | "eventDeadline"
       | "eventDescription"
+      | "exitPenalties"
+      | "feeBalances"
+      | "feeConfig"
       | "finalOutcome"
       | "finalizeSettlement"
       | "getBalance"
+      | "getBucketBoundaries"
+      | "getCancellableAt"
+      | "getChallengeBond"
+      | "getClaimInfo"
+      | "getEncryptedBalance"
+      | "getEncryptedPayout"
       | "getMarketInfo"
+      | "getMyBalance"
       | "getMyCommitment"
-      | "getParticipant"
+      | "getOutcomeCount"
+      | "getOutcomeLabels"
+      | "getOutcomeTotals"
       | "getParticipantCount"
       | "getPriceMarketInfo"
       | "getSettlementInfo"
       | "getUserCommitment"
       | "hasClaimed"
+      | "hasDeposited"
+      | "hasPendingWithdrawal"
+      | "hasRefunded"
       | "hasUserCommitted"
+      | "increaseCommitment"
+      | "intentNonces"
       | "isAggregated"
       | "isSettled"
       | "isSettlementProposed"
@@ -57,46 +117,92 @@ export interface BlindOracleInterface extends Interface {
       | "owner"
       | "ownerStake"
       | "participants"
+      | "pendingCommitmentWithdrawals"
       | "priceOracle"
+      | "proposeCategoricalSettlement"
       | "proposeSettlement"
-      | "proposedOutcome"
+      | "proposedOutcomeIndex"
       | "protocolId"
+      | "refundGracePeriod"
       | "requestAggregateDecryption"
+      | "requestWithdrawal"
+      | "resolveDispute"
+      | "revisePrediction"
       | "settlePriceMarket"
-      | "settlementProposedTime"
-      | "targetAsset"
+      | "settlementPrice"
+      | "settlementSource"
+      | "slashedStakeToWinners"
       | "targetPrice"
+      | "totalChallengeBonds"
       | "totalNoAmount"
+      | "totalPaidOut"
+      | "totalPoolAmount"
       | "totalYesAmount"
+      | "twapWindow"
+      | "winnerPool"
+      | "winningOutcome"
+      | "winningStake"
+      | "withdrawCommitment"
+      | "withdrawFees"
   ): FunctionFragment;
 
   getEvent(
     nameOrSignatureOrTopic:
       | "AggregationStarted"
+      | "ChallengeBondsForfeited"
       | "ClaimRequested"
+      | "ClaimResolved"
+      | "CommitmentIncreased"
+      | "CommitmentRelayed"
+      | "CommitmentWithdrawn"
+      | "ConfidentialDeposited"
+      | "ConfidentialPaidOut"
       | "DecryptionFulfilled"
       | "DecryptionRequested"
+      | "Deposited"
+      | "DisputePayoutClaimed"
+      | "DisputeResolved"
+      | "FeesAccrued"
+      | "FeesWithdrawn"
+      | "MarketCancelled"
       | "MarketCreated"
       | "MarketSettled"
+      | "OutcomeProposed"
+      | "OutcomeSettled"
+      | "OutcomeTotalsDiscovered"
       | "OwnerStakeDeposited"
       | "OwnerStakeReturned"
       | "OwnerStakeSlashed"
       | "PhaseTransitioned"
       | "PredictionCommitted"
+      | "PredictionRevised"
       | "PriceDiscovered"
+      | "PriceSettled"
+      | "Refunded"
       | "RewardsClaimed"
       | "SettlementChallenged"
       | "SettlementProposed"
+      | "WithdrawalRequested"
+      | "Withdrawn"
   ): EventFragment;
 
   encodeFunctionData(
     functionFragment: "CHALLENGE_PERIOD",
     values?: undefined
   ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_OUTCOMES",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_TOTAL_FEE_BPS",
+    values?: undefined
+  ): string;
   encodeFunctionData(
     functionFragment: "aggregateBets",
     values?: undefined
   ): string;
+  encodeFunctionData(functionFragment: "arbiter", values?: undefined): string;
   encodeFunctionData(
     functionFragment: "callbackAggregateDecryption",
     values: [BigNumberish, BytesLike, BytesLike]
@@ -105,30 +211,111 @@ export interface BlindOracleInterface extends Interface {
     functionFragment: "callbackClaimRewards",
     values: [BigNumberish, BytesLike, BytesLike]
   ): string;
+  encodeFunctionData(
+    functionFragment: "callbackWithdrawal",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "cancelMarket",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "challengeBonds",
+    values: [AddressLike]
+  ): string;
   encodeFunctionData(
     functionFragment: "challengeSettlement",
     values?: undefined
   ): string;
+  encodeFunctionData(
+    functionFragment: "challengerSlashReward",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "claimDisputePayout",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "claimRefund",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "claimRequestIds",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "claimRequestUsers",
+    values: [BigNumberish]
+  ): string;
   encodeFunctionData(
     functionFragment: "claimRewards",
     values?: undefined
   ): string;
+  encodeFunctionData(
+    functionFragment: "claimedWinningStake",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "collateralToken",
+    values?: undefined
+  ): string;
   encodeFunctionData(
     functionFragment: "commitPrediction",
     values: [BytesLike, BytesLike, BytesLike, BytesLike]
   ): string;
+  encodeFunctionData(
+    functionFragment: "commitPredictionFor",
+    values: [
+      AddressLike,
+      BytesLike,
+      BytesLike,
+      BytesLike,
+      BigNumberish,
+      BigNumberish,
+      BytesLike
+    ]
+  ): string;
   encodeFunctionData(
     functionFragment: "commitmentDeadline",
     values?: undefined
   ): string;
+  encodeFunctionData(
+    functionFragment: "confidentialToken",
+    values?: undefined
+  ): string;
   encodeFunctionData(
     functionFragment: "currentPhase",
     values?: undefined
   ): string;
+  encodeFunctionData(
+    functionFragment: "decryptionRequestedAt",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "deposit", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "depositConfidential",
+    values: [BytesLike, BytesLike]
+  ): string;
   encodeFunctionData(
     functionFragment: "depositOwnerStake",
     values?: undefined
   ): string;
+  encodeFunctionData(
+    functionFragment: "depositTokens",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "depositTokensWithPermit",
+    values: [BigNumberish, BigNumberish, BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "depositedAmounts",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "disputeStatus",
+    values?: undefined
+  ): string;
   encodeFunctionData(
     functionFragment: "eventDeadline",
     values?: undefined
@@ -137,6 +324,15 @@ export interface BlindOracleInterface extends Interface {
     functionFragment: "eventDescription",
     values?: undefined
   ): string;
+  encodeFunctionData(
+    functionFragment: "exitPenalties",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "feeBalances",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(functionFragment: "feeConfig", values?: undefined): string;
   encodeFunctionData(
     functionFragment: "finalOutcome",
     values?: undefined
@@ -149,17 +345,53 @@ export interface BlindOracleInterface extends Interface {
     functionFragment: "getBalance",
     values?: undefined
   ): string;
+  encodeFunctionData(
+    functionFragment: "getBucketBoundaries",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getCancellableAt",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getChallengeBond",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getClaimInfo",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getEncryptedBalance",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getEncryptedPayout",
+    values: [AddressLike]
+  ): string;
   encodeFunctionData(
     functionFragment: "getMarketInfo",
     values?: undefined
   ): string;
+  encodeFunctionData(
+    functionFragment: "getMyBalance",
+    values?: undefined
+  ): string;
   encodeFunctionData(
     functionFragment: "getMyCommitment",
     values?: undefined
   ): string;
   encodeFunctionData(
-    functionFragment: "getParticipant",
-    values: [BigNumberish]
+    functionFragment: "getOutcomeCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getOutcomeLabels",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getOutcomeTotals",
+    values?: undefined
   ): string;
   encodeFunctionData(
     functionFragment: "getParticipantCount",
@@ -181,10 +413,30 @@ export interface BlindOracleInterface extends Interface {
     functionFragment: "hasClaimed",
     values: [AddressLike]
   ): string;
+  encodeFunctionData(
+    functionFragment: "hasDeposited",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "hasPendingWithdrawal",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "hasRefunded",
+    values: [AddressLike]
+  ): string;
   encodeFunctionData(
     functionFragment: "hasUserCommitted",
     values: [AddressLike]
   ): string;
+  encodeFunctionData(
+    functionFragment: "increaseCommitment",
+    values: [BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "intentNonces",
+    values: [AddressLike]
+  ): string;
   encodeFunctionData(
     functionFragment: "isAggregated",
     values?: undefined
@@ -207,59 +459,132 @@ export interface BlindOracleInterface extends Interface {
     functionFragment: "participants",
     values: [BigNumberish]
   ): string;
+  encodeFunctionData(
+    functionFragment: "pendingCommitmentWithdrawals",
+    values?: undefined
+  ): string;
   encodeFunctionData(
     functionFragment: "priceOracle",
     values?: undefined
   ): string;
+  encodeFunctionData(
+    functionFragment: "proposeCategoricalSettlement",
+    values: [BigNumberish]
+  ): string;
   encodeFunctionData(
     functionFragment: "proposeSettlement",
     values: [boolean]
   ): string;
   encodeFunctionData(
-    functionFragment: "proposedOutcome",
+    functionFragment: "proposedOutcomeIndex",
     values?: undefined
   ): string;
   encodeFunctionData(
     functionFragment: "protocolId",
     values?: undefined
   ): string;
+  encodeFunctionData(
+    functionFragment: "refundGracePeriod",
+    values?: undefined
+  ): string;
   encodeFunctionData(
     functionFragment: "requestAggregateDecryption",
     values?: undefined
   ): string;
+  encodeFunctionData(
+    functionFragment: "requestWithdrawal",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "resolveDispute",
+    values: [boolean, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "revisePrediction",
+    values: [BytesLike, BytesLike]
+  ): string;
   encodeFunctionData(
     functionFragment: "settlePriceMarket",
+    values: [BigNumberish, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "settlementPrice",
     values?: undefined
   ): string;
   encodeFunctionData(
-    functionFragment: "settlementProposedTime",
+    functionFragment: "settlementSource",
     values?: undefined
   ): string;
   encodeFunctionData(
-    functionFragment: "targetAsset",
+    functionFragment: "slashedStakeToWinners",
     values?: undefined
   ): string;
   encodeFunctionData(
     functionFragment: "targetPrice",
     values?: undefined
   ): string;
+  encodeFunctionData(
+    functionFragment: "totalChallengeBonds",
+    values?: undefined
+  ): string;
   encodeFunctionData(
     functionFragment: "totalNoAmount",
     values?: undefined
   ): string;
+  encodeFunctionData(
+    functionFragment: "totalPaidOut",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "totalPoolAmount",
+    values?: undefined
+  ): string;
   encodeFunctionData(
     functionFragment: "totalYesAmount",
     values?: undefined
   ): string;
+  encodeFunctionData(
+    functionFragment: "twapWindow",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "winnerPool",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "winningOutcome",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "winningStake",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "withdrawCommitment",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "withdrawFees",
+    values?: undefined
+  ): string;
 
   decodeFunctionResult(
     functionFragment: "CHALLENGE_PERIOD",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_OUTCOMES",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_TOTAL_FEE_BPS",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "aggregateBets",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(functionFragment: "arbiter", data: BytesLike): Result;
   decodeFunctionResult(
     functionFragment: "callbackAggregateDecryption",
     data: BytesLike
@@ -268,30 +593,103 @@ export interface BlindOracleInterface extends Interface {
     functionFragment: "callbackClaimRewards",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "callbackWithdrawal",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "cancelMarket",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "challengeBonds",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "challengeSettlement",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "challengerSlashReward",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "claimDisputePayout",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "claimRefund",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "claimRequestIds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "claimRequestUsers",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "claimRewards",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "claimedWinningStake",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "collateralToken",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "commitPrediction",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "commitPredictionFor",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "commitmentDeadline",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "confidentialToken",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "currentPhase",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "decryptionRequestedAt",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "deposit", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "depositConfidential",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "depositOwnerStake",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "depositTokens",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "depositTokensWithPermit",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "depositedAmounts",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "disputeStatus",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "eventDeadline",
     data: BytesLike
@@ -300,6 +698,15 @@ export interface BlindOracleInterface extends Interface {
     functionFragment: "eventDescription",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "exitPenalties",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "feeBalances",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "feeConfig", data: BytesLike): Result;
   decodeFunctionResult(
     functionFragment: "finalOutcome",
     data: BytesLike
@@ -309,16 +716,52 @@ export interface BlindOracleInterface extends Interface {
     data: BytesLike
   ): Result;
   decodeFunctionResult(functionFragment: "getBalance", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getBucketBoundaries",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getCancellableAt",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getChallengeBond",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getClaimInfo",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getEncryptedBalance",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getEncryptedPayout",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "getMarketInfo",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "getMyBalance",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "getMyCommitment",
     data: BytesLike
   ): Result;
   decodeFunctionResult(
-    functionFragment: "getParticipant",
+    functionFragment: "getOutcomeCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getOutcomeLabels",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getOutcomeTotals",
     data: BytesLike
   ): Result;
   decodeFunctionResult(
@@ -338,10 +781,30 @@ export interface BlindOracleInterface extends Interface {
     data: BytesLike
   ): Result;
   decodeFunctionResult(functionFragment: "hasClaimed", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "hasDeposited",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "hasPendingWithdrawal",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "hasRefunded",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "hasUserCommitted",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "increaseCommitment",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "intentNonces",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "isAggregated",
     data: BytesLike
@@ -358,65 +821,290 @@ export interface BlindOracleInterface extends Interface {
     functionFragment: "participants",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "pendingCommitmentWithdrawals",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "priceOracle",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "proposeCategoricalSettlement",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "proposeSettlement",
     data: BytesLike
   ): Result;
   decodeFunctionResult(
-    functionFragment: "proposedOutcome",
+    functionFragment: "proposedOutcomeIndex",
     data: BytesLike
   ): Result;
   decodeFunctionResult(functionFragment: "protocolId", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "refundGracePeriod",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "requestAggregateDecryption",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "requestWithdrawal",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "resolveDispute",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "revisePrediction",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "settlePriceMarket",
     data: BytesLike
   ): Result;
   decodeFunctionResult(
-    functionFragment: "settlementProposedTime",
+    functionFragment: "settlementPrice",
     data: BytesLike
   ): Result;
   decodeFunctionResult(
-    functionFragment: "targetAsset",
+    functionFragment: "settlementSource",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "slashedStakeToWinners",
     data: BytesLike
   ): Result;
   decodeFunctionResult(
     functionFragment: "targetPrice",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "totalChallengeBonds",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "totalNoAmount",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "totalPaidOut",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "totalPoolAmount",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "totalYesAmount",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(functionFragment: "twapWindow", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "winnerPool", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "winningOutcome",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "winningStake",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "withdrawCommitment",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "withdrawFees",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace AggregationStartedEvent {
+  export type InputTuple = [];
+  export type OutputTuple = [];
+  export interface OutputObject {}
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ChallengeBondsForfeitedEvent {
+  export type InputTuple = [amount: BigNumberish];
+  export type OutputTuple = [amount: bigint];
+  export interface OutputObject {
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ClaimRequestedEvent {
+  export type InputTuple = [user: AddressLike, requestId: BigNumberish];
+  export type OutputTuple = [user: string, requestId: bigint];
+  export interface OutputObject {
+    user: string;
+    requestId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ClaimResolvedEvent {
+  export type InputTuple = [
+    user: AddressLike,
+    won: boolean,
+    payout: BigNumberish
+  ];
+  export type OutputTuple = [user: string, won: boolean, payout: bigint];
+  export interface OutputObject {
+    user: string;
+    won: boolean;
+    payout: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CommitmentIncreasedEvent {
+  export type InputTuple = [user: AddressLike];
+  export type OutputTuple = [user: string];
+  export interface OutputObject {
+    user: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CommitmentRelayedEvent {
+  export type InputTuple = [
+    user: AddressLike,
+    relayer: AddressLike,
+    fee: BigNumberish
+  ];
+  export type OutputTuple = [user: string, relayer: string, fee: bigint];
+  export interface OutputObject {
+    user: string;
+    relayer: string;
+    fee: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CommitmentWithdrawnEvent {
+  export type InputTuple = [
+    user: AddressLike,
+    refund: BigNumberish,
+    penalty: BigNumberish
+  ];
+  export type OutputTuple = [user: string, refund: bigint, penalty: bigint];
+  export interface OutputObject {
+    user: string;
+    refund: bigint;
+    penalty: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ConfidentialDepositedEvent {
+  export type InputTuple = [user: AddressLike, amount: BytesLike];
+  export type OutputTuple = [user: string, amount: string];
+  export interface OutputObject {
+    user: string;
+    amount: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ConfidentialPaidOutEvent {
+  export type InputTuple = [user: AddressLike, amount: BytesLike];
+  export type OutputTuple = [user: string, amount: string];
+  export interface OutputObject {
+    user: string;
+    amount: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionFulfilledEvent {
+  export type InputTuple = [requestID: BigNumberish];
+  export type OutputTuple = [requestID: bigint];
+  export interface OutputObject {
+    requestID: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionRequestedEvent {
+  export type InputTuple = [requestId: BigNumberish];
+  export type OutputTuple = [requestId: bigint];
+  export interface OutputObject {
+    requestId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DepositedEvent {
+  export type InputTuple = [user: AddressLike, amount: BigNumberish];
+  export type OutputTuple = [user: string, amount: bigint];
+  export interface OutputObject {
+    user: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
 }
 
-export namespace AggregationStartedEvent {
-  export type InputTuple = [];
-  export type OutputTuple = [];
-  export interface OutputObject {}
+export namespace DisputePayoutClaimedEvent {
+  export type InputTuple = [challenger: AddressLike, amount: BigNumberish];
+  export type OutputTuple = [challenger: string, amount: bigint];
+  export interface OutputObject {
+    challenger: string;
+    amount: bigint;
+  }
   export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
   export type Filter = TypedDeferredTopicFilter<Event>;
   export type Log = TypedEventLog<Event>;
   export type LogDescription = TypedLogDescription<Event>;
 }
 
-export namespace ClaimRequestedEvent {
-  export type InputTuple = [user: AddressLike, requestId: BigNumberish];
-  export type OutputTuple = [user: string, requestId: bigint];
+export namespace DisputeResolvedEvent {
+  export type InputTuple = [upheld: boolean, outcomeIndex: BigNumberish];
+  export type OutputTuple = [upheld: boolean, outcomeIndex: bigint];
   export interface OutputObject {
-    user: string;
-    requestId: bigint;
+    upheld: boolean;
+    outcomeIndex: bigint;
   }
   export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
   export type Filter = TypedDeferredTopicFilter<Event>;
@@ -424,11 +1112,15 @@ export namespace ClaimRequestedEvent {
   export type LogDescription = TypedLogDescription<Event>;
 }
 
-export namespace DecryptionFulfilledEvent {
-  export type InputTuple = [requestID: BigNumberish];
-  export type OutputTuple = [requestID: bigint];
+export namespace FeesAccruedEvent {
+  export type InputTuple = [
+    protocolFee: BigNumberish,
+    creatorFee: BigNumberish
+  ];
+  export type OutputTuple = [protocolFee: bigint, creatorFee: bigint];
   export interface OutputObject {
-    requestID: bigint;
+    protocolFee: bigint;
+    creatorFee: bigint;
   }
   export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
   export type Filter = TypedDeferredTopicFilter<Event>;
@@ -436,11 +1128,24 @@ export namespace DecryptionFulfilledEvent {
   export type LogDescription = TypedLogDescription<Event>;
 }
 
-export namespace DecryptionRequestedEvent {
-  export type InputTuple = [requestId: BigNumberish];
-  export type OutputTuple = [requestId: bigint];
+export namespace FeesWithdrawnEvent {
+  export type InputTuple = [recipient: AddressLike, amount: BigNumberish];
+  export type OutputTuple = [recipient: string, amount: bigint];
   export interface OutputObject {
-    requestId: bigint;
+    recipient: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace MarketCancelledEvent {
+  export type InputTuple = [stuckPhase: BigNumberish];
+  export type OutputTuple = [stuckPhase: bigint];
+  export interface OutputObject {
+    stuckPhase: bigint;
   }
   export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
   export type Filter = TypedDeferredTopicFilter<Event>;
@@ -482,6 +1187,46 @@ export namespace MarketSettledEvent {
   export type LogDescription = TypedLogDescription<Event>;
 }
 
+export namespace OutcomeProposedEvent {
+  export type InputTuple = [
+    outcomeIndex: BigNumberish,
+    challengeDeadline: BigNumberish
+  ];
+  export type OutputTuple = [outcomeIndex: bigint, challengeDeadline: bigint];
+  export interface OutputObject {
+    outcomeIndex: bigint;
+    challengeDeadline: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OutcomeSettledEvent {
+  export type InputTuple = [outcomeIndex: BigNumberish];
+  export type OutputTuple = [outcomeIndex: bigint];
+  export interface OutputObject {
+    outcomeIndex: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OutcomeTotalsDiscoveredEvent {
+  export type InputTuple = [totals: BigNumberish[]];
+  export type OutputTuple = [totals: bigint[]];
+  export interface OutputObject {
+    totals: bigint[];
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
 export namespace OwnerStakeDepositedEvent {
   export type InputTuple = [amount: BigNumberish];
   export type OutputTuple = [amount: bigint];
@@ -542,6 +1287,18 @@ export namespace PredictionCommittedEvent {
   export type LogDescription = TypedLogDescription<Event>;
 }
 
+export namespace PredictionRevisedEvent {
+  export type InputTuple = [user: AddressLike];
+  export type OutputTuple = [user: string];
+  export interface OutputObject {
+    user: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
 export namespace PriceDiscoveredEvent {
   export type InputTuple = [totalYes: BigNumberish, totalNo: BigNumberish];
   export type OutputTuple = [totalYes: bigint, totalNo: bigint];
@@ -555,6 +1312,32 @@ export namespace PriceDiscoveredEvent {
   export type LogDescription = TypedLogDescription<Event>;
 }
 
+export namespace PriceSettledEvent {
+  export type InputTuple = [price: BigNumberish, source: AddressLike];
+  export type OutputTuple = [price: bigint, source: string];
+  export interface OutputObject {
+    price: bigint;
+    source: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RefundedEvent {
+  export type InputTuple = [user: AddressLike, amount: BigNumberish];
+  export type OutputTuple = [user: string, amount: bigint];
+  export interface OutputObject {
+    user: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
 export namespace RewardsClaimedEvent {
   export type InputTuple = [user: AddressLike, amount: BigNumberish];
   export type OutputTuple = [user: string, amount: bigint];
@@ -569,10 +1352,11 @@ export namespace RewardsClaimedEvent {
 }
 
 export namespace SettlementChallengedEvent {
-  export type InputTuple = [challenger: AddressLike];
-  export type OutputTuple = [challenger: string];
+  export type InputTuple = [challenger: AddressLike, bond: BigNumberish];
+  export type OutputTuple = [challenger: string, bond: bigint];
   export interface OutputObject {
     challenger: string;
+    bond: bigint;
   }
   export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
   export type Filter = TypedDeferredTopicFilter<Event>;
@@ -593,6 +1377,32 @@ export namespace SettlementProposedEvent {
   export type LogDescription = TypedLogDescription<Event>;
 }
 
+export namespace WithdrawalRequestedEvent {
+  export type InputTuple = [user: AddressLike, requestId: BigNumberish];
+  export type OutputTuple = [user: string, requestId: bigint];
+  export interface OutputObject {
+    user: string;
+    requestId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace WithdrawnEvent {
+  export type InputTuple = [user: AddressLike, amount: BigNumberish];
+  export type OutputTuple = [user: string, amount: bigint];
+  export interface OutputObject {
+    user: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
 export interface BlindOracle extends BaseContract {
   connect(runner?: ContractRunner | null): BlindOracle;
   waitForDeployment(): Promise<this>;
@@ -638,8 +1448,14 @@ export interface BlindOracle extends BaseContract {
 
   CHALLENGE_PERIOD: TypedContractMethod<[], [bigint], "view">;
 
+  MAX_OUTCOMES: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_TOTAL_FEE_BPS: TypedContractMethod<[], [bigint], "view">;
+
   aggregateBets: TypedContractMethod<[], [void], "nonpayable">;
 
+  arbiter: TypedContractMethod<[], [string], "view">;
+
   callbackAggregateDecryption: TypedContractMethod<
     [
       requestId: BigNumberish,
@@ -660,10 +1476,42 @@ export interface BlindOracle extends BaseContract {
     "nonpayable"
   >;
 
-  challengeSettlement: TypedContractMethod<[], [void], "nonpayable">;
+  callbackWithdrawal: TypedContractMethod<
+    [
+      requestId: BigNumberish,
+      cleartexts: BytesLike,
+      decryptionProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  cancelMarket: TypedContractMethod<[], [void], "nonpayable">;
+
+  challengeBonds: TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+
+  challengeSettlement: TypedContractMethod<[], [void], "payable">;
+
+  challengerSlashReward: TypedContractMethod<[], [bigint], "view">;
+
+  claimDisputePayout: TypedContractMethod<[], [void], "nonpayable">;
+
+  claimRefund: TypedContractMethod<[], [void], "nonpayable">;
+
+  claimRequestIds: TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+
+  claimRequestUsers: TypedContractMethod<
+    [arg0: BigNumberish],
+    [string],
+    "view"
+  >;
 
   claimRewards: TypedContractMethod<[], [void], "nonpayable">;
 
+  claimedWinningStake: TypedContractMethod<[], [bigint], "view">;
+
+  collateralToken: TypedContractMethod<[], [string], "view">;
+
   commitPrediction: TypedContractMethod<
     [
       encryptedPrediction: BytesLike,
@@ -672,25 +1520,114 @@ export interface BlindOracle extends BaseContract {
       amountProof: BytesLike
     ],
     [void],
-    "payable"
+    "nonpayable"
+  >;
+
+  commitPredictionFor: TypedContractMethod<
+    [
+      user: AddressLike,
+      encryptedPrediction: BytesLike,
+      encryptedAmount: BytesLike,
+      inputProof: BytesLike,
+      relayerFee: BigNumberish,
+      deadline: BigNumberish,
+      signature: BytesLike
+    ],
+    [void],
+    "nonpayable"
   >;
 
   commitmentDeadline: TypedContractMethod<[], [bigint], "view">;
 
+  confidentialToken: TypedContractMethod<[], [string], "view">;
+
   currentPhase: TypedContractMethod<[], [bigint], "view">;
 
+  decryptionRequestedAt: TypedContractMethod<[], [bigint], "view">;
+
+  deposit: TypedContractMethod<[], [void], "payable">;
+
+  depositConfidential: TypedContractMethod<
+    [encryptedAmount: BytesLike, amountProof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
   depositOwnerStake: TypedContractMethod<[], [void], "payable">;
 
+  depositTokens: TypedContractMethod<
+    [amount: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  depositTokensWithPermit: TypedContractMethod<
+    [
+      amount: BigNumberish,
+      deadline: BigNumberish,
+      v: BigNumberish,
+      r: BytesLike,
+      s: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  depositedAmounts: TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+
+  disputeStatus: TypedContractMethod<[], [bigint], "view">;
+
   eventDeadline: TypedContractMethod<[], [bigint], "view">;
 
   eventDescription: TypedContractMethod<[], [string], "view">;
 
+  exitPenalties: TypedContractMethod<[], [bigint], "view">;
+
+  feeBalances: TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+
+  feeConfig: TypedContractMethod<
+    [],
+    [
+      [string, bigint, bigint, bigint] & {
+        protocolFeeRecipient: string;
+        protocolFeeBps: bigint;
+        creatorFeeBps: bigint;
+        exitPenaltyBps: bigint;
+      }
+    ],
+    "view"
+  >;
+
   finalOutcome: TypedContractMethod<[], [boolean], "view">;
 
   finalizeSettlement: TypedContractMethod<[], [void], "nonpayable">;
 
   getBalance: TypedContractMethod<[], [bigint], "view">;
 
+  getBucketBoundaries: TypedContractMethod<[], [bigint[]], "view">;
+
+  getCancellableAt: TypedContractMethod<[], [bigint], "view">;
+
+  getChallengeBond: TypedContractMethod<[], [bigint], "view">;
+
+  getClaimInfo: TypedContractMethod<
+    [user: AddressLike],
+    [[bigint, bigint] & { state: bigint; payout: bigint }],
+    "view"
+  >;
+
+  getEncryptedBalance: TypedContractMethod<
+    [user: AddressLike],
+    [string],
+    "view"
+  >;
+
+  getEncryptedPayout: TypedContractMethod<
+    [user: AddressLike],
+    [string],
+    "view"
+  >;
+
   getMarketInfo: TypedContractMethod<
     [],
     [
@@ -707,23 +1644,29 @@ export interface BlindOracle extends BaseContract {
     "view"
   >;
 
+  getMyBalance: TypedContractMethod<[], [string], "view">;
+
   getMyCommitment: TypedContractMethod<
     [],
     [[string, string] & { prediction: string; amount: string }],
     "view"
   >;
 
-  getParticipant: TypedContractMethod<[index: BigNumberish], [string], "view">;
+  getOutcomeCount: TypedContractMethod<[], [bigint], "view">;
+
+  getOutcomeLabels: TypedContractMethod<[], [string[]], "view">;
+
+  getOutcomeTotals: TypedContractMethod<[], [bigint[]], "view">;
 
   getParticipantCount: TypedContractMethod<[], [bigint], "view">;
 
   getPriceMarketInfo: TypedContractMethod<
     [],
     [
-      [bigint, string, bigint, bigint] & {
+      [bigint, string, string, bigint] & {
         _marketType: bigint;
         _priceOracle: string;
-        _targetAsset: bigint;
+        _targetAsset: string;
         _targetPrice: bigint;
       }
     ],
@@ -759,8 +1702,26 @@ export interface BlindOracle extends BaseContract {
 
   hasClaimed: TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
 
+  hasDeposited: TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+
+  hasPendingWithdrawal: TypedContractMethod<
+    [arg0: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  hasRefunded: TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+
   hasUserCommitted: TypedContractMethod<[user: AddressLike], [boolean], "view">;
 
+  increaseCommitment: TypedContractMethod<
+    [encryptedAmount: BytesLike, amountProof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  intentNonces: TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+
   isAggregated: TypedContractMethod<[], [boolean], "view">;
 
   isSettled: TypedContractMethod<[], [boolean], "view">;
@@ -775,32 +1736,84 @@ export interface BlindOracle extends BaseContract {
 
   participants: TypedContractMethod<[arg0: BigNumberish], [string], "view">;
 
+  pendingCommitmentWithdrawals: TypedContractMethod<[], [bigint], "view">;
+
   priceOracle: TypedContractMethod<[], [string], "view">;
 
+  proposeCategoricalSettlement: TypedContractMethod<
+    [outcomeIndex: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
   proposeSettlement: TypedContractMethod<
     [outcome: boolean],
     [void],
     "nonpayable"
   >;
 
-  proposedOutcome: TypedContractMethod<[], [boolean], "view">;
+  proposedOutcomeIndex: TypedContractMethod<[], [bigint], "view">;
 
   protocolId: TypedContractMethod<[], [bigint], "view">;
 
+  refundGracePeriod: TypedContractMethod<[], [bigint], "view">;
+
   requestAggregateDecryption: TypedContractMethod<[], [void], "nonpayable">;
 
-  settlePriceMarket: TypedContractMethod<[], [void], "nonpayable">;
+  requestWithdrawal: TypedContractMethod<
+    [amount: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  resolveDispute: TypedContractMethod<
+    [upheld: boolean, outcomeIndex: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  revisePrediction: TypedContractMethod<
+    [encryptedPrediction: BytesLike, predictionProof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  settlePriceMarket: TypedContractMethod<
+    [roundHint: BigNumberish, report: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  settlementPrice: TypedContractMethod<[], [bigint], "view">;
 
-  settlementProposedTime: TypedContractMethod<[], [bigint], "view">;
+  settlementSource: TypedContractMethod<[], [string], "view">;
 
-  targetAsset: TypedContractMethod<[], [bigint], "view">;
+  slashedStakeToWinners: TypedContractMethod<[], [bigint], "view">;
 
   targetPrice: TypedContractMethod<[], [bigint], "view">;
 
+  totalChallengeBonds: TypedContractMethod<[], [bigint], "view">;
+
   totalNoAmount: TypedContractMethod<[], [bigint], "view">;
 
+  totalPaidOut: TypedContractMethod<[], [bigint], "view">;
+
+  totalPoolAmount: TypedContractMethod<[], [bigint], "view">;
+
   totalYesAmount: TypedContractMethod<[], [bigint], "view">;
 
+  twapWindow: TypedContractMethod<[], [bigint], "view">;
+
+  winnerPool: TypedContractMethod<[], [bigint], "view">;
+
+  winningOutcome: TypedContractMethod<[], [bigint], "view">;
+
+  winningStake: TypedContractMethod<[], [bigint], "view">;
+
+  withdrawCommitment: TypedContractMethod<[], [void], "nonpayable">;
+
+  withdrawFees: TypedContractMethod<[], [void], "nonpayable">;
+
   getFunction<T extends ContractMethod = ContractMethod>(
     key: string | FunctionFragment
   ): T;
@@ -808,9 +1821,18 @@ export interface BlindOracle extends BaseContract {
   getFunction(
     nameOrSignature: "CHALLENGE_PERIOD"
   ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_OUTCOMES"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_TOTAL_FEE_BPS"
+  ): TypedContractMethod<[], [bigint], "view">;
   getFunction(
     nameOrSignature: "aggregateBets"
   ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "arbiter"
+  ): TypedContractMethod<[], [string], "view">;
   getFunction(
     nameOrSignature: "callbackAggregateDecryption"
   ): TypedContractMethod<
@@ -833,12 +1855,50 @@ export interface BlindOracle extends BaseContract {
     [void],
     "nonpayable"
   >;
+  getFunction(
+    nameOrSignature: "callbackWithdrawal"
+  ): TypedContractMethod<
+    [
+      requestId: BigNumberish,
+      cleartexts: BytesLike,
+      decryptionProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "cancelMarket"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "challengeBonds"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
   getFunction(
     nameOrSignature: "challengeSettlement"
+  ): TypedContractMethod<[], [void], "payable">;
+  getFunction(
+    nameOrSignature: "challengerSlashReward"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "claimDisputePayout"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "claimRefund"
   ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "claimRequestIds"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "claimRequestUsers"
+  ): TypedContractMethod<[arg0: BigNumberish], [string], "view">;
   getFunction(
     nameOrSignature: "claimRewards"
   ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "claimedWinningStake"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "collateralToken"
+  ): TypedContractMethod<[], [string], "view">;
   getFunction(
     nameOrSignature: "commitPrediction"
   ): TypedContractMethod<
@@ -849,23 +1909,96 @@ export interface BlindOracle extends BaseContract {
       amountProof: BytesLike
     ],
     [void],
-    "payable"
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "commitPredictionFor"
+  ): TypedContractMethod<
+    [
+      user: AddressLike,
+      encryptedPrediction: BytesLike,
+      encryptedAmount: BytesLike,
+      inputProof: BytesLike,
+      relayerFee: BigNumberish,
+      deadline: BigNumberish,
+      signature: BytesLike
+    ],
+    [void],
+    "nonpayable"
   >;
   getFunction(
     nameOrSignature: "commitmentDeadline"
   ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "confidentialToken"
+  ): TypedContractMethod<[], [string], "view">;
   getFunction(
     nameOrSignature: "currentPhase"
   ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "decryptionRequestedAt"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "deposit"
+  ): TypedContractMethod<[], [void], "payable">;
+  getFunction(
+    nameOrSignature: "depositConfidential"
+  ): TypedContractMethod<
+    [encryptedAmount: BytesLike, amountProof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
   getFunction(
     nameOrSignature: "depositOwnerStake"
   ): TypedContractMethod<[], [void], "payable">;
+  getFunction(
+    nameOrSignature: "depositTokens"
+  ): TypedContractMethod<[amount: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "depositTokensWithPermit"
+  ): TypedContractMethod<
+    [
+      amount: BigNumberish,
+      deadline: BigNumberish,
+      v: BigNumberish,
+      r: BytesLike,
+      s: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "depositedAmounts"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "disputeStatus"
+  ): TypedContractMethod<[], [bigint], "view">;
   getFunction(
     nameOrSignature: "eventDeadline"
   ): TypedContractMethod<[], [bigint], "view">;
   getFunction(
     nameOrSignature: "eventDescription"
   ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "exitPenalties"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "feeBalances"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "feeConfig"
+  ): TypedContractMethod<
+    [],
+    [
+      [string, bigint, bigint, bigint] & {
+        protocolFeeRecipient: string;
+        protocolFeeBps: bigint;
+        creatorFeeBps: bigint;
+        exitPenaltyBps: bigint;
+      }
+    ],
+    "view"
+  >;
   getFunction(
     nameOrSignature: "finalOutcome"
   ): TypedContractMethod<[], [boolean], "view">;
@@ -875,6 +2008,28 @@ export interface BlindOracle extends BaseContract {
   getFunction(
     nameOrSignature: "getBalance"
   ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getBucketBoundaries"
+  ): TypedContractMethod<[], [bigint[]], "view">;
+  getFunction(
+    nameOrSignature: "getCancellableAt"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getChallengeBond"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getClaimInfo"
+  ): TypedContractMethod<
+    [user: AddressLike],
+    [[bigint, bigint] & { state: bigint; payout: bigint }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getEncryptedBalance"
+  ): TypedContractMethod<[user: AddressLike], [string], "view">;
+  getFunction(
+    nameOrSignature: "getEncryptedPayout"
+  ): TypedContractMethod<[user: AddressLike], [string], "view">;
   getFunction(
     nameOrSignature: "getMarketInfo"
   ): TypedContractMethod<
@@ -892,6 +2047,9 @@ export interface BlindOracle extends BaseContract {
     ],
     "view"
   >;
+  getFunction(
+    nameOrSignature: "getMyBalance"
+  ): TypedContractMethod<[], [string], "view">;
   getFunction(
     nameOrSignature: "getMyCommitment"
   ): TypedContractMethod<
@@ -900,8 +2058,14 @@ export interface BlindOracle extends BaseContract {
     "view"
   >;
   getFunction(
-    nameOrSignature: "getParticipant"
-  ): TypedContractMethod<[index: BigNumberish], [string], "view">;
+    nameOrSignature: "getOutcomeCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getOutcomeLabels"
+  ): TypedContractMethod<[], [string[]], "view">;
+  getFunction(
+    nameOrSignature: "getOutcomeTotals"
+  ): TypedContractMethod<[], [bigint[]], "view">;
   getFunction(
     nameOrSignature: "getParticipantCount"
   ): TypedContractMethod<[], [bigint], "view">;
@@ -910,10 +2074,10 @@ export interface BlindOracle extends BaseContract {
   ): TypedContractMethod<
     [],
     [
-      [bigint, string, bigint, bigint] & {
+      [bigint, string, string, bigint] & {
         _marketType: bigint;
         _priceOracle: string;
-        _targetAsset: bigint;
+        _targetAsset: string;
         _targetPrice: bigint;
       }
     ],
@@ -951,9 +2115,28 @@ export interface BlindOracle extends BaseContract {
   getFunction(
     nameOrSignature: "hasClaimed"
   ): TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "hasDeposited"
+  ): TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "hasPendingWithdrawal"
+  ): TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "hasRefunded"
+  ): TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
   getFunction(
     nameOrSignature: "hasUserCommitted"
   ): TypedContractMethod<[user: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "increaseCommitment"
+  ): TypedContractMethod<
+    [encryptedAmount: BytesLike, amountProof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "intentNonces"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
   getFunction(
     nameOrSignature: "isAggregated"
   ): TypedContractMethod<[], [boolean], "view">;
@@ -975,39 +2158,99 @@ export interface BlindOracle extends BaseContract {
   getFunction(
     nameOrSignature: "participants"
   ): TypedContractMethod<[arg0: BigNumberish], [string], "view">;
+  getFunction(
+    nameOrSignature: "pendingCommitmentWithdrawals"
+  ): TypedContractMethod<[], [bigint], "view">;
   getFunction(
     nameOrSignature: "priceOracle"
   ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "proposeCategoricalSettlement"
+  ): TypedContractMethod<[outcomeIndex: BigNumberish], [void], "nonpayable">;
   getFunction(
     nameOrSignature: "proposeSettlement"
   ): TypedContractMethod<[outcome: boolean], [void], "nonpayable">;
   getFunction(
-    nameOrSignature: "proposedOutcome"
-  ): TypedContractMethod<[], [boolean], "view">;
+    nameOrSignature: "proposedOutcomeIndex"
+  ): TypedContractMethod<[], [bigint], "view">;
   getFunction(
     nameOrSignature: "protocolId"
   ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "refundGracePeriod"
+  ): TypedContractMethod<[], [bigint], "view">;
   getFunction(
     nameOrSignature: "requestAggregateDecryption"
   ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "requestWithdrawal"
+  ): TypedContractMethod<[amount: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "resolveDispute"
+  ): TypedContractMethod<
+    [upheld: boolean, outcomeIndex: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "revisePrediction"
+  ): TypedContractMethod<
+    [encryptedPrediction: BytesLike, predictionProof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
   getFunction(
     nameOrSignature: "settlePriceMarket"
-  ): TypedContractMethod<[], [void], "nonpayable">;
+  ): TypedContractMethod<
+    [roundHint: BigNumberish, report: BytesLike],
+    [void],
+    "nonpayable"
+  >;
   getFunction(
-    nameOrSignature: "settlementProposedTime"
+    nameOrSignature: "settlementPrice"
   ): TypedContractMethod<[], [bigint], "view">;
   getFunction(
-    nameOrSignature: "targetAsset"
+    nameOrSignature: "settlementSource"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "slashedStakeToWinners"
   ): TypedContractMethod<[], [bigint], "view">;
   getFunction(
     nameOrSignature: "targetPrice"
   ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "totalChallengeBonds"
+  ): TypedContractMethod<[], [bigint], "view">;
   getFunction(
     nameOrSignature: "totalNoAmount"
   ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "totalPaidOut"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "totalPoolAmount"
+  ): TypedContractMethod<[], [bigint], "view">;
   getFunction(
     nameOrSignature: "totalYesAmount"
   ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "twapWindow"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "winnerPool"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "winningOutcome"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "winningStake"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "withdrawCommitment"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "withdrawFees"
+  ): TypedContractMethod<[], [void], "nonpayable">;
 
   getEvent(
     key: "AggregationStarted"
@@ -1016,6 +2259,13 @@ export interface BlindOracle extends BaseContract {
     AggregationStartedEvent.OutputTuple,
     AggregationStartedEvent.OutputObject
   >;
+  getEvent(
+    key: "ChallengeBondsForfeited"
+  ): TypedContractEvent<
+    ChallengeBondsForfeitedEvent.InputTuple,
+    ChallengeBondsForfeitedEvent.OutputTuple,
+    ChallengeBondsForfeitedEvent.OutputObject
+  >;
   getEvent(
     key: "ClaimRequested"
   ): TypedContractEvent<
@@ -1023,6 +2273,48 @@ export interface BlindOracle extends BaseContract {
     ClaimRequestedEvent.OutputTuple,
     ClaimRequestedEvent.OutputObject
   >;
+  getEvent(
+    key: "ClaimResolved"
+  ): TypedContractEvent<
+    ClaimResolvedEvent.InputTuple,
+    ClaimResolvedEvent.OutputTuple,
+    ClaimResolvedEvent.OutputObject
+  >;
+  getEvent(
+    key: "CommitmentIncreased"
+  ): TypedContractEvent<
+    CommitmentIncreasedEvent.InputTuple,
+    CommitmentIncreasedEvent.OutputTuple,
+    CommitmentIncreasedEvent.OutputObject
+  >;
+  getEvent(
+    key: "CommitmentRelayed"
+  ): TypedContractEvent<
+    CommitmentRelayedEvent.InputTuple,
+    CommitmentRelayedEvent.OutputTuple,
+    CommitmentRelayedEvent.OutputObject
+  >;
+  getEvent(
+    key: "CommitmentWithdrawn"
+  ): TypedContractEvent<
+    CommitmentWithdrawnEvent.InputTuple,
+    CommitmentWithdrawnEvent.OutputTuple,
+    CommitmentWithdrawnEvent.OutputObject
+  >;
+  getEvent(
+    key: "ConfidentialDeposited"
+  ): TypedContractEvent<
+    ConfidentialDepositedEvent.InputTuple,
+    ConfidentialDepositedEvent.OutputTuple,
+    ConfidentialDepositedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ConfidentialPaidOut"
+  ): TypedContractEvent<
+    ConfidentialPaidOutEvent.InputTuple,
+    ConfidentialPaidOutEvent.OutputTuple,
+    ConfidentialPaidOutEvent.OutputObject
+  >;
   getEvent(
     key: "DecryptionFulfilled"
   ): TypedContractEvent<
@@ -1037,6 +2329,48 @@ export interface BlindOracle extends BaseContract {
     DecryptionRequestedEvent.OutputTuple,
     DecryptionRequestedEvent.OutputObject
   >;
+  getEvent(
+    key: "Deposited"
+  ): TypedContractEvent<
+    DepositedEvent.InputTuple,
+    DepositedEvent.OutputTuple,
+    DepositedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DisputePayoutClaimed"
+  ): TypedContractEvent<
+    DisputePayoutClaimedEvent.InputTuple,
+    DisputePayoutClaimedEvent.OutputTuple,
+    DisputePayoutClaimedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DisputeResolved"
+  ): TypedContractEvent<
+    DisputeResolvedEvent.InputTuple,
+    DisputeResolvedEvent.OutputTuple,
+    DisputeResolvedEvent.OutputObject
+  >;
+  getEvent(
+    key: "FeesAccrued"
+  ): TypedContractEvent<
+    FeesAccruedEvent.InputTuple,
+    FeesAccruedEvent.OutputTuple,
+    FeesAccruedEvent.OutputObject
+  >;
+  getEvent(
+    key: "FeesWithdrawn"
+  ): TypedContractEvent<
+    FeesWithdrawnEvent.InputTuple,
+    FeesWithdrawnEvent.OutputTuple,
+    FeesWithdrawnEvent.OutputObject
+  >;
+  getEvent(
+    key: "MarketCancelled"
+  ): TypedContractEvent<
+    MarketCancelledEvent.InputTuple,
+    MarketCancelledEvent.OutputTuple,
+    MarketCancelledEvent.OutputObject
+  >;
   getEvent(
     key: "MarketCreated"
   ): TypedContractEvent<
@@ -1051,6 +2385,27 @@ export interface BlindOracle extends BaseContract {
     MarketSettledEvent.OutputTuple,
     MarketSettledEvent.OutputObject
   >;
+  getEvent(
+    key: "OutcomeProposed"
+  ): TypedContractEvent<
+    OutcomeProposedEvent.InputTuple,
+    OutcomeProposedEvent.OutputTuple,
+    OutcomeProposedEvent.OutputObject
+  >;
+  getEvent(
+    key: "OutcomeSettled"
+  ): TypedContractEvent<
+    OutcomeSettledEvent.InputTuple,
+    OutcomeSettledEvent.OutputTuple,
+    OutcomeSettledEvent.OutputObject
+  >;
+  getEvent(
+    key: "OutcomeTotalsDiscovered"
+  ): TypedContractEvent<
+    OutcomeTotalsDiscoveredEvent.InputTuple,
+    OutcomeTotalsDiscoveredEvent.OutputTuple,
+    OutcomeTotalsDiscoveredEvent.OutputObject
+  >;
   getEvent(
     key: "OwnerStakeDeposited"
   ): TypedContractEvent<
@@ -1086,6 +2441,13 @@ export interface BlindOracle extends BaseContract {
     PredictionCommittedEvent.OutputTuple,
     PredictionCommittedEvent.OutputObject
   >;
+  getEvent(
+    key: "PredictionRevised"
+  ): TypedContractEvent<
+    PredictionRevisedEvent.InputTuple,
+    PredictionRevisedEvent.OutputTuple,
+    PredictionRevisedEvent.OutputObject
+  >;
   getEvent(
     key: "PriceDiscovered"
   ): TypedContractEvent<
@@ -1093,6 +2455,20 @@ export interface BlindOracle extends BaseContract {
     PriceDiscoveredEvent.OutputTuple,
     PriceDiscoveredEvent.OutputObject
   >;
+  getEvent(
+    key: "PriceSettled"
+  ): TypedContractEvent<
+    PriceSettledEvent.InputTuple,
+    PriceSettledEvent.OutputTuple,
+    PriceSettledEvent.OutputObject
+  >;
+  getEvent(
+    key: "Refunded"
+  ): TypedContractEvent<
+    RefundedEvent.InputTuple,
+    RefundedEvent.OutputTuple,
+    RefundedEvent.OutputObject
+  >;
   getEvent(
     key: "RewardsClaimed"
   ): TypedContractEvent<
@@ -1114,6 +2490,20 @@ export interface BlindOracle extends BaseContract {
     SettlementProposedEvent.OutputTuple,
     SettlementProposedEvent.OutputObject
   >;
+  getEvent(
+    key: "WithdrawalRequested"
+  ): TypedContractEvent<
+    WithdrawalRequestedEvent.InputTuple,
+    WithdrawalRequestedEvent.OutputTuple,
+    WithdrawalRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "Withdrawn"
+  ): TypedContractEvent<
+    WithdrawnEvent.InputTuple,
+    WithdrawnEvent.OutputTuple,
+    WithdrawnEvent.OutputObject
+  >;
 
   filters: {
     "AggregationStarted()": TypedContractEvent<
@@ -1127,6 +2517,17 @@ export interface BlindOracle extends BaseContract {
       AggregationStartedEvent.OutputObject
     >;
 
+    "ChallengeBondsForfeited(uint256)": TypedContractEvent<
+      ChallengeBondsForfeitedEvent.InputTuple,
+      ChallengeBondsForfeitedEvent.OutputTuple,
+      ChallengeBondsForfeitedEvent.OutputObject
+    >;
+    ChallengeBondsForfeited: TypedContractEvent<
+      ChallengeBondsForfeitedEvent.InputTuple,
+      ChallengeBondsForfeitedEvent.OutputTuple,
+      ChallengeBondsForfeitedEvent.OutputObject
+    >;
+
     "ClaimRequested(address,uint256)": TypedContractEvent<
       ClaimRequestedEvent.InputTuple,
       ClaimRequestedEvent.OutputTuple,
@@ -1138,6 +2539,72 @@ export interface BlindOracle extends BaseContract {
       ClaimRequestedEvent.OutputObject
     >;
 
+    "ClaimResolved(address,bool,uint256)": TypedContractEvent<
+      ClaimResolvedEvent.InputTuple,
+      ClaimResolvedEvent.OutputTuple,
+      ClaimResolvedEvent.OutputObject
+    >;
+    ClaimResolved: TypedContractEvent<
+      ClaimResolvedEvent.InputTuple,
+      ClaimResolvedEvent.OutputTuple,
+      ClaimResolvedEvent.OutputObject
+    >;
+
+    "CommitmentIncreased(address)": TypedContractEvent<
+      CommitmentIncreasedEvent.InputTuple,
+      CommitmentIncreasedEvent.OutputTuple,
+      CommitmentIncreasedEvent.OutputObject
+    >;
+    CommitmentIncreased: TypedContractEvent<
+      CommitmentIncreasedEvent.InputTuple,
+      CommitmentIncreasedEvent.OutputTuple,
+      CommitmentIncreasedEvent.OutputObject
+    >;
+
+    "CommitmentRelayed(address,address,uint256)": TypedContractEvent<
+      CommitmentRelayedEvent.InputTuple,
+      CommitmentRelayedEvent.OutputTuple,
+      CommitmentRelayedEvent.OutputObject
+    >;
+    CommitmentRelayed: TypedContractEvent<
+      CommitmentRelayedEvent.InputTuple,
+      CommitmentRelayedEvent.OutputTuple,
+      CommitmentRelayedEvent.OutputObject
+    >;
+
+    "CommitmentWithdrawn(address,uint256,uint256)": TypedContractEvent<
+      CommitmentWithdrawnEvent.InputTuple,
+      CommitmentWithdrawnEvent.OutputTuple,
+      CommitmentWithdrawnEvent.OutputObject
+    >;
+    CommitmentWithdrawn: TypedContractEvent<
+      CommitmentWithdrawnEvent.InputTuple,
+      CommitmentWithdrawnEvent.OutputTuple,
+      CommitmentWithdrawnEvent.OutputObject
+    >;
+
+    "ConfidentialDeposited(address,bytes32)": TypedContractEvent<
+      ConfidentialDepositedEvent.InputTuple,
+      ConfidentialDepositedEvent.OutputTuple,
+      ConfidentialDepositedEvent.OutputObject
+    >;
+    ConfidentialDeposited: TypedContractEvent<
+      ConfidentialDepositedEvent.InputTuple,
+      ConfidentialDepositedEvent.OutputTuple,
+      ConfidentialDepositedEvent.OutputObject
+    >;
+
+    "ConfidentialPaidOut(address,bytes32)": TypedContractEvent<
+      ConfidentialPaidOutEvent.InputTuple,
+      ConfidentialPaidOutEvent.OutputTuple,
+      ConfidentialPaidOutEvent.OutputObject
+    >;
+    ConfidentialPaidOut: TypedContractEvent<
+      ConfidentialPaidOutEvent.InputTuple,
+      ConfidentialPaidOutEvent.OutputTuple,
+      ConfidentialPaidOutEvent.OutputObject
+    >;
+
     "DecryptionFulfilled(uint256)": TypedContractEvent<
       DecryptionFulfilledEvent.InputTuple,
       DecryptionFulfilledEvent.OutputTuple,
@@ -1160,6 +2627,72 @@ export interface BlindOracle extends BaseContract {
       DecryptionRequestedEvent.OutputObject
     >;
 
+    "Deposited(address,uint256)": TypedContractEvent<
+      DepositedEvent.InputTuple,
+      DepositedEvent.OutputTuple,
+      DepositedEvent.OutputObject
+    >;
+    Deposited: TypedContractEvent<
+      DepositedEvent.InputTuple,
+      DepositedEvent.OutputTuple,
+      DepositedEvent.OutputObject
+    >;
+
+    "DisputePayoutClaimed(address,uint256)": TypedContractEvent<
+      DisputePayoutClaimedEvent.InputTuple,
+      DisputePayoutClaimedEvent.OutputTuple,
+      DisputePayoutClaimedEvent.OutputObject
+    >;
+    DisputePayoutClaimed: TypedContractEvent<
+      DisputePayoutClaimedEvent.InputTuple,
+      DisputePayoutClaimedEvent.OutputTuple,
+      DisputePayoutClaimedEvent.OutputObject
+    >;
+
+    "DisputeResolved(bool,uint8)": TypedContractEvent<
+      DisputeResolvedEvent.InputTuple,
+      DisputeResolvedEvent.OutputTuple,
+      DisputeResolvedEvent.OutputObject
+    >;
+    DisputeResolved: TypedContractEvent<
+      DisputeResolvedEvent.InputTuple,
+      DisputeResolvedEvent.OutputTuple,
+      DisputeResolvedEvent.OutputObject
+    >;
+
+    "FeesAccrued(uint256,uint256)": TypedContractEvent<
+      FeesAccruedEvent.InputTuple,
+      FeesAccruedEvent.OutputTuple,
+      FeesAccruedEvent.OutputObject
+    >;
+    FeesAccrued: TypedContractEvent<
+      FeesAccruedEvent.InputTuple,
+      FeesAccruedEvent.OutputTuple,
+      FeesAccruedEvent.OutputObject
+    >;
+
+    "FeesWithdrawn(address,uint256)": TypedContractEvent<
+      FeesWithdrawnEvent.InputTuple,
+      FeesWithdrawnEvent.OutputTuple,
+      FeesWithdrawnEvent.OutputObject
+    >;
+    FeesWithdrawn: TypedContractEvent<
+      FeesWithdrawnEvent.InputTuple,
+      FeesWithdrawnEvent.OutputTuple,
+      FeesWithdrawnEvent.OutputObject
+    >;
+
+    "MarketCancelled(uint8)": TypedContractEvent<
+      MarketCancelledEvent.InputTuple,
+      MarketCancelledEvent.OutputTuple,
+      MarketCancelledEvent.OutputObject
+    >;
+    MarketCancelled: TypedContractEvent<
+      MarketCancelledEvent.InputTuple,
+      MarketCancelledEvent.OutputTuple,
+      MarketCancelledEvent.OutputObject
+    >;
+
     "MarketCreated(string,uint256,uint256)": TypedContractEvent<
       MarketCreatedEvent.InputTuple,
       MarketCreatedEvent.OutputTuple,
@@ -1182,6 +2715,39 @@ export interface BlindOracle extends BaseContract {
       MarketSettledEvent.OutputObject
     >;
 
+    "OutcomeProposed(uint8,uint256)": TypedContractEvent<
+      OutcomeProposedEvent.InputTuple,
+      OutcomeProposedEvent.OutputTuple,
+      OutcomeProposedEvent.OutputObject
+    >;
+    OutcomeProposed: TypedContractEvent<
+      OutcomeProposedEvent.InputTuple,
+      OutcomeProposedEvent.OutputTuple,
+      OutcomeProposedEvent.OutputObject
+    >;
+
+    "OutcomeSettled(uint8)": TypedContractEvent<
+      OutcomeSettledEvent.InputTuple,
+      OutcomeSettledEvent.OutputTuple,
+      OutcomeSettledEvent.OutputObject
+    >;
+    OutcomeSettled: TypedContractEvent<
+      OutcomeSettledEvent.InputTuple,
+      OutcomeSettledEvent.OutputTuple,
+      OutcomeSettledEvent.OutputObject
+    >;
+
+    "OutcomeTotalsDiscovered(uint256[])": TypedContractEvent<
+      OutcomeTotalsDiscoveredEvent.InputTuple,
+      OutcomeTotalsDiscoveredEvent.OutputTuple,
+      OutcomeTotalsDiscoveredEvent.OutputObject
+    >;
+    OutcomeTotalsDiscovered: TypedContractEvent<
+      OutcomeTotalsDiscoveredEvent.InputTuple,
+      OutcomeTotalsDiscoveredEvent.OutputTuple,
+      OutcomeTotalsDiscoveredEvent.OutputObject
+    >;
+
     "OwnerStakeDeposited(uint256)": TypedContractEvent<
       OwnerStakeDepositedEvent.InputTuple,
       OwnerStakeDepositedEvent.OutputTuple,
@@ -1237,6 +2803,17 @@ export interface BlindOracle extends BaseContract {
       PredictionCommittedEvent.OutputObject
     >;
 
+    "PredictionRevised(address)": TypedContractEvent<
+      PredictionRevisedEvent.InputTuple,
+      PredictionRevisedEvent.OutputTuple,
+      PredictionRevisedEvent.OutputObject
+    >;
+    PredictionRevised: TypedContractEvent<
+      PredictionRevisedEvent.InputTuple,
+      PredictionRevisedEvent.OutputTuple,
+      PredictionRevisedEvent.OutputObject
+    >;
+
     "PriceDiscovered(uint256,uint256)": TypedContractEvent<
       PriceDiscoveredEvent.InputTuple,
       PriceDiscoveredEvent.OutputTuple,
@@ -1248,6 +2825,28 @@ export interface BlindOracle extends BaseContract {
       PriceDiscoveredEvent.OutputObject
     >;
 
+    "PriceSettled(uint256,address)": TypedContractEvent<
+      PriceSettledEvent.InputTuple,
+      PriceSettledEvent.OutputTuple,
+      PriceSettledEvent.OutputObject
+    >;
+    PriceSettled: TypedContractEvent<
+      PriceSettledEvent.InputTuple,
+      PriceSettledEvent.OutputTuple,
+      PriceSettledEvent.OutputObject
+    >;
+
+    "Refunded(address,uint256)": TypedContractEvent<
+      RefundedEvent.InputTuple,
+      RefundedEvent.OutputTuple,
+      RefundedEvent.OutputObject
+    >;
+    Refunded: TypedContractEvent<
+      RefundedEvent.InputTuple,
+      RefundedEvent.OutputTuple,
+      RefundedEvent.OutputObject
+    >;
+
     "RewardsClaimed(address,uint256)": TypedContractEvent<
       RewardsClaimedEvent.InputTuple,
       RewardsClaimedEvent.OutputTuple,
@@ -1259,7 +2858,7 @@ export interface BlindOracle extends BaseContract {
       RewardsClaimedEvent.OutputObject
     >;
 
-    "SettlementChallenged(address)": TypedContractEvent<
+    "SettlementChallenged(address,uint256)": TypedContractEvent<
       SettlementChallengedEvent.InputTuple,
       SettlementChallengedEvent.OutputTuple,
       SettlementChallengedEvent.OutputObject
@@ -1280,5 +2879,27 @@ export interface BlindOracle extends BaseContract {
       SettlementProposedEvent.OutputTuple,
       SettlementProposedEvent.OutputObject
     >;
+
+    "WithdrawalRequested(address,uint256)": TypedContractEvent<
+      WithdrawalRequestedEvent.InputTuple,
+      WithdrawalRequestedEvent.OutputTuple,
+      WithdrawalRequestedEvent.OutputObject
+    >;
+    WithdrawalRequested: TypedContractEvent<
+      WithdrawalRequestedEvent.InputTuple,
+      WithdrawalRequestedEvent.OutputTuple,
+      WithdrawalRequestedEvent.OutputObject
+    >;
+
+    "Withdrawn(address,uint256)": TypedContractEvent<
+      WithdrawnEvent.InputTuple,
+      WithdrawnEvent.OutputTuple,
+      WithdrawnEvent.OutputObject
+    >;
+    Withdrawn: TypedContractEvent<
+      WithdrawnEvent.InputTuple,
+      WithdrawnEvent.OutputTuple,
+      WithdrawnEvent.OutputObject
+    >;
   };
 }
@@ -27,62 +27,144 @@ export interface ChainlinkPriceOracleInterface extends Interface {
   getFunction(
     nameOrSignature:
       | "MAX_PRICE_AGE"
+      | "MAX_TWAP_ROUNDS"
+      | "assetRegistry"
+      | "changeWindow"
+      | "confirmRound"
+      | "confirmedRounds"
+      | "decimals"
+      | "findRoundAt"
       | "getPrice"
+      | "getPriceAt"
       | "getPriceFeed"
       | "getPriceWithMetadata"
+      | "getSettlementPrice"
+      | "getTwap"
+      | "isAssetSupported"
       | "isPriceAboveTarget"
-      | "isPriceFeedAvailable"
+      | "isRoundQuarantined"
+      | "maxUpdateChangeBps"
+      | "maxWindowChangeBps"
       | "owner"
-      | "priceFeeds"
-      | "transferOwnership"
-      | "updatePriceFeed"
+      | "setCircuitBreaker"
+      | "supportsInterface"
   ): FunctionFragment;
 
-  getEvent(nameOrSignatureOrTopic: "PriceFeedUpdated"): EventFragment;
+  getEvent(
+    nameOrSignatureOrTopic: "CircuitBreakerUpdated" | "RoundConfirmed"
+  ): EventFragment;
 
   encodeFunctionData(
     functionFragment: "MAX_PRICE_AGE",
     values?: undefined
   ): string;
   encodeFunctionData(
-    functionFragment: "getPrice",
-    values: [BigNumberish]
+    functionFragment: "MAX_TWAP_ROUNDS",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "assetRegistry",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "changeWindow",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "confirmRound",
+    values: [BytesLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "confirmedRounds",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(functionFragment: "decimals", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "findRoundAt",
+    values: [BytesLike, BigNumberish]
+  ): string;
+  encodeFunctionData(functionFragment: "getPrice", values: [BytesLike]): string;
+  encodeFunctionData(
+    functionFragment: "getPriceAt",
+    values: [BytesLike, BigNumberish, BigNumberish]
   ): string;
   encodeFunctionData(
     functionFragment: "getPriceFeed",
-    values: [BigNumberish]
+    values: [BytesLike]
   ): string;
   encodeFunctionData(
     functionFragment: "getPriceWithMetadata",
-    values: [BigNumberish]
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getSettlementPrice",
+    values: [BytesLike, BigNumberish, BigNumberish, BigNumberish, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getTwap",
+    values: [BytesLike, BigNumberish, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isAssetSupported",
+    values: [BytesLike]
   ): string;
   encodeFunctionData(
     functionFragment: "isPriceAboveTarget",
-    values: [BigNumberish, BigNumberish]
+    values: [BytesLike, BigNumberish]
   ): string;
   encodeFunctionData(
-    functionFragment: "isPriceFeedAvailable",
-    values: [BigNumberish]
+    functionFragment: "isRoundQuarantined",
+    values: [BytesLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "maxUpdateChangeBps",
+    values?: undefined
   ): string;
-  encodeFunctionData(functionFragment: "owner", values?: undefined): string;
   encodeFunctionData(
-    functionFragment: "priceFeeds",
-    values: [BigNumberish]
+    functionFragment: "maxWindowChangeBps",
+    values?: undefined
   ): string;
+  encodeFunctionData(functionFragment: "owner", values?: undefined): string;
   encodeFunctionData(
-    functionFragment: "transferOwnership",
-    values: [AddressLike]
+    functionFragment: "setCircuitBreaker",
+    values: [BigNumberish, BigNumberish, BigNumberish]
   ): string;
   encodeFunctionData(
-    functionFragment: "updatePriceFeed",
-    values: [BigNumberish, AddressLike]
+    functionFragment: "supportsInterface",
+    values: [BytesLike]
   ): string;
 
   decodeFunctionResult(
     functionFragment: "MAX_PRICE_AGE",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_TWAP_ROUNDS",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "assetRegistry",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "changeWindow",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "confirmRound",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "confirmedRounds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "decimals", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "findRoundAt",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(functionFragment: "getPrice", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "getPriceAt", data: BytesLike): Result;
   decodeFunctionResult(
     functionFragment: "getPriceFeed",
     data: BytesLike
@@ -91,32 +173,75 @@ export interface ChainlinkPriceOracleInterface extends Interface {
     functionFragment: "getPriceWithMetadata",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "getSettlementPrice",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "getTwap", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "isAssetSupported",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "isPriceAboveTarget",
     data: BytesLike
   ): Result;
   decodeFunctionResult(
-    functionFragment: "isPriceFeedAvailable",
+    functionFragment: "isRoundQuarantined",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "maxUpdateChangeBps",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "maxWindowChangeBps",
     data: BytesLike
   ): Result;
   decodeFunctionResult(functionFragment: "owner", data: BytesLike): Result;
-  decodeFunctionResult(functionFragment: "priceFeeds", data: BytesLike): Result;
   decodeFunctionResult(
-    functionFragment: "transferOwnership",
+    functionFragment: "setCircuitBreaker",
     data: BytesLike
   ): Result;
   decodeFunctionResult(
-    functionFragment: "updatePriceFeed",
+    functionFragment: "supportsInterface",
     data: BytesLike
   ): Result;
 }
 
-export namespace PriceFeedUpdatedEvent {
-  export type InputTuple = [asset: BigNumberish, feedAddress: AddressLike];
-  export type OutputTuple = [asset: bigint, feedAddress: string];
+export namespace CircuitBreakerUpdatedEvent {
+  export type InputTuple = [
+    maxUpdateChangeBps: BigNumberish,
+    maxWindowChangeBps: BigNumberish,
+    changeWindow: BigNumberish
+  ];
+  export type OutputTuple = [
+    maxUpdateChangeBps: bigint,
+    maxWindowChangeBps: bigint,
+    changeWindow: bigint
+  ];
+  export interface OutputObject {
+    maxUpdateChangeBps: bigint;
+    maxWindowChangeBps: bigint;
+    changeWindow: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RoundConfirmedEvent {
+  export type InputTuple = [
+    asset: BytesLike,
+    feed: AddressLike,
+    roundId: BigNumberish
+  ];
+  export type OutputTuple = [asset: string, feed: string, roundId: bigint];
   export interface OutputObject {
-    asset: bigint;
-    feedAddress: string;
+    asset: string;
+    feed: string;
+    roundId: bigint;
   }
   export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
   export type Filter = TypedDeferredTopicFilter<Event>;
@@ -169,53 +294,116 @@ export interface ChainlinkPriceOracle extends BaseContract {
 
   MAX_PRICE_AGE: TypedContractMethod<[], [bigint], "view">;
 
+  MAX_TWAP_ROUNDS: TypedContractMethod<[], [bigint], "view">;
+
+  assetRegistry: TypedContractMethod<[], [string], "view">;
+
+  changeWindow: TypedContractMethod<[], [bigint], "view">;
+
+  confirmRound: TypedContractMethod<
+    [asset: BytesLike, roundId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  confirmedRounds: TypedContractMethod<
+    [arg0: AddressLike, arg1: BigNumberish],
+    [boolean],
+    "view"
+  >;
+
+  decimals: TypedContractMethod<[], [bigint], "view">;
+
+  findRoundAt: TypedContractMethod<
+    [asset: BytesLike, timestamp: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
   getPrice: TypedContractMethod<
-    [asset: BigNumberish],
+    [asset: BytesLike],
     [[bigint, bigint] & { price: bigint; timestamp: bigint }],
     "view"
   >;
 
-  getPriceFeed: TypedContractMethod<[asset: BigNumberish], [string], "view">;
+  getPriceAt: TypedContractMethod<
+    [asset: BytesLike, timestamp: BigNumberish, roundHint: BigNumberish],
+    [[bigint, bigint] & { price: bigint; updatedAt: bigint }],
+    "view"
+  >;
+
+  getPriceFeed: TypedContractMethod<[asset: BytesLike], [string], "view">;
 
   getPriceWithMetadata: TypedContractMethod<
-    [asset: BigNumberish],
+    [asset: BytesLike],
     [
       [bigint, bigint, bigint, string] & {
         price: bigint;
         timestamp: bigint;
-        decimals: bigint;
+        priceDecimals: bigint;
         description: string;
       }
     ],
     "view"
   >;
 
+  getSettlementPrice: TypedContractMethod<
+    [
+      asset: BytesLike,
+      endTime: BigNumberish,
+      window: BigNumberish,
+      roundHint: BigNumberish,
+      report: BytesLike
+    ],
+    [[bigint, string] & { price: bigint; source: string }],
+    "view"
+  >;
+
+  getTwap: TypedContractMethod<
+    [
+      asset: BytesLike,
+      endTime: BigNumberish,
+      window: BigNumberish,
+      roundHint: BigNumberish
+    ],
+    [bigint],
+    "view"
+  >;
+
+  isAssetSupported: TypedContractMethod<[asset: BytesLike], [boolean], "view">;
+
   isPriceAboveTarget: TypedContractMethod<
-    [asset: BigNumberish, targetPrice: BigNumberish],
+    [asset: BytesLike, targetPrice: BigNumberish],
     [boolean],
     "view"
   >;
 
-  isPriceFeedAvailable: TypedContractMethod<
-    [asset: BigNumberish],
+  isRoundQuarantined: TypedContractMethod<
+    [asset: BytesLike, roundId: BigNumberish],
     [boolean],
     "view"
   >;
 
-  owner: TypedContractMethod<[], [string], "view">;
+  maxUpdateChangeBps: TypedContractMethod<[], [bigint], "view">;
+
+  maxWindowChangeBps: TypedContractMethod<[], [bigint], "view">;
 
-  priceFeeds: TypedContractMethod<[arg0: BigNumberish], [string], "view">;
+  owner: TypedContractMethod<[], [string], "view">;
 
-  transferOwnership: TypedContractMethod<
-    [newOwner: AddressLike],
+  setCircuitBreaker: TypedContractMethod<
+    [
+      _maxUpdateChangeBps: BigNumberish,
+      _maxWindowChangeBps: BigNumberish,
+      _changeWindow: BigNumberish
+    ],
     [void],
     "nonpayable"
   >;
 
-  updatePriceFeed: TypedContractMethod<
-    [asset: BigNumberish, feedAddress: AddressLike],
-    [void],
-    "nonpayable"
+  supportsInterface: TypedContractMethod<
+    [interfaceId: BytesLike],
+    [boolean],
+    "view"
   >;
 
   getFunction<T extends ContractMethod = ContractMethod>(
@@ -225,75 +413,172 @@ export interface ChainlinkPriceOracle extends BaseContract {
   getFunction(
     nameOrSignature: "MAX_PRICE_AGE"
   ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_TWAP_ROUNDS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "assetRegistry"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "changeWindow"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "confirmRound"
+  ): TypedContractMethod<
+    [asset: BytesLike, roundId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "confirmedRounds"
+  ): TypedContractMethod<
+    [arg0: AddressLike, arg1: BigNumberish],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "decimals"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "findRoundAt"
+  ): TypedContractMethod<
+    [asset: BytesLike, timestamp: BigNumberish],
+    [bigint],
+    "view"
+  >;
   getFunction(
     nameOrSignature: "getPrice"
   ): TypedContractMethod<
-    [asset: BigNumberish],
+    [asset: BytesLike],
     [[bigint, bigint] & { price: bigint; timestamp: bigint }],
     "view"
   >;
+  getFunction(
+    nameOrSignature: "getPriceAt"
+  ): TypedContractMethod<
+    [asset: BytesLike, timestamp: BigNumberish, roundHint: BigNumberish],
+    [[bigint, bigint] & { price: bigint; updatedAt: bigint }],
+    "view"
+  >;
   getFunction(
     nameOrSignature: "getPriceFeed"
-  ): TypedContractMethod<[asset: BigNumberish], [string], "view">;
+  ): TypedContractMethod<[asset: BytesLike], [string], "view">;
   getFunction(
     nameOrSignature: "getPriceWithMetadata"
   ): TypedContractMethod<
-    [asset: BigNumberish],
+    [asset: BytesLike],
     [
       [bigint, bigint, bigint, string] & {
         price: bigint;
         timestamp: bigint;
-        decimals: bigint;
+        priceDecimals: bigint;
         description: string;
       }
     ],
     "view"
   >;
+  getFunction(
+    nameOrSignature: "getSettlementPrice"
+  ): TypedContractMethod<
+    [
+      asset: BytesLike,
+      endTime: BigNumberish,
+      window: BigNumberish,
+      roundHint: BigNumberish,
+      report: BytesLike
+    ],
+    [[bigint, string] & { price: bigint; source: string }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getTwap"
+  ): TypedContractMethod<
+    [
+      asset: BytesLike,
+      endTime: BigNumberish,
+      window: BigNumberish,
+      roundHint: BigNumberish
+    ],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "isAssetSupported"
+  ): TypedContractMethod<[asset: BytesLike], [boolean], "view">;
   getFunction(
     nameOrSignature: "isPriceAboveTarget"
   ): TypedContractMethod<
-    [asset: BigNumberish, targetPrice: BigNumberish],
+    [asset: BytesLike, targetPrice: BigNumberish],
     [boolean],
     "view"
   >;
   getFunction(
-    nameOrSignature: "isPriceFeedAvailable"
-  ): TypedContractMethod<[asset: BigNumberish], [boolean], "view">;
+    nameOrSignature: "isRoundQuarantined"
+  ): TypedContractMethod<
+    [asset: BytesLike, roundId: BigNumberish],
+    [boolean],
+    "view"
+  >;
   getFunction(
-    nameOrSignature: "owner"
-  ): TypedContractMethod<[], [string], "view">;
+    nameOrSignature: "maxUpdateChangeBps"
+  ): TypedContractMethod<[], [bigint], "view">;
   getFunction(
-    nameOrSignature: "priceFeeds"
-  ): TypedContractMethod<[arg0: BigNumberish], [string], "view">;
+    nameOrSignature: "maxWindowChangeBps"
+  ): TypedContractMethod<[], [bigint], "view">;
   getFunction(
-    nameOrSignature: "transferOwnership"
-  ): TypedContractMethod<[newOwner: AddressLike], [void], "nonpayable">;
+    nameOrSignature: "owner"
+  ): TypedContractMethod<[], [string], "view">;
   getFunction(
-    nameOrSignature: "updatePriceFeed"
+    nameOrSignature: "setCircuitBreaker"
   ): TypedContractMethod<
-    [asset: BigNumberish, feedAddress: AddressLike],
+    [
+      _maxUpdateChangeBps: BigNumberish,
+      _maxWindowChangeBps: BigNumberish,
+      _changeWindow: BigNumberish
+    ],
     [void],
     "nonpayable"
   >;
+  getFunction(
+    nameOrSignature: "supportsInterface"
+  ): TypedContractMethod<[interfaceId: BytesLike], [boolean], "view">;
 
   getEvent(
-    key: "PriceFeedUpdated"
+    key: "CircuitBreakerUpdated"
+  ): TypedContractEvent<
+    CircuitBreakerUpdatedEvent.InputTuple,
+    CircuitBreakerUpdatedEvent.OutputTuple,
+    CircuitBreakerUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RoundConfirmed"
   ): TypedContractEvent<
-    PriceFeedUpdatedEvent.InputTuple,
-    PriceFeedUpdatedEvent.OutputTuple,
-    PriceFeedUpdatedEvent.OutputObject
+    RoundConfirmedEvent.InputTuple,
+    RoundConfirmedEvent.OutputTuple,
+    RoundConfirmedEvent.OutputObject
   >;
 
   filters: {
-    "PriceFeedUpdated(uint8,address)": TypedContractEvent<
-      PriceFeedUpdatedEvent.InputTuple,
-      PriceFeedUpdatedEvent.OutputTuple,
-      PriceFeedUpdatedEvent.OutputObject
+    "CircuitBreakerUpdated(uint256,uint256,uint256)": TypedContractEvent<
+      CircuitBreakerUpdatedEvent.InputTuple,
+      CircuitBreakerUpdatedEvent.OutputTuple,
+      CircuitBreakerUpdatedEvent.OutputObject
+    >;
+    CircuitBreakerUpdated: TypedContractEvent<
+      CircuitBreakerUpdatedEvent.InputTuple,
+      CircuitBreakerUpdatedEvent.OutputTuple,
+      CircuitBreakerUpdatedEvent.OutputObject
+    >;
+
+    "RoundConfirmed(bytes32,address,uint80)": TypedContractEvent<
+      RoundConfirmedEvent.InputTuple,
+      RoundConfirmedEvent.OutputTuple,
+      RoundConfirmedEvent.OutputObject
     >;
-    PriceFeedUpdated: TypedContractEvent<
-      PriceFeedUpdatedEvent.InputTuple,
-      PriceFeedUpdatedEvent.OutputTuple,
-      PriceFeedUpdatedEvent.OutputObject
+    RoundConfirmed: TypedContractEvent<
+      RoundConfirmedEvent.InputTuple,
+      RoundConfirmedEvent.OutputTuple,
+      RoundConfirmedEvent.OutputObject
     >;
   };
 }
@@ -0,0 +1,497 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../common";
+
+export interface FallbackPriceOracleInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "MANUAL_FALLBACK_DELAY"
+      | "MAX_SOURCES"
+      | "assetRegistry"
+      | "decimals"
+      | "findRoundAt"
+      | "getPrice"
+      | "getPriceAt"
+      | "getPriceWithMetadata"
+      | "getSettlementPrice"
+      | "getSources"
+      | "getTwap"
+      | "isAssetSupported"
+      | "isPriceAboveTarget"
+      | "manualPrices"
+      | "owner"
+      | "setManualPrice"
+      | "setSources"
+      | "supportsInterface"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic: "ManualPriceSet" | "SourcesUpdated"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "MANUAL_FALLBACK_DELAY",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_SOURCES",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "assetRegistry",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "decimals", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "findRoundAt",
+    values: [BytesLike, BigNumberish]
+  ): string;
+  encodeFunctionData(functionFragment: "getPrice", values: [BytesLike]): string;
+  encodeFunctionData(
+    functionFragment: "getPriceAt",
+    values: [BytesLike, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getPriceWithMetadata",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getSettlementPrice",
+    values: [BytesLike, BigNumberish, BigNumberish, BigNumberish, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getSources",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getTwap",
+    values: [BytesLike, BigNumberish, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isAssetSupported",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isPriceAboveTarget",
+    values: [BytesLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "manualPrices",
+    values: [BytesLike, BigNumberish]
+  ): string;
+  encodeFunctionData(functionFragment: "owner", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "setManualPrice",
+    values: [BytesLike, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setSources",
+    values: [BytesLike, AddressLike[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "supportsInterface",
+    values: [BytesLike]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "MANUAL_FALLBACK_DELAY",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_SOURCES",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "assetRegistry",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "decimals", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "findRoundAt",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "getPrice", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "getPriceAt", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getPriceWithMetadata",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getSettlementPrice",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "getSources", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "getTwap", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "isAssetSupported",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "isPriceAboveTarget",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "manualPrices",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "owner", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "setManualPrice",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "setSources", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "supportsInterface",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace ManualPriceSetEvent {
+  export type InputTuple = [
+    asset: BytesLike,
+    endTime: BigNumberish,
+    price: BigNumberish
+  ];
+  export type OutputTuple = [asset: string, endTime: bigint, price: bigint];
+  export interface OutputObject {
+    asset: string;
+    endTime: bigint;
+    price: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SourcesUpdatedEvent {
+  export type InputTuple = [asset: BytesLike, sources: AddressLike[]];
+  export type OutputTuple = [asset: string, sources: string[]];
+  export interface OutputObject {
+    asset: string;
+    sources: string[];
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface FallbackPriceOracle extends BaseContract {
+  connect(runner?: ContractRunner | null): FallbackPriceOracle;
+  waitForDeployment(): Promise<this>;
+
+  interface: FallbackPriceOracleInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  MANUAL_FALLBACK_DELAY: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_SOURCES: TypedContractMethod<[], [bigint], "view">;
+
+  assetRegistry: TypedContractMethod<[], [string], "view">;
+
+  decimals: TypedContractMethod<[], [bigint], "view">;
+
+  findRoundAt: TypedContractMethod<
+    [asset: BytesLike, timestamp: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  getPrice: TypedContractMethod<
+    [asset: BytesLike],
+    [[bigint, bigint] & { price: bigint; timestamp: bigint }],
+    "view"
+  >;
+
+  getPriceAt: TypedContractMethod<
+    [asset: BytesLike, timestamp: BigNumberish, roundHint: BigNumberish],
+    [[bigint, bigint] & { price: bigint; updatedAt: bigint }],
+    "view"
+  >;
+
+  getPriceWithMetadata: TypedContractMethod<
+    [asset: BytesLike],
+    [
+      [bigint, bigint, bigint, string] & {
+        price: bigint;
+        timestamp: bigint;
+        priceDecimals: bigint;
+        description: string;
+      }
+    ],
+    "view"
+  >;
+
+  getSettlementPrice: TypedContractMethod<
+    [
+      asset: BytesLike,
+      endTime: BigNumberish,
+      window: BigNumberish,
+      arg3: BigNumberish,
+      report: BytesLike
+    ],
+    [[bigint, string] & { price: bigint; source: string }],
+    "view"
+  >;
+
+  getSources: TypedContractMethod<[asset: BytesLike], [string[]], "view">;
+
+  getTwap: TypedContractMethod<
+    [
+      asset: BytesLike,
+      endTime: BigNumberish,
+      window: BigNumberish,
+      roundHint: BigNumberish
+    ],
+    [bigint],
+    "view"
+  >;
+
+  isAssetSupported: TypedContractMethod<[asset: BytesLike], [boolean], "view">;
+
+  isPriceAboveTarget: TypedContractMethod<
+    [asset: BytesLike, targetPrice: BigNumberish],
+    [boolean],
+    "view"
+  >;
+
+  manualPrices: TypedContractMethod<
+    [arg0: BytesLike, arg1: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  owner: TypedContractMethod<[], [string], "view">;
+
+  setManualPrice: TypedContractMethod<
+    [asset: BytesLike, endTime: BigNumberish, price: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setSources: TypedContractMethod<
+    [asset: BytesLike, oracles: AddressLike[]],
+    [void],
+    "nonpayable"
+  >;
+
+  supportsInterface: TypedContractMethod<
+    [interfaceId: BytesLike],
+    [boolean],
+    "view"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "MANUAL_FALLBACK_DELAY"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_SOURCES"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "assetRegistry"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "decimals"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "findRoundAt"
+  ): TypedContractMethod<
+    [asset: BytesLike, timestamp: BigNumberish],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getPrice"
+  ): TypedContractMethod<
+    [asset: BytesLike],
+    [[bigint, bigint] & { price: bigint; timestamp: bigint }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getPriceAt"
+  ): TypedContractMethod<
+    [asset: BytesLike, timestamp: BigNumberish, roundHint: BigNumberish],
+    [[bigint, bigint] & { price: bigint; updatedAt: bigint }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getPriceWithMetadata"
+  ): TypedContractMethod<
+    [asset: BytesLike],
+    [
+      [bigint, bigint, bigint, string] & {
+        price: bigint;
+        timestamp: bigint;
+        priceDecimals: bigint;
+        description: string;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getSettlementPrice"
+  ): TypedContractMethod<
+    [
+      asset: BytesLike,
+      endTime: BigNumberish,
+      window: BigNumberish,
+      arg3: BigNumberish,
+      report: BytesLike
+    ],
+    [[bigint, string] & { price: bigint; source: string }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getSources"
+  ): TypedContractMethod<[asset: BytesLike], [string[]], "view">;
+  getFunction(
+    nameOrSignature: "getTwap"
+  ): TypedContractMethod<
+    [
+      asset: BytesLike,
+      endTime: BigNumberish,
+      window: BigNumberish,
+      roundHint: BigNumberish
+    ],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "isAssetSupported"
+  ): TypedContractMethod<[asset: BytesLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "isPriceAboveTarget"
+  ): TypedContractMethod<
+    [asset: BytesLike, targetPrice: BigNumberish],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "manualPrices"
+  ): TypedContractMethod<
+    [arg0: BytesLike, arg1: BigNumberish],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "owner"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "setManualPrice"
+  ): TypedContractMethod<
+    [asset: BytesLike, endTime: BigNumberish, price: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setSources"
+  ): TypedContractMethod<
+    [asset: BytesLike, oracles: AddressLike[]],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "supportsInterface"
+  ): TypedContractMethod<[interfaceId: BytesLike], [boolean], "view">;
+
+  getEvent(
+    key: "ManualPriceSet"
+  ): TypedContractEvent<
+    ManualPriceSetEvent.InputTuple,
+    ManualPriceSetEvent.OutputTuple,
+    ManualPriceSetEvent.OutputObject
+  >;
+  getEvent(
+    key: "SourcesUpdated"
+  ): TypedContractEvent<
+    SourcesUpdatedEvent.InputTuple,
+    SourcesUpdatedEvent.OutputTuple,
+    SourcesUpdatedEvent.OutputObject
+  >;
+
+  filters: {
+    "ManualPriceSet(bytes32,uint256,uint256)": TypedContractEvent<
+      ManualPriceSetEvent.InputTuple,
+      ManualPriceSetEvent.OutputTuple,
+      ManualPriceSetEvent.OutputObject
+    >;
+    ManualPriceSet: TypedContractEvent<
+      ManualPriceSetEvent.InputTuple,
+      ManualPriceSetEvent.OutputTuple,
+      ManualPriceSetEvent.OutputObject
+    >;
+
+    "SourcesUpdated(bytes32,address[])": TypedContractEvent<
+      SourcesUpdatedEvent.InputTuple,
+      SourcesUpdatedEvent.OutputTuple,
+      SourcesUpdatedEvent.OutputObject
+    >;
+    SourcesUpdated: TypedContractEvent<
+      SourcesUpdatedEvent.InputTuple,
+      SourcesUpdatedEvent.OutputTuple,
+      SourcesUpdatedEvent.OutputObject
+    >;
+  };
+}
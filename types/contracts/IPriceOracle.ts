@@ -0,0 +1,312 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedListener,
+  TypedContractMethod,
+} from "../common";
+
+export interface IPriceOracleInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "assetRegistry"
+      | "decimals"
+      | "findRoundAt"
+      | "getPrice"
+      | "getPriceAt"
+      | "getPriceWithMetadata"
+      | "getSettlementPrice"
+      | "getTwap"
+      | "isAssetSupported"
+      | "isPriceAboveTarget"
+      | "supportsInterface"
+  ): FunctionFragment;
+
+  encodeFunctionData(
+    functionFragment: "assetRegistry",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "decimals", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "findRoundAt",
+    values: [BytesLike, BigNumberish]
+  ): string;
+  encodeFunctionData(functionFragment: "getPrice", values: [BytesLike]): string;
+  encodeFunctionData(
+    functionFragment: "getPriceAt",
+    values: [BytesLike, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getPriceWithMetadata",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getSettlementPrice",
+    values: [BytesLike, BigNumberish, BigNumberish, BigNumberish, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getTwap",
+    values: [BytesLike, BigNumberish, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isAssetSupported",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isPriceAboveTarget",
+    values: [BytesLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "supportsInterface",
+    values: [BytesLike]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "assetRegistry",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "decimals", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "findRoundAt",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "getPrice", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "getPriceAt", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getPriceWithMetadata",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getSettlementPrice",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "getTwap", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "isAssetSupported",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "isPriceAboveTarget",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "supportsInterface",
+    data: BytesLike
+  ): Result;
+}
+
+export interface IPriceOracle extends BaseContract {
+  connect(runner?: ContractRunner | null): IPriceOracle;
+  waitForDeployment(): Promise<this>;
+
+  interface: IPriceOracleInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  assetRegistry: TypedContractMethod<[], [string], "view">;
+
+  decimals: TypedContractMethod<[], [bigint], "view">;
+
+  findRoundAt: TypedContractMethod<
+    [asset: BytesLike, timestamp: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  getPrice: TypedContractMethod<
+    [asset: BytesLike],
+    [[bigint, bigint] & { price: bigint; timestamp: bigint }],
+    "view"
+  >;
+
+  getPriceAt: TypedContractMethod<
+    [asset: BytesLike, timestamp: BigNumberish, roundHint: BigNumberish],
+    [[bigint, bigint] & { price: bigint; updatedAt: bigint }],
+    "view"
+  >;
+
+  getPriceWithMetadata: TypedContractMethod<
+    [asset: BytesLike],
+    [
+      [bigint, bigint, bigint, string] & {
+        price: bigint;
+        timestamp: bigint;
+        priceDecimals: bigint;
+        description: string;
+      }
+    ],
+    "view"
+  >;
+
+  getSettlementPrice: TypedContractMethod<
+    [
+      asset: BytesLike,
+      endTime: BigNumberish,
+      window: BigNumberish,
+      roundHint: BigNumberish,
+      report: BytesLike
+    ],
+    [[bigint, string] & { price: bigint; source: string }],
+    "view"
+  >;
+
+  getTwap: TypedContractMethod<
+    [
+      asset: BytesLike,
+      endTime: BigNumberish,
+      window: BigNumberish,
+      roundHint: BigNumberish
+    ],
+    [bigint],
+    "view"
+  >;
+
+  isAssetSupported: TypedContractMethod<[asset: BytesLike], [boolean], "view">;
+
+  isPriceAboveTarget: TypedContractMethod<
+    [asset: BytesLike, targetPrice: BigNumberish],
+    [boolean],
+    "view"
+  >;
+
+  supportsInterface: TypedContractMethod<
+    [interfaceId: BytesLike],
+    [boolean],
+    "view"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "assetRegistry"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "decimals"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "findRoundAt"
+  ): TypedContractMethod<
+    [asset: BytesLike, timestamp: BigNumberish],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getPrice"
+  ): TypedContractMethod<
+    [asset: BytesLike],
+    [[bigint, bigint] & { price: bigint; timestamp: bigint }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getPriceAt"
+  ): TypedContractMethod<
+    [asset: BytesLike, timestamp: BigNumberish, roundHint: BigNumberish],
+    [[bigint, bigint] & { price: bigint; updatedAt: bigint }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getPriceWithMetadata"
+  ): TypedContractMethod<
+    [asset: BytesLike],
+    [
+      [bigint, bigint, bigint, string] & {
+        price: bigint;
+        timestamp: bigint;
+        priceDecimals: bigint;
+        description: string;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getSettlementPrice"
+  ): TypedContractMethod<
+    [
+      asset: BytesLike,
+      endTime: BigNumberish,
+      window: BigNumberish,
+      roundHint: BigNumberish,
+      report: BytesLike
+    ],
+    [[bigint, string] & { price: bigint; source: string }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getTwap"
+  ): TypedContractMethod<
+    [
+      asset: BytesLike,
+      endTime: BigNumberish,
+      window: BigNumberish,
+      roundHint: BigNumberish
+    ],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "isAssetSupported"
+  ): TypedContractMethod<[asset: BytesLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "isPriceAboveTarget"
+  ): TypedContractMethod<
+    [asset: BytesLike, targetPrice: BigNumberish],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "supportsInterface"
+  ): TypedContractMethod<[interfaceId: BytesLike], [boolean], "view">;
+
+  filters: {};
+}
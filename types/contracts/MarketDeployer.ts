@@ -0,0 +1,179 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedListener,
+  TypedContractMethod,
+} from "../common";
+
+export declare namespace BlindOracle {
+  export type FeeConfigStruct = {
+    protocolFeeRecipient: AddressLike;
+    protocolFeeBps: BigNumberish;
+    creatorFeeBps: BigNumberish;
+    exitPenaltyBps: BigNumberish;
+  };
+
+  export type FeeConfigStructOutput = [
+    protocolFeeRecipient: string,
+    protocolFeeBps: bigint,
+    creatorFeeBps: bigint,
+    exitPenaltyBps: bigint
+  ] & {
+    protocolFeeRecipient: string;
+    protocolFeeBps: bigint;
+    creatorFeeBps: bigint;
+    exitPenaltyBps: bigint;
+  };
+}
+
+export interface MarketDeployerInterface extends Interface {
+  getFunction(nameOrSignature: "deployMarket" | "factory"): FunctionFragment;
+
+  encodeFunctionData(
+    functionFragment: "deployMarket",
+    values: [
+      AddressLike,
+      BigNumberish,
+      string,
+      BigNumberish,
+      BigNumberish,
+      AddressLike,
+      BytesLike,
+      BigNumberish,
+      string[],
+      BigNumberish[],
+      BigNumberish,
+      AddressLike,
+      BlindOracle.FeeConfigStruct,
+      AddressLike,
+      AddressLike,
+      BigNumberish
+    ]
+  ): string;
+  encodeFunctionData(functionFragment: "factory", values?: undefined): string;
+
+  decodeFunctionResult(
+    functionFragment: "deployMarket",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "factory", data: BytesLike): Result;
+}
+
+export interface MarketDeployer extends BaseContract {
+  connect(runner?: ContractRunner | null): MarketDeployer;
+  waitForDeployment(): Promise<this>;
+
+  interface: MarketDeployerInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  deployMarket: TypedContractMethod<
+    [
+      _owner: AddressLike,
+      _marketType: BigNumberish,
+      _description: string,
+      _commitmentDuration: BigNumberish,
+      _eventDuration: BigNumberish,
+      _priceOracle: AddressLike,
+      _targetAsset: BytesLike,
+      _targetPrice: BigNumberish,
+      _outcomeLabels: string[],
+      _bucketBoundaries: BigNumberish[],
+      _refundGracePeriod: BigNumberish,
+      _arbiter: AddressLike,
+      _fees: BlindOracle.FeeConfigStruct,
+      _collateralToken: AddressLike,
+      _confidentialToken: AddressLike,
+      _twapWindow: BigNumberish
+    ],
+    [string],
+    "nonpayable"
+  >;
+
+  factory: TypedContractMethod<[], [string], "view">;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "deployMarket"
+  ): TypedContractMethod<
+    [
+      _owner: AddressLike,
+      _marketType: BigNumberish,
+      _description: string,
+      _commitmentDuration: BigNumberish,
+      _eventDuration: BigNumberish,
+      _priceOracle: AddressLike,
+      _targetAsset: BytesLike,
+      _targetPrice: BigNumberish,
+      _outcomeLabels: string[],
+      _bucketBoundaries: BigNumberish[],
+      _refundGracePeriod: BigNumberish,
+      _arbiter: AddressLike,
+      _fees: BlindOracle.FeeConfigStruct,
+      _collateralToken: AddressLike,
+      _confidentialToken: AddressLike,
+      _twapWindow: BigNumberish
+    ],
+    [string],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "factory"
+  ): TypedContractMethod<[], [string], "view">;
+
+  filters: {};
+}
@@ -59,6 +59,11 @@ export declare namespace MarketFactory {
 export interface MarketFactoryInterface extends Interface {
   getFunction(
     nameOrSignature:
+      | "MAX_CREATOR_FEE_BPS"
+      | "MAX_EXIT_PENALTY_BPS"
+      | "MAX_PROTOCOL_FEE_BPS"
+      | "admin"
+      | "arbiter"
       | "createMarket"
       | "creatorMarkets"
       | "getMarket"
@@ -69,12 +74,32 @@ export interface MarketFactoryInterface extends Interface {
       | "getUserMarketCount"
       | "getUserMarkets"
       | "isValidMarket"
+      | "marketDeployer"
       | "marketInfo"
       | "markets"
+      | "protocolFeeBps"
+      | "protocolFeeRecipient"
+      | "setProtocolFee"
   ): FunctionFragment;
 
-  getEvent(nameOrSignatureOrTopic: "MarketCreated"): EventFragment;
+  getEvent(
+    nameOrSignatureOrTopic: "MarketCreated" | "ProtocolFeeUpdated"
+  ): EventFragment;
 
+  encodeFunctionData(
+    functionFragment: "MAX_CREATOR_FEE_BPS",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_EXIT_PENALTY_BPS",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_PROTOCOL_FEE_BPS",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "admin", values?: undefined): string;
+  encodeFunctionData(functionFragment: "arbiter", values?: undefined): string;
   encodeFunctionData(
     functionFragment: "createMarket",
     values: [
@@ -83,7 +108,15 @@ export interface MarketFactoryInterface extends Interface {
       BigNumberish,
       BigNumberish,
       AddressLike,
+      BytesLike,
+      BigNumberish,
+      string[],
+      BigNumberish[],
       BigNumberish,
+      BigNumberish,
+      BigNumberish,
+      AddressLike,
+      AddressLike,
       BigNumberish
     ]
   ): string;
@@ -123,6 +156,10 @@ export interface MarketFactoryInterface extends Interface {
     functionFragment: "isValidMarket",
     values: [AddressLike]
   ): string;
+  encodeFunctionData(
+    functionFragment: "marketDeployer",
+    values?: undefined
+  ): string;
   encodeFunctionData(
     functionFragment: "marketInfo",
     values: [AddressLike]
@@ -131,7 +168,33 @@ export interface MarketFactoryInterface extends Interface {
     functionFragment: "markets",
     values: [BigNumberish]
   ): string;
+  encodeFunctionData(
+    functionFragment: "protocolFeeBps",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "protocolFeeRecipient",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setProtocolFee",
+    values: [BigNumberish, AddressLike]
+  ): string;
 
+  decodeFunctionResult(
+    functionFragment: "MAX_CREATOR_FEE_BPS",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_EXIT_PENALTY_BPS",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_PROTOCOL_FEE_BPS",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "admin", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "arbiter", data: BytesLike): Result;
   decodeFunctionResult(
     functionFragment: "createMarket",
     data: BytesLike
@@ -166,8 +229,24 @@ export interface MarketFactoryInterface extends Interface {
     functionFragment: "isValidMarket",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "marketDeployer",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(functionFragment: "marketInfo", data: BytesLike): Result;
   decodeFunctionResult(functionFragment: "markets", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "protocolFeeBps",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "protocolFeeRecipient",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setProtocolFee",
+    data: BytesLike
+  ): Result;
 }
 
 export namespace MarketCreatedEvent {
@@ -204,6 +283,19 @@ export namespace MarketCreatedEvent {
   export type LogDescription = TypedLogDescription<Event>;
 }
 
+export namespace ProtocolFeeUpdatedEvent {
+  export type InputTuple = [feeBps: BigNumberish, recipient: AddressLike];
+  export type OutputTuple = [feeBps: bigint, recipient: string];
+  export interface OutputObject {
+    feeBps: bigint;
+    recipient: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
 export interface MarketFactory extends BaseContract {
   connect(runner?: ContractRunner | null): MarketFactory;
   waitForDeployment(): Promise<this>;
@@ -247,6 +339,16 @@ export interface MarketFactory extends BaseContract {
     event?: TCEvent
   ): Promise<this>;
 
+  MAX_CREATOR_FEE_BPS: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_EXIT_PENALTY_BPS: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_PROTOCOL_FEE_BPS: TypedContractMethod<[], [bigint], "view">;
+
+  admin: TypedContractMethod<[], [string], "view">;
+
+  arbiter: TypedContractMethod<[], [string], "view">;
+
   createMarket: TypedContractMethod<
     [
       _marketType: BigNumberish,
@@ -254,8 +356,16 @@ export interface MarketFactory extends BaseContract {
       _commitmentDuration: BigNumberish,
       _eventDuration: BigNumberish,
       _priceOracle: AddressLike,
-      _targetAsset: BigNumberish,
-      _targetPrice: BigNumberish
+      _targetAsset: BytesLike,
+      _targetPrice: BigNumberish,
+      _outcomeLabels: string[],
+      _bucketBoundaries: BigNumberish[],
+      _refundGracePeriod: BigNumberish,
+      _creatorFeeBps: BigNumberish,
+      _exitPenaltyBps: BigNumberish,
+      _collateralToken: AddressLike,
+      _confidentialToken: AddressLike,
+      _twapWindow: BigNumberish
     ],
     [string],
     "nonpayable"
@@ -316,6 +426,8 @@ export interface MarketFactory extends BaseContract {
     "view"
   >;
 
+  marketDeployer: TypedContractMethod<[], [string], "view">;
+
   marketInfo: TypedContractMethod<
     [arg0: AddressLike],
     [
@@ -335,10 +447,35 @@ export interface MarketFactory extends BaseContract {
 
   markets: TypedContractMethod<[arg0: BigNumberish], [string], "view">;
 
+  protocolFeeBps: TypedContractMethod<[], [bigint], "view">;
+
+  protocolFeeRecipient: TypedContractMethod<[], [string], "view">;
+
+  setProtocolFee: TypedContractMethod<
+    [_feeBps: BigNumberish, _recipient: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
   getFunction<T extends ContractMethod = ContractMethod>(
     key: string | FunctionFragment
   ): T;
 
+  getFunction(
+    nameOrSignature: "MAX_CREATOR_FEE_BPS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_EXIT_PENALTY_BPS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_PROTOCOL_FEE_BPS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "admin"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "arbiter"
+  ): TypedContractMethod<[], [string], "view">;
   getFunction(
     nameOrSignature: "createMarket"
   ): TypedContractMethod<
@@ -348,8 +485,16 @@ export interface MarketFactory extends BaseContract {
       _commitmentDuration: BigNumberish,
       _eventDuration: BigNumberish,
       _priceOracle: AddressLike,
-      _targetAsset: BigNumberish,
-      _targetPrice: BigNumberish
+      _targetAsset: BytesLike,
+      _targetPrice: BigNumberish,
+      _outcomeLabels: string[],
+      _bucketBoundaries: BigNumberish[],
+      _refundGracePeriod: BigNumberish,
+      _creatorFeeBps: BigNumberish,
+      _exitPenaltyBps: BigNumberish,
+      _collateralToken: AddressLike,
+      _confidentialToken: AddressLike,
+      _twapWindow: BigNumberish
     ],
     [string],
     "nonpayable"
@@ -406,6 +551,9 @@ export interface MarketFactory extends BaseContract {
   getFunction(
     nameOrSignature: "isValidMarket"
   ): TypedContractMethod<[marketAddress: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "marketDeployer"
+  ): TypedContractMethod<[], [string], "view">;
   getFunction(
     nameOrSignature: "marketInfo"
   ): TypedContractMethod<
@@ -427,6 +575,19 @@ export interface MarketFactory extends BaseContract {
   getFunction(
     nameOrSignature: "markets"
   ): TypedContractMethod<[arg0: BigNumberish], [string], "view">;
+  getFunction(
+    nameOrSignature: "protocolFeeBps"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "protocolFeeRecipient"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "setProtocolFee"
+  ): TypedContractMethod<
+    [_feeBps: BigNumberish, _recipient: AddressLike],
+    [void],
+    "nonpayable"
+  >;
 
   getEvent(
     key: "MarketCreated"
@@ -435,6 +596,13 @@ export interface MarketFactory extends BaseContract {
     MarketCreatedEvent.OutputTuple,
     MarketCreatedEvent.OutputObject
   >;
+  getEvent(
+    key: "ProtocolFeeUpdated"
+  ): TypedContractEvent<
+    ProtocolFeeUpdatedEvent.InputTuple,
+    ProtocolFeeUpdatedEvent.OutputTuple,
+    ProtocolFeeUpdatedEvent.OutputObject
+  >;
 
   filters: {
     "MarketCreated(address,address,string,uint8,uint256,uint256,uint256)": TypedContractEvent<
@@ -447,5 +615,16 @@ export interface MarketFactory extends BaseContract {
       MarketCreatedEvent.OutputTuple,
       MarketCreatedEvent.OutputObject
     >;
+
+    "ProtocolFeeUpdated(uint16,address)": TypedContractEvent<
+      ProtocolFeeUpdatedEvent.InputTuple,
+      ProtocolFeeUpdatedEvent.OutputTuple,
+      ProtocolFeeUpdatedEvent.OutputObject
+    >;
+    ProtocolFeeUpdated: TypedContractEvent<
+      ProtocolFeeUpdatedEvent.InputTuple,
+      ProtocolFeeUpdatedEvent.OutputTuple,
+      ProtocolFeeUpdatedEvent.OutputObject
+    >;
   };
 }
@@ -23,83 +23,324 @@ import type {
   TypedContractMethod,
 } from "../common";
 
+export declare namespace PriceOracle {
+  export type ReportStruct = {
+    price: BigNumberish;
+    timestamp: BigNumberish;
+    updater: AddressLike;
+  };
+
+  export type ReportStructOutput = [
+    price: bigint,
+    timestamp: bigint,
+    updater: string
+  ] & { price: bigint; timestamp: bigint; updater: string };
+}
+
 export interface PriceOracleInterface extends Interface {
   getFunction(
     nameOrSignature:
+      | "DOMAIN_TYPEHASH"
       | "MAX_PRICE_AGE"
+      | "MAX_QUORUM"
+      | "PRICE_HISTORY_SIZE"
+      | "PRICE_REPORT_TYPEHASH"
+      | "REPORT_TIMEOUT"
+      | "addSigner"
       | "addUpdater"
+      | "assetRegistry"
+      | "changeWindow"
+      | "confirmPrice"
+      | "decimals"
+      | "findRoundAt"
+      | "getPendingReports"
       | "getPrice"
+      | "getPriceAt"
       | "getPriceUnsafe"
+      | "getPriceWithMetadata"
+      | "getSettlementPrice"
+      | "getTwap"
+      | "hasReported"
+      | "hashPriceReport"
+      | "isAssetSupported"
       | "isPriceAboveTarget"
       | "isPriceFresh"
+      | "isSigner"
       | "isUpdater"
+      | "maxDeviationBps"
+      | "maxUpdateChangeBps"
+      | "maxWindowChangeBps"
       | "owner"
+      | "priceHistoryCount"
       | "prices"
+      | "quarantinedPrices"
+      | "quarantinedSince"
+      | "quorum"
+      | "rejectPrice"
+      | "removeSigner"
       | "removeUpdater"
+      | "setCircuitBreaker"
+      | "setQuorum"
+      | "supportsInterface"
       | "updatePrice"
       | "updatePrices"
+      | "verifyReportAt"
   ): FunctionFragment;
 
   getEvent(
-    nameOrSignatureOrTopic: "PriceUpdated" | "UpdaterAdded" | "UpdaterRemoved"
+    nameOrSignatureOrTopic:
+      | "CircuitBreakerUpdated"
+      | "OutlierReported"
+      | "PriceConfirmed"
+      | "PriceQuarantined"
+      | "PriceRejected"
+      | "PriceReported"
+      | "PriceUpdated"
+      | "QuorumUpdated"
+      | "ReportsExpired"
+      | "SignerAdded"
+      | "SignerRemoved"
+      | "UpdaterAdded"
+      | "UpdaterRemoved"
   ): EventFragment;
 
+  encodeFunctionData(
+    functionFragment: "DOMAIN_TYPEHASH",
+    values?: undefined
+  ): string;
   encodeFunctionData(
     functionFragment: "MAX_PRICE_AGE",
     values?: undefined
   ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_QUORUM",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "PRICE_HISTORY_SIZE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "PRICE_REPORT_TYPEHASH",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "REPORT_TIMEOUT",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "addSigner",
+    values: [AddressLike]
+  ): string;
   encodeFunctionData(
     functionFragment: "addUpdater",
     values: [AddressLike]
   ): string;
   encodeFunctionData(
-    functionFragment: "getPrice",
-    values: [BigNumberish]
+    functionFragment: "assetRegistry",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "changeWindow",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "confirmPrice",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(functionFragment: "decimals", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "findRoundAt",
+    values: [BytesLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getPendingReports",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(functionFragment: "getPrice", values: [BytesLike]): string;
+  encodeFunctionData(
+    functionFragment: "getPriceAt",
+    values: [BytesLike, BigNumberish, BigNumberish]
   ): string;
   encodeFunctionData(
     functionFragment: "getPriceUnsafe",
-    values: [BigNumberish]
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getPriceWithMetadata",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getSettlementPrice",
+    values: [BytesLike, BigNumberish, BigNumberish, BigNumberish, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getTwap",
+    values: [BytesLike, BigNumberish, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "hasReported",
+    values: [BytesLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "hashPriceReport",
+    values: [BytesLike, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isAssetSupported",
+    values: [BytesLike]
   ): string;
   encodeFunctionData(
     functionFragment: "isPriceAboveTarget",
-    values: [BigNumberish, BigNumberish]
+    values: [BytesLike, BigNumberish]
   ): string;
   encodeFunctionData(
     functionFragment: "isPriceFresh",
-    values: [BigNumberish]
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isSigner",
+    values: [AddressLike]
   ): string;
   encodeFunctionData(
     functionFragment: "isUpdater",
     values: [AddressLike]
   ): string;
+  encodeFunctionData(
+    functionFragment: "maxDeviationBps",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "maxUpdateChangeBps",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "maxWindowChangeBps",
+    values?: undefined
+  ): string;
   encodeFunctionData(functionFragment: "owner", values?: undefined): string;
   encodeFunctionData(
-    functionFragment: "prices",
-    values: [BigNumberish]
+    functionFragment: "priceHistoryCount",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(functionFragment: "prices", values: [BytesLike]): string;
+  encodeFunctionData(
+    functionFragment: "quarantinedPrices",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "quarantinedSince",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(functionFragment: "quorum", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "rejectPrice",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "removeSigner",
+    values: [AddressLike]
   ): string;
   encodeFunctionData(
     functionFragment: "removeUpdater",
     values: [AddressLike]
   ): string;
   encodeFunctionData(
-    functionFragment: "updatePrice",
+    functionFragment: "setCircuitBreaker",
+    values: [BigNumberish, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setQuorum",
     values: [BigNumberish, BigNumberish]
   ): string;
+  encodeFunctionData(
+    functionFragment: "supportsInterface",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "updatePrice",
+    values: [BytesLike, BigNumberish]
+  ): string;
   encodeFunctionData(
     functionFragment: "updatePrices",
-    values: [BigNumberish[], BigNumberish[]]
+    values: [BytesLike[], BigNumberish[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "verifyReportAt",
+    values: [BytesLike, BigNumberish, BytesLike]
   ): string;
 
+  decodeFunctionResult(
+    functionFragment: "DOMAIN_TYPEHASH",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "MAX_PRICE_AGE",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(functionFragment: "MAX_QUORUM", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "PRICE_HISTORY_SIZE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "PRICE_REPORT_TYPEHASH",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "REPORT_TIMEOUT",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "addSigner", data: BytesLike): Result;
   decodeFunctionResult(functionFragment: "addUpdater", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "assetRegistry",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "changeWindow",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "confirmPrice",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "decimals", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "findRoundAt",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getPendingReports",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(functionFragment: "getPrice", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "getPriceAt", data: BytesLike): Result;
   decodeFunctionResult(
     functionFragment: "getPriceUnsafe",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "getPriceWithMetadata",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getSettlementPrice",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "getTwap", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "hasReported",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "hashPriceReport",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "isAssetSupported",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "isPriceAboveTarget",
     data: BytesLike
@@ -108,13 +349,56 @@ export interface PriceOracleInterface extends Interface {
     functionFragment: "isPriceFresh",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(functionFragment: "isSigner", data: BytesLike): Result;
   decodeFunctionResult(functionFragment: "isUpdater", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "maxDeviationBps",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "maxUpdateChangeBps",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "maxWindowChangeBps",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(functionFragment: "owner", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "priceHistoryCount",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(functionFragment: "prices", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "quarantinedPrices",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "quarantinedSince",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "quorum", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "rejectPrice",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "removeSigner",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "removeUpdater",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "setCircuitBreaker",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "setQuorum", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "supportsInterface",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "updatePrice",
     data: BytesLike
@@ -123,26 +407,224 @@ export interface PriceOracleInterface extends Interface {
     functionFragment: "updatePrices",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "verifyReportAt",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace CircuitBreakerUpdatedEvent {
+  export type InputTuple = [
+    maxUpdateChangeBps: BigNumberish,
+    maxWindowChangeBps: BigNumberish,
+    changeWindow: BigNumberish
+  ];
+  export type OutputTuple = [
+    maxUpdateChangeBps: bigint,
+    maxWindowChangeBps: bigint,
+    changeWindow: bigint
+  ];
+  export interface OutputObject {
+    maxUpdateChangeBps: bigint;
+    maxWindowChangeBps: bigint;
+    changeWindow: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OutlierReportedEvent {
+  export type InputTuple = [
+    asset: BytesLike,
+    round: BigNumberish,
+    updater: AddressLike,
+    price: BigNumberish,
+    median: BigNumberish
+  ];
+  export type OutputTuple = [
+    asset: string,
+    round: bigint,
+    updater: string,
+    price: bigint,
+    median: bigint
+  ];
+  export interface OutputObject {
+    asset: string;
+    round: bigint;
+    updater: string;
+    price: bigint;
+    median: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PriceConfirmedEvent {
+  export type InputTuple = [
+    asset: BytesLike,
+    price: BigNumberish,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [asset: string, price: bigint, timestamp: bigint];
+  export interface OutputObject {
+    asset: string;
+    price: bigint;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PriceQuarantinedEvent {
+  export type InputTuple = [
+    asset: BytesLike,
+    price: BigNumberish,
+    timestamp: BigNumberish,
+    updater: AddressLike
+  ];
+  export type OutputTuple = [
+    asset: string,
+    price: bigint,
+    timestamp: bigint,
+    updater: string
+  ];
+  export interface OutputObject {
+    asset: string;
+    price: bigint;
+    timestamp: bigint;
+    updater: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PriceRejectedEvent {
+  export type InputTuple = [
+    asset: BytesLike,
+    price: BigNumberish,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [asset: string, price: bigint, timestamp: bigint];
+  export interface OutputObject {
+    asset: string;
+    price: bigint;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PriceReportedEvent {
+  export type InputTuple = [
+    asset: BytesLike,
+    round: BigNumberish,
+    updater: AddressLike,
+    price: BigNumberish
+  ];
+  export type OutputTuple = [
+    asset: string,
+    round: bigint,
+    updater: string,
+    price: bigint
+  ];
+  export interface OutputObject {
+    asset: string;
+    round: bigint;
+    updater: string;
+    price: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
 }
 
 export namespace PriceUpdatedEvent {
   export type InputTuple = [
-    asset: BigNumberish,
+    asset: BytesLike,
     price: BigNumberish,
     timestamp: BigNumberish,
     updater: AddressLike
   ];
   export type OutputTuple = [
-    asset: bigint,
+    asset: string,
     price: bigint,
     timestamp: bigint,
     updater: string
   ];
   export interface OutputObject {
-    asset: bigint;
-    price: bigint;
-    timestamp: bigint;
-    updater: string;
+    asset: string;
+    price: bigint;
+    timestamp: bigint;
+    updater: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace QuorumUpdatedEvent {
+  export type InputTuple = [
+    quorum: BigNumberish,
+    maxDeviationBps: BigNumberish
+  ];
+  export type OutputTuple = [quorum: bigint, maxDeviationBps: bigint];
+  export interface OutputObject {
+    quorum: bigint;
+    maxDeviationBps: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ReportsExpiredEvent {
+  export type InputTuple = [
+    asset: BytesLike,
+    round: BigNumberish,
+    reportCount: BigNumberish
+  ];
+  export type OutputTuple = [asset: string, round: bigint, reportCount: bigint];
+  export interface OutputObject {
+    asset: string;
+    round: bigint;
+    reportCount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SignerAddedEvent {
+  export type InputTuple = [signer: AddressLike];
+  export type OutputTuple = [signer: string];
+  export interface OutputObject {
+    signer: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SignerRemovedEvent {
+  export type InputTuple = [signer: AddressLike];
+  export type OutputTuple = [signer: string];
+  export interface OutputObject {
+    signer: string;
   }
   export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
   export type Filter = TypedDeferredTopicFilter<Event>;
@@ -217,36 +699,146 @@ export interface PriceOracle extends BaseContract {
     event?: TCEvent
   ): Promise<this>;
 
+  DOMAIN_TYPEHASH: TypedContractMethod<[], [string], "view">;
+
   MAX_PRICE_AGE: TypedContractMethod<[], [bigint], "view">;
 
+  MAX_QUORUM: TypedContractMethod<[], [bigint], "view">;
+
+  PRICE_HISTORY_SIZE: TypedContractMethod<[], [bigint], "view">;
+
+  PRICE_REPORT_TYPEHASH: TypedContractMethod<[], [string], "view">;
+
+  REPORT_TIMEOUT: TypedContractMethod<[], [bigint], "view">;
+
+  addSigner: TypedContractMethod<[signer: AddressLike], [void], "nonpayable">;
+
   addUpdater: TypedContractMethod<[updater: AddressLike], [void], "nonpayable">;
 
+  assetRegistry: TypedContractMethod<[], [string], "view">;
+
+  changeWindow: TypedContractMethod<[], [bigint], "view">;
+
+  confirmPrice: TypedContractMethod<[asset: BytesLike], [void], "nonpayable">;
+
+  decimals: TypedContractMethod<[], [bigint], "view">;
+
+  findRoundAt: TypedContractMethod<
+    [asset: BytesLike, timestamp: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  getPendingReports: TypedContractMethod<
+    [asset: BytesLike],
+    [PriceOracle.ReportStructOutput[]],
+    "view"
+  >;
+
   getPrice: TypedContractMethod<
-    [asset: BigNumberish],
+    [asset: BytesLike],
     [[bigint, bigint] & { price: bigint; timestamp: bigint }],
     "view"
   >;
 
+  getPriceAt: TypedContractMethod<
+    [asset: BytesLike, timestamp: BigNumberish, roundHint: BigNumberish],
+    [[bigint, bigint] & { price: bigint; updatedAt: bigint }],
+    "view"
+  >;
+
   getPriceUnsafe: TypedContractMethod<
-    [asset: BigNumberish],
+    [asset: BytesLike],
     [[bigint, bigint] & { price: bigint; timestamp: bigint }],
     "view"
   >;
 
+  getPriceWithMetadata: TypedContractMethod<
+    [asset: BytesLike],
+    [
+      [bigint, bigint, bigint, string] & {
+        price: bigint;
+        timestamp: bigint;
+        priceDecimals: bigint;
+        description: string;
+      }
+    ],
+    "view"
+  >;
+
+  getSettlementPrice: TypedContractMethod<
+    [
+      asset: BytesLike,
+      endTime: BigNumberish,
+      window: BigNumberish,
+      roundHint: BigNumberish,
+      report: BytesLike
+    ],
+    [[bigint, string] & { price: bigint; source: string }],
+    "view"
+  >;
+
+  getTwap: TypedContractMethod<
+    [
+      asset: BytesLike,
+      endTime: BigNumberish,
+      window: BigNumberish,
+      roundHint: BigNumberish
+    ],
+    [bigint],
+    "view"
+  >;
+
+  hasReported: TypedContractMethod<
+    [asset: BytesLike, updater: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  hashPriceReport: TypedContractMethod<
+    [asset: BytesLike, price: BigNumberish, timestamp: BigNumberish],
+    [string],
+    "view"
+  >;
+
+  isAssetSupported: TypedContractMethod<[asset: BytesLike], [boolean], "view">;
+
   isPriceAboveTarget: TypedContractMethod<
-    [asset: BigNumberish, targetPrice: BigNumberish],
+    [asset: BytesLike, targetPrice: BigNumberish],
     [boolean],
     "view"
   >;
 
-  isPriceFresh: TypedContractMethod<[asset: BigNumberish], [boolean], "view">;
+  isPriceFresh: TypedContractMethod<[asset: BytesLike], [boolean], "view">;
+
+  isSigner: TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
 
   isUpdater: TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
 
+  maxDeviationBps: TypedContractMethod<[], [bigint], "view">;
+
+  maxUpdateChangeBps: TypedContractMethod<[], [bigint], "view">;
+
+  maxWindowChangeBps: TypedContractMethod<[], [bigint], "view">;
+
   owner: TypedContractMethod<[], [string], "view">;
 
+  priceHistoryCount: TypedContractMethod<[arg0: BytesLike], [bigint], "view">;
+
   prices: TypedContractMethod<
-    [arg0: BigNumberish],
+    [arg0: BytesLike],
+    [
+      [bigint, bigint, string] & {
+        price: bigint;
+        timestamp: bigint;
+        updater: string;
+      }
+    ],
+    "view"
+  >;
+
+  quarantinedPrices: TypedContractMethod<
+    [arg0: BytesLike],
     [
       [bigint, bigint, string] & {
         price: bigint;
@@ -257,68 +849,243 @@ export interface PriceOracle extends BaseContract {
     "view"
   >;
 
+  quarantinedSince: TypedContractMethod<[arg0: BytesLike], [bigint], "view">;
+
+  quorum: TypedContractMethod<[], [bigint], "view">;
+
+  rejectPrice: TypedContractMethod<[asset: BytesLike], [void], "nonpayable">;
+
+  removeSigner: TypedContractMethod<
+    [signer: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
   removeUpdater: TypedContractMethod<
     [updater: AddressLike],
     [void],
     "nonpayable"
   >;
 
+  setCircuitBreaker: TypedContractMethod<
+    [
+      _maxUpdateChangeBps: BigNumberish,
+      _maxWindowChangeBps: BigNumberish,
+      _changeWindow: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  setQuorum: TypedContractMethod<
+    [_quorum: BigNumberish, _maxDeviationBps: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  supportsInterface: TypedContractMethod<
+    [interfaceId: BytesLike],
+    [boolean],
+    "view"
+  >;
+
   updatePrice: TypedContractMethod<
-    [asset: BigNumberish, price: BigNumberish],
+    [asset: BytesLike, price: BigNumberish],
     [void],
     "nonpayable"
   >;
 
   updatePrices: TypedContractMethod<
-    [assets: BigNumberish[], newPrices: BigNumberish[]],
+    [assets: BytesLike[], newPrices: BigNumberish[]],
     [void],
     "nonpayable"
   >;
 
+  verifyReportAt: TypedContractMethod<
+    [asset: BytesLike, timestamp: BigNumberish, report: BytesLike],
+    [bigint],
+    "view"
+  >;
+
   getFunction<T extends ContractMethod = ContractMethod>(
     key: string | FunctionFragment
   ): T;
 
+  getFunction(
+    nameOrSignature: "DOMAIN_TYPEHASH"
+  ): TypedContractMethod<[], [string], "view">;
   getFunction(
     nameOrSignature: "MAX_PRICE_AGE"
   ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_QUORUM"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "PRICE_HISTORY_SIZE"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "PRICE_REPORT_TYPEHASH"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "REPORT_TIMEOUT"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "addSigner"
+  ): TypedContractMethod<[signer: AddressLike], [void], "nonpayable">;
   getFunction(
     nameOrSignature: "addUpdater"
   ): TypedContractMethod<[updater: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "assetRegistry"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "changeWindow"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "confirmPrice"
+  ): TypedContractMethod<[asset: BytesLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "decimals"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "findRoundAt"
+  ): TypedContractMethod<
+    [asset: BytesLike, timestamp: BigNumberish],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getPendingReports"
+  ): TypedContractMethod<
+    [asset: BytesLike],
+    [PriceOracle.ReportStructOutput[]],
+    "view"
+  >;
   getFunction(
     nameOrSignature: "getPrice"
   ): TypedContractMethod<
-    [asset: BigNumberish],
+    [asset: BytesLike],
     [[bigint, bigint] & { price: bigint; timestamp: bigint }],
     "view"
   >;
+  getFunction(
+    nameOrSignature: "getPriceAt"
+  ): TypedContractMethod<
+    [asset: BytesLike, timestamp: BigNumberish, roundHint: BigNumberish],
+    [[bigint, bigint] & { price: bigint; updatedAt: bigint }],
+    "view"
+  >;
   getFunction(
     nameOrSignature: "getPriceUnsafe"
   ): TypedContractMethod<
-    [asset: BigNumberish],
+    [asset: BytesLike],
     [[bigint, bigint] & { price: bigint; timestamp: bigint }],
     "view"
   >;
+  getFunction(
+    nameOrSignature: "getPriceWithMetadata"
+  ): TypedContractMethod<
+    [asset: BytesLike],
+    [
+      [bigint, bigint, bigint, string] & {
+        price: bigint;
+        timestamp: bigint;
+        priceDecimals: bigint;
+        description: string;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getSettlementPrice"
+  ): TypedContractMethod<
+    [
+      asset: BytesLike,
+      endTime: BigNumberish,
+      window: BigNumberish,
+      roundHint: BigNumberish,
+      report: BytesLike
+    ],
+    [[bigint, string] & { price: bigint; source: string }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getTwap"
+  ): TypedContractMethod<
+    [
+      asset: BytesLike,
+      endTime: BigNumberish,
+      window: BigNumberish,
+      roundHint: BigNumberish
+    ],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "hasReported"
+  ): TypedContractMethod<
+    [asset: BytesLike, updater: AddressLike],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "hashPriceReport"
+  ): TypedContractMethod<
+    [asset: BytesLike, price: BigNumberish, timestamp: BigNumberish],
+    [string],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "isAssetSupported"
+  ): TypedContractMethod<[asset: BytesLike], [boolean], "view">;
   getFunction(
     nameOrSignature: "isPriceAboveTarget"
   ): TypedContractMethod<
-    [asset: BigNumberish, targetPrice: BigNumberish],
+    [asset: BytesLike, targetPrice: BigNumberish],
     [boolean],
     "view"
   >;
   getFunction(
     nameOrSignature: "isPriceFresh"
-  ): TypedContractMethod<[asset: BigNumberish], [boolean], "view">;
+  ): TypedContractMethod<[asset: BytesLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "isSigner"
+  ): TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
   getFunction(
     nameOrSignature: "isUpdater"
   ): TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "maxDeviationBps"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "maxUpdateChangeBps"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "maxWindowChangeBps"
+  ): TypedContractMethod<[], [bigint], "view">;
   getFunction(
     nameOrSignature: "owner"
   ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "priceHistoryCount"
+  ): TypedContractMethod<[arg0: BytesLike], [bigint], "view">;
   getFunction(
     nameOrSignature: "prices"
   ): TypedContractMethod<
-    [arg0: BigNumberish],
+    [arg0: BytesLike],
+    [
+      [bigint, bigint, string] & {
+        price: bigint;
+        timestamp: bigint;
+        updater: string;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "quarantinedPrices"
+  ): TypedContractMethod<
+    [arg0: BytesLike],
     [
       [bigint, bigint, string] & {
         price: bigint;
@@ -328,24 +1095,106 @@ export interface PriceOracle extends BaseContract {
     ],
     "view"
   >;
+  getFunction(
+    nameOrSignature: "quarantinedSince"
+  ): TypedContractMethod<[arg0: BytesLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "quorum"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "rejectPrice"
+  ): TypedContractMethod<[asset: BytesLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "removeSigner"
+  ): TypedContractMethod<[signer: AddressLike], [void], "nonpayable">;
   getFunction(
     nameOrSignature: "removeUpdater"
   ): TypedContractMethod<[updater: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setCircuitBreaker"
+  ): TypedContractMethod<
+    [
+      _maxUpdateChangeBps: BigNumberish,
+      _maxWindowChangeBps: BigNumberish,
+      _changeWindow: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setQuorum"
+  ): TypedContractMethod<
+    [_quorum: BigNumberish, _maxDeviationBps: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "supportsInterface"
+  ): TypedContractMethod<[interfaceId: BytesLike], [boolean], "view">;
   getFunction(
     nameOrSignature: "updatePrice"
   ): TypedContractMethod<
-    [asset: BigNumberish, price: BigNumberish],
+    [asset: BytesLike, price: BigNumberish],
     [void],
     "nonpayable"
   >;
   getFunction(
     nameOrSignature: "updatePrices"
   ): TypedContractMethod<
-    [assets: BigNumberish[], newPrices: BigNumberish[]],
+    [assets: BytesLike[], newPrices: BigNumberish[]],
     [void],
     "nonpayable"
   >;
+  getFunction(
+    nameOrSignature: "verifyReportAt"
+  ): TypedContractMethod<
+    [asset: BytesLike, timestamp: BigNumberish, report: BytesLike],
+    [bigint],
+    "view"
+  >;
 
+  getEvent(
+    key: "CircuitBreakerUpdated"
+  ): TypedContractEvent<
+    CircuitBreakerUpdatedEvent.InputTuple,
+    CircuitBreakerUpdatedEvent.OutputTuple,
+    CircuitBreakerUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "OutlierReported"
+  ): TypedContractEvent<
+    OutlierReportedEvent.InputTuple,
+    OutlierReportedEvent.OutputTuple,
+    OutlierReportedEvent.OutputObject
+  >;
+  getEvent(
+    key: "PriceConfirmed"
+  ): TypedContractEvent<
+    PriceConfirmedEvent.InputTuple,
+    PriceConfirmedEvent.OutputTuple,
+    PriceConfirmedEvent.OutputObject
+  >;
+  getEvent(
+    key: "PriceQuarantined"
+  ): TypedContractEvent<
+    PriceQuarantinedEvent.InputTuple,
+    PriceQuarantinedEvent.OutputTuple,
+    PriceQuarantinedEvent.OutputObject
+  >;
+  getEvent(
+    key: "PriceRejected"
+  ): TypedContractEvent<
+    PriceRejectedEvent.InputTuple,
+    PriceRejectedEvent.OutputTuple,
+    PriceRejectedEvent.OutputObject
+  >;
+  getEvent(
+    key: "PriceReported"
+  ): TypedContractEvent<
+    PriceReportedEvent.InputTuple,
+    PriceReportedEvent.OutputTuple,
+    PriceReportedEvent.OutputObject
+  >;
   getEvent(
     key: "PriceUpdated"
   ): TypedContractEvent<
@@ -353,6 +1202,34 @@ export interface PriceOracle extends BaseContract {
     PriceUpdatedEvent.OutputTuple,
     PriceUpdatedEvent.OutputObject
   >;
+  getEvent(
+    key: "QuorumUpdated"
+  ): TypedContractEvent<
+    QuorumUpdatedEvent.InputTuple,
+    QuorumUpdatedEvent.OutputTuple,
+    QuorumUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ReportsExpired"
+  ): TypedContractEvent<
+    ReportsExpiredEvent.InputTuple,
+    ReportsExpiredEvent.OutputTuple,
+    ReportsExpiredEvent.OutputObject
+  >;
+  getEvent(
+    key: "SignerAdded"
+  ): TypedContractEvent<
+    SignerAddedEvent.InputTuple,
+    SignerAddedEvent.OutputTuple,
+    SignerAddedEvent.OutputObject
+  >;
+  getEvent(
+    key: "SignerRemoved"
+  ): TypedContractEvent<
+    SignerRemovedEvent.InputTuple,
+    SignerRemovedEvent.OutputTuple,
+    SignerRemovedEvent.OutputObject
+  >;
   getEvent(
     key: "UpdaterAdded"
   ): TypedContractEvent<
@@ -369,7 +1246,73 @@ export interface PriceOracle extends BaseContract {
   >;
 
   filters: {
-    "PriceUpdated(uint8,uint256,uint256,address)": TypedContractEvent<
+    "CircuitBreakerUpdated(uint256,uint256,uint256)": TypedContractEvent<
+      CircuitBreakerUpdatedEvent.InputTuple,
+      CircuitBreakerUpdatedEvent.OutputTuple,
+      CircuitBreakerUpdatedEvent.OutputObject
+    >;
+    CircuitBreakerUpdated: TypedContractEvent<
+      CircuitBreakerUpdatedEvent.InputTuple,
+      CircuitBreakerUpdatedEvent.OutputTuple,
+      CircuitBreakerUpdatedEvent.OutputObject
+    >;
+
+    "OutlierReported(bytes32,uint256,address,uint256,uint256)": TypedContractEvent<
+      OutlierReportedEvent.InputTuple,
+      OutlierReportedEvent.OutputTuple,
+      OutlierReportedEvent.OutputObject
+    >;
+    OutlierReported: TypedContractEvent<
+      OutlierReportedEvent.InputTuple,
+      OutlierReportedEvent.OutputTuple,
+      OutlierReportedEvent.OutputObject
+    >;
+
+    "PriceConfirmed(bytes32,uint256,uint256)": TypedContractEvent<
+      PriceConfirmedEvent.InputTuple,
+      PriceConfirmedEvent.OutputTuple,
+      PriceConfirmedEvent.OutputObject
+    >;
+    PriceConfirmed: TypedContractEvent<
+      PriceConfirmedEvent.InputTuple,
+      PriceConfirmedEvent.OutputTuple,
+      PriceConfirmedEvent.OutputObject
+    >;
+
+    "PriceQuarantined(bytes32,uint256,uint256,address)": TypedContractEvent<
+      PriceQuarantinedEvent.InputTuple,
+      PriceQuarantinedEvent.OutputTuple,
+      PriceQuarantinedEvent.OutputObject
+    >;
+    PriceQuarantined: TypedContractEvent<
+      PriceQuarantinedEvent.InputTuple,
+      PriceQuarantinedEvent.OutputTuple,
+      PriceQuarantinedEvent.OutputObject
+    >;
+
+    "PriceRejected(bytes32,uint256,uint256)": TypedContractEvent<
+      PriceRejectedEvent.InputTuple,
+      PriceRejectedEvent.OutputTuple,
+      PriceRejectedEvent.OutputObject
+    >;
+    PriceRejected: TypedContractEvent<
+      PriceRejectedEvent.InputTuple,
+      PriceRejectedEvent.OutputTuple,
+      PriceRejectedEvent.OutputObject
+    >;
+
+    "PriceReported(bytes32,uint256,address,uint256)": TypedContractEvent<
+      PriceReportedEvent.InputTuple,
+      PriceReportedEvent.OutputTuple,
+      PriceReportedEvent.OutputObject
+    >;
+    PriceReported: TypedContractEvent<
+      PriceReportedEvent.InputTuple,
+      PriceReportedEvent.OutputTuple,
+      PriceReportedEvent.OutputObject
+    >;
+
+    "PriceUpdated(bytes32,uint256,uint256,address)": TypedContractEvent<
       PriceUpdatedEvent.InputTuple,
       PriceUpdatedEvent.OutputTuple,
       PriceUpdatedEvent.OutputObject
@@ -380,6 +1323,50 @@ export interface PriceOracle extends BaseContract {
       PriceUpdatedEvent.OutputObject
     >;
 
+    "QuorumUpdated(uint256,uint256)": TypedContractEvent<
+      QuorumUpdatedEvent.InputTuple,
+      QuorumUpdatedEvent.OutputTuple,
+      QuorumUpdatedEvent.OutputObject
+    >;
+    QuorumUpdated: TypedContractEvent<
+      QuorumUpdatedEvent.InputTuple,
+      QuorumUpdatedEvent.OutputTuple,
+      QuorumUpdatedEvent.OutputObject
+    >;
+
+    "ReportsExpired(bytes32,uint256,uint256)": TypedContractEvent<
+      ReportsExpiredEvent.InputTuple,
+      ReportsExpiredEvent.OutputTuple,
+      ReportsExpiredEvent.OutputObject
+    >;
+    ReportsExpired: TypedContractEvent<
+      ReportsExpiredEvent.InputTuple,
+      ReportsExpiredEvent.OutputTuple,
+      ReportsExpiredEvent.OutputObject
+    >;
+
+    "SignerAdded(address)": TypedContractEvent<
+      SignerAddedEvent.InputTuple,
+      SignerAddedEvent.OutputTuple,
+      SignerAddedEvent.OutputObject
+    >;
+    SignerAdded: TypedContractEvent<
+      SignerAddedEvent.InputTuple,
+      SignerAddedEvent.OutputTuple,
+      SignerAddedEvent.OutputObject
+    >;
+
+    "SignerRemoved(address)": TypedContractEvent<
+      SignerRemovedEvent.InputTuple,
+      SignerRemovedEvent.OutputTuple,
+      SignerRemovedEvent.OutputObject
+    >;
+    SignerRemoved: TypedContractEvent<
+      SignerRemovedEvent.InputTuple,
+      SignerRemovedEvent.OutputTuple,
+      SignerRemovedEvent.OutputObject
+    >;
+
     "UpdaterAdded(address)": TypedContractEvent<
       UpdaterAddedEvent.InputTuple,
       UpdaterAddedEvent.OutputTuple,
@@ -3,7 +3,13 @@
 /* eslint-disable */
 import type * as mocks from "./mocks";
 export type { mocks };
+export type { AssetRegistry } from "./AssetRegistry";
 export type { BlindOracle } from "./BlindOracle";
 export type { ChainlinkPriceOracle } from "./ChainlinkPriceOracle";
+export type { CommitIntent } from "./CommitIntent";
+export type { FallbackPriceOracle } from "./FallbackPriceOracle";
+export type { IConfidentialFungibleToken } from "./IConfidentialFungibleToken";
+export type { IPriceOracle } from "./IPriceOracle";
+export type { MarketDeployer } from "./MarketDeployer";
 export type { MarketFactory } from "./MarketFactory";
 export type { PriceOracle } from "./PriceOracle";
@@ -2,3 +2,5 @@
 /* tslint:disable */
 /* eslint-disable */
 export type { MockChainlinkAggregator } from "./MockChainlinkAggregator";
+export type { MockConfidentialToken } from "./MockConfidentialToken";
+export type { MockERC20Permit } from "./MockERC20Permit";
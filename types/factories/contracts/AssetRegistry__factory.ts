@@ -0,0 +1,376 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type {
+  AssetRegistry,
+  AssetRegistryInterface,
+} from "../../contracts/AssetRegistry";
+
+const _abi = [
+  {
+    inputs: [],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "assetId",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "symbol",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "feed",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint8",
+        name: "decimals",
+        type: "uint8",
+      },
+    ],
+    name: "AssetAdded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "assetId",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "feed",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint8",
+        name: "decimals",
+        type: "uint8",
+      },
+    ],
+    name: "AssetFeedUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "previousOwner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "OwnershipTransferred",
+    type: "event",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "symbol",
+        type: "string",
+      },
+      {
+        internalType: "address",
+        name: "feed",
+        type: "address",
+      },
+      {
+        internalType: "uint8",
+        name: "feedDecimals",
+        type: "uint8",
+      },
+    ],
+    name: "addAsset",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "assetId",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "assetId",
+        type: "bytes32",
+      },
+    ],
+    name: "getAsset",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "bytes32",
+            name: "id",
+            type: "bytes32",
+          },
+          {
+            internalType: "string",
+            name: "symbol",
+            type: "string",
+          },
+          {
+            internalType: "address",
+            name: "feed",
+            type: "address",
+          },
+          {
+            internalType: "uint8",
+            name: "decimals",
+            type: "uint8",
+          },
+        ],
+        internalType: "struct AssetRegistry.AssetInfo",
+        name: "info",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getAssetCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getAssets",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "bytes32",
+            name: "id",
+            type: "bytes32",
+          },
+          {
+            internalType: "string",
+            name: "symbol",
+            type: "string",
+          },
+          {
+            internalType: "address",
+            name: "feed",
+            type: "address",
+          },
+          {
+            internalType: "uint8",
+            name: "decimals",
+            type: "uint8",
+          },
+        ],
+        internalType: "struct AssetRegistry.AssetInfo[]",
+        name: "",
+        type: "tuple[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "assetId",
+        type: "bytes32",
+      },
+    ],
+    name: "getFeed",
+    outputs: [
+      {
+        internalType: "address",
+        name: "feed",
+        type: "address",
+      },
+      {
+        internalType: "uint8",
+        name: "feedDecimals",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "assetId",
+        type: "bytes32",
+      },
+    ],
+    name: "isListed",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "owner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "assetId",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "feed",
+        type: "address",
+      },
+      {
+        internalType: "uint8",
+        name: "feedDecimals",
+        type: "uint8",
+      },
+    ],
+    name: "setFeed",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "symbol",
+        type: "string",
+      },
+    ],
+    name: "toAssetId",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "transferOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x6080604052348015600e575f5ffd5b50600280546001600160a01b03191633179055610e5b8061002e5f395ff3fe608060405234801561000f575f5ffd5b50600436106100b9575f3560e01c80638da5cb5b11610072578063bbcae23a11610058578063bbcae23a146101b7578063ecefbdc6146101cc578063f2fde38b146101fd575f5ffd5b80638da5cb5b14610184578063a0aead4d146101af575f5ffd5b80632cc3ce80116100a25780632cc3ce801461013c57806367e4ac2c1461015c5780637d22ab0514610171575f5ffd5b8063246655e7146100bd578063280aebcf146100e3575b5f5ffd5b6100d06100cb366004610aa6565b610210565b6040519081526020015b60405180910390f35b61011b6100f1366004610b07565b5f908152602081905260409020600201546001600160a01b03811691600160a01b90910460ff1690565b604080516001600160a01b03909316835260ff9091166020830152016100da565b61014f61014a366004610b07565b610456565b6040516100da9190610b80565b6101646105a7565b6040516100da9190610b92565b6100d061017f366004610bf5565b61075c565b600254610197906001600160a01b031681565b6040516001600160a01b0390911681526020016100da565b6001546100d0565b6101ca6101c5366004610c34565b6107cb565b005b6101ed6101da366004610b07565b5f90815260208190526040902054151590565b60405190151581526020016100da565b6101ca61020b366004610c6d565b61092c565b6002545f906001600160a01b0316331461025d5760405162461bcd60e51b81526020600482015260096024820152682737ba1037bbb732b960b91b60448201526064015b60405180910390fd5b610267858561075c565b5f81815260208190526040902054909150156102c55760405162461bcd60e51b815260206004820152601460248201527f417373657420616c7265616479206c69737465640000000000000000000000006044820152606401610254565b60128260ff16111561030c5760405162461bcd60e51b815260206004820152601060248201526f496e76616c696420646563696d616c7360801b6044820152606401610254565b604051806080016040528082815260200186868080601f0160208091040260200160405190810160405280939291908181526020018383808284375f9201829052509385525050506001600160a01b03861660208084019190915260ff8616604093840152848252818152919020825181559082015160018201906103919082610d18565b506040828101516002909201805460609094015160ff16600160a01b0274ffffffffffffffffffffffffffffffffffffffffff199094166001600160a01b03909316929092179290921790556001805480820182555f919091527fb10e2d527612073b26eecdfd717e6a320cf44b4afac2b0732d9fcbe2b7fa0cf6018290555181907f2e65ace1d0f9bf8227958fe17a2a680560d9556052e162b8a553f8d6cb09c48490610446908890889088908890610dd3565b60405180910390a2949350505050565b61048a60405180608001604052805f8152602001606081526020015f6001600160a01b031681526020015f60ff1681525090565b5f82815260208181526040918290208251608081019093528054835260018101805491928401916104ba90610c9a565b80601f01602080910402602001604051908101604052809291908181526020018280546104e690610c9a565b80156105315780601f1061050857610100808354040283529160200191610531565b820191905f5260205f20905b81548152906001019060200180831161051457829003601f168201915b5050509183525050600291909101546001600160a01b0381166020830152600160a01b900460ff1660409091015280519091505f036105a25760405162461bcd60e51b815260206004820152600d60248201526c155b9adb9bdddb88185cdcd95d609a1b6044820152606401610254565b919050565b6001546060905f9067ffffffffffffffff8111156105c7576105c7610c86565b60405190808252806020026020018201604052801561062c57816020015b61061960405180608001604052805f8152602001606081526020015f6001600160a01b031681526020015f60ff1681525090565b8152602001906001900390816105e55790505b5090505f5b600154811015610756575f5f6001838154811061065057610650610e1d565b905f5260205f20015481526020019081526020015f206040518060800160405290815f820154815260200160018201805461068a90610c9a565b80601f01602080910402602001604051908101604052809291908181526020018280546106b690610c9a565b80156107015780601f106106d857610100808354040283529160200191610701565b820191905f5260205f20905b8154815290600101906020018083116106e457829003601f168201915b5050509183525050600291909101546001600160a01b0381166020830152600160a01b900460ff16604090910152825183908390811061074357610743610e1d565b6020908102919091010152600101610631565b50919050565b5f811580159061076c5750602082105b6107b85760405162461bcd60e51b815260206004820152600e60248201527f496e76616c69642073796d626f6c0000000000000000000000000000000000006044820152606401610254565b6107c28284610e31565b90505b92915050565b6002546001600160a01b031633146108115760405162461bcd60e51b81526020600482015260096024820152682737ba1037bbb732b960b91b6044820152606401610254565b5f83815260208190526040812054900361085d5760405162461bcd60e51b815260206004820152600d60248201526c155b9adb9bdddb88185cdcd95d609a1b6044820152606401610254565b60128160ff1611156108a45760405162461bcd60e51b815260206004820152601060248201526f496e76616c696420646563696d616c7360801b6044820152606401610254565b5f838152602081815260409182902060020180546001600160a01b03861674ffffffffffffffffffffffffffffffffffffffffff199091168117600160a01b60ff87169081029190911790925583519081529182015284917f51d719dd29b9c9d6f3e862c626c3477c5c69ee8bc53ac222bc86b73e08fbd690910160405180910390a2505050565b6002546001600160a01b031633146109725760405162461bcd60e51b81526020600482015260096024820152682737ba1037bbb732b960b91b6044820152606401610254565b6001600160a01b0381166109c85760405162461bcd60e51b815260206004820152600f60248201527f496e76616c6964206164647265737300000000000000000000000000000000006044820152606401610254565b6002546040516001600160a01b038084169216907f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e0905f90a3600280547fffffffffffffffffffffffff0000000000000000000000000000000000000000166001600160a01b0392909216919091179055565b5f5f83601f840112610a4b575f5ffd5b50813567ffffffffffffffff811115610a62575f5ffd5b602083019150836020828501011115610a79575f5ffd5b9250929050565b80356001600160a01b03811681146105a2575f5ffd5b803560ff811681146105a2575f5ffd5b5f5f5f5f60608587031215610ab9575f5ffd5b843567ffffffffffffffff811115610acf575f5ffd5b610adb87828801610a3b565b9095509350610aee905060208601610a80565b9150610afc60408601610a96565b905092959194509250565b5f60208284031215610b17575f5ffd5b5035919050565b805182525f6020820151608060208501528051806080860152806020830160a087015e5f60a082870101526001600160a01b03604085015116604086015260ff606085015116606086015260a0601f19601f8301168601019250505092915050565b602081525f6107c26020830184610b1e565b5f602082016020835280845180835260408501915060408160051b8601019250602086015f5b82811015610be957603f19878603018452610bd4858351610b1e565b94506020938401939190910190600101610bb8565b50929695505050505050565b5f5f60208385031215610c06575f5ffd5b823567ffffffffffffffff811115610c1c575f5ffd5b610c2885828601610a3b565b90969095509350505050565b5f5f5f60608486031215610c46575f5ffd5b83359250610c5660208501610a80565b9150610c6460408501610a96565b90509250925092565b5f60208284031215610c7d575f5ffd5b6107c282610a80565b634e487b7160e01b5f52604160045260245ffd5b600181811c90821680610cae57607f821691505b60208210810361075657634e487b7160e01b5f52602260045260245ffd5b601f821115610d1357805f5260205f20601f840160051c81016020851015610cf15750805b601f840160051c820191505b81811015610d10575f8155600101610cfd565b50505b505050565b815167ffffffffffffffff811115610d3257610d32610c86565b610d4681610d408454610c9a565b84610ccc565b6020601f821160018114610d78575f8315610d615750848201515b5f19600385901b1c1916600184901b178455610d10565b5f84815260208120601f198516915b82811015610da75787850151825560209485019460019092019101610d87565b5084821015610dc457868401515f19600387901b60f8161c191681555b50505050600190811b01905550565b60608152836060820152838560808301375f608085830101525f6080601f19601f87011683010190506001600160a01b038416602083015260ff8316604083015295945050505050565b634e487b7160e01b5f52603260045260245ffd5b803560208310156107c5575f19602084900360031b1b169291505056fea164736f6c634300081b000a";
+
+type AssetRegistryConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: AssetRegistryConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class AssetRegistry__factory extends ContractFactory {
+  constructor(...args: AssetRegistryConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      AssetRegistry & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): AssetRegistry__factory {
+    return super.connect(runner) as AssetRegistry__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): AssetRegistryInterface {
+    return new Interface(_abi) as AssetRegistryInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): AssetRegistry {
+    return new Contract(address, _abi, runner) as unknown as AssetRegistry;
+  }
+}
@@ -23,18 +23,8 @@ const _abi = [
   {
     inputs: [
       {
-        internalType: "address",
-        name: "_ethUsdFeed",
-        type: "address",
-      },
-      {
-        internalType: "address",
-        name: "_btcUsdFeed",
-        type: "address",
-      },
-      {
-        internalType: "address",
-        name: "_solUsdFeed",
+        internalType: "contract AssetRegistry",
+        name: "_assetRegistry",
         type: "address",
       },
     ],
@@ -51,33 +41,99 @@ const _abi = [
     name: "InvalidPriceFeed",
     type: "error",
   },
+  {
+    inputs: [],
+    name: "InvalidRegistry",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidRoundHint",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidTimestamp",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidWindow",
+    type: "error",
+  },
   {
     inputs: [],
     name: "NotOwner",
     type: "error",
   },
+  {
+    inputs: [],
+    name: "PriceHistoryUnavailable",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "PriceQuarantined",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "SignedReportsNotSupported",
+    type: "error",
+  },
   {
     inputs: [],
     name: "StalePrice",
     type: "error",
   },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "maxUpdateChangeBps",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "maxWindowChangeBps",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "changeWindow",
+        type: "uint256",
+      },
+    ],
+    name: "CircuitBreakerUpdated",
+    type: "event",
+  },
   {
     anonymous: false,
     inputs: [
       {
         indexed: true,
-        internalType: "enum ChainlinkPriceOracle.Asset",
+        internalType: "bytes32",
         name: "asset",
-        type: "uint8",
+        type: "bytes32",
       },
       {
         indexed: true,
         internalType: "address",
-        name: "feedAddress",
+        name: "feed",
         type: "address",
       },
+      {
+        indexed: false,
+        internalType: "uint80",
+        name: "roundId",
+        type: "uint80",
+      },
     ],
-    name: "PriceFeedUpdated",
+    name: "RoundConfirmed",
     type: "event",
   },
   {
@@ -93,14 +149,132 @@ const _abi = [
     stateMutability: "view",
     type: "function",
   },
+  {
+    inputs: [],
+    name: "MAX_TWAP_ROUNDS",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "assetRegistry",
+    outputs: [
+      {
+        internalType: "contract AssetRegistry",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "changeWindow",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
   {
     inputs: [
       {
-        internalType: "enum ChainlinkPriceOracle.Asset",
+        internalType: "bytes32",
         name: "asset",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint80",
+        name: "roundId",
+        type: "uint80",
+      },
+    ],
+    name: "confirmRound",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+      {
+        internalType: "uint80",
+        name: "",
+        type: "uint80",
+      },
+    ],
+    name: "confirmedRounds",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "decimals",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
         type: "uint8",
       },
     ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "asset",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "findRoundAt",
+    outputs: [
+      {
+        internalType: "uint80",
+        name: "roundId",
+        type: "uint80",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "asset",
+        type: "bytes32",
+      },
+    ],
     name: "getPrice",
     outputs: [
       {
@@ -120,9 +294,43 @@ const _abi = [
   {
     inputs: [
       {
-        internalType: "enum ChainlinkPriceOracle.Asset",
+        internalType: "bytes32",
         name: "asset",
-        type: "uint8",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+      {
+        internalType: "uint80",
+        name: "roundHint",
+        type: "uint80",
+      },
+    ],
+    name: "getPriceAt",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "price",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "updatedAt",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "asset",
+        type: "bytes32",
       },
     ],
     name: "getPriceFeed",
@@ -139,9 +347,9 @@ const _abi = [
   {
     inputs: [
       {
-        internalType: "enum ChainlinkPriceOracle.Asset",
+        internalType: "bytes32",
         name: "asset",
-        type: "uint8",
+        type: "bytes32",
       },
     ],
     name: "getPriceWithMetadata",
@@ -158,7 +366,7 @@ const _abi = [
       },
       {
         internalType: "uint8",
-        name: "decimals",
+        name: "priceDecimals",
         type: "uint8",
       },
       {
@@ -173,9 +381,106 @@ const _abi = [
   {
     inputs: [
       {
-        internalType: "enum ChainlinkPriceOracle.Asset",
+        internalType: "bytes32",
         name: "asset",
-        type: "uint8",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256",
+        name: "endTime",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "window",
+        type: "uint256",
+      },
+      {
+        internalType: "uint80",
+        name: "roundHint",
+        type: "uint80",
+      },
+      {
+        internalType: "bytes",
+        name: "report",
+        type: "bytes",
+      },
+    ],
+    name: "getSettlementPrice",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "price",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "source",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "asset",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256",
+        name: "endTime",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "window",
+        type: "uint256",
+      },
+      {
+        internalType: "uint80",
+        name: "roundHint",
+        type: "uint80",
+      },
+    ],
+    name: "getTwap",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "twap",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "asset",
+        type: "bytes32",
+      },
+    ],
+    name: "isAssetSupported",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "asset",
+        type: "bytes32",
       },
       {
         internalType: "uint256",
@@ -197,16 +502,21 @@ const _abi = [
   {
     inputs: [
       {
-        internalType: "enum ChainlinkPriceOracle.Asset",
+        internalType: "bytes32",
         name: "asset",
-        type: "uint8",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint80",
+        name: "roundId",
+        type: "uint80",
       },
     ],
-    name: "isPriceFeedAvailable",
+    name: "isRoundQuarantined",
     outputs: [
       {
         internalType: "bool",
-        name: "isAvailable",
+        name: "",
         type: "bool",
       },
     ],
@@ -215,26 +525,33 @@ const _abi = [
   },
   {
     inputs: [],
-    name: "owner",
+    name: "maxUpdateChangeBps",
     outputs: [
       {
-        internalType: "address",
+        internalType: "uint256",
         name: "",
-        type: "address",
+        type: "uint256",
       },
     ],
     stateMutability: "view",
     type: "function",
   },
   {
-    inputs: [
+    inputs: [],
+    name: "maxWindowChangeBps",
+    outputs: [
       {
-        internalType: "enum ChainlinkPriceOracle.Asset",
+        internalType: "uint256",
         name: "",
-        type: "uint8",
+        type: "uint256",
       },
     ],
-    name: "priceFeeds",
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "owner",
     outputs: [
       {
         internalType: "address",
@@ -248,12 +565,22 @@ const _abi = [
   {
     inputs: [
       {
-        internalType: "address",
-        name: "newOwner",
-        type: "address",
+        internalType: "uint256",
+        name: "_maxUpdateChangeBps",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_maxWindowChangeBps",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_changeWindow",
+        type: "uint256",
       },
     ],
-    name: "transferOwnership",
+    name: "setCircuitBreaker",
     outputs: [],
     stateMutability: "nonpayable",
     type: "function",
@@ -261,25 +588,26 @@ const _abi = [
   {
     inputs: [
       {
-        internalType: "enum ChainlinkPriceOracle.Asset",
-        name: "asset",
-        type: "uint8",
+        internalType: "bytes4",
+        name: "interfaceId",
+        type: "bytes4",
       },
+    ],
+    name: "supportsInterface",
+    outputs: [
       {
-        internalType: "address",
-        name: "feedAddress",
-        type: "address",
+        internalType: "bool",
+        name: "",
+        type: "bool",
       },
     ],
-    name: "updatePriceFeed",
-    outputs: [],
-    stateMutability: "nonpayable",
+    stateMutability: "pure",
     type: "function",
   },
 ] as const;
 
 const _bytecode =
-  "0x608060405234801561000f575f5ffd5b50604051610c86380380610c8683398101604081905261002e916101bd565b600180546001600160a01b031916331790556001600160a01b038316610067576040516352cc3f7d60e01b815260040160405180910390fd5b6001600160a01b03821661008e576040516352cc3f7d60e01b815260040160405180910390fd5b5f60208190527fad3228b676f7d3cd4284a5443f17f1962b36e491b30a40b2405849e597ba5fb580546001600160a01b038087166001600160a01b031992831681179093557fada5013122d395ba3c54772283fb069b10426056ef8ca54750cb9bb552a59e7d8054878316908416179055600284527fabbb5caa7dda850e60932de0934eb1f9d0f59695050f761dc64e443e5030a5698054918616919092161790556040519091905f516020610c665f395f51905f52908290a36001600160a01b03821660016040515f516020610c665f395f51905f52905f90a36001600160a01b0381161561019a576001600160a01b03811660026040515f516020610c665f395f51905f52905f90a35b5050506101fd565b80516001600160a01b03811681146101b8575f5ffd5b919050565b5f5f5f606084860312156101cf575f5ffd5b6101d8846101a2565b92506101e6602085016101a2565b91506101f4604085016101a2565b90509250925092565b610a5c8061020a5f395ff3fe608060405234801561000f575f5ffd5b50600436106100b9575f3560e01c80638da5cb5b116100725780639d7f7e86116100585780639d7f7e861461019b578063d8387607146101b3578063f2fde38b146101d6575f5ffd5b80638da5cb5b1461017557806392ee113d14610188575f5ffd5b80632a6a7a07116100a25780632a6a7a07146100fa57806337f1e7f21461013a578063815f650414610162575f5ffd5b806322f73836146100bd578063271d97ab146100e5575b5f5ffd5b6100d06100cb366004610791565b6101e9565b60405190151581526020015b60405180910390f35b6100f86100f33660046107c7565b610231565b005b610122610108366004610791565b5f602081905290815260409020546001600160a01b031681565b6040516001600160a01b0390911681526020016100dc565b61014d610148366004610791565b61031f565b604080519283526020830191909152016100dc565b6100d06101703660046107f8565b6104a7565b600154610122906001600160a01b031681565b610122610196366004610791565b61051a565b6101a56201518081565b6040519081526020016100dc565b6101c66101c1366004610791565b61055f565b6040516100dc9493929190610820565b6100f86101e436600461086d565b6106fd565b5f8080808460028111156101ff576101ff610886565b600281111561021057610210610886565b815260208101919091526040015f20546001600160a01b0316141592915050565b6001546001600160a01b0316331461025c576040516330cd747160e01b815260040160405180910390fd5b6001600160a01b038116610283576040516352cc3f7d60e01b815260040160405180910390fd5b805f5f84600281111561029857610298610886565b60028111156102a9576102a9610886565b815260208101919091526040015f20805473ffffffffffffffffffffffffffffffffffffffff19166001600160a01b0392831617905581168260028111156102f3576102f3610886565b6040517f97f7578becfa7a6013824d8ab1174e8c0522d468cd75e7a7e7fc4bde27338442905f90a35050565b5f5f5f5f5f85600281111561033657610336610886565b600281111561034757610347610886565b815260208101919091526040015f20546001600160a01b0316905080610380576040516352cc3f7d60e01b815260040160405180910390fd5b5f8190505f5f5f5f5f856001600160a01b031663feaf968c6040518163ffffffff1660e01b815260040160a060405180830381865afa1580156103c5573d5f5f3e3d5ffd5b505050506040513d601f19601f820116820180604052508101906103e991906108b3565b945094509450945094505f84136104125760405162bfc92160e01b815260040160405180910390fd5b815f036104315760405162bfc92160e01b815260040160405180910390fd5b8469ffffffffffffffffffff168169ffffffffffffffffffff16101561046a57604051630cd5fa0760e11b815260040160405180910390fd5b620151806104788342610901565b111561049757604051630cd5fa0760e11b815260040160405180910390fd5b5091989197509095505050505050565b604051631bf8f3f960e11b81525f90819030906337f1e7f2906104ce908790600401610920565b6040805180830381865afa1580156104e8573d5f5f3e3d5ffd5b505050506040513d601f19601f8201168201806040525081019061050c9190610946565b508311159150505b92915050565b5f5f5f83600281111561052f5761052f610886565b600281111561054057610540610886565b815260208101919091526040015f20546001600160a01b031692915050565b5f5f5f60605f5f5f87600281111561057957610579610886565b600281111561058a5761058a610886565b815260208101919091526040015f20546001600160a01b03169050806105c3576040516352cc3f7d60e01b815260040160405180910390fd5b604051631bf8f3f960e11b8152819030906337f1e7f2906105e8908a90600401610920565b6040805180830381865afa158015610602573d5f5f3e3d5ffd5b505050506040513d601f19601f820116820180604052508101906106269190610946565b8096508197505050806001600160a01b031663313ce5676040518163ffffffff1660e01b8152600401602060405180830381865afa15801561066a573d5f5f3e3d5ffd5b505050506040513d601f19601f8201168201806040525081019061068e9190610968565b9350806001600160a01b0316637284e4166040518163ffffffff1660e01b81526004015f60405180830381865afa1580156106cb573d5f5f3e3d5ffd5b505050506040513d5f823e601f3d908101601f191682016040526106f2919081019061099c565b925050509193509193565b6001546001600160a01b03163314610728576040516330cd747160e01b815260040160405180910390fd5b6001600160a01b03811661074f576040516352cc3f7d60e01b815260040160405180910390fd5b6001805473ffffffffffffffffffffffffffffffffffffffff19166001600160a01b0392909216919091179055565b80356003811061078c575f5ffd5b919050565b5f602082840312156107a1575f5ffd5b6107aa8261077e565b9392505050565b80356001600160a01b038116811461078c575f5ffd5b5f5f604083850312156107d8575f5ffd5b6107e18361077e565b91506107ef602084016107b1565b90509250929050565b5f5f60408385031215610809575f5ffd5b6108128361077e565b946020939093013593505050565b84815283602082015260ff83166040820152608060608201525f8251806080840152806020850160a085015e5f60a0828501015260a0601f19601f83011684010191505095945050505050565b5f6020828403121561087d575f5ffd5b6107aa826107b1565b634e487b7160e01b5f52602160045260245ffd5b805169ffffffffffffffffffff8116811461078c575f5ffd5b5f5f5f5f5f60a086880312156108c7575f5ffd5b6108d08661089a565b602087015160408801516060890151929750909550935091506108f56080870161089a565b90509295509295909350565b8181038181111561051457634e487b7160e01b5f52601160045260245ffd5b602081016003831061094057634e487b7160e01b5f52602160045260245ffd5b91905290565b5f5f60408385031215610957575f5ffd5b505080516020909101519092909150565b5f60208284031215610978575f5ffd5b815160ff811681146107aa575f5ffd5b634e487b7160e01b5f52604160045260245ffd5b5f602082840312156109ac575f5ffd5b815167ffffffffffffffff8111156109c2575f5ffd5b8201601f810184136109d2575f5ffd5b805167ffffffffffffffff8111156109ec576109ec610988565b604051601f8201601f19908116603f0116810167ffffffffffffffff81118282101715610a1b57610a1b610988565b604052818152828201602001861015610a32575f5ffd5b8160208401602083015e5f9181016020019190915294935050505056fea164736f6c634300081b000a97f7578becfa7a6013824d8ab1174e8c0522d468cd75e7a7e7fc4bde27338442";
+  "0x60a060405234801561000f575f5ffd5b50604051611d28380380611d2883398101604081905261002e91610077565b6001600160a01b038116610055576040516311a1e69760e01b815260040160405180910390fd5b6001600160a01b03166080525f80546001600160a01b031916331790556100a4565b5f60208284031215610087575f5ffd5b81516001600160a01b038116811461009d575f5ffd5b9392505050565b608051611c576100d15f395f818161031d0152818161089d01528181610a420152610c180152611c575ff3fe608060405234801561000f575f5ffd5b5060043610610179575f3560e01c806385e5289e116100d25780639d75278f11610088578063d44fa33e11610063578063d44fa33e1461036f578063dbdbb31214610382578063f2ecebb8146103a5575f5ffd5b80639d75278f1461033f5780639d7f7e8614610352578063b518387f1461035c575f5ffd5b80638da5cb5b116100b85780638da5cb5b146102fd57806394579f381461030f578063979d7e8614610318575f5ffd5b806385e5289e146102a75780638c0adf62146102d2575f5ffd5b8063445648181161013257806362f1d0441161010d57806362f1d0441461025b57806371d57b37146102645780637fb8f6a514610294575f5ffd5b8063445648181461022b57806355d3613b1461023e5780635e4f890c14610246575f5ffd5b8063313ce56711610162578063313ce567146101d257806331d98b3f146101ec57806339fe422b14610214575f5ffd5b806301ffc9a71461017d57806313d638d5146101a5575b5f5ffd5b61019061018b366004611661565b6103b8565b60405190151581526020015b60405180910390f35b6101906101b33660046116b3565b600460209081525f928352604080842090915290825290205460ff1681565b6101da600881565b60405160ff909116815260200161019c565b6101ff6101fa3660046116ea565b6103ee565b6040805192835260208301919091520161019c565b61021d60035481565b60405190815260200161019c565b61021d610239366004611701565b610550565b61021d606481565b61025961025436600461173f565b6105cc565b005b61021d60025481565b610277610272366004611768565b610676565b604080519283526001600160a01b0390911660208301520161019c565b6101906102a2366004611804565b6106b1565b6102ba6102b5366004611827565b610703565b6040516001600160501b03909116815260200161019c565b6102e56102e03660046116ea565b610885565b6040516001600160a01b03909116815260200161019c565b5f546102e5906001600160a01b031681565b61021d60015481565b6102e57f000000000000000000000000000000000000000000000000000000000000000081565b6101ff61034d366004611847565b610914565b61021d6201518081565b61025961036a366004611804565b610977565b61019061037d3660046116ea565b610a20565b6103956103903660046116ea565b610abd565b60405161019c949392919061187d565b6101906103b3366004611827565b610ba5565b5f6001600160e01b031982166311c4f5dd60e21b14806103e857506001600160e01b031982166301ffc9a760e01b145b92915050565b5f5f5f5f6103fb85610c12565b915091505f5f5f5f5f866001600160a01b031663feaf968c6040518163ffffffff1660e01b815260040160a060405180830381865afa158015610440573d5f5f3e3d5ffd5b505050506040513d601f19601f8201168201806040525081019061046491906118ca565b945094509450945094505f841361048d5760405162bfc92160e01b815260040160405180910390fd5b815f036104ac5760405162bfc92160e01b815260040160405180910390fd5b846001600160501b0316816001600160501b031610156104df57604051630cd5fa0760e11b815260040160405180910390fd5b620151806104ed8342611932565b111561050c57604051630cd5fa0760e11b815260040160405180910390fd5b61051887868685610cd8565b1561053657604051639eb761ed60e01b815260040160405180910390fd5b6105408487610d4e565b9a91995090975050505050505050565b5f5f5f61055c87610c12565b915091504286118061056d57508585115b1561058b5760405163392334ed60e01b815260040160405180910390fd5b5f5f610598848988610da9565b90925090506105bd6105b7858885856105b18d8f611932565b8e610f1f565b84610d4e565b9450505050505b949350505050565b5f546001600160a01b031633146105f6576040516330cd747160e01b815260040160405180910390fd5b8115801590610603575080155b156106215760405163392334ed60e01b815260040160405180910390fd5b60018390556002829055600381905560408051848152602081018490529081018290527fbb3c33e08a4d42194225ee3fd0960321f07d8d494842e79117cb13b70bdc15649060600160405180910390a1505050565b5f80821561069757604051630309647960e21b815260040160405180910390fd5b6106a388888888610550565b983098509650505050505050565b5f5f6106bc84610c12565b5090505f5f6106cb83866110fb565b91509150805f14806106dd57505f8213155b156106ed575f93505050506103e8565b6106f983868484610cd8565b9695505050505050565b5f5f61070e84610c12565b5090505f816001600160a01b031663feaf968c6040518163ffffffff1660e01b815260040160a060405180830381865afa15801561074e573d5f5f3e3d5ffd5b505050506040513d601f19601f8201168201806040525081019061077291906118ca565b5092955091925050505f81900361079c5760405163c3651e6d60e01b815260040160405180910390fd5b8381116107aa5750506103e8565b600169ffff000000000000000084168117905f906107c89086611945565b90506107d484836110fb565b9350508215806107e357508583115b156108015760405163c3651e6d60e01b815260040160405180910390fd5b806001600160501b0316826001600160501b0316101561087b575f60026108288484611945565b6108329190611978565b61083c9083611945565b905061084885826110fb565b945050831580159061085a5750868411155b1561086757809250610875565b610872600182611945565b91505b50610801565b5095945050505050565b60405163280aebcf60e01b8152600481018290525f907f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03169063280aebcf906024016040805180830381865afa1580156108e9573d5f5f3e3d5ffd5b505050506040513d601f19601f8201168201806040525081019061090d91906119a5565b5092915050565b5f5f5f5f61092187610c12565b915091505f610931838888610da9565b9450905061094183878387610cd8565b1561095f57604051639eb761ed60e01b815260040160405180910390fd5b6109698183610d4e565b94505050505b935093915050565b5f546001600160a01b031633146109a1576040516330cd747160e01b815260040160405180910390fd5b5f6109ab83610c12565b506001600160a01b0381165f8181526004602090815260408083206001600160501b03881680855290835292819020805460ff1916600117905551918252929350909185917fa36155fd783ac31bbdd27cc2879a71654a5a34e4407953a55de98af7fcd7bd28910160405180910390a3505050565b60405163280aebcf60e01b8152600481018290525f9081906001600160a01b037f0000000000000000000000000000000000000000000000000000000000000000169063280aebcf906024016040805180830381865afa158015610a86573d5f5f3e3d5ffd5b505050506040513d601f19601f82011682018060405250810190610aaa91906119a5565b506001600160a01b031615159392505050565b5f5f5f60605f610acc86610c12565b506040516331d98b3f60e01b81526004810188905290915030906331d98b3f906024016040805180830381865afa158015610b09573d5f5f3e3d5ffd5b505050506040513d601f19601f82011682018060405250810190610b2d91906119d7565b8095508196505050806001600160a01b0316637284e4166040518163ffffffff1660e01b81526004015f60405180830381865afa158015610b70573d5f5f3e3d5ffd5b505050506040513d5f823e601f3d908101601f19168201604052610b979190810190611a0d565b600893509150509193509193565b6040516331d98b3f60e01b8152600481018390525f90819030906331d98b3f906024016040805180830381865afa158015610be2573d5f5f3e3d5ffd5b505050506040513d601f19601f82011682018060405250810190610c0691906119d7565b50909211159392505050565b5f5f5f5f7f00000000000000000000000000000000000000000000000000000000000000006001600160a01b031663280aebcf866040518263ffffffff1660e01b8152600401610c6491815260200190565b6040805180830381865afa158015610c7e573d5f5f3e3d5ffd5b505050506040513d601f19601f82011682018060405250810190610ca291906119a5565b90925090506001600160a01b038216610cce576040516352cc3f7d60e01b815260040160405180910390fd5b9094909350915050565b5f6001600160501b0384161580610d1a57506001600160a01b0385165f9081526004602090815260408083206001600160501b038816845290915290205460ff165b15610d2657505f6105c4565b5f610d34868686868761118c565b9050610d438686835f5f61138a565b509695505050505050565b5f600860ff83161115610d8257610d66600883611ac0565b610d7190600a611bb4565b610d7b9084611bc2565b90506103e8565b610d8d826008611ac0565b610d9890600a611bb4565b610da29084611bd5565b9392505050565b5f5f42841115610dcc5760405163b7d0949760e01b815260040160405180910390fd5b610dd685846110fb565b9092509050801580610de757508381115b15610e05576040516312561e9b60e11b815260040160405180910390fd5b5f856001600160a01b031663feaf968c6040518163ffffffff1660e01b815260040160a060405180830381865afa158015610e42573d5f5f3e3d5ffd5b505050506040513d601f19601f82011682018060405250810190610e6691906118ca565b505050509050806001600160501b0316846001600160501b031614610eca575f610e9a87610e95876001611bec565b6110fb565b915050801580610eaa5750858111155b15610ec8576040516312561e9b60e11b815260040160405180910390fd5b505b5f8313610ee95760405162bfc92160e01b815260040160405180910390fd5b62015180610ef78387611932565b1115610f1657604051630cd5fa0760e11b815260040160405180910390fd5b50935093915050565b5f5f610f2e888888888861118c565b90505f6064826040015114610f47578160400151610f58565b60018260400151610f589190611932565b9050835f80805b8481108015610f8a57505f86602001518281518110610f8057610f80611c0b565b6020026020010151115b156110c8575f865f01518281518110610fa557610fa5611c0b565b602002602001015113610fca5760405162bfc92160e01b815260040160405180910390fd5b5f610fe38e838f610fdb9190611945565b89858761138a565b93509050801561100657604051639eb761ed60e01b815260040160405180910390fd5b5f8a8860200151848151811061101e5761101e611c0b565b602002602001015111611031578a611050565b8760200151838151811061104757611047611c0b565b60200260200101515b905061105c8187611932565b885180518590811061107057611070611c0b565b60200260200101516110829190611bd5565b61108c9086611c1f565b94508095508a8114806110a75750828e6001600160501b0316145b156110b35750506110c8565b505080806110c090611c32565b915050610f5f565b508683146110e9576110da8388611932565b6110e49083611bc2565b6110eb565b895b9c9b505050505050505050505050565b604051639a6fc8f560e01b81526001600160501b03821660048201525f9081906001600160a01b03851690639a6fc8f59060240160a060405180830381865afa925050508015611168575060408051601f3d908101601f19168201909252611165918101906118ca565b60015b61117657505f905080611185565b50919450909250611185915050565b9250929050565b6111af604051806060016040528060608152602001606081526020015f81525090565b5f6002545f146111c1576003546111c3565b5f5b604080516064808252610ca0820190925291925060208201610c80803683375050508252604080516064808252610ca082019092529060208201610c8080368337505050602083015281518051869186915f9061122257611222611c0b565b6020026020010184602001515f8151811061123f5761123f611c0b565b6020908102919091010191909152525f60015b60648110801561126b5750876001600160501b03168111155b156113795760208401515f90611282600184611932565b8151811061129257611292611c0b565b60200260200101519050805f14806112cf575084515f906112b4600185611932565b815181106112c4576112c4611c0b565b602002602001015113155b156112da5750611379565b821580156112e85750858111155b156112f557809250611318565b821580159061130d57508261130a8583611c1f565b11155b156113185750611379565b6113268a610e95848c611945565b865180518590811061133a5761133a611c0b565b602002602001018760200151858151811061135757611357611c0b565b602090810291909101019190915252508061137181611c32565b915050611252565b604084015250909695505050505050565b825160208401515f9182916001600160501b03881615806113d657506001600160a01b0389165f9081526004602090815260408083206001600160501b038c16845290915290205460ff165b806113ef575060408701516113ec876001611c1f565b10155b15611401575f85935093505050611605565b8061140d876001611c1f565b8151811061141d5761141d611c0b565b60200260200101515f148061145557505f8261143a886001611c1f565b8151811061144a5761144a611c0b565b602002602001015113155b15611467575f85935093505050611605565b5f82878151811061147a5761147a611c0b565b602002602001015190506114b681848960016114969190611c1f565b815181106114a6576114a6611c0b565b602002602001015160015461160f565b156114ca5760018694509450505050611605565b6002545f036114e1575f8694509450505050611605565b5f6114ed886001611c1f565b8711611503576114fe886001611c1f565b611505565b865b90505b6040890151611518826001611c1f565b108015611563575082888151811061153257611532611c0b565b602002602001015160035484838151811061154f5761154f611c0b565b60200260200101516115619190611c1f565b115b8015611592575082611576826001611c1f565b8151811061158657611586611c0b565b60200260200101515f14155b80156115c057505f846115a6836001611c1f565b815181106115b6576115b6611c0b565b6020026020010151135b156115d757806115cf81611c32565b915050611508565b6115fd828583815181106115ed576115ed611c0b565b602002602001015160025461160f565b955093505050505b9550959350505050565b5f815f0361161e57505f610da2565b5f838511611635576116308585611932565b61163f565b61163f8486611932565b905061164b8385611bd5565b61165782612710611bd5565b1195945050505050565b5f60208284031215611671575f5ffd5b81356001600160e01b031981168114610da2575f5ffd5b6001600160a01b038116811461169c575f5ffd5b50565b6001600160501b038116811461169c575f5ffd5b5f5f604083850312156116c4575f5ffd5b82356116cf81611688565b915060208301356116df8161169f565b809150509250929050565b5f602082840312156116fa575f5ffd5b5035919050565b5f5f5f5f60808587031215611714575f5ffd5b84359350602085013592506040850135915060608501356117348161169f565b939692955090935050565b5f5f5f60608486031215611751575f5ffd5b505081359360208301359350604090920135919050565b5f5f5f5f5f5f60a0878903121561177d575f5ffd5b863595506020870135945060408701359350606087013561179d8161169f565b9250608087013567ffffffffffffffff8111156117b8575f5ffd5b8701601f810189136117c8575f5ffd5b803567ffffffffffffffff8111156117de575f5ffd5b8960208284010111156117ef575f5ffd5b60208201935080925050509295509295509295565b5f5f60408385031215611815575f5ffd5b8235915060208301356116df8161169f565b5f5f60408385031215611838575f5ffd5b50508035926020909101359150565b5f5f5f60608486031215611859575f5ffd5b833592506020840135915060408401356118728161169f565b809150509250925092565b84815283602082015260ff83166040820152608060608201525f8251806080840152806020850160a085015e5f60a0828501015260a0601f19601f83011684010191505095945050505050565b5f5f5f5f5f60a086880312156118de575f5ffd5b85516118e98161169f565b60208701516040880151606089015160808a0151939850919650945092506119108161169f565b809150509295509295909350565b634e487b7160e01b5f52601160045260245ffd5b818103818111156103e8576103e861191e565b6001600160501b0382811682821603908111156103e8576103e861191e565b634e487b7160e01b5f52601260045260245ffd5b5f6001600160501b0383168061199057611990611964565b806001600160501b0384160491505092915050565b5f5f604083850312156119b6575f5ffd5b82516119c181611688565b602084015190925060ff811681146116df575f5ffd5b5f5f604083850312156119e8575f5ffd5b505080516020909101519092909150565b634e487b7160e01b5f52604160045260245ffd5b5f60208284031215611a1d575f5ffd5b815167ffffffffffffffff811115611a33575f5ffd5b8201601f81018413611a43575f5ffd5b805167ffffffffffffffff811115611a5d57611a5d6119f9565b604051601f8201601f19908116603f0116810167ffffffffffffffff81118282101715611a8c57611a8c6119f9565b604052818152828201602001861015611aa3575f5ffd5b8160208401602083015e5f91810160200191909152949350505050565b60ff82811682821603908111156103e8576103e861191e565b6001815b600184111561096f57808504811115611af857611af861191e565b6001841615611b0657908102905b60019390931c928002611add565b5f82611b22575060016103e8565b81611b2e57505f6103e8565b8160018114611b445760028114611b4e57611b6a565b60019150506103e8565b60ff841115611b5f57611b5f61191e565b50506001821b6103e8565b5060208310610133831016604e8410600b8410161715611b8d575081810a6103e8565b611b995f198484611ad9565b805f1904821115611bac57611bac61191e565b029392505050565b5f610da260ff841683611b14565b5f82611bd057611bd0611964565b500490565b80820281158282048414176103e8576103e861191e565b6001600160501b0381811683821601908111156103e8576103e861191e565b634e487b7160e01b5f52603260045260245ffd5b808201808211156103e8576103e861191e565b5f60018201611c4357611c4361191e565b506001019056fea164736f6c634300081b000a";
 
 type ChainlinkPriceOracleConstructorParams =
   | [signer?: Signer]
@@ -299,30 +627,16 @@ export class ChainlinkPriceOracle__factory extends ContractFactory {
   }
 
   override getDeployTransaction(
-    _ethUsdFeed: AddressLike,
-    _btcUsdFeed: AddressLike,
-    _solUsdFeed: AddressLike,
+    _assetRegistry: AddressLike,
     overrides?: NonPayableOverrides & { from?: string }
   ): Promise<ContractDeployTransaction> {
-    return super.getDeployTransaction(
-      _ethUsdFeed,
-      _btcUsdFeed,
-      _solUsdFeed,
-      overrides || {}
-    );
+    return super.getDeployTransaction(_assetRegistry, overrides || {});
   }
   override deploy(
-    _ethUsdFeed: AddressLike,
-    _btcUsdFeed: AddressLike,
-    _solUsdFeed: AddressLike,
+    _assetRegistry: AddressLike,
     overrides?: NonPayableOverrides & { from?: string }
   ) {
-    return super.deploy(
-      _ethUsdFeed,
-      _btcUsdFeed,
-      _solUsdFeed,
-      overrides || {}
-    ) as Promise<
+    return super.deploy(_assetRegistry, overrides || {}) as Promise<
       ChainlinkPriceOracle & {
         deploymentTransaction(): ContractTransactionResponse;
       }
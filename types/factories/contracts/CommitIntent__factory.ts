@@ -0,0 +1,120 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type {
+  CommitIntent,
+  CommitIntentInterface,
+} from "../../contracts/CommitIntent";
+
+const _abi = [
+  {
+    inputs: [],
+    name: "ECDSAInvalidSignature",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "length",
+        type: "uint256",
+      },
+    ],
+    name: "ECDSAInvalidSignatureLength",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "s",
+        type: "bytes32",
+      },
+    ],
+    name: "ECDSAInvalidSignatureS",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "COMMIT_INTENT_TYPEHASH",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "DOMAIN_TYPEHASH",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x610657610034600b8282823980515f1a607314602857634e487b7160e01b5f525f60045260245ffd5b305f52607381538281f3fe730000000000000000000000000000000000000000301460806040526004361061004a575f3560e01c806320606b701461004e5780638adfbcd314610087578063a646a406146100ae575b5f5ffd5b6100757f8b73c3c69bb8fe3d512ecc4cf759cc79239f7b179b0ffacaa9a75d522b39400f81565b60405190815260200160405180910390f35b6100757fb63fb9bccd14b540adb78b0cebf0a15a7d0b542627c346585b5fb4fb84d5fb3b81565b8180156100b9575f5ffd5b506100cd6100c8366004610572565b6100cf565b005b824211156101245760405162461bcd60e51b815260206004820152600e60248201527f496e74656e74206578706972656400000000000000000000000000000000000060448201526064015b60405180910390fd5b604080517f8b73c3c69bb8fe3d512ecc4cf759cc79239f7b179b0ffacaa9a75d522b39400f60208201527f3d13eb747382647b1b8a46d968c51bab610c3b9883508e34f2db6fe3db11bc4b918101919091527fc89efdaa54c0f20c7adf612882df0950f5a951637e0307cdcb4c672f298b8bc660608201524660808201523060a08201525f9060c00160408051601f1981840301815291815281516020928301206001600160a01b038b165f908152928c905290822080549193507fb63fb9bccd14b540adb78b0cebf0a15a7d0b542627c346585b5fb4fb84d5fb3b918a918a918a918661021183610612565b90915550604080516020810196909652850193909352606084019190915267ffffffffffffffff16608083015260a082015260c0810186905260e0016040516020818303038152906040528051906020012090505f61028a838360405161190160f01b8152600281019290925260228201526042902090565b9050896001600160a01b03166102d58287878080601f0160208091040260200160405190810160405280939291908181526020018383808284375f9201919091525061033892505050565b6001600160a01b03161461032b5760405162461bcd60e51b815260206004820152601860248201527f496e76616c696420696e74656e74207369676e61747572650000000000000000604482015260640161011b565b5050505050505050505050565b5f5f5f5f6103468686610360565b92509250925061035682826103a9565b5090949350505050565b5f5f5f8351604103610397576020840151604085015160608601515f1a61038988828585610465565b9550955095505050506103a2565b505081515f91506002905b9250925092565b5f8260038111156103bc576103bc610636565b036103c5575050565b60018260038111156103d9576103d9610636565b036103f75760405163f645eedf60e01b815260040160405180910390fd5b600282600381111561040b5761040b610636565b0361042c5760405163fce698f760e01b81526004810182905260240161011b565b600382600381111561044057610440610636565b03610461576040516335e2f38360e21b81526004810182905260240161011b565b5050565b5f80807f7fffffffffffffffffffffffffffffff5d576e7357a4501ddfe92f46681b20a084111561049e57505f91506003905082610523565b604080515f808252602082018084528a905260ff891692820192909252606081018790526080810186905260019060a0016020604051602081039080840390855afa1580156104ef573d5f5f3e3d5ffd5b5050604051601f1901519150506001600160a01b03811661051a57505f925060019150829050610523565b92505f91508190505b9450945094915050565b5f5f83601f84011261053d575f5ffd5b50813567ffffffffffffffff811115610554575f5ffd5b60208301915083602082850101111561056b575f5ffd5b9250929050565b5f5f5f5f5f5f5f5f60e0898b031215610589575f5ffd5b8835975060208901356001600160a01b03811681146105a6575f5ffd5b96506040890135955060608901359450608089013567ffffffffffffffff811681146105d0575f5ffd5b935060a0890135925060c089013567ffffffffffffffff8111156105f2575f5ffd5b6105fe8b828c0161052d565b999c989b5096995094979396929594505050565b5f6001820161062f57634e487b7160e01b5f52601160045260245ffd5b5060010190565b634e487b7160e01b5f52602160045260245ffdfea164736f6c634300081b000a";
+
+type CommitIntentConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: CommitIntentConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class CommitIntent__factory extends ContractFactory {
+  constructor(...args: CommitIntentConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      CommitIntent & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): CommitIntent__factory {
+    return super.connect(runner) as CommitIntent__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): CommitIntentInterface {
+    return new Interface(_abi) as CommitIntentInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): CommitIntent {
+    return new Contract(address, _abi, runner) as unknown as CommitIntent;
+  }
+}
@@ -0,0 +1,542 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type {
+  Signer,
+  AddressLike,
+  ContractDeployTransaction,
+  ContractRunner,
+} from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type {
+  FallbackPriceOracle,
+  FallbackPriceOracleInterface,
+} from "../../contracts/FallbackPriceOracle";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "contract AssetRegistry",
+        name: "_assetRegistry",
+        type: "address",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "asset",
+        type: "bytes32",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "endTime",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "price",
+        type: "uint256",
+      },
+    ],
+    name: "ManualPriceSet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "asset",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "contract IPriceOracle[]",
+        name: "sources",
+        type: "address[]",
+      },
+    ],
+    name: "SourcesUpdated",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "MANUAL_FALLBACK_DELAY",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_SOURCES",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "assetRegistry",
+    outputs: [
+      {
+        internalType: "contract AssetRegistry",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "decimals",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "asset",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "findRoundAt",
+    outputs: [
+      {
+        internalType: "uint80",
+        name: "roundId",
+        type: "uint80",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "asset",
+        type: "bytes32",
+      },
+    ],
+    name: "getPrice",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "price",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "asset",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+      {
+        internalType: "uint80",
+        name: "roundHint",
+        type: "uint80",
+      },
+    ],
+    name: "getPriceAt",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "price",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "updatedAt",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "asset",
+        type: "bytes32",
+      },
+    ],
+    name: "getPriceWithMetadata",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "price",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+      {
+        internalType: "uint8",
+        name: "priceDecimals",
+        type: "uint8",
+      },
+      {
+        internalType: "string",
+        name: "description",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "asset",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256",
+        name: "endTime",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "window",
+        type: "uint256",
+      },
+      {
+        internalType: "uint80",
+        name: "",
+        type: "uint80",
+      },
+      {
+        internalType: "bytes",
+        name: "report",
+        type: "bytes",
+      },
+    ],
+    name: "getSettlementPrice",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "price",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "source",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "asset",
+        type: "bytes32",
+      },
+    ],
+    name: "getSources",
+    outputs: [
+      {
+        internalType: "contract IPriceOracle[]",
+        name: "",
+        type: "address[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "asset",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256",
+        name: "endTime",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "window",
+        type: "uint256",
+      },
+      {
+        internalType: "uint80",
+        name: "roundHint",
+        type: "uint80",
+      },
+    ],
+    name: "getTwap",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "twap",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "asset",
+        type: "bytes32",
+      },
+    ],
+    name: "isAssetSupported",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "asset",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256",
+        name: "targetPrice",
+        type: "uint256",
+      },
+    ],
+    name: "isPriceAboveTarget",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "isAbove",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "manualPrices",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "owner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "asset",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256",
+        name: "endTime",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "price",
+        type: "uint256",
+      },
+    ],
+    name: "setManualPrice",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "asset",
+        type: "bytes32",
+      },
+      {
+        internalType: "contract IPriceOracle[]",
+        name: "oracles",
+        type: "address[]",
+      },
+    ],
+    name: "setSources",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes4",
+        name: "interfaceId",
+        type: "bytes4",
+      },
+    ],
+    name: "supportsInterface",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x60a060405234801561000f575f5ffd5b50604051611b92380380611b9283398101604081905261002e9161009d565b6001600160a01b03811661007b5760405162461bcd60e51b815260206004820152601060248201526f496e76616c696420726567697374727960801b604482015260640160405180910390fd5b5f80546001600160a01b031916331790556001600160a01b03166080526100ca565b5f602082840312156100ad575f5ffd5b81516001600160a01b03811681146100c3575f5ffd5b9392505050565b608051611aa96100e95f395f818161026801526103f10152611aa95ff3fe608060405234801561000f575f5ffd5b506004361061012f575f3560e01c8063979d7e86116100ad578063d44fa33e1161007d578063f229fece11610063578063f229fece1461032b578063f2ecebb81461033e578063fd32413214610351575f5ffd5b8063d44fa33e146102e7578063dbdbb31214610308575f5ffd5b8063979d7e86146102635780639d75278f1461028a578063a7b18d9b1461029d578063d21a0dda146102c7575f5ffd5b8063445648181161010257806371d57b37116100e857806371d57b37146101db57806385e5289e1461020b5780638da5cb5b14610239575f5ffd5b806344564818146101b257806364aefc06146101d3575f5ffd5b806301ffc9a7146101335780630e07a02a1461015b578063313ce5671461017057806331d98b3f1461018a575b5f5ffd5b6101466101413660046114f2565b61035b565b60405190151581526020015b60405180910390f35b61016e610169366004611519565b610391565b005b610178600881565b60405160ff9091168152602001610152565b61019d610198366004611593565b6106ff565b60408051928352602083019190915201610152565b6101c56101c03660046115c1565b610835565b604051908152602001610152565b6101c5600581565b6101ee6101e93660046115ff565b6108ec565b604080519283526001600160a01b03909116602083015201610152565b61021e61021936600461169b565b610a82565b60405169ffffffffffffffffffff9091168152602001610152565b5f5461024b906001600160a01b031681565b6040516001600160a01b039091168152602001610152565b61024b7f000000000000000000000000000000000000000000000000000000000000000081565b61019d6102983660046116bb565b610b1e565b6101c56102ab36600461169b565b600260209081525f928352604080842090915290825290205481565b6102da6102d5366004611593565b610bd1565b60405161015291906116f1565b6101466102f5366004611593565b5f90815260016020526040902054151590565b61031b610316366004611593565b610c3a565b604051610152949392919061176a565b61016e61033936600461179b565b610d3b565b61014661034c36600461169b565b610ed0565b6101c56203f48081565b5f6001600160e01b031982166311c4f5dd60e21b148061038b57506001600160e01b031982166301ffc9a760e01b145b92915050565b5f546001600160a01b031633146103db5760405162461bcd60e51b81526020600482015260096024820152682737ba1037bbb732b960b91b60448201526064015b60405180910390fd5b604051637677dee360e11b8152600481018490527f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03169063ecefbdc690602401602060405180830381865afa15801561043e573d5f5f3e3d5ffd5b505050506040513d601f19601f8201168201806040525081019061046291906117c4565b6104ae5760405162461bcd60e51b815260206004820152600d60248201527f556e6b6e6f776e2061737365740000000000000000000000000000000000000060448201526064016103d2565b60058111156104ff5760405162461bcd60e51b815260206004820152601060248201527f546f6f206d616e7920736f75726365730000000000000000000000000000000060448201526064016103d2565b5f5b818110156106a6573083838381811061051c5761051c6117e3565b9050602002016020810190610531919061180b565b6001600160a01b03161415801561057a575061057a838383818110610558576105586117e3565b905060200201602081019061056d919061180b565b6311c4f5dd60e21b610ee7565b6105c65760405162461bcd60e51b815260206004820152600e60248201527f496e76616c696420736f7572636500000000000000000000000000000000000060448201526064016103d2565b60088383838181106105da576105da6117e3565b90506020020160208101906105ef919061180b565b6001600160a01b031663313ce5676040518163ffffffff1660e01b8152600401602060405180830381865afa15801561062a573d5f5f3e3d5ffd5b505050506040513d601f19601f8201168201806040525081019061064e9190611836565b60ff161461069e5760405162461bcd60e51b815260206004820152601060248201527f496e76616c696420646563696d616c730000000000000000000000000000000060448201526064016103d2565b600101610501565b505f8381526001602052604090206106bf908383611465565b50827fb4049c3ef777eabecb282ef7f43c89d7f9d880689fddd612ca24b0297ae521cd83836040516106f292919061184f565b60405180910390a2505050565b5f5f5f61070b84610f02565b90505f5b81548110156107ec5781818154811061072a5761072a6117e3565b5f918252602090912001546040516331d98b3f60e01b8152600481018790526001600160a01b03909116906331d98b3f906024016040805180830381865afa925050508015610796575060408051601f3d908101601f191682019092526107939181019061189b565b60015b6107d8573d8080156107c3576040519150601f19603f3d011682016040523d82523d5f602084013e6107c8565b606091505b506107d281610f58565b506107e4565b90969095509350505050565b60010161070f565b5060405162461bcd60e51b815260206004820152601360248201527f5072696365206e6f7420617661696c61626c650000000000000000000000000060448201526064016103d2565b5f61083f85610f02565b5f81548110610850576108506117e3565b5f9182526020909120015460405163088ac90360e31b815260048101879052602481018690526044810185905269ffffffffffffffffffff841660648201526001600160a01b0390911690634456481890608401602060405180830381865afa1580156108bf573d5f5f3e3d5ffd5b505050506040513d601f19601f820116820180604052508101906108e391906118bd565b95945050505050565b5f5f5f6108f889610f02565b90505f805b825481101561096a5761094d83828154811061091b5761091b6117e3565b905f5260205f20015f9054906101000a90046001600160a01b03168c8c8c60405180602001604052805f815250610fc0565b90965094509150811561096257505050610a77565b6001016108fd565b508415610a09575f5b8254811015610a07576109ea838281548110610991576109916117e3565b905f5260205f20015f9054906101000a90046001600160a01b03168c8c8c8b8b8080601f0160208091040260200160405190810160405280939291908181526020018383808284375f92019190915250610fc092505050565b9096509450915081156109ff57505050610a77565b600101610973565b505b5f8a81526002602090815260408083208c8452909152902054935083610a715760405162461bcd60e51b815260206004820152601960248201527f4e6f20707269636520736f7572636520617661696c61626c650000000000000060448201526064016103d2565b50309150505b965096945050505050565b5f610a8c83610f02565b5f81548110610a9d57610a9d6117e3565b5f918252602090912001546040516342f2944f60e11b815260048101859052602481018490526001600160a01b03909116906385e5289e90604401602060405180830381865afa158015610af3573d5f5f3e3d5ffd5b505050506040513d601f19601f82011682018060405250810190610b1791906118d4565b9392505050565b5f5f610b2985610f02565b5f81548110610b3a57610b3a6117e3565b5f91825260209091200154604051639d75278f60e01b8152600481018790526024810186905269ffffffffffffffffffff851660448201526001600160a01b0390911690639d75278f906064016040805180830381865afa158015610ba1573d5f5f3e3d5ffd5b505050506040513d601f19601f82011682018060405250810190610bc5919061189b565b91509150935093915050565b5f81815260016020908152604091829020805483518184028101840190945280845260609392830182828015610c2e57602002820191905f5260205f20905b81546001600160a01b03168152600190910190602001808311610c10575b50505050509050919050565b5f5f5f60605f610c4986610f02565b90505f5b81548110156107ec57818181548110610c6857610c686117e3565b5f91825260209091200154604051636dedd98960e11b8152600481018990526001600160a01b039091169063dbdbb312906024015f60405180830381865afa925050508015610cd857506040513d5f823e601f3d908101601f19168201604052610cd59190810190611903565b60015b610d1a573d808015610d05576040519150601f19603f3d011682016040523d82523d5f602084013e610d0a565b606091505b50610d1481610f58565b50610d2c565b92985090965094509250610d34915050565b600101610c4d565b9193509193565b5f546001600160a01b03163314610d805760405162461bcd60e51b81526020600482015260096024820152682737ba1037bbb732b960b91b60448201526064016103d2565b5f83815260016020526040902054610dd05760405162461bcd60e51b8152602060048201526013602482015272105cdcd95d081b9bdd081cdd5c1c1bdc9d1959606a1b60448201526064016103d2565b610ddd6203f480836119da565b421015610e2c5760405162461bcd60e51b815260206004820152601960248201527f46616c6c6261636b2064656c6179206e6f74207061737365640000000000000060448201526064016103d2565b5f8111610e7b5760405162461bcd60e51b815260206004820152600d60248201527f496e76616c69642070726963650000000000000000000000000000000000000060448201526064016103d2565b5f8381526002602090815260408083208584528252918290208390559051828152839185917fd1e0ff31b5a8e9db7a93db8b63d84e896cce257bc637e6d369f43178eedd98ce910160405180910390a3505050565b5f5f610edb846106ff565b50909211159392505050565b5f610ef18361114e565b8015610b175750610b178383611180565b5f8181526001602052604090208054610f535760405162461bcd60e51b8152602060048201526013602482015272105cdcd95d081b9bdd081cdd5c1c1bdc9d1959606a1b60448201526064016103d2565b919050565b5f815111610fa85760405162461bcd60e51b815260206004820152601260248201527f536f757263652063616c6c206661696c6564000000000000000000000000000060448201526064016103d2565b610fb181611206565b610fbd57805160208201fd5b50565b5f5f5f5f84515f03611083576040516342f2944f60e11b815260048101899052602481018890526001600160a01b038a16906385e5289e90604401602060405180830381865afa925050508015611034575060408051601f3d908101601f19168201909252611031918101906118d4565b60015b611080573d808015611061576040519150601f19603f3d011682016040523d82523d5f602084013e611066565b606091505b5061107081610f58565b5f5f5f9450945094505050611143565b90505b6040516371d57b3760e01b81526001600160a01b038a16906371d57b37906110b7908b908b908b9087908c906004016119f9565b6040805180830381865afa9250505080156110ef575060408051601f3d908101601f191682019092526110ec91810190611a2f565b60015b611131573d80801561111c576040519150601f19603f3d011682016040523d82523d5f602084013e611121565b606091505b5061112b81610f58565b50611141565b6001955090935091506111439050565b505b955095509592505050565b5f611160826301ffc9a760e01b611180565b801561038b5750611179826001600160e01b0319611180565b1592915050565b6040516001600160e01b0319821660248201525f90819060440160408051601f19818403018152919052602080820180516001600160e01b03166301ffc9a760e01b17815282519293505f9283928392909183918a617530fa92503d91505f5190508280156111f0575060208210155b80156111fb57505f81115b979650505050505050565b5f8061121183611a5e565b90506001600160e01b031981166352cc3f7d60e01b148061124257506001600160e01b03198116630cd5fa0760e11b145b8061125c57506001600160e01b0319811662bfc92160e01b145b8061127757506001600160e01b0319811663c3651e6d60e01b145b8061129257506001600160e01b03198116630309647960e21b145b156112a05750600192915050565b825160208401206040516112e89060240160208082526013908201527f5072696365206e6f7420617661696c61626c6500000000000000000000000000604082015260600190565b60408051601f198184030181529190526020810180516001600160e01b031662461bcd60e51b17815290519020811480611387575060405160206024820152600d60448201527f507269636520746f6f206f6c6400000000000000000000000000000000000000606482015260840160408051601f198184030181529190526020810180516001600160e01b031662461bcd60e51b1781529051902081145b806113ed5750604051602060248201526013604482015272105cdcd95d081b9bdd081cdd5c1c1bdc9d1959606a1b606482015260840160408051601f198184030181529190526020810180516001600160e01b031662461bcd60e51b1781529051902081145b8061145d575060405160206024820152601960448201527f4e6f20707269636520736f7572636520617661696c61626c6500000000000000606482015260840160408051601f198184030181529190526020810180516001600160e01b031662461bcd60e51b1781529051902081145b949350505050565b828054828255905f5260205f209081019282156114ce579160200282015b828111156114ce5781547fffffffffffffffffffffffff0000000000000000000000000000000000000000166001600160a01b03843516178255602090920191600190910190611483565b506114da9291506114de565b5090565b5b808211156114da575f81556001016114df565b5f60208284031215611502575f5ffd5b81356001600160e01b031981168114610b17575f5ffd5b5f5f5f6040848603121561152b575f5ffd5b83359250602084013567ffffffffffffffff811115611548575f5ffd5b8401601f81018613611558575f5ffd5b803567ffffffffffffffff81111561156e575f5ffd5b8660208260051b8401011115611582575f5ffd5b939660209190910195509293505050565b5f602082840312156115a3575f5ffd5b5035919050565b69ffffffffffffffffffff81168114610fbd575f5ffd5b5f5f5f5f608085870312156115d4575f5ffd5b84359350602085013592506040850135915060608501356115f4816115aa565b939692955090935050565b5f5f5f5f5f5f60a08789031215611614575f5ffd5b8635955060208701359450604087013593506060870135611634816115aa565b9250608087013567ffffffffffffffff81111561164f575f5ffd5b8701601f8101891361165f575f5ffd5b803567ffffffffffffffff811115611675575f5ffd5b896020828401011115611686575f5ffd5b60208201935080925050509295509295509295565b5f5f604083850312156116ac575f5ffd5b50508035926020909101359150565b5f5f5f606084860312156116cd575f5ffd5b833592506020840135915060408401356116e6816115aa565b809150509250925092565b602080825282518282018190525f918401906040840190835b818110156117315783516001600160a01b031683526020938401939092019160010161170a565b509095945050505050565b5f81518084528060208401602086015e5f602082860101526020601f19601f83011685010191505092915050565b84815283602082015260ff83166040820152608060608201525f611791608083018461173c565b9695505050505050565b5f5f5f606084860312156117ad575f5ffd5b505081359360208301359350604090920135919050565b5f602082840312156117d4575f5ffd5b81518015158114610b17575f5ffd5b634e487b7160e01b5f52603260045260245ffd5b6001600160a01b0381168114610fbd575f5ffd5b5f6020828403121561181b575f5ffd5b8135610b17816117f7565b805160ff81168114610f53575f5ffd5b5f60208284031215611846575f5ffd5b610b1782611826565b602080825281018290525f8360408301825b85811015611891578235611874816117f7565b6001600160a01b0316825260209283019290910190600101611861565b5095945050505050565b5f5f604083850312156118ac575f5ffd5b505080516020909101519092909150565b5f602082840312156118cd575f5ffd5b5051919050565b5f602082840312156118e4575f5ffd5b8151610b17816115aa565b634e487b7160e01b5f52604160045260245ffd5b5f5f5f5f60808587031215611916575f5ffd5b84516020860151909450925061192e60408601611826565b9150606085015167ffffffffffffffff811115611949575f5ffd5b8501601f81018713611959575f5ffd5b805167ffffffffffffffff811115611973576119736118ef565b604051601f8201601f19908116603f0116810167ffffffffffffffff811182821017156119a2576119a26118ef565b6040528181528282016020018910156119b9575f5ffd5b8160208401602083015e5f6020838301015280935050505092959194509250565b8082018082111561038b57634e487b7160e01b5f52601160045260245ffd5b85815284602082015283604082015269ffffffffffffffffffff8316606082015260a060808201525f6111fb60a083018461173c565b5f5f60408385031215611a40575f5ffd5b82516020840151909250611a53816117f7565b809150509250929050565b805160208201516001600160e01b0319811691906004821015611a95576001600160e01b0319600483900360031b81901b82161692505b505091905056fea164736f6c634300081b000a";
+
+type FallbackPriceOracleConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: FallbackPriceOracleConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class FallbackPriceOracle__factory extends ContractFactory {
+  constructor(...args: FallbackPriceOracleConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    _assetRegistry: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(_assetRegistry, overrides || {});
+  }
+  override deploy(
+    _assetRegistry: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ) {
+    return super.deploy(_assetRegistry, overrides || {}) as Promise<
+      FallbackPriceOracle & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(
+    runner: ContractRunner | null
+  ): FallbackPriceOracle__factory {
+    return super.connect(runner) as FallbackPriceOracle__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): FallbackPriceOracleInterface {
+    return new Interface(_abi) as FallbackPriceOracleInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): FallbackPriceOracle {
+    return new Contract(
+      address,
+      _abi,
+      runner
+    ) as unknown as FallbackPriceOracle;
+  }
+}
@@ -7,7 +7,12 @@ import {
   ContractTransactionResponse,
   Interface,
 } from "ethers";
-import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type {
+  Signer,
+  AddressLike,
+  ContractDeployTransaction,
+  ContractRunner,
+} from "ethers";
 import type { NonPayableOverrides } from "../../common";
 import type {
   MarketFactory,
@@ -15,6 +20,17 @@ import type {
 } from "../../contracts/MarketFactory";
 
 const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_arbiter",
+        type: "address",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
   {
     anonymous: false,
     inputs: [
@@ -64,6 +80,90 @@ const _abi = [
     name: "MarketCreated",
     type: "event",
   },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint16",
+        name: "feeBps",
+        type: "uint16",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "recipient",
+        type: "address",
+      },
+    ],
+    name: "ProtocolFeeUpdated",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "MAX_CREATOR_FEE_BPS",
+    outputs: [
+      {
+        internalType: "uint16",
+        name: "",
+        type: "uint16",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_EXIT_PENALTY_BPS",
+    outputs: [
+      {
+        internalType: "uint16",
+        name: "",
+        type: "uint16",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_PROTOCOL_FEE_BPS",
+    outputs: [
+      {
+        internalType: "uint16",
+        name: "",
+        type: "uint16",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "admin",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "arbiter",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
   {
     inputs: [
       {
@@ -92,15 +192,55 @@ const _abi = [
         type: "address",
       },
       {
-        internalType: "enum PriceOracle.Asset",
+        internalType: "bytes32",
         name: "_targetAsset",
-        type: "uint8",
+        type: "bytes32",
       },
       {
         internalType: "uint256",
         name: "_targetPrice",
         type: "uint256",
       },
+      {
+        internalType: "string[]",
+        name: "_outcomeLabels",
+        type: "string[]",
+      },
+      {
+        internalType: "uint256[]",
+        name: "_bucketBoundaries",
+        type: "uint256[]",
+      },
+      {
+        internalType: "uint256",
+        name: "_refundGracePeriod",
+        type: "uint256",
+      },
+      {
+        internalType: "uint16",
+        name: "_creatorFeeBps",
+        type: "uint16",
+      },
+      {
+        internalType: "uint16",
+        name: "_exitPenaltyBps",
+        type: "uint16",
+      },
+      {
+        internalType: "address",
+        name: "_collateralToken",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "_confidentialToken",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "_twapWindow",
+        type: "uint256",
+      },
     ],
     name: "createMarket",
     outputs: [
@@ -355,6 +495,19 @@ const _abi = [
     stateMutability: "view",
     type: "function",
   },
+  {
+    inputs: [],
+    name: "marketDeployer",
+    outputs: [
+      {
+        internalType: "contract MarketDeployer",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
   {
     inputs: [
       {
@@ -428,35 +581,118 @@ const _abi = [
     stateMutability: "view",
     type: "function",
   },
+  {
+    inputs: [],
+    name: "protocolFeeBps",
+    outputs: [
+      {
+        internalType: "uint16",
+        name: "",
+        type: "uint16",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "protocolFeeRecipient",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint16",
+        name: "_feeBps",
+        type: "uint16",
+      },
+      {
+        internalType: "address",
+        name: "_recipient",
+        type: "address",
+      },
+    ],
+    name: "setProtocolFee",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
 ] as const;
 
 const _bytecode =
-  "0x6080604052348015600e575f5ffd5b506152578061001c5f395ff3fe608060405234801561000f575f5ffd5b50600436106100cf575f3560e01c8063b1283e771161007d578063da4473d811610058578063da4473d814610228578063eb44fdd31461023b578063fd69f3c21461024e575f5ffd5b8063b1283e77146101db578063ba1f5195146101ee578063c435138614610201575f5ffd5b806358e6309f116100ad57806358e6309f1461015e57806380968d481461019b578063ad4eb89b146101bb575f5ffd5b80630403190b146100d35780630cf85bcc14610103578063530e379914610128575b5f5ffd5b6100e66100e1366004610e64565b610255565b6040516001600160a01b0390911681526020015b60405180910390f35b610116610111366004610f4c565b61067e565b6040516100fa96959493929190610f9a565b610150610136366004610f4c565b6001600160a01b03165f9081526001602052604090205490565b6040519081526020016100fa565b61018b61016c366004610f4c565b6001600160a01b039081165f9081526002602052604090205416151590565b60405190151581526020016100fa565b6101ae6101a9366004610fe2565b610847565b6040516100fa9190611002565b6101ce6101c936600461104d565b610983565b6040516100fa9190611124565b6100e66101e9366004611202565b610b60565b6100e66101fc366004611219565b610b87565b61021461020f366004610f4c565b610bbb565b6040516100fa989796959493929190611241565b6101ae610236366004610f4c565b610c97565b6100e6610249366004611202565b610d0a565b5f54610150565b5f5f8751116102ab5760405162461bcd60e51b815260206004820152601b60248201527f4465736372697074696f6e2063616e6e6f7420626520656d707479000000000060448201526064015b60405180910390fd5b5f86116103065760405162461bcd60e51b8152602060048201526024808201527f436f6d6d69746d656e74206475726174696f6e206d75737420626520706f73696044820152637469766560e01b60648201526084016102a2565b5f85116103555760405162461bcd60e51b815260206004820152601f60248201527f4576656e74206475726174696f6e206d75737420626520706f7369746976650060448201526064016102a2565b6001886001811115610369576103696110fc565b03610439576001600160a01b0384166103ea5760405162461bcd60e51b815260206004820152602760248201527f5072696365206f7261636c6520726571756972656420666f722070726963652060448201527f6d61726b6574730000000000000000000000000000000000000000000000000060648201526084016102a2565b5f82116104395760405162461bcd60e51b815260206004820152601d60248201527f546172676574207072696365206d75737420626520706f73697469766500000060448201526064016102a2565b5f8888888888888860405161044d90610d87565b61045d97969594939291906112a9565b604051809103905ff080158015610476573d5f5f3e3d5ffd5b5060408051610100810182526001600160a01b03831681523360208201529081018a9052909250829150606081016104ae894261131e565b81526020016104bd884261131e565b81526020014281526020016001151581526020018a60018111156104e3576104e36110fc565b90526001600160a01b038084165f908152600260208181526040928390208551815490861673ffffffffffffffffffffffffffffffffffffffff199182161782559186015160018201805491909616921691909117909355908301519082019061054d90826113af565b50606082015160038201556080820151600482015560a0820151600582015560c082015160068201805491151560ff1983168117825560e08501519261ff001990911661ffff19909116176101008360018111156105ad576105ad6110fc565b0217905550505f8054600181810183557f290decd9548b62a8d60345a988386fc84ba6bc95484008f6362f93160ef3e56390910180546001600160a01b03871673ffffffffffffffffffffffffffffffffffffffff1991821681179092553380855260208481526040808720805496870181558752952090930180549091168217905591519092507fbeabe7f3c140196f6671f4f25e0a0fff7d8366b8d15deaae3b0a3becbc70f3199061066a908c908e908d908d90429061146a565b60405180910390a350979650505050505050565b6001600160a01b038082165f90815260026020818152604080842081516101008101835281548716815260018201549096169286019290925291810180549394606094869485948594859485949093840191906106da90611331565b80601f016020809104026020016040519081016040528092919081815260200182805461070690611331565b80156107515780601f1061072857610100808354040283529160200191610751565b820191905f5260205f20905b81548152906001019060200180831161073457829003601f168201915b5050509183525050600382015460208201526004820154604082015260058201546060820152600682015460ff8082161515608084015260a0909201916101009091041660018111156107a6576107a66110fc565b60018111156107b7576107b76110fc565b90525080519091506001600160a01b03166108145760405162461bcd60e51b815260206004820152601060248201527f4d61726b6574206e6f7420666f756e640000000000000000000000000000000060448201526064016102a2565b602081015160408201516060830151608084015160a085015160c090950151939c929b5090995097509195509350915050565b5f54606090831061089a5760405162461bcd60e51b815260206004820152601460248201527f4f6666736574206f7574206f6620626f756e647300000000000000000000000060448201526064016102a2565b5f6108a5838561131e565b5f549091508111156108b557505f545b5f6108c085836114a7565b90508067ffffffffffffffff8111156108db576108db610df6565b604051908082528060200260200182016040528015610904578160200160208202803683370190505b5092505f5b81811015610979575f61091c828861131e565b8154811061092c5761092c6114ba565b905f5260205f20015f9054906101000a90046001600160a01b0316848281518110610959576109596114ba565b6001600160a01b0390921660209283029190910190910152600101610909565b5050505b92915050565b6060815167ffffffffffffffff81111561099f5761099f610df6565b6040519080825280602002602001820160405280156109d857816020015b6109c5610d94565b8152602001906001900390816109bd5790505b5090505f5b8251811015610b5a5760025f8483815181106109fb576109fb6114ba565b6020908102919091018101516001600160a01b0390811683528282019390935260409182015f208251610100810184528154851681526001820154909416918401919091526002810180549192840191610a5490611331565b80601f0160208091040260200160405190810160405280929190818152602001828054610a8090611331565b8015610acb5780601f10610aa257610100808354040283529160200191610acb565b820191905f5260205f20905b815481529060010190602001808311610aae57829003601f168201915b5050509183525050600382015460208201526004820154604082015260058201546060820152600682015460ff8082161515608084015260a090920191610100909104166001811115610b2057610b206110fc565b6001811115610b3157610b316110fc565b81525050828281518110610b4757610b476114ba565b60209081029190910101526001016109dd565b50919050565b5f8181548110610b6e575f80fd5b5f918252602090912001546001600160a01b0316905081565b6001602052815f5260405f208181548110610ba0575f80fd5b5f918252602090912001546001600160a01b03169150829050565b600260208190525f91825260409091208054600182015492820180546001600160a01b03928316949092169291610bf190611331565b80601f0160208091040260200160405190810160405280929190818152602001828054610c1d90611331565b8015610c685780601f10610c3f57610100808354040283529160200191610c68565b820191905f5260205f20905b815481529060010190602001808311610c4b57829003601f168201915b505050506003830154600484015460058501546006909501549394919390925060ff8082169161010090041688565b6001600160a01b0381165f90815260016020908152604091829020805483518184028101840190945280845260609392830182828015610cfe57602002820191905f5260205f20905b81546001600160a01b03168152600190910190602001808311610ce0575b50505050509050919050565b5f80548210610d5b5760405162461bcd60e51b815260206004820152601360248201527f496e646578206f7574206f6620626f756e64730000000000000000000000000060448201526064016102a2565b5f8281548110610d6d57610d6d6114ba565b5f918252602090912001546001600160a01b031692915050565b613d7c806114cf83390190565b6040518061010001604052805f6001600160a01b031681526020015f6001600160a01b03168152602001606081526020015f81526020015f81526020015f81526020015f151581526020015f6001811115610df157610df16110fc565b905290565b634e487b7160e01b5f52604160045260245ffd5b604051601f8201601f1916810167ffffffffffffffff81118282101715610e3357610e33610df6565b604052919050565b80356001600160a01b0381168114610e51575f5ffd5b919050565b803560038110610e51575f5ffd5b5f5f5f5f5f5f5f60e0888a031215610e7a575f5ffd5b873560028110610e88575f5ffd5b9650602088013567ffffffffffffffff811115610ea3575f5ffd5b8801601f81018a13610eb3575f5ffd5b803567ffffffffffffffff811115610ecd57610ecd610df6565b610ee0601f8201601f1916602001610e0a565b8181528b6020838501011115610ef4575f5ffd5b816020840160208301375f918101602001919091529650506040880135945060608801359350610f2660808901610e3b565b9250610f3460a08901610e56565b96999598509396929591949193505060c09091013590565b5f60208284031215610f5c575f5ffd5b610f6582610e3b565b9392505050565b5f81518084528060208401602086015e5f602082860101526020601f19601f83011685010191505092915050565b6001600160a01b038716815260c060208201525f610fbb60c0830188610f6c565b905085604083015284606083015283608083015282151560a0830152979650505050505050565b5f5f60408385031215610ff3575f5ffd5b50508035926020909101359150565b602080825282518282018190525f918401906040840190835b818110156110425783516001600160a01b031683526020938401939092019160010161101b565b509095945050505050565b5f6020828403121561105d575f5ffd5b813567ffffffffffffffff811115611073575f5ffd5b8201601f81018413611083575f5ffd5b803567ffffffffffffffff81111561109d5761109d610df6565b8060051b6110ad60208201610e0a565b918252602081840181019290810190878411156110c8575f5ffd5b6020850194505b838510156110f1576110e085610e3b565b8252602094850194909101906110cf565b979650505050505050565b634e487b7160e01b5f52602160045260245ffd5b60028110611120576111206110fc565b9052565b5f602082016020835280845180835260408501915060408160051b8601019250602086015f5b828110156111f657603f1987860301845281516001600160a01b0381511686526001600160a01b03602082015116602087015260408101516101006040880152611198610100880182610f6c565b9050606082015160608801526080820151608088015260a082015160a088015260c08201516111cb60c089018215159052565b5060e082015191506111e060e0880183611110565b955050602093840193919091019060010161114a565b50929695505050505050565b5f60208284031215611212575f5ffd5b5035919050565b5f5f6040838503121561122a575f5ffd5b61123383610e3b565b946020939093013593505050565b6001600160a01b03891681526001600160a01b038816602082015261010060408201525f611273610100830189610f6c565b90508660608301528560808301528460a083015283151560c083015261129c60e0830184611110565b9998505050505050505050565b6112b38189611110565b60e060208201525f6112c860e0830189610f6c565b90508660408301528560608301526001600160a01b0385166080830152600384106112f5576112f56110fc565b60a082019390935260c0015295945050505050565b634e487b7160e01b5f52601160045260245ffd5b8082018082111561097d5761097d61130a565b600181811c9082168061134557607f821691505b602082108103610b5a57634e487b7160e01b5f52602260045260245ffd5b601f8211156113aa57805f5260205f20601f840160051c810160208510156113885750805b601f840160051c820191505b818110156113a7575f8155600101611394565b50505b505050565b815167ffffffffffffffff8111156113c9576113c9610df6565b6113dd816113d78454611331565b84611363565b6020601f82116001811461140f575f83156113f85750848201515b5f19600385901b1c1916600184901b1784556113a7565b5f84815260208120601f198516915b8281101561143e578785015182556020948501946001909201910161141e565b508482101561145b57868401515f19600387901b60f8161c191681555b50505050600190811b01905550565b60a081525f61147c60a0830188610f6c565b905061148b6020830187611110565b8460408301528360608301528260808301529695505050505050565b8181038181111561097d5761097d61130a565b634e487b7160e01b5f52603260045260245ffdfe608060405234801561000f575f5ffd5b50604051613d7c380380613d7c83398101604081905261002e916103b8565b6101a86100cc604080516080810182525f80825260208201819052918101829052606081019190915250604080516080810182527350157cffd6bbfa2dece204a89ec419c23ef5755d815273cd3ab3bd6bcc0c0bf3e27912a92043e817b1cf69602082015273a02cda4ca3a71d7c46997716f4283aa851c2881291810191909152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac606082015290565b80517f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970080546001600160a01b03199081166001600160a01b039384161790915560208301517f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497018054831691841691909117905560408301517f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497028054831691841691909117905560608301517f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497038054909216921691909117905550565b5f805460ff1962010000330290811661ff01600160b01b0319831617835589929161ffff199091166001600160b01b0319909116176101008360018111156101f2576101f26104c1565b021790555060016102038782610559565b5061020e8542610613565b600281905561021e908590610613565b6003556001876001811115610235576102356104c1565b03610331576001600160a01b0383166102955760405162461bcd60e51b815260206004820152601660248201527f496e76616c6964206f7261636c6520616464726573730000000000000000000060448201526064015b60405180910390fd5b5f81116102e45760405162461bcd60e51b815260206004820152601460248201527f496e76616c696420746172676574207072696365000000000000000000000000604482015260640161028c565b600480546001600160a01b0385166001600160a01b03198216811783558492916001600160a81b03191617600160a01b836002811115610326576103266104c1565b021790555060058190555b6002546003546040517f88e25d3fbb0b1cbd1fb440faec67b4386ef912082f8d22116b252800c1c6b7e592610367928a92610638565b60405180910390a15050505050505061067b565b634e487b7160e01b5f52604160045260245ffd5b80516001600160a01b03811681146103a5575f5ffd5b919050565b8051600381106103a5575f5ffd5b5f5f5f5f5f5f5f60e0888a0312156103ce575f5ffd5b8751600281106103dc575f5ffd5b60208901519097506001600160401b038111156103f7575f5ffd5b8801601f81018a13610407575f5ffd5b80516001600160401b038111156104205761042061037b565b604051601f8201601f19908116603f011681016001600160401b038111828210171561044e5761044e61037b565b6040528181528282016020018c1015610465575f5ffd5b8160208401602083015e5f9181016020019190915260408a015160608b01519198509650945061049990506080890161038f565b92506104a760a089016103aa565b91505f60c089015190508091505092959891949750929550565b634e487b7160e01b5f52602160045260245ffd5b600181811c908216806104e957607f821691505b60208210810361050757634e487b7160e01b5f52602260045260245ffd5b50919050565b601f82111561055457805f5260205f20601f840160051c810160208510156105325750805b601f840160051c820191505b81811015610551575f815560010161053e565b50505b505050565b81516001600160401b038111156105725761057261037b565b6105868161058084546104d5565b8461050d565b6020601f8211600181146105b8575f83156105a15750848201515b5f19600385901b1c1916600184901b178455610551565b5f84815260208120601f198516915b828110156105e757878501518255602094850194600190920191016105c7565b508482101561060457868401515f19600387901b60f8161c191681555b50505050600190811b01905550565b8082018082111561063257634e487b7160e01b5f52601160045260245ffd5b92915050565b606081525f84518060608401528060208701608085015e5f608082850101526080601f19601f830116840101915050836020830152826040830152949350505050565b6136f4806106885f395ff3fe6080604052600436106102c1575f3560e01c80636b3d920711610170578063c78155b5116100d1578063da1f12ab11610087578063ee36d75511610062578063ee36d7551461080e578063f481d3be1461082c578063fe253ebd14610845575f5ffd5b8063da1f12ab146107a0578063dc38679c146107b4578063e805156e146107c9575f5ffd5b8063cfe0bf8b116100b7578063cfe0bf8b14610743578063d442747e1461076c578063d51ade411461078b575f5ffd5b8063c78155b5146106f0578063cce3ec561461072a575f5ffd5b80638fa990e311610126578063ad6057291161010c578063ad605729146106b1578063b4106cdf146106c5578063c3a079ed146106da575f5ffd5b80638fa990e31461067b5780639434571b14610690575f5ffd5b8063776377b411610156578063776377b4146106235780638b48da6f146106385780638da5cb5b14610657575f5ffd5b80636b3d9207146105e057806373b2e80e146105f5575f5ffd5b80633270bb5b11610225578063404002a6116101db5780635eb36d55116101b65780635eb36d55146105a45780636234e1de146105b957806362552023146105cd575f5ffd5b8063404002a6146104ff578063415d6a011461051d5780635dd8675f1461059c575f5ffd5b8063372500ab1161020b578063372500ab146104745780633d4403ac146104885780634004adfd146104b5575f5ffd5b80633270bb5b1461042c57806335c1d34914610455575f5ffd5b80631bb3399d1161027a57806323341a051161026057806323341a05146103a35780632630c12f146103e35780632dd4890914610402575f5ffd5b80631bb3399d1461037b5780631e4d47951461038f575f5ffd5b806308793c6a116102aa57806308793c6a1461031457806312065fe0146103285780631b9db2ef14610344575f5ffd5b8063055ad42e146102c557806306100414146102f3575b5f5ffd5b3480156102d0575f5ffd5b505f546102dd9060ff1681565b6040516102ea91906130b2565b60405180910390f35b3480156102fe575f5ffd5b5061031261030d3660046130d0565b610859565b005b34801561031f575f5ffd5b50610312610b2a565b348015610333575f5ffd5b50475b6040519081526020016102ea565b34801561034f575f5ffd5b5061036361035e3660046130eb565b610e4e565b6040516001600160a01b0390911681526020016102ea565b348015610386575f5ffd5b50610312610ece565b34801561039a575f5ffd5b506103126111db565b3480156103ae575f5ffd5b505f54600254600354600c54600d54600e5460ff95861695808216916101009004166040516102ea9796959493929190613102565b3480156103ee575f5ffd5b50600454610363906001600160a01b031681565b34801561040d575f5ffd5b505f5461041f90610100900460ff1681565b6040516102ea9190613154565b348015610437575f5ffd5b50600e546104459060ff1681565b60405190151581526020016102ea565b348015610460575f5ffd5b5061036361046f3660046130eb565b6113b7565b34801561047f575f5ffd5b506103126113df565b348015610493575f5ffd5b506004546104a890600160a01b900460ff1681565b6040516102ea9190613172565b3480156104c0575f5ffd5b506104ef5f5460045460055460ff6101009093048316926001600160a01b03831692600160a01b900416919293565b6040516102ea9493929190613180565b34801561050a575f5ffd5b50600e5461044590610100900460ff1681565b348015610528575f5ffd5b5061057f6105373660046131b9565b6001600160a01b03165f9081526006602090815260409182902082516060810184528154808252600183015493820184905260029092015460ff161515930183905292909190565b6040805193845260208401929092521515908201526060016102ea565b61031261162b565b3480156105af575f5ffd5b50610336600c5481565b3480156105c4575f5ffd5b50610312611895565b6103126105db366004613224565b611a26565b3480156105eb575f5ffd5b5061033660035481565b348015610600575f5ffd5b5061044561060f3660046131b9565b60126020525f908152604090205460ff1681565b34801561062e575f5ffd5b50610336600d5481565b348015610643575f5ffd5b50610312610652366004613345565b611da4565b348015610662575f5ffd5b505f54610363906201000090046001600160a01b031681565b348015610686575f5ffd5b5061033660025481565b34801561069b575f5ffd5b506106a4612190565b6040516102ea91906133e0565b3480156106bc575f5ffd5b50600754610336565b3480156106d0575f5ffd5b5061033660115481565b3480156106e5575f5ffd5b506103366201518081565b3480156106fb575f5ffd5b5061044561070a3660046131b9565b6001600160a01b03165f9081526006602052604090206002015460ff1690565b348015610735575f5ffd5b50600b546104459060ff1681565b34801561074e575f5ffd5b5061075761221c565b604080519283526020830191909152016102ea565b348015610777575f5ffd5b50610312610786366004613345565b61229b565b348015610796575f5ffd5b50610336600f5481565b3480156107ab575f5ffd5b50612711610336565b3480156107bf575f5ffd5b5061033660055481565b3480156107d4575f5ffd5b506107dd612406565b60408051961515875294151560208701529385019290925260608401526080830152151560a082015260c0016102ea565b348015610819575f5ffd5b5060105461044590610100900460ff1681565b348015610837575f5ffd5b506010546104459060ff1681565b348015610850575f5ffd5b5061031261248b565b5f546201000090046001600160a01b031633146108bd5760405162461bcd60e51b815260206004820152601860248201527f4f6e6c79206f776e65722063616e2063616c6c2074686973000000000000000060448201526064015b60405180910390fd5b6003805f5460ff1660038111156108d6576108d661308a565b146109105760405162461bcd60e51b815260206004820181905260248201525f5160206136a85f395f51905f5260448201526064016108b4565b5f5f54610100900460ff16600181111561092c5761092c61308a565b146109795760405162461bcd60e51b815260206004820152601660248201527f4f6e6c7920666f72206576656e74206d61726b6574730000000000000000000060448201526064016108b4565b600e5460ff16156109be5760405162461bcd60e51b815260206004820152600f60248201526e105b1c9958591e481cd95d1d1b1959608a1b60448201526064016108b4565b601054610100900460ff1615610a165760405162461bcd60e51b815260206004820152601b60248201527f536574746c656d656e7420616c72656164792070726f706f736564000000000060448201526064016108b4565b600354421015610a685760405162461bcd60e51b815260206004820152601360248201527f4576656e74206e6f7420656e646564207965740000000000000000000000000060448201526064016108b4565b5f60115411610ab95760405162461bcd60e51b815260206004820152601860248201527f4d757374206465706f736974207374616b65206669727374000000000000000060448201526064016108b4565b6010805461ff00198415151661ffff199091161761010017905542600f8190557f1c5193a1a43eb40c07622c3e2cdc2e54f2704d6a38265ea29a169adfea600a13908390610b0b906201518090613406565b6040805192151583526020830191909152015b60405180910390a15050565b60015f54610100900460ff166001811115610b4757610b4761308a565b14610b945760405162461bcd60e51b815260206004820152601660248201527f4f6e6c7920666f72207072696365206d61726b6574730000000000000000000060448201526064016108b4565b600e5460ff1615610bd95760405162461bcd60e51b815260206004820152600f60248201526e105b1c9958591e481cd95d1d1b1959608a1b60448201526064016108b4565b600354421015610c2b5760405162461bcd60e51b815260206004820152601360248201527f4576656e74206e6f7420656e646564207965740000000000000000000000000060448201526064016108b4565b6004546001600160a01b0316610c835760405162461bcd60e51b815260206004820152600e60248201527f4f7261636c65206e6f742073657400000000000000000000000000000000000060448201526064016108b4565b60035f5460ff166003811115610c9b57610c9b61308a565b14610d0e5760405162461bcd60e51b815260206004820152602e60248201527f4d75737420636f6d706c657465206167677265676174696f6e20616e6420646560448201527f6372797074696f6e20666972737400000000000000000000000000000000000060648201526084016108b4565b5f600c541180610d1f57505f600d54115b610d6b5760405162461bcd60e51b815260206004820152601160248201527f4e6f206265747320746f20736574746c6500000000000000000000000000000060448201526064016108b4565b60048054604051631bf8f3f960e11b81525f926001600160a01b038316926337f1e7f292610da592600160a01b90920460ff169101613172565b6040805180830381865afa158015610dbf573d5f5f3e3d5ffd5b505050506040513d601f19601f82011682018060405250810190610de39190613419565b50600554600e805460ff196101009385101584021661ffff1990911617600117908190556040519293507fdb2a328be8e4e74480b048bb0dbd0dfc5edf85cfbc82d320c173a92d390a1ef292610e439290910460ff161515815260200190565b60405180910390a150565b6007545f908210610ea15760405162461bcd60e51b815260206004820152601360248201527f496e646578206f7574206f6620626f756e64730000000000000000000000000060448201526064016108b4565b60078281548110610eb457610eb461343b565b5f918252602090912001546001600160a01b031692915050565b6003805f5460ff166003811115610ee757610ee761308a565b14610f215760405162461bcd60e51b815260206004820181905260248201525f5160206136a85f395f51905f5260448201526064016108b4565b5f5f54610100900460ff166001811115610f3d57610f3d61308a565b14610f8a5760405162461bcd60e51b815260206004820152601660248201527f4f6e6c7920666f72206576656e74206d61726b6574730000000000000000000060448201526064016108b4565b601054610100900460ff16610fe15760405162461bcd60e51b815260206004820152601760248201527f536574746c656d656e74206e6f742070726f706f73656400000000000000000060448201526064016108b4565b600e5460ff16156110265760405162461bcd60e51b815260206004820152600f60248201526e105b1c9958591e481cd95d1d1b1959608a1b60448201526064016108b4565b62015180600f546110379190613406565b4210156110865760405162461bcd60e51b815260206004820152601a60248201527f4368616c6c656e676520706572696f64206e6f7420656e64656400000000000060448201526064016108b4565b601054600e8054600161ffff1990911661010060ff90941615159390930260ff191692909217919091179055601180545f918290558154604051919291620100009091046001600160a01b03169083908381818185875af1925050503d805f811461110c576040519150601f19603f3d011682016040523d82523d5f602084013e611111565b606091505b50509050806111625760405162461bcd60e51b815260206004820152601360248201527f5374616b652072657475726e206661696c65640000000000000000000000000060448201526064016108b4565b6040518281527f6959ab982133e1e1f6501b33cbb57c50c4efbb64df110e39c00334cdcaaf8ad29060200160405180910390a1600e5460405161010090910460ff16151581527fdb2a328be8e4e74480b048bb0dbd0dfc5edf85cfbc82d320c173a92d390a1ef2906020015b60405180910390a1505050565b6003805f5460ff1660038111156111f4576111f461308a565b1461122e5760405162461bcd60e51b815260206004820181905260248201525f5160206136a85f395f51905f5260448201526064016108b4565b601054610100900460ff166112855760405162461bcd60e51b815260206004820152601a60248201527f4e6f20736574746c656d656e7420746f206368616c6c656e676500000000000060448201526064016108b4565b600e5460ff16156112ca5760405162461bcd60e51b815260206004820152600f60248201526e105b1c9958591e481cd95d1d1b1959608a1b60448201526064016108b4565b62015180600f546112db9190613406565b42106113295760405162461bcd60e51b815260206004820152601660248201527f4368616c6c656e676520706572696f6420656e6465640000000000000000000060448201526064016108b4565b335f9081526006602052604090206002015460ff1661138a5760405162461bcd60e51b815260206004820152601560248201527f4d7573742062652061207061727469636970616e74000000000000000000000060448201526064016108b4565b60405133907f87a452e1cbe86768199fa487d0c2897dabed299ac912b696ae1f4ceaa742eba4905f90a250565b600781815481106113c6575f80fd5b5f918252602090912001546001600160a01b0316905081565b6003805f5460ff1660038111156113f8576113f861308a565b146114325760405162461bcd60e51b815260206004820181905260248201525f5160206136a85f395f51905f5260448201526064016108b4565b600e5460ff166114845760405162461bcd60e51b815260206004820152601660248201527f4d61726b6574206e6f7420736574746c6564207965740000000000000000000060448201526064016108b4565b335f9081526012602052604090205460ff16156114e35760405162461bcd60e51b815260206004820152601760248201527f416c726561647920636c61696d6564207265776172647300000000000000000060448201526064016108b4565b335f9081526006602052604090206002015460ff166115445760405162461bcd60e51b815260206004820152601360248201527f446964206e6f742070617274696369706174650000000000000000000000000060448201526064016108b4565b6040805160028082526060820183525f9260208301908036833701905050335f90815260066020526040902054909150815f815181106115865761158661343b565b602090810291909101810191909152335f90815260069091526040902060010154816001815181106115ba576115ba61343b565b60209081029190910101525f6115d782638b48da6f60e01b6126f3565b335f818152601360205260409081902083905551919250907f71431efdffe03bc79c5607c1cf67764f4cf3e224fb5e5dfc04178260aa0b93229061161e9084815260200190565b60405180910390a2505050565b5f546201000090046001600160a01b0316331461168a5760405162461bcd60e51b815260206004820152601860248201527f4f6e6c79206f776e65722063616e2063616c6c2074686973000000000000000060448201526064016108b4565b6003805f5460ff1660038111156116a3576116a361308a565b146116dd5760405162461bcd60e51b815260206004820181905260248201525f5160206136a85f395f51905f5260448201526064016108b4565b5f5f54610100900460ff1660018111156116f9576116f961308a565b146117465760405162461bcd60e51b815260206004820152601660248201527f4f6e6c7920666f72206576656e74206d61726b6574730000000000000000000060448201526064016108b4565b601054610100900460ff161561179e5760405162461bcd60e51b815260206004820152601b60248201527f536574746c656d656e7420616c72656164792070726f706f736564000000000060448201526064016108b4565b601154156117ee5760405162461bcd60e51b815260206004820152601760248201527f5374616b6520616c7265616479206465706f736974656400000000000000000060448201526064016108b4565b5f600d54600c546117ff9190613406565b90505f61180d600a8361344f565b90508034101561185f5760405162461bcd60e51b815260206004820152601260248201527f496e73756666696369656e74207374616b65000000000000000000000000000060448201526064016108b4565b3460118190556040519081527f7ec8c22e73ffe69048ea6179b2baccc8452bfe1a4c25b173d0c1844d498a4880906020016111ce565b6001805f5460ff1660038111156118ae576118ae61308a565b146118e85760405162461bcd60e51b815260206004820181905260248201525f5160206136a85f395f51905f5260448201526064016108b4565b600b5460ff1661193a5760405162461bcd60e51b815260206004820152601760248201527f42657473206e6f7420616767726567617465642079657400000000000000000060448201526064016108b4565b6040805160028082526060820183525f9260208301908036833701905050905061196360085490565b815f815181106119755761197561343b565b6020908102919091010152600954816001815181106119965761199661343b565b60209081029190910101526119b281636a213a3f60e11b6126f3565b600a8190555f805460ff191660021790556040519081527f692f7082be436727c1eb360ad57f2116cf8e2d16001837c08adafb7e0fa2f8f99060200160405180910390a17fc847aefe15b8c362079c92928a3e12ebd56db092163d17840586ffe616ce7d346002604051610b1e91906130b2565b5f805f5460ff166003811115611a3e57611a3e61308a565b14611a785760405162461bcd60e51b815260206004820181905260248201525f5160206136a85f395f51905f5260448201526064016108b4565b6002544210611ac95760405162461bcd60e51b815260206004820152601b60248201527f436f6d6d69746d656e7420706572696f642068617320656e646564000000000060448201526064016108b4565b335f9081526006602052604090206002015460ff1615611b2b5760405162461bcd60e51b815260206004820152601160248201527f416c726561647920636f6d6d697474656400000000000000000000000000000060448201526064016108b4565b5f3411611b7a5760405162461bcd60e51b815260206004820152601d60248201527f4d7573742073656e6420455448207769746820636f6d6d69746d656e7400000060448201526064016108b4565b5f5f54610100900460ff166001811115611b9657611b9661308a565b03611c20575f546201000090046001600160a01b03163303611c205760405162461bcd60e51b815260206004820152602960248201527f4f776e65722063616e6e6f7420706172746963697061746520696e206576656e60448201527f74206d61726b657473000000000000000000000000000000000000000000000060648201526084016108b4565b5f611c608887878080601f0160208091040260200160405190810160405280939291908181526020018383808284375f9201919091525061270692505050565b90505f611ca28886868080601f0160208091040260200160405190810160405280939291908181526020018383808284375f9201919091525061271992505050565b6040805160608101825284815260208082018481526001838501818152335f81815260069095529584209451855591518482015590516002909301805460ff19169315159390931790925560078054928301815590527fa66cc928b5edb82af9bd49922954155ab7b0942694bea4ce44661d9a8736c6880180547fffffffffffffffffffffffff00000000000000000000000000000000000000001690911790559050611d4e82612726565b50611d598233612735565b50611d6381612726565b50611d6e8133612735565b5060405133907fc6521345b8fe191747b17c6e542ec3d7911aa2dad5ad5e754794ec8cad9802d5905f90a2505050505050505050565b60035f5460ff166003811115611dbc57611dbc61308a565b14611df95760405162461bcd60e51b815260206004820152600d60248201526c496e76616c696420706861736560981b60448201526064016108b4565b600e5460ff16611e4b5760405162461bcd60e51b815260206004820152601260248201527f4d61726b6574206e6f7420736574746c6564000000000000000000000000000060448201526064016108b4565b611e56838383612747565b5f805b600754811015611ed9578460135f60078481548110611e7a57611e7a61343b565b5f9182526020808320909101546001600160a01b0316835282019290925260400190205403611ed15760078181548110611eb657611eb661343b565b5f918252602090912001546001600160a01b03169150611ed9565b600101611e59565b506001600160a01b038116611f305760405162461bcd60e51b815260206004820152601a60248201527f55736572206e6f7420666f756e6420666f72207265717565737400000000000060448201526064016108b4565b6001600160a01b0381165f9081526012602052604090205460ff1615611f985760405162461bcd60e51b815260206004820152600f60248201527f416c726561647920636c61696d6564000000000000000000000000000000000060448201526064016108b4565b5f5f84806020019051810190611fae919061348a565b915091505f8260ff166001148015611fcd5750600e54610100900460ff165b80611fec575060ff8316158015611fec5750600e54610100900460ff16155b90508061203b5760405162461bcd60e51b815260206004820152600860248201527f596f75206c6f737400000000000000000000000000000000000000000000000060448201526064016108b4565b6001600160a01b0384165f908152601260205260408120805460ff19166001179055600e5467ffffffffffffffff84169190610100900460ff1661208157600d54612085565b600c545b9050475f8261209483866134c2565b61209e919061344f565b90505f886001600160a01b0316826040515f6040518083038185875af1925050503d805f81146120e9576040519150601f19603f3d011682016040523d82523d5f602084013e6120ee565b606091505b505090508061213f5760405162461bcd60e51b815260206004820152601360248201527f455448207472616e73666572206661696c65640000000000000000000000000060448201526064016108b4565b886001600160a01b03167ffc30cddea38e2bf4d6ea7d3f9ed3b6ad7f176419f4963bd81318067a4aee73fe8360405161217a91815260200190565b60405180910390a2505050505050505050505050565b6001805461219d906134d9565b80601f01602080910402602001604051908101604052809291908181526020018280546121c9906134d9565b80156122145780601f106121eb57610100808354040283529160200191612214565b820191905f5260205f20905b8154815290600101906020018083116121f757829003601f168201915b505050505081565b335f90815260066020526040812060020154819060ff1661227f5760405162461bcd60e51b815260206004820152601360248201527f4e6f20636f6d6d69746d656e7420666f756e640000000000000000000000000060448201526064016108b4565b5050335f90815260066020526040902080546001909101549091565b600a5483146122ec5760405162461bcd60e51b815260206004820152601260248201527f496e76616c69642072657175657374204944000000000000000000000000000060448201526064016108b4565b60025f5460ff1660038111156123045761230461308a565b146123415760405162461bcd60e51b815260206004820152600d60248201526c496e76616c696420706861736560981b60448201526064016108b4565b61234c838383612747565b5f5f838060200190518101906123629190613511565b67ffffffffffffffff828116600c819055908216600d8190555f805460ff191660031790556040805192835260208301919091529294509092507f1e5cacb9b9f53edf7140aa50858677a35ef681efbd89bd899434042dfe3cd175910160405180910390a17fc847aefe15b8c362079c92928a3e12ebd56db092163d17840586ffe616ce7d3460036040516123f791906130b2565b60405180910390a15050505050565b5f5f5f5f5f5f5f601060019054906101000a900460ff16612427575f612438565b62015180600f546124389190613406565b6010549091505f90610100900460ff1680156124575750600e5460ff16155b80156124635750814210155b601054600f5460115460ff610100840481169d93169b50909950939750929550935090915050565b5f805f5460ff1660038111156124a3576124a361308a565b146124dd5760405162461bcd60e51b815260206004820181905260248201525f5160206136a85f395f51905f5260448201526064016108b4565b60025442101561252f5760405162461bcd60e51b815260206004820152601b60248201527f436f6d6d69746d656e7420706572696f64206e6f7420656e646564000000000060448201526064016108b4565b60075461257e5760405162461bcd60e51b815260206004820152600f60248201527f4e6f207061727469636970616e7473000000000000000000000000000000000060448201526064016108b4565b6125875f6127b0565b6008556125935f6127b0565b6009555f5b600754811015612667575f600782815481106125b6576125b661343b565b5f9182526020808320909101546001600160a01b0316808352600690915260408220805460018281015493955091939092918391906125fe906125f8906127c6565b856127d5565b90505f61260a83612803565b90505f61261683612803565b90505f612623868461280f565b90505f612630878461280f565b905061263e6008548361283d565b60085560095461264e908261283d565b6009555050600190980197506125989650505050505050565b50612673600854612726565b5061267f600954612726565b50600b8054600160ff1991821681179092555f805490911690911781556040517fe92be885bfedbfc5b78745092770c1a607c143a6c5b0c14eab136440bd2f0cd59190a17fc847aefe15b8c362079c92928a3e12ebd56db092163d17840586ffe616ce7d346001604051610e4391906130b2565b5f6126ff83835f61286b565b9392505050565b5f6126ff83836002612986565b92915050565b5f6126ff83836005612986565b5f6127318230612a93565b5090565b5f6127408383612a93565b5090919050565b5f61275184612b09565b90505f61275f828585612bda565b90508061277f5760405163cf6c44e960e01b815260040160405180910390fd5b60405185907f1af0453083661051f6e56e5c070792320652e612154bf9af8637bb1e7655b99d905f90a25050505050565b5f6127138267ffffffffffffffff166005612cb3565b5f6127138260ff166002612cb3565b5f826127e7576127e45f6127c6565b92505b816127f8576127f55f6127c6565b91505b6126ff83835f612d5d565b5f612713826005612e2d565b5f826128215761281e5f6127b0565b92505b816128325761282f5f6127b0565b91505b6126ff83835f612e8f565b5f8261284f5761284c5f6127b0565b92505b816128605761285d5f6127b0565b91505b6126ff83835f612f19565b7f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0080545f5160206136c85f395f51905f528054604051637d6e912360e11b81529293926001600160a01b039091169063fadd2246906128ce908990600401613565565b5f604051808303815f87803b1580156128e5575f5ffd5b505af11580156128f7573d5f5f3e3d5ffd5b5050506002820154604051633263b83b60e01b81526001600160a01b039091169150633263b83b9086906129339087908b908b90600401613577565b5f604051808303818588803b15801561294a575f5ffd5b505af115801561295c573d5f5f3e3d5ffd5b505050505061296b8387612fa3565b8154825f612978836135a8565b919050555050509392505050565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497015460405163196d0b9b60e01b81525f915f5160206136c85f395f51905f52916001600160a01b039091169063196d0b9b906129ec9088903390899089906004016135d0565b6020604051808303815f875af1158015612a08573d5f5f3e3d5ffd5b505050506040513d601f19601f82011682018060405250810190612a2c919061360f565b8154604051630f8e573b60e21b8152600481018390523360248201529193506001600160a01b031690633e395cec906044015f604051808303815f87803b158015612a75575f5ffd5b505af1158015612a87573d5f5f3e3d5ffd5b50505050509392505050565b5f5f5160206136c85f395f51905f528054604051635ca4b5b160e11b8152600481018690526001600160a01b03858116602483015292935091169063b9496b62906044015f604051808303815f87803b158015612aee575f5ffd5b505af1158015612b00573d5f5f3e3d5ffd5b50505050505050565b5f8181527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0160205260408120546060917f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf00919003612b7a5760405163d66ca67560e01b815260040160405180910390fd5b5f83815260018201602090815260409182902080548351818402810184019094528084529091830182828015612bcd57602002820191905f5260205f20905b815481526020019060010190808311612bb9575b5050505050915050919050565b5f5f83516020612bea9190613406565b612bf5906020613406565b90505f8482604051602001612c0b929190613626565b60405160208183030381529060405290505f612c315f5160206136c85f395f51905f5290565b60038101546040516378542ead60e01b81529192506001600160a01b0316906378542ead90612c68908a9086908a90600401613640565b6020604051808303815f875af1158015612c84573d5f5f3e3d5ffd5b505050506040513d601f19601f82011682018060405250810190612ca89190613678565b979650505050505050565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970154604051639cd07acb60e01b81525f915f5160206136c85f395f51905f52916001600160a01b0390911690639cd07acb90612d159087908790600401613693565b6020604051808303815f875af1158015612d31573d5f5f3e3d5ffd5b505050506040513d601f19601f82011682018060405250810190612d55919061360f565b949350505050565b5f5f8215612d705750600160f81b612d73565b505f5b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649701546040516303056db360e31b815260048101879052602481018690526001600160f81b0319831660448201525f5160206136c85f395f51905f52916001600160a01b03169063182b6d98906064015b6020604051808303815f875af1158015612dff573d5f5f3e3d5ffd5b505050506040513d601f19601f82011682018060405250810190612e23919061360f565b9695505050505050565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649701546040516307227b9160e21b81525f915f5160206136c85f395f51905f52916001600160a01b0390911690631c89ee4490612d159087908790600401613693565b5f5f8215612ea25750600160f81b612ea5565b505f5b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970154604051630afe14ad60e31b815260048101879052602481018690526001600160f81b0319831660448201525f5160206136c85f395f51905f52916001600160a01b0316906357f0a56890606401612de3565b5f5f8215612f2c5750600160f81b612f2f565b505f5b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497015460405163022f65e760e31b815260048101879052602481018690526001600160f81b0319831660448201525f5160206136c85f395f51905f52916001600160a01b03169063117b2f3890606401612de3565b5f8281527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0160205260409020547f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf00901561301057604051633f06d22b60e01b815260040160405180910390fd5b5f8381526001820160209081526040909120835161303092850190613036565b50505050565b828054828255905f5260205f2090810192821561306f579160200282015b8281111561306f578251825591602001919060010190613054565b506127319291505b80821115612731575f8155600101613077565b634e487b7160e01b5f52602160045260245ffd5b600481106130ae576130ae61308a565b9052565b60208101612713828461309e565b80151581146130cd575f5ffd5b50565b5f602082840312156130e0575f5ffd5b81356126ff816130c0565b5f602082840312156130fb575f5ffd5b5035919050565b60e08101613110828a61309e565b87602083015286604083015285606083015284608083015283151560a083015282151560c083015298975050505050505050565b600281106130ae576130ae61308a565b602081016127138284613144565b600381106130ae576130ae61308a565b602081016127138284613162565b6080810161318e8287613144565b6001600160a01b03851660208301526131aa6040830185613162565b82606083015295945050505050565b5f602082840312156131c9575f5ffd5b81356001600160a01b03811681146126ff575f5ffd5b5f5f83601f8401126131ef575f5ffd5b50813567ffffffffffffffff811115613206575f5ffd5b60208301915083602082850101111561321d575f5ffd5b9250929050565b5f5f5f5f5f5f60808789031215613239575f5ffd5b8635955060208701359450604087013567ffffffffffffffff81111561325d575f5ffd5b61326989828a016131df565b909550935050606087013567ffffffffffffffff811115613288575f5ffd5b61329489828a016131df565b979a9699509497509295939492505050565b634e487b7160e01b5f52604160045260245ffd5b5f82601f8301126132c9575f5ffd5b813567ffffffffffffffff8111156132e3576132e36132a6565b604051601f8201601f19908116603f0116810167ffffffffffffffff81118282101715613312576133126132a6565b604052818152838201602001851015613329575f5ffd5b816020850160208301375f918101602001919091529392505050565b5f5f5f60608486031215613357575f5ffd5b83359250602084013567ffffffffffffffff811115613374575f5ffd5b613380868287016132ba565b925050604084013567ffffffffffffffff81111561339c575f5ffd5b6133a8868287016132ba565b9150509250925092565b5f81518084528060208401602086015e5f602082860101526020601f19601f83011685010191505092915050565b602081525f6126ff60208301846133b2565b634e487b7160e01b5f52601160045260245ffd5b80820180821115612713576127136133f2565b5f5f6040838503121561342a575f5ffd5b505080516020909101519092909150565b634e487b7160e01b5f52603260045260245ffd5b5f8261346957634e487b7160e01b5f52601260045260245ffd5b500490565b805167ffffffffffffffff81168114613485575f5ffd5b919050565b5f5f6040838503121561349b575f5ffd5b825160ff811681146134ab575f5ffd5b91506134b96020840161346e565b90509250929050565b8082028115828204841417612713576127136133f2565b600181811c908216806134ed57607f821691505b60208210810361350b57634e487b7160e01b5f52602260045260245ffd5b50919050565b5f5f60408385031215613522575f5ffd5b6134ab8361346e565b5f8151808452602084019350602083015f5b8281101561355b57815186526020958601959091019060010161353d565b5093949350505050565b602081525f6126ff602083018461352b565b838152606060208201525f61358f606083018561352b565b905063ffffffff60e01b83166040830152949350505050565b5f600182016135b9576135b96133f2565b5060010190565b605481106130ae576130ae61308a565b8481526001600160a01b0384166020820152608060408201525f6135f760808301856133b2565b905061360660608301846135c0565b95945050505050565b5f6020828403121561361f575f5ffd5b5051919050565b5f83518060208601845e9190910191825250602001919050565b606081525f613652606083018661352b565b828103602084015261366481866133b2565b90508281036040840152612e2381856133b2565b5f60208284031215613688575f5ffd5b81516126ff816130c0565b828152604081016126ff60208301846135c056fe496e76616c696420706861736520666f722074686973206f7065726174696f6e9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700a164736f6c634300081b000aa164736f6c634300081b000a";
+  "0x60c03461012b57601f61962f38819003918201601f19168301916001600160401b038311848410176100d25780849260209460405283398101031261012b57516001600160a01b03811680820361012b57156100e65760a0525f80546001600160a01b03191633179055604051617acc8082016001600160401b038111838210176100d2578291611b63833903905ff080156100c757608052604051611a339081610130823960805181818161057a0152610fa1015260a05181818161011801526104f40152f35b6040513d5f823e3d90fd5b634e487b7160e01b5f52604160045260245ffd5b60405162461bcd60e51b815260206004820152601760248201527f496e76616c6964206172626974657220616464726573730000000000000000006044820152606490fd5b5f80fdfe6080806040526004361015610012575f80fd5b5f3560e01c9081630cf85bcc1461164d575080632df5e23b1461163157806335659fb81461160e578063530e3799146115d657806358e6309f1461159457806364df049e1461156c5780636d947e4b146112da57806380968d481461145d5780639d1c411c146112df578063a844a134146112da578063ad4eb89b14611042578063b1283e7714611019578063ba1f519514610fd0578063bb1e453114610f8c578063c435138614610ed4578063da4473d814610e49578063e26b80681461020c578063eb44fdd31461018f578063f851a44014610168578063fd69f3c21461014b5763fe25e00a14610103575f80fd5b34610147575f366003190112610147576040517f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03168152602090f35b5f80fd5b34610147575f366003190112610147576020600254604051908152f35b34610147575f366003190112610147575f546040516001600160a01b039091168152602090f35b34610147576020366003190112610147576004356002548110156101d1576101b860209161188b565b905460405160039290921b1c6001600160a01b03168152f35b60405162461bcd60e51b8152602060048201526013602482015272496e646578206f7574206f6620626f756e647360681b6044820152606490fd5b34610147576101e036600319011261014757600480351015610147576024356001600160401b038111610147576102479036906004016119a4565b608435906001600160a01b03821682036101475760e435916001600160401b03831161014757366023840112156101475782600401359061028782611867565b936102956040519586611844565b82855260208501906024829460051b820101903682116101475760248101925b828410610e1a57505061010435929150506001600160401b0382116101475736602383011215610147578160040135926102ee84611867565b926102fc6040519485611844565b848452602084016024819660051b8301019136831161014757602401905b828210610e0a57505050610144359061ffff8216820361014757610164359361ffff851685036101475761018435936001600160a01b0385168503610147576101a435956001600160a01b038716870361014757885115610dc75760443515610d765760643515610d31576101243515610ce0576101f461ffff861611610ca4576107d061ffff821611610c67576004356001145f818015610c59575b6109ad575b6107f257610961575b6001545f546040519660a09190911c61ffff1692916001600160a01b0316906001600160401b0360808901908111908911176107de5761ffff93849260808a9998979f9c9d9b9a0160405288526020880152166040860152166060840152604051988996635d10288160e01b88523360048901526104486024890160043561187e565b610260604489015261045e61026489018b6117a6565b9160443560648a015260643560848a015260018060a01b031660a489015260a43560c489015260c43560e48901526003198883030161010489015251808252602082019160208260051b82010194925f915b8383106109265750505050506020906003198784030161012488015251918281520193905f5b81811061090d57505050610124356101448501526001600160a01b037f000000000000000000000000000000000000000000000000000000000000000081166101648601528151811661018486015260208083015161ffff9081166101a4880152604084015181166101c480890191909152606090940151166101e48701529281166102048601529485166102248501523561024484015292908290039082905f907f0000000000000000000000000000000000000000000000000000000000000000165af1918215610902575f926108be575b506105b760443542611a05565b916105c460643542611a05565b92604051916105d283611828565b60018060a01b03169182815260208101903382526040810195858752606082019384526080820190815260a082019042825260c08301946001865260e084019461061e600435876119f9565b5f888152600460205260409020945185546001600160a01b03199081166001600160a01b03928316178755915160018701805490931691161790559751805190989060028501906001600160401b0381116107de5761067d82546118cc565b601f8111610879575b506020601f8211600114610811578190600698999a9b9c5f92610806575b50508160011b915f199060031b1c19161790555b5160038401555160048301555160058201550191511515908254905160048110156107f25761ff0060ff9160081b1692169061ffff191617179055600254600160401b8110156107de57806001610714920160025560026118b7565b81549060031b9083821b9160018060a01b03901b1916179055335f52600360205260405f2091825492600160401b8410156107de578361075b9160016020960181556118b7565b81549060031b9084821b9160018060a01b03901b1916179055817fbeabe7f3c140196f6671f4f25e0a0fff7d8366b8d15deaae3b0a3becbc70f3196107ab6040519360a0855260a08501906117a6565b926107ba86820160043561187e565b604435604082015260643560608201524260808201528033940390a3604051908152f35b634e487b7160e01b5f52604160045260245ffd5b634e487b7160e01b5f52602160045260245ffd5b015190508c806106a4565b601f1982169b835f52815f209c5f5b8181106108615750916006999a9b9c9d91846001959410610849575b505050811b0190556106b8565b01515f1960f88460031b161c191690558c808061083c565b838301518f556001909e019d60209384019301610820565b825f5260205f20601f830160051c810191602084106108b4575b601f0160051c01905b8181106108a95750610686565b5f815560010161089c565b9091508190610893565b9091506020813d6020116108fa575b816108da60209383611844565b8101031261014757516001600160a01b03811681036101475790826105aa565b3d91506108cd565b6040513d5f823e3d90fd5b82518652899650602095860195909201916001016104d6565b91939697989a995091939460208061094a600193601f198682030187528a516117a6565b98019301930190928c999a989796959492936104b0565b60c4356103c55760405162461bcd60e51b815260206004820152601d60248201527f546172676574207072696365206d75737420626520706f7369746976650000006044820152606490fd5b6001600160a01b03841615610c045760205f604051828101906301ffc9a760e01b82526301ffc9a760e01b6024820152602481526109ec604482611844565b519087617530fa5f513d82610bf8575b5081610bee575b5080610b89575b80610b25575b15610acf57604051636a27d19f60e11b815260a43560048201526020816024816001600160a01b0389165afa908115610902575f91610a94575b506103bc5760405162461bcd60e51b815260206004820152601d60248201527f4173736574206e6f7420737570706f72746564206279206f7261636c650000006044820152606490fd5b90506020813d602011610ac7575b81610aaf60209383611844565b8101031261014757518015158103610147578d610a4a565b3d9150610aa2565b60405162461bcd60e51b815260206004820152602860248201527f5072696365206f7261636c65206d75737420696d706c656d656e74204950726960448201526763654f7261636c6560c01b6064820152608490fd5b5060205f604051828101906301ffc9a760e01b82526311c4f5dd60e21b602482015260248152610b56604482611844565b519087617530fa5f513d82610b7d575b5081610b73575b50610a10565b905015158d610b6d565b6020111591508e610b66565b5060205f604051828101906301ffc9a760e01b825263ffffffff60e01b602482015260248152610bba604482611844565b519087617530fa5f513d82610be2575b5081610bd8575b5015610a0a565b905015158d610bd1565b6020111591508e610bca565b905015158d610a03565b6020111591508e6109fc565b60405162461bcd60e51b815260206004820152602760248201527f5072696365206f7261636c6520726571756972656420666f72207072696365206044820152666d61726b65747360c81b6064820152608490fd5b50505f6003600435146103b7565b60405162461bcd60e51b815260206004820152601560248201527408af0d2e840e0cadcc2d8e8f240e8dede40d0d2ced605b1b6044820152606490fd5b60405162461bcd60e51b8152602060048201526014602482015273086e4cac2e8dee440cccaca40e8dede40d0d2ced60631b6044820152606490fd5b60405162461bcd60e51b8152602060048201526024808201527f526566756e6420677261636520706572696f64206d75737420626520706f73696044820152637469766560e01b6064820152608490fd5b60405162461bcd60e51b815260206004820152601f60248201527f4576656e74206475726174696f6e206d75737420626520706f736974697665006044820152606490fd5b60405162461bcd60e51b8152602060048201526024808201527f436f6d6d69746d656e74206475726174696f6e206d75737420626520706f73696044820152637469766560e01b6064820152608490fd5b60405162461bcd60e51b815260206004820152601b60248201527a4465736372697074696f6e2063616e6e6f7420626520656d70747960281b6044820152606490fd5b813581526020918201910161031a565b83356001600160401b03811161014757602091610e3e8392602436918701016119a4565b8152019301926102b5565b34610147576020366003190112610147576001600160a01b03610e6a611790565b165f52600360205260405f206040519081602082549182815201915f5260205f20905f5b818110610eb557610eb185610ea581870382611844565b604051918291826117e6565b0390f35b82546001600160a01b0316845260209093019260019283019201610e8e565b34610147576020366003190112610147576001600160a01b03610ef5611790565b165f908152600460205260409020805460018201546001600160a01b0390811692911690610eb1610f2860028301611904565b6003830154926004810154610f6160066005840154930154936040519889988952602089015261010060408901526101008801906117a6565b946060870152608086015260a085015260ff8116151560c085015260ff60e085019160081c1661187e565b34610147575f366003190112610147576040517f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03168152602090f35b3461014757604036600319011261014757610fe9611790565b6001600160a01b03165f90815260036020526040902080546024359190821015610147576020916101b8916118b7565b3461014757602036600319011261014757600435600254811015610147576101b860209161188b565b34610147576020366003190112610147576004356001600160401b038111610147573660238201121561014757806004013561107d81611867565b9161108b6040519384611844565b8183526024602084019260051b8201019036821161014757602401915b8183106112ba578351846110bb82611867565b916110c96040519384611844565b8083526110d8601f1991611867565b015f5b8181106112725750505f5b81518110156111a2576001906001600160a01b036111048285611a12565b51165f52600460205260405f2061118660ff60066040519361112585611828565b805460a088901b88900390811686528188015416602086015261114a60028201611904565b60408601526003810154606086015260048101546080860152600581015460a08601520154818116151560c085015260081c1660e083016119f9565b6111908286611a12565b5261119b8185611a12565b50016110e6565b826040518091602082016020835281518091526040830190602060408260051b8601019301915f905b8282106111da57505050500390f35b919360019193955060208091603f19898203018552611262885191858060a01b038351168152858060a01b0384840151168482015260e08061122d604086015161010060408601526101008501906117a6565b94606081015160608501526080810151608085015260a081015160a085015260c0810151151560c0850152015191019061187e565b96019201920185949391926111cb565b60209060405161128181611828565b5f81525f83820152606060408201525f60608201525f60808201525f60a08201525f60c08201525f60e0820152828287010152016110db565b82356001600160a01b0381168103610147578152602092830192016110a8565b6117ca565b346101475760403660031901126101475760043561ffff811690818103610147576024356001600160a01b0381169290839003610147575f54926001600160a01b038416330361141d576101f482116113e057811580156113d7575b1561139a577f4b0163f1bfb3bcfbdc27a7379625ca36704a301f300c79ab7f047b32121588a69360409361ffff60a01b9060a01b169061ffff60a01b1916175f558060018060a01b0319600154161760015582519182526020820152a1005b60405162461bcd60e51b8152602060048201526015602482015274125b9d985b1a5908199959481c9958da5c1a595b9d605a1b6044820152606490fd5b5080151561133b565b60405162461bcd60e51b81526020600482015260156024820152740a0e4dee8dec6ded840cccaca40e8dede40d0d2ced605b1b6044820152606490fd5b60405162461bcd60e51b81526020600482015260186024820152774f6e6c792061646d696e2063616e2063616c6c207468697360401b6044820152606490fd5b3461014757604036600319011261014757600435600254808210156115305761148860243583611a05565b90808211611528575b50818103908111611514576114a581611867565b916114b36040519384611844565b818352601f196114c283611867565b013660208501375f5b8281106114e05760405180610eb186826117e6565b806114f56114f060019385611a05565b61188b565b838060a01b0391549060031b1c1661150d8287611a12565b52016114cb565b634e487b7160e01b5f52601160045260245ffd5b905082611491565b60405162461bcd60e51b81526020600482015260146024820152734f6666736574206f7574206f6620626f756e647360601b6044820152606490fd5b34610147575f366003190112610147576001546040516001600160a01b039091168152602090f35b34610147576020366003190112610147576001600160a01b036115b5611790565b165f526004602052602060018060a01b0360405f2054161515604051908152f35b34610147576020366003190112610147576001600160a01b036115f7611790565b165f526003602052602060405f2054604051908152f35b34610147575f36600319011261014757602061ffff5f5460a01c16604051908152f35b34610147575f3660031901126101475760206040516107d08152f35b34610147576020366003190112610147576001600160a01b0361166e611790565b165f52600460205260405f2061168382611828565b80546001600160a01b039081168352600182015416602083019081526116ab60028301611904565b91604084019283526003810154936060810194855260048201549260808201938452600660058401549360a084019485520154916116fd60ff60c08301948181161515865260081c1660e083016119f9565b516001600160a01b0316156117585760018060a01b039051169351945192519151905115159161173f604051968796875260c0602088015260c08701906117a6565b9360408601526060850152608084015260a08301520390f35b60405162461bcd60e51b815260206004820152601060248201526f13585c9ad95d081b9bdd08199bdd5b9960821b6044820152606490fd5b600435906001600160a01b038216820361014757565b805180835260209291819084018484015e5f828201840152601f01601f1916010190565b34610147575f3660031901126101475760206040516101f48152f35b60206040818301928281528451809452019201905f5b8181106118095750505090565b82516001600160a01b03168452602093840193909201916001016117fc565b61010081019081106001600160401b038211176107de57604052565b601f909101601f19168101906001600160401b038211908210176107de57604052565b6001600160401b0381116107de5760051b60200190565b9060048210156107f25752565b6002548110156118a35760025f5260205f2001905f90565b634e487b7160e01b5f52603260045260245ffd5b80548210156118a3575f5260205f2001905f90565b90600182811c921680156118fa575b60208310146118e657565b634e487b7160e01b5f52602260045260245ffd5b91607f16916118db565b9060405191825f825492611917846118cc565b8084529360018116908115611982575060011461193e575b5061193c92500383611844565b565b90505f9291925260205f20905f915b81831061196657505090602061193c928201015f61192f565b602091935080600191548385890101520191019091849261194d565b90506020925061193c94915060ff191682840152151560051b8201015f61192f565b81601f82011215610147578035906001600160401b0382116107de57604051926119d8601f8401601f191660200185611844565b8284526020838301011161014757815f926020809301838601378301015290565b60048210156107f25752565b9190820180921161151457565b80518210156118a35760209160051b01019056fea164736f6c634300081b000a60e0806040523461022a57336080526171ba9061001f602083018261022e565b81815260208101916109128339805160011c9161003b83610265565b90610049604051928361022e565b8382528361005681610265565b602084019290601f1901368437825e600184019182851161021657602b6100cc916040519384916020830196606160f81b885261ffff60f01b9060f01b1660218401526680600a3d393df360c81b60238401525f602a8401525180918484015e81015f838201520301601f19810183528261022e565b51905ff06001600160a01b038116156101d15760a052805191808303928311610216578260206100fb82610265565b92610109604051948561022e565b82845261011583610265565b8483019590601f19013687370101835e6001830180931161021657602b61018b916040519384916020830196606160f81b885261ffff60f01b9060f01b1660218401526680600a3d393df360c81b60238401525f602a8401525180918484015e81015f838201520301601f19810183528261022e565b51905ff06001600160a01b038116156101d15760c0526040516106919081610281823960805181818160440152610269015260a0518161029c015260c051816102c90152f35b60405162461bcd60e51b815260206004820152601360248201527f436f64652073746f72616765206661696c6564000000000000000000000000006044820152606490fd5b634e487b7160e01b5f52601160045260245ffd5b5f80fd5b601f909101601f19168101906001600160401b0382119082101761025157604052565b634e487b7160e01b5f52604160045260245ffd5b6001600160401b03811161025157601f01601f19166020019056fe60806040526004361015610011575f80fd5b5f3560e01c80635d102881146100775763c45a01551461002f575f80fd5b34610073575f366003190112610073576040517f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03168152602090f35b5f80fd5b3461007357610260366003190112610073576004356001600160a01b03811681036100735760046024351015610073576044356001600160401b038111610073576100c69036906004016105ac565b60a43591906001600160a01b03831683036100735761010435916001600160401b038311610073573660238401121561007357826004013593610108856105f2565b93610116604051958661056e565b85855260208501906024829760051b820101903682116100735760248101925b82841061053f575050610124359150506001600160401b03811161007357366023820112156100735780600401359561016e876105f2565b9161017c604051938461056e565b878352602083016024819960051b8301019136831161007357602401905b82821061052f5750506101643590506001600160a01b03811681036100735760803661018319011261007357604051608081016001600160401b0381118282101761051b57604052610184356001600160a01b03811681036100735781526101a4359061ffff8216820361007357602081019182526101c4359261ffff8416840361007357604082019384526101e4359461ffff86168603610073576060830195865261020435966001600160a01b03881688036100735761022435986001600160a01b038a168a03610073577f00000000000000000000000000000000000000000000000000000000000000006001600160a01b031633036104d6576102c07f000000000000000000000000000000000000000000000000000000000000000061062d565b9c61031b6102ed7f000000000000000000000000000000000000000000000000000000000000000061062d565b9d6102806040519e8f9060018060a01b03166020820152602435604082015261026060608201520190610609565b60643560808e015260843560a08e01526001600160a01b0390921660c08d015260c43560e08d015260e4356101008d01528b8203601f19016101208d015251808252600581901b8201602090810194925f918101905b8383106104a9575050505050602090601f198b8403016101408c01525191828152019b905f5b81811061049357505050610144356101608901526001600160a01b03908116610180890152905181166101a0880152905161ffff9081166101c0880152915182166101e08701529151166102008501529081166102208401521661024082015261024435610260820152808403601f1981018252839060209061046990859083908690610424908261056e565b8160405195869481808701998051918291018b5e8601908282015f8152815193849201905e0101905f8252805192839101825e015f815203601f19810183528261056e565b51905ff08015610488576040516001600160a01b039091168152602090f35b6040513d5f823e3d90fd5b82518e5260209d8e019d90920191600101610397565b90919293956020806104c7600193601f198682030187528a51610609565b98019301930191939290610371565b60405162461bcd60e51b815260206004820152601f60248201527f4f6e6c7920666163746f72792063616e206465706c6f79206d61726b657473006044820152606490fd5b634e487b7160e01b5f52604160045260245ffd5b813581526020918201910161019a565b83356001600160401b038111610073576020916105638392602436918701016105ac565b815201930192610136565b601f909101601f19168101906001600160401b0382119082101761051b57604052565b6001600160401b03811161051b57601f01601f191660200190565b81601f82011215610073578035906105c382610591565b926105d1604051948561056e565b8284526020838301011161007357815f926020809301838601378301015290565b6001600160401b03811161051b5760051b60200190565b805180835260209291819084018484015e5f828201840152601f01601f1916010190565b90813b5f19810190811161067057600161064682610591565b610653604051918261056e565b82815261065f83610591565b602082019190601f1901368337943c565b634e487b7160e01b5f52601160045260245ffdfea164736f6c634300081b000a60e060405234610f6f576171ba8038038061001981610fcf565b9283398101818103916102608312610f6f5761003481610ff4565b6020820151916004831015610f6f5760408101516001600160401b038111610f6f5784610062918301611008565b60c05260608101519060808101519061007d60a08201610ff4565b60805260c08101519660e08201519461010083015160018060401b038111610f6f57830188601f82011215610f6f578051906020806100c36100be85611059565b610fcf565b8060a052848152019260051b820101918a8311610f6f5760208201905b838210610f8357505050506101208301516001600160401b038111610f6f5783019780601f8a011215610f6f57885161011b6100be82611059565b996020808c848152019260051b820101928311610f6f57602001905b828210610f73575050506101408301519160806101576101608601610ff4565b9161017f190112610f6f5761016a610fb0565b916101786101808601610ff4565b83526101876101a08601611070565b60208401526101996101c08601611070565b60408401526101ab6101e08601611070565b60608401526101bd6102008601610ff4565b936102406101ce6102208801610ff4565b960151975f60606101dd610fb0565b8281528260208201528260408201520152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac606061020d610fb0565b7350157cffd6bbfa2dece204a89ec419c23ef5755d80825273cd3ab3bd6bcc0c0bf3e27912a92043e817b1cf696020830181905273a02cda4ca3a71d7c46997716f4283aa851c288126040840181905293909201939093527f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970080546001600160a01b031990811690941790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497018054841690911790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497028054831690911790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497038054909116731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac1790556001600160a01b03831615610f2a578115610ee5576103e861035e61ffff60208801511661ffff6040890151169061107f565b11610eb15761ffff602086015116158015610e9e575b15610e595761271061ffff60608701511611610e14575f80546001600160b01b031916601085901b62010000600160b01b03161760088d901b61ff001617905560c051516001600160401b0381116105bb57806103de8a926103d760015461108c565b60016110da565b6020601f8211600114610da25792816104169261041f955f91610d95575b508160011b915f199060031b1c1916176001555b4261107f565b8060025561107f565b600355600e5561042d611197565b610d1b575b50602e80546001600160a01b03199081166001600160a01b03938416179091558251602b8054602086015160408701516060909701516001600160d01b03199092169386169390931760a09390931b61ffff60a01b169290921760b09590951b61ffff60b01b169490941760c09190911b61ffff60c01b1617909255600c805490921692811692831790915591909116908115801591819083610d12575b5015610ccd5790610cbe575b15610c7a57600d80546001600160a01b0319169190911790558111610c355760075560018214610bb6575b5060038114908115610b4e576080516001600160a01b03169361052b85151561111f565b835160018110159081610b43575b5015610afe575f5b845181101561064f5780610620575f5b61055b828761116b565b5111156105cf5761056c818661116b565b519060095491680100000000000000008310156105bb57600183016009556009548310156105a75760019260095f5260205f20015501610541565b634e487b7160e01b5f52603260045260245ffd5b634e487b7160e01b5f52604160045260245ffd5b60405162461bcd60e51b815260206004820152602360248201527f4275636b657420626f756e646172696573206d75737420626520617363656e64604482015262696e6760e81b6064820152608490fd5b5f19810181811161063b57610635908661116b565b51610551565b634e487b7160e01b5f52601160045260245ffd5b509091936002935060018060a01b031960045416176004556005555b036109c5575060a05151600281101590816109b9575b5015610974575f5b60a051518110156107f9576106a08160a05161116b565b5151156107b4576106b38160a05161116b565b5190600854680100000000000000008110156105bb578060016106d9920160085561117f565b6107a15782516001600160401b0381116105bb57610701816106fb845461108c565b846110da565b6020601f821160011461073e5781906001955f92610733575b50505f19600383901b1c191690841b1790555b01610689565b015190505f8061071a565b601f19821694835f52815f20955f5b818110610789575091600196918488959410610771575b505050811b01905561072d565b01515f1960f88460031b161c191690555f8080610764565b8383015188556001909701966020938401930161074d565b634e487b7160e01b5f525f60045260245ffd5b60405162461bcd60e51b815260206004820152601d60248201527f4f7574636f6d65206c6162656c2063616e6e6f7420626520656d7074790000006044820152606490fd5b505b60ff5f5460081c16600481101561096057600303610958576009546001810180911161063b575b61083a6108316100be83611059565b91808352611059565b602082019190601f190136833751906001600160401b0382116105bb576801000000000000000082116105bb57601d5482601d55808310610914575b5090601d5f5260205f20915f5b828110610900577f88e25d3fbb0b1cbd1fb440faec67b4386ef912082f8d22116b252800c1c6b7e560025460806003546040519283916060835260c051519182606085015282602060c051018686015e5f84840186015260208401526040830152601f01601f19168101030190a1604051615ffc90816111be8239f35b600190602083519301928186015501610883565b601d5f527f6d4407e7be21f808e6509aa9fa9143369579dd7d760fe20a2c09680fc146134f9081019083015b81811061094d5750610876565b5f8155600101610940565b600854610822565b634e487b7160e01b5f52602160045260245ffd5b60405162461bcd60e51b815260206004820152601560248201527f496e76616c6964206f7574636f6d6520636f756e7400000000000000000000006044820152606490fd5b6008915011155f610681565b60a05151610aa5576107fb57600854680100000000000000008110156105bb578060016109f5920160085561117f565b6107a157610a03815461108c565b601f8111610a85575b506004614e6f60f01b019055600854680100000000000000008110156105bb57806001610a3c920160085561117f565b6107a157610a4a815461108c565b601f8111610a65575b5060066259657360e81b0190556107fb565b610a7f90825f52601f60205f20910160051c8101906110c4565b5f610a53565b610a9f90825f52601f60205f20910160051c8101906110c4565b5f610a0c565b60405162461bcd60e51b815260206004820152602b60248201527f4f7574636f6d65206c6162656c73206f6e6c7920666f722063617465676f726960448201526a63616c206d61726b65747360a81b6064820152608490fd5b60405162461bcd60e51b815260206004820152601460248201527f496e76616c6964206275636b657420636f756e740000000000000000000000006044820152606490fd5b60089150105f610539565b9190925051610b5f5760029061066b565b60405162461bcd60e51b815260206004820152602960248201527f4275636b657420626f756e646172696573206f6e6c7920666f72207363616c6160448201526872206d61726b65747360b81b6064820152608490fd5b6080516001600160a01b0316610bcd81151561111f565b8115610bf05760018060a01b03196004541617600455836005556006555f610507565b60405162461bcd60e51b815260206004820152601460248201527f496e76616c6964207461726765742070726963650000000000000000000000006044820152606490fd5b60405162461bcd60e51b815260206004820152601460248201527f545741502077696e646f7720746f6f206c6f6e670000000000000000000000006044820152606490fd5b606460405162461bcd60e51b815260206004820152602060248201527f436f6e666964656e7469616c206e65656473206f7261636c65206d61726b65746044820152fd5b50610cc7611197565b156104dc565b60405162461bcd60e51b815260206004820152601b60248201527f43686f6f7365206f6e6520636f6c6c61746572616c20746f6b656e00000000006044820152606490fd5b9050155f6104d0565b6001600160a01b0382168015159182610d81575b505015610d3c575f610432565b60405162461bcd60e51b815260206004820152601760248201527f496e76616c6964206172626974657220616464726573730000000000000000006044820152606490fd5b6001600160a01b0316141590505f80610d2f565b905060c05101515f6103fc565b60015f52805f20905f5b601f1984168110610df757508261041f959260019261041695601f19811610610ddd575b5050811b01600155610410565b60c05101515f1960f88460031b161c191690555f80610dd0565b60c05182015183558c945060019092019160209182019101610dac565b60405162461bcd60e51b815260206004820152601560248201527f457869742070656e616c747920746f6f206869676800000000000000000000006044820152606490fd5b60405162461bcd60e51b815260206004820152601560248201527f496e76616c69642066656520726563697069656e7400000000000000000000006044820152606490fd5b5084516001600160a01b03161515610374565b60405162461bcd60e51b815260206004820152600c60248201526b08ccaca40e8dede40d0d2ced60a31b6044820152606490fd5b60405162461bcd60e51b815260206004820152601b60248201527f496e76616c696420726566756e6420677261636520706572696f6400000000006044820152606490fd5b60405162461bcd60e51b815260206004820152601560248201527f496e76616c6964206f776e6572206164647265737300000000000000000000006044820152606490fd5b5f80fd5b8151815260209182019101610137565b81516001600160401b038111610f6f57602091610fa58e848094880101611008565b8152019101906100e0565b60405190608082016001600160401b038111838210176105bb57604052565b6040519190601f01601f191682016001600160401b038111838210176105bb57604052565b51906001600160a01b0382168203610f6f57565b81601f82011215610f6f578051906001600160401b0382116105bb57611037601f8301601f1916602001610fcf565b9282845260208383010111610f6f57815f9260208093018386015e8301015290565b6001600160401b0381116105bb5760051b60200190565b519061ffff82168203610f6f57565b9190820180921161063b57565b90600182811c921680156110ba575b60208310146110a657565b634e487b7160e01b5f52602260045260245ffd5b91607f169161109b565b8181106110cf575050565b5f81556001016110c4565b9190601f81116110e957505050565b611113925f5260205f20906020601f840160051c83019310611115575b601f0160051c01906110c4565b565b9091508190611106565b1561112657565b60405162461bcd60e51b815260206004820152601660248201527f496e76616c6964206f7261636c652061646472657373000000000000000000006044820152606490fd5b80518210156105a75760209160051b010190565b6008548110156105a75760085f5260205f2001905f90565b60ff5f5460081c1660048110156109605780159081156111b5575090565b60029150149056fe60806040526004361015610011575f80fd5b5f5f3560e01c80626e81381461306f5780630473ff1f14613052578063055ad42e1461302e5780630610041414612f805780630835fe4714612f2c5780630f597f6314612eef57806312065fe014612ed55780631357e1dc14612eb857806313c1643614612e80578063152ec10014612b4a57806316518ed914612aa75780631a11ad9c14612a8a5780631a8f9e86146129d25780631bb3399d146128645780631d85e2e91461283c5780631e4d4795146125f75780631e5eb1d0146125af57806321d9b728146124fb57806323341a05146124965780632630c12f1461246d5780632b6b06331461242e5780632dd48909146124035780633270bb5b146123e057806334d82e011461237e57806335c1d3491461233a578063372500ab146123195780634004adfd146122cc578063402dc4e414612293578063404002a61461226d5780634061f689146120da57806341287355146120bc578063415d6a0114612066578063431a9caa146120495780634619ce241461202e578063476343ee14611f885780634c73890914611f615780635300b07e14611f4357806353afc02514611f0a5780635a75922c14611ed75780635dd8675f14611dd15780635eb36d5514611db35780635f79a64914611d955780636234e1de14611a5a57806362552023146119ce5780636a7543cf146119a55780636b3d9207146119875780636bfefd6b146118da57806373b2e80e1461189b5780637649835e146115be578063776377b4146115a05780637dc8f0861461157d5780637fd79dbe1461155f5780638107e133146115415780638b48da6f146115295780638b64fae1146113e05780638da5cb5b146113b55780638fa990e31461139757806390a0e3b61461135e5780639434571b146112515780639b34ae031461122d578063a123ba9a14611204578063ad605729146111e6578063ad60f8af146111c2578063b2016bd414611199578063b4106cdf1461117b578063b5545a3c146110f4578063b7366d7714610e51578063bde7d84b14610e18578063c111299614610df6578063c3a079ed14610dd8578063c78155b514610d95578063c8c2380c14610d77578063cce3ec5614610d55578063ceff408914610d37578063cfe0bf8b14610cf6578063cff6cf4414610cde578063d0e30db014610cb3578063d442747e14610c9b578063d4b7397214610c62578063d728326d14610c29578063da1f12ab14610c0c578063dc38679c14610bee578063dc73d16414610bd2578063dd49756e14610b93578063e39cd3fd1461095b578063e805156e14610884578063e87bf45d1461076c578063e95ca8d9146106ce578063ee36d755146106a8578063efe1c6141461068a578063f2c16e6f1461064b578063f348e8b21461062d578063f5bff3181461060f578063f91bae03146105d4578063fbb83086146105b6578063fe253ebd1461046f5763fe25e00a14610444575f80fd5b3461046c578060031936011261046c57602e546040516001600160a01b039091168152602090f35b80fd5b503461046c578060031936011261046c57610488614be2565b6002544210610573576017541561053c57601b546104f757600160ff196020541617602055600160ff198254161781555f516020615ed05f395f51905f5260206040517fe92be885bfedbfc5b78745092770c1a607c143a6c5b0c14eab136440bd2f0cd58480a160018152a180f35b60405162461bcd60e51b815260206004820152601d60248201527f436f6d6d69746d656e74207769746864726177616c2070656e64696e670000006044820152606490fd5b60405162461bcd60e51b815260206004820152600f60248201526e4e6f207061727469636970616e747360881b6044820152606490fd5b60405162461bcd60e51b815260206004820152601b60248201527a10dbdb5b5a5d1b595b9d081c195c9a5bd9081b9bdd08195b991959602a1b6044820152606490fd5b503461046c578060031936011261046c576020603254604051908152f35b503461046c578060031936011261046c5761060b6040516105ff816105f8816135ff565b03826131a7565b60405191829182613102565b0390f35b503461046c578060031936011261046c576020601554604051908152f35b503461046c578060031936011261046c576020600a54604051908152f35b503461046c57602036600319011261046c5760209060ff906040906001600160a01b036106766130b5565b168152601084522054166040519015158152f35b503461046c578060031936011261046c576020601f54604051908152f35b503461046c578060031936011261046c57602060ff60265460101c166040519015158152f35b503461046c5761074461072061073d6107266106e93661329a565b916106f5959195614be2565b61071a610700614ef4565b96610712885460ff601d541690614f1e565b9436916131f9565b90615ca3565b336145e0565b610731818454615002565b60018354930154615902565b9033615064565b337fb27914f2f5f975f99d27c41a5b330c276de4977ef7f1d44cdca0116ff792a53b8280a280f35b503461046c578060031936011261046c57600260ff602e5460a01c16610791816130f8565b0361084a57338152602f60205260408120548015610812576107d990338352602f6020528260408120556107d36107ca82603154613bd9565b60305490613b5e565b90613456565b6107e381336150cd565b6040519081527f0c6a2bbf4815bd373da0f7f6676938d9ce5d635b084b6b990f36756d776607b760203392a280f35b60405162461bcd60e51b815260206004820152601060248201526f4e6f20626f6e6420746f20636c61696d60801b6044820152606490fd5b60405162461bcd60e51b8152602060048201526012602482015271111a5cdc1d5d19481b9bdd081d5c1a195b1960721b6044820152606490fd5b503461046c578060031936011261046c5760265460ff8160101c1690815f1461094f5760255462015180810180911161093b579060c0938392905b8361092d575b8361090f575b5082610903575b60255460ff602d549360405196151587521615156020860152604085015260608401526080830152151560a0820152f35b809250421015916108d2565b50602e5490925060a01c60ff16610925816130f8565b15915f6108cb565b60245460ff161593506108c5565b634e487b7160e01b84526011600452602484fd5b81908360c094906108bf565b503461046c5761096a3661329a565b600d549092906001600160a01b031615610b4e5761071a6109a89285946109a1600460ff88541661099a8161309c565b14156145a1565b36916131f9565b600d545f516020615f905f395f51905f52546001600160a01b039182169116803b15610b4957604051630f8e573b60e21b815291849183918290849082906109f4908960048401615b43565b03925af1908115610b3e578391610b26575b5050600d5460405163eb3155b560e01b81523360048201523060248201526044810192909252909160209183916064918391906001600160a01b03165af1908115610b1b578291610ae5575b50338252600f602052610aa2610a6c826040852054615902565b338452600f602052806040852055338452601060205260408420600160ff19825416179055610a9b3082615b5c565b3390615b5c565b610aac3082615b5c565b610ab63382615b5c565b6040519081527f36b9641514f12613b15afbc7cf673d141143495faf95858c25f940174d46e58c60203392a280f35b90506020813d602011610b13575b81610b00602093836131a7565b81010312610b0f57515f610a52565b5f80fd5b3d9150610af3565b6040513d84823e3d90fd5b81610b30916131a7565b610b3b57815f610a06565b50fd5b6040513d85823e3d90fd5b505050fd5b60405162461bcd60e51b815260206004820152601d60248201527f4d61726b65742075736573207075626c696320636f6c6c61746572616c0000006044820152606490fd5b503461046c57602036600319011261046c57600c54610bbc906001600160a01b031615156135b6565b610bcf610bca6004356151c3565b61521b565b80f35b503461046c578060031936011261046c57602060405160088152f35b503461046c578060031936011261046c576020600654604051908152f35b503461046c578060031936011261046c5760206040516127118152f35b503461046c57602036600319011261046c576020906040906001600160a01b03610c516130b5565b168152603783522054604051908152f35b503461046c57602036600319011261046c576020906040906001600160a01b03610c8a6130b5565b168152601383522054604051908152f35b503461046c57610bcf610cad3661324d565b91614316565b508060031936011261046c57600c54610cd5906001600160a01b0316156142cb565b610bcf3461521b565b503461046c57610bcf610cf03661324d565b916140dd565b503461046c578060031936011261046c5760408091338152601660205220610d2460ff60028301541661409b565b6001815491015482519182526020820152f35b503461046c578060031936011261046c576020603054604051908152f35b503461046c578060031936011261046c57602060ff8154166040519015158152f35b503461046c578060031936011261046c576020602954604051908152f35b503461046c57602036600319011261046c5760209060ff906002906040906001600160a01b03610dc36130b5565b16815260168552200154166040519015158152f35b503461046c578060031936011261046c576020604051620151808152f35b503461046c578060031936011261046c57506020600a602d5404604051908152f35b503461046c57602036600319011261046c576020906040906001600160a01b03610e406130b5565b168152601983522054604051908152f35b503461046c57604036600319011261046c57610e6b6130a6565b6024359060ff8216918281036110f057610e83614bca565b602e546001600160a01b03811633036110ae57600160ff8260a01c16610ea8816130f8565b0361107557602d549085602d55835f14610feb5750610eca6008548510613578565b6026549060ff8260081c168514610fab57610f377f36ff27508a8246faa85bd7c249605b491825042bba9f1c3e5475cf91093242e99360209360ff6001610bcf998160a11b8360a01b19602e541617602e5514169061ff008360081b169061ffff1916171760265561316b565b90549060031b1c155f14610f9f57610f54815b8060315582613b7c565b603255604051908152a15b7fb639d1faf6c5713b976211aefc0ca25f8760e271d97eb7b3a1283f94db9dd5f6604060ff60265460081c169281519015158152836020820152a1614ccd565b610f548160011c610f4a565b60405162461bcd60e51b815260206004820152601860248201527713dd5d18dbdb59481b585d18da195cc81c1c9bdc1bdcd85b60421b6044820152606490fd5b60ff60a01b1916600360a01b17602e558454603054610bcf95505f516020615f105f395f51905f5293506020929161103d9160109190911c6001600160a01b0316906110379084613456565b906150cd565b7f507a55060d1411d4e920867ac1e23618394fab22733becfd8e718af77d8b7bab82603054604051908152a1604051908152a1610f5f565b60405162461bcd60e51b81526020600482015260116024820152704e6f20616374697665206469737075746560781b6044820152606490fd5b60405162461bcd60e51b815260206004820152601a6024820152794f6e6c7920617262697465722063616e2063616c6c207468697360301b6044820152606490fd5b8380fd5b503461046c578060031936011261046c57805460ff168061111660049261309c565b0361112357610bcf613ed4565b606460405162461bcd60e51b815260206004820152602060248201527f496e76616c696420706861736520666f722074686973206f7065726174696f6e6044820152fd5b634e487b7160e01b5f52602160045260245ffd5b503461046c578060031936011261046c576020602d54604051908152f35b503461046c578060031936011261046c57600c546040516001600160a01b039091168152602090f35b503461046c578060031936011261046c57602060ff60265460081c16604051908152f35b503461046c578060031936011261046c576020601754604051908152f35b503461046c578060031936011261046c57600b546040516001600160a01b039091168152602090f35b503461046c578060031936011261046c57602060ff60245460101c16604051908152f35b503461046c578060031936011261046c576040519080600154908160011c91600181168015611354575b6020841081146113405783865290811561131957506001146112bc575b61060b846112a8818603826131a7565b604051918291602083526020830190613183565b600181527fb10e2d527612073b26eecdfd717e6a320cf44b4afac2b0732d9fcbe2b7fa0cf6939250905b8082106112ff575090915081016020016112a882611298565b9192600181602092548385880101520191019092916112e6565b60ff191660208087019190915292151560051b850190920192506112a89150839050611298565b634e487b7160e01b83526022600452602483fd5b92607f169261127b565b503461046c57602036600319011261046c576020906040906001600160a01b036113866130b5565b168152602f83522054604051908152f35b503461046c578060031936011261046c576020600254604051908152f35b503461046c578060031936011261046c575460405160109190911c6001600160a01b03168152602090f35b503461046c578060031936011261046c576113f9614be2565b611401614ef4565b338252601160205261141a60ff604084205416156132cd565b600360018201549161142d838254614f99565b01546017545f19810190811161093b576114469061313b565b905460039190911b1c6001600160a01b0316611489816114658461313b565b9080546001600160a01b0360039390931b83811b199091169290931690921b179055565b8352601660205260036040842001556017548015611515576114ee91905f19016114b28161313b565b81549060018060a01b039060031b1b191690556017553383526016602052826003604082208281558260018201558260028201550155336148d6565b8152601860205260408120600160ff1982541617905561150f601b54613e86565b601b5580f35b634e487b7160e01b83526031600452602483fd5b503461046c57610bcf61153b3661324d565b91613bec565b503461046c578060031936011261046c576020600754604051908152f35b503461046c578060031936011261046c576020601b54604051908152f35b503461046c578060031936011261046c5760206115986156f6565b604051908152f35b503461046c578060031936011261046c576020602254604051908152f35b503461046c5760e036600319011261046c576115d86130b5565b6044356064356001600160401b0381116110f0576115fa9036906004016130cb565b60843592906001600160401b038416840361188f578560c4356001600160401b0381116118975761162f9036906004016130cb565b611637614be2565b73__$4563756896492f54dec2c909b584b0f0d3$__3b1561189357604051635323520360e11b8152601960048201526001600160a01b038916602480830191909152356044820152606481018690526001600160401b038816608482015260a480359082015260e060c4820152918391839182916116ba9160e484019190613558565b038173__$4563756896492f54dec2c909b584b0f0d3$__5af48015610b1b5761187a575b5061172f92611728915061071a6117116117006001600160401b038916615986565b61170a60016159d5565b908a6145e0565b956107126117203687846131f9565b602435615bba565b90856154b4565b600d546001600160a01b03161561178f5761174a90336147a8565b6040516001600160401b03909116815233916001600160a01b0316907f71c502ed5ee6622562131d67a72bf35941926dd29e3452aed4db34fe8692dbae90602090a380f35b506001600160a01b0382168352601160205260408320546117b39060ff16156132cd565b6001600160a01b03821680845260136020908152604080862054928652601a9091528420546001600160401b038316916117ed9190613b7c565b10611837576001600160a01b0382168352601360205260408320805461181d906001600160401b03841690613b7c565b90556118326001600160401b038216336150cd565b61174a565b60405162461bcd60e51b815260206004820152601b60248201527a52656c617965722066656520657863656564732062616c616e636560281b6044820152606490fd5b81611884916131a7565b61188f57855f6116de565b8580fd5b8280fd5b5080fd5b503461046c57602036600319011261046c5760209060ff906040906001600160a01b036118c66130b5565b168152603384522054166040519015158152f35b503461046c578060031936011261046c576118f36153c3565b801561194557421061190757610bcf615699565b60405162461bcd60e51b815260206004820152601660248201527511dc9858d9481c195c9a5bd9081b9bdd08195b99195960521b6044820152606490fd5b60405162461bcd60e51b815260206004820152601a60248201527913585c9ad95d0818d85b9b9bdd0818994818d85b98d95b1b195960321b6044820152606490fd5b503461046c578060031936011261046c576020600354604051908152f35b503461046c578060031936011261046c57600d546040516001600160a01b039091168152602090f35b503461046c57608036600319011261046c576044356001600160401b038111611897576119ff9036906004016130cb565b60643591906001600160401b0383116110f057611a4b611a5391611a43611a3b611a30610bcf9736906004016130cb565b9690936109a1614be2565b600435615bba565b9336916131f9565b602435615ca3565b90336154b4565b503461046c578060031936011261046c57805460ff1680611a7c60019261309c565b036111235760ff6020541615611d5657601d5490611ab2611a9c83613638565b92611aaa60405194856131a7565b808452613638565b602083019190601f1901368337805b8351811015611b0a57611ad381613153565b90549060031b1c8451821015611af657600582901b850160200152600101611ac1565b634e487b7160e01b83526032600452602483fd5b505f516020615fb05f395f51905f52545f516020615f905f395f51905f5254919390929184906001600160a01b0316803b1561189757816040518092637d6e912360e11b825260206004830152818381611b67602482018a615e24565b03925af18015610b1b57611d41575b505f516020615f505f395f51905f52546001600160a01b0316803b1561189757816040518092633263b83b60e01b825287600483015260606024830152818381611bc3606482018a615e24565b636a213a3f60e11b604483015203925af18015610b1b57611d2c575b508390525f516020615eb05f395f51905f526020526040842054611d1d578284525f516020615eb05f395f51905f52602052604084209051916001600160401b038311611d0957600160401b8311611d09578154838355808410611ce3575b5090845260208420845b838110611ccf57857f692f7082be436727c1eb360ad57f2116cf8e2d16001837c08adafb7e0fa2f8f9602087611c8b5f516020615fb05f395f51905f5254613e86565b5f516020615fb05f395f51905f525580601e5542601f55600260ff19855416178455604051908152a15f516020615ed05f395f51905f52602060405160028152a180f35b600190602084519401938184015501611c48565b828652836020872091820191015b818110611cfe5750611c3e565b868155600101611cf1565b634e487b7160e01b85526041600452602485fd5b633f06d22b60e01b8452600484fd5b81611d36916131a7565b6110f057835f611bdf565b81611d4b916131a7565b6110f057835f611b76565b60405162461bcd60e51b815260206004820152601760248201527610995d1cc81b9bdd081859d9dc9959d85d1959081e595d604a1b6044820152606490fd5b503461046c578060031936011261046c576020603154604051908152f35b503461046c578060031936011261046c576020602154604051908152f35b508060031936011261046c57611de5614b74565b611ded614bca565b611dfd611df861509e565b613411565b611e0f60ff60265460101c1615613b14565b602d54611e9857600a60155404611e25816151c3565b908110611e5e576020817f7ec8c22e73ffe69048ea6179b2baccc8452bfe1a4c25b173d0c1844d498a488092602d55604051908152a180f35b60405162461bcd60e51b8152602060048201526012602482015271496e73756666696369656e74207374616b6560701b6044820152606490fd5b60405162461bcd60e51b815260206004820152601760248201527614dd185ad948185b1c9958591e4819195c1bdcda5d1959604a1b6044820152606490fd5b503461046c57602036600319011261046c57602090600435815260388252604060018060a01b0391205416604051908152f35b503461046c57602036600319011261046c576020906040906001600160a01b03611f326130b5565b168152602c83522054604051908152f35b503461046c578060031936011261046c576020600e54604051908152f35b503461046c578060031936011261046c576040602091338152600f83522054604051908152f35b503461046c578060031936011261046c57338152602c60205260408120548015611ff357338252602c602052816040812055611fc481336150cd565b6040519081527fc0819c13be868895eb93e40eaceb96de976442fa1d404e5c55f14bb65a8c489a60203392a280f35b60405162461bcd60e51b81526020600482015260136024820152724e6f206665657320746f20776974686472617760681b6044820152606490fd5b503461046c578060031936011261046c5760206115986153c3565b503461046c578060031936011261046c5760206040516103e88152f35b503461046c57602036600319011261046c576060906040906001600160a01b0361208e6130b5565b16815260166020522080549060ff600260018301549201541690604051928352602083015215156040820152f35b503461046c578060031936011261046c576020602754604051908152f35b503461046c578060031936011261046c576008546120f781613638565b61210460405191826131a7565b8181526008835260208101917ff3f7a9fe364faab93b216da50a3214154f22a0a2b415b23a84c8169e8b636ee39084845b8282106121a157868587604051928392602084019060208552518091526040840160408260051b8601019392905b82821061217257505050500390f35b919360019193955060206121918192603f198a82030186528851613183565b9601920192018594939192612163565b6040518785548060011c90600181168015612263575b60208310811461224f5782855290811561222c57506001146121f6575b50600192826121e8859460209403826131a7565b815201940191019092612135565b868a5260208a208a92505b818310612216575050810160200160016121d4565b6001816020925483868801015201920191612201565b60ff191660208581019190915291151560051b84019091019150600190506121d4565b634e487b7160e01b8c52602260045260248cfd5b91607f16916121b7565b503461046c578060031936011261046c57602060ff60245460081c166040519015158152f35b503461046c57602036600319011261046c576020906040906001600160a01b036122bb6130b5565b168152600f83522054604051908152f35b503461046c578060031936011261046c5760ff6080915460081c1660018060a01b03600454166005546006549160405193612306816130f8565b8452602084015260408301526060820152f35b503461046c578060031936011261046c57612332614bca565b610bcf61365c565b503461046c57602036600319011261046c576004359060175482101561046c5760206123658361313b565b905460405160039290921b1c6001600160a01b03168152f35b503461046c578060031936011261046c5760405160098054808352908352909160208301915f516020615f305f395f51905f52915b8181106123ca5761060b856105ff818703826131a7565b82548452602090930192600192830192016123b3565b503461046c578060031936011261046c57602060ff602454166040519015158152f35b503461046c578060031936011261046c575460405160209160081c60ff1661242a816130f8565b8152f35b503461046c57602036600319011261046c5760209060ff906040906001600160a01b036124596130b5565b168152601484522054166040519015158152f35b503461046c578060031936011261046c576004546040516001600160a01b039091168152602090f35b503461046c578060031936011261046c5760ff60e091541660ff6002546003546021546022549160245493604051966124ce8161309c565b87526020870152604086015260608501526080840152818116151560a084015260081c16151560c0820152f35b5034610b0f5760a0366003190112610b0f5760043560443560ff8116809103610b0f57600c546001600160a01b0316906125368215156135b6565b813b15610b0f575f9160e48392604051948593849263d505accf60e01b84523360048501523060248501528860448501526024356064850152608484015260643560a484015260843560c48401525af1612598575b50610bca610bcf916151c3565b6125a59192505f906131a7565b5f90610bca61258b565b34610b0f575f366003190112610b0f576080602b5461ffff6040519160018060a01b0381168352818160a01c166020840152818160b01c16604084015260c01c166060820152f35b5f366003190112610b0f5761260a614bca565b60ff60265460101c16156127fa5761262760ff60245416156134d8565b6025546201518081018091116127e6574210156127a857335f52601660205260ff600260405f200154161561276b57335f52602f60205260405f205461273157612675600a602d54046151c3565b80151580612723575b156126e357335f52602f6020528060405f205561269d81603054613456565b603055602e805460ff60a01b1916600160a01b17905560405190815233907f9c4f56341ac85c0ee27550be50cf6e80c2e83a719136a036505a671f41b2c57690602090a2005b60405162461bcd60e51b8152602060048201526018602482015277125b98dbdc9c9958dd0818da185b1b195b99d948189bdb9960421b6044820152606490fd5b50600a602d5404811461267e565b60405162461bcd60e51b8152602060048201526012602482015271105b1c9958591e4818da185b1b195b99d95960721b6044820152606490fd5b60405162461bcd60e51b8152602060048201526015602482015274135d5cdd0818994818481c185c9d1a58da5c185b9d605a1b6044820152606490fd5b60405162461bcd60e51b815260206004820152601660248201527510da185b1b195b99d9481c195c9a5bd908195b99195960521b6044820152606490fd5b634e487b7160e01b5f52601160045260245ffd5b60405162461bcd60e51b815260206004820152601a6024820152794e6f20736574746c656d656e7420746f206368616c6c656e676560301b6044820152606490fd5b34610b0f575f366003190112610b0f57602060ff602e5460a01c166040519061242a816130f8565b34610b0f575f366003190112610b0f5761287c614bca565b612887611df861509e565b60265460ff8160101c1615612993576128a560ff60245416156134d8565b60ff602e5460a01c166128b7816130f8565b612958576025546201518081018091116127e65742106129165760ff6128e09160081c16614ccd565b5f516020615f105f395f51905f526020602d545f602d5561290d8160018060a01b035f5460101c166150cd565b604051908152a1005b60405162461bcd60e51b815260206004820152601a60248201527910da185b1b195b99d9481c195c9a5bd9081b9bdd08195b99195960321b6044820152606490fd5b60405162461bcd60e51b815260206004820152601360248201527214d95d1d1b195b595b9d08191a5cdc1d5d1959606a1b6044820152606490fd5b60405162461bcd60e51b815260206004820152601760248201527614d95d1d1b195b595b9d081b9bdd081c1c9bdc1bdcd959604a1b6044820152606490fd5b34610b0f576040366003190112610b0f576024356001600160401b038111610b0f57612a05612a639136906004016130cb565b90612a0e614be2565b612a506001612a45612a1e614ef4565b94612a31611a3b875496879336916131f9565b612a4060ff601d541682614f1e565b615d57565b930191825490614f99565b612a5b815483615002565b549033615064565b337f43af7acf64dc0afeb23c19f0560d2109be000ce20a60d11f0d2f047cf226ed3a5f80a2005b34610b0f575f366003190112610b0f576020601c54604051908152f35b34610b0f576020366003190112610b0f5760043560ff811690818103610b0f57612acf614b74565b612ad7614bca565b600260ff5f5460081c16612aea816130f8565b03612b0657612aff612b049260085411613578565b614bf6565b005b60405162461bcd60e51b815260206004820152601c60248201527b4f6e6c7920666f722063617465676f726963616c206d61726b65747360201b6044820152606490fd5b34610b0f576040366003190112610b0f576004356001600160501b03811690819003610b0f576024356001600160401b038111610b0f57612b8f9036906004016130cb565b5f549060ff8260081c1692612ba3846130f8565b600184148015612e6d575b15612e2f57612bc260ff60245416156134d8565b600360ff815494612bd586421015613516565b16612bdf8161309c565b03612dd35760155415612d9a5760409260018060a01b036004541691612c3e60055491600754958751998a97889687966371d57b3760e01b8852600488015260248701526044860152606485015260a0608485015260a4840191613558565b03915afa8015612d8f575f925f91612d43575b50600a839055600b80546001600160a01b0319166001600160a01b039290921691821790556040518381527f42b3696adb0408d2c50859721478f7268a7789d9cdf9bbcd977aca48b5a9e78190602090a260035f91612caf816130f8565b03612d275790600954915b60ff81169083821080612ceb575b15612cde575060ff81146127e657600101612cba565b915050612b049150614ccd565b50600954811015612d135760095f525f516020615f305f395f51905f52810154831015612cc8565b634e487b7160e01b5f52603260045260245ffd5b906006541115612d3b575b612b0490614ccd565b506001612d32565b9250506040823d604011612d87575b81612d5f604093836131a7565b81010312610b0f578151602090920151916001600160a01b0383168303610b0f579183612c51565b3d9150612d52565b6040513d5f823e3d90fd5b60405162461bcd60e51b81526020600482015260116024820152704e6f206265747320746f20736574746c6560781b6044820152606490fd5b60405162461bcd60e51b815260206004820152602e60248201527f4d75737420636f6d706c657465206167677265676174696f6e20616e6420646560448201526d18dc9e5c1d1a5bdb88199a5c9cdd60921b6064820152608490fd5b60405162461bcd60e51b81526020600482015260166024820152754f6e6c7920666f72207072696365206d61726b65747360501b6044820152606490fd5b50612e77846130f8565b60038414612bae565b34610b0f576020366003190112610b0f576001600160a01b03612ea16130b5565b165f526036602052602060405f2054604051908152f35b34610b0f575f366003190112610b0f576020602a54604051908152f35b34610b0f575f366003190112610b0f576020611598613463565b34610b0f576020366003190112610b0f576001600160a01b03612f106130b5565b165f526011602052602060ff60405f2054166040519015158152f35b34610b0f576020366003190112610b0f5760406001600160a01b03612f4f6130b5565b16805f52603460205260ff825f205416905f526035602052815f2054825191612f778161309c565b82526020820152f35b34610b0f576020366003190112610b0f57612f996130a6565b612fa1614b74565b612fa9614bca565b612fc360ff5f5460081c16612fbd816130f8565b15613411565b8015159060ff196026541660ff8316176026555f1461302557612fe66001614bf6565b6201518042018042116127e6577f1c5193a1a43eb40c07622c3e2cdc2e54f2704d6a38265ea29a169adfea600a139160409182519182526020820152a1005b612fe65f614bf6565b34610b0f575f366003190112610b0f57602060ff5f54166040519061242a8161309c565b34610b0f575f366003190112610b0f576020602854604051908152f35b34610b0f576020366003190112610b0f576004356001600160401b0381168103610b0f57612b0490613316565b6005111561116757565b600435908115158203610b0f57565b600435906001600160a01b0382168203610b0f57565b9181601f84011215610b0f578235916001600160401b038311610b0f5760208381860195010111610b0f57565b6004111561116757565b60206040818301928281528451809452019201905f5b8181106131255750505090565b8251845260209384019390920191600101613118565b601754811015612d135760175f5260205f2001905f90565b601d54811015612d1357601d5f5260205f2001905f90565b602354811015612d135760235f5260205f2001905f90565b805180835260209291819084018484015e5f828201840152601f01601f1916010190565b601f909101601f19168101906001600160401b038211908210176131ca57604052565b634e487b7160e01b5f52604160045260245ffd5b6001600160401b0381116131ca57601f01601f191660200190565b929192613205826131de565b9161321360405193846131a7565b829481845281830111610b0f578281602093845f960137010152565b9080601f83011215610b0f5781602061324a933591016131f9565b90565b6060600319820112610b0f57600435916024356001600160401b038111610b0f578261327b9160040161322f565b91604435906001600160401b038211610b0f5761324a9160040161322f565b906040600319830112610b0f5760043591602435906001600160401b038211610b0f576132c9916004016130cb565b9091565b156132d457565b60405162461bcd60e51b815260206004820152601a6024820152795769746864726177616c20616c72656164792070656e64696e6760301b6044820152606490fd5b6001600160401b031680156133db57335f52601060205260ff60405f205416156133a35761335f61337091335f52601160205261335a60ff60405f205416156132cd565b615986565b61336960016159d5565b90336145e0565b61337a3082615b5c565b600d546001600160a01b03166133975761339490336148d6565b50565b6133a190336147a8565b565b60405162461bcd60e51b815260206004820152601060248201526f4e6f207661756c742062616c616e636560801b6044820152606490fd5b60405162461bcd60e51b815260206004820152600e60248201526d125b9d985b1a5908185b5bdd5b9d60921b6044820152606490fd5b1561341857565b60405162461bcd60e51b81526020600482015260166024820152754f6e6c7920666f72206576656e74206d61726b65747360501b6044820152606490fd5b919082018092116127e657565b600c546001600160a01b031680156134d3576020602491604051928380926370a0823160e01b82523060048301525afa908115612d8f575f916134a4575090565b90506020813d6020116134cb575b816134bf602093836131a7565b81010312610b0f575190565b3d91506134b2565b504790565b156134df57565b60405162461bcd60e51b815260206004820152600f60248201526e105b1c9958591e481cd95d1d1b1959608a1b6044820152606490fd5b1561351d57565b60405162461bcd60e51b8152602060048201526013602482015272115d995b9d081b9bdd08195b991959081e595d606a1b6044820152606490fd5b908060209392818452848401375f828201840152601f01601f1916010190565b1561357f57565b60405162461bcd60e51b815260206004820152600f60248201526e496e76616c6964206f7574636f6d6560881b6044820152606490fd5b156135bd57565b60405162461bcd60e51b815260206004820152601a60248201527913585c9ad95d081d5cd95cc81155120818dbdb1b185d195c985b60321b6044820152606490fd5b602060235491828152019060235f5260205f20905f5b8181106136225750505090565b8254845260209093019260019283019201613615565b6001600160401b0381116131ca5760051b60200190565b805115612d135760200190565b60245460ff5f911615613ad657335f52603360205260ff60405f205416613a9757335f52601660205260405f209060ff60028301541615613a5c57600d546001600160a01b031661395257604051916136b66060846131a7565b600283526020830190600190604036843780546136d28661364f565b520154835160011015612d135760408401525f516020615fb05f395f51905f52545f516020615f905f395f51905f52549093906001600160a01b0316803b15610b0f575f6040518092637d6e912360e11b82526020600483015281838161373c6024820189615e24565b03925af18015612d8f5761393d575b505f516020615f505f395f51905f52546001600160a01b0316803b156110f057836040518092633263b83b60e01b8252876004830152606060248301528183816137986064820189615e24565b638b48da6f60e01b604483015203925af180156139325790849161391d575b508490525f516020615eb05f395f51905f52602052604083205461390e578383525f516020615eb05f395f51905f52602052604083209051916001600160401b0383116138fa57600160401b83116138fa5781548383558084106138d4575b5090835260208320835b8381106138c057505050506138425f516020615fb05f395f51905f5254613e86565b5f516020615fb05f395f51905f5255338082526037602090815260408084208590558484526038825280842080546001600160a01b031916841790558284526034825292839020805460ff191660011790559151928352917f71431efdffe03bc79c5607c1cf67764f4cf3e224fb5e5dfc04178260aa0b93229190a2565b600190602084519401938184015501613820565b828552836020862091820191015b8181106138ef5750613816565b8581556001016138e2565b634e487b7160e01b84526041600452602484fd5b633f06d22b60e01b8352600483fd5b81613927916131a7565b61189357825f6137b7565b6040513d86823e3d90fd5b61394a9193505f906131a7565b5f915f61374b565b5061395b615a23565b90600181015490602754602854906040519363f26122d160e01b855260048501526024840152604483015260208260648173__$3cb9875020690e4168961281e040d911c3$__5af4918215612d8f575f92613a24575b50916139ce91612a406133a1945460ff60245460101c1690615da9565b335f52603360205260405f20600160ff19825416179055335f52603460205260405f20600460ff19825416179055335f5260366020528060405f2055613a143082615b5c565b613a1e3382615b5c565b336147a8565b9150916020823d602011613a54575b81613a40602093836131a7565b81010312610b0f57905190916133a16139b1565b3d9150613a33565b60405162461bcd60e51b8152602060048201526013602482015272446964206e6f7420706172746963697061746560681b6044820152606490fd5b60405162461bcd60e51b8152602060048201526017602482015276416c726561647920636c61696d6564207265776172647360481b6044820152606490fd5b60405162461bcd60e51b815260206004820152601660248201527513585c9ad95d081b9bdd081cd95d1d1b1959081e595d60521b6044820152606490fd5b15613b1b57565b60405162461bcd60e51b815260206004820152601b60248201527a14d95d1d1b195b595b9d08185b1c9958591e481c1c9bdc1bdcd959602a1b6044820152606490fd5b8115613b68570490565b634e487b7160e01b5f52601260045260245ffd5b919082039182116127e657565b15613b9057565b60405162461bcd60e51b815260206004820152600d60248201526c496e76616c696420706861736560981b6044820152606490fd5b51906001600160401b0382168203610b0f57565b818102929181159184041417156127e657565b613c05600360ff5f5416613bff8161309c565b14613b89565b60ff6024541615613e4c575f818152603860205260409020546001600160a01b0316928315613e0f575f82815260386020908152604080832080546001600160a01b031916905586835260379091529020548214801590613df9575b613df35782613c6f92615725565b604081805181010312610b0f5760208101519060ff8216809203610b0f576040613c999101613bc5565b90825f52603360205260405f20600160ff1982541617905560ff60245460101c1614801590613de2575b613dac5760018060401b0316613cdb81602954613456565b806029556028548091145f14613d815750505f516020615fd05f395f51905f526040613d0c602754602a5490613b7c565b613d1881602a54613456565b602a55835f526034602052815f20600260ff19825416179055835f52603560205280825f2055613d4881856150cd565b837ffc30cddea38e2bf4d6ea7d3f9ed3b6ad7f176419f4963bd81318067a4aee73fe60208451848152a2815190600182526020820152a2565b613da7604091613da25f516020615fd05f395f51905f529460275490613bd9565b613b5e565b613d0c565b50805f52603460205260405f20600360ff198254161790555f516020615fd05f395f51905f52604080515f81525f6020820152a2565b506001600160401b03811615613cc3565b50505050565b50835f52603360205260ff60405f205416613c61565b60405162461bcd60e51b8152602060048201526015602482015274155b9adb9bdddb8818db185a5b481c995c5d595cdd605a1b6044820152606490fd5b60405162461bcd60e51b815260206004820152601260248201527113585c9ad95d081b9bdd081cd95d1d1b195960721b6044820152606490fd5b5f1981146127e65760010190565b15613e9b57565b60405162461bcd60e51b8152602060048201526011602482015270139bdd1a1a5b99c81d1bc81c99599d5b99607a1b6044820152606490fd5b335f52601460205260ff60405f20541661406357600d546001600160a01b0316613fec57335f8181526013602052604081208054908290559054909160109190911c6001600160a01b031614613fd7575b600160ff602e5460a01c16613f39816130f8565b14613fad575b613f4a811515613e94565b335f52601460205260405f20600160ff19825416179055335f52601160205260405f2060ff198154169055613f7f81336150cd565b6040519081527fd7dee2702d63ad89917b6a4da9981c90c4d24f8c2bdfd64c604ecae57d8d065160203392a2565b613fc490335f52602f60205260405f205490613456565b335f52602f6020525f6040812055613f3f565b602d54613fe391613456565b5f602d55613f25565b335f52601060205261400460ff60405f205416613e94565b335f52601460205260405f20600160ff19825416179055335f52600f6020526133a161404460405f2054335f526016602052600160405f20015490615902565b61404c615a23565b335f52600f60205260405f2055613a143082615b5c565b60405162461bcd60e51b815260206004820152601060248201526f105b1c9958591e481c99599d5b99195960821b6044820152606490fd5b156140a257565b60405162461bcd60e51b8152602060048201526013602482015272139bc818dbdb5b5a5d1b595b9d08199bdd5b99606a1b6044820152606490fd5b5f818152601260205260409020546001600160a01b0316929091908315614289575f83815260126020908152604080832080546001600160a01b0319169055868352601490915290205460ff16613df357614139908284615725565b602081805181010312610b0f576001600160401b039061415b90602001613bc5565b16905f52601860205260ff60405f2054166141e6575b5f828152601160209081526040909120805460ff19169055600d545f516020615f705f395f51905f5292906001600160a01b0316156141c9575b806141ba575b604051908152a2565b6141c481856150cd565b6141b1565b835f526013825260405f206141df828254613b7c565b90556141ab565b6142076127106141ff61ffff602b5460c01c1684613bd9565b048092613b7c565b9061421481601c54613456565b601c55825f52601a60205260405f2061422e828254613456565b9055601b549182156127e657837f431fe8692708e0e7938efb63e6aa629ddaf44491264e968235c755a7d037316460406020945f516020615f705f395f51905f52965f1901601b5581519085825286820152a2915050614171565b60405162461bcd60e51b815260206004820152601a602482015279155b9adb9bdddb881dda5d1a191c985dd85b081c995c5d595cdd60321b6044820152606490fd5b156142d257565b60405162461bcd60e51b815260206004820152601c60248201527b13585c9ad95d081d5cd95cc81d1bdad95b8818dbdb1b185d195c985b60221b6044820152606490fd5b9091601e5482036145675760ff5f541661432f8161309c565b60048114613df3576143509261434b60028693613bff8161309c565b615725565b6143586156f6565b81518160051b90828204602014831517156127e65703614526575f916023545f602355806144e4575b50905f915b8183106144885750505060155560ff600381195f541617805f5560081c166143ad816130f8565b8015908115614474575b5061440f575b7fe1bb5c3668750a78399d568dc1d24745576098149f60b40bf105a6b0894cdcdc60405160208152806143f2602082016135ff565b0390a15f516020615ed05f395f51905f52602060405160038152a1565b60235415612d135760235f5260205f20548060225560235460011015612d135760407f1e5cacb9b9f53edf7140aa50858677a35ef681efbd89bd899434042dfe3cd1759160235f52600160205f200154908160215582519182526020820152a16143bd565b60019150614481816130f8565b145f6143b7565b90919260208460051b8301015160235490600160401b8210156131ca57600192816144d46144be85876144db970160235561316b565b819391549060031b91821b915f19901b19161790565b9055613456565b93019190614386565b60235f527fd57b2b5166478fd4318d2acc6cc2c704584312bdd8781b32d5d06abda57f4230908101905b81811061451b5750614381565b5f815560010161450e565b60405162461bcd60e51b8152602060048201526019602482015278092dcecc2d8d2c840c6d8cac2e4e8caf0e8e640d8cadccee8d603b1b6044820152606490fd5b60405162461bcd60e51b8152602060048201526012602482015271125b9d985b1a59081c995c5d595cdd08125160721b6044820152606490fd5b156145a857565b60405162461bcd60e51b815260206004820152601060248201526f13585c9ad95d0818d85b98d95b1b195960821b6044820152606490fd5b6001600160a01b0381165f818152600f602052604090205494938390868215614798575b8015614786575b602090606460018060a01b035f516020615ef05f395f51905f525416975f604051998a948593631d44e90160e21b8552600485015260248401528160448401525af1948515612d8f575f95614752575b50808515614741575b1561472e575b602090606460018060a01b035f516020615ef05f395f51905f525416965f604051988994859363d99882d560e01b8552600485015260248401528160448401525af1938415612d8f575f946146f8575b506146d46133a1946146db926146ce615a23565b91615d57565b8096615abf565b905f52600f6020528060405f20556146f33082615b5c565b615b5c565b93506020843d602011614726575b81614713602093836131a7565b81010312610b0f579251926146d46146ba565b3d9150614706565b50602061473a5f6159d5565b905061466a565b945061474c5f6159d5565b94614664565b9094506020813d60201161477e575b8161476e602093836131a7565b81010312610b0f5751935f61465b565b3d9150614761565b506020614791615a23565b905061460b565b94506147a2615a23565b94614604565b600d545f516020615f905f395f51905f52549192915f91906001600160a01b0316803b15610b0f57604051630f8e573b60e21b8152915f9183918290849082906147ff906001600160a01b03168a60048401615b43565b03925af18015612d8f576148c3575b50600d54604051632df5f6bf60e11b81526001600160a01b03948516600482018190526024820185905294909291602091849160449183918691165af19081156148b75750614886575b5060207f191862bc11d09ab6b5459c5eb1b1a1a5034155fe0cd68d89c55ca5ae98104d7691604051908152a2565b6020813d6020116148af575b8161489f602093836131a7565b81010312610b0f57506020614858565b3d9150614892565b604051903d90823e3d90fd5b6148cf91505f906131a7565b5f5f61480e565b91905f9060408051916148e982846131a7565b600183526020830190601f1983013683376149038461364f565b525f516020615fb05f395f51905f52545f516020615f905f395f51905f52549093906001600160a01b0316803b15610b0f575f84518092637d6e912360e11b82526020600483015281838161495b6024820189615e24565b03925af18015614b6a57614b55575b505f516020615f505f395f51905f52546001600160a01b0316803b1561188f578584518092633263b83b60e01b8252876004830152606060248301528183816149b66064820189615e24565b6333fdb3d160e21b604483015203925af18015614b4b57908691614b32575b508490525f516020615eb05f395f51905f5260205282852054614b23578385525f516020615eb05f395f51905f526020528285209051916001600160401b038311614b0f57600160401b8311614b0f578154838355808410614ae9575b5090855260208520855b838110614ad557505050507fe670e4e82118d22a1f9ee18920455ebc958bae26a90a05d31d3378788b1b0e4491602091614a835f516020615fb05f395f51905f5254613e86565b5f516020615fb05f395f51905f52556001600160a01b0390961680855260118352868520805460ff19166001179055818552601283529386902080546001600160a01b031916851790559451858152a2565b600190602084519401938184015501614a3c565b828752836020882091820191015b818110614b045750614a32565b878155600101614af7565b634e487b7160e01b86526041600452602486fd5b633f06d22b60e01b8552600485fd5b81614b3c916131a7565b614b4757845f6149d5565b8480fd5b84513d88823e3d90fd5b614b629195505f906131a7565b5f935f61496a565b84513d5f823e3d90fd5b5f5460101c6001600160a01b03163303614b8a57565b60405162461bcd60e51b81526020600482015260186024820152774f6e6c79206f776e65722063616e2063616c6c207468697360401b6044820152606490fd5b5f5460ff1680614bdb60039261309c565b0361112357565b5f5460ff16614bf08161309c565b61112357565b614c0560ff60245416156134d8565b602654614c1860ff8260101c1615613b14565b614c26600354421015613516565b602d5415614c8d57620100009061ff008360081b169062ffff0019161717602655426025556201518042018042116127e6577f943fcd7a0f31a0722e7d99d8588f114735883aa6ab4d9a2a1a9af4c19932649d9160409160ff8351921682526020820152a1565b60405162461bcd60e51b8152602060048201526018602482015277135d5cdd0819195c1bdcda5d081cdd185ad948199a5c9cdd60421b6044820152606490fd5b614cd68161316b565b90549060031b1c15614ea157602081600160ff7f54270650d2e25ff273615b8aabd767b4c3b38f61f2e6920670321fe62fc448d494169162ff00006024549160101b169062ff00ff19161717602455614d40614d3760155460325490613456565b601c5490613456565b7f49086fb5fbe3012e87f1afd31e52bfcb81e75a7804f59744a6eee012b59cd0a06040602b54614dea612710614d7d61ffff8460a01c1687613bd9565b0491614de583612710614d9761ffff8560b01c168a613bd9565b0497889360018060a01b03165f52602c8b52865f20614db7838254613456565b90555f805460101c6001600160a01b03168152602c8c528790208054614dde908690613456565b9055613b7c565b613b7c565b60275560245493614e0060ff8660101c1661316b565b90549060031b1c602855825191825286820152a160ff5f5460081c16614e25816130f8565b8015908115614e8d575b50614e3f575b50604051908152a1565b827fdb2a328be8e4e74480b048bb0dbd0dfc5edf85cfbc82d320c173a92d390a1ef29161ff006001851460081b169061ff001916178060245560ff6040519160081c1615158152a15f614e35565b60019150614e9a816130f8565b145f614e2f565b506133a1615699565b15614eb157565b60405162461bcd60e51b815260206004820152601b60248201527a10dbdb5b5a5d1b595b9d081c195c9a5bd9081a185cc8195b991959602a1b6044820152606490fd5b614f016002544210614eaa565b335f52601660205260405f20906133a160ff60028401541661409b565b60ff916020918015614f87575b5f516020615ef05f395f51905f5254604051637210768160e01b81526004810192909252919093166024840152600160f81b6044840152829060649082905f906001600160a01b03165af1908115612d8f575f916134a4575090565b506064614f92615a71565b9050614f2b565b9190614fa3615a23565b925f5b601d54811015614ffb5780614fdd614fc88786612a4060ff6001971688615da9565b614fd183613153565b90549060031b1c615abf565b614fe73082615b5c565b614ff36144be83613153565b905501614fa6565b5050509050565b919061500c615a23565b925f5b601d54811015614ffb57806150466150318786612a4060ff6001971688615da9565b61503a83613153565b90549060031b1c615902565b6150503082615b5c565b61505c6144be83613153565b90550161500f565b9091615094826133a19460018060a01b0382165f52601660205283600160405f2083815501556146f33082615b5c565b6146f33082615b5c565b60ff5f5460081c166150af816130f8565b80159081156150bc575090565b600291506150c9816130f8565b1490565b600d546001600160a01b0316156150fa576133a1916150f4906001600160401b0316615986565b906147a8565b600c546001600160a01b03168061518357505f80809381935af13d1561517e573d615124816131de565b9061513260405192836131a7565b81525f60203d92013e5b1561514357565b60405162461bcd60e51b8152602060048201526013602482015272115512081d1c985b9cd9995c8819985a5b1959606a1b6044820152606490fd5b61513c565b60405163a9059cbb60e01b60208201526001600160a01b0390921660248301526044808301939093529181526133a1916151be6064836131a7565b615e57565b600c546001600160a01b031680156152155761324a906151e334156142cb565b6040516323b872dd60e01b602082015233602482015230604482015260648082018590528152906151be6084836131a7565b50503490565b600d546001600160a01b031661537e5761523e600460ff5f541661099a8161309c565b801561533f57335f52601360205260018060401b036152618260405f2054613456565b1161530657335f52600f6020526152d861529060405f205461528a60018060401b038516615986565b90615902565b335f52600f6020528060405f2055335f52601060205260405f20600160ff19825416179055335f52601360205260405f206152cc848254613456565b9055610a9b3082615b5c565b6040519081527f2da466a7b24304f47e87fa2e1e5a81b9831ce54fec19055ce277ca2f39ba42c460203392a2565b60405162461bcd60e51b81526020600482015260116024820152704465706f73697420746f6f206c6172676560781b6044820152606490fd5b60405162461bcd60e51b8152602060048201526017602482015276135d5cdd0819195c1bdcda5d0818dbdb1b185d195c985b604a1b6044820152606490fd5b60405162461bcd60e51b815260206004820152601e60248201527f4d61726b6574207573657320636f6e666964656e7469616c20746f6b656e00006044820152606490fd5b60ff5f54166153d18161309c565b8015806154a9575b615499576153e68161309c565b60028114615489576153f78161309c565b6003811490818061546e575b615450576154109061309c565b80615443575b80615433575b615424575f90565b61324a600354600e5490613456565b5060ff60265460101c161561541c565b5060ff6024541615615416565b50506025546201518081018091116127e657600e5461324a91613456565b50600160ff602e5460a01c16615483816130f8565b14615403565b5061324a601f54600e5490613456565b5061324a600254600e5490613456565b50601b5415156153d9565b906154c26002544210614eaa565b6001600160a01b0382165f8181526016602052604090206002015490939060ff1661566057835f52601060205260ff60405f2054161561560f5761550461509e565b6155a4575b6155239061551c60ff601d541684614f1e565b90846145e0565b9061552e8282615002565b5f84815260166020526040902060028101805460ff19166001179055601754600390910181905592600160401b8410156131ca576155798161146586600161557e980160175561313b565b615064565b7fc6521345b8fe191747b17c6e542ec3d7911aa2dad5ad5e754794ec8cad9802d55f80a2565b5f5460101c6001600160a01b031684036155095760405162461bcd60e51b815260206004820152602960248201527f4f776e65722063616e6e6f7420706172746963697061746520696e206576656e60448201526874206d61726b65747360b81b6064820152608490fd5b60405162461bcd60e51b815260206004820152602360248201527f4465706f73697420746f20796f7572207661756c742062616c616e63652066696044820152621c9cdd60ea1b6064820152608490fd5b60405162461bcd60e51b8152602060048201526011602482015270105b1c9958591e4818dbdb5b5a5d1d1959607a1b6044820152606490fd5b7f2eab37e6ff1b33b938112ff2f5d846466af4004a7b719511940ff75407a9090f60205f54600460ff82169160ff1916175f55604051906156d98161309c565b8152a15f516020615ed05f395f51905f52602060405160048152a1565b600360ff5f5460081c16615709816130f8565b0361571f57600954600181018091116127e65790565b60085490565b9190825f525f516020615eb05f395f51905f5260205260405f2054156158f357825f525f516020615eb05f395f51905f5260205260405f20604051808260208294549384815201905f5260205f20925f5b8181106158da57505061578b925003826131a7565b8151928360200193846020116127e6576040018094116127e65761582e5f602094936157db868080976158409a60405199828b9351918291018585015e82019083820152030180885201866131a7565b61585260018060a01b037f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649703541694604051988997889687956378542ead60e01b8752606060048801526064870190615e24565b85810360031901602487015290613183565b83810360031901604485015290613183565b03925af1908115612d8f575f9161589f575b5015615890577f1af0453083661051f6e56e5c070792320652e612154bf9af8637bb1e7655b99d5f80a2565b63cf6c44e960e01b5f5260045ffd5b90506020813d6020116158d2575b816158ba602093836131a7565b81010312610b0f57518015158103610b0f575f615864565b3d91506158ad565b8454835260019485019486945060209093019201615776565b63d66ca67560e01b5f5260045ffd5b908115615976575b8015615964575b602090606460018060a01b035f516020615ef05f395f51905f525416935f604051958694859363022f65e760e31b8552600485015260248401528160448401525af1908115612d8f575f916134a4575090565b50602061596f615a23565b9050615911565b9050615980615a23565b9061590a565b5f516020615ef05f395f51905f5254604051639cd07acb60e01b815260048101929092526001600160a01b0316816044815f602094600560248401525af1908115612d8f575f916134a4575090565b5f516020615ef05f395f51905f5254604051639cd07acb60e01b815260048101929092526001600160a01b0316816044815f6020948160248401525af1908115612d8f575f916134a4575090565b5f516020615ef05f395f51905f5254604051639cd07acb60e01b81525f6004820152906001600160a01b0316816044815f602094600560248401525af1908115612d8f575f916134a4575090565b5f516020615ef05f395f51905f5254604051639cd07acb60e01b81525f6004820152906001600160a01b0316816044815f602094600260248401525af1908115612d8f575f916134a4575090565b908115615b33575b8015615b21575b602090606460018060a01b035f516020615ef05f395f51905f525416935f60405195869485936303056db360e31b8552600485015260248401528160448401525af1908115612d8f575f916134a4575090565b506020615b2c615a23565b9050615ace565b9050615b3d615a23565b90615ac7565b9081526001600160a01b03909116602082015260400190565b5f516020615f905f395f51905f52546001600160a01b031691823b15610b0f57615b9f925f9283604051809681958294635ca4b5b160e11b845260048401615b43565b03925af18015612d8f57615bb05750565b5f6133a1916131a7565b9190615bf95f516020615ef05f395f51905f5254916040519463196d0b9b60e01b86526004860152336024860152608060448601526084850190613183565b6002606485015260209184918290039082905f906001600160a01b03165af1918215612d8f575f92615c6f575b505f516020615f905f395f51905f525482906001600160a01b0316803b15610b0f57604051630f8e573b60e21b8152915f918391829084908290615b9f90339060048401615b43565b9091506020813d602011615c9b575b81615c8b602093836131a7565b81010312610b0f5751905f615c26565b3d9150615c7e565b9190615ce25f516020615ef05f395f51905f5254916040519463196d0b9b60e01b86526004860152336024860152608060448601526084850190613183565b6005606485015260209184918290039082905f906001600160a01b03165af1918215612d8f575f92615c6f57505f516020615f905f395f51905f525482906001600160a01b0316803b15610b0f57604051630f8e573b60e21b8152915f918391829084908290615b9f90339060048401615b43565b9060646020925f60018060a01b035f516020615ef05f395f51905f5254166040519687958694637702dcff60e01b86526004860152602485015260448401525af1908115612d8f575f916134a4575090565b60ff916020918015615e12575b5f516020615ef05f395f51905f525460405163f77f3f1d60e01b81526004810192909252919093166024840152600160f81b6044840152829060649082905f906001600160a01b03165af1908115612d8f575f916134a4575090565b506064615e1d615a71565b9050615db6565b90602080835192838152019201905f5b818110615e415750505090565b8251845260209384019390920191600101615e34565b905f602091828151910182855af115612d8f575f513d615ea657506001600160a01b0381163b155b615e865750565b635274afe760e01b5f9081526001600160a01b0391909116600452602490fd5b60011415615e7f56fe878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf01c847aefe15b8c362079c92928a3e12ebd56db092163d17840586ffe616ce7d349e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497016959ab982133e1e1f6501b33cbb57c50c4efbb64df110e39c00334cdcaaf8ad26e1540171b6c0c960b71a7020d9f60077f6af931a8bbf590da0223dacf75c7af9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497027084f5476618d8e60b11ef0d7d3f06914655adb8793e28ff7f018d4c76d505d59e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0069a10fcf8ca53cfa73b6e628504017e83f92cc078e2b0a02404bc31343216a1da164736f6c634300081b000a";
 
 type MarketFactoryConstructorParams =
-  | [signer?: Signer]
+  | [linkLibraryAddresses: MarketFactoryLibraryAddresses, signer?: Signer]
   | ConstructorParameters<typeof ContractFactory>;
 
 const isSuperArgs = (
   xs: MarketFactoryConstructorParams
-): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+): xs is ConstructorParameters<typeof ContractFactory> => {
+  return (
+    typeof xs[0] === "string" ||
+    (Array.isArray as (arg: any) => arg is readonly any[])(xs[0]) ||
+    "_isInterface" in xs[0]
+  );
+};
 
 export class MarketFactory__factory extends ContractFactory {
   constructor(...args: MarketFactoryConstructorParams) {
     if (isSuperArgs(args)) {
       super(...args);
     } else {
-      super(_abi, _bytecode, args[0]);
+      const [linkLibraryAddresses, signer] = args;
+      super(
+        _abi,
+        MarketFactory__factory.linkBytecode(linkLibraryAddresses),
+        signer
+      );
     }
   }
 
+  static linkBytecode(
+    linkLibraryAddresses: MarketFactoryLibraryAddresses
+  ): string {
+    let linkedBytecode = _bytecode;
+
+    linkedBytecode = linkedBytecode.replace(
+      new RegExp("__\\$4563756896492f54dec2c909b584b0f0d3\\$__", "g"),
+      linkLibraryAddresses["contracts/CommitIntent.sol:CommitIntent"]
+        .replace(/^0x/, "")
+        .toLowerCase()
+    );
+
+    linkedBytecode = linkedBytecode.replace(
+      new RegExp("__\\$3cb9875020690e4168961281e040d911c3\\$__", "g"),
+      linkLibraryAddresses[
+        "contracts/ConfidentialPayout.sol:ConfidentialPayout"
+      ]
+        .replace(/^0x/, "")
+        .toLowerCase()
+    );
+
+    return linkedBytecode;
+  }
+
   override getDeployTransaction(
+    _arbiter: AddressLike,
     overrides?: NonPayableOverrides & { from?: string }
   ): Promise<ContractDeployTransaction> {
-    return super.getDeployTransaction(overrides || {});
+    return super.getDeployTransaction(_arbiter, overrides || {});
   }
-  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
-    return super.deploy(overrides || {}) as Promise<
+  override deploy(
+    _arbiter: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ) {
+    return super.deploy(_arbiter, overrides || {}) as Promise<
       MarketFactory & {
         deploymentTransaction(): ContractTransactionResponse;
       }
@@ -478,3 +714,8 @@ export class MarketFactory__factory extends ContractFactory {
     return new Contract(address, _abi, runner) as unknown as MarketFactory;
   }
 }
+
+export interface MarketFactoryLibraryAddresses {
+  ["contracts/CommitIntent.sol:CommitIntent"]: string;
+  ["contracts/ConfidentialPayout.sol:ConfidentialPayout"]: string;
+}
@@ -7,7 +7,12 @@ import {
   ContractTransactionResponse,
   Interface,
 } from "ethers";
-import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type {
+  Signer,
+  AddressLike,
+  ContractDeployTransaction,
+  ContractRunner,
+} from "ethers";
 import type { NonPayableOverrides } from "../../common";
 import type {
   PriceOracle,
@@ -16,70 +21,910 @@ import type {
 
 const _abi = [
   {
-    inputs: [],
+    inputs: [
+      {
+        internalType: "contract AssetRegistry",
+        name: "_assetRegistry",
+        type: "address",
+      },
+    ],
     stateMutability: "nonpayable",
     type: "constructor",
   },
+  {
+    inputs: [],
+    name: "ECDSAInvalidSignature",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "length",
+        type: "uint256",
+      },
+    ],
+    name: "ECDSAInvalidSignatureLength",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "s",
+        type: "bytes32",
+      },
+    ],
+    name: "ECDSAInvalidSignatureS",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "maxUpdateChangeBps",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "maxWindowChangeBps",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "changeWindow",
+        type: "uint256",
+      },
+    ],
+    name: "CircuitBreakerUpdated",
+    type: "event",
+  },
   {
     anonymous: false,
     inputs: [
       {
         indexed: true,
-        internalType: "enum PriceOracle.Asset",
+        internalType: "bytes32",
         name: "asset",
-        type: "uint8",
+        type: "bytes32",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "round",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "updater",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "price",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "median",
+        type: "uint256",
+      },
+    ],
+    name: "OutlierReported",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "asset",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "price",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "PriceConfirmed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "asset",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "price",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "updater",
+        type: "address",
+      },
+    ],
+    name: "PriceQuarantined",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "asset",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "price",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "PriceRejected",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "asset",
+        type: "bytes32",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "round",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "updater",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "price",
+        type: "uint256",
+      },
+    ],
+    name: "PriceReported",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "asset",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "price",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "updater",
+        type: "address",
+      },
+    ],
+    name: "PriceUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "quorum",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "maxDeviationBps",
+        type: "uint256",
+      },
+    ],
+    name: "QuorumUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "asset",
+        type: "bytes32",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "round",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "reportCount",
+        type: "uint256",
+      },
+    ],
+    name: "ReportsExpired",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "signer",
+        type: "address",
+      },
+    ],
+    name: "SignerAdded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "signer",
+        type: "address",
+      },
+    ],
+    name: "SignerRemoved",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "updater",
+        type: "address",
+      },
+    ],
+    name: "UpdaterAdded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "updater",
+        type: "address",
+      },
+    ],
+    name: "UpdaterRemoved",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "DOMAIN_TYPEHASH",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_PRICE_AGE",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_QUORUM",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "PRICE_HISTORY_SIZE",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "PRICE_REPORT_TYPEHASH",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "REPORT_TIMEOUT",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "signer",
+        type: "address",
+      },
+    ],
+    name: "addSigner",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "updater",
+        type: "address",
+      },
+    ],
+    name: "addUpdater",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "assetRegistry",
+    outputs: [
+      {
+        internalType: "contract AssetRegistry",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "changeWindow",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "asset",
+        type: "bytes32",
+      },
+    ],
+    name: "confirmPrice",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "decimals",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "asset",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "findRoundAt",
+    outputs: [
+      {
+        internalType: "uint80",
+        name: "roundId",
+        type: "uint80",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "asset",
+        type: "bytes32",
+      },
+    ],
+    name: "getPendingReports",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "price",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "timestamp",
+            type: "uint256",
+          },
+          {
+            internalType: "address",
+            name: "updater",
+            type: "address",
+          },
+        ],
+        internalType: "struct PriceOracle.Report[]",
+        name: "reports",
+        type: "tuple[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "asset",
+        type: "bytes32",
+      },
+    ],
+    name: "getPrice",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "price",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "asset",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+      {
+        internalType: "uint80",
+        name: "roundHint",
+        type: "uint80",
+      },
+    ],
+    name: "getPriceAt",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "price",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "updatedAt",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "asset",
+        type: "bytes32",
+      },
+    ],
+    name: "getPriceUnsafe",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "price",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "asset",
+        type: "bytes32",
+      },
+    ],
+    name: "getPriceWithMetadata",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "price",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+      {
+        internalType: "uint8",
+        name: "priceDecimals",
+        type: "uint8",
+      },
+      {
+        internalType: "string",
+        name: "description",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "asset",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256",
+        name: "endTime",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "window",
+        type: "uint256",
+      },
+      {
+        internalType: "uint80",
+        name: "roundHint",
+        type: "uint80",
+      },
+      {
+        internalType: "bytes",
+        name: "report",
+        type: "bytes",
+      },
+    ],
+    name: "getSettlementPrice",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "price",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "source",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "asset",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256",
+        name: "endTime",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "window",
+        type: "uint256",
+      },
+      {
+        internalType: "uint80",
+        name: "roundHint",
+        type: "uint80",
+      },
+    ],
+    name: "getTwap",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "twap",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "asset",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "updater",
+        type: "address",
+      },
+    ],
+    name: "hasReported",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "asset",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256",
+        name: "price",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "hashPriceReport",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "asset",
+        type: "bytes32",
+      },
+    ],
+    name: "isAssetSupported",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "asset",
+        type: "bytes32",
       },
       {
-        indexed: false,
         internalType: "uint256",
-        name: "price",
+        name: "targetPrice",
         type: "uint256",
       },
+    ],
+    name: "isPriceAboveTarget",
+    outputs: [
       {
-        indexed: false,
-        internalType: "uint256",
-        name: "timestamp",
-        type: "uint256",
+        internalType: "bool",
+        name: "isAbove",
+        type: "bool",
       },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
       {
-        indexed: false,
-        internalType: "address",
-        name: "updater",
-        type: "address",
+        internalType: "bytes32",
+        name: "asset",
+        type: "bytes32",
       },
     ],
-    name: "PriceUpdated",
-    type: "event",
+    name: "isPriceFresh",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "isFresh",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
   },
   {
-    anonymous: false,
     inputs: [
       {
-        indexed: true,
         internalType: "address",
-        name: "updater",
+        name: "",
         type: "address",
       },
     ],
-    name: "UpdaterAdded",
-    type: "event",
+    name: "isSigner",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
   },
   {
-    anonymous: false,
     inputs: [
       {
-        indexed: true,
         internalType: "address",
-        name: "updater",
+        name: "",
         type: "address",
       },
     ],
-    name: "UpdaterRemoved",
-    type: "event",
+    name: "isUpdater",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
   },
   {
     inputs: [],
-    name: "MAX_PRICE_AGE",
+    name: "maxDeviationBps",
     outputs: [
       {
         internalType: "uint256",
@@ -91,36 +936,57 @@ const _abi = [
     type: "function",
   },
   {
-    inputs: [
+    inputs: [],
+    name: "maxUpdateChangeBps",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "maxWindowChangeBps",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "owner",
+    outputs: [
       {
         internalType: "address",
-        name: "updater",
+        name: "",
         type: "address",
       },
     ],
-    name: "addUpdater",
-    outputs: [],
-    stateMutability: "nonpayable",
+    stateMutability: "view",
     type: "function",
   },
   {
     inputs: [
       {
-        internalType: "enum PriceOracle.Asset",
-        name: "asset",
-        type: "uint8",
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
       },
     ],
-    name: "getPrice",
+    name: "priceHistoryCount",
     outputs: [
       {
         internalType: "uint256",
-        name: "price",
-        type: "uint256",
-      },
-      {
-        internalType: "uint256",
-        name: "timestamp",
+        name: "",
         type: "uint256",
       },
     ],
@@ -130,12 +996,12 @@ const _abi = [
   {
     inputs: [
       {
-        internalType: "enum PriceOracle.Asset",
-        name: "asset",
-        type: "uint8",
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
       },
     ],
-    name: "getPriceUnsafe",
+    name: "prices",
     outputs: [
       {
         internalType: "uint256",
@@ -147,6 +1013,11 @@ const _abi = [
         name: "timestamp",
         type: "uint256",
       },
+      {
+        internalType: "address",
+        name: "updater",
+        type: "address",
+      },
     ],
     stateMutability: "view",
     type: "function",
@@ -154,22 +1025,27 @@ const _abi = [
   {
     inputs: [
       {
-        internalType: "enum PriceOracle.Asset",
-        name: "asset",
-        type: "uint8",
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    name: "quarantinedPrices",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "price",
+        type: "uint256",
       },
       {
         internalType: "uint256",
-        name: "targetPrice",
+        name: "timestamp",
         type: "uint256",
       },
-    ],
-    name: "isPriceAboveTarget",
-    outputs: [
       {
-        internalType: "bool",
-        name: "isAbove",
-        type: "bool",
+        internalType: "address",
+        name: "updater",
+        type: "address",
       },
     ],
     stateMutability: "view",
@@ -178,92 +1054,111 @@ const _abi = [
   {
     inputs: [
       {
-        internalType: "enum PriceOracle.Asset",
-        name: "asset",
-        type: "uint8",
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
       },
     ],
-    name: "isPriceFresh",
+    name: "quarantinedSince",
     outputs: [
       {
-        internalType: "bool",
-        name: "isFresh",
-        type: "bool",
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
       },
     ],
     stateMutability: "view",
     type: "function",
   },
   {
-    inputs: [
+    inputs: [],
+    name: "quorum",
+    outputs: [
       {
-        internalType: "address",
+        internalType: "uint256",
         name: "",
-        type: "address",
+        type: "uint256",
       },
     ],
-    name: "isUpdater",
-    outputs: [
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
       {
-        internalType: "bool",
-        name: "",
-        type: "bool",
+        internalType: "bytes32",
+        name: "asset",
+        type: "bytes32",
       },
     ],
-    stateMutability: "view",
+    name: "rejectPrice",
+    outputs: [],
+    stateMutability: "nonpayable",
     type: "function",
   },
   {
-    inputs: [],
-    name: "owner",
-    outputs: [
+    inputs: [
       {
         internalType: "address",
-        name: "",
+        name: "signer",
         type: "address",
       },
     ],
-    stateMutability: "view",
+    name: "removeSigner",
+    outputs: [],
+    stateMutability: "nonpayable",
     type: "function",
   },
   {
     inputs: [
       {
-        internalType: "enum PriceOracle.Asset",
-        name: "",
-        type: "uint8",
+        internalType: "address",
+        name: "updater",
+        type: "address",
       },
     ],
-    name: "prices",
-    outputs: [
+    name: "removeUpdater",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
       {
         internalType: "uint256",
-        name: "price",
+        name: "_maxUpdateChangeBps",
         type: "uint256",
       },
       {
         internalType: "uint256",
-        name: "timestamp",
+        name: "_maxWindowChangeBps",
         type: "uint256",
       },
       {
-        internalType: "address",
-        name: "updater",
-        type: "address",
+        internalType: "uint256",
+        name: "_changeWindow",
+        type: "uint256",
       },
     ],
-    stateMutability: "view",
+    name: "setCircuitBreaker",
+    outputs: [],
+    stateMutability: "nonpayable",
     type: "function",
   },
   {
     inputs: [
       {
-        internalType: "address",
-        name: "updater",
-        type: "address",
+        internalType: "uint256",
+        name: "_quorum",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_maxDeviationBps",
+        type: "uint256",
       },
     ],
-    name: "removeUpdater",
+    name: "setQuorum",
     outputs: [],
     stateMutability: "nonpayable",
     type: "function",
@@ -271,9 +1166,28 @@ const _abi = [
   {
     inputs: [
       {
-        internalType: "enum PriceOracle.Asset",
+        internalType: "bytes4",
+        name: "interfaceId",
+        type: "bytes4",
+      },
+    ],
+    name: "supportsInterface",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
         name: "asset",
-        type: "uint8",
+        type: "bytes32",
       },
       {
         internalType: "uint256",
@@ -289,9 +1203,9 @@ const _abi = [
   {
     inputs: [
       {
-        internalType: "enum PriceOracle.Asset[]",
+        internalType: "bytes32[]",
         name: "assets",
-        type: "uint8[]",
+        type: "bytes32[]",
       },
       {
         internalType: "uint256[]",
@@ -304,10 +1218,39 @@ const _abi = [
     stateMutability: "nonpayable",
     type: "function",
   },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "asset",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "report",
+        type: "bytes",
+      },
+    ],
+    name: "verifyReportAt",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "price",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
 ] as const;
 
 const _bytecode =
-  "0x608060405234801561000f575f5ffd5b5060028054336001600160a01b0319918216811783555f818152600160208181526040808420805460ff19168417905580516060808201835264517da02c0082524282850181815283850189815288805288875293517fad3228b676f7d3cd4284a5443f17f1962b36e491b30a40b2405849e597ba5fb555517fad3228b676f7d3cd4284a5443f17f1962b36e491b30a40b2405849e597ba5fb65591517fad3228b676f7d3cd4284a5443f17f1962b36e491b30a40b2405849e597ba5fb780546001600160a01b03928316908b16179055835180830185526508a3e420180081528086018481528186018a815297895288875290517fada5013122d395ba3c54772283fb069b10426056ef8ca54750cb9bb552a59e7d55517fada5013122d395ba3c54772283fb069b10426056ef8ca54750cb9bb552a59e7e5594517fada5013122d395ba3c54772283fb069b10426056ef8ca54750cb9bb552a59e7f80548a1691871691909117905582519081018352640430e23400815280840191825291820195865296845292905290517fabbb5caa7dda850e60932de0934eb1f9d0f59695050f761dc64e443e5030a5695592517fabbb5caa7dda850e60932de0934eb1f9d0f59695050f761dc64e443e5030a56a55517fabbb5caa7dda850e60932de0934eb1f9d0f59695050f761dc64e443e5030a56b80549092169216919091179055610ccb8061021e5f395ff3fe608060405234801561000f575f5ffd5b50600436106100ce575f3560e01c80638a3177a31161007d578063abe2a42111610058578063abe2a4211461021d578063fa6db08814610230578063fff3c1b014610243575f5ffd5b80638a3177a31461017f5780638da5cb5b146101da5780639d7f7e8614610205575f5ffd5b806343d24a5e116100ad57806343d24a5e146101275780634fdfb0861461013a578063815f65041461016c575f5ffd5b80627fa4f0146100d257806304b07a5e146100e757806337f1e7f2146100fa575b5f5ffd5b6100e56100e0366004610b55565b610256565b005b6100e56100f5366004610b7d565b6103e7565b61010d610108366004610baa565b610475565b604080519283526020830191909152015b60405180910390f35b6100e5610135366004610b7d565b610584565b61015c610148366004610b7d565b60016020525f908152604090205460ff1681565b604051901515815260200161011e565b61015c61017a366004610b55565b61066e565b6101b661018d366004610baa565b5f602081905290815260409020805460018201546002909201549091906001600160a01b031683565b6040805193845260208401929092526001600160a01b03169082015260600161011e565b6002546101ed906001600160a01b031681565b6040516001600160a01b03909116815260200161011e565b61020f6201518081565b60405190815260200161011e565b61015c61022b366004610baa565b610777565b6100e561023e366004610c0b565b61080c565b61010d610251366004610baa565b610a97565b335f9081526001602052604090205460ff166102b95760405162461bcd60e51b815260206004820152601660248201527f4e6f7420617574686f72697a656420757064617465720000000000000000000060448201526064015b60405180910390fd5b5f81116102f85760405162461bcd60e51b815260206004820152600d60248201526c496e76616c696420707269636560981b60448201526064016102b0565b6040518060600160405280828152602001428152602001336001600160a01b03168152505f5f84600281111561033057610330610c77565b600281111561034157610341610c77565b815260208082019290925260409081015f208351815591830151600183015591909101516002918201805473ffffffffffffffffffffffffffffffffffffffff19166001600160a01b0390921691909117905582908111156103a5576103a5610c77565b60408051838152426020820152338183015290517f5fa6e3bf0076a625f9f2e2e6228f6a3f8a95ea93a3bdde88f1bac0771220aa119181900360600190a25050565b6002546001600160a01b0316331461042d5760405162461bcd60e51b81526020600482015260096024820152682737ba1037bbb732b960b91b60448201526064016102b0565b6001600160a01b0381165f81815260016020526040808220805460ff19169055517f209d819a9ec655e89f2b2b9d65c8a78879b45a8f20d1941d69c5fe6dc21bcb629190a250565b5f5f5f5f5f85600281111561048c5761048c610c77565b600281111561049d5761049d610c77565b815260208082019290925260409081015f2081516060810183528154815260018201549381018490526002909101546001600160a01b03169181019190915291506105205760405162461bcd60e51b81526020600482015260136024820152725072696365206e6f7420617661696c61626c6560681b60448201526064016102b0565b620151808160200151426105349190610c8b565b11156105725760405162461bcd60e51b815260206004820152600d60248201526c141c9a58d9481d1bdbc81bdb19609a1b60448201526064016102b0565b80516020909101519094909350915050565b6002546001600160a01b031633146105ca5760405162461bcd60e51b81526020600482015260096024820152682737ba1037bbb732b960b91b60448201526064016102b0565b6001600160a01b0381166106205760405162461bcd60e51b815260206004820152600f60248201527f496e76616c69642061646472657373000000000000000000000000000000000060448201526064016102b0565b6001600160a01b0381165f818152600160208190526040808320805460ff1916909217909155517f23a38f89c31ff6329bf86f3863cfa2ad8fc1462c40dbf907dbbebb8f9cb237ec9190a250565b5f5f5f5f85600281111561068457610684610c77565b600281111561069557610695610c77565b815260208082019290925260409081015f2081516060810183528154815260018201549381018490526002909101546001600160a01b03169181019190915291506107185760405162461bcd60e51b81526020600482015260136024820152725072696365206e6f7420617661696c61626c6560681b60448201526064016102b0565b6201518081602001514261072c9190610c8b565b111561076a5760405162461bcd60e51b815260206004820152600d60248201526c141c9a58d9481d1bdbc81bdb19609a1b60448201526064016102b0565b5182111590505b92915050565b5f5f5f5f84600281111561078d5761078d610c77565b600281111561079e5761079e610c77565b815260208082019290925260409081015f90812082516060810184528154815260018201549481018590526002909101546001600160a01b031692810192909252909250036107ef57505f92915050565b620151808160200151426108039190610c8b565b11159392505050565b335f9081526001602052604090205460ff1661086a5760405162461bcd60e51b815260206004820152601660248201527f4e6f7420617574686f72697a656420757064617465720000000000000000000060448201526064016102b0565b8281146108b95760405162461bcd60e51b815260206004820152600f60248201527f4c656e677468206d69736d61746368000000000000000000000000000000000060448201526064016102b0565b5f5b83811015610a90575f8383838181106108d6576108d6610caa565b905060200201351161091a5760405162461bcd60e51b815260206004820152600d60248201526c496e76616c696420707269636560981b60448201526064016102b0565b604051806060016040528084848481811061093757610937610caa565b905060200201358152602001428152602001336001600160a01b03168152505f5f87878581811061096a5761096a610caa565b905060200201602081019061097f9190610baa565b600281111561099057610990610c77565b60028111156109a1576109a1610c77565b815260208082019290925260409081015f208351815591830151600183015591909101516002909101805473ffffffffffffffffffffffffffffffffffffffff19166001600160a01b03909216919091179055848482818110610a0657610a06610caa565b9050602002016020810190610a1b9190610baa565b6002811115610a2c57610a2c610c77565b7f5fa6e3bf0076a625f9f2e2e6228f6a3f8a95ea93a3bdde88f1bac0771220aa11848484818110610a5f57610a5f610caa565b60408051602092830294909401358452429184019190915233908301525060600160405180910390a26001016108bb565b5050505050565b5f5f5f5f5f856002811115610aae57610aae610c77565b6002811115610abf57610abf610c77565b815260208082019290925260409081015f2081516060810183528154815260018201549381018490526002909101546001600160a01b03169181019190915291506105725760405162461bcd60e51b81526020600482015260136024820152725072696365206e6f7420617661696c61626c6560681b60448201526064016102b0565b803560038110610b50575f5ffd5b919050565b5f5f60408385031215610b66575f5ffd5b610b6f83610b42565b946020939093013593505050565b5f60208284031215610b8d575f5ffd5b81356001600160a01b0381168114610ba3575f5ffd5b9392505050565b5f60208284031215610bba575f5ffd5b610ba382610b42565b5f5f83601f840112610bd3575f5ffd5b50813567ffffffffffffffff811115610bea575f5ffd5b6020830191508360208260051b8501011115610c04575f5ffd5b9250929050565b5f5f5f5f60408587031215610c1e575f5ffd5b843567ffffffffffffffff811115610c34575f5ffd5b610c4087828801610bc3565b909550935050602085013567ffffffffffffffff811115610c5f575f5ffd5b610c6b87828801610bc3565b95989497509550505050565b634e487b7160e01b5f52602160045260245ffd5b8181038181111561077157634e487b7160e01b5f52601160045260245ffd5b634e487b7160e01b5f52603260045260245ffdfea164736f6c634300081b000a";
+  "0x60a060405260016005556101f460065534801561001a575f5ffd5b5060405161386d38038061386d833981016040819052610039916100c7565b6001600160a01b0381166100865760405162461bcd60e51b815260206004820152601060248201526f496e76616c696420726567697374727960801b604482015260640160405180910390fd5b600280546001600160a01b031916339081179091555f908152600160208190526040909120805460ff191690911790556001600160a01b03166080526100f4565b5f602082840312156100d7575f5ffd5b81516001600160a01b03811681146100ed575f5ffd5b9392505050565b6080516137456101285f395f818161063f015281816110e401528181611bce01528181611cc60152611fc301526137455ff3fe608060405234801561000f575f5ffd5b50600436106102ee575f3560e01c806362f1d044116101925780639d75278f116100e8578063d44fa33e11610093578063f2ecebb81161006e578063f2ecebb814610740578063f789567d14610753578063fb0506bc14610772575f5ffd5b8063d44fa33e146106f7578063dbdbb3121461070a578063eb12d61e1461072d575f5ffd5b8063b54155e3116100c3578063b54155e3146106a5578063cdbdac09146106dc578063d2cbc867146106ef575f5ffd5b80639d75278f146106615780639d7f7e8614610674578063ae3c99411461067e575f5ffd5b8063828323f71161014857806394579f381161012357806394579f381461061e57806396834ad314610627578063979d7e861461063a575f5ffd5b8063828323f7146105b257806385e5289e146105c55780638da5cb5b146105f3575f5ffd5b806371d57b371161017857806371d57b371461054d5780637a3d54681461057d5780637df73e2714610590575f5ffd5b806362f1d04414610531578063699dc7d71461053a575f5ffd5b806339fe422b116102475780634fdfb086116101fd5780635f704f3e116101d85780635f704f3e146104a357806360846bc6146104b65780636133296d14610511575f5ffd5b80634fdfb0861461044f5780635a98d116146104715780635e4f890c14610490575f5ffd5b806343d24a5e1161022d57806343d24a5e14610416578063445648181461042957806348a056111461043c575f5ffd5b806339fe422b146104045780633ee7a7011461040d575f5ffd5b8063102fd327116102a757806320606b701161028257806320606b701461039b578063313ce567146103c257806331d98b3f146103dc575f5ffd5b8063102fd327146103685780631394e4471461037f5780631703a01814610392575f5ffd5b8063082d2c60116102d7578063082d2c601461032f5780630a645934146103425780630e316ab714610355575f5ffd5b806301ffc9a7146102f257806304b07a5e1461031a575b5f5ffd5b610305610300366004612f74565b61077a565b60405190151581526020015b60405180910390f35b61032d610328366004612faf565b6107b0565b005b61032d61033d366004613012565b610843565b61032d61035036600461307e565b610943565b61032d610363366004612faf565b610a87565b610371610e1081565b604051908152602001610311565b61030561038d366004613095565b610b15565b61037160055481565b6103717f8b73c3c69bb8fe3d512ecc4cf759cc79239f7b179b0ffacaa9a75d522b39400f81565b6103ca600881565b60405160ff9091168152602001610311565b6103ef6103ea36600461307e565b610b9d565b60408051928352602083019190915201610311565b610371600b5481565b61037160065481565b61032d610424366004612faf565b610ccf565b6103716104373660046130e1565b610dab565b61037161044a36600461315b565b610f7d565b61030561045d366004612faf565b60016020525f908152604090205460ff1681565b61037161047f36600461307e565b60046020525f908152604090205481565b61032d61049e36600461319e565b611423565b61032d6104b13660046131c7565b611507565b6104ed6104c436600461307e565b5f602081905290815260409020805460018201546002909201549091906001600160a01b031683565b6040805193845260208401929092526001600160a01b031690820152606001610311565b61052461051f36600461307e565b611573565b60405161031191906131e7565b610371600a5481565b61037161054836600461319e565b61160f565b61056061055b36600461324e565b61172c565b604080519283526001600160a01b03909116602083015201610311565b61032d61058b3660046131c7565b611768565b61030561059e366004612faf565b60086020525f908152604090205460ff1681565b6103056105c036600461307e565b6118a3565b6105d86105d33660046131c7565b61190a565b60405169ffffffffffffffffffff9091168152602001610311565b600254610606906001600160a01b031681565b6040516001600160a01b039091168152602001610311565b61037160095481565b6103ef61063536600461307e565b611968565b6106067f000000000000000000000000000000000000000000000000000000000000000081565b6103ef61066f3660046132ba565b6119e7565b6103716201518081565b6103717ffa7221505ccaa1effd2c6679912e522ff9d56ebd9941540e4623046e79b69c3881565b6104ed6106b336600461307e565b600c6020525f90815260409020805460018201546002909201549091906001600160a01b031683565b61032d6106ea36600461307e565b611a16565b610371600f81565b61030561070536600461307e565b611bb6565b61071d61071836600461307e565b611c3f565b60405161031194939291906132ec565b61032d61073b366004612faf565b611d6b565b61030561074e3660046131c7565b611e44565b61037161076136600461307e565b600d6020525f908152604090205481565b610371603081565b5f6001600160e01b031982166311c4f5dd60e21b14806107aa57506001600160e01b031982166301ffc9a760e01b145b92915050565b6002546001600160a01b031633146107fb5760405162461bcd60e51b81526020600482015260096024820152682737ba1037bbb732b960b91b60448201526064015b60405180910390fd5b6001600160a01b0381165f81815260016020526040808220805460ff19169055517f209d819a9ec655e89f2b2b9d65c8a78879b45a8f20d1941d69c5fe6dc21bcb629190a250565b335f9081526001602052604090205460ff166108a15760405162461bcd60e51b815260206004820152601660248201527f4e6f7420617574686f72697a656420757064617465720000000000000000000060448201526064016107f2565b8281146108f05760405162461bcd60e51b815260206004820152600f60248201527f4c656e677468206d69736d61746368000000000000000000000000000000000060448201526064016107f2565b5f5b8381101561093c5761093485858381811061090f5761090f613339565b9050602002013584848481811061092857610928613339565b90506020020135611f6e565b6001016108f2565b5050505050565b6002546001600160a01b031633146109895760405162461bcd60e51b81526020600482015260096024820152682737ba1037bbb732b960b91b60448201526064016107f2565b5f818152600d602052604081205490036109e55760405162461bcd60e51b815260206004820152601460248201527f4e6f2071756172616e74696e656420707269636500000000000000000000000060448201526064016107f2565b5f818152600c602090815260408083208151606081018352815481526001820180548286019081526002840180546001600160a01b0381168588015289895294889055918790556001600160a01b03199093169055600d8452828520949094558351905182519182529281019290925283917ff2b83791463a9f434c1828ab0d6540a4f433a2aa70e7bd4f61f9ca2acc05755491015b60405180910390a25050565b6002546001600160a01b03163314610acd5760405162461bcd60e51b81526020600482015260096024820152682737ba1037bbb732b960b91b60448201526064016107f2565b6001600160a01b0381165f81815260086020526040808220805460ff19169055517f3525e22824a8a7df2c9a6029941c824cf95b6447f1e13d5128fd3826d35afe8b9190a250565b5f610b1f836123bf565b15610b2b57505f6107aa565b5f838152600760205260408120905b8154811015610b9357836001600160a01b0316828281548110610b5f57610b5f613339565b5f9182526020909120600260039092020101546001600160a01b031603610b8b576001925050506107aa565b600101610b3a565b505f949350505050565b5f8181526020818152604080832081516060810183528154815260018201549381018490526002909101546001600160a01b0316918101919091528291610c1c5760405162461bcd60e51b81526020600482015260136024820152725072696365206e6f7420617661696c61626c6560681b60448201526064016107f2565b62015180816020015142610c309190613361565b1115610c6e5760405162461bcd60e51b815260206004820152600d60248201526c141c9a58d9481d1bdbc81bdb19609a1b60448201526064016107f2565b5f848152600d602052604090205415610cbd5760405162461bcd60e51b8152602060048201526011602482015270141c9a58d9481c5d585c985b9d1a5b9959607a1b60448201526064016107f2565b80516020909101519094909350915050565b6002546001600160a01b03163314610d155760405162461bcd60e51b81526020600482015260096024820152682737ba1037bbb732b960b91b60448201526064016107f2565b6001600160a01b038116610d5d5760405162461bcd60e51b815260206004820152600f60248201526e496e76616c6964206164647265737360881b60448201526064016107f2565b6001600160a01b0381165f818152600160208190526040808320805460ff1916909217909155517f23a38f89c31ff6329bf86f3863cfa2ad8fc1462c40dbf907dbbebb8f9cb237ec9190a250565b5f428411158015610dbc5750838311155b610df95760405162461bcd60e51b815260206004820152600e60248201526d496e76616c69642077696e646f7760901b60448201526064016107f2565b5f610e1186868569ffffffffffffffffffff1661240f565b5f8781526004602052604081205491925060308211610e31576001610e47565b610e3c603083613361565b610e47906001613374565b83519091505f610e57888a613361565b9050885f69ffffffffffffffffffff89165b5f84896020015111610e7b5784610e81565b88602001515b9050610e8d8185613361565b8951610e999190613387565b610ea39084613374565b925080935084811480610eb557508682145b15610ec05750610f40565b5f8e81526003602052604090206030610eda600285613361565b610ee491906133b2565b60308110610ef457610ef4613339565b60408051606081018252600392909202929092018054825260018101546020830152600201546001600160a01b0316918101919091529850819050610f38816133c5565b915050610e69565b508a8203610f575783975050505050505050610f75565b610f61828c613361565b610f6b90826133da565b9750505050505050505b949350505050565b5f806060610f8d84860186613482565b9194509250905042861115610fe45760405162461bcd60e51b815260206004820152601160248201527f496e76616c69642074696d657374616d7000000000000000000000000000000060448201526064016107f2565b8582146110335760405162461bcd60e51b815260206004820152601860248201527f496e76616c6964207265706f72742074696d657374616d70000000000000000060448201526064016107f2565b620151806110418342613361565b111561108f5760405162461bcd60e51b815260206004820152600e60248201527f5265706f7274206578706972656400000000000000000000000000000000000060448201526064016107f2565b5f83116110ce5760405162461bcd60e51b815260206004820152600d60248201526c496e76616c696420707269636560981b60448201526064016107f2565b604051637677dee360e11b8152600481018890527f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03169063ecefbdc690602401602060405180830381865afa158015611131573d5f5f3e3d5ffd5b505050506040513d601f19601f8201168201806040525081019061115591906135a4565b6111915760405162461bcd60e51b815260206004820152600d60248201526c155b9adb9bdddb88185cdcd95d609a1b60448201526064016107f2565b600554815110156111e45760405162461bcd60e51b815260206004820152601560248201527f4e6f7420656e6f756768207369676e617475726573000000000000000000000060448201526064016107f2565b5f878152600d60205260409020548015806111fe57508681115b801561121257506112108885896126fa565b155b6112525760405162461bcd60e51b8152602060048201526011602482015270141c9a58d9481c5d585c985b9d1a5b9959607a1b60448201526064016107f2565b5f61125d898961284a565b90508015806112b557505f89815260036020526040902062015180906030611286600185613361565b61129091906133b2565b603081106112a0576112a0613339565b6003020160010154896112b39190613361565b115b6113015760405162461bcd60e51b815260206004820152601860248201527f5265636f7264656420707269636520617661696c61626c65000000000000000060448201526064016107f2565b5f61130d8a878761160f565b90505f805b8551811015611414575f61133f8488848151811061133257611332613339565b60200260200101516128f3565b6001600160a01b0381165f9081526008602052604090205490915060ff166113a95760405162461bcd60e51b815260206004820152601860248201527f496e76616c6964207265706f7274207369676e6174757265000000000000000060448201526064016107f2565b826001600160a01b0316816001600160a01b03161161140a5760405162461bcd60e51b815260206004820152601460248201527f5369676e657273206f7574206f66206f7264657200000000000000000000000060448201526064016107f2565b9150600101611312565b50505050505050949350505050565b6002546001600160a01b031633146114695760405162461bcd60e51b81526020600482015260096024820152682737ba1037bbb732b960b91b60448201526064016107f2565b81158061147557505f81115b6114b25760405162461bcd60e51b815260206004820152600e60248201526d496e76616c69642077696e646f7760901b60448201526064016107f2565b6009839055600a829055600b81905560408051848152602081018490529081018290527fbb3c33e08a4d42194225ee3fd0960321f07d8d494842e79117cb13b70bdc15649060600160405180910390a1505050565b335f9081526001602052604090205460ff166115655760405162461bcd60e51b815260206004820152601660248201527f4e6f7420617574686f72697a656420757064617465720000000000000000000060448201526064016107f2565b61156f8282611f6e565b5050565b606061157e826123bf565b1561158857919050565b5f82815260076020908152604080832080548251818502810185019093528083529193909284015b82821015611604575f848152602090819020604080516060810182526003860290920180548352600180820154848601526002909101546001600160a01b03169183019190915290835290920191016115b0565b505050509050919050565b604080517f8b73c3c69bb8fe3d512ecc4cf759cc79239f7b179b0ffacaa9a75d522b39400f6020808301919091527f65de1b284c581615e2067df73a9434841589c4382ef0732c1713f2b8900e2cee828401527fc89efdaa54c0f20c7adf612882df0950f5a951637e0307cdcb4c672f298b8bc660608301524660808301523060a0808401919091528351808403909101815260c0830184528051908201207ffa7221505ccaa1effd2c6679912e522ff9d56ebd9941540e4623046e79b69c3860e08401526101008301879052610120830186905261014080840186905284518085039091018152610160840194859052805192019190912061190160f01b845261016283019190915261018290910152604290205b9392505050565b5f8082810361174b5761174188888888610dab565b309150915061175d565b61175788888686610f7d565b30915091505b965096945050505050565b6002546001600160a01b031633146117ae5760405162461bcd60e51b81526020600482015260096024820152682737ba1037bbb732b960b91b60448201526064016107f2565b5f821180156117be5750600f8211155b61180a5760405162461bcd60e51b815260206004820152600e60248201527f496e76616c69642071756f72756d00000000000000000000000000000000000060448201526064016107f2565b61271081111561185c5760405162461bcd60e51b815260206004820152601160248201527f496e76616c696420646576696174696f6e00000000000000000000000000000060448201526064016107f2565b6005829055600681905560408051838152602081018390527f6784e9bcb845caaa98267d7b0918f97d3d17f7cb35a05b52010f7eb587a0acb0910160405180910390a15050565b5f8181526020818152604080832081516060810183528154815260018201549381018490526002909101546001600160a01b0316918101919091529082036118ed57505f92915050565b620151808160200151426119019190613361565b11159392505050565b5f611915838361284a565b90505f8169ffffffffffffffffffff16116107aa5760405162461bcd60e51b81526020600482015260136024820152725072696365206e6f7420617661696c61626c6560681b60448201526064016107f2565b5f8181526020818152604080832081516060810183528154815260018201549381018490526002909101546001600160a01b0316918101919091528291610cbd5760405162461bcd60e51b81526020600482015260136024820152725072696365206e6f7420617661696c61626c6560681b60448201526064016107f2565b5f5f5f611a0186868669ffffffffffffffffffff1661240f565b80516020909101519097909650945050505050565b6002546001600160a01b03163314611a5c5760405162461bcd60e51b81526020600482015260096024820152682737ba1037bbb732b960b91b60448201526064016107f2565b5f818152600d60205260408120549003611ab85760405162461bcd60e51b815260206004820152601460248201527f4e6f2071756172616e74696e656420707269636500000000000000000000000060448201526064016107f2565b5f818152600c60209081526040808320815160608101835281548152600182018054828601526002830180546001600160a01b0381168487015288885293879055908690556001600160a01b0319909216909155600d909252822091909155611b21828261291b565b8051602080830151604080519384529183015283917feee1e25db25e4018ed93d768d2835825d75cadc5922011c689d71fdf31bab543910160405180910390a280516020808301516040808501518151948552928401919091526001600160a01b039091169082015282907fb9f26901b015ee01cabc2af9042d52bc821b1aaedcb7b0e97199a99ac3277fdd90606001610a7b565b604051637677dee360e11b8152600481018290525f907f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03169063ecefbdc690602401602060405180830381865afa158015611c1b573d5f5f3e3d5ffd5b505050506040513d601f19601f820116820180604052508101906107aa91906135a4565b6040516331d98b3f60e01b8152600481018290525f908190819060609030906331d98b3f906024016040805180830381865afa158015611c81573d5f5f3e3d5ffd5b505050506040513d601f19601f82011682018060405250810190611ca591906135c3565b6040516259879d60e71b8152600481018890529195509350849084906008907f00000000000000000000000000000000000000000000000000000000000000006001600160a01b031690632cc3ce80906024015f60405180830381865afa158015611d12573d5f5f3e3d5ffd5b505050506040513d5f823e601f3d908101601f19168201604052611d399190810190613600565b60200151604051602001611d4d91906136d3565b60405160208183030381529060405293509350935093509193509193565b6002546001600160a01b03163314611db15760405162461bcd60e51b81526020600482015260096024820152682737ba1037bbb732b960b91b60448201526064016107f2565b6001600160a01b038116611df95760405162461bcd60e51b815260206004820152600f60248201526e496e76616c6964206164647265737360881b60448201526064016107f2565b6001600160a01b0381165f81815260086020526040808220805460ff19166001179055517f47d1c22a25bb3a5d4e481b9b1e6944c2eade3181a0a20b495ed61d35b5323f249190a250565b5f8281526020818152604080832081516060810183528154815260018201549381018490526002909101546001600160a01b03169181019190915290611ec25760405162461bcd60e51b81526020600482015260136024820152725072696365206e6f7420617661696c61626c6560681b60448201526064016107f2565b62015180816020015142611ed69190613361565b1115611f145760405162461bcd60e51b815260206004820152600d60248201526c141c9a58d9481d1bdbc81bdb19609a1b60448201526064016107f2565b5f848152600d602052604090205415611f635760405162461bcd60e51b8152602060048201526011602482015270141c9a58d9481c5d585c985b9d1a5b9959607a1b60448201526064016107f2565b519091111592915050565b5f8111611fad5760405162461bcd60e51b815260206004820152600d60248201526c496e76616c696420707269636560981b60448201526064016107f2565b604051637677dee360e11b8152600481018390527f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03169063ecefbdc690602401602060405180830381865afa158015612010573d5f5f3e3d5ffd5b505050506040513d601f19601f8201168201806040525081019061203491906135a4565b6120705760405162461bcd60e51b815260206004820152600d60248201526c155b9adb9bdddb88185cdcd95d609a1b60448201526064016107f2565b5f8281526007602090815260408083206004909252822054909190612096906001613374565b905060055460011480156120a957508154155b1561210357336001600160a01b031681857f11801e837f824b0e768cbe03facceddfb2c70338a42c93a042df94c8aeb30064866040516120eb91815260200190565b60405180910390a46120fd84846129ef565b50505050565b61210c846123bf565b15612160578154604051908152819085907f63f05dae783df2d324601c05b394060e4be8594ac8d1887629e4c22f4559621e9060200160405180910390a35f84815260076020526040812061216091612f23565b5f5b82548110156121f857336001600160a01b031683828154811061218757612187613339565b5f9182526020909120600260039092020101546001600160a01b0316036121f05760405162461bcd60e51b815260206004820152601060248201527f416c7265616479207265706f727465640000000000000000000000000000000060448201526064016107f2565b600101612162565b506040805160608101825284815242602080830191825233838501818152875460018082018a555f8a8152859020965160039092029096019081559351948401949094559251600290920180546001600160a01b0319166001600160a01b039093169290921790915591518581529091839187917f11801e837f824b0e768cbe03facceddfb2c70338a42c93a042df94c8aeb30064910160405180910390a4600554825410156122a85750505050565b5f6122b283612b31565b90505f5b835481101561239e575f8482815481106122d2576122d2613339565b5f918252602082206003909102015491508382116122f9576122f48285613361565b612303565b6123038483613361565b9050600654846123139190613387565b61231f82612710613387565b11156123945785838154811061233757612337613339565b5f91825260209182902060026003909202010154604080518581529283018790526001600160a01b039091169187918b917fb124663fe0f2c9f400f71b624e8230d81580efd42e7ac91f2f427cb945d5fcc9910160405180910390a45b50506001016122b6565b505f8581526007602052604081206123b591612f23565b61093c85826129ef565b5f8181526007602052604081208054158015906117255750610e10815f815481106123ec576123ec613339565b905f5260205f20906003020160010154426124079190613361565b119392505050565b61243960405180606001604052805f81526020015f81526020015f6001600160a01b031681525090565b428311156124895760405162461bcd60e51b815260206004820152601160248201527f496e76616c69642074696d657374616d7000000000000000000000000000000060448201526064016107f2565b5f848152600d60205260409020548015806124a357508381115b6124e35760405162461bcd60e51b8152602060048201526011602482015270141c9a58d9481c5d585c985b9d1a5b9959607a1b60448201526064016107f2565b5f8581526004602052604090205483158015906125005750808411155b8015612515575080612513603086613374565b115b6125575760405162461bcd60e51b81526020600482015260136024820152725072696365206e6f7420617661696c61626c6560681b60448201526064016107f2565b5f8681526003602052604090206030612571600187613361565b61257b91906133b2565b6030811061258b5761258b613339565b6040805160608101825260039290920292909201805482526001810154602083018190526002909101546001600160a01b03169282019290925293508510156126165760405162461bcd60e51b815260206004820152601260248201527f496e76616c696420726f756e642068696e74000000000000000000000000000060448201526064016107f2565b8084148061265357505f86815260036020526040902085906126396030876133b2565b6030811061264957612649613339565b6003020160010154115b61269f5760405162461bcd60e51b815260206004820152601260248201527f496e76616c696420726f756e642068696e74000000000000000000000000000060448201526064016107f2565b620151808360200151866126b39190613361565b11156126f15760405162461bcd60e51b815260206004820152600d60248201526c141c9a58d9481d1bdbc81bdb19609a1b60448201526064016107f2565b50509392505050565b5f5f612706858461284a565b9050805f03612718575f915050611725565b5f8581526003602052604081206030612732600185613361565b61273c91906133b2565b6030811061274c5761274c613339565b60030201905061276285825f0154600954612d08565b1561277257600192505050611725565b600a545f03612785575f92505050611725565b5f8681526004602052604081205490603082116127a35760016127b9565b6127ae603083613361565b6127b9906001613374565b90505b80841180156127db575085600b5484600101546127d99190613374565b115b1561282e57836127ea816133c5565b5f8a815260036020526040902090955090506030612809600187613361565b61281391906133b2565b6030811061282357612823613339565b6003020192506127bc565b61283e87845f0154600a54612d08565b98975050505050505050565b5f82815260046020526040812054816030821161286857600161287e565b612873603083613361565b61287e906001613374565b9050815b8181106128e8575f868152600360205260409020859060306128a5600185613361565b6128af91906133b2565b603081106128bf576128bf613339565b6003020160010154116128d65792506107aa915050565b806128e0816133c5565b915050612882565b505f95945050505050565b5f5f5f5f6129018686612d5a565b9250925092506129118282612da3565b5090949350505050565b5f828152602081815260408083208451815584830151600182015584820151600290910180546001600160a01b0319166001600160a01b039092169190911790556003825280832060049092529091205482919061297b906030906133b2565b6030811061298b5761298b613339565b8251600391909102919091019081556020808301516001830155604092830151600290920180546001600160a01b0319166001600160a01b03909316929092179091555f84815260049091529081208054916129e68361370c565b91905055505050565b604080516060810182528281524260208083019190915233828401525f858152600d9091529190912054158015612a2e5750612a2c8383426126fa565b155b15612a8757612a3d838261291b565b60408051838152426020820152339181019190915283907fb9f26901b015ee01cabc2af9042d52bc821b1aaedcb7b0e97199a99ac3277fdd906060015b60405180910390a2505050565b5f838152600d60205260408120549003612aac575f838152600d602052604090204290555b5f838152600c60209081526040918290208351815583820151600182015583830151600290910180546001600160a01b0319166001600160a01b0390921691909117905581518481524291810191909152339181019190915283907f8f92f76741189026115f8bc8ec78802062209ed0ac8620b9d21b666ff8ddf47690606001612a7a565b80545f90818167ffffffffffffffff811115612b4f57612b4f6133ed565b604051908082528060200260200182016040528015612b78578160200160208202803683370190505b5090505f5b82811015612c5d575f858281548110612b9857612b98613339565b5f9182526020909120600390910201549050815b5f81118015612bdd57508184612bc3600184613361565b81518110612bd357612bd3613339565b6020026020010151115b15612c355783612bee600183613361565b81518110612bfe57612bfe613339565b6020026020010151848281518110612c1857612c18613339565b602090810291909101015280612c2d816133c5565b915050612bac565b81848281518110612c4857612c48613339565b60209081029190910101525050600101612b7d565b50612c696002836133b2565b600103612c9d5780612c7c6002846133da565b81518110612c8c57612c8c613339565b602002602001015192505050919050565b600281612caa82856133da565b81518110612cba57612cba613339565b6020026020010151826001600286612cd291906133da565b612cdc9190613361565b81518110612cec57612cec613339565b6020026020010151612cfe9190613374565b610f7591906133da565b5f815f03612d1757505f611725565b5f838511612d2e57612d298585613361565b612d38565b612d388486613361565b9050612d448385613387565b612d5082612710613387565b1195945050505050565b5f5f5f8351604103612d91576020840151604085015160608601515f1a612d8388828585612e5b565b955095509550505050612d9c565b505081515f91506002905b9250925092565b5f826003811115612db657612db6613724565b03612dbf575050565b6001826003811115612dd357612dd3613724565b03612df15760405163f645eedf60e01b815260040160405180910390fd5b6002826003811115612e0557612e05613724565b03612e265760405163fce698f760e01b8152600481018290526024016107f2565b6003826003811115612e3a57612e3a613724565b0361156f576040516335e2f38360e21b8152600481018290526024016107f2565b5f80807f7fffffffffffffffffffffffffffffff5d576e7357a4501ddfe92f46681b20a0841115612e9457505f91506003905082612f19565b604080515f808252602082018084528a905260ff891692820192909252606081018790526080810186905260019060a0016020604051602081039080840390855afa158015612ee5573d5f5f3e3d5ffd5b5050604051601f1901519150506001600160a01b038116612f1057505f925060019150829050612f19565b92505f91508190505b9450945094915050565b5080545f8255600302905f5260205f2090810190612f419190612f44565b50565b5b80821115612f70575f80825560018201556002810180546001600160a01b0319169055600301612f45565b5090565b5f60208284031215612f84575f5ffd5b81356001600160e01b031981168114611725575f5ffd5b6001600160a01b0381168114612f41575f5ffd5b5f60208284031215612fbf575f5ffd5b813561172581612f9b565b5f5f83601f840112612fda575f5ffd5b50813567ffffffffffffffff811115612ff1575f5ffd5b6020830191508360208260051b850101111561300b575f5ffd5b9250929050565b5f5f5f5f60408587031215613025575f5ffd5b843567ffffffffffffffff81111561303b575f5ffd5b61304787828801612fca565b909550935050602085013567ffffffffffffffff811115613066575f5ffd5b61307287828801612fca565b95989497509550505050565b5f6020828403121561308e575f5ffd5b5035919050565b5f5f604083850312156130a6575f5ffd5b8235915060208301356130b881612f9b565b809150509250929050565b803569ffffffffffffffffffff811681146130dc575f5ffd5b919050565b5f5f5f5f608085870312156130f4575f5ffd5b843593506020850135925060408501359150613112606086016130c3565b905092959194509250565b5f5f83601f84011261312d575f5ffd5b50813567ffffffffffffffff811115613144575f5ffd5b60208301915083602082850101111561300b575f5ffd5b5f5f5f5f6060858703121561316e575f5ffd5b8435935060208501359250604085013567ffffffffffffffff811115613192575f5ffd5b6130728782880161311d565b5f5f5f606084860312156131b0575f5ffd5b505081359360208301359350604090920135919050565b5f5f604083850312156131d8575f5ffd5b50508035926020909101359150565b602080825282518282018190525f918401906040840190835b8181101561324357835180518452602081015160208501526001600160a01b03604082015116604085015250606083019250602084019350600181019050613200565b509095945050505050565b5f5f5f5f5f5f60a08789031215613263575f5ffd5b863595506020870135945060408701359350613281606088016130c3565b9250608087013567ffffffffffffffff81111561329c575f5ffd5b6132a889828a0161311d565b979a9699509497509295939492505050565b5f5f5f606084860312156132cc575f5ffd5b83359250602084013591506132e3604085016130c3565b90509250925092565b84815283602082015260ff83166040820152608060608201525f8251806080840152806020850160a085015e5f60a0828501015260a0601f19601f83011684010191505095945050505050565b634e487b7160e01b5f52603260045260245ffd5b634e487b7160e01b5f52601160045260245ffd5b818103818111156107aa576107aa61334d565b808201808211156107aa576107aa61334d565b80820281158282048414176107aa576107aa61334d565b634e487b7160e01b5f52601260045260245ffd5b5f826133c0576133c061339e565b500690565b5f816133d3576133d361334d565b505f190190565b5f826133e8576133e861339e565b500490565b634e487b7160e01b5f52604160045260245ffd5b6040516080810167ffffffffffffffff81118282101715613424576134246133ed565b60405290565b604051601f8201601f1916810167ffffffffffffffff81118282101715613453576134536133ed565b604052919050565b5f67ffffffffffffffff821115613474576134746133ed565b50601f01601f191660200190565b5f5f5f60608486031215613494575f5ffd5b8335925060208401359150604084013567ffffffffffffffff8111156134b8575f5ffd5b8401601f810186136134c8575f5ffd5b803567ffffffffffffffff8111156134e2576134e26133ed565b8060051b6134f26020820161342a565b9182526020818401810192908101908984111561350d575f5ffd5b6020850192505b8383101561359557823567ffffffffffffffff811115613532575f5ffd5b8501603f81018b13613542575f5ffd5b60208101356135586135538261345b565b61342a565b8181526040838301018d101561356c575f5ffd5b816040840160208301375f60208383010152808552505050602082019150602083019250613514565b80955050505050509250925092565b5f602082840312156135b4575f5ffd5b81518015158114611725575f5ffd5b5f5f604083850312156135d4575f5ffd5b505080516020909101519092909150565b80516130dc81612f9b565b805160ff811681146130dc575f5ffd5b5f60208284031215613610575f5ffd5b815167ffffffffffffffff811115613626575f5ffd5b820160808185031215613637575f5ffd5b61363f613401565b81518152602082015167ffffffffffffffff81111561365c575f5ffd5b8201601f8101861361366c575f5ffd5b805161367a6135538261345b565b81815287602083850101111561368e575f5ffd5b8160208401602083015e5f602083830101528060208501525050506136b5604083016135e5565b60408201526136c6606083016135f0565b6060820152949350505050565b5f82518060208501845e7f202f205553440000000000000000000000000000000000000000000000000000920191825250600601919050565b5f6001820161371d5761371d61334d565b5060010190565b634e487b7160e01b5f52602160045260245ffdfea164736f6c634300081b000a";
 
 type PriceOracleConstructorParams =
   | [signer?: Signer]
@@ -327,12 +1270,16 @@ export class PriceOracle__factory extends ContractFactory {
   }
 
   override getDeployTransaction(
+    _assetRegistry: AddressLike,
     overrides?: NonPayableOverrides & { from?: string }
   ): Promise<ContractDeployTransaction> {
-    return super.getDeployTransaction(overrides || {});
+    return super.getDeployTransaction(_assetRegistry, overrides || {});
   }
-  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
-    return super.deploy(overrides || {}) as Promise<
+  override deploy(
+    _assetRegistry: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ) {
+    return super.deploy(_assetRegistry, overrides || {}) as Promise<
       PriceOracle & {
         deploymentTransaction(): ContractTransactionResponse;
       }
@@ -2,7 +2,13 @@
 /* tslint:disable */
 /* eslint-disable */
 export * as mocks from "./mocks";
+export { AssetRegistry__factory } from "./AssetRegistry__factory";
 export { BlindOracle__factory } from "./BlindOracle__factory";
 export { ChainlinkPriceOracle__factory } from "./ChainlinkPriceOracle__factory";
+export { CommitIntent__factory } from "./CommitIntent__factory";
+export { FallbackPriceOracle__factory } from "./FallbackPriceOracle__factory";
+export { IConfidentialFungibleToken__factory } from "./IConfidentialFungibleToken__factory";
+export { IPriceOracle__factory } from "./IPriceOracle__factory";
+export { MarketDeployer__factory } from "./MarketDeployer__factory";
 export { MarketFactory__factory } from "./MarketFactory__factory";
 export { PriceOracle__factory } from "./PriceOracle__factory";
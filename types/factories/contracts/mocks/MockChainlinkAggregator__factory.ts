@@ -176,7 +176,7 @@ const _abi = [
 ] as const;
 
 const _bytecode =
-  "0x6080604052348015600e575f5ffd5b50604051610336380380610336833981016040819052602b916055565b5f91909155600180546001600160581b03191660ff90921691909117610100179055426002556086565b5f5f604083850312156065575f5ffd5b82519150602083015160ff81168114607b575f5ffd5b809150509250929050565b6102a3806100935f395ff3fe608060405234801561000f575f5ffd5b506004361061007a575f3560e01c80637284e416116100585780637284e416146100bc5780639a6fc8f5146100fb578063f7a3080614610150578063feaf968c14610163575f5ffd5b80631ecc7d881461007e578063313ce5671461009357806354fd4d50146100ad575b5f5ffd5b61009161008c3660046101de565b600255565b005b60015460405160ff90911681526020015b60405180910390f35b604051600181526020016100a4565b604080518082018252600f81527f4d6f636b20507269636520466565640000000000000000000000000000000000602082015290516100a491906101f5565b61011961010936600461022a565b5f54600254919290919081908490565b6040805169ffffffffffffffffffff968716815260208101959095528401929092526060830152909116608082015260a0016100a4565b61009161015e3660046101de565b610185565b6001545f5460025461010090920469ffffffffffffffffffff16918083610119565b5f81905560018054610100900469ffffffffffffffffffff1690806101a98361025a565b91906101000a81548169ffffffffffffffffffff021916908369ffffffffffffffffffff160217905550504260028190555050565b5f602082840312156101ee575f5ffd5b5035919050565b602081525f82518060208401528060208501604085015e5f604082850101526040601f19601f83011684010191505092915050565b5f6020828403121561023a575f5ffd5b813569ffffffffffffffffffff81168114610253575f5ffd5b9392505050565b5f69ffffffffffffffffffff821669ffffffffffffffffffff810361028d57634e487b7160e01b5f52601160045260245ffd5b6001019291505056fea164736f6c634300081b000a";
+  "0x6080604052348015600e575f5ffd5b50604051610464380380610464833981016040819052602b916084565b600180546001600160581b03191660ff90921691909117610100908117808355604080518082018252948552426020808701918252939092046001600160501b03165f90815292839052909120925183555191015560b5565b5f5f604083850312156094575f5ffd5b82519150602083015160ff8116811460aa575f5ffd5b809150509250929050565b6103a2806100c25f395ff3fe608060405234801561000f575f5ffd5b506004361061007a575f3560e01c80637284e416116100585780637284e416146100dd5780639a6fc8f51461011c578063f7a3080614610166578063feaf968c14610179575f5ffd5b80631ecc7d881461007e578063313ce567146100b457806354fd4d50146100ce575b5f5ffd5b6100b261008c3660046102dd565b60018054610100900469ffffffffffffffffffff165f9081526020819052604090200155565b005b60015460405160ff90911681526020015b60405180910390f35b604051600181526020016100c5565b604080518082018252600f81527f4d6f636b20507269636520466565640000000000000000000000000000000000602082015290516100c591906102f4565b61012f61012a366004610329565b6101bd565b6040805169ffffffffffffffffffff968716815260208101959095528401929092526060830152909116608082015260a0016100c5565b6100b26101743660046102dd565b610260565b61012f60018054610100900469ffffffffffffffffffff165f8181526020818152604091829020825180840190935280548084529401549101819052909281908490565b69ffffffffffffffffffff81165f90815260208181526040808320815180830190925280548252600101549181018290528291829182918291906102475760405162461bcd60e51b815260206004820152600f60248201527f4e6f20646174612070726573656e740000000000000000000000000000000000604482015260640160405180910390fd5b8051602090910151969790969550859450879350915050565b60018054610100900469ffffffffffffffffffff16908061028083610359565b825469ffffffffffffffffffff91821661010093840a908102908302199091161790925560408051808201825294855242602080870191825260018054949094049094165f90815293849052922093518455905192019190915550565b5f602082840312156102ed575f5ffd5b5035919050565b602081525f82518060208401528060208501604085015e5f604082850101526040601f19601f83011684010191505092915050565b5f60208284031215610339575f5ffd5b813569ffffffffffffffffffff81168114610352575f5ffd5b9392505050565b5f69ffffffffffffffffffff821669ffffffffffffffffffff810361038c57634e487b7160e01b5f52601160045260245ffd5b6001019291505056fea164736f6c634300081b000a";
 
 type MockChainlinkAggregatorConstructorParams =
   | [signer?: Signer]
@@ -0,0 +1,296 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type {
+  Signer,
+  BigNumberish,
+  ContractDeployTransaction,
+  ContractRunner,
+} from "ethers";
+import type { NonPayableOverrides } from "../../../common";
+import type {
+  MockConfidentialToken,
+  MockConfidentialTokenInterface,
+} from "../../../contracts/mocks/MockConfidentialToken";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "name_",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "symbol_",
+        type: "string",
+      },
+      {
+        internalType: "uint8",
+        name: "decimals_",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "confidentialBalanceOf",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "euint64",
+        name: "amount",
+        type: "bytes32",
+      },
+    ],
+    name: "confidentialTransfer",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "transferred",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "euint64",
+        name: "amount",
+        type: "bytes32",
+      },
+    ],
+    name: "confidentialTransferFrom",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "transferred",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "decimals",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "holder",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "spender",
+        type: "address",
+      },
+    ],
+    name: "isOperator",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint64",
+        name: "amount",
+        type: "uint64",
+      },
+    ],
+    name: "mint",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "name",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "protocolId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "operator",
+        type: "address",
+      },
+      {
+        internalType: "uint48",
+        name: "until",
+        type: "uint48",
+      },
+    ],
+    name: "setOperator",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "symbol",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x608060405234801561000f575f5ffd5b5060405161112538038061112583398101604081905261002e9161027a565b6101a86100cc604080516080810182525f80825260208201819052918101829052606081019190915250604080516080810182527350157cffd6bbfa2dece204a89ec419c23ef5755d815273cd3ab3bd6bcc0c0bf3e27912a92043e817b1cf69602082015273a02cda4ca3a71d7c46997716f4283aa851c2881291810191909152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac606082015290565b80517f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970080546001600160a01b03199081166001600160a01b039384161790915560208301517f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497018054831691841691909117905560408301517f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497028054831691841691909117905560608301517f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497038054909216921691909117905550565b5f6101b3848261037b565b5060016101c0838261037b565b506002805460ff191660ff92909216919091179055506104359050565b634e487b7160e01b5f52604160045260245ffd5b5f82601f830112610200575f5ffd5b81516001600160401b03811115610219576102196101dd565b604051601f8201601f19908116603f011681016001600160401b0381118282101715610247576102476101dd565b60405281815283820160200185101561025e575f5ffd5b8160208501602083015e5f918101602001919091529392505050565b5f5f5f6060848603121561028c575f5ffd5b83516001600160401b038111156102a1575f5ffd5b6102ad868287016101f1565b602086015190945090506001600160401b038111156102ca575f5ffd5b6102d6868287016101f1565b925050604084015160ff811681146102ec575f5ffd5b809150509250925092565b600181811c9082168061030b57607f821691505b60208210810361032957634e487b7160e01b5f52602260045260245ffd5b50919050565b601f82111561037657805f5260205f20601f840160051c810160208510156103545750805b601f840160051c820191505b81811015610373575f8155600101610360565b50505b505050565b81516001600160401b03811115610394576103946101dd565b6103a8816103a284546102f7565b8461032f565b6020601f8211600181146103da575f83156103c35750848201515b5f19600385901b1c1916600184901b178455610373565b5f84815260208120601f198516915b8281101561040957878501518255602094850194600190920191016103e9565b508482101561042657868401515f19600387901b60f8161c191681555b50505050600190811b01905550565b610ce3806104425f395ff3fe608060405234801561000f575f5ffd5b50600436106100b9575f3560e01c806395d89b4111610072578063d4febb9611610058578063d4febb9614610183578063da1f12ab146101d4578063eb3155b5146101dc575f5ffd5b806395d89b4114610158578063b6363cf214610160575f5ffd5b8063313ce567116100a2578063313ce567146100f0578063344ff1011461010f5780635bebed7e14610145575f5ffd5b806306fdde03146100bd5780632893c5b0146100db575b5f5ffd5b6100c56101ef565b6040516100d29190610aa7565b60405180910390f35b6100ee6100e9366004610af7565b61027a565b005b6002546100fd9060ff1681565b60405160ff90911681526020016100d2565b61013761011d366004610b38565b6001600160a01b03165f9081526003602052604090205490565b6040519081526020016100d2565b610137610153366004610b51565b610292565b6100c561030c565b61017361016e366004610b79565b610319565b60405190151581526020016100d2565b6100ee610191366004610baa565b335f9081526004602090815260408083206001600160a01b0395909516835293905291909120805465ffffffffffff191665ffffffffffff909216919091179055565b612711610137565b6101376101ea366004610bde565b61036d565b5f80546101fb90610c18565b80601f016020809104026020016040519081016040528092919081815260200182805461022790610c18565b80156102725780601f1061024957610100808354040283529160200191610272565b820191905f5260205f20905b81548152906001019060200180831161025557829003601f168201915b505050505081565b61028d5f8361028884610439565b610455565b505050565b5f61029d8233610578565b6102ee5760405162461bcd60e51b815260206004820152601a60248201527f556e617574686f72697a656420757365206f6620616d6f756e7400000000000060448201526064015b60405180910390fd5b6102f9338484610455565b90506103058133610583565b5092915050565b600180546101fb90610c18565b5f816001600160a01b0316836001600160a01b0316148061036657506001600160a01b038084165f9081526004602090815260408083209386168352929052205465ffffffffffff164211155b9392505050565b5f6103788233610578565b6103c45760405162461bcd60e51b815260206004820152601a60248201527f556e617574686f72697a656420757365206f6620616d6f756e7400000000000060448201526064016102e5565b6103ce8433610319565b61041a5760405162461bcd60e51b815260206004820152601460248201527f556e617574686f72697a6564207370656e64657200000000000000000000000060448201526064016102e5565b610425848484610455565b90506104318133610583565b509392505050565b5f61044f8267ffffffffffffffff166005610595565b92915050565b5f6001600160a01b03841661046b575080610508565b6001600160a01b0384165f9081526003602052604081205461048e90849061063f565b90506104a3818461049e5f610439565b61066d565b6001600160a01b0386165f90815260036020526040812054919350906104c99084610679565b6001600160a01b0387165f90815260036020526040902081905590506104ee816106a7565b506104f981876106b6565b5061050483876106b6565b5050505b6001600160a01b0383165f9081526003602052604081205461052a90836106c1565b6001600160a01b0385165f908152600360205260409020819055905061054f816106a7565b5061055a81856106b6565b50610564826106a7565b5061056f82856106b6565b50509392505050565b5f61036683836106ef565b5f61058e8383610773565b5090919050565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970154604051639cd07acb60e01b81525f915f516020610cb75f395f51905f52916001600160a01b0390911690639cd07acb906105f79087908790600401610c50565b6020604051808303815f875af1158015610613573d5f5f3e3d5ffd5b505050506040513d601f19601f820116820180604052508101906106379190610c80565b949350505050565b5f826106515761064e5f610439565b92505b816106625761065f5f610439565b91505b61036683835f6107e7565b5f6106378484846108b7565b5f8261068b576106885f610439565b92505b8161069c576106995f610439565b91505b61036683835f61094d565b5f6106b282306109d7565b5090565b5f61058e83836109d7565b5f826106d3576106d05f610439565b92505b816106e4576106e15f610439565b91505b61036683835f610a1d565b5f805f516020610cb75f395f51905f5280546040516382027b6d60e01b8152600481018790526001600160a01b0386811660248301529293509116906382027b6d90604401602060405180830381865afa15801561074f573d5f5f3e3d5ffd5b505050506040513d601f19601f820116820180604052508101906106379190610c97565b5f516020610cb75f395f51905f528054604051630f8e573b60e21b8152600481018590526001600160a01b03848116602483015290911690633e395cec906044015b5f604051808303815f87803b1580156107cc575f5ffd5b505af11580156107de573d5f5f3e3d5ffd5b50505050505050565b5f5f82156107fa5750600160f81b6107fd565b505f5b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970154604051631d44e90160e21b815260048101879052602481018690526001600160f81b0319831660448201525f516020610cb75f395f51905f52916001600160a01b031690637513a404906064015b6020604051808303815f875af1158015610889573d5f5f3e3d5ffd5b505050506040513d601f19601f820116820180604052508101906108ad9190610c80565b9695505050505050565b5f805f516020610cb75f395f51905f526001810154604051637702dcff60e01b81526004810188905260248101879052604481018690529192506001600160a01b031690637702dcff906064016020604051808303815f875af1158015610920573d5f5f3e3d5ffd5b505050506040513d601f19601f820116820180604052508101906109449190610c80565b95945050505050565b5f5f82156109605750600160f81b610963565b505f5b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649701546040516303056db360e31b815260048101879052602481018690526001600160f81b0319831660448201525f516020610cb75f395f51905f52916001600160a01b03169063182b6d989060640161086d565b5f516020610cb75f395f51905f528054604051635ca4b5b160e11b8152600481018590526001600160a01b0384811660248301529091169063b9496b62906044016107b5565b5f5f8215610a305750600160f81b610a33565b505f5b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497015460405163022f65e760e31b815260048101879052602481018690526001600160f81b0319831660448201525f516020610cb75f395f51905f52916001600160a01b03169063117b2f389060640161086d565b602081525f82518060208401528060208501604085015e5f604082850101526040601f19601f83011684010191505092915050565b80356001600160a01b0381168114610af2575f5ffd5b919050565b5f5f60408385031215610b08575f5ffd5b610b1183610adc565b9150602083013567ffffffffffffffff81168114610b2d575f5ffd5b809150509250929050565b5f60208284031215610b48575f5ffd5b61036682610adc565b5f5f60408385031215610b62575f5ffd5b610b6b83610adc565b946020939093013593505050565b5f5f60408385031215610b8a575f5ffd5b610b9383610adc565b9150610ba160208401610adc565b90509250929050565b5f5f60408385031215610bbb575f5ffd5b610bc483610adc565b9150602083013565ffffffffffff81168114610b2d575f5ffd5b5f5f5f60608486031215610bf0575f5ffd5b610bf984610adc565b9250610c0760208501610adc565b929592945050506040919091013590565b600181811c90821680610c2c57607f821691505b602082108103610c4a57634e487b7160e01b5f52602260045260245ffd5b50919050565b8281526040810160548310610c7357634e487b7160e01b5f52602160045260245ffd5b8260208301529392505050565b5f60208284031215610c90575f5ffd5b5051919050565b5f60208284031215610ca7575f5ffd5b81518015158114610366575f5ffdfe9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700a164736f6c634300081b000a";
+
+type MockConfidentialTokenConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: MockConfidentialTokenConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class MockConfidentialToken__factory extends ContractFactory {
+  constructor(...args: MockConfidentialTokenConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    name_: string,
+    symbol_: string,
+    decimals_: BigNumberish,
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(
+      name_,
+      symbol_,
+      decimals_,
+      overrides || {}
+    );
+  }
+  override deploy(
+    name_: string,
+    symbol_: string,
+    decimals_: BigNumberish,
+    overrides?: NonPayableOverrides & { from?: string }
+  ) {
+    return super.deploy(name_, symbol_, decimals_, overrides || {}) as Promise<
+      MockConfidentialToken & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(
+    runner: ContractRunner | null
+  ): MockConfidentialToken__factory {
+    return super.connect(runner) as MockConfidentialToken__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): MockConfidentialTokenInterface {
+    return new Interface(_abi) as MockConfidentialTokenInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): MockConfidentialToken {
+    return new Contract(
+      address,
+      _abi,
+      runner
+    ) as unknown as MockConfidentialToken;
+  }
+}
@@ -0,0 +1,642 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type {
+  Signer,
+  BigNumberish,
+  ContractDeployTransaction,
+  ContractRunner,
+} from "ethers";
+import type { NonPayableOverrides } from "../../../common";
+import type {
+  MockERC20Permit,
+  MockERC20PermitInterface,
+} from "../../../contracts/mocks/MockERC20Permit";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "name_",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "symbol_",
+        type: "string",
+      },
+      {
+        internalType: "uint8",
+        name: "decimals_",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "ECDSAInvalidSignature",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "length",
+        type: "uint256",
+      },
+    ],
+    name: "ECDSAInvalidSignatureLength",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "s",
+        type: "bytes32",
+      },
+    ],
+    name: "ECDSAInvalidSignatureS",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "spender",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "allowance",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "needed",
+        type: "uint256",
+      },
+    ],
+    name: "ERC20InsufficientAllowance",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "balance",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "needed",
+        type: "uint256",
+      },
+    ],
+    name: "ERC20InsufficientBalance",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "approver",
+        type: "address",
+      },
+    ],
+    name: "ERC20InvalidApprover",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "receiver",
+        type: "address",
+      },
+    ],
+    name: "ERC20InvalidReceiver",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+    ],
+    name: "ERC20InvalidSender",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "spender",
+        type: "address",
+      },
+    ],
+    name: "ERC20InvalidSpender",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "deadline",
+        type: "uint256",
+      },
+    ],
+    name: "ERC2612ExpiredSignature",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "signer",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+    ],
+    name: "ERC2612InvalidSigner",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "currentNonce",
+        type: "uint256",
+      },
+    ],
+    name: "InvalidAccountNonce",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidShortString",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "str",
+        type: "string",
+      },
+    ],
+    name: "StringTooLong",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "spender",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "value",
+        type: "uint256",
+      },
+    ],
+    name: "Approval",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [],
+    name: "EIP712DomainChanged",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "value",
+        type: "uint256",
+      },
+    ],
+    name: "Transfer",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "DOMAIN_SEPARATOR",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "spender",
+        type: "address",
+      },
+    ],
+    name: "allowance",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "spender",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "value",
+        type: "uint256",
+      },
+    ],
+    name: "approve",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "balanceOf",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "decimals",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "eip712Domain",
+    outputs: [
+      {
+        internalType: "bytes1",
+        name: "fields",
+        type: "bytes1",
+      },
+      {
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "version",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "chainId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "verifyingContract",
+        type: "address",
+      },
+      {
+        internalType: "bytes32",
+        name: "salt",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256[]",
+        name: "extensions",
+        type: "uint256[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "mint",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "name",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+    ],
+    name: "nonces",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "spender",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "value",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "deadline",
+        type: "uint256",
+      },
+      {
+        internalType: "uint8",
+        name: "v",
+        type: "uint8",
+      },
+      {
+        internalType: "bytes32",
+        name: "r",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes32",
+        name: "s",
+        type: "bytes32",
+      },
+    ],
+    name: "permit",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "symbol",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "totalSupply",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "value",
+        type: "uint256",
+      },
+    ],
+    name: "transfer",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "value",
+        type: "uint256",
+      },
+    ],
+    name: "transferFrom",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x610160604052348015610010575f5ffd5b5060405161139338038061139383398101604081905261002f9161024c565b6040805180820190915260018152603160f81b60208201528390819081856003610059838261034d565b506004610066828261034d565b5061007691508390506005610137565b61012052610085816006610137565b61014052815160208084019190912060e052815190820120610100524660a05261011160e05161010051604080517f8b73c3c69bb8fe3d512ecc4cf759cc79239f7b179b0ffacaa9a75d522b39400f60208201529081019290925260608201524660808201523060a08201525f9060c00160405160208183030381529060405280519060200120905090565b60805250503060c052506008805460ff191660ff929092169190911790555061045f9050565b5f6020835110156101525761014b83610169565b9050610163565b8161015d848261034d565b5060ff90505b92915050565b5f5f829050601f8151111561019c578260405163305a27a960e01b81526004016101939190610407565b60405180910390fd5b80516101a78261043c565b179392505050565b634e487b7160e01b5f52604160045260245ffd5b5f82601f8301126101d2575f5ffd5b81516001600160401b038111156101eb576101eb6101af565b604051601f8201601f19908116603f011681016001600160401b0381118282101715610219576102196101af565b604052818152838201602001851015610230575f5ffd5b8160208501602083015e5f918101602001919091529392505050565b5f5f5f6060848603121561025e575f5ffd5b83516001600160401b03811115610273575f5ffd5b61027f868287016101c3565b602086015190945090506001600160401b0381111561029c575f5ffd5b6102a8868287016101c3565b925050604084015160ff811681146102be575f5ffd5b809150509250925092565b600181811c908216806102dd57607f821691505b6020821081036102fb57634e487b7160e01b5f52602260045260245ffd5b50919050565b601f82111561034857805f5260205f20601f840160051c810160208510156103265750805b601f840160051c820191505b81811015610345575f8155600101610332565b50505b505050565b81516001600160401b03811115610366576103666101af565b61037a8161037484546102c9565b84610301565b6020601f8211600181146103ac575f83156103955750848201515b5f19600385901b1c1916600184901b178455610345565b5f84815260208120601f198516915b828110156103db57878501518255602094850194600190920191016103bb565b50848210156103f857868401515f19600387901b60f8161c191681555b50505050600190811b01905550565b602081525f82518060208401528060208501604085015e5f604082850101526040601f19601f83011684010191505092915050565b805160208083015191908110156102fb575f1960209190910360031b1b16919050565b60805160a05160c05160e051610100516101205161014051610ee36104b05f395f61075701525f61072a01525f61069f01525f61067701525f6105d201525f6105fc01525f6106260152610ee35ff3fe608060405234801561000f575f5ffd5b50600436106100e5575f3560e01c806370a082311161008857806395d89b411161006357806395d89b41146101d7578063a9059cbb146101df578063d505accf146101f2578063dd62ed3e14610205575f5ffd5b806370a08231146101815780637ecebe00146101a957806384b0196e146101bc575f5ffd5b806323b872dd116100c357806323b872dd1461013c578063313ce5671461014f5780633644e5151461016457806340c10f191461016c575f5ffd5b806306fdde03146100e9578063095ea7b31461010757806318160ddd1461012a575b5f5ffd5b6100f161023d565b6040516100fe9190610c88565b60405180910390f35b61011a610115366004610cbc565b6102cd565b60405190151581526020016100fe565b6002545b6040519081526020016100fe565b61011a61014a366004610ce4565b6102e6565b60085460405160ff90911681526020016100fe565b61012e610309565b61017f61017a366004610cbc565b610317565b005b61012e61018f366004610d1e565b6001600160a01b03165f9081526020819052604090205490565b61012e6101b7366004610d1e565b610325565b6101c4610342565b6040516100fe9796959493929190610d37565b6100f1610384565b61011a6101ed366004610cbc565b610393565b61017f610200366004610dcd565b6103a0565b61012e610213366004610e3a565b6001600160a01b039182165f90815260016020908152604080832093909416825291909152205490565b60606003805461024c90610e6b565b80601f016020809104026020016040519081016040528092919081815260200182805461027890610e6b565b80156102c35780601f1061029a576101008083540402835291602001916102c3565b820191905f5260205f20905b8154815290600101906020018083116102a657829003601f168201915b5050505050905090565b5f336102da8185856104db565b60019150505b92915050565b5f336102f38582856104ed565b6102fe858585610569565b506001949350505050565b5f6103126105c6565b905090565b61032182826106ef565b5050565b6001600160a01b0381165f908152600760205260408120546102e0565b5f6060805f5f5f6060610353610723565b61035b610750565b604080515f80825260208201909252600f60f81b9b939a50919850469750309650945092509050565b60606004805461024c90610e6b565b5f336102da818585610569565b834211156103c95760405163313c898160e11b8152600481018590526024015b60405180910390fd5b5f7f6e71edae12b1b97f4d1f60370fef10105fa2faae0126114a169c64845d6126c98888886104148c6001600160a01b03165f90815260076020526040902080546001810190915590565b6040805160208101969096526001600160a01b0394851690860152929091166060840152608083015260a082015260c0810186905260e0016040516020818303038152906040528051906020012090505f61046e8261077d565b90505f61047d828787876107a9565b9050896001600160a01b0316816001600160a01b0316146104c4576040516325c0072360e11b81526001600160a01b0380831660048301528b1660248201526044016103c0565b6104cf8a8a8a6104db565b50505050505050505050565b6104e883838360016107d5565b505050565b6001600160a01b038381165f908152600160209081526040808320938616835292905220545f19811015610563578181101561055557604051637dc7a0d960e11b81526001600160a01b038416600482015260248101829052604481018390526064016103c0565b61056384848484035f6107d5565b50505050565b6001600160a01b03831661059257604051634b637e8f60e11b81525f60048201526024016103c0565b6001600160a01b0382166105bb5760405163ec442f0560e01b81525f60048201526024016103c0565b6104e88383836108a7565b5f306001600160a01b037f00000000000000000000000000000000000000000000000000000000000000001614801561061e57507f000000000000000000000000000000000000000000000000000000000000000046145b1561064857507f000000000000000000000000000000000000000000000000000000000000000090565b610312604080517f8b73c3c69bb8fe3d512ecc4cf759cc79239f7b179b0ffacaa9a75d522b39400f60208201527f0000000000000000000000000000000000000000000000000000000000000000918101919091527f000000000000000000000000000000000000000000000000000000000000000060608201524660808201523060a08201525f9060c00160405160208183030381529060405280519060200120905090565b6001600160a01b0382166107185760405163ec442f0560e01b81525f60048201526024016103c0565b6103215f83836108a7565b60606103127f000000000000000000000000000000000000000000000000000000000000000060056109cd565b60606103127f000000000000000000000000000000000000000000000000000000000000000060066109cd565b5f6102e06107896105c6565b8360405161190160f01b8152600281019290925260228201526042902090565b5f5f5f5f6107b988888888610a76565b9250925092506107c98282610b3e565b50909695505050505050565b6001600160a01b0384166107fe5760405163e602df0560e01b81525f60048201526024016103c0565b6001600160a01b03831661082757604051634a1406b160e11b81525f60048201526024016103c0565b6001600160a01b038085165f908152600160209081526040808320938716835292905220829055801561056357826001600160a01b0316846001600160a01b03167f8c5be1e5ebec7d5bd14f71427d1e84f3dd0314c0f7b2291e5b200ac8c7c3b9258460405161089991815260200190565b60405180910390a350505050565b6001600160a01b0383166108d1578060025f8282546108c69190610ea3565b909155506109419050565b6001600160a01b0383165f90815260208190526040902054818110156109235760405163391434e360e21b81526001600160a01b038516600482015260248101829052604481018390526064016103c0565b6001600160a01b0384165f9081526020819052604090209082900390555b6001600160a01b03821661095d5760028054829003905561097b565b6001600160a01b0382165f9081526020819052604090208054820190555b816001600160a01b0316836001600160a01b03167fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef836040516109c091815260200190565b60405180910390a3505050565b606060ff83146109e7576109e083610bf6565b90506102e0565b8180546109f390610e6b565b80601f0160208091040260200160405190810160405280929190818152602001828054610a1f90610e6b565b8015610a6a5780601f10610a4157610100808354040283529160200191610a6a565b820191905f5260205f20905b815481529060010190602001808311610a4d57829003601f168201915b505050505090506102e0565b5f80807f7fffffffffffffffffffffffffffffff5d576e7357a4501ddfe92f46681b20a0841115610aaf57505f91506003905082610b34565b604080515f808252602082018084528a905260ff891692820192909252606081018790526080810186905260019060a0016020604051602081039080840390855afa158015610b00573d5f5f3e3d5ffd5b5050604051601f1901519150506001600160a01b038116610b2b57505f925060019150829050610b34565b92505f91508190505b9450945094915050565b5f826003811115610b5157610b51610ec2565b03610b5a575050565b6001826003811115610b6e57610b6e610ec2565b03610b8c5760405163f645eedf60e01b815260040160405180910390fd5b6002826003811115610ba057610ba0610ec2565b03610bc15760405163fce698f760e01b8152600481018290526024016103c0565b6003826003811115610bd557610bd5610ec2565b03610321576040516335e2f38360e21b8152600481018290526024016103c0565b60605f610c0283610c33565b6040805160208082528183019092529192505f91906020820181803683375050509182525060208101929092525090565b5f60ff8216601f8111156102e057604051632cd44ac360e21b815260040160405180910390fd5b5f81518084528060208401602086015e5f602082860101526020601f19601f83011685010191505092915050565b602081525f610c9a6020830184610c5a565b9392505050565b80356001600160a01b0381168114610cb7575f5ffd5b919050565b5f5f60408385031215610ccd575f5ffd5b610cd683610ca1565b946020939093013593505050565b5f5f5f60608486031215610cf6575f5ffd5b610cff84610ca1565b9250610d0d60208501610ca1565b929592945050506040919091013590565b5f60208284031215610d2e575f5ffd5b610c9a82610ca1565b60ff60f81b8816815260e060208201525f610d5560e0830189610c5a565b8281036040840152610d678189610c5a565b606084018890526001600160a01b038716608085015260a0840186905283810360c0850152845180825260208087019350909101905f5b81811015610dbc578351835260209384019390920191600101610d9e565b50909b9a5050505050505050505050565b5f5f5f5f5f5f5f60e0888a031215610de3575f5ffd5b610dec88610ca1565b9650610dfa60208901610ca1565b95506040880135945060608801359350608088013560ff81168114610e1d575f5ffd5b9699959850939692959460a0840135945060c09093013592915050565b5f5f60408385031215610e4b575f5ffd5b610e5483610ca1565b9150610e6260208401610ca1565b90509250929050565b600181811c90821680610e7f57607f821691505b602082108103610e9d57634e487b7160e01b5f52602260045260245ffd5b50919050565b808201808211156102e057634e487b7160e01b5f52601160045260245ffd5b634e487b7160e01b5f52602160045260245ffdfea164736f6c634300081b000a";
+
+type MockERC20PermitConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: MockERC20PermitConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class MockERC20Permit__factory extends ContractFactory {
+  constructor(...args: MockERC20PermitConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    name_: string,
+    symbol_: string,
+    decimals_: BigNumberish,
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(
+      name_,
+      symbol_,
+      decimals_,
+      overrides || {}
+    );
+  }
+  override deploy(
+    name_: string,
+    symbol_: string,
+    decimals_: BigNumberish,
+    overrides?: NonPayableOverrides & { from?: string }
+  ) {
+    return super.deploy(name_, symbol_, decimals_, overrides || {}) as Promise<
+      MockERC20Permit & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): MockERC20Permit__factory {
+    return super.connect(runner) as MockERC20Permit__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): MockERC20PermitInterface {
+    return new Interface(_abi) as MockERC20PermitInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): MockERC20Permit {
+    return new Contract(address, _abi, runner) as unknown as MockERC20Permit;
+  }
+}
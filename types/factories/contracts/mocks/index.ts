@@ -2,3 +2,5 @@
 /* tslint:disable */
 /* eslint-disable */
 export { MockChainlinkAggregator__factory } from "./MockChainlinkAggregator__factory";
+export { MockConfidentialToken__factory } from "./MockConfidentialToken__factory";
+export { MockERC20Permit__factory } from "./MockERC20Permit__factory";
@@ -3,4 +3,5 @@
 /* eslint-disable */
 export * as chainlink from "./@chainlink";
 export * as fhevm from "./@fhevm";
+export * as openzeppelin from "./@openzeppelin";
 export * as contracts from "./contracts";
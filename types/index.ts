@@ -5,6 +5,8 @@ import type * as chainlink from "./@chainlink";
 export type { chainlink };
 import type * as fhevm from "./@fhevm";
 export type { fhevm };
+import type * as openzeppelin from "./@openzeppelin";
+export type { openzeppelin };
 import type * as contracts from "./contracts";
 export type { contracts };
 export * as factories from "./factories";
@@ -26,13 +28,65 @@ export type { IFHEVMExecutor } from "./@fhevm/solidity/lib/Impl.sol/IFHEVMExecut
 export { IFHEVMExecutor__factory } from "./factories/@fhevm/solidity/lib/Impl.sol/IFHEVMExecutor__factory";
 export type { IInputVerifier } from "./@fhevm/solidity/lib/Impl.sol/IInputVerifier";
 export { IInputVerifier__factory } from "./factories/@fhevm/solidity/lib/Impl.sol/IInputVerifier__factory";
+export type { IERC1155Errors } from "./@openzeppelin/contracts/interfaces/draft-IERC6093.sol/IERC1155Errors";
+export { IERC1155Errors__factory } from "./factories/@openzeppelin/contracts/interfaces/draft-IERC6093.sol/IERC1155Errors__factory";
+export type { IERC20Errors } from "./@openzeppelin/contracts/interfaces/draft-IERC6093.sol/IERC20Errors";
+export { IERC20Errors__factory } from "./factories/@openzeppelin/contracts/interfaces/draft-IERC6093.sol/IERC20Errors__factory";
+export type { IERC721Errors } from "./@openzeppelin/contracts/interfaces/draft-IERC6093.sol/IERC721Errors";
+export { IERC721Errors__factory } from "./factories/@openzeppelin/contracts/interfaces/draft-IERC6093.sol/IERC721Errors__factory";
+export type { IERC1363 } from "./@openzeppelin/contracts/interfaces/IERC1363";
+export { IERC1363__factory } from "./factories/@openzeppelin/contracts/interfaces/IERC1363__factory";
+export type { IERC5267 } from "./@openzeppelin/contracts/interfaces/IERC5267";
+export { IERC5267__factory } from "./factories/@openzeppelin/contracts/interfaces/IERC5267__factory";
+export type { ERC20 } from "./@openzeppelin/contracts/token/ERC20/ERC20";
+export { ERC20__factory } from "./factories/@openzeppelin/contracts/token/ERC20/ERC20__factory";
+export type { ERC20Permit } from "./@openzeppelin/contracts/token/ERC20/extensions/ERC20Permit";
+export { ERC20Permit__factory } from "./factories/@openzeppelin/contracts/token/ERC20/extensions/ERC20Permit__factory";
+export type { IERC20Metadata } from "./@openzeppelin/contracts/token/ERC20/extensions/IERC20Metadata";
+export { IERC20Metadata__factory } from "./factories/@openzeppelin/contracts/token/ERC20/extensions/IERC20Metadata__factory";
+export type { IERC20Permit } from "./@openzeppelin/contracts/token/ERC20/extensions/IERC20Permit";
+export { IERC20Permit__factory } from "./factories/@openzeppelin/contracts/token/ERC20/extensions/IERC20Permit__factory";
+export type { IERC20 } from "./@openzeppelin/contracts/token/ERC20/IERC20";
+export { IERC20__factory } from "./factories/@openzeppelin/contracts/token/ERC20/IERC20__factory";
+export type { SafeERC20 } from "./@openzeppelin/contracts/token/ERC20/utils/SafeERC20";
+export { SafeERC20__factory } from "./factories/@openzeppelin/contracts/token/ERC20/utils/SafeERC20__factory";
+export type { ECDSA } from "./@openzeppelin/contracts/utils/cryptography/ECDSA";
+export { ECDSA__factory } from "./factories/@openzeppelin/contracts/utils/cryptography/ECDSA__factory";
+export type { EIP712 } from "./@openzeppelin/contracts/utils/cryptography/EIP712";
+export { EIP712__factory } from "./factories/@openzeppelin/contracts/utils/cryptography/EIP712__factory";
+export type { IERC165 } from "./@openzeppelin/contracts/utils/introspection/IERC165";
+export { IERC165__factory } from "./factories/@openzeppelin/contracts/utils/introspection/IERC165__factory";
+export type { SafeCast } from "./@openzeppelin/contracts/utils/math/SafeCast";
+export { SafeCast__factory } from "./factories/@openzeppelin/contracts/utils/math/SafeCast__factory";
+export type { Nonces } from "./@openzeppelin/contracts/utils/Nonces";
+export { Nonces__factory } from "./factories/@openzeppelin/contracts/utils/Nonces__factory";
+export type { ShortStrings } from "./@openzeppelin/contracts/utils/ShortStrings";
+export { ShortStrings__factory } from "./factories/@openzeppelin/contracts/utils/ShortStrings__factory";
+export type { Strings } from "./@openzeppelin/contracts/utils/Strings";
+export { Strings__factory } from "./factories/@openzeppelin/contracts/utils/Strings__factory";
+export type { AssetRegistry } from "./contracts/AssetRegistry";
+export { AssetRegistry__factory } from "./factories/contracts/AssetRegistry__factory";
 export type { BlindOracle } from "./contracts/BlindOracle";
 export { BlindOracle__factory } from "./factories/contracts/BlindOracle__factory";
 export type { ChainlinkPriceOracle } from "./contracts/ChainlinkPriceOracle";
 export { ChainlinkPriceOracle__factory } from "./factories/contracts/ChainlinkPriceOracle__factory";
+export type { CommitIntent } from "./contracts/CommitIntent";
+export { CommitIntent__factory } from "./factories/contracts/CommitIntent__factory";
+export type { FallbackPriceOracle } from "./contracts/FallbackPriceOracle";
+export { FallbackPriceOracle__factory } from "./factories/contracts/FallbackPriceOracle__factory";
+export type { IConfidentialFungibleToken } from "./contracts/IConfidentialFungibleToken";
+export { IConfidentialFungibleToken__factory } from "./factories/contracts/IConfidentialFungibleToken__factory";
+export type { IPriceOracle } from "./contracts/IPriceOracle";
+export { IPriceOracle__factory } from "./factories/contracts/IPriceOracle__factory";
+export type { MarketDeployer } from "./contracts/MarketDeployer";
+export { MarketDeployer__factory } from "./factories/contracts/MarketDeployer__factory";
 export type { MarketFactory } from "./contracts/MarketFactory";
 export { MarketFactory__factory } from "./factories/contracts/MarketFactory__factory";
 export type { MockChainlinkAggregator } from "./contracts/mocks/MockChainlinkAggregator";
 export { MockChainlinkAggregator__factory } from "./factories/contracts/mocks/MockChainlinkAggregator__factory";
+export type { MockConfidentialToken } from "./contracts/mocks/MockConfidentialToken";
+export { MockConfidentialToken__factory } from "./factories/contracts/mocks/MockConfidentialToken__factory";
+export type { MockERC20Permit } from "./contracts/mocks/MockERC20Permit";
+export { MockERC20Permit__factory } from "./factories/contracts/mocks/MockERC20Permit__factory";
 export type { PriceOracle } from "./contracts/PriceOracle";
 export { PriceOracle__factory } from "./factories/contracts/PriceOracle__factory";